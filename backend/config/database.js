@@ -56,5 +56,29 @@ module.exports = {
       throw error;
     }
   },
+  // Run several queries on one connection inside BEGIN/COMMIT; rolls back if the callback throws
+  transaction: async (callback) => {
+    let client;
+    try {
+      client = await pool.connect();
+    } catch (error) {
+      if (error.code === 'ENOTFOUND') {
+        throw new Error('Database unavailable - Supabase project may be paused. Please check your Supabase dashboard.');
+      }
+      throw error;
+    }
+
+    try {
+      await client.query('BEGIN');
+      const result = await callback(client);
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => {});
+      throw error;
+    } finally {
+      client.release();
+    }
+  },
   pool
 };
\ No newline at end of file
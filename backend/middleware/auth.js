@@ -1,5 +1,6 @@
 const jwt = require('jsonwebtoken');
 const db = require('../config/database');
+const { isTwoFactorRequired } = require('../utils/twoFactor');
 
 const authenticateToken = async (req, res, next) => {
   const authHeader = req.headers['authorization'];
@@ -41,18 +42,61 @@ const authenticateToken = async (req, res, next) => {
 
   try {
     const decoded = jwt.verify(token, process.env.JWT_SECRET);
+
+    // Refresh tokens may only be exchanged at /api/auth/refresh
+    if (decoded.type === 'refresh') {
+      throw new jwt.JsonWebTokenError('Refresh token used as access token');
+    }
+
+    // Tokens issued before the session registry carry no session and are no longer accepted
+    if (!decoded.sid) {
+      throw new jwt.JsonWebTokenError('Token has no session');
+    }
     
-    // Verify user still exists
+    // Verify the user still exists and the session has not been revoked
     const userResult = await db.query(
-      'SELECT id, email, name, role, created_at FROM users WHERE id = $1',
-      [decoded.userId]
+      `SELECT u.id, u.email, u.name, u.role, u.created_at, u.email_verified_at, u.totp_enabled_at, u.deactivated_at,
+              s.last_seen_at < CURRENT_TIMESTAMP - INTERVAL '1 minute' AS session_stale
+       FROM users u
+       JOIN user_sessions s ON s.user_id = u.id
+       WHERE u.id = $1 AND s.id = $2 AND s.revoked_at IS NULL AND s.expires_at > CURRENT_TIMESTAMP`,
+      [decoded.userId, decoded.sid]
     );
 
     if (userResult.rows.length === 0) {
-      return res.status(401).json({ message: 'User not found' });
+      return res.status(401).json({
+        message: 'Your session has ended. Please log in again.',
+        error: 'SESSION_REVOKED'
+      });
+    }
+
+    const { session_stale: sessionStale, deactivated_at: deactivatedAt, ...user } = userResult.rows[0];
+
+    // Deactivation revokes every session, so this only catches requests racing it
+    if (deactivatedAt) {
+      return res.status(401).json({
+        message: 'This account has been deactivated. Contact an administrator.',
+        error: 'ACCOUNT_DEACTIVATED'
+      });
+    }
+
+    req.user = user;
+    req.sessionId = decoded.sid;
+
+    // Last-seen only needs minute precision, so most requests skip the write
+    if (sessionStale) {
+      db.query('UPDATE user_sessions SET last_seen_at = CURRENT_TIMESTAMP WHERE id = $1', [decoded.sid])
+        .catch((error) => console.error('❌ Failed to update session last-seen time:', error.message));
+    }
+
+    // Until a required enrollment is done, only the /api/auth routes (including 2FA setup) work
+    if (isTwoFactorRequired(req.user.role) && !req.user.totp_enabled_at && !req.originalUrl.startsWith('/api/auth/')) {
+      return res.status(403).json({
+        message: 'Two-factor authentication must be set up before using the dashboard',
+        error: 'TWO_FACTOR_SETUP_REQUIRED'
+      });
     }
 
-    req.user = userResult.rows[0];
     next();
   } catch (error) {
     console.error('Token verification error:', error);
@@ -86,18 +130,65 @@ const authenticateToken = async (req, res, next) => {
         res.setHeader('Vary', 'Origin');
       }
     }
-    return res.status(403).json({ message: 'Invalid or expired token' });
+    // Only token problems are auth failures; a database outage must not look like one
+    if (!(error instanceof jwt.JsonWebTokenError)) {
+      if (error.message && error.message.includes('Database unavailable')) {
+        return res.status(503).json({
+          message: 'Database connection failed - Supabase project may be paused. Please check your Supabase dashboard.',
+          error: 'SERVICE_UNAVAILABLE'
+        });
+      }
+      return res.status(500).json({ message: 'Internal server error' });
+    }
+
+    // 401 lets the client know it should try /api/auth/refresh before giving up
+    const expired = error.name === 'TokenExpiredError';
+    return res.status(401).json({
+      message: expired ? 'Access token expired' : 'Invalid or expired token',
+      error: expired ? 'TOKEN_EXPIRED' : 'INVALID_TOKEN'
+    });
   }
 };
 
-const generateToken = (userId) => {
+const ACCESS_TOKEN_TTL = process.env.JWT_EXPIRES_IN || '1h';
+const REFRESH_TOKEN_TTL = process.env.JWT_REFRESH_EXPIRES_IN || '30d';
+const REFRESH_TOKEN_SECRET = () => process.env.JWT_REFRESH_SECRET || process.env.JWT_SECRET;
+
+// Both tokens carry the session id (`sid`) from user_sessions
+const generateToken = (userId, sessionId) => {
+  return jwt.sign(
+    { userId, sid: sessionId, type: 'access' },
+    process.env.JWT_SECRET,
+    { expiresIn: ACCESS_TOKEN_TTL }
+  );
+};
+
+// `tokenId` becomes the `jti`; only the newest one of a session is accepted by /api/auth/refresh
+const generateRefreshToken = (userId, sessionId, tokenId) => {
   return jwt.sign(
-    { userId },
-    process.env.JWT_SECRET
-      );
+    { userId, sid: sessionId, type: 'refresh' },
+    REFRESH_TOKEN_SECRET(),
+    { expiresIn: REFRESH_TOKEN_TTL, jwtid: tokenId }
+  );
+};
+
+/**
+ * Verify a refresh token and return its payload. Throws if the token is invalid,
+ * expired, or is not a refresh token.
+ */
+const verifyRefreshToken = (refreshToken) => {
+  const decoded = jwt.verify(refreshToken, REFRESH_TOKEN_SECRET());
+
+  if (decoded.type !== 'refresh') {
+    throw new jwt.JsonWebTokenError('Not a refresh token');
+  }
+
+  return decoded;
 };
 
 module.exports = {
   authenticateToken,
-  generateToken
-};
\ No newline at end of file
+  generateToken,
+  generateRefreshToken,
+  verifyRefreshToken
+};
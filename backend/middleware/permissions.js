@@ -0,0 +1,22 @@
+const { hasPermission } = require('../utils/permissions');
+
+// Reject the request unless the authenticated user holds every listed permission.
+// Must run after authenticateToken.
+const requirePermission = (...permissions) => (req, res, next) => {
+  const missing = permissions.find(permission => !hasPermission(req.user, permission));
+
+  if (missing) {
+    console.log(`🚫 ${req.user?.email || 'Unknown user'} (${req.user?.role}) lacks permission: ${missing}`);
+    return res.status(403).json({
+      message: `Permission required: ${missing}`,
+      error: 'FORBIDDEN',
+      permission: missing
+    });
+  }
+
+  next();
+};
+
+module.exports = {
+  requirePermission
+};
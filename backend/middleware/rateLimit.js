@@ -0,0 +1,42 @@
+const rateLimit = require('express-rate-limit');
+
+/**
+ * Per-IP limiter for sensitive endpoints, much tighter than the global one in server.js.
+ * Unlike the global limiter it also applies to authenticated requests.
+ * @param {Object} options
+ * @param {number} options.max - Requests allowed per window
+ * @param {string} options.message - Message returned with the 429
+ * @param {number} [options.windowMs] - Window length, 15 minutes by default
+ */
+const createStrictLimiter = ({ max, message, windowMs = 15 * 60 * 1000 }) => rateLimit({
+  windowMs,
+  max,
+  standardHeaders: true,
+  legacyHeaders: false,
+  handler: (req, res) => {
+    console.log(`🚫 Strict rate limit exceeded for ${req.method} ${req.originalUrl} from IP: ${req.ip}`);
+    res.status(429).json({
+      message,
+      error: 'RATE_LIMIT_EXCEEDED',
+      retryAfter: Math.ceil((req.rateLimit.resetTime - Date.now()) / 1000)
+    });
+  }
+});
+
+// Endpoints that send email
+const accountEmailLimiter = createStrictLimiter({
+  max: 5,
+  message: 'Too many email requests, please try again later.'
+});
+
+// Endpoints that check one-time codes, which are only six digits
+const twoFactorLimiter = createStrictLimiter({
+  max: 10,
+  message: 'Too many verification attempts, please try again later.'
+});
+
+module.exports = {
+  createStrictLimiter,
+  accountEmailLimiter,
+  twoFactorLimiter
+};
@@ -1,18 +1,21 @@
 const express = require('express');
 const { authenticateToken } = require('../middleware/auth');
+const { requirePermission } = require('../middleware/permissions');
+const db = require('../config/database');
+const {
+  SESSION_SELECT_COLUMNS,
+  ACTIVE_SESSION_SQL,
+  revokeSession,
+  revokeUserSessions,
+  isUuid,
+  toSessionResponse
+} = require('../utils/sessions');
+const { recordAudit, recordAuditSafely, truncateAuditText } = require('../utils/auditLog');
 
 const router = express.Router();
 
-// Middleware to ensure user is admin
-const requireAdmin = (req, res, next) => {
-  if (req.user.role !== 'admin') {
-    return res.status(403).json({ message: 'Admin access required' });
-  }
-  next();
-};
-
 // Health check for webhook configuration
-router.get('/webhook-status', authenticateToken, requireAdmin, (req, res) => {
+router.get('/webhook-status', authenticateToken, requirePermission('system.webhooks.view'), (req, res) => {
   const status = {
     travelerWebhook: {
       configured: !!process.env.MAKE_TRAVELER_WEBHOOK_URL,
@@ -47,7 +50,7 @@ router.get('/webhook-status', authenticateToken, requireAdmin, (req, res) => {
 });
 
 // Send message to traveler via Make.com webhook
-router.post('/send-to-traveler', authenticateToken, requireAdmin, async (req, res) => {
+router.post('/send-to-traveler', authenticateToken, requirePermission('traveler.message.send'), async (req, res) => {
   try {
     const { conversationSid, message, travelerName, adminName } = req.body;
 
@@ -98,6 +101,14 @@ router.post('/send-to-traveler', authenticateToken, requireAdmin, async (req, re
 
     console.log('✅ Message sent to traveler via Make.com successfully');
 
+    await recordAuditSafely(req, {
+      action: 'traveler.message.send',
+      targetType: 'conversation',
+      targetId: conversationSid,
+      conversationSid,
+      metadata: { travelerName, message: truncateAuditText(message) }
+    });
+
     res.json({
       message: 'Message sent to traveler successfully',
       data: {
@@ -118,7 +129,7 @@ router.post('/send-to-traveler', authenticateToken, requireAdmin, async (req, re
 });
 
 // Update bot settings via Make.com webhook
-router.post('/bot-settings', authenticateToken, requireAdmin, async (req, res) => {
+router.post('/bot-settings', authenticateToken, requirePermission('bot.toggle'), async (req, res) => {
   try {
     const { action, type, conversationSid } = req.body;
 
@@ -181,6 +192,15 @@ router.post('/bot-settings', authenticateToken, requireAdmin, async (req, res) =
 
     console.log(`✅ ${type} ${action}d via Make.com successfully`);
 
+    // The previous state lives in Make.com, so only the requested state is known
+    await recordAuditSafely(req, {
+      action: 'bot.toggle',
+      targetType: conversationSid ? 'conversation' : 'bot',
+      targetId: conversationSid || type,
+      conversationSid,
+      after: { type, enabled: action === 'enable' }
+    });
+
     res.json({
       message: `${type} ${action}d successfully`,
       data: {
@@ -201,7 +221,7 @@ router.post('/bot-settings', authenticateToken, requireAdmin, async (req, res) =
 });
 
 // Get current bot settings for a conversation
-router.get('/bot-settings/:conversationSid', authenticateToken, requireAdmin, async (req, res) => {
+router.get('/bot-settings/:conversationSid', authenticateToken, requirePermission('bot.view'), async (req, res) => {
   try {
     const { conversationSid } = req.params;
 
@@ -226,7 +246,7 @@ router.get('/bot-settings/:conversationSid', authenticateToken, requireAdmin, as
 });
 
 // Send message to traveler via DM (different webhook)
-router.post('/send-to-traveler-dm', authenticateToken, requireAdmin, async (req, res) => {
+router.post('/send-to-traveler-dm', authenticateToken, requirePermission('traveler.dm.send'), async (req, res) => {
   try {
     const { conversationSid, message, travelerEmail, travelerPhone, travelerName, adminName } = req.body;
 
@@ -287,6 +307,14 @@ router.post('/send-to-traveler-dm', authenticateToken, requireAdmin, async (req,
 
     console.log(`✅ DM message sent to traveler ${travelerName} successfully`);
 
+    await recordAuditSafely(req, {
+      action: 'traveler.dm.send',
+      targetType: 'conversation',
+      targetId: conversationSid,
+      conversationSid,
+      metadata: { travelerName, travelerEmail, travelerPhone, message: truncateAuditText(message) }
+    });
+
     res.json({ 
       message: 'Message sent to traveler via DM webhook successfully',
       conversationSid,
@@ -302,4 +330,110 @@ router.post('/send-to-traveler-dm', authenticateToken, requireAdmin, async (req,
   }
 });
 
+// Active sessions across all users, optionally for one user
+router.get('/sessions', authenticateToken, requirePermission('user.sessions.manage'), async (req, res) => {
+  try {
+    const { userId } = req.query;
+    const params = [];
+    let userFilter = '';
+
+    if (userId) {
+      if (!isUuid(userId)) {
+        return res.status(400).json({ message: 'Invalid userId' });
+      }
+      params.push(userId);
+      userFilter = 'AND s.user_id = $1';
+    }
+
+    const result = await db.query(
+      `SELECT ${SESSION_SELECT_COLUMNS}, u.name AS user_name, u.email AS user_email, u.role AS user_role
+       FROM user_sessions s
+       JOIN users u ON u.id = s.user_id
+       WHERE ${ACTIVE_SESSION_SQL} ${userFilter}
+       ORDER BY u.name, s.last_seen_at DESC`,
+      params
+    );
+
+    res.json({
+      sessions: result.rows.map(row => ({
+        ...toSessionResponse(row, req.sessionId),
+        user: { id: row.user_id, name: row.user_name, email: row.user_email, role: row.user_role }
+      }))
+    });
+  } catch (error) {
+    console.error('❌ Error listing sessions:', error);
+    res.status(500).json({ message: 'Failed to load sessions' });
+  }
+});
+
+// Revoke any single session
+router.delete('/sessions/:id', authenticateToken, requirePermission('user.sessions.manage'), async (req, res) => {
+  try {
+    const session = isUuid(req.params.id) && await db.transaction(async (client) => {
+      const result = await client.query(
+        `SELECT s.id, s.user_id, s.user_agent, u.email AS user_email
+         FROM user_sessions s
+         JOIN users u ON u.id = s.user_id
+         WHERE s.id = $1`,
+        [req.params.id]
+      );
+
+      if (result.rows.length === 0 || !await revokeSession(client, req.params.id, 'revoked_by_admin')) {
+        return null;
+      }
+
+      await recordAudit(client, req, {
+        action: 'session.revoke',
+        targetType: 'session',
+        targetId: req.params.id,
+        metadata: { userId: result.rows[0].user_id, userEmail: result.rows[0].user_email, userAgent: result.rows[0].user_agent }
+      });
+      return result.rows[0];
+    });
+
+    if (!session) {
+      return res.status(404).json({ message: 'Session not found or already ended' });
+    }
+
+    console.log(`🚪 ${req.user.email} revoked session ${req.params.id}`);
+
+    res.json({ message: 'Session revoked' });
+  } catch (error) {
+    console.error('❌ Error revoking session:', error);
+    res.status(500).json({ message: 'Failed to revoke session' });
+  }
+});
+
+// Sign a user out everywhere, e.g. after a lost or stolen device
+router.post('/users/:userId/sessions/revoke', authenticateToken, requirePermission('user.sessions.manage'), async (req, res) => {
+  try {
+    if (!isUuid(req.params.userId)) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    const user = await db.query('SELECT id, email FROM users WHERE id = $1', [req.params.userId]);
+    if (user.rows.length === 0) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    const revoked = await db.transaction(async (client) => {
+      const count = await revokeUserSessions(client, req.params.userId, 'revoked_by_admin');
+      await recordAudit(client, req, {
+        action: 'user.sessions.revoke',
+        targetType: 'user',
+        targetId: req.params.userId,
+        metadata: { userEmail: user.rows[0].email, revoked: count }
+      });
+      return count;
+    });
+
+    console.log(`🚪 ${req.user.email} signed ${user.rows[0].email} out of ${revoked} session(s)`);
+
+    res.json({ message: `Signed out of ${revoked} session${revoked === 1 ? '' : 's'}`, revoked });
+  } catch (error) {
+    console.error('❌ Error revoking user sessions:', error);
+    res.status(500).json({ message: 'Failed to revoke sessions' });
+  }
+});
+
 module.exports = router; 
\ No newline at end of file
@@ -0,0 +1,169 @@
+const express = require('express');
+const { authenticateToken } = require('../middleware/auth');
+const { requirePermission } = require('../middleware/permissions');
+const db = require('../config/database');
+const { AUDIT_ACTIONS, AUDIT_SELECT_COLUMNS, toAuditEntryResponse } = require('../utils/auditLog');
+const { toCsv } = require('../utils/csv');
+
+const router = express.Router();
+
+const MAX_PAGE_SIZE = 200;
+const MAX_EXPORT_ROWS = 10000;
+
+const EXPORT_COLUMNS = [
+  { header: 'Time', value: row => row.created_at },
+  { header: 'Actor', value: row => row.actor_name },
+  { header: 'Actor email', value: row => row.actor_email },
+  { header: 'Actor role', value: row => row.actor_role },
+  { header: 'Action', value: row => row.action },
+  { header: 'Target type', value: row => row.target_type },
+  { header: 'Target ID', value: row => row.target_id },
+  { header: 'Conversation SID', value: row => row.conversation_sid },
+  { header: 'Before', value: row => row.before },
+  { header: 'After', value: row => row.after },
+  { header: 'Details', value: row => row.metadata },
+  { header: 'IP address', value: row => row.ip_address }
+];
+
+const handleDatabaseError = (res, error, fallbackMessage) => {
+  if (error.message && error.message.includes('Database unavailable')) {
+    return res.status(503).json({
+      message: 'Database connection failed - Supabase project may be paused. Please check your Supabase dashboard.',
+      error: 'SERVICE_UNAVAILABLE'
+    });
+  }
+  res.status(500).json({ message: fallbackMessage });
+};
+
+// WHERE clause for the filters shared by the list and the export; returns an error message for bad input
+const buildAuditFilter = (query) => {
+  const conditions = [];
+  const params = [];
+  const addCondition = (sql, value) => {
+    params.push(value);
+    conditions.push(sql.replace('?', `$${params.length}`));
+  };
+
+  if (query.actorId) {
+    addCondition('a.actor_id::text = ?', query.actorId);
+  }
+  if (query.conversationSid) {
+    addCondition('a.conversation_sid = ?', query.conversationSid.trim());
+  }
+  if (query.action) {
+    if (!AUDIT_ACTIONS.includes(query.action)) {
+      return { error: `Invalid action. Must be one of: ${AUDIT_ACTIONS.join(', ')}` };
+    }
+    addCondition('a.action = ?', query.action);
+  }
+
+  for (const [key, operator] of [['from', '>='], ['to', '<=']]) {
+    if (query[key]) {
+      const date = new Date(query[key]);
+      if (Number.isNaN(date.getTime())) {
+        return { error: `Invalid ${key} date` };
+      }
+      addCondition(`a.created_at ${operator} ?`, date.toISOString());
+    }
+  }
+
+  return {
+    where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '',
+    params
+  };
+};
+
+// List audit entries, newest first
+router.get('/', authenticateToken, requirePermission('audit.view'), async (req, res) => {
+  try {
+    const filter = buildAuditFilter(req.query);
+    if (filter.error) {
+      return res.status(400).json({ message: filter.error });
+    }
+
+    const page = Math.max(parseInt(req.query.page) || 1, 1);
+    const limit = Math.min(Math.max(parseInt(req.query.limit) || 50, 1), MAX_PAGE_SIZE);
+    const offset = (page - 1) * limit;
+
+    const result = await db.query(
+      `SELECT ${AUDIT_SELECT_COLUMNS}
+       FROM audit_log a
+       ${filter.where}
+       ORDER BY a.created_at DESC, a.id DESC
+       LIMIT $${filter.params.length + 1} OFFSET $${filter.params.length + 2}`,
+      [...filter.params, limit, offset]
+    );
+
+    const countResult = await db.query(
+      `SELECT COUNT(*) FROM audit_log a ${filter.where}`,
+      filter.params
+    );
+
+    const total = parseInt(countResult.rows[0].count);
+
+    res.json({
+      data: result.rows.map(toAuditEntryResponse),
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    });
+  } catch (error) {
+    console.error('❌ Error fetching audit log:', error);
+    handleDatabaseError(res, error, 'Failed to load audit log');
+  }
+});
+
+// People who appear in the log, for the actor filter
+router.get('/actors', authenticateToken, requirePermission('audit.view'), async (req, res) => {
+  try {
+    const result = await db.query(
+      `SELECT DISTINCT ON (a.actor_id) a.actor_id, a.actor_name, a.actor_email, a.actor_role
+       FROM audit_log a
+       WHERE a.actor_id IS NOT NULL
+       ORDER BY a.actor_id, a.created_at DESC`
+    );
+
+    res.json({
+      actors: result.rows
+        .map(row => ({ id: row.actor_id, name: row.actor_name, email: row.actor_email, role: row.actor_role }))
+        .sort((a, b) => (a.name || '').localeCompare(b.name || ''))
+    });
+  } catch (error) {
+    console.error('❌ Error fetching audit actors:', error);
+    handleDatabaseError(res, error, 'Failed to load audit actors');
+  }
+});
+
+// Download the filtered log as CSV (newest MAX_EXPORT_ROWS entries)
+router.get('/export', authenticateToken, requirePermission('audit.view'), async (req, res) => {
+  try {
+    const filter = buildAuditFilter(req.query);
+    if (filter.error) {
+      return res.status(400).json({ message: filter.error });
+    }
+
+    const result = await db.query(
+      `SELECT ${AUDIT_SELECT_COLUMNS}
+       FROM audit_log a
+       ${filter.where}
+       ORDER BY a.created_at DESC, a.id DESC
+       LIMIT $${filter.params.length + 1}`,
+      [...filter.params, MAX_EXPORT_ROWS]
+    );
+
+    console.log(`📤 ${req.user.email} exported ${result.rows.length} audit entries`);
+
+    const filename = `audit-log-${new Date().toISOString().slice(0, 10)}.csv`;
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.send(toCsv(EXPORT_COLUMNS, result.rows));
+  } catch (error) {
+    console.error('❌ Error exporting audit log:', error);
+    handleDatabaseError(res, error, 'Failed to export audit log');
+  }
+});
+
+module.exports = router;
@@ -1,46 +1,138 @@
 const express = require('express');
 const bcrypt = require('bcryptjs');
-const { generateToken, authenticateToken } = require('../middleware/auth');
+const jwt = require('jsonwebtoken');
+const { verifyRefreshToken, authenticateToken } = require('../middleware/auth');
+const { accountEmailLimiter, twoFactorLimiter } = require('../middleware/rateLimit');
 const db = require('../config/database');
 const twilioRoleService = require('../services/twilioRoleService');
+const { toUserResponse } = require('../utils/permissions');
+const { findUsableInvite, isOpenRegistrationEnabled } = require('../utils/invites');
+const {
+  passwordFingerprint,
+  generatePasswordResetToken,
+  generateEmailVerificationToken,
+  generateTwoFactorChallengeToken,
+  verifyAccountToken
+} = require('../utils/accountTokens');
+const { consumeRecoveryCode, verifyUserTotp } = require('../utils/twoFactor');
+const { startSession, renewSession, revokeSession, revokeUserSessions } = require('../utils/sessions');
+const mailService = require('../services/mailService');
 
 const router = express.Router();
 
-// Register
+const MIN_PASSWORD_LENGTH = 8;
+
+const ACCOUNT_DEACTIVATED_RESPONSE = {
+  message: 'This account has been deactivated. Contact an administrator.',
+  error: 'ACCOUNT_DEACTIVATED'
+};
+
+// Email failures are logged but never fail the request that triggered them
+const sendVerificationEmail = async (user) => {
+  try {
+    await mailService.sendEmailVerification(user, generateEmailVerificationToken(user));
+  } catch (mailError) {
+    console.error(`❌ Failed to send verification email to ${user.email}:`, mailError);
+  }
+};
+
+const handleDatabaseError = (res, error) => {
+  if (error.message && error.message.includes('Database unavailable')) {
+    return res.status(503).json({
+      message: 'Database connection failed - Supabase project may be paused. Please check your Supabase dashboard.',
+      error: 'SERVICE_UNAVAILABLE'
+    });
+  }
+  res.status(500).json({ message: 'Internal server error' });
+};
+
+// Whether the registration form may be used without an invite
+router.get('/registration', (req, res) => {
+  res.json({ openRegistration: isOpenRegistrationEnabled() });
+});
+
+// Register. The role comes from the invite; open registration (when enabled) creates experts.
 router.post('/register', async (req, res) => {
   try {
-    const { email, password, name, role } = req.body;
+    const { email, password, name, inviteToken } = req.body;
 
     if (!email || !password) {
       return res.status(400).json({ message: 'Email and password are required' });
     }
 
+    if (!inviteToken && !isOpenRegistrationEnabled()) {
+      return res.status(403).json({
+        message: 'Registration is by invitation only. Ask an admin for an invite link.',
+        error: 'INVITE_REQUIRED'
+      });
+    }
+
     // Ensure name is never null or empty
     const userName = name && name.trim() ? name.trim() : 'Expert';
-    const userRole = role || 'expert';
-
-    // Check if user already exists
-    const existingUser = await db.query(
-      'SELECT id FROM users WHERE email = $1',
-      [email]
-    );
-
-    if (existingUser.rows.length > 0) {
-      return res.status(409).json({ message: 'User already exists' });
-    }
 
     // Hash password
     const saltRounds = 12;
     const hashedPassword = await bcrypt.hash(password, saltRounds);
 
-    // Create user with explicit name validation
-    const result = await db.query(
-      'INSERT INTO users (email, password_hash, name, role) VALUES ($1, $2, $3, $4) RETURNING id, email, name, role, created_at',
-      [email, hashedPassword, userName, userRole]
-    );
+    // The invite row stays locked until the user exists, so two sign-ups cannot share it
+    const outcome = await db.transaction(async (client) => {
+      let invite = null;
 
-    const user = result.rows[0];
-    const token = generateToken(user.id);
+      if (inviteToken) {
+        invite = await findUsableInvite(client, inviteToken, { forUpdate: true });
+
+        if (!invite) {
+          return {
+            status: 400,
+            body: { message: 'This invite is invalid, has expired or has already been used', error: 'INVALID_INVITE' }
+          };
+        }
+
+        if (invite.email && invite.email.toLowerCase() !== email.trim().toLowerCase()) {
+          return {
+            status: 400,
+            body: { message: 'This invite was issued for a different email address', error: 'INVALID_INVITE' }
+          };
+        }
+      }
+
+      // Check if user already exists
+      const existingUser = await client.query(
+        'SELECT id FROM users WHERE email = $1',
+        [email]
+      );
+
+      if (existingUser.rows.length > 0) {
+        return { status: 409, body: { message: 'User already exists' } };
+      }
+
+      // An invite issued for this exact address already proves ownership of it
+      const emailVerified = Boolean(invite && invite.email);
+
+      // Create user with explicit name validation
+      const result = await client.query(
+        `INSERT INTO users (email, password_hash, name, role, email_verified_at)
+         VALUES ($1, $2, $3, $4, CASE WHEN $5::boolean THEN CURRENT_TIMESTAMP END)
+         RETURNING id, email, name, role, created_at, email_verified_at`,
+        [email, hashedPassword, userName, invite ? invite.role : 'expert', emailVerified]
+      );
+
+      if (invite) {
+        await client.query(
+          'UPDATE user_invites SET used_at = CURRENT_TIMESTAMP, used_by = $2 WHERE id = $1',
+          [invite.id, result.rows[0].id]
+        );
+      }
+
+      return { user: result.rows[0] };
+    });
+
+    if (!outcome.user) {
+      return res.status(outcome.status).json(outcome.body);
+    }
+
+    const user = outcome.user;
+    const { token, refreshToken } = await startSession(user.id, req);
 
     // Create Twilio user with appropriate role
     try {
@@ -52,15 +144,15 @@ router.post('/register', async (req, res) => {
     }
     console.log('✅ User registered successfully:', user.email);
 
+    if (!user.email_verified_at) {
+      await sendVerificationEmail(user);
+    }
+
     res.status(201).json({
       message: 'User created successfully',
-      user: {
-        id: user.id,
-        email: user.email,
-        name: user.name,
-        role: user.role
-      },
-      token
+      user: toUserResponse(user),
+      token,
+      refreshToken
     });
   } catch (error) {
     console.error('❌ Registration error:', error);
@@ -89,7 +181,7 @@ router.post('/login', async (req, res) => {
 
     // Find user
     const result = await db.query(
-      'SELECT id, email, password_hash, name, role, created_at FROM users WHERE email = $1',
+      'SELECT id, email, password_hash, name, role, created_at, email_verified_at, totp_enabled_at, deactivated_at FROM users WHERE email = $1',
       [email]
     );
 
@@ -108,19 +200,31 @@ router.post('/login', async (req, res) => {
       return res.status(401).json({ message: 'Invalid credentials' });
     }
 
-    const token = generateToken(user.id);
+    // Only revealed after the password checks out
+    if (user.deactivated_at) {
+      console.log('❌ Login refused, account deactivated:', email);
+      return res.status(403).json(ACCOUNT_DEACTIVATED_RESPONSE);
+    }
+
+    // With 2FA on, the password only earns a short-lived challenge for the second step
+    if (user.totp_enabled_at) {
+      console.log('🔐 Password accepted, waiting for two-factor code:', email);
+      return res.json({
+        message: 'Two-factor code required',
+        twoFactorRequired: true,
+        challengeToken: generateTwoFactorChallengeToken(user)
+      });
+    }
+
+    const { token, refreshToken } = await startSession(user.id, req);
 
     console.log('✅ Login successful for:', email);
 
     res.json({
       message: 'Login successful',
-      user: {
-        id: user.id,
-        email: user.email,
-        name: user.name,
-        role: user.role
-      },
-      token
+      user: toUserResponse(user),
+      token,
+      refreshToken
     });
   } catch (error) {
     console.error('❌ Login error:', error);
@@ -136,16 +240,337 @@ router.post('/login', async (req, res) => {
   }
 });
 
+// Second login step: an authenticator code or a recovery code for the challenge from /login
+router.post('/login/2fa', twoFactorLimiter, async (req, res) => {
+  try {
+    const { challengeToken, code, recoveryCode } = req.body;
+
+    if (!challengeToken || (!code && !recoveryCode)) {
+      return res.status(400).json({ message: 'Challenge token and a code are required' });
+    }
+
+    let decoded;
+    try {
+      decoded = verifyAccountToken(challengeToken, 'two_factor_challenge');
+    } catch (tokenError) {
+      console.log('❌ Two-factor challenge rejected:', tokenError.message);
+      return res.status(401).json({
+        message: 'Your sign-in attempt has expired. Please enter your password again.',
+        error: 'INVALID_TWO_FACTOR_CHALLENGE'
+      });
+    }
+
+    const outcome = await db.transaction(async (client) => {
+      const result = await client.query(
+        `SELECT id, email, name, role, created_at, email_verified_at, totp_enabled_at, totp_secret, totp_last_step, deactivated_at
+         FROM users WHERE id = $1 FOR UPDATE`,
+        [decoded.userId]
+      );
+
+      const user = result.rows[0];
+      if (!user || !user.totp_enabled_at) {
+        return { status: 401, body: { message: 'Two-factor authentication is not enabled', error: 'INVALID_TWO_FACTOR_CHALLENGE' } };
+      }
+
+      if (user.deactivated_at) {
+        return { status: 403, body: ACCOUNT_DEACTIVATED_RESPONSE };
+      }
+
+      const accepted = recoveryCode
+        ? await consumeRecoveryCode(client, user.id, recoveryCode)
+        : await verifyUserTotp(client, user, code);
+
+      if (!accepted) {
+        return { status: 401, body: { message: 'Invalid verification code', error: 'INVALID_TWO_FACTOR_CODE' } };
+      }
+
+      let recoveryCodesRemaining;
+      if (recoveryCode) {
+        const remaining = await client.query(
+          'SELECT COUNT(*)::int AS count FROM user_recovery_codes WHERE user_id = $1 AND used_at IS NULL',
+          [user.id]
+        );
+        recoveryCodesRemaining = remaining.rows[0].count;
+      }
+
+      return { user, recoveryCodesRemaining };
+    });
+
+    if (!outcome.user) {
+      console.log('❌ Two-factor code rejected for user:', decoded.userId);
+      return res.status(outcome.status).json(outcome.body);
+    }
+
+    const { user, recoveryCodesRemaining } = outcome;
+    const { token, refreshToken } = await startSession(user.id, req);
+
+    console.log(`✅ Login successful for: ${user.email} (${recoveryCode ? 'recovery code' : 'authenticator'})`);
+
+    res.json({
+      message: 'Login successful',
+      user: toUserResponse(user),
+      token,
+      refreshToken,
+      recoveryCodesRemaining
+    });
+  } catch (error) {
+    console.error('❌ Two-factor login error:', error);
+    handleDatabaseError(res, error);
+  }
+});
+
 // Get current user
 router.get('/me', authenticateToken, (req, res) => {
   res.json({
-    user: req.user
+    user: { ...toUserResponse(req.user), created_at: req.user.created_at }
   });
 });
 
-// Logout (client-side token removal)
-router.post('/logout', authenticateToken, (req, res) => {
-  res.json({ message: 'Logout successful' });
+// Exchange a refresh token for a new access token (refresh token is rotated)
+router.post('/refresh', async (req, res) => {
+  try {
+    const { refreshToken } = req.body;
+
+    if (!refreshToken) {
+      return res.status(400).json({ message: 'Refresh token is required' });
+    }
+
+    let decoded;
+    try {
+      decoded = verifyRefreshToken(refreshToken);
+    } catch (tokenError) {
+      console.log('❌ Refresh token rejected:', tokenError.message);
+      return res.status(401).json({
+        message: 'Invalid or expired refresh token',
+        error: 'INVALID_REFRESH_TOKEN'
+      });
+    }
+
+    const result = await db.query(
+      'SELECT id, email, name, role, email_verified_at, totp_enabled_at, deactivated_at FROM users WHERE id = $1',
+      [decoded.userId]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(401).json({
+        message: 'User not found',
+        error: 'INVALID_REFRESH_TOKEN'
+      });
+    }
+
+    const user = result.rows[0];
+
+    if (user.deactivated_at) {
+      return res.status(401).json(ACCOUNT_DEACTIVATED_RESPONSE);
+    }
+
+    // Refresh tokens from before the session registry, for a revoked session, or that were
+    // already exchanged end here
+    const renewed = decoded.sid ? await renewSession(decoded, req) : null;
+    if (!renewed) {
+      console.log('❌ Refresh rejected, session has ended for:', user.email);
+      return res.status(401).json({
+        message: 'Your session has ended. Please log in again.',
+        error: 'SESSION_REVOKED'
+      });
+    }
+
+    console.log('🔄 Session refreshed for:', user.email);
+
+    res.json({
+      message: 'Token refreshed',
+      user: toUserResponse(user),
+      token: renewed.token,
+      refreshToken: renewed.refreshToken
+    });
+  } catch (error) {
+    console.error('❌ Token refresh error:', error);
+    
+    if (error.message.includes('Database unavailable')) {
+      return res.status(503).json({ 
+        message: 'Database connection failed - Supabase project may be paused. Please check your Supabase dashboard.',
+        error: 'SERVICE_UNAVAILABLE'
+      });
+    }
+    
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Request a password reset email. The response is the same whether or not the account exists.
+router.post('/forgot-password', accountEmailLimiter, async (req, res) => {
+  try {
+    const { email } = req.body;
+
+    if (!email || typeof email !== 'string') {
+      return res.status(400).json({ message: 'Email is required' });
+    }
+
+    const result = await db.query(
+      'SELECT id, email, name, password_hash FROM users WHERE LOWER(email) = LOWER($1) AND deactivated_at IS NULL',
+      [email.trim()]
+    );
+
+    if (result.rows.length > 0) {
+      const user = result.rows[0];
+      console.log('🔑 Password reset requested for:', user.email);
+
+      // Not awaited, so response time does not reveal whether the account exists
+      mailService.sendPasswordReset(user, generatePasswordResetToken(user)).catch((mailError) => {
+        console.error(`❌ Failed to send password reset email to ${user.email}:`, mailError);
+      });
+    } else {
+      console.log('ℹ️ Password reset requested for unknown email:', email);
+    }
+
+    res.json({ message: 'If an account exists for that email, a reset link is on its way.' });
+  } catch (error) {
+    console.error('❌ Forgot password error:', error);
+    handleDatabaseError(res, error);
+  }
+});
+
+// Set a new password with the token from a reset email
+router.post('/reset-password', async (req, res) => {
+  try {
+    const { token, password } = req.body;
+
+    if (!token || !password) {
+      return res.status(400).json({ message: 'Token and password are required' });
+    }
+
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      return res.status(400).json({ message: `Password must be at least ${MIN_PASSWORD_LENGTH} characters long` });
+    }
+
+    let decoded;
+    try {
+      decoded = verifyAccountToken(token, 'password_reset');
+    } catch (tokenError) {
+      console.log('❌ Password reset token rejected:', tokenError.message);
+      return res.status(400).json({
+        message: 'This reset link is invalid or has expired. Please request a new one.',
+        error: 'INVALID_RESET_TOKEN'
+      });
+    }
+
+    const hashedPassword = await bcrypt.hash(password, 12);
+
+    // Only succeeds while the password is still the one the token was issued against
+    const outcome = await db.transaction(async (client) => {
+      const result = await client.query(
+        'SELECT id, email, password_hash FROM users WHERE id = $1 FOR UPDATE',
+        [decoded.userId]
+      );
+
+      const user = result.rows[0];
+      if (!user || passwordFingerprint(user.password_hash) !== decoded.pwd) {
+        return null;
+      }
+
+      // Following the emailed link also proves ownership of the address
+      await client.query(
+        `UPDATE users
+         SET password_hash = $2,
+             password_changed_at = CURRENT_TIMESTAMP,
+             email_verified_at = COALESCE(email_verified_at, CURRENT_TIMESTAMP)
+         WHERE id = $1`,
+        [user.id, hashedPassword]
+      );
+
+      // Whoever knew the old password is signed out everywhere
+      await revokeUserSessions(client, user.id, 'password_reset');
+
+      return user;
+    });
+
+    if (!outcome) {
+      return res.status(400).json({
+        message: 'This reset link has already been used. Please request a new one.',
+        error: 'INVALID_RESET_TOKEN'
+      });
+    }
+
+    console.log('🔑 Password reset completed for:', outcome.email);
+
+    res.json({ message: 'Your password has been reset. You can now sign in.' });
+  } catch (error) {
+    console.error('❌ Reset password error:', error);
+    handleDatabaseError(res, error);
+  }
+});
+
+// Confirm an email address with the token from a verification email
+router.post('/verify-email', async (req, res) => {
+  try {
+    const { token } = req.body;
+
+    if (!token) {
+      return res.status(400).json({ message: 'Token is required' });
+    }
+
+    let decoded;
+    try {
+      decoded = verifyAccountToken(token, 'email_verification');
+    } catch (tokenError) {
+      console.log('❌ Email verification token rejected:', tokenError.message);
+      return res.status(400).json({
+        message: tokenError instanceof jwt.TokenExpiredError
+          ? 'This verification link has expired. Sign in to get a new one.'
+          : 'This verification link is invalid.',
+        error: 'INVALID_VERIFICATION_TOKEN'
+      });
+    }
+
+    // The token is bound to the address it was sent to, in case the email has changed since
+    const result = await db.query(
+      `UPDATE users
+       SET email_verified_at = COALESCE(email_verified_at, CURRENT_TIMESTAMP)
+       WHERE id = $1 AND LOWER(email) = $2
+       RETURNING id, email, name, role, email_verified_at, totp_enabled_at`,
+      [decoded.userId, decoded.email]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(400).json({
+        message: 'This verification link is invalid.',
+        error: 'INVALID_VERIFICATION_TOKEN'
+      });
+    }
+
+    console.log('📧 Email verified for:', result.rows[0].email);
+
+    res.json({
+      message: 'Your email address has been confirmed.',
+      user: toUserResponse(result.rows[0])
+    });
+  } catch (error) {
+    console.error('❌ Email verification error:', error);
+    handleDatabaseError(res, error);
+  }
+});
+
+// Send the verification email again to the signed-in user
+router.post('/resend-verification', authenticateToken, accountEmailLimiter, async (req, res) => {
+  if (req.user.email_verified_at) {
+    return res.json({ message: 'Your email address is already confirmed.', alreadyVerified: true });
+  }
+
+  await sendVerificationEmail(req.user);
+
+  res.json({ message: `A new verification link has been sent to ${req.user.email}.`, alreadyVerified: false });
+});
+
+// Logout ends this session on the server; its tokens stop working immediately
+router.post('/logout', authenticateToken, async (req, res) => {
+  try {
+    await revokeSession(db, req.sessionId, 'logout');
+    console.log('👋 Session ended for:', req.user.email);
+    res.json({ message: 'Logout successful' });
+  } catch (error) {
+    console.error('❌ Logout error:', error);
+    handleDatabaseError(res, error);
+  }
 });
 
 module.exports = router;
\ No newline at end of file
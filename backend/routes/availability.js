@@ -0,0 +1,176 @@
+const express = require('express');
+const { authenticateToken } = require('../middleware/auth');
+const db = require('../config/database');
+const {
+  AVAILABILITY_OVERRIDES,
+  MAX_TIME_OFF_NOTE_LENGTH,
+  AVAILABILITY_COLUMNS_SQL,
+  isValidTimeZone,
+  isValidDate,
+  normalizeSchedule,
+  toAvailability
+} = require('../utils/availability');
+
+const router = express.Router();
+
+const handleDatabaseError = (res, error, fallbackMessage) => {
+  if (error.message && error.message.includes('Database unavailable')) {
+    return res.status(503).json({
+      message: 'Database connection failed - Supabase project may be paused. Please check your Supabase dashboard.',
+      error: 'SERVICE_UNAVAILABLE'
+    });
+  }
+  res.status(500).json({ message: fallbackMessage });
+};
+
+// Settings and current status of a user
+const loadAvailability = async (userId) => {
+  const [userResult, timeOffResult] = await Promise.all([
+    db.query(`SELECT ${AVAILABILITY_COLUMNS_SQL} FROM users u WHERE u.id = $1`, [userId]),
+    db.query(
+      `SELECT id, starts_on::text AS starts_on, ends_on::text AS ends_on, note
+       FROM expert_time_off
+       WHERE user_id = $1 AND ends_on >= CURRENT_DATE - 1
+       ORDER BY starts_on`,
+      [userId]
+    )
+  ]);
+  const row = userResult.rows[0];
+
+  return {
+    timezone: row.timezone,
+    schedule: row.weekly_schedule,
+    override: row.availability_override,
+    timeOff: timeOffResult.rows.map(range => ({
+      id: range.id,
+      startsOn: range.starts_on,
+      endsOn: range.ends_on,
+      note: range.note
+    })),
+    status: toAvailability(row)
+  };
+};
+
+// The signed-in user's availability
+router.get('/', authenticateToken, async (req, res) => {
+  try {
+    res.json({ availability: await loadAvailability(req.user.id) });
+  } catch (error) {
+    console.error('❌ Error loading availability:', error);
+    handleDatabaseError(res, error, 'Failed to load availability');
+  }
+});
+
+// Replace the weekly schedule and/or timezone; `schedule: null` means always on shift
+router.put('/schedule', authenticateToken, async (req, res) => {
+  try {
+    const { timezone } = req.body;
+
+    if (timezone === undefined && req.body.schedule === undefined) {
+      return res.status(400).json({ message: 'Nothing to update. Send a timezone and/or schedule.' });
+    }
+
+    if (timezone !== undefined && !isValidTimeZone(timezone)) {
+      return res.status(400).json({ message: 'Unknown timezone. Use an IANA name such as Europe/Berlin.' });
+    }
+
+    const normalized = req.body.schedule === undefined ? null : normalizeSchedule(req.body.schedule);
+    if (normalized && normalized.error) {
+      return res.status(400).json({ message: normalized.error });
+    }
+
+    await db.query(
+      `UPDATE users
+       SET timezone = COALESCE($2, timezone),
+           weekly_schedule = CASE WHEN $3::boolean THEN $4::jsonb ELSE weekly_schedule END
+       WHERE id = $1`,
+      [req.user.id, timezone ?? null, normalized !== null, normalized ? JSON.stringify(normalized.schedule) : null]
+    );
+
+    console.log(`🗓️ ${req.user.email} updated their working hours`);
+
+    res.json({ message: 'Working hours saved', availability: await loadAvailability(req.user.id) });
+  } catch (error) {
+    console.error('❌ Error updating schedule:', error);
+    handleDatabaseError(res, error, 'Failed to save working hours');
+  }
+});
+
+// Set yourself away or available regardless of the schedule; null goes back to the schedule
+router.put('/status', authenticateToken, async (req, res) => {
+  try {
+    const override = req.body.override ?? null;
+
+    if (override !== null && !AVAILABILITY_OVERRIDES.includes(override)) {
+      return res.status(400).json({ message: `Invalid status. Must be one of: ${AVAILABILITY_OVERRIDES.join(', ')}, or null` });
+    }
+
+    await db.query(
+      `UPDATE users
+       SET availability_override = $2,
+           availability_override_at = CASE WHEN $2::text IS NULL THEN NULL ELSE CURRENT_TIMESTAMP END
+       WHERE id = $1`,
+      [req.user.id, override]
+    );
+
+    console.log(`🟢 ${req.user.email} set their availability to ${override || 'schedule'}`);
+
+    res.json({ message: 'Availability updated', availability: await loadAvailability(req.user.id) });
+  } catch (error) {
+    console.error('❌ Error updating availability status:', error);
+    handleDatabaseError(res, error, 'Failed to update availability');
+  }
+});
+
+// Add an out-of-office range, inclusive, in the user's timezone
+router.post('/time-off', authenticateToken, async (req, res) => {
+  try {
+    const { startsOn, endsOn } = req.body;
+    const note = typeof req.body.note === 'string' && req.body.note.trim() ? req.body.note.trim() : null;
+
+    if (!isValidDate(startsOn) || !isValidDate(endsOn) || endsOn < startsOn) {
+      return res.status(400).json({ message: 'startsOn and endsOn must be dates (YYYY-MM-DD), with endsOn on or after startsOn' });
+    }
+
+    if (note && note.length > MAX_TIME_OFF_NOTE_LENGTH) {
+      return res.status(400).json({ message: `Note must be at most ${MAX_TIME_OFF_NOTE_LENGTH} characters` });
+    }
+
+    await db.query(
+      'INSERT INTO expert_time_off (user_id, starts_on, ends_on, note) VALUES ($1, $2, $3, $4)',
+      [req.user.id, startsOn, endsOn, note]
+    );
+
+    console.log(`🏖️ ${req.user.email} is out of office ${startsOn} to ${endsOn}`);
+
+    res.status(201).json({ message: 'Out of office added', availability: await loadAvailability(req.user.id) });
+  } catch (error) {
+    console.error('❌ Error adding time off:', error);
+    handleDatabaseError(res, error, 'Failed to add out of office');
+  }
+});
+
+// Remove one of the user's own out-of-office ranges
+router.delete('/time-off/:id', authenticateToken, async (req, res) => {
+  try {
+    if (!/^\d+$/.test(req.params.id)) {
+      return res.status(404).json({ message: 'Out of office not found' });
+    }
+
+    const result = await db.query(
+      'DELETE FROM expert_time_off WHERE id = $1 AND user_id = $2 RETURNING id',
+      [req.params.id, req.user.id]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ message: 'Out of office not found' });
+    }
+
+    res.json({ message: 'Out of office removed', availability: await loadAvailability(req.user.id) });
+  } catch (error) {
+    console.error('❌ Error removing time off:', error);
+    handleDatabaseError(res, error, 'Failed to remove out of office');
+  }
+});
+
+module.exports = router;
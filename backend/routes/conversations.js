@@ -1,11 +1,96 @@
 const express = require('express');
 const { authenticateToken } = require('../middleware/auth');
+const { requirePermission } = require('../middleware/permissions');
+const { hasPermission } = require('../utils/permissions');
 const twilioService = require('../services/twilioService');
 const db = require('../config/database');
+const { recordAuditSafely } = require('../utils/auditLog');
+const { normalizeEmail } = require('../utils/contactDetails');
+const {
+  TRANSCRIPT_FORMATS,
+  DEFAULT_TIME_ZONE,
+  isValidTimeZone,
+  buildTranscript,
+  canRenderTranscriptPdf,
+  renderTranscript
+} = require('../utils/transcript');
 
 const router = express.Router();
 
-// Get main conversations with fast pagination
+// Categorize conversation type based on attributes
+const categorizeConversationType = (conversation) => {
+  const attributes = conversation.attributes || {};
+  
+  if (attributes.type === 'admin_traveler_dm' || attributes.typeOfChat === 'adminAndTraveler') {
+    return 'admin_traveler_dm';
+  }
+  if (attributes.type === 'expert_admin_dm' || attributes.typeOfChat === 'expertAndAdmin') {
+    return 'expert_admin_dm';
+  }
+  if (attributes.type === 'main_conversation' || attributes.typeOfChat === 'customerExpertAdmin') {
+    return 'main_conversation';
+  }
+  
+  // Default to main conversation if type is unclear
+  return 'main_conversation';
+};
+
+// FAST MODE: Categorize and filter by permission without expensive participant checks.
+// Participant checks happen on-demand when a conversation is selected.
+const filterConversationsForUser = (conversations, user) => {
+  const conversationStats = {
+    main: 0,
+    expertAdmin: 0,
+    adminTraveler: 0,
+    unknown: 0
+  };
+  const filteredConversations = [];
+
+  for (const conversation of conversations) {
+    const conversationType = categorizeConversationType(conversation);
+    const categorized = { ...conversation, conversationType };
+      
+    console.log(`📊 Conversation ${conversation.sid} categorized as: ${conversationType}`);
+    
+    if (hasPermission(user, 'conversation.viewAll')) {
+      // Admins, supervisors and auditors can see all conversation types initially
+      filteredConversations.push(categorized);
+      console.log(`⚡ Full-access conversation included (fast): ${conversation.sid} (${conversationType})`);
+    } else if (hasPermission(user, 'conversation.viewAssigned')) {
+      // For experts, include conversations that could be relevant
+      if (conversationType === 'expert_admin_dm' || conversationType === 'main_conversation') {
+        filteredConversations.push(categorized);
+        console.log(`⚡ Expert conversation included (fast): ${conversation.sid} (${conversationType})`);
+      }
+    } else {
+      // Other roles - include main conversations by default
+      if (conversationType === 'main_conversation') {
+        filteredConversations.push(categorized);
+        console.log(`⚡ User conversation included (fast): ${conversation.sid} (${conversationType})`);
+      }
+    }
+    
+    // Update stats
+    if (conversationType === 'main_conversation') conversationStats.main++;
+    else if (conversationType === 'expert_admin_dm') conversationStats.expertAdmin++;
+    else if (conversationType === 'admin_traveler_dm') conversationStats.adminTraveler++;
+    else conversationStats.unknown++;
+  }
+
+  return { filteredConversations, conversationStats };
+};
+
+// Newest dateUpdated in a list of conversations, used as the delta sync cursor
+const latestUpdate = (conversations) => {
+  const times = conversations
+    .map(conversation => new Date(conversation.dateUpdated).getTime())
+    .filter(time => !isNaN(time));
+  return times.length > 0 ? new Date(Math.max(...times)).toISOString() : null;
+};
+
+// Get main conversations with fast pagination.
+// Pass ?updatedSince=<ISO date> (the `sync.cursor` from a previous response) to receive
+// only conversations that changed since then instead of a full page.
 router.get('/main', authenticateToken, async (req, res) => {
   try {
     const user = req.user;
@@ -13,6 +98,51 @@ router.get('/main', authenticateToken, async (req, res) => {
     const limit = parseInt(req.query.limit) || 15;
     const offset = (page - 1) * limit;
 
+    let updatedSince = null;
+    if (req.query.updatedSince) {
+      updatedSince = new Date(req.query.updatedSince);
+      if (isNaN(updatedSince.getTime())) {
+        return res.status(400).json({ message: 'updatedSince must be a valid ISO date' });
+      }
+    }
+
+    if (updatedSince) {
+      console.log(`🔁 Delta sync of conversations since ${updatedSince.toISOString()} for user: ${user.email}`);
+
+      let delta;
+      try {
+        delta = await twilioService.fetchConversationsUpdatedSince(updatedSince);
+      } catch (twilioError) {
+        console.error('❌ Twilio service error:', twilioError);
+        return res.status(500).json({ 
+          message: 'Failed to fetch conversations from Twilio', 
+          details: twilioError.message,
+          service: 'twilio'
+        });
+      }
+
+      const { filteredConversations, conversationStats } = filterConversationsForUser(delta.conversations, user);
+
+      console.log(`🔁 DELTA: Returning ${filteredConversations.length} changed conversations for ${user.role} ${user.name}`);
+
+      return res.json({
+        conversations: filteredConversations,
+        total: filteredConversations.length,
+        categorization: conversationStats,
+        pagination: {
+          page: 1,
+          limit: filteredConversations.length,
+          hasMore: false,
+          isPartialLoad: true
+        },
+        sync: {
+          isDelta: true,
+          since: updatedSince.toISOString(),
+          cursor: delta.cursor
+        }
+      });
+    }
+
     console.log(`📋 Loading conversations page ${page} (limit: ${limit}, offset: ${offset}) for user: ${user.email}`);
     
     // Fetch conversations with improved pagination
@@ -31,75 +161,7 @@ router.get('/main', authenticateToken, async (req, res) => {
     const twilioConversations = conversationData.conversations;
     const hasMore = conversationData.hasMore;
     
-    let filteredConversations = [];
-    
-    // Helper function to categorize conversation type based on attributes
-    const categorizeConversationType = (conversation) => {
-      const attributes = conversation.attributes || {};
-      
-      if (attributes.type === 'admin_traveler_dm' || attributes.typeOfChat === 'adminAndTraveler') {
-        return 'admin_traveler_dm';
-      }
-      if (attributes.type === 'expert_admin_dm' || attributes.typeOfChat === 'expertAndAdmin') {
-        return 'expert_admin_dm';
-      }
-      if (attributes.type === 'main_conversation' || attributes.typeOfChat === 'customerExpertAdmin') {
-        return 'main_conversation';
-      }
-      
-      // Default to main conversation if type is unclear
-      return 'main_conversation';
-    };
-
-    // FAST MODE: Apply basic categorization without expensive participant checks
-    const conversationsWithBasicInfo = twilioConversations.map(conversation => ({
-      ...conversation,
-      conversationType: categorizeConversationType(conversation)
-    }));
-
-    const conversationStats = {
-      main: 0,
-      expertAdmin: 0,
-      adminTraveler: 0,
-      unknown: 0
-    };
-
-    // Clear and repopulate the existing filteredConversations array
-    filteredConversations = [];
-    
-    for (const conversation of conversationsWithBasicInfo) {
-      const conversationType = conversation.conversationType;
-        
-      console.log(`📊 Conversation ${conversation.sid} categorized as: ${conversationType}`);
-      
-      // FAST MODE: Basic filtering without expensive participant checks
-      if (user.role === 'expert') {
-        // For experts, include conversations that could be relevant
-        // Participant checks will happen on-demand when conversation is selected
-        if (conversationType === 'expert_admin_dm' || conversationType === 'main_conversation') {
-          filteredConversations.push(conversation);
-          console.log(`⚡ Expert conversation included (fast): ${conversation.sid} (${conversationType})`);
-        }
-      } else if (user.role === 'admin') {
-        // Admins can see all conversation types initially
-        // Detailed filtering happens on-demand
-        filteredConversations.push(conversation);
-        console.log(`⚡ Admin conversation included (fast): ${conversation.sid} (${conversationType})`);
-      } else {
-        // Other roles - include main conversations by default
-        // Detailed checks happen on-demand
-        if (conversationType === 'main_conversation') {
-          filteredConversations.push(conversation);
-          console.log(`⚡ User conversation included (fast): ${conversation.sid} (${conversationType})`);
-        }
-      }
-      
-      // Update stats
-      if (conversationType === 'main_conversation') conversationStats.main++;
-      else if (conversationType === 'expert_admin_dm') conversationStats.expertAdmin++;
-      else if (conversationType === 'admin_traveler_dm') conversationStats.adminTraveler++;
-      else conversationStats.unknown++;
-    }
+    const { filteredConversations, conversationStats } = filterConversationsForUser(twilioConversations, user);
 
     console.log(`⚡ FAST: Returning ${filteredConversations.length} conversations for ${user.role} ${user.name} (page ${page}):`, conversationStats);
     
@@ -112,6 +174,12 @@ router.get('/main', authenticateToken, async (req, res) => {
         limit,
         hasMore: hasMore, // Pass through the hasMore from Twilio service
         isPartialLoad: true // Indicates participants need to be loaded on-demand
+      },
+      sync: {
+        isDelta: false,
+        since: null,
+        // Cursor is taken before filtering so hidden conversations don't hold it back
+        cursor: latestUpdate(twilioConversations) || new Date().toISOString()
       }
     });
 
@@ -175,13 +243,99 @@ router.get('/:conversationSid/participants', authenticateToken, async (req, res)
   }
 });
 
-// Get messages for a specific conversation
+// Fetch one page of messages from the Twilio REST API
+const fetchTwilioMessagePage = async (url) => {
+  const response = await fetch(url, {
+    method: 'GET',
+    headers: {
+      'Authorization': `Basic ${Buffer.from(process.env.TWILIO_ACCOUNT_SID + ':' + process.env.TWILIO_AUTH_TOKEN).toString('base64')}`,
+      'Content-Type': 'application/json'
+    }
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error(`❌ Twilio REST API error:`, response.status, errorText);
+    throw new Error(`Failed to fetch messages from Twilio: ${response.status} - ${errorText}`);
+  }
+
+  return response.json();
+};
+
+// Twilio REST endpoint for a conversation's messages
+const getMessagesUrl = (conversationSid) => (process.env.TWILIO_CONVERSATIONS_SERVICE_SID
+  ? `https://conversations.twilio.com/v1/Services/${process.env.TWILIO_CONVERSATIONS_SERVICE_SID}/Conversations/${conversationSid}/Messages`
+  : `https://conversations.twilio.com/v1/Conversations/${conversationSid}/Messages`);
+
+// Transform a Twilio REST message to our format with safe date parsing
+const toMessageResponse = (msg, conversationSid) => {
+  // Safe date parsing with fallbacks
+  let dateCreated;
+  try {
+    if (msg.date_created) {
+      dateCreated = new Date(msg.date_created);
+      // Validate the date
+      if (isNaN(dateCreated.getTime())) {
+        console.warn(`⚠️ Invalid date_created for message ${msg.sid}: ${msg.date_created}`);
+        dateCreated = new Date(); // Use current date as fallback
+      }
+    } else {
+      console.warn(`⚠️ Missing date_created for message ${msg.sid}`);
+      dateCreated = new Date(); // Use current date as fallback
+    }
+  } catch (dateError) {
+    console.error(`❌ Date parsing error for message ${msg.sid}:`, dateError);
+    dateCreated = new Date(); // Use current date as fallback
+  }
+  
+  // Safe attributes parsing
+  let attributes = {};
+  let from = msg.author;
+  try {
+    if (msg.attributes) {
+      attributes = JSON.parse(msg.attributes);
+      from = attributes.from || msg.author;
+    }
+  } catch (attrError) {
+    console.warn(`⚠️ Failed to parse attributes for message ${msg.sid}:`, attrError);
+  }
+  
+  return {
+    sid: msg.sid || `msg_${Date.now()}`,
+    author: msg.author || 'Unknown',
+    body: msg.body || '',
+    dateCreated: dateCreated.toISOString(), // Convert to ISO string for safe transport
+    type: msg.type || 'text',
+    index: msg.index || 0,
+    participantSid: msg.participant_sid || null,
+    conversationSid: msg.conversation_sid || conversationSid,
+    attributes,
+    from,
+  };
+};
+
+// Upper bound on pages walked for a delta; a client this far behind should do a full reload
+const MAX_DELTA_PAGES = 10;
+
+// Get messages for a specific conversation.
+// Pass ?afterIndex=<n> (the `sync.lastIndex` from a previous response) to receive only
+// messages with a higher index. Edited and removed messages are not part of a delta; clients
+// reload the full list from time to time to pick those up.
 router.get('/:conversationSid/messages', authenticateToken, async (req, res) => {
   try {
     const { conversationSid } = req.params;
     const user = req.user;
 
-    console.log(`📨 Loading messages for conversation: ${conversationSid} (requested by: ${user.email})`);
+    let afterIndex = null;
+    if (req.query.afterIndex !== undefined) {
+      afterIndex = parseInt(req.query.afterIndex, 10);
+      if (isNaN(afterIndex) || afterIndex < -1) {
+        return res.status(400).json({ message: 'afterIndex must be an integer' });
+      }
+    }
+    const isDelta = afterIndex !== null;
+
+    console.log(`📨 Loading ${isDelta ? `messages after index ${afterIndex}` : 'messages'} for conversation: ${conversationSid} (requested by: ${user.email})`);
 
     if (!twilioService.conversationsConfigured) {
       return res.status(503).json({ 
@@ -191,82 +345,63 @@ router.get('/:conversationSid/messages', authenticateToken, async (req, res) =>
     }
 
     // Fetch messages from Twilio using backend credentials
-    const messagesUrl = process.env.TWILIO_CONVERSATIONS_SERVICE_SID 
-      ? `https://conversations.twilio.com/v1/Services/${process.env.TWILIO_CONVERSATIONS_SERVICE_SID}/Conversations/${conversationSid}/Messages`
-      : `https://conversations.twilio.com/v1/Conversations/${conversationSid}/Messages`;
-
-    console.log(`📡 Fetching messages from Twilio REST API: ${messagesUrl}`);
+    const messagesUrl = getMessagesUrl(conversationSid);
+
+    let twilioMessages;
+    let isComplete = true;
+
+    if (isDelta) {
+      // Walk newest-first and stop as soon as we reach a message the client already has
+      twilioMessages = [];
+      let pageUrl = `${messagesUrl}?Order=desc&PageSize=50`;
+      let pages = 0;
+      let reachedCursor = false;
+
+      while (pageUrl && !reachedCursor && pages < MAX_DELTA_PAGES) {
+        console.log(`📡 Fetching message delta page ${pages + 1} from Twilio REST API`);
+        const page = await fetchTwilioMessagePage(pageUrl);
+        pages++;
+
+        for (const msg of page.messages || []) {
+          if ((msg.index || 0) <= afterIndex) {
+            reachedCursor = true;
+            break;
+          }
+          twilioMessages.push(msg);
+        }
 
-    const response = await fetch(messagesUrl, {
-      method: 'GET',
-      headers: {
-        'Authorization': `Basic ${Buffer.from(process.env.TWILIO_ACCOUNT_SID + ':' + process.env.TWILIO_AUTH_TOKEN).toString('base64')}`,
-        'Content-Type': 'application/json'
+        pageUrl = page.meta && page.meta.next_page_url;
       }
-    });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`❌ Twilio REST API error:`, response.status, errorText);
-      throw new Error(`Failed to fetch messages from Twilio: ${response.status} - ${errorText}`);
+      isComplete = reachedCursor || !pageUrl;
+    } else {
+      console.log(`📡 Fetching messages from Twilio REST API: ${messagesUrl}`);
+      const twilioData = await fetchTwilioMessagePage(messagesUrl);
+      twilioMessages = twilioData.messages || [];
     }
-
-    const twilioData = await response.json();
-    const twilioMessages = twilioData.messages || [];
     
-    // Transform Twilio messages to our format with safe date parsing
-    const messages = twilioMessages.map(msg => {
-      // Safe date parsing with fallbacks
-      let dateCreated;
-      try {
-        if (msg.date_created) {
-          dateCreated = new Date(msg.date_created);
-          // Validate the date
-          if (isNaN(dateCreated.getTime())) {
-            console.warn(`⚠️ Invalid date_created for message ${msg.sid}: ${msg.date_created}`);
-            dateCreated = new Date(); // Use current date as fallback
-          }
-        } else {
-          console.warn(`⚠️ Missing date_created for message ${msg.sid}`);
-          dateCreated = new Date(); // Use current date as fallback
-        }
-      } catch (dateError) {
-        console.error(`❌ Date parsing error for message ${msg.sid}:`, dateError);
-        dateCreated = new Date(); // Use current date as fallback
-      }
-      
-      // Safe attributes parsing
-      let attributes = {};
-      let from = msg.author;
-      try {
-        if (msg.attributes) {
-          attributes = JSON.parse(msg.attributes);
-          from = attributes.from || msg.author;
-        }
-      } catch (attrError) {
-        console.warn(`⚠️ Failed to parse attributes for message ${msg.sid}:`, attrError);
-      }
-      
-      return {
-        sid: msg.sid || `msg_${Date.now()}`,
-        author: msg.author || 'Unknown',
-        body: msg.body || '',
-        dateCreated: dateCreated.toISOString(), // Convert to ISO string for safe transport
-        type: msg.type || 'text',
-        index: msg.index || 0,
-        participantSid: msg.participant_sid || null,
-        conversationSid: msg.conversation_sid || conversationSid,
-        attributes,
-        from,
-      };
-    }).sort((a, b) => a.index - b.index); // Sort by index
+    const messages = twilioMessages
+      .map(msg => toMessageResponse(msg, conversationSid))
+      .sort((a, b) => a.index - b.index); // Sort by index
     
     console.log(`✅ Backend fetched ${messages.length} messages for ${conversationSid}`);
 
+    // -1 means "no messages yet", so the next delta returns everything from index 0
+    const lastIndex = messages.length > 0
+      ? messages[messages.length - 1].index
+      : (isDelta ? afterIndex : -1);
+
     res.json({
       messages,
       messageCount: messages.length,
-      conversationSid
+      conversationSid,
+      sync: {
+        isDelta,
+        afterIndex,
+        lastIndex,
+        // False when the delta hit the page limit; the client should fall back to a full load
+        isComplete
+      }
     });
 
   } catch (error) {
@@ -278,6 +413,113 @@ router.get('/:conversationSid/messages', authenticateToken, async (req, res) =>
   }
 });
 
+// Download a conversation's full history as ?format=html|txt|pdf, with sender names resolved and
+// times shown in ?timeZone (an IANA name, default UTC)
+router.get('/:conversationSid/transcript', authenticateToken, async (req, res) => {
+  try {
+    const { conversationSid } = req.params;
+    const user = req.user;
+    const format = req.query.format || 'pdf';
+    const timeZone = req.query.timeZone || DEFAULT_TIME_ZONE;
+
+    if (typeof format !== 'string' || !Object.prototype.hasOwnProperty.call(TRANSCRIPT_FORMATS, format)) {
+      return res.status(400).json({ message: `format must be one of: ${Object.keys(TRANSCRIPT_FORMATS).join(', ')}` });
+    }
+    if (typeof timeZone !== 'string' || !isValidTimeZone(timeZone)) {
+      return res.status(400).json({ message: 'timeZone must be an IANA time zone, e.g. Europe/Berlin' });
+    }
+
+    if (!twilioService.conversationsConfigured) {
+      return res.status(503).json({
+        message: 'Twilio Conversations not configured',
+        error: 'SERVICE_NOT_CONFIGURED'
+      });
+    }
+
+    const inquiryResult = await db.query(
+      `SELECT id, customer_name, customer_email, customer_phone, assigned_expert_id
+       FROM inquiries
+       WHERE conversation_sid = $1
+       ORDER BY created_at DESC
+       LIMIT 1`,
+      [conversationSid]
+    );
+    const inquiry = inquiryResult.rows[0] || null;
+
+    // Without conversation.viewAll, only the assigned expert and participants may download it
+    if (!hasPermission(user, 'conversation.viewAll') && !(inquiry && inquiry.assigned_expert_id === user.id)) {
+      const participants = await twilioService.fetchConversationParticipants(conversationSid);
+      if (!participants.some(participant => participant.identity === user.email)) {
+        return res.status(403).json({ message: 'You do not have access to this conversation' });
+      }
+    }
+
+    const twilioMessages = [];
+    let pageUrl = `${getMessagesUrl(conversationSid)}?Order=asc&PageSize=100`;
+
+    // Always the whole history; a transcript that silently stops part-way would be misleading
+    while (pageUrl) {
+      const page = await fetchTwilioMessagePage(pageUrl);
+      twilioMessages.push(...(page.messages || []));
+      pageUrl = page.meta && page.meta.next_page_url;
+    }
+
+    const messages = twilioMessages
+      .map(msg => toMessageResponse(msg, conversationSid))
+      .sort((a, b) => a.index - b.index);
+
+    // Dashboard users who wrote messages without a `from` attribute
+    const authorEmails = [...new Set(messages.map(message => normalizeEmail(message.author)).filter(email => email.includes('@')))];
+    const usersResult = authorEmails.length > 0
+      ? await db.query('SELECT name, email, role FROM users WHERE lower(email) = ANY($1)', [authorEmails])
+      : { rows: [] };
+
+    const transcript = buildTranscript({
+      conversationSid,
+      title: inquiry ? `Conversation with ${inquiry.customer_name}` : `Conversation ${conversationSid}`,
+      messages,
+      context: {
+        usersByEmail: new Map(usersResult.rows.map(row => [normalizeEmail(row.email), row])),
+        traveler: inquiry
+          ? { name: inquiry.customer_name, email: inquiry.customer_email, phone: inquiry.customer_phone }
+          : null
+      },
+      timeZone,
+      exportedBy: user.name || user.email
+    });
+
+    if (format === 'pdf' && !canRenderTranscriptPdf(transcript)) {
+      return res.status(422).json({
+        message: 'This conversation contains characters the PDF cannot show, such as emoji or non-Latin text. Download it as HTML or plain text instead.',
+        error: 'PDF_UNSUPPORTED_CHARACTERS'
+      });
+    }
+
+    console.log(`📤 ${user.email} exported a ${format} transcript of ${conversationSid} (${messages.length} messages)`);
+
+    await recordAuditSafely(req, {
+      action: 'conversation.export',
+      targetType: 'conversation',
+      targetId: conversationSid,
+      conversationSid,
+      metadata: { format, messages: messages.length }
+    });
+
+    const { contentType, extension } = TRANSCRIPT_FORMATS[format];
+    const filename = `transcript-${conversationSid}-${new Date().toISOString().slice(0, 10)}.${extension}`;
+    res.setHeader('Content-Type', contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.send(renderTranscript(transcript, format));
+
+  } catch (error) {
+    console.error(`❌ Error exporting transcript for ${req.params.conversationSid}:`, error);
+    res.status(500).json({
+      message: 'Failed to export transcript',
+      error: error.message
+    });
+  }
+});
+
 // Get expert-admin DM conversations
 router.get('/expert-admin-dms', authenticateToken, async (req, res) => {
   try {
@@ -291,8 +533,8 @@ router.get('/expert-admin-dms', authenticateToken, async (req, res) => {
     let query;
     let params;
 
-    if (user.role === 'admin') {
-      // Admins can see all expert-admin DMs
+    if (hasPermission(user, 'conversation.viewAll')) {
+      // Admins, supervisors and auditors can see all expert-admin DMs
       query = `
         SELECT 
           dm.id,
@@ -310,7 +552,7 @@ router.get('/expert-admin-dms', authenticateToken, async (req, res) => {
         LIMIT $1 OFFSET $2
       `;
       params = [limit, (page - 1) * limit];
-    } else if (user.role === 'expert') {
+    } else if (hasPermission(user, 'conversation.viewAssigned')) {
       // Experts can only see their own DMs with admins
       query = `
         SELECT 
@@ -394,16 +636,12 @@ router.get('/expert-admin-dms', authenticateToken, async (req, res) => {
 });
 
 // Get admin-traveler DM conversations
-router.get('/admin-traveler-dms', authenticateToken, async (req, res) => {
+router.get('/admin-traveler-dms', authenticateToken, requirePermission('traveler.dm.view'), async (req, res) => {
   try {
     const user = req.user;
 
     console.log(`📞 Loading admin-traveler DMs for user: ${user.email} (role: ${user.role})`);
 
-    if (user.role !== 'admin') {
-      return res.status(403).json({ message: 'Admin access required' });
-    }
-
     // Get inquiries that have DM conversation SIDs
     const result = await db.query(`
       SELECT 
@@ -535,7 +773,7 @@ router.post('/create-expert-admin-dm', authenticateToken, async (req, res) => {
 router.get('/admins', authenticateToken, async (req, res) => {
   try {
     const result = await db.query(
-      'SELECT id, name, email FROM users WHERE role = $1 ORDER BY name',
+      'SELECT id, name, email FROM users WHERE role = $1 AND deactivated_at IS NULL ORDER BY name',
       ['admin']
     );
 
@@ -552,7 +790,7 @@ router.get('/admins', authenticateToken, async (req, res) => {
 router.get('/experts', authenticateToken, async (req, res) => {
   try {
     const result = await db.query(
-      'SELECT id, name, email FROM users WHERE role = $1 ORDER BY name',
+      'SELECT id, name, email FROM users WHERE role = $1 AND deactivated_at IS NULL ORDER BY name',
       ['expert']
     );
 
@@ -2,17 +2,99 @@ const express = require('express');
 const router = express.Router();
 const db = require('../config/database');
 const { authenticateToken } = require('../middleware/auth');
-
-// Middleware to ensure user is expert
-const requireExpert = (req, res, next) => {
-  if (req.user.role !== 'expert') {
-    return res.status(403).json({ message: 'Expert access required' });
+const { requirePermission } = require('../middleware/permissions');
+const { recordAudit } = require('../utils/auditLog');
+const { InvalidStatusTransitionError, isAcceptedStatus, applyStatusTransition } = require('../utils/inquiryStatus');
+const { SLA_COLUMNS_SQL, getSlaPolicy, getSlaClocks } = require('../utils/sla');
+
+// Only users who can be offered inquiries may accept them
+const requireAccept = requirePermission('inquiry.accept');
+
+// Inquiries created before acceptance existed count as accepted
+const LEGACY_ACCEPTANCE_CUTOFF = new Date('2025-08-18T00:00:00.000Z');
+
+const shouldAutoAccept = (inquiry) =>
+  new Date(inquiry.created_at) < LEGACY_ACCEPTANCE_CUTOFF && inquiry.status === 'assigned';
+
+// Move legacy inquiries to 'accepted' on the system's behalf
+const autoAcceptLegacyInquiries = async (inquiryIds) => {
+  for (const inquiryId of inquiryIds) {
+    await db.transaction(async (client) => {
+      const current = await client.query('SELECT id, status FROM inquiries WHERE id = $1 FOR UPDATE', [inquiryId]);
+      if (current.rows[0]?.status !== 'assigned') return;
+
+      await applyStatusTransition(client, current.rows[0], 'accepted', {
+        source: 'system',
+        note: 'Auto-accepted: created before 18 Aug 2025'
+      });
+    });
   }
-  next();
 };
 
+/**
+ * Accept an inquiry for the signed-in expert
+ * @returns {Promise<{alreadyAccepted: boolean, status: string}>}
+ * @throws {InvalidStatusTransitionError} When the inquiry cannot be accepted from its status
+ */
+const acceptInquiry = (req, inquiryId) => db.transaction(async (client) => {
+  const current = await client.query(
+    'SELECT id, status, conversation_sid FROM inquiries WHERE id = $1 FOR UPDATE',
+    [inquiryId]
+  );
+  const inquiry = current.rows[0];
+
+  if (isAcceptedStatus(inquiry.status)) {
+    return { alreadyAccepted: true, status: inquiry.status };
+  }
+
+  await applyStatusTransition(client, inquiry, 'accepted', { changedBy: req.user });
+
+  await recordAudit(client, req, {
+    action: 'conversation.accept',
+    targetType: 'inquiry',
+    targetId: inquiry.id,
+    conversationSid: inquiry.conversation_sid,
+    before: { status: inquiry.status },
+    after: { status: 'accepted' }
+  });
+
+  return { alreadyAccepted: false, status: 'accepted' };
+});
+
+// Latest handoff note addressed to the inquiry's current expert (alias `handoff`)
+const HANDOFF_JOIN = `
+  LEFT JOIN LATERAL (
+    SELECT h.note, h.created_at, h.created_by_name, previous.name AS from_expert_name
+    FROM inquiry_handoffs h
+    LEFT JOIN users previous ON h.from_expert_id = previous.id
+    WHERE h.inquiry_id = i.id AND h.to_expert_id = i.assigned_expert_id
+    ORDER BY h.created_at DESC
+    LIMIT 1
+  ) handoff ON true`;
+
+const HANDOFF_COLUMNS = `
+  handoff.note AS handoff_note,
+  handoff.created_at AS handoff_created_at,
+  handoff.created_by_name AS handoff_created_by_name,
+  handoff.from_expert_name AS handoff_from_expert_name`;
+
+const toHandoffResponse = (row) => (row.handoff_note
+  ? {
+    note: row.handoff_note,
+    fromExpertName: row.handoff_from_expert_name,
+    createdByName: row.handoff_created_by_name,
+    createdAt: row.handoff_created_at
+  }
+  : null);
+
+const sendTransitionConflict = (res, error) => res.status(409).json({
+  message: `This conversation cannot be accepted while it is ${error.from}`,
+  error: 'INVALID_STATUS_TRANSITION',
+  allowedTransitions: error.allowed
+});
+
 // GET /api/expert-acceptance/pending - Get pending conversations for expert to accept
-router.get('/pending', authenticateToken, requireExpert, async (req, res) => {
+router.get('/pending', authenticateToken, requireAccept, async (req, res) => {
   try {
     const { user } = req;
     
@@ -30,22 +112,23 @@ router.get('/pending', authenticateToken, requireExpert, async (req, res) => {
         i.status,
         i.created_at,
         i.updated_at,
+        i.assigned_expert_id,
         u.name as expert_name,
-        u.email as expert_email
+        u.email as expert_email,
+        ${HANDOFF_COLUMNS},
+        ${SLA_COLUMNS_SQL}
       FROM inquiries i
       JOIN users u ON i.assigned_expert_id = u.id
+      ${HANDOFF_JOIN}
       WHERE i.assigned_expert_id = $1
       AND i.conversation_sid IS NOT NULL
       ORDER BY i.created_at DESC
     `, [user.id]);
 
+    const slaPolicy = getSlaPolicy();
     const inquiries = result.rows.map(row => {
-      const createdAt = new Date(row.created_at);
-      const aug18_2025_utc = new Date('2025-08-18T00:00:00.000Z');
-      
-      // Auto-accept inquiries created before August 18, 2025 UTC
-      const shouldAutoAccept = createdAt < aug18_2025_utc && row.status === 'assigned';
-      const finalStatus = shouldAutoAccept ? 'in_progress' : row.status;
+      const autoAccepted = shouldAutoAccept(row);
+      const finalStatus = autoAccepted ? 'accepted' : row.status;
       
       return {
         id: row.id,
@@ -61,10 +144,11 @@ router.get('/pending', authenticateToken, requireExpert, async (req, res) => {
           name: row.expert_name,
           email: row.expert_email
         },
-        // Consider conversations "accepted" if status is 'in_progress' or 'resolved', or if auto-accepted
-        expert_accepted: finalStatus === 'in_progress' || finalStatus === 'resolved',
-        expert_accepted_at: (finalStatus === 'in_progress' || finalStatus === 'resolved') ? row.updated_at : null,
-        auto_accepted: shouldAutoAccept
+        expert_accepted: isAcceptedStatus(finalStatus),
+        expert_accepted_at: isAcceptedStatus(finalStatus) ? row.updated_at : null,
+        auto_accepted: autoAccepted,
+        handoff: toHandoffResponse(row),
+        sla: getSlaClocks({ ...row, status: finalStatus }, slaPolicy)
       };
     });
 
@@ -72,12 +156,7 @@ router.get('/pending', authenticateToken, requireExpert, async (req, res) => {
     const autoAcceptedInquiries = inquiries.filter(i => i.auto_accepted);
     if (autoAcceptedInquiries.length > 0) {
       try {
-        const autoAcceptedIds = autoAcceptedInquiries.map(i => i.id);
-        await db.query(`
-          UPDATE inquiries 
-          SET status = 'in_progress', updated_at = NOW() 
-          WHERE id = ANY($1) AND status = 'assigned'
-        `, [autoAcceptedIds]);
+        await autoAcceptLegacyInquiries(autoAcceptedInquiries.map(i => i.id));
         console.log(`✅ Auto-accepted ${autoAcceptedInquiries.length} inquiries created before Aug 18, 2025`);
       } catch (updateError) {
         console.error('❌ Failed to update auto-accepted inquiries in database:', updateError);
@@ -104,7 +183,7 @@ router.get('/pending', authenticateToken, requireExpert, async (req, res) => {
 });
 
 // POST /api/expert-acceptance/accept - Accept a conversation
-router.post('/accept', authenticateToken, requireExpert, async (req, res) => {
+router.post('/accept', authenticateToken, requireAccept, async (req, res) => {
   try {
     const { conversationId } = req.body;
     const { user } = req;
@@ -131,26 +210,19 @@ router.post('/accept', authenticateToken, requireExpert, async (req, res) => {
     }
 
     const inquiry = inquiryResult.rows[0];
+    const acceptance = await acceptInquiry(req, inquiry.id);
 
-    // Check if already accepted (status is in_progress or resolved)
-    if (inquiry.status === 'in_progress' || inquiry.status === 'resolved') {
+    if (acceptance.alreadyAccepted) {
       return res.json({
         success: true,
         message: 'Conversation already accepted',
         data: {
           conversation_sid: inquiry.conversation_sid,
-          status: inquiry.status
+          status: acceptance.status
         }
       });
     }
 
-    // Update status to indicate acceptance
-    await db.query(`
-      UPDATE inquiries 
-      SET status = 'in_progress', updated_at = NOW()
-      WHERE id = $1
-    `, [conversationId]);
-
     console.log(`✅ Conversation ${conversationId} accepted by expert ${user.email}`);
 
     // Send webhook to Make.com to notify about acceptance
@@ -174,7 +246,7 @@ router.post('/accept', authenticateToken, requireExpert, async (req, res) => {
         inquiry: {
           id: inquiry.id,
           message: inquiry.message,
-          status: 'in_progress'
+          status: 'accepted'
         },
         acceptance_timestamp: new Date().toISOString(),
         acceptance_method: 'expert_dashboard',
@@ -222,19 +294,23 @@ router.post('/accept', authenticateToken, requireExpert, async (req, res) => {
       message: 'Conversation accepted successfully',
       data: {
         conversation_sid: inquiry.conversation_sid,
-        status: 'in_progress',
+        status: 'accepted',
         accepted_at: new Date().toISOString()
       }
     });
 
   } catch (error) {
+    if (error instanceof InvalidStatusTransitionError) {
+      return sendTransitionConflict(res, error);
+    }
+
     console.error('❌ Error accepting conversation:', error);
     res.status(500).json({ message: 'Internal server error' });
   }
 });
 
 // GET /api/expert-acceptance/conversation/:id - Get conversation details for acceptance preview
-router.get('/conversation/:id', authenticateToken, requireExpert, async (req, res) => {
+router.get('/conversation/:id', authenticateToken, requireAccept, async (req, res) => {
   try {
     const { id } = req.params;
     const { user } = req;
@@ -246,9 +322,11 @@ router.get('/conversation/:id', authenticateToken, requireExpert, async (req, re
       SELECT 
         i.*,
         u.name as expert_name,
-        u.email as expert_email
+        u.email as expert_email,
+        ${HANDOFF_COLUMNS}
       FROM inquiries i
       JOIN users u ON i.assigned_expert_id = u.id
+      ${HANDOFF_JOIN}
       WHERE i.id = $1 AND i.assigned_expert_id = $2
     `, [id, user.id]);
 
@@ -272,8 +350,9 @@ router.get('/conversation/:id', authenticateToken, requireExpert, async (req, re
         name: inquiry.expert_name,
         email: inquiry.expert_email
       },
-      expert_accepted: inquiry.status === 'in_progress' || inquiry.status === 'resolved',
-      expert_accepted_at: inquiry.status === 'in_progress' || inquiry.status === 'resolved' ? inquiry.updated_at : null
+      expert_accepted: isAcceptedStatus(inquiry.status),
+      expert_accepted_at: isAcceptedStatus(inquiry.status) ? inquiry.updated_at : null,
+      handoff: toHandoffResponse(inquiry)
     };
 
     console.log(`✅ Conversation details loaded for ${id}`);
@@ -290,7 +369,7 @@ router.get('/conversation/:id', authenticateToken, requireExpert, async (req, re
 });
 
 // GET /api/expert-acceptance/check/:conversationSid - Check if conversation is accepted by expert
-router.get('/check/:conversationSid', authenticateToken, requireExpert, async (req, res) => {
+router.get('/check/:conversationSid', authenticateToken, requireAccept, async (req, res) => {
   try {
     const { conversationSid } = req.params;
     const { user } = req;
@@ -316,22 +395,14 @@ router.get('/check/:conversationSid', authenticateToken, requireExpert, async (r
     }
 
     const inquiry = result.rows[0];
-    const createdAt = new Date(inquiry.created_at);
-    const aug18_2025_utc = new Date('2025-08-18T00:00:00.000Z');
-    
-    // Auto-accept inquiries created before August 18, 2025 UTC
-    const shouldAutoAccept = createdAt < aug18_2025_utc && inquiry.status === 'assigned';
-    const finalStatus = shouldAutoAccept ? 'in_progress' : inquiry.status;
-    const isAccepted = finalStatus === 'in_progress' || finalStatus === 'resolved';
+    const autoAccepted = shouldAutoAccept(inquiry);
+    const finalStatus = autoAccepted ? 'accepted' : inquiry.status;
+    const isAccepted = isAcceptedStatus(finalStatus);
 
     // Update database if auto-accepting
-    if (shouldAutoAccept) {
+    if (autoAccepted) {
       try {
-        await db.query(`
-          UPDATE inquiries 
-          SET status = 'in_progress', updated_at = NOW() 
-          WHERE id = $1
-        `, [inquiry.id]);
+        await autoAcceptLegacyInquiries([inquiry.id]);
         console.log(`✅ Auto-accepted inquiry ${inquiry.id} created before Aug 18, 2025`);
       } catch (updateError) {
         console.error('❌ Failed to auto-accept inquiry:', updateError);
@@ -341,7 +412,7 @@ router.get('/check/:conversationSid', authenticateToken, requireExpert, async (r
     res.json({
       accepted: isAccepted,
       status: finalStatus,
-      auto_accepted: shouldAutoAccept,
+      auto_accepted: autoAccepted,
       inquiry_id: inquiry.id
     });
 
@@ -352,7 +423,7 @@ router.get('/check/:conversationSid', authenticateToken, requireExpert, async (r
 });
 
 // POST /api/expert-acceptance/accept-by-sid - Accept conversation by SID
-router.post('/accept-by-sid', authenticateToken, requireExpert, async (req, res) => {
+router.post('/accept-by-sid', authenticateToken, requireAccept, async (req, res) => {
   try {
     const { conversationSid } = req.body;
     const { user } = req;
@@ -379,26 +450,19 @@ router.post('/accept-by-sid', authenticateToken, requireExpert, async (req, res)
     }
 
     const inquiry = inquiryResult.rows[0];
+    const acceptance = await acceptInquiry(req, inquiry.id);
 
-    // Check if already accepted
-    if (inquiry.status === 'in_progress' || inquiry.status === 'resolved') {
+    if (acceptance.alreadyAccepted) {
       return res.json({
         success: true,
         message: 'Conversation already accepted',
         data: {
           conversation_sid: inquiry.conversation_sid,
-          status: inquiry.status
+          status: acceptance.status
         }
       });
     }
 
-    // Update status to indicate acceptance
-    await db.query(`
-      UPDATE inquiries 
-      SET status = 'in_progress', updated_at = NOW()
-      WHERE id = $1
-    `, [inquiry.id]);
-
     console.log(`✅ Conversation ${conversationSid} accepted by expert ${user.email}`);
 
     // Send webhook to Make.com
@@ -421,7 +485,7 @@ router.post('/accept-by-sid', authenticateToken, requireExpert, async (req, res)
         inquiry: {
           id: inquiry.id,
           message: inquiry.message,
-          status: 'in_progress'
+          status: 'accepted'
         },
         timestamp: new Date().toISOString()
       };
@@ -461,19 +525,23 @@ router.post('/accept-by-sid', authenticateToken, requireExpert, async (req, res)
       message: 'Conversation accepted successfully',
       data: {
         conversation_sid: conversationSid,
-        status: 'in_progress',
+        status: 'accepted',
         accepted_at: new Date().toISOString()
       }
     });
 
   } catch (error) {
+    if (error instanceof InvalidStatusTransitionError) {
+      return sendTransitionConflict(res, error);
+    }
+
     console.error('❌ Error accepting conversation by SID:', error);
     res.status(500).json({ message: 'Internal server error' });
   }
 });
 
 // GET /api/expert-acceptance/conversation-by-sid/:conversationSid - Get conversation details by SID
-router.get('/conversation-by-sid/:conversationSid', authenticateToken, requireExpert, async (req, res) => {
+router.get('/conversation-by-sid/:conversationSid', authenticateToken, requireAccept, async (req, res) => {
   try {
     const { conversationSid } = req.params;
     const { user } = req;
@@ -485,9 +553,11 @@ router.get('/conversation-by-sid/:conversationSid', authenticateToken, requireEx
       SELECT 
         i.*,
         u.name as expert_name,
-        u.email as expert_email
+        u.email as expert_email,
+        ${HANDOFF_COLUMNS}
       FROM inquiries i
       JOIN users u ON i.assigned_expert_id = u.id
+      ${HANDOFF_JOIN}
       WHERE i.conversation_sid = $1 AND i.assigned_expert_id = $2
     `, [conversationSid, user.id]);
 
@@ -511,8 +581,9 @@ router.get('/conversation-by-sid/:conversationSid', authenticateToken, requireEx
         name: inquiry.expert_name,
         email: inquiry.expert_email
       },
-      expert_accepted: inquiry.status === 'in_progress' || inquiry.status === 'resolved',
-      expert_accepted_at: inquiry.status === 'in_progress' || inquiry.status === 'resolved' ? inquiry.updated_at : null
+      expert_accepted: isAcceptedStatus(inquiry.status),
+      expert_accepted_at: isAcceptedStatus(inquiry.status) ? inquiry.updated_at : null,
+      handoff: toHandoffResponse(inquiry)
     };
 
     console.log(`✅ Conversation details loaded by SID for ${conversationSid}`);
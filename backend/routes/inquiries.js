@@ -1,31 +1,111 @@
 const express = require('express');
 const twilio = require('twilio');
 const { authenticateToken } = require('../middleware/auth');
+const { requirePermission } = require('../middleware/permissions');
+const { hasPermission } = require('../utils/permissions');
 const db = require('../config/database');
 const twilioRoleService = require('../services/twilioRoleService');
+const assignmentService = require('../services/assignmentService');
+const reassignmentService = require('../services/reassignmentService');
+const { recordAudit, recordAuditSafely } = require('../utils/auditLog');
+const { isUuid } = require('../utils/sessions');
+const {
+  INQUIRY_STATUSES,
+  REASSIGNABLE_STATUSES,
+  OPEN_INQUIRY_SQL,
+  InvalidStatusTransitionError,
+  getAllowedTransitions,
+  recordStatusHistory,
+  applyStatusTransition,
+  toStatusHistoryResponse
+} = require('../utils/inquiryStatus');
+const { MAX_TAGS, MAX_TAG_LENGTH, normalizeTag, normalizeTags } = require('../utils/expertTags');
+const { AVAILABILITY_COLUMNS_SQL, toAvailability } = require('../utils/availability');
+const { buildInquiryFilter } = require('../utils/inquirySearch');
+const { toCsv } = require('../utils/csv');
+const { validatePhoneNumber, normalizeEmail, normalizePhone } = require('../utils/contactDetails');
+const {
+  MAX_IMPORT_BATCH_SIZE,
+  CUSTOMER_EMAIL_KEY_SQL,
+  CUSTOMER_PHONE_KEY_SQL,
+  getImportThrottleMs,
+  validateImportRow,
+  getDuplicateKeys
+} = require('../utils/inquiryImport');
 
 const router = express.Router();
 
-// Phone number validation helper
-const validatePhoneNumber = (phone) => {
-  if (!phone) return true; // Optional field
-  
-  // Remove all non-digit characters except +
-  const cleanPhone = phone.replace(/[^\d+]/g, '');
-  
-  // Must start with + and have at least 10 digits
-  const phoneRegex = /^\+[1-9]\d{8,14}$/;
-  return phoneRegex.test(cleanPhone);
+const MAX_HANDOFF_NOTE_LENGTH = 2000;
+const MAX_PAGE_SIZE = 100;
+const MAX_EXPORT_ROWS = 10000;
+const EXPORT_FORMATS = ['csv', 'json'];
+
+const EXPORT_COLUMNS = [
+  { header: 'ID', value: row => row.id },
+  { header: 'Customer', value: row => row.customer_name },
+  { header: 'Email', value: row => row.customer_email },
+  { header: 'Phone', value: row => row.customer_phone },
+  { header: 'Status', value: row => row.status },
+  { header: 'Expert', value: row => row.expert_name },
+  { header: 'Expert email', value: row => row.expert_email },
+  { header: 'Message', value: row => row.message },
+  { header: 'Conversation SID', value: row => row.conversation_sid },
+  { header: 'Created', value: row => row.created_at },
+  { header: 'Updated', value: row => row.updated_at }
+];
+
+// Status timeline, oldest change first
+const sendStatusHistory = async (req, res, inquiryCondition, param) => {
+  const inquiryResult = await db.query(
+    `SELECT i.id, i.status, i.assigned_expert_id, u.name AS expert_name, u.email AS expert_email
+     FROM inquiries i
+     LEFT JOIN users u ON i.assigned_expert_id = u.id
+     WHERE ${inquiryCondition} AND (i.assigned_expert_id = $2 OR $3::boolean)`,
+    [param, req.user.id, hasPermission(req.user, 'inquiry.viewAll')]
+  );
+
+  if (inquiryResult.rows.length === 0) {
+    return res.status(404).json({ message: 'Inquiry not found' });
+  }
+
+  const inquiry = inquiryResult.rows[0];
+  const history = await db.query(
+    `SELECT id, from_status, to_status, changed_by, changed_by_name, source, note, created_at
+     FROM inquiry_status_history
+     WHERE inquiry_id = $1
+     ORDER BY created_at, id`,
+    [inquiry.id]
+  );
+
+  res.json({
+    data: {
+      inquiryId: inquiry.id,
+      status: inquiry.status,
+      allowedTransitions: getAllowedTransitions(inquiry.status),
+      reassignable: REASSIGNABLE_STATUSES.includes(inquiry.status),
+      assignedExpert: inquiry.assigned_expert_id
+        ? { id: inquiry.assigned_expert_id, name: inquiry.expert_name, email: inquiry.expert_email }
+        : null,
+      history: history.rows.map(toStatusHistoryResponse)
+    }
+  });
 };
 
-// Get all inquiries (for experts to see their assigned inquiries)
+// Get all inquiries (for experts to see their assigned inquiries), with search, filters and sorting
 router.get('/', authenticateToken, async (req, res) => {
   try {
-    const page = parseInt(req.query.page) || 1;
-    const limit = parseInt(req.query.limit) || 10;
+    const filter = buildInquiryFilter(req.query, {
+      userId: req.user.id,
+      viewAll: hasPermission(req.user, 'inquiry.viewAll')
+    });
+    if (filter.error) {
+      return res.status(400).json({ message: filter.error });
+    }
+
+    const page = Math.max(parseInt(req.query.page) || 1, 1);
+    const limit = Math.min(Math.max(parseInt(req.query.limit) || 10, 1), MAX_PAGE_SIZE);
     const offset = (page - 1) * limit;
 
-    // Get inquiries assigned to the current expert
     const result = await db.query(
       `SELECT 
          i.id, 
@@ -35,22 +115,22 @@ router.get('/', authenticateToken, async (req, res) => {
          i.message, 
          i.conversation_sid,
          i.status, 
+         i.assigned_expert_id,
          i.created_at, 
          i.updated_at,
          u.name as expert_name,
          u.email as expert_email
        FROM inquiries i
        LEFT JOIN users u ON i.assigned_expert_id = u.id
-       WHERE i.assigned_expert_id = $1 OR $2 = 'admin'
-       ORDER BY i.created_at DESC 
-       LIMIT $3 OFFSET $4`,
-      [req.user.id, req.user.role || 'expert', limit, offset]
+       ${filter.where}
+       ${filter.orderBy}
+       LIMIT $${filter.params.length + 1} OFFSET $${filter.params.length + 2}`,
+      [...filter.params, limit, offset]
     );
 
     const countResult = await db.query(
-      `SELECT COUNT(*) FROM inquiries 
-       WHERE assigned_expert_id = $1 OR $2 = 'admin'`,
-      [req.user.id, req.user.role || 'expert']
+      `SELECT COUNT(*) FROM inquiries i ${filter.where}`,
+      filter.params
     );
     
     const total = parseInt(countResult.rows[0].count);
@@ -78,6 +158,81 @@ router.get('/', authenticateToken, async (req, res) => {
   }
 });
 
+// Download the inquiries matching the list filters (same query parameters as GET /) as ?format=csv|json
+router.get('/export', authenticateToken, async (req, res) => {
+  try {
+    const format = req.query.format || 'csv';
+    if (!EXPORT_FORMATS.includes(format)) {
+      return res.status(400).json({ message: `format must be one of: ${EXPORT_FORMATS.join(', ')}` });
+    }
+
+    const filter = buildInquiryFilter(req.query, {
+      userId: req.user.id,
+      viewAll: hasPermission(req.user, 'inquiry.viewAll')
+    });
+    if (filter.error) {
+      return res.status(400).json({ message: filter.error });
+    }
+
+    const result = await db.query(
+      `SELECT 
+         i.id, 
+         i.customer_name, 
+         i.customer_email, 
+         i.customer_phone,
+         i.message, 
+         i.conversation_sid,
+         i.status, 
+         i.assigned_expert_id,
+         i.created_at, 
+         i.updated_at,
+         u.name as expert_name,
+         u.email as expert_email
+       FROM inquiries i
+       LEFT JOIN users u ON i.assigned_expert_id = u.id
+       ${filter.where}
+       ${filter.orderBy}
+       LIMIT $${filter.params.length + 1}`,
+      [...filter.params, MAX_EXPORT_ROWS]
+    );
+
+    console.log(`📤 ${req.user.email} exported ${result.rows.length} inquiries as ${format}`);
+
+    await recordAuditSafely(req, {
+      action: 'inquiry.export',
+      targetType: 'inquiry',
+      metadata: { format, rows: result.rows.length, filters: req.query }
+    });
+
+    const filename = `inquiries-${new Date().toISOString().slice(0, 10)}.${format}`;
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+    if (format === 'json') {
+      res.setHeader('Content-Type', 'application/json; charset=utf-8');
+      return res.send(JSON.stringify({
+        exportedAt: new Date().toISOString(),
+        count: result.rows.length,
+        truncated: result.rows.length === MAX_EXPORT_ROWS,
+        data: result.rows
+      }, null, 2));
+    }
+
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.send(toCsv(EXPORT_COLUMNS, result.rows));
+  } catch (error) {
+    console.error('❌ Error exporting inquiries:', error);
+
+    if (error.message.includes('Database unavailable')) {
+      return res.status(503).json({ 
+        message: 'Database connection failed - Supabase project may be paused. Please check your Supabase dashboard.',
+        error: 'SERVICE_UNAVAILABLE'
+      });
+    }
+
+    res.status(500).json({ message: 'Failed to export inquiries' });
+  }
+});
+
 // Get single inquiry
 router.get('/:id', authenticateToken, async (req, res) => {
   try {
@@ -98,8 +253,8 @@ router.get('/:id', authenticateToken, async (req, res) => {
          u.email as expert_email
        FROM inquiries i
        LEFT JOIN users u ON i.assigned_expert_id = u.id
-       WHERE i.id = $1 AND (i.assigned_expert_id = $2 OR $3 = 'admin')`,
-      [id, req.user.id, req.user.role || 'expert']
+       WHERE i.id = $1 AND (i.assigned_expert_id = $2 OR $3::boolean)`,
+      [id, req.user.id, hasPermission(req.user, 'inquiry.viewAll')]
     );
 
     if (result.rows.length === 0) {
@@ -113,207 +268,345 @@ router.get('/:id', authenticateToken, async (req, res) => {
   }
 });
 
-// Create new conversation using direct Twilio REST API with JSON
-router.post('/', authenticateToken, async (req, res) => {
-  try {
-    const { 
-      customerName, 
-      customerEmail, 
-      customerPhone,
-      message, 
-      assignedExpertId
-    } = req.body;
+// Strategy and tags for automatic assignment, from a request body or query
+const parseAssignmentRequest = (source) => {
+  const strategy = source.assignmentStrategy || source.strategy || undefined;
+  if (strategy && !assignmentService.hasStrategy(strategy)) {
+    const names = assignmentService.listStrategies().map(option => option.name);
+    return { error: `Unknown assignment strategy. Must be one of: ${names.join(', ')}` };
+  }
 
-    if (!customerName || !customerEmail || !message) {
-      return res.status(400).json({ 
-        message: 'Customer name, email, and message are required' 
-      });
-    }
+  const skills = source.skills === undefined || source.skills === '' ? [] : normalizeTags(source.skills);
+  if (!skills) {
+    return { error: `Skills must be a list of up to ${MAX_TAGS} tags of at most ${MAX_TAG_LENGTH} characters` };
+  }
 
-    if (!assignedExpertId) {
-      return res.status(400).json({ 
-        message: 'Assigned expert ID is required' 
-      });
-    }
+  const region = typeof source.region === 'string' && source.region.trim() ? normalizeTag(source.region) : null;
+  if (region && region.length > MAX_TAG_LENGTH) {
+    return { error: `Region must be at most ${MAX_TAG_LENGTH} characters` };
+  }
 
-    // Validate phone number format if provided
-    if (customerPhone && !validatePhoneNumber(customerPhone)) {
-      return res.status(400).json({ 
-        message: 'Invalid phone number format. Please use international format (e.g., +1234567890)' 
-      });
-    }
+  return { strategy, skills, region };
+};
 
-    // Verify the assigned expert exists
-    const expertResult = await db.query(
-      'SELECT id, email, name FROM users WHERE id = $1',
-      [assignedExpertId]
-    );
+const NO_EXPERT_RESPONSE = {
+  message: 'No active expert is available to take this inquiry',
+  error: 'NO_EXPERT_AVAILABLE'
+};
 
-    if (expertResult.rows.length === 0) {
-      return res.status(400).json({ message: 'Assigned expert not found' });
-    }
+// Run the assignment engine; `expert` is null when there is nobody to assign
+const pickExpert = async (assignment) => {
+  const ranking = await assignmentService.rankExperts(assignment);
+  if (!ranking.expert) return { expert: null };
+
+  const label = assignmentService.strategies[ranking.strategy].label;
+  return {
+    expert: ranking.expert,
+    assignment: { automatic: true, strategy: ranking.strategy, reason: ranking.reason },
+    historyNote: `Created and assigned to ${ranking.expert.name} by ${label}: ${ranking.reason}`
+  };
+};
 
-    const expert = expertResult.rows[0];
+/**
+ * Create the Twilio conversation for a new inquiry (expert, bot and, with a phone number, the
+ * customer over SMS) and then the inquiry row with its first status history entry.
+ * Resolves with `{ inquiry, conversation }`, or `{ status, body }` when Twilio refuses.
+ */
+const createInquiryConversation = async ({
+  customerName,
+  customerEmail,
+  customerPhone,
+  message,
+  expert,
+  createdBy,
+  changedBy = null,
+  source = 'user',
+  historyNote
+}) => {
+  // Check if Twilio is configured
+  if (!process.env.TWILIO_ACCOUNT_SID || !process.env.TWILIO_AUTH_TOKEN) {
+    return {
+      status: 503,
+      body: { message: 'Twilio not configured. Please set TWILIO_ACCOUNT_SID and TWILIO_AUTH_TOKEN.' }
+    };
+  }
 
-    // Check if Twilio is configured
-    if (!process.env.TWILIO_ACCOUNT_SID || !process.env.TWILIO_AUTH_TOKEN) {
-      return res.status(503).json({ 
-        message: 'Twilio not configured. Please set TWILIO_ACCOUNT_SID and TWILIO_AUTH_TOKEN.' 
-      });
-    }
+  console.log('🔄 Creating Twilio conversation via REST API with JSON...');
 
-    console.log('🔄 Creating Twilio conversation via REST API with JSON...');
+  // Create conversation using direct REST API call with JSON format
+  const uniqueName = `inquiry_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  const friendlyName = `${customerName} - ${expert.name}`;
 
-    // Create conversation using direct REST API call with JSON format
-    const uniqueName = `inquiry_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    const friendlyName = `${customerName} - ${expert.name}`;
+  // Prepare participants array
+  const participants = [];
 
-    // Prepare participants array
-    const participants = [];
+  // Ensure expert has proper Twilio user role before adding to conversation
+  try {
+    await twilioRoleService.createTwilioUserWithRole(expert.email);
+    console.log(`✅ Ensured Twilio user role for expert: ${expert.email}`);
+  } catch (twilioError) {
+    console.error('❌ Failed to ensure expert Twilio role:', twilioError);
+    // Continue anyway - conversation creation might still work
+  }
 
-    // Ensure expert has proper Twilio user role before adding to conversation
-    try {
-      await twilioRoleService.createTwilioUserWithRole(expert.email);
-      console.log(`✅ Ensured Twilio user role for expert: ${expert.email}`);
-    } catch (twilioError) {
-      console.error('❌ Failed to ensure expert Twilio role:', twilioError);
-      // Continue anyway - conversation creation might still work
-    }
+  // Ensure bot has proper roles
+  try {
+    await twilioRoleService.ensureBotRoles();
+    console.log(`✅ Ensured bot roles in Twilio`);
+  } catch (twilioError) {
+    console.error('❌ Failed to ensure bot roles:', twilioError);
+  }
+  // Add expert as chat participant (identity-based)
+  participants.push({
+    Identity: expert.email
+  });
+
+  // Add bot as chat participant (always include bot in conversations)
+  participants.push({
+    Identity: 'support_bot_17855040062'
+  });
+
+  // Add customer as SMS participant if phone is provided and valid
+  if (customerPhone && process.env.TWILIO_PHONE_NUMBER && validatePhoneNumber(customerPhone)) {
+    participants.push({
+      MessagingBinding: {
+        Address: customerPhone,
+        ProxyAddress: process.env.TWILIO_PHONE_NUMBER
+      }
+    });
+  }
+
+  // Determine the correct endpoint URL
+  const conversationUrl = process.env.TWILIO_CONVERSATIONS_SERVICE_SID
+    ? `https://conversations.twilio.com/v1/Services/${process.env.TWILIO_CONVERSATIONS_SERVICE_SID}/ConversationWithParticipants`
+    : `https://conversations.twilio.com/v1/ConversationWithParticipants`;
+
+  console.log('📡 Using endpoint:', conversationUrl);
+  console.log('👥 Participants:', participants);
+
+  // Prepare the JSON payload
+  const jsonPayload = {
+    FriendlyName: friendlyName,
+    UniqueName: uniqueName,
+    Participants: participants,
+    Attributes: JSON.stringify({
+      type: 'main_conversation',
+      typeOfChat: 'customerExpertAdmin',
+      customer_name: customerName,
+      customer_email: customerEmail,
+      customer_phone: customerPhone,
+      expert_id: expert.id,
+      expert_name: expert.name,
+      expert_email: expert.email,
+      inquiry_id: null, // Will be set after inquiry is created
+      created_by: createdBy
+    })
+  };
+
+  // Add messaging service if configured
+  if (process.env.TWILIO_MESSAGING_SERVICE_SID) {
+    jsonPayload.MessagingServiceSid = process.env.TWILIO_MESSAGING_SERVICE_SID;
+  }
+
+  console.log('📤 JSON Request payload:', JSON.stringify(jsonPayload, null, 2));
+
+  // Create the conversation via REST API with JSON
+  const response = await fetch(conversationUrl, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Basic ${Buffer.from(process.env.TWILIO_ACCOUNT_SID + ':' + process.env.TWILIO_AUTH_TOKEN).toString('base64')}`,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify(jsonPayload)
+  });
 
-    // Ensure bot has proper roles
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error('❌ Twilio API error:', response.status, errorText);
+
+    // Parse error details if possible
     try {
-      await twilioRoleService.ensureBotRoles();
-      console.log(`✅ Ensured bot roles in Twilio`);
-    } catch (twilioError) {
-      console.error('❌ Failed to ensure bot roles:', twilioError);
+      const errorJson = JSON.parse(errorText);
+      if (errorJson.code === 50407) {
+        return {
+          status: 400,
+          body: {
+            message: 'Invalid phone number for SMS. Please check the phone number format and ensure it can receive SMS.',
+            error: 'INVALID_PHONE_NUMBER',
+            details: errorJson
+          }
+        };
+      }
+    } catch (parseError) {
+      // Error text is not JSON
     }
-    // Add expert as chat participant (identity-based)
-    participants.push({
-      Identity: expert.email
-    });
 
-    // Add bot as chat participant (always include bot in conversations)
-    participants.push({
-      Identity: 'support_bot_17855040062'
-    });
+    throw new Error(`Twilio API error: ${response.status} - ${errorText}`);
+  }
 
-    // Add customer as SMS participant if phone is provided and valid
-    if (customerPhone && process.env.TWILIO_PHONE_NUMBER && validatePhoneNumber(customerPhone)) {
-      participants.push({
-        MessagingBinding: {
-          Address: customerPhone,
-          ProxyAddress: process.env.TWILIO_PHONE_NUMBER
-        }
+  const conversation = await response.json();
+  console.log('✅ Created Twilio conversation:', conversation.sid);
+  // Send initial message after a delay
+  setTimeout(async () => {
+    try {
+      const messageUrl = process.env.TWILIO_CONVERSATIONS_SERVICE_SID
+        ? `https://conversations.twilio.com/v1/Services/${process.env.TWILIO_CONVERSATIONS_SERVICE_SID}/Conversations/${conversation.sid}/Messages`
+        : `https://conversations.twilio.com/v1/Conversations/${conversation.sid}/Messages`;
+
+      const messagePayload = {
+        Body: `New inquiry from ${customerName} (${customerEmail}): ${message}`,
+        Author: 'system'
+      };
+
+      const messageResponse = await fetch(messageUrl, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Basic ${Buffer.from(process.env.TWILIO_ACCOUNT_SID + ':' + process.env.TWILIO_AUTH_TOKEN).toString('base64')}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(messagePayload)
       });
+
+      if (messageResponse.ok) {
+        console.log('✅ Sent initial message to conversation');
+      } else {
+        console.error('❌ Failed to send initial message:', await messageResponse.text());
+      }
+    } catch (msgError) {
+      console.error('❌ Failed to send initial message:', msgError);
     }
+  }, 2000); // Wait 2 seconds for conversation to be ready
 
-    // Determine the correct endpoint URL
-    const conversationUrl = process.env.TWILIO_CONVERSATIONS_SERVICE_SID 
-      ? `https://conversations.twilio.com/v1/Services/${process.env.TWILIO_CONVERSATIONS_SERVICE_SID}/ConversationWithParticipants`
-      : `https://conversations.twilio.com/v1/ConversationWithParticipants`;
+  // Create inquiry record in database
+  const inquiry = await db.transaction(async (client) => {
+    const inquiryResult = await client.query(
+      `INSERT INTO inquiries (customer_name, customer_email, customer_phone, message, conversation_sid, assigned_expert_id, status)
+       VALUES ($1, $2, $3, $4, $5, $6, 'assigned')
+       RETURNING id, customer_name, customer_email, customer_phone, message, conversation_sid, assigned_expert_id, status, created_at`,
+      [customerName, customerEmail, customerPhone, message, conversation.sid, expert.id]
+    );
 
-    console.log('📡 Using endpoint:', conversationUrl);
-    console.log('👥 Participants:', participants);
+    await recordStatusHistory(client, {
+      inquiryId: inquiryResult.rows[0].id,
+      from: null,
+      to: 'assigned',
+      changedBy,
+      source,
+      note: historyNote
+    });
 
-    // Prepare the JSON payload
-    const jsonPayload = {
-      FriendlyName: friendlyName,
-      UniqueName: uniqueName,
-      Participants: participants,
-      Attributes: JSON.stringify({
-        type: 'main_conversation',
-        typeOfChat: 'customerExpertAdmin',
-        customer_name: customerName,
-        customer_email: customerEmail,
-        customer_phone: customerPhone,
-        expert_id: assignedExpertId,
-        expert_name: expert.name,
-        expert_email: expert.email,
-        inquiry_id: null, // Will be set after inquiry is created
-        created_by: 'dashboard'
-      })
-    };
+    return inquiryResult.rows[0];
+  });
+
+  return { inquiry, conversation };
+};
 
-    // Add messaging service if configured
-    if (process.env.TWILIO_MESSAGING_SERVICE_SID) {
-      jsonPayload.MessagingServiceSid = process.env.TWILIO_MESSAGING_SERVICE_SID;
+// Preview which expert the assignment engine would pick, with every candidate ranked
+router.get('/assignment/preview', authenticateToken, requirePermission('inquiry.create'), async (req, res) => {
+  try {
+    const assignment = parseAssignmentRequest(req.query);
+    if (assignment.error) {
+      return res.status(400).json({ message: assignment.error });
     }
 
-    console.log('📤 JSON Request payload:', JSON.stringify(jsonPayload, null, 2));
+    const ranking = await assignmentService.rankExperts(assignment);
 
-    // Create the conversation via REST API with JSON
-    const response = await fetch(conversationUrl, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Basic ${Buffer.from(process.env.TWILIO_ACCOUNT_SID + ':' + process.env.TWILIO_AUTH_TOKEN).toString('base64')}`,
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify(jsonPayload)
+    res.json({
+      data: {
+        strategy: ranking.strategy,
+        defaultStrategy: assignmentService.getDefaultStrategy(),
+        strategies: assignmentService.listStrategies(),
+        expert: ranking.expert,
+        reason: ranking.reason,
+        candidates: ranking.candidates
+      }
     });
+  } catch (error) {
+    console.error('❌ Error previewing assignment:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('❌ Twilio API error:', response.status, errorText);
-      
-      // Parse error details if possible
-      try {
-        const errorJson = JSON.parse(errorText);
-        if (errorJson.code === 50407) {
-          return res.status(400).json({ 
-            message: 'Invalid phone number for SMS. Please check the phone number format and ensure it can receive SMS.',
-            error: 'INVALID_PHONE_NUMBER',
-            details: errorJson
-          });
-        }
-      } catch (parseError) {
-        // Error text is not JSON
-      }
-      
-      throw new Error(`Twilio API error: ${response.status} - ${errorText}`);
+// Create new conversation using direct Twilio REST API with JSON
+router.post('/', authenticateToken, requirePermission('inquiry.create'), async (req, res) => {
+  try {
+    const {
+      customerName,
+      customerEmail,
+      customerPhone,
+      message,
+      assignedExpertId
+    } = req.body;
+
+    if (!customerName || !customerEmail || !message) {
+      return res.status(400).json({
+        message: 'Customer name, email, and message are required'
+      });
     }
 
-    const conversation = await response.json();
-    console.log('✅ Created Twilio conversation:', conversation.sid);
-    // Send initial message after a delay
-    setTimeout(async () => {
-      try {
-        const messageUrl = process.env.TWILIO_CONVERSATIONS_SERVICE_SID 
-          ? `https://conversations.twilio.com/v1/Services/${process.env.TWILIO_CONVERSATIONS_SERVICE_SID}/Conversations/${conversation.sid}/Messages`
-          : `https://conversations.twilio.com/v1/Conversations/${conversation.sid}/Messages`;
+    // Validate phone number format if provided
+    if (customerPhone && !validatePhoneNumber(customerPhone)) {
+      return res.status(400).json({
+        message: 'Invalid phone number format. Please use international format (e.g., +1234567890)'
+      });
+    }
 
-        const messagePayload = {
-          Body: `New inquiry from ${customerName} (${customerEmail}): ${message}`,
-          Author: 'system'
-        };
+    let expert;
+    let assignment = { automatic: false, strategy: null, reason: null };
+    let historyNote;
 
-        const messageResponse = await fetch(messageUrl, {
-          method: 'POST',
-          headers: {
-            'Authorization': `Basic ${Buffer.from(process.env.TWILIO_ACCOUNT_SID + ':' + process.env.TWILIO_AUTH_TOKEN).toString('base64')}`,
-            'Content-Type': 'application/json'
-          },
-          body: JSON.stringify(messagePayload)
+    if (assignedExpertId) {
+      // Verify the assigned expert exists and can still sign in
+      const expertResult = await db.query(
+        'SELECT id, email, name, deactivated_at FROM users WHERE id = $1',
+        [assignedExpertId]
+      );
+
+      if (expertResult.rows.length === 0) {
+        return res.status(400).json({ message: 'Assigned expert not found' });
+      }
+
+      if (expertResult.rows[0].deactivated_at) {
+        return res.status(400).json({
+          message: `${expertResult.rows[0].name} has been deactivated and cannot be assigned inquiries`,
+          error: 'EXPERT_DEACTIVATED'
         });
+      }
 
-        if (messageResponse.ok) {
-          console.log('✅ Sent initial message to conversation');
-        } else {
-          console.error('❌ Failed to send initial message:', await messageResponse.text());
-        }
-      } catch (msgError) {
-        console.error('❌ Failed to send initial message:', msgError);
+      expert = expertResult.rows[0];
+      historyNote = `Created and assigned to ${expert.name}`;
+    } else {
+      // No expert chosen: let the assignment engine pick one
+      const request = parseAssignmentRequest(req.body);
+      if (request.error) {
+        return res.status(400).json({ message: request.error });
       }
-    }, 2000); // Wait 2 seconds for conversation to be ready
 
-    // Create inquiry record in database
-    const inquiryResult = await db.query(
-      `INSERT INTO inquiries (customer_name, customer_email, customer_phone, message, conversation_sid, assigned_expert_id, status) 
-       VALUES ($1, $2, $3, $4, $5, $6, 'assigned') 
-       RETURNING id, customer_name, customer_email, customer_phone, message, conversation_sid, assigned_expert_id, status, created_at`,
-      [customerName, customerEmail, customerPhone, message, conversation.sid, assignedExpertId]
-    );
+      const picked = await pickExpert(request);
+      if (!picked.expert) {
+        return res.status(409).json(NO_EXPERT_RESPONSE);
+      }
+
+      ({ expert, assignment, historyNote } = picked);
+      console.log(`🎯 Assignment engine picked ${expert.email} (${assignment.strategy}: ${assignment.reason})`);
+    }
+
+    const created = await createInquiryConversation({
+      customerName,
+      customerEmail,
+      customerPhone,
+      message,
+      expert,
+      createdBy: 'dashboard',
+      changedBy: req.user,
+      historyNote
+    });
+
+    if (!created.inquiry) {
+      return res.status(created.status).json(created.body);
+    }
 
-    const inquiry = inquiryResult.rows[0];
+    const { inquiry, conversation } = created;
 
     res.status(201).json({
       message: 'Conversation created successfully with participants',
@@ -321,13 +614,14 @@ router.post('/', authenticateToken, async (req, res) => {
         ...inquiry,
         expert_name: expert.name,
         expert_email: expert.email,
+        assignment,
         twilio_conversation_sid: conversation.sid,
         twilio_conversation_state: conversation.state,
         endpoints: {
-          conversation_url: process.env.TWILIO_CONVERSATIONS_SERVICE_SID 
+          conversation_url: process.env.TWILIO_CONVERSATIONS_SERVICE_SID
             ? `https://conversations.twilio.com/v1/Services/${process.env.TWILIO_CONVERSATIONS_SERVICE_SID}/Conversations/${conversation.sid}`
             : `https://conversations.twilio.com/v1/Conversations/${conversation.sid}`,
-          messages_url: process.env.TWILIO_CONVERSATIONS_SERVICE_SID 
+          messages_url: process.env.TWILIO_CONVERSATIONS_SERVICE_SID
             ? `https://conversations.twilio.com/v1/Services/${process.env.TWILIO_CONVERSATIONS_SERVICE_SID}/Conversations/${conversation.sid}/Messages`
             : `https://conversations.twilio.com/v1/Conversations/${conversation.sid}/Messages`
         }
@@ -336,23 +630,248 @@ router.post('/', authenticateToken, async (req, res) => {
 
   } catch (error) {
     console.error('❌ Error creating conversation:', error);
-    
+
     if (error.message.includes('Database unavailable')) {
-      return res.status(503).json({ 
+      return res.status(503).json({
         message: 'Database connection failed - Supabase project may be paused. Please check your Supabase dashboard.',
         error: 'SERVICE_UNAVAILABLE'
       });
     }
 
-    res.status(500).json({ 
+    res.status(500).json({
       message: 'Internal server error',
       error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
     });
   }
 });
 
-// Send message to conversation (for external integrations like Make.com)
+const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Open inquiries for any of these customers, as duplicate key -> inquiry id
+const findOpenInquiryDuplicates = async (values) => {
+  const emails = [...new Set(values.map(value => normalizeEmail(value.customerEmail)))];
+  const phones = [...new Set(values.filter(value => value.customerPhone).map(value => normalizePhone(value.customerPhone)))];
+
+  const result = await db.query(
+    `SELECT i.id, ${CUSTOMER_EMAIL_KEY_SQL} AS email, ${CUSTOMER_PHONE_KEY_SQL} AS phone
+     FROM inquiries i
+     WHERE ${OPEN_INQUIRY_SQL}
+       AND (${CUSTOMER_EMAIL_KEY_SQL} = ANY($1::text[]) OR ${CUSTOMER_PHONE_KEY_SQL} = ANY($2::text[]))`,
+    [emails, phones]
+  );
+
+  const existing = new Map();
+  result.rows.forEach(row => {
+    existing.set(`email:${row.email}`, row.id);
+    if (row.phone) existing.set(`phone:${row.phone}`, row.id);
+  });
+  return existing;
+};
+
+const describeDuplicateKey = (key) => (key.startsWith('email:') ? 'email' : 'phone number');
+
+// Bulk import: check a batch of spreadsheet rows and, unless `dryRun`, create an inquiry and
+// Twilio conversation for each valid one, pausing between them
+router.post('/import', authenticateToken, requirePermission('inquiry.create'), async (req, res) => {
+  try {
+    const { rows, dryRun = false } = req.body;
+
+    if (!Array.isArray(rows) || rows.length === 0 || rows.length > MAX_IMPORT_BATCH_SIZE) {
+      return res.status(400).json({ message: `rows must be a list of 1 to ${MAX_IMPORT_BATCH_SIZE} inquiries` });
+    }
+
+    const assignment = parseAssignmentRequest({ assignmentStrategy: req.body.assignmentStrategy });
+    if (assignment.error) {
+      return res.status(400).json({ message: assignment.error });
+    }
+
+    const checked = rows.map(row => validateImportRow(row && typeof row === 'object' ? row : {}));
+    const valid = checked.filter(row => row.errors.length === 0).map(row => row.value);
+    const existing = valid.length > 0 ? await findOpenInquiryDuplicates(valid) : new Map();
+
+    const seen = new Map(); // duplicate key -> row number, within this batch
+    const throttleMs = getImportThrottleMs();
+    const results = [];
+    let attempts = 0;
+
+    for (const { row, value, errors } of checked) {
+      if (errors.length > 0) {
+        results.push({ row, status: 'invalid', errors });
+        continue;
+      }
+
+      const keys = getDuplicateKeys(value);
+      const existingKey = keys.find(key => existing.has(key));
+      if (existingKey) {
+        results.push({
+          row,
+          status: 'duplicate',
+          errors: [`An open inquiry already exists for this ${describeDuplicateKey(existingKey)}`],
+          duplicateOf: existing.get(existingKey)
+        });
+        continue;
+      }
+
+      const earlierKey = keys.find(key => seen.has(key));
+      if (earlierKey) {
+        results.push({
+          row,
+          status: 'duplicate',
+          errors: [`Same ${describeDuplicateKey(earlierKey)} as row ${seen.get(earlierKey)}`]
+        });
+        continue;
+      }
+      keys.forEach(key => seen.set(key, row));
+
+      if (dryRun) {
+        results.push({ row, status: 'ready', errors: [] });
+        continue;
+      }
+
+      if (attempts > 0 && throttleMs > 0) {
+        await sleep(throttleMs);
+      }
+      attempts += 1;
+
+      try {
+        const picked = await pickExpert({ ...assignment, skills: value.skills, region: value.region });
+        if (!picked.expert) {
+          results.push({ row, status: 'failed', errors: [NO_EXPERT_RESPONSE.message] });
+          continue;
+        }
+
+        const created = await createInquiryConversation({
+          customerName: value.customerName,
+          customerEmail: value.customerEmail,
+          customerPhone: value.customerPhone,
+          message: value.message,
+          expert: picked.expert,
+          createdBy: 'import',
+          changedBy: req.user,
+          historyNote: picked.historyNote
+        });
+
+        if (!created.inquiry) {
+          results.push({ row, status: 'failed', errors: [created.body.message] });
+          continue;
+        }
+
+        results.push({
+          row,
+          status: 'created',
+          errors: [],
+          inquiryId: created.inquiry.id,
+          conversationSid: created.conversation.sid,
+          expertName: picked.expert.name
+        });
+      } catch (error) {
+        console.error(`❌ Failed to import row ${row}:`, error);
+        results.push({ row, status: 'failed', errors: ['Failed to create the inquiry and conversation'] });
+      }
+    }
+
+    const count = (status) => results.filter(result => result.status === status).length;
+
+    if (!dryRun) {
+      console.log(`📥 Imported ${count('created')} of ${rows.length} inquiries`);
+      await recordAuditSafely(req, {
+        action: 'inquiry.import',
+        targetType: 'inquiry',
+        metadata: {
+          rows: rows.length,
+          created: count('created'),
+          invalid: count('invalid'),
+          duplicate: count('duplicate'),
+          failed: count('failed'),
+          inquiryIds: results.filter(result => result.inquiryId).map(result => result.inquiryId)
+        }
+      });
+    }
+
+    res.json({ data: { dryRun: Boolean(dryRun), results } });
+  } catch (error) {
+    console.error('❌ Error importing inquiries:', error);
+
+    if (error.message.includes('Database unavailable')) {
+      return res.status(503).json({
+        message: 'Database connection failed - Supabase project may be paused. Please check your Supabase dashboard.',
+        error: 'SERVICE_UNAVAILABLE'
+      });
+    }
+
+    res.status(500).json({ message: 'Failed to import inquiries' });
+  }
+});
+
+// Intake from external forms: a new inquiry, assigned by the assignment engine
+const receiveInquiry = async (req, res) => {
+  try {
+    const { customerName, customerEmail, customerPhone, body, webhook_secret } = req.body;
+
+    if (process.env.WEBHOOK_SECRET && webhook_secret !== process.env.WEBHOOK_SECRET) {
+      return res.status(401).json({ message: 'Unauthorized' });
+    }
+
+    if (!customerName || !customerEmail || !body) {
+      return res.status(400).json({ message: 'customerName, customerEmail and body are required' });
+    }
+
+    if (customerPhone && !validatePhoneNumber(customerPhone)) {
+      return res.status(400).json({
+        message: 'Invalid phone number format. Please use international format (e.g., +1234567890)'
+      });
+    }
+
+    const request = parseAssignmentRequest(req.body);
+    if (request.error) {
+      return res.status(400).json({ message: request.error });
+    }
+
+    const picked = await pickExpert(request);
+    if (!picked.expert) {
+      return res.status(409).json(NO_EXPERT_RESPONSE);
+    }
+
+    const created = await createInquiryConversation({
+      customerName,
+      customerEmail,
+      customerPhone,
+      message: body,
+      expert: picked.expert,
+      createdBy: 'intake',
+      source: 'system',
+      historyNote: picked.historyNote
+    });
+
+    if (!created.inquiry) {
+      return res.status(created.status).json(created.body);
+    }
+
+    console.log(`📥 Intake inquiry ${created.inquiry.id} assigned to ${picked.expert.email} (${picked.assignment.strategy})`);
+
+    res.status(201).json({
+      message: 'Inquiry received',
+      data: {
+        inquiryId: created.inquiry.id,
+        conversationSid: created.conversation.sid,
+        status: created.inquiry.status,
+        expertName: picked.expert.name,
+        assignment: picked.assignment
+      }
+    });
+  } catch (error) {
+    console.error('❌ Error receiving inquiry:', error);
+    res.status(500).json({ message: 'Failed to receive inquiry' });
+  }
+};
+
+// Send message to conversation (for external integrations like Make.com). Without a
+// conversationSid, a message with customer details opens a new inquiry instead.
 router.post('/message', async (req, res) => {
+  if (!req.body.conversationSid && req.body.customerEmail) {
+    return receiveInquiry(req, res);
+  }
+
   try {
     const { conversationSid, body, author, from } = req.body;
 
@@ -426,52 +945,185 @@ router.post('/message', async (req, res) => {
   }
 });
 
+// Get the status history of an inquiry
+router.get('/:id/history', authenticateToken, async (req, res) => {
+  try {
+    await sendStatusHistory(req, res, 'i.id = $1', req.params.id);
+  } catch (error) {
+    console.error('Error fetching inquiry status history:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Get the status history of the inquiry behind a Twilio conversation
+router.get('/by-conversation/:conversationSid/history', authenticateToken, async (req, res) => {
+  try {
+    await sendStatusHistory(req, res, 'i.conversation_sid = $1', req.params.conversationSid);
+  } catch (error) {
+    console.error('Error fetching inquiry status history:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
 // Update inquiry status
-router.patch('/:id/status', authenticateToken, async (req, res) => {
+router.patch('/:id/status', authenticateToken, requirePermission('inquiry.updateStatus'), async (req, res) => {
   try {
     const { id } = req.params;
-    const { status } = req.body;
+    const { status, note } = req.body;
 
-    const validStatuses = ['new', 'assigned', 'in_progress', 'resolved'];
-    if (!validStatuses.includes(status)) {
-      return res.status(400).json({ message: 'Invalid status. Must be one of: ' + validStatuses.join(', ') });
+    if (!INQUIRY_STATUSES.includes(status)) {
+      return res.status(400).json({ message: 'Invalid status. Must be one of: ' + INQUIRY_STATUSES.join(', ') });
     }
 
-    const result = await db.query(
-      `UPDATE inquiries 
-       SET status = $1, updated_at = CURRENT_TIMESTAMP 
-       WHERE id = $2 AND (assigned_expert_id = $3 OR $4 = 'admin')
-       RETURNING id, customer_name, customer_email, customer_phone, message, conversation_sid, status, created_at, updated_at`,
-      [status, id, req.user.id, req.user.role || 'expert']
-    );
+    const updated = await db.transaction(async (client) => {
+      // Lock the row so the transition is checked against the status actually replaced
+      const current = await client.query(
+        `SELECT id, status FROM inquiries
+         WHERE id = $1 AND (assigned_expert_id = $2 OR $3::boolean)
+         FOR UPDATE`,
+        [id, req.user.id, hasPermission(req.user, 'inquiry.viewAll')]
+      );
+
+      if (current.rows.length === 0) {
+        return null;
+      }
 
-    if (result.rows.length === 0) {
+      const inquiry = await applyStatusTransition(client, current.rows[0], status, { changedBy: req.user, note });
+
+      await recordAudit(client, req, {
+        action: 'inquiry.status.update',
+        targetType: 'inquiry',
+        targetId: id,
+        conversationSid: inquiry.conversation_sid,
+        before: { status: current.rows[0].status },
+        after: { status },
+        metadata: typeof note === 'string' && note.trim() ? { note: note.trim() } : undefined
+      });
+
+      return inquiry;
+    });
+
+    if (!updated) {
       return res.status(404).json({ message: 'Inquiry not found or not accessible' });
     }
 
     res.json({
       message: 'Inquiry status updated successfully',
-      data: result.rows[0]
+      data: { ...updated, allowed_transitions: getAllowedTransitions(updated.status) }
     });
   } catch (error) {
+    if (error instanceof InvalidStatusTransitionError) {
+      return res.status(409).json({
+        message: error.allowed.length > 0
+          ? `${error.message}. Allowed next statuses: ${error.allowed.join(', ')}`
+          : error.message,
+        error: 'INVALID_STATUS_TRANSITION',
+        allowedTransitions: error.allowed
+      });
+    }
+
     console.error('Error updating inquiry status:', error);
     res.status(500).json({ message: 'Internal server error' });
   }
 });
 
-// Delete inquiry (admin only)
-router.delete('/:id', authenticateToken, async (req, res) => {
+// Reassign an inquiry to another expert, with an internal handoff note for them
+router.post('/:id/reassign', authenticateToken, requirePermission('inquiry.reassign'), async (req, res) => {
   try {
     const { id } = req.params;
+    const { expertId } = req.body;
+    const note = typeof req.body.note === 'string' ? req.body.note.trim() : '';
 
-    // Check if user is admin
-    if (req.user.role !== 'admin') {
-      return res.status(403).json({ message: 'Admin access required' });
+    if (!isUuid(id)) {
+      return res.status(400).json({ message: 'Invalid inquiry id' });
     }
 
-    const result = await db.query('DELETE FROM inquiries WHERE id = $1 RETURNING id, conversation_sid', [id]);
+    if (!expertId) {
+      return res.status(400).json({ message: 'expertId is required' });
+    }
 
-    if (result.rows.length === 0) {
+    if (!isUuid(expertId)) {
+      return res.status(400).json({ message: 'Invalid expertId' });
+    }
+
+    if (!note || note.length > MAX_HANDOFF_NOTE_LENGTH) {
+      return res.status(400).json({
+        message: `A handoff note of up to ${MAX_HANDOFF_NOTE_LENGTH} characters is required`
+      });
+    }
+
+    const expertResult = await db.query(
+      'SELECT id, email, name, role, deactivated_at FROM users WHERE id = $1',
+      [expertId]
+    );
+    const newExpert = expertResult.rows[0];
+
+    if (!newExpert || newExpert.role !== 'expert') {
+      return res.status(400).json({ message: 'Expert not found' });
+    }
+
+    if (newExpert.deactivated_at) {
+      return res.status(400).json({
+        message: `${newExpert.name} has been deactivated and cannot be assigned inquiries`,
+        error: 'EXPERT_DEACTIVATED'
+      });
+    }
+
+    const outcome = await reassignmentService.reassign(id, newExpert, { note, req });
+
+    if (!outcome.inquiry) {
+      return res.status(outcome.status).json(outcome.body);
+    }
+
+    const { inquiry, previous, twilio: twilioCleanup } = outcome;
+
+    res.json({
+      message: twilioCleanup.previousExpertRemoved === false
+        ? `Reassigned to ${newExpert.name}, but ${previous.expert_name} could not be removed from the conversation`
+        : `Reassigned to ${newExpert.name}`,
+      data: {
+        ...inquiry,
+        expert_name: newExpert.name,
+        expert_email: newExpert.email
+      },
+      twilio: twilioCleanup
+    });
+  } catch (error) {
+    console.error('❌ Error reassigning inquiry:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+});
+
+// Delete inquiry
+router.delete('/:id', authenticateToken, requirePermission('inquiry.delete'), async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const deleted = await db.transaction(async (client) => {
+      const result = await client.query(
+        `DELETE FROM inquiries WHERE id = $1
+         RETURNING id, customer_name, customer_email, customer_phone, message, conversation_sid, status,
+                   assigned_expert_id, created_at`,
+        [id]
+      );
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      // Keep the deleted inquiry in the log; it exists nowhere else afterwards
+      await recordAudit(client, req, {
+        action: 'inquiry.delete',
+        targetType: 'inquiry',
+        targetId: id,
+        conversationSid: result.rows[0].conversation_sid,
+        before: result.rows[0]
+      });
+
+      return result.rows[0];
+    });
+
+    if (!deleted) {
       return res.status(404).json({ message: 'Inquiry not found' });
     }
 
@@ -482,17 +1134,25 @@ router.delete('/:id', authenticateToken, async (req, res) => {
   }
 });
 
-// Get all experts (for assigning inquiries)
+// Get all experts (for assigning inquiries), with whether they are available right now
 router.get('/experts/list', authenticateToken, async (req, res) => {
   try {
     const result = await db.query(
-      'SELECT id, name, email FROM users WHERE role = $1 ORDER BY name',
+      `SELECT u.id, u.name, u.email, ${AVAILABILITY_COLUMNS_SQL}
+       FROM users u
+       WHERE u.role = $1 AND u.deactivated_at IS NULL
+       ORDER BY u.name`,
       ['expert']
     );
 
     res.json({
       message: 'Experts retrieved successfully',
-      data: result.rows
+      data: result.rows.map(row => ({
+        id: row.id,
+        name: row.name,
+        email: row.email,
+        availability: toAvailability(row)
+      }))
     });
   } catch (error) {
     console.error('Error fetching experts:', error);
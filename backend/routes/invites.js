@@ -0,0 +1,199 @@
+const express = require('express');
+const { authenticateToken } = require('../middleware/auth');
+const { requirePermission } = require('../middleware/permissions');
+const db = require('../config/database');
+const { ROLES } = require('../utils/permissions');
+const {
+  DEFAULT_INVITE_TTL_DAYS,
+  MAX_INVITE_TTL_DAYS,
+  INVITE_STATUS_SQL,
+  generateInviteToken,
+  hashInviteToken,
+  findUsableInvite,
+  toInviteResponse
+} = require('../utils/invites');
+const { recordAudit } = require('../utils/auditLog');
+const { isUuid } = require('../utils/sessions');
+
+const router = express.Router();
+
+// Bot accounts are provisioned separately, never through an invite
+const INVITABLE_ROLES = ROLES.filter(role => role !== 'bot');
+
+const INVITE_SELECT = `
+  SELECT
+    ui.id, ui.email, ui.role, ui.created_at, ui.expires_at, ui.used_at, ui.revoked_at,
+    ${INVITE_STATUS_SQL} AS status,
+    creator.name AS created_by_name,
+    creator.email AS created_by_email,
+    used_by.name AS used_by_name,
+    used_by.email AS used_by_email
+  FROM user_invites ui
+  LEFT JOIN users creator ON ui.created_by = creator.id
+  LEFT JOIN users used_by ON ui.used_by = used_by.id
+`;
+
+const handleDatabaseError = (res, error, fallbackMessage) => {
+  if (error.message && error.message.includes('Database unavailable')) {
+    return res.status(503).json({
+      message: 'Database connection failed - Supabase project may be paused. Please check your Supabase dashboard.',
+      error: 'SERVICE_UNAVAILABLE'
+    });
+  }
+  res.status(500).json({ message: fallbackMessage });
+};
+
+// Look up an invite from a registration link (public; the token is the credential)
+router.get('/lookup/:token', async (req, res) => {
+  try {
+    const invite = await findUsableInvite(db, req.params.token);
+
+    if (!invite) {
+      return res.status(404).json({
+        message: 'This invite is invalid, has expired or has already been used',
+        error: 'INVALID_INVITE'
+      });
+    }
+
+    res.json({
+      invite: {
+        email: invite.email,
+        role: invite.role,
+        expiresAt: invite.expires_at
+      }
+    });
+  } catch (error) {
+    console.error('❌ Invite lookup error:', error);
+    handleDatabaseError(res, error, 'Failed to look up invite');
+  }
+});
+
+// List invites; ?status=pending limits the list to outstanding ones
+router.get('/', authenticateToken, requirePermission('user.invite'), async (req, res) => {
+  try {
+    const onlyPending = req.query.status === 'pending';
+
+    const result = await db.query(
+      `${INVITE_SELECT}
+       ${onlyPending ? 'WHERE ui.used_at IS NULL AND ui.revoked_at IS NULL AND ui.expires_at > CURRENT_TIMESTAMP' : ''}
+       ORDER BY ui.created_at DESC
+       LIMIT 200`
+    );
+
+    res.json({ invites: result.rows.map(toInviteResponse) });
+  } catch (error) {
+    console.error('❌ Error listing invites:', error);
+    handleDatabaseError(res, error, 'Failed to load invites');
+  }
+});
+
+// Issue an invite. The token is returned once and never stored in plain text.
+router.post('/', authenticateToken, requirePermission('user.invite'), async (req, res) => {
+  try {
+    const { role, email, expiresInDays } = req.body;
+
+    if (!INVITABLE_ROLES.includes(role)) {
+      return res.status(400).json({ message: `Invalid role. Must be one of: ${INVITABLE_ROLES.join(', ')}` });
+    }
+
+    const inviteEmail = typeof email === 'string' && email.trim() ? email.trim().toLowerCase() : null;
+    if (inviteEmail && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(inviteEmail)) {
+      return res.status(400).json({ message: 'Invalid email address' });
+    }
+
+    const days = expiresInDays === undefined ? DEFAULT_INVITE_TTL_DAYS : Number(expiresInDays);
+    if (!Number.isInteger(days) || days < 1 || days > MAX_INVITE_TTL_DAYS) {
+      return res.status(400).json({ message: `expiresInDays must be a whole number between 1 and ${MAX_INVITE_TTL_DAYS}` });
+    }
+
+    const token = generateInviteToken();
+
+    const inviteId = await db.transaction(async (client) => {
+      const inserted = await client.query(
+        `INSERT INTO user_invites (token_hash, email, role, created_by, expires_at)
+         VALUES ($1, $2, $3, $4, CURRENT_TIMESTAMP + make_interval(days => $5))
+         RETURNING id`,
+        [hashInviteToken(token), inviteEmail, role, req.user.id, days]
+      );
+
+      await recordAudit(client, req, {
+        action: 'invite.create',
+        targetType: 'invite',
+        targetId: inserted.rows[0].id,
+        after: { role, email: inviteEmail, expiresInDays: days }
+      });
+
+      return inserted.rows[0].id;
+    });
+
+    const result = await db.query(`${INVITE_SELECT} WHERE ui.id = $1`, [inviteId]);
+
+    console.log(`✉️ Invite for ${inviteEmail || 'any email'} (${role}) issued by ${req.user.email}, expires in ${days} days`);
+
+    res.status(201).json({
+      message: 'Invite created',
+      invite: toInviteResponse(result.rows[0]),
+      token
+    });
+  } catch (error) {
+    console.error('❌ Error creating invite:', error);
+    handleDatabaseError(res, error, 'Failed to create invite');
+  }
+});
+
+// Revoke an outstanding invite
+router.delete('/:id', authenticateToken, requirePermission('user.invite'), async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    if (!isUuid(id)) {
+      return res.status(404).json({ message: 'Invite not found' });
+    }
+
+    const result = await db.transaction(async (client) => {
+      const revoked = await client.query(
+        `UPDATE user_invites
+         SET revoked_at = CURRENT_TIMESTAMP
+         WHERE id = $1 AND used_at IS NULL AND revoked_at IS NULL
+         RETURNING id, role, email`,
+        [id]
+      );
+
+      if (revoked.rows.length > 0) {
+        await recordAudit(client, req, {
+          action: 'invite.revoke',
+          targetType: 'invite',
+          targetId: id,
+          metadata: { role: revoked.rows[0].role, email: revoked.rows[0].email }
+        });
+      }
+
+      return revoked;
+    });
+
+    if (result.rows.length === 0) {
+      const existing = await db.query(`${INVITE_SELECT} WHERE ui.id = $1`, [id]);
+      if (existing.rows.length === 0) {
+        return res.status(404).json({ message: 'Invite not found' });
+      }
+      return res.status(409).json({
+        message: `Invite is already ${existing.rows[0].status}`,
+        invite: toInviteResponse(existing.rows[0])
+      });
+    }
+
+    const updated = await db.query(`${INVITE_SELECT} WHERE ui.id = $1`, [id]);
+
+    console.log(`🚫 Invite ${id} revoked by ${req.user.email}`);
+
+    res.json({
+      message: 'Invite revoked',
+      invite: toInviteResponse(updated.rows[0])
+    });
+  } catch (error) {
+    console.error('❌ Error revoking invite:', error);
+    handleDatabaseError(res, error, 'Failed to revoke invite');
+  }
+});
+
+module.exports = router;
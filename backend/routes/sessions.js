@@ -0,0 +1,85 @@
+const express = require('express');
+const { authenticateToken } = require('../middleware/auth');
+const db = require('../config/database');
+const {
+  SESSION_SELECT_COLUMNS,
+  ACTIVE_SESSION_SQL,
+  revokeSession,
+  revokeUserSessions,
+  isUuid,
+  toSessionResponse
+} = require('../utils/sessions');
+
+const router = express.Router();
+
+const handleDatabaseError = (res, error, fallbackMessage) => {
+  if (error.message && error.message.includes('Database unavailable')) {
+    return res.status(503).json({
+      message: 'Database connection failed - Supabase project may be paused. Please check your Supabase dashboard.',
+      error: 'SERVICE_UNAVAILABLE'
+    });
+  }
+  res.status(500).json({ message: fallbackMessage });
+};
+
+// Active sessions of the signed-in user, most recently used first
+router.get('/', authenticateToken, async (req, res) => {
+  try {
+    const result = await db.query(
+      `SELECT ${SESSION_SELECT_COLUMNS}
+       FROM user_sessions s
+       WHERE s.user_id = $1 AND ${ACTIVE_SESSION_SQL}
+       ORDER BY s.last_seen_at DESC`,
+      [req.user.id]
+    );
+
+    res.json({
+      sessions: result.rows.map(row => toSessionResponse(row, req.sessionId))
+    });
+  } catch (error) {
+    console.error('❌ Error listing sessions:', error);
+    handleDatabaseError(res, error, 'Failed to load sessions');
+  }
+});
+
+// Sign out everywhere; `includeCurrent: false` keeps the session making the request
+router.post('/revoke-all', authenticateToken, async (req, res) => {
+  try {
+    const includeCurrent = req.body.includeCurrent !== false;
+
+    const revoked = await revokeUserSessions(db, req.user.id, 'revoked_by_user', {
+      exceptSessionId: includeCurrent ? null : req.sessionId
+    });
+
+    console.log(`🚪 ${req.user.email} signed out of ${revoked} session(s)${includeCurrent ? '' : ', keeping the current one'}`);
+
+    res.json({ message: `Signed out of ${revoked} session${revoked === 1 ? '' : 's'}`, revoked });
+  } catch (error) {
+    console.error('❌ Error revoking sessions:', error);
+    handleDatabaseError(res, error, 'Failed to revoke sessions');
+  }
+});
+
+// Revoke one of the user's own sessions
+router.delete('/:id', authenticateToken, async (req, res) => {
+  try {
+    if (!isUuid(req.params.id)) {
+      return res.status(404).json({ message: 'Session not found or already ended' });
+    }
+
+    const revoked = await revokeSession(db, req.params.id, 'revoked_by_user', { userId: req.user.id });
+
+    if (!revoked) {
+      return res.status(404).json({ message: 'Session not found or already ended' });
+    }
+
+    console.log(`🚪 ${req.user.email} revoked session ${req.params.id}`);
+
+    res.json({ message: 'Session revoked', current: req.params.id === req.sessionId });
+  } catch (error) {
+    console.error('❌ Error revoking session:', error);
+    handleDatabaseError(res, error, 'Failed to revoke session');
+  }
+});
+
+module.exports = router;
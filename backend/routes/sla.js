@@ -0,0 +1,161 @@
+const express = require('express');
+const { authenticateToken } = require('../middleware/auth');
+const { requirePermission } = require('../middleware/permissions');
+const { hasPermission } = require('../utils/permissions');
+const db = require('../config/database');
+const slaService = require('../services/slaService');
+const { SLA_METRICS, SLA_ESCALATIONS, getSlaPolicy, toSlaBreachResponse } = require('../utils/sla');
+
+const router = express.Router();
+
+const MAX_PAGE_SIZE = 200;
+
+const handleDatabaseError = (res, error, fallbackMessage) => {
+  if (error.message && error.message.includes('Database unavailable')) {
+    return res.status(503).json({
+      message: 'Database connection failed - Supabase project may be paused. Please check your Supabase dashboard.',
+      error: 'SERVICE_UNAVAILABLE'
+    });
+  }
+  res.status(500).json({ message: fallbackMessage });
+};
+
+// WHERE clause for the breach filters; returns an error message for bad input
+const buildBreachFilter = (query) => {
+  const conditions = [];
+  const params = [];
+  const addCondition = (sql, value) => {
+    params.push(value);
+    conditions.push(sql.replace('?', `$${params.length}`));
+  };
+
+  if (query.metric) {
+    if (!SLA_METRICS.includes(query.metric)) {
+      return { error: `Invalid metric. Must be one of: ${SLA_METRICS.join(', ')}` };
+    }
+    addCondition('b.metric = ?', query.metric);
+  }
+  if (query.escalation) {
+    if (!SLA_ESCALATIONS.includes(query.escalation)) {
+      return { error: `Invalid escalation. Must be one of: ${SLA_ESCALATIONS.join(', ')}` };
+    }
+    addCondition('b.escalation = ?', query.escalation);
+  }
+  if (query.expertId) {
+    addCondition('b.expert_id::text = ?', query.expertId);
+  }
+
+  for (const [key, operator] of [['from', '>='], ['to', '<=']]) {
+    if (query[key]) {
+      const date = new Date(query[key]);
+      if (Number.isNaN(date.getTime())) {
+        return { error: `Invalid ${key} date` };
+      }
+      addCondition(`b.breached_at ${operator} ?`, date.toISOString());
+    }
+  }
+
+  return {
+    where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '',
+    params
+  };
+};
+
+// Running SLA clocks: every open inquiry for those who see all inquiries, else the user's own
+router.get('/clocks', authenticateToken, async (req, res) => {
+  try {
+    const viewAll = hasPermission(req.user, 'inquiry.viewAll');
+    const inquiries = await slaService.getRunningClocks({ expertId: viewAll ? null : req.user.id });
+
+    res.json({
+      data: inquiries.map(inquiry => ({
+        inquiryId: inquiry.id,
+        conversationSid: inquiry.conversationSid,
+        customerName: inquiry.customerName,
+        expert: { id: inquiry.expert.id, name: inquiry.expert.name },
+        clocks: inquiry.clocks
+      })),
+      policy: getSlaPolicy()
+    });
+  } catch (error) {
+    console.error('❌ Error fetching SLA clocks:', error);
+    handleDatabaseError(res, error, 'Failed to load SLA clocks');
+  }
+});
+
+// Recorded breaches, newest first, with totals for the same filters
+router.get('/breaches', authenticateToken, requirePermission('inquiry.viewAll'), async (req, res) => {
+  try {
+    const filter = buildBreachFilter(req.query);
+    if (filter.error) {
+      return res.status(400).json({ message: filter.error });
+    }
+
+    const page = Math.max(parseInt(req.query.page) || 1, 1);
+    const limit = Math.min(Math.max(parseInt(req.query.limit) || 50, 1), MAX_PAGE_SIZE);
+    const offset = (page - 1) * limit;
+
+    const result = await db.query(
+      `SELECT b.*, i.customer_name, i.conversation_sid
+       FROM inquiry_sla_breaches b
+       LEFT JOIN inquiries i ON b.inquiry_id = i.id
+       ${filter.where}
+       ORDER BY b.breached_at DESC, b.id DESC
+       LIMIT $${filter.params.length + 1} OFFSET $${filter.params.length + 2}`,
+      [...filter.params, limit, offset]
+    );
+
+    const metricResult = await db.query(
+      `SELECT b.metric, COUNT(*)::int AS count,
+              COUNT(*) FILTER (WHERE b.escalation = 'reassigned')::int AS reassigned
+       FROM inquiry_sla_breaches b
+       ${filter.where}
+       GROUP BY b.metric`,
+      filter.params
+    );
+
+    const expertResult = await db.query(
+      `SELECT b.expert_id, MAX(b.expert_name) AS expert_name, COUNT(*)::int AS count
+       FROM inquiry_sla_breaches b
+       ${filter.where}
+       GROUP BY b.expert_id
+       ORDER BY count DESC
+       LIMIT 10`,
+      filter.params
+    );
+
+    const byMetric = Object.fromEntries(SLA_METRICS.map(metric => [metric, 0]));
+    let reassigned = 0;
+    for (const row of metricResult.rows) {
+      byMetric[row.metric] = row.count;
+      reassigned += row.reassigned;
+    }
+    const total = Object.values(byMetric).reduce((sum, count) => sum + count, 0);
+
+    res.json({
+      data: result.rows.map(toSlaBreachResponse),
+      summary: {
+        total,
+        reassigned,
+        byMetric,
+        byExpert: expertResult.rows.map(row => ({
+          id: row.expert_id,
+          name: row.expert_name || 'Deleted user',
+          count: row.count
+        }))
+      },
+      policy: getSlaPolicy(),
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    });
+  } catch (error) {
+    console.error('❌ Error fetching SLA breaches:', error);
+    handleDatabaseError(res, error, 'Failed to load SLA breaches');
+  }
+});
+
+module.exports = router;
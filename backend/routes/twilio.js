@@ -1,8 +1,10 @@
 const express = require('express');
 const twilio = require('twilio');
 const { authenticateToken } = require('../middleware/auth');
+const { requirePermission } = require('../middleware/permissions');
 const twilioService = require('../services/twilioService');
 const { generateFromAttribute } = require('../utils/messageUtils');
+const { getIdempotencyKey, isValidIdempotencyKey, runOnce } = require('../utils/idempotency');
 
 const router = express.Router();
 
@@ -328,75 +330,133 @@ async function sendToTravelerDMWebhook(conversationSid, messageData, conversatio
   }
 }
 
+// How many recent messages to scan for an idempotency key the in-memory cache no longer knows
+const IDEMPOTENCY_LOOKBACK = 20;
+
+// Find a message we already sent with this key (e.g. before a server restart)
+async function findMessageByIdempotencyKey(client, conversationSid, idempotencyKey) {
+  const recentMessages = await client.conversations.v1
+    .conversations(conversationSid)
+    .messages
+    .list({ order: 'desc', limit: IDEMPOTENCY_LOOKBACK });
+
+  return recentMessages.find(message => {
+    try {
+      const attributes = JSON.parse(message.attributes || '{}');
+      return attributes.idempotencyKey === idempotencyKey;
+    } catch (parseError) {
+      return false;
+    }
+  }) || null;
+}
+
 // Send message to conversation - INTEGRATED WITH WEBHOOK LOGIC FROM OLD CODE
-router.post('/message', authenticateToken, async (req, res) => {
+router.post('/message', authenticateToken, requirePermission('message.send'), async (req, res) => {
   try {
     const { conversationSid, message, author, from } = req.body;
+    const idempotencyKey = getIdempotencyKey(req);
 
     if (!conversationSid || !message) {
       return res.status(400).json({ message: 'Conversation SID and message are required' });
     }
 
+    if (idempotencyKey && !isValidIdempotencyKey(idempotencyKey)) {
+      return res.status(400).json({ message: 'Idempotency-Key must be at most 255 characters' });
+    }
+
     if (!process.env.TWILIO_ACCOUNT_SID || !process.env.TWILIO_AUTH_TOKEN) {
       return res.status(503).json({ message: 'Twilio not configured' });
     }
 
     const client = twilio(process.env.TWILIO_ACCOUNT_SID, process.env.TWILIO_AUTH_TOKEN);
-    
-    // Prepare message data
-    const messageData = {
-      body: message,
-      author: author || req.user.email
-    };
 
-    // Add 'from' attribute - either provided or auto-generated based on user role
-    let fromAttribute = from;
-    
-    if (!fromAttribute) {
-      fromAttribute = generateFromAttribute(req.user, 'user');
-    }
-    
-    if (fromAttribute) {
-      messageData.attributes = JSON.stringify({ from: fromAttribute });
-      console.log(`📝 Adding 'from' attribute to message: ${fromAttribute} (user: ${req.user.name}, role: ${req.user.role})`);
-    }
+    const sendMessage = async () => {
+      if (idempotencyKey) {
+        const existingMessage = await findMessageByIdempotencyKey(client, conversationSid, idempotencyKey);
+        if (existingMessage) {
+          console.log(`♻️ Message with idempotency key ${idempotencyKey} already sent: ${existingMessage.sid}`);
+          return { messageResult: existingMessage, duplicate: true };
+        }
+      }
 
-    // Send message to Twilio first
-    const messageResult = await client.conversations.v1
-      .conversations(conversationSid)
-      .messages
-      .create(messageData);
+      // Prepare message data
+      const messageData = {
+        body: message,
+        author: author || req.user.email
+      };
+      const attributes = {};
 
-    console.log('✅ Message sent to Twilio successfully:', {
-      messageSid: messageResult.sid,
-      conversationSid: messageResult.conversationSid,
-      author: messageResult.author
-    });
+      // Add 'from' attribute - either provided or auto-generated based on user role
+      let fromAttribute = from;
+      
+      if (!fromAttribute) {
+        fromAttribute = generateFromAttribute(req.user, 'user');
+      }
+      
+      if (fromAttribute) {
+        attributes.from = fromAttribute;
+        console.log(`📝 Adding 'from' attribute to message: ${fromAttribute} (user: ${req.user.name}, role: ${req.user.role})`);
+      }
 
-    // IMMEDIATELY trigger webhook logic after sending message (copied from old webhook code)
-    console.log('🚨 IMMEDIATELY TRIGGERING WEBHOOK LOGIC AFTER MESSAGE SENT...');
-    
-    try {
-      // Create webhook message data in the format expected by the old routing function
-      const webhookMessageData = {
-        MessageSid: messageResult.sid,
-        Author: messageResult.author,
-        Body: messageResult.body,
-        DateCreated: new Date().toISOString(),
-        Source: 'dashboard'
-      };
+      // Stored on the message so retries can be matched even after a restart
+      if (idempotencyKey) {
+        attributes.idempotencyKey = idempotencyKey;
+      }
+
+      if (Object.keys(attributes).length > 0) {
+        messageData.attributes = JSON.stringify(attributes);
+      }
+
+      // Send message to Twilio first
+      const messageResult = await client.conversations.v1
+        .conversations(conversationSid)
+        .messages
+        .create(messageData);
+
+      console.log('✅ Message sent to Twilio successfully:', {
+        messageSid: messageResult.sid,
+        conversationSid: messageResult.conversationSid,
+        author: messageResult.author
+      });
 
-      // Call the same routing function from the old webhook code
-      await routeMessageToExternalWebhook(conversationSid, webhookMessageData);
+      // IMMEDIATELY trigger webhook logic after sending message (copied from old webhook code)
+      console.log('🚨 IMMEDIATELY TRIGGERING WEBHOOK LOGIC AFTER MESSAGE SENT...');
       
-      console.log('✅ Webhook routing completed successfully');
-    } catch (webhookError) {
-      console.error('❌ Webhook routing failed:', webhookError);
-      // Don't fail the message sending if webhook fails
+      try {
+        // Create webhook message data in the format expected by the old routing function
+        const webhookMessageData = {
+          MessageSid: messageResult.sid,
+          Author: messageResult.author,
+          Body: messageResult.body,
+          DateCreated: new Date().toISOString(),
+          Source: 'dashboard'
+        };
+
+        // Call the same routing function from the old webhook code
+        await routeMessageToExternalWebhook(conversationSid, webhookMessageData);
+        
+        console.log('✅ Webhook routing completed successfully');
+      } catch (webhookError) {
+        console.error('❌ Webhook routing failed:', webhookError);
+        // Don't fail the message sending if webhook fails
+      }
+
+      return { messageResult, duplicate: false };
+    };
+
+    let outcome;
+    if (idempotencyKey) {
+      const { result, replayed } = await runOnce(`${req.user.id}:${idempotencyKey}`, sendMessage);
+      outcome = { ...result, duplicate: result.duplicate || replayed };
+    } else {
+      outcome = await sendMessage();
     }
 
+    const { messageResult, duplicate } = outcome;
+
     res.json({
-      message: 'Message sent successfully',
+      message: duplicate ? 'Message already sent' : 'Message sent successfully',
+      duplicate,
       data: {
         sid: messageResult.sid,
         conversationSid: messageResult.conversationSid,
@@ -415,7 +475,7 @@ router.post('/message', authenticateToken, async (req, res) => {
 });
 
 // Send SMS
-router.post('/send', authenticateToken, async (req, res) => {
+router.post('/send', authenticateToken, requirePermission('message.send'), async (req, res) => {
   try {
     const { to, message } = req.body;
 
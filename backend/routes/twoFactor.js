@@ -0,0 +1,241 @@
+const express = require('express');
+const bcrypt = require('bcryptjs');
+const QRCode = require('qrcode');
+const { authenticateToken } = require('../middleware/auth');
+const { twoFactorLimiter } = require('../middleware/rateLimit');
+const db = require('../config/database');
+const { toUserResponse } = require('../utils/permissions');
+const { generateTotpSecret, verifyTotp, buildOtpAuthUrl } = require('../utils/totp');
+const {
+  TWO_FACTOR_ISSUER,
+  isTwoFactorRequired,
+  encryptSecret,
+  decryptSecret,
+  replaceRecoveryCodes,
+  consumeRecoveryCode,
+  verifyUserTotp
+} = require('../utils/twoFactor');
+
+const router = express.Router();
+
+const USER_2FA_COLUMNS = `id, email, name, role, password_hash, email_verified_at,
+  totp_secret, totp_pending_secret, totp_enabled_at, totp_last_step`;
+
+const handleDatabaseError = (res, error, fallbackMessage) => {
+  if (error.message && error.message.includes('Database unavailable')) {
+    return res.status(503).json({
+      message: 'Database connection failed - Supabase project may be paused. Please check your Supabase dashboard.',
+      error: 'SERVICE_UNAVAILABLE'
+    });
+  }
+  res.status(500).json({ message: fallbackMessage });
+};
+
+const invalidCode = (res) => res.status(400).json({
+  message: 'Invalid verification code',
+  error: 'INVALID_TWO_FACTOR_CODE'
+});
+
+// 2FA state for the signed-in user
+router.get('/', authenticateToken, async (req, res) => {
+  try {
+    const result = await db.query(
+      `SELECT u.totp_enabled_at,
+              COUNT(rc.id) FILTER (WHERE rc.used_at IS NULL)::int AS recovery_codes_remaining
+       FROM users u
+       LEFT JOIN user_recovery_codes rc ON rc.user_id = u.id
+       WHERE u.id = $1
+       GROUP BY u.id`,
+      [req.user.id]
+    );
+
+    const row = result.rows[0];
+
+    res.json({
+      enabled: Boolean(row.totp_enabled_at),
+      enabledAt: row.totp_enabled_at,
+      required: isTwoFactorRequired(req.user.role),
+      recoveryCodesRemaining: row.totp_enabled_at ? row.recovery_codes_remaining : 0
+    });
+  } catch (error) {
+    console.error('❌ Error loading two-factor status:', error);
+    handleDatabaseError(res, error, 'Failed to load two-factor status');
+  }
+});
+
+// Start enrollment: a new secret is kept pending until a code from it is confirmed
+router.post('/setup', authenticateToken, async (req, res) => {
+  try {
+    if (req.user.totp_enabled_at) {
+      return res.status(409).json({ message: 'Two-factor authentication is already enabled' });
+    }
+
+    const secret = generateTotpSecret();
+    const otpauthUrl = buildOtpAuthUrl(secret, req.user.email, TWO_FACTOR_ISSUER);
+
+    await db.query(
+      'UPDATE users SET totp_pending_secret = $2 WHERE id = $1',
+      [req.user.id, encryptSecret(secret)]
+    );
+
+    console.log('🔐 Two-factor enrollment started for:', req.user.email);
+
+    res.json({
+      secret,
+      otpauthUrl,
+      qrCode: await QRCode.toDataURL(otpauthUrl, { margin: 1, width: 220 })
+    });
+  } catch (error) {
+    console.error('❌ Error starting two-factor setup:', error);
+    handleDatabaseError(res, error, 'Failed to start two-factor setup');
+  }
+});
+
+// Finish enrollment with the first code from the authenticator; returns recovery codes once
+router.post('/enable', authenticateToken, twoFactorLimiter, async (req, res) => {
+  try {
+    const { code } = req.body;
+
+    const outcome = await db.transaction(async (client) => {
+      const result = await client.query(`SELECT ${USER_2FA_COLUMNS} FROM users WHERE id = $1 FOR UPDATE`, [req.user.id]);
+      const user = result.rows[0];
+
+      if (user.totp_enabled_at) {
+        return { status: 409, body: { message: 'Two-factor authentication is already enabled' } };
+      }
+      if (!user.totp_pending_secret) {
+        return { status: 400, body: { message: 'Start two-factor setup first' } };
+      }
+
+      const step = verifyTotp(decryptSecret(user.totp_pending_secret), code);
+      if (step === null) {
+        return null;
+      }
+
+      const updated = await client.query(
+        `UPDATE users
+         SET totp_secret = totp_pending_secret,
+             totp_pending_secret = NULL,
+             totp_enabled_at = CURRENT_TIMESTAMP,
+             totp_last_step = $2
+         WHERE id = $1
+         RETURNING id, email, name, role, email_verified_at, totp_enabled_at`,
+        [user.id, step]
+      );
+
+      const recoveryCodes = await replaceRecoveryCodes(client, user.id);
+      return { user: updated.rows[0], recoveryCodes };
+    });
+
+    if (!outcome) {
+      return invalidCode(res);
+    }
+    if (!outcome.user) {
+      return res.status(outcome.status).json(outcome.body);
+    }
+
+    console.log('✅ Two-factor authentication enabled for:', req.user.email);
+
+    res.json({
+      message: 'Two-factor authentication enabled',
+      recoveryCodes: outcome.recoveryCodes,
+      user: toUserResponse(outcome.user)
+    });
+  } catch (error) {
+    console.error('❌ Error enabling two-factor authentication:', error);
+    handleDatabaseError(res, error, 'Failed to enable two-factor authentication');
+  }
+});
+
+// Replace all recovery codes; needs a current authenticator code
+router.post('/recovery-codes', authenticateToken, twoFactorLimiter, async (req, res) => {
+  try {
+    const { code } = req.body;
+
+    const recoveryCodes = await db.transaction(async (client) => {
+      const result = await client.query(`SELECT ${USER_2FA_COLUMNS} FROM users WHERE id = $1 FOR UPDATE`, [req.user.id]);
+      const user = result.rows[0];
+
+      if (!user.totp_enabled_at || !(await verifyUserTotp(client, user, code))) {
+        return null;
+      }
+
+      return replaceRecoveryCodes(client, user.id);
+    });
+
+    if (!recoveryCodes) {
+      return invalidCode(res);
+    }
+
+    console.log('🔐 Recovery codes regenerated for:', req.user.email);
+
+    res.json({ message: 'New recovery codes generated', recoveryCodes });
+  } catch (error) {
+    console.error('❌ Error regenerating recovery codes:', error);
+    handleDatabaseError(res, error, 'Failed to regenerate recovery codes');
+  }
+});
+
+// Turn 2FA off; needs the password and an authenticator or recovery code
+router.post('/disable', authenticateToken, twoFactorLimiter, async (req, res) => {
+  try {
+    const { password, code, recoveryCode } = req.body;
+
+    if (isTwoFactorRequired(req.user.role)) {
+      return res.status(403).json({
+        message: 'Two-factor authentication is required for your role and cannot be turned off',
+        error: 'TWO_FACTOR_REQUIRED_BY_POLICY'
+      });
+    }
+
+    if (!password || (!code && !recoveryCode)) {
+      return res.status(400).json({ message: 'Password and a verification code are required' });
+    }
+
+    const outcome = await db.transaction(async (client) => {
+      const result = await client.query(`SELECT ${USER_2FA_COLUMNS} FROM users WHERE id = $1 FOR UPDATE`, [req.user.id]);
+      const user = result.rows[0];
+
+      if (!user.totp_enabled_at) {
+        return { status: 409, body: { message: 'Two-factor authentication is not enabled' } };
+      }
+      if (!(await bcrypt.compare(password, user.password_hash))) {
+        return { status: 400, body: { message: 'Incorrect password', error: 'INVALID_PASSWORD' } };
+      }
+
+      const accepted = recoveryCode
+        ? await consumeRecoveryCode(client, user.id, recoveryCode)
+        : await verifyUserTotp(client, user, code);
+      if (!accepted) {
+        return { status: 400, body: { message: 'Invalid verification code', error: 'INVALID_TWO_FACTOR_CODE' } };
+      }
+
+      const updated = await client.query(
+        `UPDATE users
+         SET totp_secret = NULL, totp_pending_secret = NULL, totp_enabled_at = NULL, totp_last_step = NULL
+         WHERE id = $1
+         RETURNING id, email, name, role, email_verified_at, totp_enabled_at`,
+        [user.id]
+      );
+      await client.query('DELETE FROM user_recovery_codes WHERE user_id = $1', [user.id]);
+
+      return { user: updated.rows[0] };
+    });
+
+    if (!outcome.user) {
+      return res.status(outcome.status).json(outcome.body);
+    }
+
+    console.log('🔓 Two-factor authentication disabled for:', req.user.email);
+
+    res.json({
+      message: 'Two-factor authentication disabled',
+      user: toUserResponse(outcome.user)
+    });
+  } catch (error) {
+    console.error('❌ Error disabling two-factor authentication:', error);
+    handleDatabaseError(res, error, 'Failed to disable two-factor authentication');
+  }
+});
+
+module.exports = router;
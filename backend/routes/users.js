@@ -0,0 +1,430 @@
+const express = require('express');
+const { authenticateToken } = require('../middleware/auth');
+const { requirePermission } = require('../middleware/permissions');
+const db = require('../config/database');
+const twilioRoleService = require('../services/twilioRoleService');
+const mailService = require('../services/mailService');
+const { ROLES } = require('../utils/permissions');
+const { generatePasswordResetToken } = require('../utils/accountTokens');
+const { isUuid, revokeUserSessions } = require('../utils/sessions');
+const { recordAudit } = require('../utils/auditLog');
+const { OPEN_INQUIRY_SQL } = require('../utils/inquiryStatus');
+const { MAX_TAGS, MAX_TAG_LENGTH, normalizeTags } = require('../utils/expertTags');
+const { AVAILABILITY_COLUMNS_SQL, toAvailability } = require('../utils/availability');
+
+const router = express.Router();
+
+const requireManage = requirePermission('user.manage');
+
+// Bot accounts are provisioned separately; people cannot be turned into one
+const ASSIGNABLE_ROLES = ROLES.filter(role => role !== 'bot');
+
+const MAX_NAME_LENGTH = 100;
+
+const USER_SELECT = `
+  SELECT
+    u.id, u.email, u.name, u.role, u.skills, u.regions, u.created_at, u.email_verified_at, u.totp_enabled_at, u.deactivated_at,
+    deactivator.name AS deactivated_by_name, ${AVAILABILITY_COLUMNS_SQL},
+    (SELECT MAX(s.last_seen_at) FROM user_sessions s WHERE s.user_id = u.id) AS last_seen_at,
+    (SELECT COUNT(*)::int FROM user_sessions s
+      WHERE s.user_id = u.id AND s.revoked_at IS NULL AND s.expires_at > CURRENT_TIMESTAMP) AS active_sessions,
+    (SELECT COUNT(*)::int FROM inquiries i WHERE i.assigned_expert_id = u.id AND ${OPEN_INQUIRY_SQL}) AS open_inquiries
+  FROM users u
+  LEFT JOIN users deactivator ON u.deactivated_by = deactivator.id
+`;
+
+const TWILIO_ROLE_NAMES = {
+  [twilioRoleService.roles.SERVICE_ADMIN]: 'Service Admin',
+  [twilioRoleService.roles.SERVICE_USER]: 'Service User'
+};
+
+const toManagedUserResponse = (row) => ({
+  id: row.id,
+  email: row.email,
+  name: row.name,
+  role: row.role,
+  skills: row.skills || [],
+  regions: row.regions || [],
+  emailVerified: Boolean(row.email_verified_at),
+  twoFactorEnabled: Boolean(row.totp_enabled_at),
+  createdAt: row.created_at,
+  lastSeenAt: row.last_seen_at,
+  activeSessions: row.active_sessions,
+  openInquiries: row.open_inquiries,
+  availability: toAvailability(row),
+  deactivatedAt: row.deactivated_at,
+  deactivatedBy: row.deactivated_by_name || null
+});
+
+const toTwilioStatusResponse = (provisioning) => ({
+  status: provisioning.status,
+  expectedRole: TWILIO_ROLE_NAMES[provisioning.expectedRoleSid] || provisioning.expectedRoleSid,
+  actualRole: provisioning.actualRoleSid
+    ? TWILIO_ROLE_NAMES[provisioning.actualRoleSid] || provisioning.actualRoleSid
+    : null,
+  twilioUserSid: provisioning.twilioUserSid
+});
+
+const isTwilioConfigured = () => !!(process.env.TWILIO_ACCOUNT_SID && process.env.TWILIO_AUTH_TOKEN);
+
+const handleDatabaseError = (res, error, fallbackMessage) => {
+  if (error.message && error.message.includes('Database unavailable')) {
+    return res.status(503).json({
+      message: 'Database connection failed - Supabase project may be paused. Please check your Supabase dashboard.',
+      error: 'SERVICE_UNAVAILABLE'
+    });
+  }
+  res.status(500).json({ message: fallbackMessage });
+};
+
+// Load the target user, answering 404 for unknown or malformed ids
+const findUser = async (queryable, id, { forUpdate = false } = {}) => {
+  if (!isUuid(id)) return null;
+  const result = await queryable.query(
+    `SELECT id, email, name, role, skills, regions, password_hash, deactivated_at FROM users WHERE id = $1${forUpdate ? ' FOR UPDATE' : ''}`,
+    [id]
+  );
+  return result.rows[0] || null;
+};
+
+// The dashboard must always keep one admin who can sign in
+const isLastActiveAdmin = async (client, user) => {
+  if (user.role !== 'admin' || user.deactivated_at) return false;
+  const result = await client.query(
+    `SELECT COUNT(*)::int AS count FROM users WHERE role = 'admin' AND deactivated_at IS NULL AND id <> $1`,
+    [user.id]
+  );
+  return result.rows[0].count === 0;
+};
+
+const LAST_ADMIN_RESPONSE = {
+  message: 'This is the last active admin. Make someone else an admin first.',
+  error: 'LAST_ADMIN'
+};
+
+const SELF_RESPONSE = {
+  message: 'You cannot change your own role or deactivate your own account',
+  error: 'CANNOT_MODIFY_SELF'
+};
+
+// Tags are stored normalized, so order and spelling compare directly
+const sameTags = (a, b) => a.length === b.length && a.every((tag, index) => tag === b[index]);
+
+// Keep the Twilio service role in line with the database role; failures are reported, not fatal
+const syncTwilioRole = async (user) => {
+  if (!isTwilioConfigured()) return 'skipped';
+  try {
+    await twilioRoleService.createTwilioUserWithRole(user.email);
+    return 'updated';
+  } catch (error) {
+    console.error(`❌ Failed to sync Twilio role for ${user.email}:`, error);
+    return 'failed';
+  }
+};
+
+// List every user with account state and activity
+router.get('/', authenticateToken, requireManage, async (req, res) => {
+  try {
+    const result = await db.query(`${USER_SELECT} ORDER BY u.deactivated_at IS NOT NULL, u.name`);
+
+    res.json({ users: result.rows.map(toManagedUserResponse) });
+  } catch (error) {
+    console.error('❌ Error listing users:', error);
+    handleDatabaseError(res, error, 'Failed to load users');
+  }
+});
+
+// Edit name, role and the skill/region tags used for automatic assignment
+router.patch('/:id', authenticateToken, requireManage, async (req, res) => {
+  try {
+    const { name, role } = req.body;
+
+    if (name === undefined && role === undefined && req.body.skills === undefined && req.body.regions === undefined) {
+      return res.status(400).json({ message: 'Nothing to update. Send a name, role, skills and/or regions.' });
+    }
+
+    const newName = typeof name === 'string' ? name.trim() : name;
+    if (newName !== undefined && (typeof newName !== 'string' || !newName || newName.length > MAX_NAME_LENGTH)) {
+      return res.status(400).json({ message: `Name must be between 1 and ${MAX_NAME_LENGTH} characters` });
+    }
+
+    if (role !== undefined && !ASSIGNABLE_ROLES.includes(role)) {
+      return res.status(400).json({ message: `Invalid role. Must be one of: ${ASSIGNABLE_ROLES.join(', ')}` });
+    }
+
+    const skills = req.body.skills === undefined ? undefined : normalizeTags(req.body.skills);
+    const regions = req.body.regions === undefined ? undefined : normalizeTags(req.body.regions);
+    if (skills === null || regions === null) {
+      return res.status(400).json({
+        message: `Skills and regions must be lists of up to ${MAX_TAGS} tags of at most ${MAX_TAG_LENGTH} characters`
+      });
+    }
+
+    const outcome = await db.transaction(async (client) => {
+      const user = await findUser(client, req.params.id, { forUpdate: true });
+      if (!user) {
+        return { status: 404, body: { message: 'User not found' } };
+      }
+
+      const roleChanged = role !== undefined && role !== user.role;
+      if (roleChanged && user.id === req.user.id) {
+        return { status: 409, body: SELF_RESPONSE };
+      }
+      if (roleChanged && await isLastActiveAdmin(client, user)) {
+        return { status: 409, body: LAST_ADMIN_RESPONSE };
+      }
+
+      const before = { name: user.name, role: user.role, skills: user.skills, regions: user.regions };
+      const after = {
+        name: newName ?? user.name,
+        role: role ?? user.role,
+        skills: skills ?? user.skills,
+        regions: regions ?? user.regions
+      };
+
+      await client.query(
+        'UPDATE users SET name = $2, role = $3, skills = $4, regions = $5 WHERE id = $1',
+        [user.id, after.name, after.role, after.skills, after.regions]
+      );
+
+      if (before.name !== after.name || before.role !== after.role ||
+          !sameTags(before.skills, after.skills) || !sameTags(before.regions, after.regions)) {
+        await recordAudit(client, req, {
+          action: 'user.update',
+          targetType: 'user',
+          targetId: user.id,
+          before,
+          after,
+          metadata: { email: user.email }
+        });
+      }
+
+      return { user, roleChanged };
+    });
+
+    if (!outcome.user) {
+      return res.status(outcome.status).json(outcome.body);
+    }
+
+    // Admins and everyone else hold different Twilio service roles
+    const twilioSync = outcome.roleChanged ? await syncTwilioRole(outcome.user) : 'skipped';
+
+    const result = await db.query(`${USER_SELECT} WHERE u.id = $1`, [outcome.user.id]);
+
+    console.log(`👤 ${req.user.email} updated user ${outcome.user.email}`);
+
+    res.json({
+      message: 'User updated',
+      user: toManagedUserResponse(result.rows[0]),
+      twilioSync
+    });
+  } catch (error) {
+    console.error('❌ Error updating user:', error);
+    handleDatabaseError(res, error, 'Failed to update user');
+  }
+});
+
+// Deactivate: blocks sign-in, ends every session and removes the user from expert pickers
+router.post('/:id/deactivate', authenticateToken, requireManage, async (req, res) => {
+  try {
+    const outcome = await db.transaction(async (client) => {
+      const user = await findUser(client, req.params.id, { forUpdate: true });
+      if (!user) {
+        return { status: 404, body: { message: 'User not found' } };
+      }
+      if (user.id === req.user.id) {
+        return { status: 409, body: SELF_RESPONSE };
+      }
+      if (user.deactivated_at) {
+        return { status: 409, body: { message: 'User is already deactivated' } };
+      }
+      if (await isLastActiveAdmin(client, user)) {
+        return { status: 409, body: LAST_ADMIN_RESPONSE };
+      }
+
+      await client.query(
+        'UPDATE users SET deactivated_at = CURRENT_TIMESTAMP, deactivated_by = $2 WHERE id = $1',
+        [user.id, req.user.id]
+      );
+
+      const revokedSessions = await revokeUserSessions(client, user.id, 'deactivated');
+
+      const openInquiries = await client.query(
+        `SELECT COUNT(*)::int AS count FROM inquiries i WHERE i.assigned_expert_id = $1 AND ${OPEN_INQUIRY_SQL}`,
+        [user.id]
+      );
+
+      await recordAudit(client, req, {
+        action: 'user.deactivate',
+        targetType: 'user',
+        targetId: user.id,
+        before: { active: true },
+        after: { active: false },
+        metadata: { email: user.email, revokedSessions, openInquiries: openInquiries.rows[0].count }
+      });
+
+      return { user };
+    });
+
+    if (!outcome.user) {
+      return res.status(outcome.status).json(outcome.body);
+    }
+
+    const result = await db.query(`${USER_SELECT} WHERE u.id = $1`, [outcome.user.id]);
+    const user = toManagedUserResponse(result.rows[0]);
+
+    console.log(`🚫 ${req.user.email} deactivated ${outcome.user.email} (${user.openInquiries} open inquiries)`);
+
+    res.json({
+      message: user.openInquiries > 0
+        ? `User deactivated. ${user.openInquiries} open inquir${user.openInquiries === 1 ? 'y is' : 'ies are'} still assigned to them.`
+        : 'User deactivated',
+      user
+    });
+  } catch (error) {
+    console.error('❌ Error deactivating user:', error);
+    handleDatabaseError(res, error, 'Failed to deactivate user');
+  }
+});
+
+// Reactivate a deactivated account
+router.post('/:id/reactivate', authenticateToken, requireManage, async (req, res) => {
+  try {
+    const outcome = await db.transaction(async (client) => {
+      const user = await findUser(client, req.params.id, { forUpdate: true });
+      if (!user) {
+        return { status: 404, body: { message: 'User not found' } };
+      }
+      if (!user.deactivated_at) {
+        return { status: 409, body: { message: 'User is already active' } };
+      }
+
+      await client.query('UPDATE users SET deactivated_at = NULL, deactivated_by = NULL WHERE id = $1', [user.id]);
+
+      await recordAudit(client, req, {
+        action: 'user.reactivate',
+        targetType: 'user',
+        targetId: user.id,
+        before: { active: false },
+        after: { active: true },
+        metadata: { email: user.email }
+      });
+
+      return { user };
+    });
+
+    if (!outcome.user) {
+      return res.status(outcome.status).json(outcome.body);
+    }
+
+    const result = await db.query(`${USER_SELECT} WHERE u.id = $1`, [outcome.user.id]);
+
+    console.log(`✅ ${req.user.email} reactivated ${outcome.user.email}`);
+
+    res.json({ message: 'User reactivated', user: toManagedUserResponse(result.rows[0]) });
+  } catch (error) {
+    console.error('❌ Error reactivating user:', error);
+    handleDatabaseError(res, error, 'Failed to reactivate user');
+  }
+});
+
+// Email the user a password reset link; `signOut: true` also ends their sessions right away
+router.post('/:id/reset-password', authenticateToken, requireManage, async (req, res) => {
+  try {
+    const user = await findUser(db, req.params.id);
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+    if (user.deactivated_at) {
+      return res.status(409).json({ message: 'Reactivate the account before resetting its password' });
+    }
+
+    const signOut = req.body.signOut === true;
+
+    try {
+      await mailService.sendPasswordReset(user, generatePasswordResetToken(user));
+    } catch (mailError) {
+      console.error(`❌ Failed to send password reset email to ${user.email}:`, mailError);
+      return res.status(502).json({ message: 'Could not send the password reset email', error: 'MAIL_FAILED' });
+    }
+
+    const revokedSessions = await db.transaction(async (client) => {
+      const revoked = signOut ? await revokeUserSessions(client, user.id, 'password_reset_by_admin') : 0;
+
+      await recordAudit(client, req, {
+        action: 'user.password.reset',
+        targetType: 'user',
+        targetId: user.id,
+        metadata: { email: user.email, signedOut: signOut, revokedSessions: revoked }
+      });
+
+      return revoked;
+    });
+
+    console.log(`🔑 ${req.user.email} sent a password reset link to ${user.email}`);
+
+    res.json({
+      message: `Password reset link sent to ${user.email}${signOut ? `; signed out of ${revokedSessions} session${revokedSessions === 1 ? '' : 's'}` : ''}`,
+      revokedSessions
+    });
+  } catch (error) {
+    console.error('❌ Error resetting password:', error);
+    handleDatabaseError(res, error, 'Failed to reset password');
+  }
+});
+
+// Twilio provisioning status: does the Conversations user exist with the service role the database role calls for?
+router.get('/:id/twilio', authenticateToken, requireManage, async (req, res) => {
+  try {
+    const user = await findUser(db, req.params.id);
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    if (!isTwilioConfigured()) {
+      return res.json({ status: 'not_configured', expectedRole: null, actualRole: null, twilioUserSid: null });
+    }
+
+    const provisioning = await twilioRoleService.getProvisioningStatus(user.email);
+    res.json(toTwilioStatusResponse(provisioning));
+  } catch (error) {
+    console.error('❌ Error checking Twilio provisioning:', error);
+    res.status(502).json({ message: 'Failed to check Twilio provisioning', details: error.message });
+  }
+});
+
+// Create the Twilio user, or fix its service role
+router.post('/:id/twilio/provision', authenticateToken, requireManage, async (req, res) => {
+  try {
+    const user = await findUser(db, req.params.id);
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    if (!isTwilioConfigured()) {
+      return res.status(503).json({ message: 'Twilio not configured. Please set TWILIO_ACCOUNT_SID and TWILIO_AUTH_TOKEN.' });
+    }
+
+    const before = await twilioRoleService.getProvisioningStatus(user.email);
+    await twilioRoleService.createTwilioUserWithRole(user.email);
+    const after = await twilioRoleService.getProvisioningStatus(user.email);
+
+    await recordAudit(db, req, {
+      action: 'user.twilio.provision',
+      targetType: 'user',
+      targetId: user.id,
+      before: { status: before.status, role: TWILIO_ROLE_NAMES[before.actualRoleSid] || before.actualRoleSid },
+      after: { status: after.status, role: TWILIO_ROLE_NAMES[after.actualRoleSid] || after.actualRoleSid },
+      metadata: { email: user.email }
+    });
+
+    console.log(`🔧 ${req.user.email} provisioned ${user.email} in Twilio (${after.status})`);
+
+    res.json(toTwilioStatusResponse(after));
+  } catch (error) {
+    console.error('❌ Error provisioning Twilio user:', error);
+    res.status(502).json({ message: 'Failed to provision Twilio user', details: error.message });
+  }
+});
+
+module.exports = router;
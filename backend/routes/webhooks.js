@@ -2,9 +2,57 @@ const express = require('express');
 const db = require('../config/database');
 const twilioRoleService = require('../services/twilioRoleService');
 const twilioService = require('../services/twilioService');
+const slaService = require('../services/slaService');
+const { canTransition, applyStatusTransition } = require('../utils/inquiryStatus');
 
 const router = express.Router();
 
+/**
+ * Apply a webhook-driven status change to the inquiry behind a conversation. Changes the state
+ * machine does not allow (e.g. an inquiry nobody has accepted yet) are skipped.
+ * @param {string} conversationSid - Twilio conversation SID
+ * @param {Function} pickStatus - Given the current status, returns the new status or null
+ * @param {string} note - Reason recorded in the status history
+ * @returns {Promise<boolean|null>} null when no inquiry tracks the conversation, else whether it changed
+ */
+async function transitionInquiryFromWebhook(conversationSid, pickStatus, note) {
+  return db.transaction(async (client) => {
+    const result = await client.query(
+      'SELECT id, status FROM inquiries WHERE conversation_sid = $1 FOR UPDATE',
+      [conversationSid]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const inquiry = result.rows[0];
+    const newStatus = pickStatus(inquiry.status);
+
+    if (!newStatus || newStatus === inquiry.status || !canTransition(inquiry.status, newStatus)) {
+      return false;
+    }
+
+    await applyStatusTransition(client, inquiry, newStatus, { source: 'webhook', note });
+    console.log(`✅ Updated inquiry ${inquiry.id} status from ${inquiry.status} to ${newStatus}`);
+    return true;
+  });
+}
+
+// First message after acceptance means work has started
+const statusAfterMessage = (status) => (status === 'accepted' || status === 'reopened' ? 'in_progress' : null);
+
+const statusAfterConversationState = (conversationState) => (status) => {
+  switch (conversationState) {
+    case 'active':
+      return status === 'new' ? 'assigned' : null;
+    case 'closed':
+      return 'resolved';
+    default:
+      return null;
+  }
+};
+
 // Middleware to parse Twilio webhook data
 router.use(express.urlencoded({ extended: true }));
 
@@ -28,24 +76,16 @@ router.post('/message-added', async (req, res) => {
     } = req.body;
 
     // Step 1: Update inquiry status if this is a tracked conversation
-    const inquiryResult = await db.query(
-      'SELECT * FROM inquiries WHERE conversation_sid = $1',
-      [ConversationSid]
-    );
+    await transitionInquiryFromWebhook(ConversationSid, statusAfterMessage, 'Message added to the conversation');
 
-    if (inquiryResult.rows.length > 0) {
-      const inquiry = inquiryResult.rows[0];
-      
-      if (inquiry.status === 'assigned' || inquiry.status === 'new') {
-        await db.query(
-          'UPDATE inquiries SET status = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2',
-          ['in_progress', inquiry.id]
-        );
-        console.log(`✅ Updated inquiry ${inquiry.id} status to 'in_progress'`);
-      }
+    // Step 2: Keep the SLA reply and wait clocks up to date
+    try {
+      await slaService.recordMessage(ConversationSid, Author, DateCreated);
+    } catch (slaError) {
+      console.error('❌ Failed to update SLA clocks:', slaError);
     }
 
-    // Step 2: Determine conversation type and route to appropriate webhook
+    // Step 3: Determine conversation type and route to appropriate webhook
     await routeMessageToExternalWebhook(ConversationSid, {
       MessageSid,
       Author,
@@ -350,40 +390,14 @@ router.post('/conversation-state-updated', async (req, res) => {
       UniqueName
     } = req.body;
 
-    // Find the inquiry associated with this conversation
-    const inquiryResult = await db.query(
-      'SELECT * FROM inquiries WHERE conversation_sid = $1',
-      [ConversationSid]
+    // Update the associated inquiry's status based on conversation state
+    const changed = await transitionInquiryFromWebhook(
+      ConversationSid,
+      statusAfterConversationState(ConversationState),
+      `Twilio conversation became ${ConversationState}`
     );
 
-    if (inquiryResult.rows.length > 0) {
-      const inquiry = inquiryResult.rows[0];
-      
-      // Update inquiry status based on conversation state
-      let newStatus = inquiry.status;
-      
-      switch (ConversationState) {
-        case 'active':
-          if (inquiry.status === 'new') {
-            newStatus = 'assigned';
-          }
-          break;
-        case 'closed':
-          newStatus = 'resolved';
-          break;
-        case 'inactive':
-          // Keep current status
-          break;
-      }
-
-      if (newStatus !== inquiry.status) {
-        await db.query(
-          'UPDATE inquiries SET status = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2',
-          [newStatus, inquiry.id]
-        );
-        console.log(`✅ Updated inquiry ${inquiry.id} status from ${inquiry.status} to ${newStatus}`);
-      }
-    } else {
+    if (changed === null) {
       console.log('ℹ️ No inquiry found for conversation:', ConversationSid);
     }
 
@@ -605,22 +619,7 @@ async function handleMessageAdded(body) {
 
   // Step 1: Update inquiry status if this is a tracked conversation
   try {
-    const inquiryResult = await db.query(
-      'SELECT * FROM inquiries WHERE conversation_sid = $1',
-      [ConversationSid]
-    );
-
-    if (inquiryResult.rows.length > 0) {
-      const inquiry = inquiryResult.rows[0];
-      
-      if (inquiry.status === 'assigned' || inquiry.status === 'new') {
-        await db.query(
-          'UPDATE inquiries SET status = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2',
-          ['in_progress', inquiry.id]
-        );
-        console.log(`✅ Updated inquiry ${inquiry.id} status to 'in_progress'`);
-      }
-    }
+    await transitionInquiryFromWebhook(ConversationSid, statusAfterMessage, 'Message added to the conversation');
   } catch (dbError) {
     console.error('❌ Error updating inquiry status:', dbError);
   }
@@ -651,37 +650,11 @@ async function handleConversationStateUpdated(body) {
   });
 
   try {
-    const inquiryResult = await db.query(
-      'SELECT * FROM inquiries WHERE conversation_sid = $1',
-      [ConversationSid]
+    await transitionInquiryFromWebhook(
+      ConversationSid,
+      statusAfterConversationState(ConversationState),
+      `Twilio conversation became ${ConversationState}`
     );
-
-    if (inquiryResult.rows.length > 0) {
-      const inquiry = inquiryResult.rows[0];
-      
-      let newStatus = inquiry.status;
-      
-      switch (ConversationState) {
-        case 'active':
-          if (inquiry.status === 'new') {
-            newStatus = 'assigned';
-          }
-          break;
-        case 'closed':
-          newStatus = 'resolved';
-          break;
-        case 'inactive':
-          break;
-      }
-
-      if (newStatus !== inquiry.status) {
-        await db.query(
-          'UPDATE inquiries SET status = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2',
-          [newStatus, inquiry.id]
-        );
-        console.log(`✅ Updated inquiry ${inquiry.id} status from ${inquiry.status} to ${newStatus}`);
-      }
-    }
   } catch (error) {
     console.error('❌ Error processing conversation state update:', error);
   }
@@ -15,6 +15,14 @@ const twilioRoleService = require('./services/twilioRoleService');
 const adminRoutes = require('./routes/admin');
 const conversationRoutes = require('./routes/conversations');
 const expertAcceptanceRoutes = require('./routes/expertAcceptance');
+const inviteRoutes = require('./routes/invites');
+const twoFactorRoutes = require('./routes/twoFactor');
+const sessionRoutes = require('./routes/sessions');
+const auditRoutes = require('./routes/audit');
+const userRoutes = require('./routes/users');
+const availabilityRoutes = require('./routes/availability');
+const slaRoutes = require('./routes/sla');
+const slaService = require('./services/slaService');
 
 const app = express();
 const PORT = process.env.PORT || 8080;
@@ -62,7 +70,7 @@ app.use(cors({
   },
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'Accept'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'Accept', 'Idempotency-Key'],
   exposedHeaders: ['Content-Length'],
   optionsSuccessStatus: 204,
 }));
@@ -126,6 +134,8 @@ app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
 // Routes
+app.use('/api/auth/2fa', twoFactorRoutes);
+app.use('/api/auth/sessions', sessionRoutes);
 app.use('/api/auth', authRoutes);
 app.use('/api/twilio', twilioRoutes);
 app.use('/api/inquiries', inquiryRoutes);
@@ -135,6 +145,11 @@ app.use('/api/sheets', googleSheetsRoutes);
 app.use('/api/admin', adminRoutes);
 app.use('/api/conversations', conversationRoutes);
 app.use('/api/expert-acceptance', expertAcceptanceRoutes);
+app.use('/api/invites', inviteRoutes);
+app.use('/api/audit', auditRoutes);
+app.use('/api/users', userRoutes);
+app.use('/api/availability', availabilityRoutes);
+app.use('/api/sla', slaRoutes);
 
 // Health check endpoint
 app.get('/api/health', (req, res) => {
@@ -219,6 +234,9 @@ app.listen(PORT, () => {
       console.error('❌ Failed to initialize bot roles:', error);
     });
   }
+
+  // Escalate inquiries whose SLA clocks run out
+  slaService.start();
   
   console.log(`📡 Webhook endpoints available:`);
   console.log(`  POST http://localhost:${PORT}/api/webhooks/message-added`);
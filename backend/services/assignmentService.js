@@ -0,0 +1,161 @@
+const db = require('../config/database');
+const { OPEN_INQUIRY_SQL } = require('../utils/inquiryStatus');
+const { AVAILABILITY_COLUMNS_SQL, toAvailability } = require('../utils/availability');
+require('dotenv').config();
+
+/**
+ * Strategies rank the active experts for a new inquiry. `rank(candidates, request)` returns the
+ * candidates best first, and `explain(candidate, request)` says why the first one was picked.
+ * A candidate is `{ id, name, email, skills, regions, openInquiries, lastAssignedAt, matched, availability }`;
+ * a request is `{ skills, region }`. Pick the default with ASSIGNMENT_STRATEGY, or plug in another
+ * with assignmentService.registerStrategy().
+ *
+ * Strategies only rank experts who are available right now. When nobody is, experts who are merely
+ * off shift are ranked instead; experts who are away or out of office are never picked.
+ */
+
+const DEFAULT_STRATEGY = 'least_open';
+
+// Never-assigned experts first, then whoever has waited longest
+const byLastAssigned = (a, b) => {
+  if (!a.lastAssignedAt || !b.lastAssignedAt) {
+    return (a.lastAssignedAt ? 1 : 0) - (b.lastAssignedAt ? 1 : 0) || a.name.localeCompare(b.name);
+  }
+  return new Date(a.lastAssignedAt) - new Date(b.lastAssignedAt) || a.name.localeCompare(b.name);
+};
+
+const byOpenInquiries = (a, b) => a.openInquiries - b.openInquiries || byLastAssigned(a, b);
+
+const describeLoad = (candidate) =>
+  `${candidate.openInquiries} open inquir${candidate.openInquiries === 1 ? 'y' : 'ies'}`;
+
+const STRATEGIES = {
+  round_robin: {
+    label: 'Round-robin',
+    description: 'Takes turns: the expert who has gone longest without a new inquiry',
+    rank: (candidates) => [...candidates].sort(byLastAssigned),
+    explain: (candidate) => (candidate.lastAssignedAt ? 'next in the round-robin' : 'not assigned anything yet')
+  },
+  least_open: {
+    label: 'Least busy',
+    description: 'The expert with the fewest open inquiries',
+    rank: (candidates) => [...candidates].sort(byOpenInquiries),
+    explain: (candidate) => `fewest open inquiries (${candidate.openInquiries})`
+  },
+  skill_region: {
+    label: 'Skill and region match',
+    description: 'The expert whose skill and region tags best match the inquiry, then the least busy',
+    // Each matching skill and a matching region count one point
+    rank: (candidates) => [...candidates].sort((a, b) => b.matched.length - a.matched.length || byOpenInquiries(a, b)),
+    explain: (candidate) => (candidate.matched.length > 0
+      ? `matches ${candidate.matched.join(', ')}; ${describeLoad(candidate)}`
+      : `no skill or region match; ${describeLoad(candidate)}`)
+  }
+};
+
+// Tags of the request the candidate has
+const matchTags = (candidate, { skills = [], region = null }) => [
+  ...skills.filter(skill => candidate.skills.includes(skill)),
+  ...(region && candidate.regions.includes(region) ? [region] : [])
+];
+
+class AssignmentService {
+  constructor() {
+    this.strategies = { ...STRATEGIES };
+  }
+
+  // Add or replace a strategy: { label, description, rank, explain }
+  registerStrategy(name, strategy) {
+    this.strategies[name] = strategy;
+  }
+
+  hasStrategy(name) {
+    return Object.prototype.hasOwnProperty.call(this.strategies, name);
+  }
+
+  getDefaultStrategy() {
+    const name = process.env.ASSIGNMENT_STRATEGY || DEFAULT_STRATEGY;
+
+    if (!this.hasStrategy(name)) {
+      throw new Error(`Unknown ASSIGNMENT_STRATEGY "${name}". Use one of: ${Object.keys(this.strategies).join(', ')}`);
+    }
+    return name;
+  }
+
+  listStrategies() {
+    return Object.entries(this.strategies).map(([name, strategy]) => ({
+      name,
+      label: strategy.label,
+      description: strategy.description
+    }));
+  }
+
+  // Active experts with their current load, availability and when they were last handed an inquiry
+  async loadCandidates(queryable = db) {
+    const result = await queryable.query(
+      `SELECT u.id, u.name, u.email, u.skills, u.regions, ${AVAILABILITY_COLUMNS_SQL},
+         (SELECT COUNT(*)::int FROM inquiries i WHERE i.assigned_expert_id = u.id AND ${OPEN_INQUIRY_SQL}) AS open_inquiries,
+         GREATEST(
+           (SELECT MAX(i.created_at) FROM inquiries i WHERE i.assigned_expert_id = u.id),
+           (SELECT MAX(h.created_at) FROM inquiry_handoffs h WHERE h.to_expert_id = u.id)
+         ) AS last_assigned_at
+       FROM users u
+       WHERE u.role = 'expert' AND u.deactivated_at IS NULL`
+    );
+
+    return result.rows.map(row => ({
+      id: row.id,
+      name: row.name,
+      email: row.email,
+      skills: row.skills || [],
+      regions: row.regions || [],
+      openInquiries: row.open_inquiries,
+      lastAssignedAt: row.last_assigned_at,
+      availability: toAvailability(row)
+    }));
+  }
+
+  /**
+   * Rank every active expert for an inquiry
+   * @param {Object} request
+   * @param {string} [request.strategy] - Strategy name; ASSIGNMENT_STRATEGY when omitted
+   * @param {string[]} [request.skills] - Normalized skill tags of the inquiry
+   * @param {string} [request.region] - Normalized region tag of the inquiry
+   * @param {string[]} [request.excludeIds] - Experts to leave out, e.g. the one an inquiry is taken from
+   * @returns {Promise<Object>} `{ strategy, candidates, expert, reason }`; candidates who can be picked come
+   *   first, and expert is null when nobody can be
+   */
+  async rankExperts({ strategy, skills = [], region = null, excludeIds = [] } = {}, queryable = db) {
+    const name = strategy || this.getDefaultStrategy();
+    const selected = this.strategies[name];
+
+    if (!selected) {
+      throw new Error(`Unknown assignment strategy "${name}"`);
+    }
+
+    const request = { skills, region };
+    const candidates = (await this.loadCandidates(queryable))
+      .filter(candidate => !excludeIds.includes(candidate.id))
+      .map(candidate => ({ ...candidate, matched: matchTags(candidate, request) }));
+
+    const available = candidates.filter(candidate => candidate.availability.available);
+    const offShift = candidates.filter(candidate => candidate.availability.state === 'off_shift');
+    const pool = available.length > 0 ? available : offShift;
+    const rest = candidates.filter(candidate => !pool.includes(candidate));
+
+    const ranked = selected.rank(pool, request);
+    const expert = ranked[0] || null;
+    const reason = expert && (available.length > 0
+      ? selected.explain(expert, request)
+      : `${selected.explain(expert, request)}; nobody is on shift`);
+
+    return {
+      strategy: name,
+      candidates: [...ranked, ...selected.rank(rest, request)],
+      expert,
+      reason
+    };
+  }
+}
+
+module.exports = new AssignmentService();
@@ -0,0 +1,170 @@
+const fs = require('fs/promises');
+const path = require('path');
+const crypto = require('crypto');
+require('dotenv').config();
+
+/**
+ * Transports deliver a message `{ from, to, subject, text, html }` and resolve with `{ id }`.
+ * Pick one with MAIL_TRANSPORT, or plug in another with mailService.setTransport().
+ */
+
+// Development stand-in: every message is written to MAIL_FILE_DIR as a .eml file
+const createFileTransport = (directory = process.env.MAIL_FILE_DIR || path.join(__dirname, '..', 'tmp', 'mail')) => ({
+  name: 'file',
+  async send(message) {
+    const id = `${new Date().toISOString().replace(/[:.]/g, '-')}-${crypto.randomBytes(4).toString('hex')}`;
+    const filePath = path.join(directory, `${id}.eml`);
+
+    const lines = [
+      `From: ${message.from}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      `Date: ${new Date().toUTCString()}`,
+      'Content-Type: text/plain; charset=utf-8',
+      '',
+      message.text
+    ];
+
+    await fs.mkdir(directory, { recursive: true });
+    await fs.writeFile(filePath, lines.join('\r\n'), 'utf8');
+
+    console.log(`📁 Mail to ${message.to} written to ${filePath}`);
+    return { id };
+  }
+});
+
+// SMTP relay, or a local catcher such as Mailpit/MailHog on localhost:1025 in development
+const createSmtpTransport = () => {
+  // Only loaded when SMTP is actually used
+  const nodemailer = require('nodemailer');
+
+  const port = parseInt(process.env.SMTP_PORT || '587', 10);
+  const transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port,
+    secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+    auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD } : undefined
+  });
+
+  return {
+    name: 'smtp',
+    async send(message) {
+      const info = await transporter.sendMail(message);
+      return { id: info.messageId };
+    }
+  };
+};
+
+const TRANSPORTS = {
+  file: createFileTransport,
+  smtp: createSmtpTransport
+};
+
+class MailService {
+  constructor() {
+    this.transport = null;
+  }
+
+  getTransport() {
+    if (!this.transport) {
+      const name = process.env.MAIL_TRANSPORT || (process.env.SMTP_HOST ? 'smtp' : 'file');
+      const factory = TRANSPORTS[name];
+
+      if (!factory) {
+        throw new Error(`Unknown MAIL_TRANSPORT "${name}". Use one of: ${Object.keys(TRANSPORTS).join(', ')}`);
+      }
+
+      this.transport = factory();
+      console.log(`📮 Mail transport: ${this.transport.name}`);
+    }
+    return this.transport;
+  }
+
+  // Replace the transport, e.g. with a provider API client
+  setTransport(transport) {
+    this.transport = transport;
+  }
+
+  async send({ to, subject, text, html }) {
+    const message = {
+      from: process.env.MAIL_FROM || 'Baboo Dashboard <no-reply@localhost>',
+      to,
+      subject,
+      text,
+      html
+    };
+
+    const result = await this.getTransport().send(message);
+    console.log(`✉️ Sent "${subject}" to ${to}`);
+    return result;
+  }
+
+  // Links in account emails always point at the configured frontend, never at a request header
+  buildFrontendLink(param, token) {
+    const url = new URL('/', process.env.FRONTEND_URL || 'http://localhost:5173');
+    url.searchParams.set(param, token);
+    return url.toString();
+  }
+
+  async sendPasswordReset(user, token) {
+    const link = this.buildFrontendLink('resetToken', token);
+
+    return this.send({
+      to: user.email,
+      subject: 'Reset your Baboo Dashboard password',
+      text: [
+        `Hi ${user.name || 'there'},`,
+        '',
+        'Someone asked to reset the password for your Baboo Dashboard account.',
+        'Use the link below to choose a new password. The link works once and expires shortly.',
+        '',
+        link,
+        '',
+        'If you did not ask for this, you can ignore this email; your password stays the same.'
+      ].join('\n')
+    });
+  }
+
+  async sendEmailVerification(user, token) {
+    const link = this.buildFrontendLink('verifyToken', token);
+
+    return this.send({
+      to: user.email,
+      subject: 'Confirm your email for Baboo Dashboard',
+      text: [
+        `Hi ${user.name || 'there'},`,
+        '',
+        'Please confirm that this is your email address by opening the link below.',
+        '',
+        link,
+        '',
+        'If you did not create a Baboo Dashboard account, you can ignore this email.'
+      ].join('\n')
+    });
+  }
+
+  // breaches: [{ customerName, expertName, metricLabel, dueAt, reassignedToName }]
+  async sendSlaBreachAlert(user, breaches) {
+    const lines = breaches.map(breach => {
+      const due = new Date(breach.dueAt).toUTCString();
+      const reassigned = breach.reassignedToName ? `; reassigned to ${breach.reassignedToName}` : '';
+      return `- ${breach.customerName} (${breach.expertName}): ${breach.metricLabel} missed, due ${due}${reassigned}`;
+    });
+
+    return this.send({
+      to: user.email,
+      subject: `${breaches.length} inquiry SLA breach${breaches.length === 1 ? '' : 'es'}`,
+      text: [
+        `Hi ${user.name || 'there'},`,
+        '',
+        'These inquiries missed their SLA:',
+        '',
+        ...lines,
+        '',
+        `See all breaches in the dashboard: ${new URL('/', process.env.FRONTEND_URL || 'http://localhost:5173').toString()}`
+      ].join('\n')
+    });
+  }
+}
+
+module.exports = new MailService();
@@ -0,0 +1,218 @@
+const db = require('../config/database');
+const twilioRoleService = require('./twilioRoleService');
+const twilioService = require('./twilioService');
+const { recordAudit } = require('../utils/auditLog');
+const { REASSIGNABLE_STATUSES, recordStatusHistory } = require('../utils/inquiryStatus');
+
+/**
+ * Hands an inquiry from one expert to another: the inquiry goes back to 'assigned' so the new
+ * expert has to accept it, a handoff note is stored for them, the new expert joins the Twilio
+ * conversation and the previous expert leaves it. Used by the reassign endpoint and by SLA
+ * escalation.
+ *
+ * The database change is committed before any Twilio call, so a slow Twilio response never holds
+ * the inquiry's row lock. If the new expert cannot be added to the conversation, the change is
+ * undone again.
+ */
+class ReassignmentService {
+  /**
+   * @param {string} inquiryId - Inquiry ID
+   * @param {Object} newExpert - Active expert row with `id`, `name` and `email`
+   * @param {Object} options
+   * @param {string} options.note - Handoff note for the new expert
+   * @param {Object} [options.req] - Request of the user reassigning; omit for system changes
+   * @param {Object} [options.expected] - `{ expertId, status }` the inquiry must still have, so a
+   *   background job does not act on an inquiry that changed since it looked
+   * @returns {Promise<Object>} `{ inquiry, previous, twilio }` on success, else `{ status, body }`
+   */
+  async reassign(inquiryId, newExpert, { note, req = {}, expected = null }) {
+    const changedBy = req.user || null;
+    const twilioConfigured = !!(process.env.TWILIO_ACCOUNT_SID && process.env.TWILIO_AUTH_TOKEN);
+
+    const outcome = await db.transaction(async (client) => {
+      const current = await client.query(
+        `SELECT i.id, i.status, i.conversation_sid, i.assigned_expert_id,
+                u.name AS expert_name, u.email AS expert_email
+         FROM inquiries i
+         LEFT JOIN users u ON i.assigned_expert_id = u.id
+         WHERE i.id = $1
+         FOR UPDATE OF i`,
+        [inquiryId]
+      );
+      const inquiry = current.rows[0];
+
+      if (!inquiry) {
+        return { status: 404, body: { message: 'Inquiry not found' } };
+      }
+
+      if (expected && (inquiry.assigned_expert_id !== expected.expertId || inquiry.status !== expected.status)) {
+        return { status: 409, body: { message: 'The inquiry changed in the meantime', error: 'INQUIRY_CHANGED' } };
+      }
+
+      if (inquiry.assigned_expert_id === newExpert.id) {
+        return { status: 400, body: { message: `This inquiry is already assigned to ${newExpert.name}` } };
+      }
+
+      if (!REASSIGNABLE_STATUSES.includes(inquiry.status)) {
+        return {
+          status: 409,
+          body: {
+            message: `A ${inquiry.status} inquiry cannot be reassigned. Reopen it first.`,
+            error: 'INVALID_STATUS_TRANSITION'
+          }
+        };
+      }
+
+      if (inquiry.conversation_sid && !twilioConfigured) {
+        return { status: 503, body: { message: 'Twilio not configured. Please set TWILIO_ACCOUNT_SID and TWILIO_AUTH_TOKEN.' } };
+      }
+
+      const updated = await client.query(
+        `UPDATE inquiries
+         SET assigned_expert_id = $2, status = 'assigned', updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1
+         RETURNING id, customer_name, customer_email, customer_phone, message, conversation_sid,
+                   assigned_expert_id, status, created_at, updated_at`,
+        [inquiry.id, newExpert.id]
+      );
+
+      // The new expert has to accept it again
+      await recordStatusHistory(client, {
+        inquiryId: inquiry.id,
+        from: inquiry.status,
+        to: 'assigned',
+        changedBy,
+        source: changedBy ? 'user' : 'system',
+        note: `Reassigned from ${inquiry.expert_name || 'nobody'} to ${newExpert.name}`
+      });
+
+      const handoff = await client.query(
+        `INSERT INTO inquiry_handoffs (inquiry_id, from_expert_id, to_expert_id, note, created_by, created_by_name)
+         VALUES ($1, $2, $3, $4, $5, $6)
+         RETURNING id`,
+        [inquiry.id, inquiry.assigned_expert_id, newExpert.id, note, changedBy?.id || null, changedBy?.name || 'System']
+      );
+
+      await recordAudit(client, req, {
+        action: 'inquiry.reassign',
+        targetType: 'inquiry',
+        targetId: inquiry.id,
+        conversationSid: inquiry.conversation_sid,
+        before: { expert: inquiry.expert_email, status: inquiry.status },
+        after: { expert: newExpert.email, status: 'assigned' },
+        metadata: { note }
+      });
+
+      return { inquiry: updated.rows[0], previous: inquiry, handoffId: handoff.rows[0].id };
+    });
+
+    if (!outcome.inquiry) {
+      return outcome;
+    }
+
+    const { inquiry, previous, handoffId } = outcome;
+    const twilioCleanup = { previousExpertRemoved: null, attributesUpdated: null };
+
+    if (inquiry.conversation_sid) {
+      try {
+        await twilioRoleService.createTwilioUserWithRole(newExpert.email);
+      } catch (twilioError) {
+        console.error('❌ Failed to ensure expert Twilio role:', twilioError);
+        // Adding the participant may still work
+      }
+
+      try {
+        const existing = await twilioRoleService.findChatParticipant(inquiry.conversation_sid, newExpert.email);
+        if (!existing) {
+          await twilioRoleService.addChatParticipant(inquiry.conversation_sid, newExpert.email);
+        }
+      } catch (twilioError) {
+        console.error('❌ Failed to add new expert to conversation:', twilioError);
+        await this.undoReassignment(inquiry, previous, newExpert, handoffId, req);
+        return {
+          status: 502,
+          body: {
+            message: `Could not add ${newExpert.name} to the Twilio conversation. The inquiry was not reassigned.`,
+            error: 'TWILIO_PARTICIPANT_FAILED'
+          }
+        };
+      }
+
+      // The handover is done; Twilio clean-up failures are reported instead of undoing it
+      if (previous.expert_email) {
+        try {
+          twilioCleanup.previousExpertRemoved = await twilioRoleService.removeChatParticipant(inquiry.conversation_sid, previous.expert_email);
+        } catch (twilioError) {
+          console.error('❌ Failed to remove previous expert from conversation:', twilioError);
+          twilioCleanup.previousExpertRemoved = false;
+        }
+      }
+
+      try {
+        await twilioService.updateConversationAttributes(inquiry.conversation_sid, {
+          expert_id: newExpert.id,
+          expert_name: newExpert.name,
+          expert_email: newExpert.email
+        });
+        twilioCleanup.attributesUpdated = true;
+      } catch (twilioError) {
+        console.error('❌ Failed to update conversation attributes:', twilioError);
+        twilioCleanup.attributesUpdated = false;
+      }
+    }
+
+    console.log(`🔀 ${changedBy?.email || 'System'} reassigned inquiry ${inquiry.id} from ${previous.expert_email || 'nobody'} to ${newExpert.email}`);
+
+    return { inquiry, previous, twilio: twilioCleanup };
+  }
+
+  /**
+   * Give the inquiry back to the previous expert after the new one could not join the
+   * conversation. Skipped when the inquiry has changed again since the reassignment.
+   */
+  async undoReassignment(inquiry, previous, newExpert, handoffId, req) {
+    const changedBy = req.user || null;
+
+    try {
+      await db.transaction(async (client) => {
+        const reverted = await client.query(
+          `UPDATE inquiries
+           SET assigned_expert_id = $2, status = $3, updated_at = CURRENT_TIMESTAMP
+           WHERE id = $1 AND assigned_expert_id = $4 AND status = 'assigned'
+           RETURNING id`,
+          [inquiry.id, previous.assigned_expert_id, previous.status, newExpert.id]
+        );
+
+        if (reverted.rows.length === 0) {
+          console.warn(`⚠️ Inquiry ${inquiry.id} changed again; not undoing its reassignment`);
+          return;
+        }
+
+        await recordStatusHistory(client, {
+          inquiryId: inquiry.id,
+          from: 'assigned',
+          to: previous.status,
+          changedBy,
+          source: changedBy ? 'user' : 'system',
+          note: `Reassignment to ${newExpert.name} undone: they could not be added to the conversation`
+        });
+
+        await client.query('DELETE FROM inquiry_handoffs WHERE id = $1', [handoffId]);
+
+        await recordAudit(client, req, {
+          action: 'inquiry.reassign',
+          targetType: 'inquiry',
+          targetId: inquiry.id,
+          conversationSid: inquiry.conversation_sid,
+          before: { expert: newExpert.email, status: 'assigned' },
+          after: { expert: previous.expert_email, status: previous.status },
+          metadata: { undone: true, reason: 'TWILIO_PARTICIPANT_FAILED' }
+        });
+      });
+    } catch (error) {
+      console.error(`❌ Failed to undo reassignment of inquiry ${inquiry.id}:`, error);
+    }
+  }
+}
+
+module.exports = new ReassignmentService();
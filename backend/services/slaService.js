@@ -0,0 +1,252 @@
+const db = require('../config/database');
+const assignmentService = require('./assignmentService');
+const reassignmentService = require('./reassignmentService');
+const mailService = require('./mailService');
+const { OPEN_INQUIRY_SQL } = require('../utils/inquiryStatus');
+const { SLA_COLUMNS_SQL, SLA_METRIC_LABELS, getSlaPolicy, getSlaClocks } = require('../utils/sla');
+require('dotenv').config();
+
+/**
+ * Runs the SLA clocks described in utils/sla.js. The message-added webhook reports messages through
+ * recordMessage; a timer started with the server checks for clocks that ran out, records each one
+ * in inquiry_sla_breaches, emails the admins and, with SLA_AUTO_REASSIGN, hands inquiries nobody
+ * accepted to another expert.
+ */
+
+const DEFAULT_CHECK_INTERVAL_SECONDS = 60;
+
+// The bot relays automated messages; they neither start nor stop a clock
+const isBotIdentity = (author) => author.startsWith('support_bot_');
+
+const parseMessageTime = (value) => {
+  const date = value ? new Date(value) : new Date();
+  return Number.isNaN(date.getTime()) ? new Date() : date;
+};
+
+class SlaService {
+  constructor() {
+    this.timer = null;
+    this.checking = false;
+  }
+
+  /**
+   * Update the reply and wait clocks of the inquiry behind a conversation. The assigned expert's
+   * messages count as replies, anyone else on the team answers the traveler, and everything else
+   * (SMS participants, unknown identities) is the traveler.
+   * @param {string} conversationSid - Twilio conversation SID
+   * @param {string} author - Twilio author identity
+   * @param {string} [dateCreated] - When Twilio created the message
+   * @returns {Promise<void>}
+   */
+  async recordMessage(conversationSid, author, dateCreated) {
+    if (!conversationSid || !author || isBotIdentity(author)) return;
+
+    const result = await db.query(
+      `SELECT i.id, u.email AS expert_email,
+              EXISTS (SELECT 1 FROM users s WHERE LOWER(s.email) = LOWER($2)) AS from_team
+       FROM inquiries i
+       LEFT JOIN users u ON i.assigned_expert_id = u.id
+       WHERE i.conversation_sid = $1`,
+      [conversationSid, author]
+    );
+    const inquiry = result.rows[0];
+
+    if (!inquiry) return;
+
+    const sentAt = parseMessageTime(dateCreated);
+
+    if (inquiry.expert_email && inquiry.expert_email.toLowerCase() === author.toLowerCase()) {
+      await db.query(
+        `UPDATE inquiries
+         SET last_expert_reply_at = GREATEST(last_expert_reply_at, $2), traveler_waiting_since = NULL
+         WHERE id = $1`,
+        [inquiry.id, sentAt]
+      );
+    } else if (inquiry.from_team) {
+      await db.query('UPDATE inquiries SET traveler_waiting_since = NULL WHERE id = $1', [inquiry.id]);
+    } else {
+      // The wait is measured from the oldest unanswered message
+      await db.query(
+        'UPDATE inquiries SET traveler_waiting_since = COALESCE(traveler_waiting_since, $2) WHERE id = $1',
+        [inquiry.id, sentAt]
+      );
+    }
+  }
+
+  /**
+   * Open inquiries with at least one running SLA clock
+   * @param {Object} [options]
+   * @param {string} [options.expertId] - Only inquiries assigned to this expert
+   * @param {Date} [options.now]
+   * @returns {Promise<Array>} `{ id, customerName, conversationSid, status, expert, clocks }` per inquiry
+   */
+  async getRunningClocks({ expertId = null, now = new Date() } = {}) {
+    const policy = getSlaPolicy();
+    const params = [];
+    let expertCondition = '';
+
+    if (expertId) {
+      params.push(expertId);
+      expertCondition = 'AND i.assigned_expert_id = $1';
+    }
+
+    const result = await db.query(
+      `SELECT i.id, i.customer_name, i.conversation_sid, i.status, i.created_at, i.assigned_expert_id,
+              u.name AS expert_name, u.email AS expert_email, ${SLA_COLUMNS_SQL}
+       FROM inquiries i
+       JOIN users u ON i.assigned_expert_id = u.id
+       WHERE ${OPEN_INQUIRY_SQL} ${expertCondition}`,
+      params
+    );
+
+    return result.rows
+      .map(row => ({
+        id: row.id,
+        customerName: row.customer_name,
+        conversationSid: row.conversation_sid,
+        status: row.status,
+        expert: { id: row.assigned_expert_id, name: row.expert_name, email: row.expert_email },
+        clocks: getSlaClocks(row, policy, now)
+      }))
+      .filter(inquiry => inquiry.clocks.length > 0);
+  }
+
+  /**
+   * Record clocks that ran out since the last check and escalate them. Each clock is recorded
+   * once, so several servers checking at the same time do not escalate twice.
+   * @param {Date} [now]
+   * @returns {Promise<Array>} The breaches recorded by this check
+   */
+  async checkBreaches(now = new Date()) {
+    if (this.checking) return [];
+    this.checking = true;
+
+    try {
+      const policy = getSlaPolicy();
+      const inquiries = await this.getRunningClocks({ now });
+      const breaches = [];
+
+      for (const inquiry of inquiries) {
+        for (const clock of inquiry.clocks.filter(candidate => candidate.breached)) {
+          const inserted = await db.query(
+            `INSERT INTO inquiry_sla_breaches (inquiry_id, metric, expert_id, expert_name, started_at, due_at)
+             VALUES ($1, $2, $3, $4, $5, $6)
+             ON CONFLICT (inquiry_id, metric, started_at) DO NOTHING
+             RETURNING id`,
+            [inquiry.id, clock.metric, inquiry.expert.id, inquiry.expert.name, clock.startedAt, clock.dueAt]
+          );
+
+          if (inserted.rows.length === 0) continue; // Already recorded
+
+          const breach = { id: inserted.rows[0].id, inquiry, clock, reassignedTo: null };
+
+          if (clock.metric === 'accept' && policy.autoReassign) {
+            breach.reassignedTo = await this.reassignBreachedInquiry(breach, policy);
+          }
+
+          console.log(`⏰ SLA breach: ${SLA_METRIC_LABELS[clock.metric]} on inquiry ${inquiry.id} (${inquiry.expert.email})`);
+          breaches.push(breach);
+        }
+      }
+
+      if (breaches.length > 0) {
+        await this.notifyAdmins(breaches);
+      }
+
+      return breaches;
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  // Hand an inquiry nobody accepted to the next expert in line; returns that expert, or null
+  async reassignBreachedInquiry({ id, inquiry }, policy) {
+    const ranking = await assignmentService.rankExperts({ excludeIds: [inquiry.expert.id] });
+
+    if (!ranking.expert) {
+      console.log(`⚠️ No other expert can take inquiry ${inquiry.id}; leaving it with ${inquiry.expert.email}`);
+      return null;
+    }
+
+    const outcome = await reassignmentService.reassign(inquiry.id, ranking.expert, {
+      note: `Reassigned automatically: ${inquiry.expert.name} did not accept within ${policy.targets.accept} minutes.`,
+      expected: { expertId: inquiry.expert.id, status: inquiry.status }
+    });
+
+    if (!outcome.inquiry) {
+      console.error(`❌ Could not reassign inquiry ${inquiry.id} after an SLA breach: ${outcome.body.message}`);
+      return null;
+    }
+
+    await db.query(
+      `UPDATE inquiry_sla_breaches
+       SET escalation = 'reassigned', reassigned_to = $2, reassigned_to_name = $3
+       WHERE id = $1`,
+      [id, ranking.expert.id, ranking.expert.name]
+    );
+
+    return ranking.expert;
+  }
+
+  // One email per active admin listing the new breaches; a failed email does not stop the others
+  async notifyAdmins(breaches) {
+    const admins = await db.query(
+      `SELECT email, name FROM users WHERE role = 'admin' AND deactivated_at IS NULL`
+    );
+
+    const summary = breaches.map(({ inquiry, clock, reassignedTo }) => ({
+      customerName: inquiry.customerName,
+      expertName: inquiry.expert.name,
+      metricLabel: SLA_METRIC_LABELS[clock.metric],
+      dueAt: clock.dueAt,
+      reassignedToName: reassignedTo?.name || null
+    }));
+
+    for (const admin of admins.rows) {
+      try {
+        await mailService.sendSlaBreachAlert(admin, summary);
+      } catch (error) {
+        console.error(`❌ Failed to send SLA breach alert to ${admin.email}:`, error);
+      }
+    }
+  }
+
+  // Start checking on an interval; SLA_CHECK_INTERVAL_SECONDS=0 turns checks off
+  start() {
+    const raw = process.env.SLA_CHECK_INTERVAL_SECONDS;
+    const seconds = raw === undefined || raw === '' ? DEFAULT_CHECK_INTERVAL_SECONDS : Number(raw);
+
+    if (!Number.isFinite(seconds) || seconds < 0) {
+      console.error(`❌ SLA_CHECK_INTERVAL_SECONDS must be a number of seconds; SLA checks are off`);
+      return;
+    }
+    if (seconds === 0) {
+      console.log('⏸️ SLA checks are off (SLA_CHECK_INTERVAL_SECONDS=0)');
+      return;
+    }
+
+    try {
+      const { targets, autoReassign } = getSlaPolicy();
+      console.log(`⏱️ Checking SLAs every ${seconds}s:`, { ...targets, autoReassign });
+    } catch (error) {
+      console.error(`❌ ${error.message}; SLA checks are off`);
+      return;
+    }
+
+    this.stop();
+    this.timer = setInterval(() => {
+      this.checkBreaches().catch(error => {
+        console.error('❌ SLA check failed:', error);
+      });
+    }, seconds * 1000);
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+module.exports = new SlaService();
@@ -199,6 +199,59 @@ class TwilioRoleService {
     }
   }
 
+  /**
+   * Look up a Conversations user by identity; resolves to null when it does not exist
+   */
+  async getTwilioUser(userIdentity) {
+    if (!process.env.TWILIO_ACCOUNT_SID || !process.env.TWILIO_AUTH_TOKEN) {
+      throw new Error('Twilio credentials not configured');
+    }
+
+    const userUrl = process.env.TWILIO_CONVERSATIONS_SERVICE_SID 
+      ? `https://conversations.twilio.com/v1/Services/${process.env.TWILIO_CONVERSATIONS_SERVICE_SID}/Users/${encodeURIComponent(userIdentity)}`
+      : `https://conversations.twilio.com/v1/Users/${encodeURIComponent(userIdentity)}`;
+
+    const response = await fetch(userUrl, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Basic ${Buffer.from(process.env.TWILIO_ACCOUNT_SID + ':' + process.env.TWILIO_AUTH_TOKEN).toString('base64')}`
+      }
+    });
+
+    if (response.status === 404) {
+      return null;
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Twilio User API error: ${response.status} - ${errorText}`);
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Compare a user's Twilio service role with the one their database role calls for
+   */
+  async getProvisioningStatus(userIdentity) {
+    const expectedRoleSid = await this.getServiceRoleForUser(userIdentity);
+    const twilioUser = await this.getTwilioUser(userIdentity);
+
+    let status = 'provisioned';
+    if (!twilioUser) {
+      status = 'missing';
+    } else if (twilioUser.role_sid !== expectedRoleSid) {
+      status = 'role_mismatch';
+    }
+
+    return {
+      status,
+      expectedRoleSid,
+      actualRoleSid: twilioUser ? twilioUser.role_sid : null,
+      twilioUserSid: twilioUser ? twilioUser.sid : null
+    };
+  }
+
   /**
    * Ensure bot has proper roles in Twilio
    */
@@ -315,6 +368,106 @@ class TwilioRoleService {
       console.error(`❌ Failed to update participant role for ${participantIdentity}:`, error);
     }
   }
+
+  /**
+   * Find a chat participant of a conversation by identity; resolves to null when they are not in it
+   */
+  async findChatParticipant(conversationSid, participantIdentity) {
+    const participantUrl = process.env.TWILIO_CONVERSATIONS_SERVICE_SID 
+      ? `https://conversations.twilio.com/v1/Services/${process.env.TWILIO_CONVERSATIONS_SERVICE_SID}/Conversations/${conversationSid}/Participants`
+      : `https://conversations.twilio.com/v1/Conversations/${conversationSid}/Participants`;
+
+    const response = await fetch(`${participantUrl}?PageSize=100`, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Basic ${Buffer.from(process.env.TWILIO_ACCOUNT_SID + ':' + process.env.TWILIO_AUTH_TOKEN).toString('base64')}`
+      }
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to get participants: ${response.status}`);
+    }
+
+    const data = await response.json();
+    return data.participants?.find(p => p.identity === participantIdentity) || null;
+  }
+
+  /**
+   * Add a user to a conversation as a chat participant with the conversation role for their
+   * database role. Adding someone who is already a participant is a no-op.
+   */
+  async addChatParticipant(conversationSid, participantIdentity) {
+    if (!process.env.TWILIO_ACCOUNT_SID || !process.env.TWILIO_AUTH_TOKEN) {
+      throw new Error('Twilio credentials not configured');
+    }
+
+    const existing = await this.findChatParticipant(conversationSid, participantIdentity);
+    if (existing) {
+      console.log(`ℹ️ ${participantIdentity} is already a participant of ${conversationSid}`);
+      return existing;
+    }
+
+    const participantUrl = process.env.TWILIO_CONVERSATIONS_SERVICE_SID 
+      ? `https://conversations.twilio.com/v1/Services/${process.env.TWILIO_CONVERSATIONS_SERVICE_SID}/Conversations/${conversationSid}/Participants`
+      : `https://conversations.twilio.com/v1/Conversations/${conversationSid}/Participants`;
+
+    const payload = new URLSearchParams();
+    payload.append('Identity', participantIdentity);
+    payload.append('RoleSid', await this.getConversationRoleForUser(participantIdentity));
+
+    const response = await fetch(participantUrl, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Basic ${Buffer.from(process.env.TWILIO_ACCOUNT_SID + ':' + process.env.TWILIO_AUTH_TOKEN).toString('base64')}`,
+        'Content-Type': 'application/x-www-form-urlencoded'
+      },
+      body: payload
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Failed to add participant: ${response.status} - ${errorText}`);
+    }
+
+    const participant = await response.json();
+    console.log(`✅ Added ${participantIdentity} to conversation ${conversationSid}`);
+    return participant;
+  }
+
+  /**
+   * Remove a chat participant from a conversation
+   * @returns {Promise<boolean>} false when they were not a participant
+   */
+  async removeChatParticipant(conversationSid, participantIdentity) {
+    if (!process.env.TWILIO_ACCOUNT_SID || !process.env.TWILIO_AUTH_TOKEN) {
+      throw new Error('Twilio credentials not configured');
+    }
+
+    const participant = await this.findChatParticipant(conversationSid, participantIdentity);
+    if (!participant) {
+      console.log(`⚠️ Participant ${participantIdentity} not found in conversation ${conversationSid}`);
+      return false;
+    }
+
+    const deleteUrl = process.env.TWILIO_CONVERSATIONS_SERVICE_SID 
+      ? `https://conversations.twilio.com/v1/Services/${process.env.TWILIO_CONVERSATIONS_SERVICE_SID}/Conversations/${conversationSid}/Participants/${participant.sid}`
+      : `https://conversations.twilio.com/v1/Conversations/${conversationSid}/Participants/${participant.sid}`;
+
+    const response = await fetch(deleteUrl, {
+      method: 'DELETE',
+      headers: {
+        'Authorization': `Basic ${Buffer.from(process.env.TWILIO_ACCOUNT_SID + ':' + process.env.TWILIO_AUTH_TOKEN).toString('base64')}`
+      }
+    });
+
+    if (!response.ok && response.status !== 404) {
+      const errorText = await response.text();
+      throw new Error(`Failed to remove participant: ${response.status} - ${errorText}`);
+    }
+
+    console.log(`✅ Removed ${participantIdentity} from conversation ${conversationSid}`);
+    return true;
+  }
 }
 
 module.exports = new TwilioRoleService();
\ No newline at end of file
@@ -18,6 +18,9 @@ console.log('🔧 Twilio service configuration:', {
 
 const client = isConfigured ? twilio(accountSid, authToken) : null;
 
+// Conversations read per request while looking for changes since a delta cursor
+const DELTA_PAGE_SIZE = 20;
+
 class TwilioService {
   constructor() {
     this.client = client;
@@ -168,6 +171,70 @@ class TwilioService {
     }
   }
 
+  /**
+   * Delta sync: fetch only conversations updated at or after `since`.
+   * Twilio lists conversations most recently updated first, so pages are read until one reaches
+   * past `since`; `limit` caps how many are read when the client is far behind.
+   * Returns the changed conversations (most recent first) plus the cursor the
+   * client should send on its next call.
+   */
+  async fetchConversationsUpdatedSince(since, limit = 1000) {
+    if (!conversationsConfigured) {
+      throw new Error('Twilio Conversations not configured');
+    }
+
+    try {
+      const sinceTime = since.getTime();
+      console.log(`🔁 DELTA: Fetching conversations updated since ${since.toISOString()}...`);
+
+      const changed = [];
+      let scanned = 0;
+      let page = await this.client.conversations.v1.services(conversationsServiceSid)
+        .conversations
+        .page({ pageSize: DELTA_PAGE_SIZE });
+
+      while (page) {
+        // Inclusive comparison: Twilio timestamps have second precision, so two updates in the
+        // same second must not be lost. The client de-duplicates by SID.
+        const recent = page.instances.filter(conversation => new Date(conversation.dateUpdated).getTime() >= sinceTime);
+        changed.push(...recent);
+        scanned += page.instances.length;
+
+        if (recent.length < page.instances.length || scanned >= limit) break;
+        page = await page.nextPage();
+      }
+
+      changed.sort((a, b) => new Date(b.dateUpdated) - new Date(a.dateUpdated));
+
+      const cursor = changed.length > 0
+        ? new Date(changed[0].dateUpdated).toISOString()
+        : since.toISOString();
+
+      console.log(`🔁 DELTA: ${changed.length} of ${scanned} conversations read changed`);
+
+      return {
+        conversations: changed.map(conversation => ({
+          sid: conversation.sid,
+          friendlyName: conversation.friendlyName,
+          uniqueName: conversation.uniqueName,
+          attributes: conversation.attributes ? JSON.parse(conversation.attributes) : {},
+          state: conversation.state,
+          dateCreated: conversation.dateCreated,
+          dateUpdated: conversation.dateUpdated,
+          url: conversation.url,
+          participants: [],
+          participantCount: 0,
+          conversationType: 'unknown'
+        })),
+        cursor
+      };
+
+    } catch (error) {
+      console.error('❌ Error fetching updated conversations:', error);
+      throw new Error(`Failed to fetch updated conversations: ${error.message}`);
+    }
+  }
+
   // Fetch all conversations (for webhook processing)
   async fetchAllConversations() {
     if (!conversationsConfigured) {
@@ -232,6 +299,32 @@ class TwilioService {
     }
   }
 
+  // Merge changes into a conversation's JSON attributes
+  async updateConversationAttributes(conversationSid, changes) {
+    if (!conversationsConfigured) {
+      throw new Error('Twilio Conversations not configured');
+    }
+
+    try {
+      const conversationContext = this.client.conversations.v1.services(conversationsServiceSid)
+        .conversations(conversationSid);
+      const conversation = await conversationContext.fetch();
+
+      let attributes = {};
+      try {
+        attributes = conversation.attributes ? JSON.parse(conversation.attributes) : {};
+      } catch (parseError) {
+        console.warn(`⚠️ Replacing unparseable attributes on ${conversationSid}`);
+      }
+
+      await conversationContext.update({ attributes: JSON.stringify({ ...attributes, ...changes }) });
+      console.log(`📝 Updated attributes of conversation ${conversationSid}:`, Object.keys(changes));
+    } catch (error) {
+      console.error(`❌ Error updating attributes for ${conversationSid}:`, error);
+      throw new Error(`Failed to update conversation attributes: ${error.message}`);
+    }
+  }
+
   // Determine conversation type based on attributes and participants
   determineConversationType(conversation, participants = []) {
     const attributes = conversation.attributes || {};
@@ -0,0 +1,50 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { WEEKDAYS, normalizeSchedule, isValidDate, getAvailability } = require('../utils/availability');
+
+// Wednesday 2025-10-29, 10:30 UTC
+const NOW = new Date('2025-10-29T10:30:00.000Z');
+const OFFICE_HOURS = { wed: [{ start: '09:00', end: '17:00' }], thu: [{ start: '09:00', end: '17:00' }] };
+
+test('the weekdays match the ones the frontend mirrors', () => {
+  assert.deepEqual(WEEKDAYS, ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun']);
+});
+
+test('schedules are sorted and checked for overlaps and unknown days', () => {
+  assert.deepEqual(normalizeSchedule({ mon: [{ start: '13:00', end: '17:00' }, { start: '08:00', end: '12:00' }], tue: [] }), {
+    schedule: { mon: [{ start: '08:00', end: '12:00' }, { start: '13:00', end: '17:00' }] }
+  });
+  assert.match(normalizeSchedule({ mon: [{ start: '08:00', end: '12:00' }, { start: '11:00', end: '14:00' }] }).error, /overlap/);
+  assert.match(normalizeSchedule({ monday: [] }).error, /Unknown weekday/);
+  assert.match(normalizeSchedule({ mon: [{ start: '17:00', end: '09:00' }] }).error, /start before their end/);
+  assert.deepEqual(normalizeSchedule(null), { schedule: null });
+});
+
+test('dates must exist on the calendar', () => {
+  assert.equal(isValidDate('2025-02-28'), true);
+  assert.equal(isValidDate('2025-02-30'), false);
+  assert.equal(isValidDate('28.02.2025'), false);
+});
+
+test('an expert on shift is available until the shift ends', () => {
+  assert.deepEqual(getAvailability({ timezone: 'UTC', schedule: OFFICE_HOURS }, NOW), {
+    state: 'available', available: true, manual: false, until: '17:00', nextShift: null
+  });
+});
+
+test('shifts are read in the expert\'s own timezone', () => {
+  // 10:30 UTC is 06:30 in New York
+  assert.deepEqual(getAvailability({ timezone: 'America/New_York', schedule: OFFICE_HOURS }, NOW), {
+    state: 'off_shift', available: false, manual: false, until: null, nextShift: { weekday: 'wed', start: '09:00' }
+  });
+});
+
+test('out-of-office beats a manual override, which beats the schedule', () => {
+  const timeOff = [{ startsOn: '2025-10-28', endsOn: '2025-10-30' }];
+
+  assert.equal(getAvailability({ timezone: 'UTC', schedule: OFFICE_HOURS, override: 'available', timeOff }, NOW).state, 'out_of_office');
+  assert.equal(getAvailability({ timezone: 'UTC', schedule: OFFICE_HOURS, override: 'away' }, NOW).state, 'away');
+  assert.deepEqual(getAvailability({ timezone: 'UTC', schedule: { mon: [{ start: '09:00', end: '10:00' }] }, override: 'available' }, NOW), {
+    state: 'available', available: true, manual: true, until: null, nextShift: null
+  });
+});
@@ -0,0 +1,36 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { escapeCsvValue, toCsv } = require('../utils/csv');
+
+// Rows and the CSV src/utils/csv.ts has to produce for them too
+const ROWS = [
+  { name: 'Doe, Ann', note: '=1+1' },
+  { name: 'Bo "B"', note: null },
+  { name: '+1 (555) 123-4567', note: '+HYPERLINK("http://example.com")' }
+];
+const COLUMNS = [
+  { header: 'Name', value: row => row.name },
+  { header: 'Note', value: row => row.note }
+];
+const EXPECTED_CSV = '\uFEFFName,Note\r\n'
+  + '"Doe, Ann",\'=1+1\r\n'
+  + '"Bo ""B""",\r\n'
+  + '+1 (555) 123-4567,"\'+HYPERLINK(""http://example.com"")"\r\n';
+
+test('writes RFC 4180 with a BOM, CRLF and neutralized formulas', () => {
+  assert.equal(toCsv(COLUMNS, ROWS), EXPECTED_CSV);
+});
+
+test('neutralizes formulas but keeps phone numbers and signed numbers', () => {
+  assert.equal(escapeCsvValue('@SUM(A1)'), "'@SUM(A1)");
+  assert.equal(escapeCsvValue('-2+cmd|\' /C calc\'!A0'), "'-2+cmd|' /C calc'!A0");
+  assert.equal(escapeCsvValue('+15551234567'), '+15551234567');
+  assert.equal(escapeCsvValue('-12.50'), '-12.50');
+  assert.equal(escapeCsvValue(-5), '-5');
+});
+
+test('writes dates as ISO strings and objects as JSON', () => {
+  assert.equal(escapeCsvValue(new Date('2025-10-31T09:00:00.000Z')), '2025-10-31T09:00:00.000Z');
+  assert.equal(escapeCsvValue({ tags: ['a'] }), '"{""tags"":[""a""]}"');
+  assert.equal(escapeCsvValue(undefined), '');
+});
@@ -0,0 +1,174 @@
+/**
+ * Route test harness: an in-memory stand-in for config/database, installed before any route is
+ * loaded, a throwaway Express app per router and signed-in test users. Require it before the
+ * routes under test.
+ */
+
+process.env.JWT_SECRET = process.env.JWT_SECRET || 'route-test-secret';
+
+// The routes log every action; set ROUTE_TEST_LOGS=1 to see them while debugging a test
+if (!process.env.ROUTE_TEST_LOGS) {
+  for (const method of ['log', 'info', 'warn', 'error']) {
+    console[method] = () => {};
+  }
+}
+
+const crypto = require('crypto');
+const express = require('express');
+
+/**
+ * Answers queries from handlers registered per test. A query no handler matches fails, so each
+ * test spells out the database it expects.
+ */
+class FakeDatabase {
+  constructor() {
+    this.reset();
+  }
+
+  // Forget handlers, recorded queries and signed-in sessions
+  reset() {
+    this.handlers = [];
+    this.queries = [];
+    this.sessions = new Map();
+
+    // The session lookup of authenticateToken
+    this.on(/JOIN user_sessions s ON s\.user_id = u\.id/, ([userId, sessionId]) => {
+      const user = this.sessions.get(sessionId);
+      return user && user.id === userId ? [{ ...user, session_stale: false }] : [];
+    });
+    this.on(/INSERT INTO audit_log/, () => []);
+  }
+
+  /**
+   * Answer queries whose SQL matches `pattern`. Handlers added later take precedence.
+   * @param {RegExp} pattern - Matched against the SQL text
+   * @param {function(Array, string): (Object[]|Promise<Object[]>)} handler - Gets the parameters and the SQL, returns rows
+   */
+  on(pattern, handler) {
+    this.handlers.unshift({ pattern, handler });
+  }
+
+  async query(text, params = []) {
+    this.queries.push({ text, params });
+
+    if (/^(BEGIN|COMMIT|ROLLBACK)$/.test(text)) {
+      return { rows: [], rowCount: 0 };
+    }
+
+    const match = this.handlers.find(({ pattern }) => pattern.test(text));
+    if (!match) {
+      throw new Error(`Unexpected query: ${text.replace(/\s+/g, ' ').trim()}`);
+    }
+
+    const rows = (await match.handler(params, text)) || [];
+    return { rows, rowCount: rows.length };
+  }
+
+  async transaction(callback) {
+    await this.query('BEGIN');
+    try {
+      const result = await callback(this);
+      await this.query('COMMIT');
+      return result;
+    } catch (error) {
+      await this.query('ROLLBACK');
+      throw error;
+    }
+  }
+
+  /**
+   * Queries run so far whose SQL matches
+   * @param {RegExp} pattern
+   * @returns {Array<{text: string, params: Array}>}
+   */
+  ran(pattern) {
+    return this.queries.filter(({ text }) => pattern.test(text));
+  }
+}
+
+const db = new FakeDatabase();
+const databasePath = require.resolve('../config/database');
+require.cache[databasePath] = { id: databasePath, filename: databasePath, loaded: true, exports: db };
+
+const { generateToken } = require('../middleware/auth');
+
+const user = (id, role, name) => ({
+  id,
+  email: `${role}@example.com`,
+  name,
+  role,
+  created_at: '2025-10-01T08:00:00.000Z',
+  email_verified_at: '2025-10-01T08:00:00.000Z',
+  totp_enabled_at: null,
+  deactivated_at: null
+});
+
+const USERS = {
+  admin: user('7d0f6c1e-2b4a-4c59-9b1e-0a6f3f6f1a01', 'admin', 'Ada Admin'),
+  supervisor: user('7d0f6c1e-2b4a-4c59-9b1e-0a6f3f6f1a02', 'supervisor', 'Sam Supervisor'),
+  expert: user('7d0f6c1e-2b4a-4c59-9b1e-0a6f3f6f1a03', 'expert', 'Eve Expert'),
+  otherExpert: { ...user('7d0f6c1e-2b4a-4c59-9b1e-0a6f3f6f1a04', 'expert', 'Oscar Expert'), email: 'oscar@example.com' }
+};
+
+/**
+ * Start a session for a user and sign its access token
+ * @param {Object} account - One of USERS
+ * @returns {{token: string, sessionId: string}}
+ */
+function signIn(account) {
+  const sessionId = crypto.randomUUID();
+  db.sessions.set(sessionId, account);
+  return { token: generateToken(account.id, sessionId), sessionId };
+}
+
+/**
+ * Serve a router on a random local port
+ * @param {string} mountPath - e.g. '/api/invites'
+ * @param {Object} router - Express router under test
+ * @returns {Promise<{request: Function, close: Function}>} `request(method, path, { token, body })`
+ *   resolves to `{ status, headers, body }`; JSON bodies are parsed, PDFs are Buffers
+ */
+async function startApp(mountPath, router) {
+  const app = express();
+  app.use(express.json());
+  app.use(mountPath, router);
+
+  const server = await new Promise(resolve => {
+    const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+  });
+  const baseUrl = `http://127.0.0.1:${server.address().port}`;
+
+  const request = async (method, path, { token, body } = {}) => {
+    const headers = {};
+    if (token) headers.Authorization = `Bearer ${token}`;
+    if (body !== undefined) headers['Content-Type'] = 'application/json';
+
+    const response = await fetch(`${baseUrl}${mountPath}${path}`, {
+      method,
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+    const contentType = response.headers.get('content-type') || '';
+    const responseBody = contentType.includes('application/json')
+      ? await response.json()
+      : contentType.includes('application/pdf')
+        ? Buffer.from(await response.arrayBuffer())
+        : await response.text();
+
+    return { status: response.status, headers: response.headers, body: responseBody };
+  };
+
+  const close = () => new Promise(resolve => {
+    server.closeAllConnections();
+    server.close(resolve);
+  });
+
+  return { request, close };
+}
+
+module.exports = {
+  db,
+  USERS,
+  signIn,
+  startApp
+};
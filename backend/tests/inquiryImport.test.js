@@ -0,0 +1,63 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { MAX_IMPORT_BATCH_SIZE, getImportThrottleMs, validateImportRow, getDuplicateKeys } = require('../utils/inquiryImport');
+const { EMAIL_PATTERN } = require('../utils/contactDetails');
+
+test('the batch size and email rule match the ones the frontend mirrors', () => {
+  assert.equal(MAX_IMPORT_BATCH_SIZE, 25);
+  assert.equal(EMAIL_PATTERN.source, '^[^\\s@]+@[^\\s@]+\\.[^\\s@]+$');
+});
+
+test('a valid row is trimmed and its tags normalized', () => {
+  assert.deepEqual(validateImportRow({
+    row: '4',
+    customerName: '  Ana Silva ',
+    customerEmail: 'ana@example.com ',
+    customerPhone: '+1 (555) 010-2000',
+    message: 'Lisbon in May',
+    skills: 'Food Tours, family',
+    region: 'Southern Europe'
+  }), {
+    row: 4,
+    value: {
+      customerName: 'Ana Silva',
+      customerEmail: 'ana@example.com',
+      customerPhone: '+1 (555) 010-2000',
+      message: 'Lisbon in May',
+      skills: ['food-tours', 'family'],
+      region: 'southern-europe'
+    },
+    errors: []
+  });
+});
+
+test('every problem of a row is reported at once', () => {
+  const { errors } = validateImportRow({ row: 2, customerName: '', customerEmail: 'ana@', customerPhone: '555', message: '' });
+
+  assert.deepEqual(errors, [
+    'Customer name is required',
+    'Email address is not valid',
+    'Phone number must be in international format (e.g., +1234567890)',
+    'Message is required'
+  ]);
+});
+
+test('duplicates are keyed by normalized email and phone', () => {
+  assert.deepEqual(getDuplicateKeys({ customerEmail: ' Ana@Example.com', customerPhone: '+1 (555) 010-2000' }), [
+    'email:ana@example.com',
+    'phone:+15550102000'
+  ]);
+  assert.deepEqual(getDuplicateKeys({ customerEmail: 'ana@example.com' }), ['email:ana@example.com']);
+});
+
+test('the throttle falls back to 500 ms for missing or bad values', (t) => {
+  t.after(() => {
+    delete process.env.IMPORT_THROTTLE_MS;
+  });
+
+  assert.equal(getImportThrottleMs(), 500);
+  process.env.IMPORT_THROTTLE_MS = '-1';
+  assert.equal(getImportThrottleMs(), 500);
+  process.env.IMPORT_THROTTLE_MS = '0';
+  assert.equal(getImportThrottleMs(), 0);
+});
@@ -0,0 +1,50 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { INQUIRY_SORTS, UNASSIGNED_EXPERT, toPrefixTsQuery, buildInquiryFilter } = require('../utils/inquirySearch');
+
+const EXPERT_ID = '0b6f4b8e-5d1c-4f7a-9a36-2a8e1c3d4f5b';
+
+test('sort keys and the unassigned filter match the ones the frontend mirrors', () => {
+  assert.deepEqual(Object.keys(INQUIRY_SORTS), ['created_at', 'updated_at', 'customer_name', 'status']);
+  assert.equal(UNASSIGNED_EXPERT, 'unassigned');
+});
+
+test('expertId takes an expert id or "unassigned" and rejects anything else', () => {
+  assert.deepEqual(buildInquiryFilter({ expertId: EXPERT_ID }, { viewAll: true }).where, 'WHERE i.assigned_expert_id = $1::uuid');
+  assert.deepEqual(buildInquiryFilter({ expertId: EXPERT_ID }, { viewAll: true }).params, [EXPERT_ID]);
+  assert.equal(buildInquiryFilter({ expertId: UNASSIGNED_EXPERT }, { viewAll: true }).where, 'WHERE i.assigned_expert_id IS NULL');
+  assert.match(buildInquiryFilter({ expertId: 'u1' }, { viewAll: true }).error, /Invalid expertId/);
+  assert.match(buildInquiryFilter({ expertId: ['a', 'b'] }, { viewAll: true }).error, /Invalid expertId/);
+});
+
+test('users without viewAll only see their own inquiries', () => {
+  const filter = buildInquiryFilter({ expertId: UNASSIGNED_EXPERT }, { userId: EXPERT_ID, viewAll: false });
+
+  assert.equal(filter.where, 'WHERE i.assigned_expert_id = $1');
+  assert.deepEqual(filter.params, [EXPERT_ID]);
+});
+
+test('search, status and dates become numbered parameters', () => {
+  const filter = buildInquiryFilter(
+    { q: 'ann smi', status: 'new,assigned', createdFrom: '2025-10-01T00:00:00.000Z', sort: 'customer_name', order: 'asc' },
+    { viewAll: true }
+  );
+
+  assert.equal(filter.where, "WHERE (i.search_vector @@ to_tsquery('simple', $1) OR i.customer_email ILIKE $2 OR i.customer_phone ILIKE $3)"
+    + ' AND i.status = ANY($4::text[]) AND i.created_at >= $5');
+  assert.deepEqual(filter.params, ["'ann':* & 'smi':*", '%ann smi%', '%ann smi%', ['new', 'assigned'], '2025-10-01T00:00:00.000Z']);
+  assert.equal(filter.orderBy, 'ORDER BY lower(i.customer_name) ASC, i.id ASC');
+});
+
+test('search text never reaches the query unescaped', () => {
+  assert.equal(toPrefixTsQuery("o'brien & | !"), "'o':* & 'brien':*");
+  assert.equal(toPrefixTsQuery('!!!'), null);
+  assert.deepEqual(buildInquiryFilter({ q: '50%_off' }, { viewAll: true }).params.slice(1), ['%50\\%\\_off%', '%50\\%\\_off%']);
+});
+
+test('unknown statuses, sorts and dates are rejected', () => {
+  assert.match(buildInquiryFilter({ status: 'new,archived' }, { viewAll: true }).error, /Invalid status "archived"/);
+  assert.match(buildInquiryFilter({ sort: 'password_hash' }, { viewAll: true }).error, /Invalid sort/);
+  assert.match(buildInquiryFilter({ order: 'up' }, { viewAll: true }).error, /Invalid order/);
+  assert.match(buildInquiryFilter({ updatedTo: 'yesterday' }, { viewAll: true }).error, /Invalid updatedTo date/);
+});
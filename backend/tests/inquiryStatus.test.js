@@ -0,0 +1,80 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const {
+  INQUIRY_STATUSES,
+  INQUIRY_TRANSITIONS,
+  REASSIGNABLE_STATUSES,
+  InvalidStatusTransitionError,
+  canTransition,
+  recordStatusHistory,
+  applyStatusTransition
+} = require('../utils/inquiryStatus');
+
+// The state machine src/utils/inquiryStatus.ts mirrors; a change here needs the same change there
+const EXPECTED_TRANSITIONS = {
+  new: ['assigned', 'closed'],
+  assigned: ['accepted', 'closed'],
+  accepted: ['in_progress', 'waiting_on_traveler', 'resolved', 'closed'],
+  in_progress: ['waiting_on_traveler', 'resolved', 'closed'],
+  waiting_on_traveler: ['in_progress', 'resolved', 'closed'],
+  resolved: ['closed', 'reopened'],
+  closed: ['reopened'],
+  reopened: ['assigned', 'in_progress', 'waiting_on_traveler', 'resolved', 'closed']
+};
+
+// Transaction client that records its queries and echoes the new status back
+const recordingClient = () => ({
+  queries: [],
+  async query(text, params) {
+    this.queries.push({ text, params });
+    return { rows: [{ id: params[1], status: params[0] }] };
+  }
+});
+
+test('the state machine matches the one the frontend mirrors', () => {
+  assert.deepEqual(INQUIRY_TRANSITIONS, EXPECTED_TRANSITIONS);
+  assert.deepEqual([...INQUIRY_STATUSES].sort(), Object.keys(EXPECTED_TRANSITIONS).sort());
+});
+
+test('work only starts after acceptance and closed only leads to reopened', () => {
+  assert.equal(canTransition('assigned', 'in_progress'), false);
+  assert.equal(canTransition('new', 'accepted'), false);
+  assert.equal(canTransition('closed', 'in_progress'), false);
+  assert.equal(canTransition('closed', 'reopened'), true);
+  assert.equal(canTransition('archived', 'new'), false);
+});
+
+test('finished inquiries cannot be reassigned', () => {
+  assert.equal(REASSIGNABLE_STATUSES.includes('resolved'), false);
+  assert.equal(REASSIGNABLE_STATUSES.includes('closed'), false);
+});
+
+test('a transition updates the inquiry and records the change', async () => {
+  const client = recordingClient();
+  const updated = await applyStatusTransition(client, { id: 'i1', status: 'accepted' }, 'resolved', {
+    changedBy: { id: 'u1', name: 'Eve' },
+    note: '  Trip booked  '
+  });
+
+  assert.equal(updated.status, 'resolved');
+  assert.match(client.queries[0].text, /UPDATE inquiries/);
+  assert.match(client.queries[1].text, /INSERT INTO inquiry_status_history/);
+  assert.deepEqual(client.queries[1].params, ['i1', 'accepted', 'resolved', 'u1', 'Eve', 'user', 'Trip booked']);
+});
+
+test('a transition the state machine forbids writes nothing', async () => {
+  const client = recordingClient();
+
+  await assert.rejects(
+    applyStatusTransition(client, { id: 'i1', status: 'new' }, 'resolved'),
+    (error) => error instanceof InvalidStatusTransitionError && error.allowed.includes('assigned')
+  );
+  assert.equal(client.queries.length, 0);
+});
+
+test('history rows need a known source', async () => {
+  await assert.rejects(
+    recordStatusHistory(recordingClient(), { inquiryId: 'i1', from: 'new', to: 'assigned', source: 'cron' }),
+    /Unknown status change source/
+  );
+});
@@ -0,0 +1,89 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const {
+  PERMISSIONS,
+  ROLES,
+  getPermissionsForRole,
+  hasPermission,
+  toUserResponse
+} = require('../utils/permissions');
+
+// The matrix src/utils/permissions.ts mirrors; a change here needs the same change there
+const EXPECTED_MATRIX = {
+  admin: [
+    'conversation.viewAll',
+    'message.send',
+    'inquiry.viewAll',
+    'inquiry.create',
+    'inquiry.updateStatus',
+    'inquiry.delete',
+    'inquiry.reassign',
+    'bot.view',
+    'bot.toggle',
+    'traveler.dm.view',
+    'traveler.dm.send',
+    'traveler.message.send',
+    'system.webhooks.view',
+    'user.invite',
+    'user.manage',
+    'user.sessions.manage',
+    'audit.view'
+  ],
+  supervisor: [
+    'conversation.viewAll',
+    'message.send',
+    'inquiry.viewAll',
+    'inquiry.create',
+    'inquiry.updateStatus',
+    'inquiry.reassign',
+    'bot.view',
+    'bot.toggle',
+    'traveler.dm.view',
+    'traveler.dm.send',
+    'traveler.message.send'
+  ],
+  auditor: ['conversation.viewAll', 'inquiry.viewAll', 'bot.view', 'traveler.dm.view', 'audit.view'],
+  expert: ['conversation.viewAssigned', 'message.send', 'inquiry.accept', 'inquiry.updateStatus'],
+  bot: ['message.send']
+};
+
+test('the matrix matches the one the frontend mirrors', () => {
+  assert.deepEqual([...ROLES].sort(), Object.keys(EXPECTED_MATRIX).sort());
+  ROLES.forEach(role => {
+    assert.deepEqual([...getPermissionsForRole(role)].sort(), [...EXPECTED_MATRIX[role]].sort(), role);
+  });
+});
+
+test('every granted permission is a known one', () => {
+  ROLES.forEach(role => {
+    getPermissionsForRole(role).forEach(permission => assert.ok(PERMISSIONS.includes(permission), `${role}: ${permission}`));
+  });
+});
+
+test('auditors stay read-only', () => {
+  const writes = ['message.send', 'inquiry.create', 'inquiry.updateStatus', 'inquiry.delete', 'inquiry.reassign', 'bot.toggle', 'traveler.dm.send', 'user.manage'];
+  writes.forEach(permission => assert.equal(hasPermission({ role: 'auditor' }, permission), false, permission));
+});
+
+test('unknown roles and missing users get nothing', () => {
+  assert.deepEqual(getPermissionsForRole('guest'), []);
+  assert.equal(hasPermission({ role: 'guest' }, 'message.send'), false);
+  assert.equal(hasPermission(null, 'message.send'), false);
+});
+
+test('user responses carry the role permissions and no secrets', () => {
+  const response = toUserResponse({
+    id: 'u1',
+    email: 'eve@example.com',
+    name: 'Eve',
+    role: 'expert',
+    password_hash: 'hash',
+    totp_secret: 'secret',
+    email_verified_at: new Date()
+  });
+
+  assert.deepEqual(response.permissions, EXPECTED_MATRIX.expert);
+  assert.equal(response.emailVerified, true);
+  assert.equal('password_hash' in response, false);
+  assert.equal('totp_secret' in response, false);
+});
@@ -0,0 +1,135 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { db, USERS, signIn, startApp } = require('../helpers');
+const twilioRoleService = require('../../services/twilioRoleService');
+const twilioService = require('../../services/twilioService');
+const inquiryRoutes = require('../../routes/inquiries');
+
+const INQUIRY_ID = '3c9e2f0a-6b1d-4e7a-8c5f-1d2e3f4a5b60';
+const CONVERSATION_SID = 'CH00000000000000000000000000000001';
+
+let app;
+let inquiry;
+
+test.before(async () => {
+  process.env.TWILIO_ACCOUNT_SID = 'ACtest';
+  process.env.TWILIO_AUTH_TOKEN = 'test-token';
+  app = await startApp('/api/inquiries', inquiryRoutes);
+});
+
+test.after(async () => {
+  delete process.env.TWILIO_ACCOUNT_SID;
+  delete process.env.TWILIO_AUTH_TOKEN;
+  await app.close();
+});
+
+test.beforeEach((t) => {
+  db.reset();
+  inquiry = {
+    id: INQUIRY_ID,
+    status: 'in_progress',
+    conversation_sid: CONVERSATION_SID,
+    assigned_expert_id: USERS.expert.id
+  };
+
+  db.on(/SELECT id, email, name, role, deactivated_at FROM users WHERE id = \$1/, ([userId]) => (
+    Object.values(USERS).filter(user => user.id === userId)
+  ));
+  db.on(/FROM inquiries i\s+LEFT JOIN users u ON i\.assigned_expert_id = u\.id\s+WHERE i\.id = \$1\s+FOR UPDATE OF i/, ([id]) => (
+    id === inquiry.id ? [{ ...inquiry, expert_name: USERS.expert.name, expert_email: USERS.expert.email }] : []
+  ));
+  db.on(/UPDATE inquiries\s+SET assigned_expert_id = \$2, status = 'assigned'/, ([id, expertId]) => {
+    Object.assign(inquiry, { assigned_expert_id: expertId, status: 'assigned' });
+    return [{ ...inquiry, id }];
+  });
+  // The undo only applies while the inquiry is still as the reassignment left it
+  db.on(/UPDATE inquiries\s+SET assigned_expert_id = \$2, status = \$3/, ([id, expertId, status, reassignedTo]) => {
+    if (inquiry.assigned_expert_id !== reassignedTo || inquiry.status !== 'assigned') {
+      return [];
+    }
+    Object.assign(inquiry, { assigned_expert_id: expertId, status });
+    return [{ id }];
+  });
+  db.on(/INSERT INTO inquiry_status_history/, () => []);
+  db.on(/INSERT INTO inquiry_handoffs/, () => [{ id: 41 }]);
+  db.on(/DELETE FROM inquiry_handoffs/, () => []);
+
+  t.mock.method(twilioRoleService, 'createTwilioUserWithRole', async () => ({}));
+  t.mock.method(twilioRoleService, 'findChatParticipant', async () => null);
+  t.mock.method(twilioRoleService, 'removeChatParticipant', async () => true);
+  t.mock.method(twilioService, 'updateConversationAttributes', async () => ({}));
+});
+
+const reassign = (token, body, id = INQUIRY_ID) => app.request('POST', `/${id}/reassign`, { token, body });
+
+test('a reassignment is saved, then the new expert joins the conversation', async (t) => {
+  const { token } = signIn(USERS.supervisor);
+  let committedBeforeTwilio;
+  t.mock.method(twilioRoleService, 'addChatParticipant', async () => {
+    committedBeforeTwilio = db.ran(/^COMMIT$/).length === 1;
+    return {};
+  });
+
+  const response = await reassign(token, { expertId: USERS.otherExpert.id, note: 'Customer prefers Spanish' });
+
+  assert.equal(response.status, 200);
+  assert.equal(committedBeforeTwilio, true);
+  assert.deepEqual(twilioRoleService.addChatParticipant.mock.calls[0].arguments, [CONVERSATION_SID, USERS.otherExpert.email]);
+  assert.deepEqual(twilioRoleService.removeChatParticipant.mock.calls[0].arguments, [CONVERSATION_SID, USERS.expert.email]);
+  assert.deepEqual([inquiry.assigned_expert_id, inquiry.status], [USERS.otherExpert.id, 'assigned']);
+  assert.deepEqual(db.ran(/INSERT INTO inquiry_handoffs/)[0].params.slice(0, 4), [
+    INQUIRY_ID, USERS.expert.id, USERS.otherExpert.id, 'Customer prefers Spanish'
+  ]);
+});
+
+test('the reassignment is undone when the new expert cannot join', async (t) => {
+  const { token } = signIn(USERS.supervisor);
+  t.mock.method(twilioRoleService, 'addChatParticipant', async () => {
+    throw new Error('Twilio is down');
+  });
+
+  const response = await reassign(token, { expertId: USERS.otherExpert.id, note: 'Customer prefers Spanish' });
+
+  assert.equal(response.status, 502);
+  assert.equal(response.body.error, 'TWILIO_PARTICIPANT_FAILED');
+  assert.deepEqual([inquiry.assigned_expert_id, inquiry.status], [USERS.expert.id, 'in_progress']);
+  assert.deepEqual(db.ran(/DELETE FROM inquiry_handoffs/)[0].params, [41]);
+  assert.equal(twilioRoleService.removeChatParticipant.mock.callCount(), 0);
+  const undoAudit = db.ran(/INSERT INTO audit_log/)[1];
+  assert.deepEqual(JSON.parse(undoAudit.params[10]), { undone: true, reason: 'TWILIO_PARTICIPANT_FAILED' });
+});
+
+test('an expert already in the conversation is not added again', async (t) => {
+  const { token } = signIn(USERS.supervisor);
+  t.mock.method(twilioRoleService, 'findChatParticipant', async () => ({ sid: 'MB1' }));
+  t.mock.method(twilioRoleService, 'addChatParticipant', async () => ({}));
+
+  const response = await reassign(token, { expertId: USERS.otherExpert.id, note: 'Back to you' });
+
+  assert.equal(response.status, 200);
+  assert.equal(twilioRoleService.addChatParticipant.mock.callCount(), 0);
+});
+
+test('malformed ids and non-experts are rejected before anything is locked', async (t) => {
+  const { token } = signIn(USERS.supervisor);
+  t.mock.method(twilioRoleService, 'addChatParticipant', async () => ({}));
+
+  const badInquiry = await reassign(token, { expertId: USERS.otherExpert.id, note: 'n' }, 'not-a-uuid');
+  const badExpert = await reassign(token, { expertId: '42', note: 'n' });
+  const notExpert = await reassign(token, { expertId: USERS.admin.id, note: 'n' });
+  const noNote = await reassign(token, { expertId: USERS.otherExpert.id, note: '  ' });
+
+  assert.deepEqual([badInquiry, badExpert, notExpert, noNote].map(({ status }) => status), [400, 400, 400, 400]);
+  assert.equal(badInquiry.body.message, 'Invalid inquiry id');
+  assert.equal(badExpert.body.message, 'Invalid expertId');
+  assert.equal(db.ran(/FROM inquiries/).length, 0);
+});
+
+test('experts cannot reassign inquiries', async () => {
+  const { token } = signIn(USERS.expert);
+
+  const response = await reassign(token, { expertId: USERS.otherExpert.id, note: 'Take it' });
+
+  assert.equal(response.status, 403);
+  assert.equal(db.ran(/FROM inquiries/).length, 0);
+});
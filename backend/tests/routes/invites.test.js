@@ -0,0 +1,105 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { db, USERS, signIn, startApp } = require('../helpers');
+const { hashInviteToken } = require('../../utils/invites');
+const inviteRoutes = require('../../routes/invites');
+
+const INVITE_ID = '5b0c7a62-9d7e-4f0e-8f43-2d6f1f7e9c11';
+
+const inviteRow = (overrides = {}) => ({
+  id: INVITE_ID,
+  email: 'new@example.com',
+  role: 'expert',
+  status: 'pending',
+  created_at: '2025-10-20T08:00:00.000Z',
+  expires_at: '2025-10-27T08:00:00.000Z',
+  used_at: null,
+  revoked_at: null,
+  created_by_name: USERS.admin.name,
+  created_by_email: USERS.admin.email,
+  ...overrides
+});
+
+let app;
+
+test.before(async () => {
+  app = await startApp('/api/invites', inviteRoutes);
+});
+
+test.after(() => app.close());
+
+test.beforeEach(() => db.reset());
+
+test('issuing an invite returns the token once and stores only its hash', async () => {
+  const { token } = signIn(USERS.admin);
+  let stored;
+  db.on(/INSERT INTO user_invites/, (params) => {
+    stored = params;
+    return [{ id: INVITE_ID }];
+  });
+  db.on(/FROM user_invites ui/, () => [inviteRow()]);
+
+  const response = await app.request('POST', '/', { token, body: { role: 'expert', email: ' New@Example.com ' } });
+
+  assert.equal(response.status, 201);
+  assert.equal(response.body.invite.email, 'new@example.com');
+  assert.equal(stored[0], hashInviteToken(response.body.token));
+  assert.deepEqual(stored.slice(1), ['new@example.com', 'expert', USERS.admin.id, 7]);
+  assert.equal(db.ran(/INSERT INTO audit_log/)[0].params[4], 'invite.create');
+});
+
+test('invites cannot create bots and need user.invite', async () => {
+  const admin = signIn(USERS.admin);
+  const supervisor = signIn(USERS.supervisor);
+
+  const bot = await app.request('POST', '/', { token: admin.token, body: { role: 'bot' } });
+  const forbidden = await app.request('POST', '/', { token: supervisor.token, body: { role: 'expert' } });
+  const anonymous = await app.request('POST', '/', { body: { role: 'expert' } });
+
+  assert.equal(bot.status, 400);
+  assert.equal(forbidden.status, 403);
+  assert.equal(anonymous.status, 401);
+  assert.equal(db.ran(/user_invites/).length, 0);
+});
+
+test('an unknown invite token is not found', async () => {
+  db.on(/FROM user_invites\s+WHERE token_hash = \$1/, () => []);
+
+  const response = await app.request('GET', '/lookup/not-a-real-token');
+
+  assert.equal(response.status, 404);
+  assert.equal(response.body.error, 'INVALID_INVITE');
+});
+
+test('revoking a pending invite records it in the audit log', async () => {
+  const { token } = signIn(USERS.admin);
+  db.on(/UPDATE user_invites/, () => [{ id: INVITE_ID, role: 'expert', email: 'new@example.com' }]);
+  db.on(/FROM user_invites ui/, () => [inviteRow({ status: 'revoked', revoked_at: '2025-10-21T08:00:00.000Z' })]);
+
+  const response = await app.request('DELETE', `/${INVITE_ID}`, { token });
+
+  assert.equal(response.status, 200);
+  assert.equal(response.body.invite.status, 'revoked');
+  assert.equal(db.ran(/INSERT INTO audit_log/)[0].params[4], 'invite.revoke');
+});
+
+test('revoking a used invite is a conflict', async () => {
+  const { token } = signIn(USERS.admin);
+  db.on(/UPDATE user_invites/, () => []);
+  db.on(/FROM user_invites ui/, () => [inviteRow({ status: 'used', used_at: '2025-10-21T08:00:00.000Z' })]);
+
+  const response = await app.request('DELETE', `/${INVITE_ID}`, { token });
+
+  assert.equal(response.status, 409);
+  assert.equal(response.body.message, 'Invite is already used');
+  assert.equal(db.ran(/INSERT INTO audit_log/).length, 0);
+});
+
+test('revoking a malformed invite id is not found without touching the table', async () => {
+  const { token } = signIn(USERS.admin);
+
+  const response = await app.request('DELETE', '/not-a-uuid', { token });
+
+  assert.equal(response.status, 404);
+  assert.equal(db.ran(/user_invites/).length, 0);
+});
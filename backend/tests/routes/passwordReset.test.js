@@ -0,0 +1,95 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const bcrypt = require('bcryptjs');
+const { db, USERS, startApp } = require('../helpers');
+const mailService = require('../../services/mailService');
+const {
+  generatePasswordResetToken,
+  generateTwoFactorChallengeToken,
+  verifyAccountToken
+} = require('../../utils/accountTokens');
+const authRoutes = require('../../routes/auth');
+
+const OLD_PASSWORD_HASH = bcrypt.hashSync('old password', 4);
+
+let app;
+
+test.before(async () => {
+  app = await startApp('/api/auth', authRoutes);
+});
+
+test.after(() => app.close());
+
+test.beforeEach(() => db.reset());
+
+// The account row the reset transaction locks, with whatever password it has by then
+const lockAccount = (passwordHash) => {
+  db.on(/SELECT id, email, password_hash FROM users WHERE id = \$1 FOR UPDATE/, ([userId]) => (
+    userId === USERS.expert.id ? [{ id: userId, email: USERS.expert.email, password_hash: passwordHash }] : []
+  ));
+};
+
+test('a reset link sets the new password and signs the account out everywhere', async () => {
+  let newHash;
+  lockAccount(OLD_PASSWORD_HASH);
+  db.on(/UPDATE users\s+SET password_hash/, ([, hash]) => {
+    newHash = hash;
+    return [];
+  });
+  db.on(/UPDATE user_sessions s\s+SET revoked_at/, () => [{ id: 'a' }, { id: 'b' }]);
+  const token = generatePasswordResetToken({ ...USERS.expert, password_hash: OLD_PASSWORD_HASH });
+
+  const response = await app.request('POST', '/reset-password', { body: { token, password: 'new password' } });
+
+  assert.equal(response.status, 200);
+  assert.equal(await bcrypt.compare('new password', newHash), true);
+  assert.deepEqual(db.ran(/UPDATE user_sessions s/)[0].params, [USERS.expert.id, 'password_reset', null]);
+  assert.deepEqual(db.ran(/^(BEGIN|COMMIT|ROLLBACK)$/).map(({ text }) => text), ['BEGIN', 'COMMIT']);
+});
+
+test('a reset link stops working once the password has changed', async () => {
+  lockAccount(bcrypt.hashSync('changed since', 4));
+  const token = generatePasswordResetToken({ ...USERS.expert, password_hash: OLD_PASSWORD_HASH });
+
+  const response = await app.request('POST', '/reset-password', { body: { token, password: 'new password' } });
+
+  assert.equal(response.status, 400);
+  assert.equal(response.body.error, 'INVALID_RESET_TOKEN');
+  assert.equal(db.ran(/^\s*UPDATE/).length, 0);
+});
+
+test('a reset needs a real reset token and a long enough password', async () => {
+  const resetToken = generatePasswordResetToken({ ...USERS.expert, password_hash: OLD_PASSWORD_HASH });
+  const challengeToken = generateTwoFactorChallengeToken(USERS.expert);
+
+  const short = await app.request('POST', '/reset-password', { body: { token: resetToken, password: 'short' } });
+  const wrongType = await app.request('POST', '/reset-password', { body: { token: challengeToken, password: 'new password' } });
+  const forged = await app.request('POST', '/reset-password', { body: { token: `${resetToken}x`, password: 'new password' } });
+
+  assert.equal(short.status, 400);
+  assert.equal(wrongType.body.error, 'INVALID_RESET_TOKEN');
+  assert.equal(forged.body.error, 'INVALID_RESET_TOKEN');
+  assert.equal(db.queries.length, 0);
+});
+
+test('asking for a reset looks the same whether or not the account exists', async (t) => {
+  const sent = [];
+  let delivered;
+  const delivery = new Promise(resolve => { delivered = resolve; });
+  mailService.setTransport({ name: 'test', send: async (message) => { sent.push(message); delivered(); } });
+  t.after(() => mailService.setTransport(null));
+  db.on(/FROM users WHERE LOWER\(email\) = LOWER\(\$1\) AND deactivated_at IS NULL/, ([email]) => (
+    email.toLowerCase() === USERS.expert.email ? [{ ...USERS.expert, password_hash: OLD_PASSWORD_HASH }] : []
+  ));
+
+  const known = await app.request('POST', '/forgot-password', { body: { email: ' Expert@Example.com ' } });
+  const unknown = await app.request('POST', '/forgot-password', { body: { email: 'nobody@example.com' } });
+  await delivery;
+
+  assert.equal(known.status, 200);
+  assert.deepEqual([unknown.status, unknown.body], [known.status, known.body]);
+  assert.equal(sent.length, 1);
+  assert.equal(sent[0].to, USERS.expert.email);
+  const link = new URL(sent[0].text.match(/https?:\/\/\S+/)[0]);
+  assert.equal(verifyAccountToken(link.searchParams.get('resetToken'), 'password_reset').userId, USERS.expert.id);
+});
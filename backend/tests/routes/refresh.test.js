@@ -0,0 +1,97 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const crypto = require('crypto');
+const jwt = require('jsonwebtoken');
+const { db, USERS, signIn, startApp } = require('../helpers');
+const { generateRefreshToken } = require('../../middleware/auth');
+const authRoutes = require('../../routes/auth');
+
+let app;
+// Session id -> { refreshTokenId, revokedReason }
+let sessions;
+
+test.before(async () => {
+  app = await startApp('/api/auth', authRoutes);
+});
+
+test.after(() => app.close());
+
+test.beforeEach(() => {
+  db.reset();
+  sessions = new Map();
+
+  db.on(/FROM users WHERE id = \$1/, ([userId]) => Object.values(USERS).filter(user => user.id === userId));
+  // renewSession: only the newest refresh token of an active session matches
+  db.on(/UPDATE user_sessions s\s+SET expires_at/, ([sessionId, , , , , newTokenId, presentedTokenId]) => {
+    const session = sessions.get(sessionId);
+    if (!session || session.revokedReason || session.refreshTokenId !== presentedTokenId) {
+      return [];
+    }
+    session.refreshTokenId = newTokenId;
+    return [{ id: sessionId }];
+  });
+  db.on(/UPDATE user_sessions s\s+SET revoked_at/, ([sessionId, reason]) => {
+    const session = sessions.get(sessionId);
+    if (!session || session.revokedReason) {
+      return [];
+    }
+    session.revokedReason = reason;
+    return [{ id: sessionId }];
+  });
+});
+
+// A signed-in session and its first refresh token
+const startSession = (user) => {
+  const sessionId = crypto.randomUUID();
+  const refreshTokenId = crypto.randomUUID();
+  sessions.set(sessionId, { refreshTokenId, revokedReason: null });
+  return { sessionId, refreshToken: generateRefreshToken(user.id, sessionId, refreshTokenId) };
+};
+
+test('a refresh rotates the refresh token within the same session', async () => {
+  const { sessionId, refreshToken } = startSession(USERS.expert);
+
+  const response = await app.request('POST', '/refresh', { body: { refreshToken } });
+
+  assert.equal(response.status, 200);
+  assert.equal(jwt.verify(response.body.token, process.env.JWT_SECRET).sid, sessionId);
+  assert.notEqual(response.body.refreshToken, refreshToken);
+  assert.equal(jwt.decode(response.body.refreshToken).jti, sessions.get(sessionId).refreshTokenId);
+});
+
+test('reusing an exchanged refresh token revokes the session', async () => {
+  const { sessionId, refreshToken } = startSession(USERS.expert);
+  const first = await app.request('POST', '/refresh', { body: { refreshToken } });
+
+  const replay = await app.request('POST', '/refresh', { body: { refreshToken } });
+  const legitimate = await app.request('POST', '/refresh', { body: { refreshToken: first.body.refreshToken } });
+
+  assert.equal(replay.status, 401);
+  assert.equal(replay.body.error, 'SESSION_REVOKED');
+  assert.equal(sessions.get(sessionId).revokedReason, 'refresh_token_reused');
+  assert.equal(legitimate.status, 401);
+  assert.equal(legitimate.body.error, 'SESSION_REVOKED');
+});
+
+test('access tokens and tampered tokens are not refresh tokens', async () => {
+  const { token } = signIn(USERS.expert);
+  const { refreshToken } = startSession(USERS.expert);
+
+  const access = await app.request('POST', '/refresh', { body: { refreshToken: token } });
+  const tampered = await app.request('POST', '/refresh', { body: { refreshToken: `${refreshToken}x` } });
+
+  assert.equal(access.body.error, 'INVALID_REFRESH_TOKEN');
+  assert.equal(tampered.body.error, 'INVALID_REFRESH_TOKEN');
+  assert.equal(db.ran(/user_sessions/).length, 0);
+});
+
+test('a deactivated account cannot refresh', async () => {
+  const { refreshToken } = startSession(USERS.expert);
+  db.on(/FROM users WHERE id = \$1/, () => [{ ...USERS.expert, deactivated_at: '2025-10-21T08:00:00.000Z' }]);
+
+  const response = await app.request('POST', '/refresh', { body: { refreshToken } });
+
+  assert.equal(response.status, 401);
+  assert.equal(response.body.error, 'ACCOUNT_DEACTIVATED');
+  assert.equal(db.ran(/user_sessions/).length, 0);
+});
@@ -0,0 +1,114 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const jwt = require('jsonwebtoken');
+const { db, USERS, signIn, startApp } = require('../helpers');
+const sessionRoutes = require('../../routes/sessions');
+
+const sessionRow = (id, lastSeenAt) => ({
+  id,
+  user_id: USERS.expert.id,
+  user_agent: 'Firefox',
+  ip_address: '127.0.0.1',
+  created_at: '2025-10-20T08:00:00.000Z',
+  last_seen_at: lastSeenAt,
+  expires_at: '2025-10-27T08:00:00.000Z'
+});
+
+let app;
+
+test.before(async () => {
+  app = await startApp('/api/sessions', sessionRoutes);
+});
+
+test.after(() => app.close());
+
+test.beforeEach(() => db.reset());
+
+// Revoking in the fake database also ends the session for authenticateToken
+const revokeSessions = () => {
+  db.on(/UPDATE user_sessions s\s+SET revoked_at/, ([sessionOrUserId, , ownerOrExcept], text) => {
+    const bySession = /WHERE s\.id = \$1/.test(text);
+    const revoked = [...db.sessions.entries()].filter(([sessionId, user]) => (bySession
+      ? sessionId === sessionOrUserId && (!ownerOrExcept || user.id === ownerOrExcept)
+      : user.id === sessionOrUserId && sessionId !== ownerOrExcept));
+
+    revoked.forEach(([sessionId]) => db.sessions.delete(sessionId));
+    return revoked.map(([id]) => ({ id }));
+  });
+};
+
+test('the session list flags the one making the request', async () => {
+  const { token, sessionId } = signIn(USERS.expert);
+  const otherId = '0e6bb3a4-3d1c-4c1e-9f58-9a3c1f9b2e10';
+  db.on(/FROM user_sessions s\s+WHERE s\.user_id = \$1/, ([userId]) => (userId === USERS.expert.id
+    ? [sessionRow(sessionId, '2025-10-21T09:00:00.000Z'), sessionRow(otherId, '2025-10-20T09:00:00.000Z')]
+    : []));
+
+  const response = await app.request('GET', '/', { token });
+
+  assert.equal(response.status, 200);
+  assert.deepEqual(response.body.sessions.map(({ id, current }) => [id, current]), [[sessionId, true], [otherId, false]]);
+});
+
+test('a revoked session can no longer use its access token', async () => {
+  revokeSessions();
+  const current = signIn(USERS.expert);
+  const laptop = signIn(USERS.expert);
+
+  const revoke = await app.request('DELETE', `/${laptop.sessionId}`, { token: current.token });
+  const afterwards = await app.request('GET', '/', { token: laptop.token });
+
+  assert.equal(revoke.status, 200);
+  assert.equal(revoke.body.current, false);
+  assert.equal(afterwards.status, 401);
+  assert.equal(afterwards.body.error, 'SESSION_REVOKED');
+});
+
+test('a user cannot revoke someone else\'s session', async () => {
+  revokeSessions();
+  const { token } = signIn(USERS.expert);
+  const other = signIn(USERS.otherExpert);
+
+  const response = await app.request('DELETE', `/${other.sessionId}`, { token });
+
+  assert.equal(response.status, 404);
+  assert.equal(db.sessions.has(other.sessionId), true);
+});
+
+test('a malformed session id is not found without touching the table', async () => {
+  const { token } = signIn(USERS.expert);
+
+  const response = await app.request('DELETE', '/not-a-uuid', { token });
+
+  assert.equal(response.status, 404);
+  assert.equal(db.ran(/UPDATE user_sessions/).length, 0);
+});
+
+test('signing out everywhere can keep the current session', async () => {
+  revokeSessions();
+  const current = signIn(USERS.expert);
+  const phone = signIn(USERS.expert);
+  const other = signIn(USERS.otherExpert);
+
+  const response = await app.request('POST', '/revoke-all', { token: current.token, body: { includeCurrent: false } });
+
+  assert.equal(response.status, 200);
+  assert.equal(response.body.revoked, 1);
+  assert.deepEqual([...db.sessions.keys()].sort(), [current.sessionId, other.sessionId].sort());
+  assert.equal(db.sessions.has(phone.sessionId), false);
+});
+
+test('only access tokens with a live session are accepted', async () => {
+  const refreshLike = jwt.sign({ userId: USERS.expert.id, sid: signIn(USERS.expert).sessionId, type: 'refresh' }, process.env.JWT_SECRET);
+  const withoutSession = jwt.sign({ userId: USERS.expert.id }, process.env.JWT_SECRET);
+  const unknownSession = jwt.sign({ userId: USERS.expert.id, sid: '0e6bb3a4-3d1c-4c1e-9f58-9a3c1f9b2e10' }, process.env.JWT_SECRET);
+
+  const refresh = await app.request('GET', '/', { token: refreshLike });
+  const legacy = await app.request('GET', '/', { token: withoutSession });
+  const unknown = await app.request('GET', '/', { token: unknownSession });
+
+  assert.equal(refresh.body.error, 'INVALID_TOKEN');
+  assert.equal(legacy.body.error, 'INVALID_TOKEN');
+  assert.equal(unknown.body.error, 'SESSION_REVOKED');
+  assert.deepEqual([refresh.status, legacy.status, unknown.status], [401, 401, 401]);
+});
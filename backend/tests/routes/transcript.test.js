@@ -0,0 +1,124 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { db, USERS, signIn, startApp } = require('../helpers');
+const twilioService = require('../../services/twilioService');
+const conversationRoutes = require('../../routes/conversations');
+
+const CONVERSATION_SID = 'CH00000000000000000000000000000002';
+
+let app;
+let conversationsConfigured;
+
+test.before(async () => {
+  conversationsConfigured = twilioService.conversationsConfigured;
+  twilioService.conversationsConfigured = true;
+  app = await startApp('/api/conversations', conversationRoutes);
+});
+
+test.after(async () => {
+  twilioService.conversationsConfigured = conversationsConfigured;
+  await app.close();
+});
+
+test.beforeEach(() => {
+  db.reset();
+  db.on(/FROM inquiries\s+WHERE conversation_sid = \$1/, () => [{
+    id: '3c9e2f0a-6b1d-4e7a-8c5f-1d2e3f4a5b61',
+    customer_name: 'Tara Traveler',
+    customer_email: 'tara@example.com',
+    customer_phone: '+15550001111',
+    assigned_expert_id: USERS.expert.id
+  }]);
+  db.on(/SELECT name, email, role FROM users WHERE lower\(email\) = ANY\(\$1\)/, () => [USERS.expert]);
+});
+
+/**
+ * Serve the conversation's messages from the Twilio REST API, one message per page
+ * @param {Object} t - Test context
+ * @param {string[]} bodies - Message bodies, oldest first
+ * @returns {string[]} Twilio URLs fetched, in order
+ */
+const serveTwilioMessages = (t, bodies) => {
+  const fetched = [];
+  const passThrough = globalThis.fetch;
+
+  t.mock.method(globalThis, 'fetch', async (url, options) => {
+    if (!String(url).startsWith('https://conversations.twilio.com/')) {
+      return passThrough(url, options);
+    }
+
+    fetched.push(String(url));
+    const page = Number(new URL(url).searchParams.get('Page') || 0);
+    const next = page + 1 < bodies.length
+      ? `https://conversations.twilio.com/v1/Conversations/${CONVERSATION_SID}/Messages?Order=asc&PageSize=1&Page=${page + 1}`
+      : null;
+
+    return Response.json({
+      messages: [{
+        sid: `IM${page}`,
+        index: page,
+        author: USERS.expert.email,
+        body: bodies[page],
+        date_created: new Date(Date.UTC(2025, 9, 20, 8, page)).toISOString()
+      }],
+      meta: { next_page_url: next }
+    });
+  });
+
+  return fetched;
+};
+
+const download = (token, format) => app.request('GET', `/${CONVERSATION_SID}/transcript?format=${format}&timeZone=UTC`, { token });
+
+test('a transcript contains every page of the conversation', async (t) => {
+  const bodies = Array.from({ length: 60 }, (_, index) => `Message ${index + 1}`);
+  const fetched = serveTwilioMessages(t, bodies);
+  const { token } = signIn(USERS.supervisor);
+
+  const response = await download(token, 'txt');
+
+  assert.equal(response.status, 200);
+  assert.equal(fetched.length, 60);
+  assert.match(response.body, /Message 1\n/);
+  assert.match(response.body, /Message 60\n/);
+  assert.match(response.headers.get('content-disposition'), new RegExp(`transcript-${CONVERSATION_SID}-.*\\.txt`));
+  assert.equal(JSON.parse(db.ran(/INSERT INTO audit_log/)[0].params[10]).messages, 60);
+});
+
+test('a PDF is refused when the conversation has characters it cannot show', async (t) => {
+  serveTwilioMessages(t, ['Café at 9?', 'See you there 👋']);
+  const { token } = signIn(USERS.supervisor);
+
+  const pdf = await download(token, 'pdf');
+  const html = await download(token, 'html');
+
+  assert.equal(pdf.status, 422);
+  assert.equal(pdf.body.error, 'PDF_UNSUPPORTED_CHARACTERS');
+  assert.equal(html.status, 200);
+  assert.match(html.body, /See you there 👋/);
+  assert.equal(db.ran(/INSERT INTO audit_log/).length, 1);
+});
+
+test('a PDF is rendered for Latin-1 text', async (t) => {
+  serveTwilioMessages(t, ['Café at 9?']);
+  const { token } = signIn(USERS.supervisor);
+
+  const response = await download(token, 'pdf');
+
+  assert.equal(response.status, 200);
+  assert.equal(response.body.subarray(0, 5).toString(), '%PDF-');
+});
+
+test('experts only get transcripts of conversations they are part of', async (t) => {
+  const fetched = serveTwilioMessages(t, ['Hello']);
+  t.mock.method(twilioService, 'fetchConversationParticipants', async () => [{ identity: USERS.expert.email }]);
+  const assigned = signIn(USERS.expert);
+  const outsider = signIn(USERS.otherExpert);
+
+  const allowed = await download(assigned.token, 'txt');
+  const refused = await download(outsider.token, 'txt');
+
+  assert.equal(allowed.status, 200);
+  assert.equal(refused.status, 403);
+  assert.equal(fetched.length, 1);
+});
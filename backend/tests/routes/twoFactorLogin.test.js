@@ -0,0 +1,112 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const bcrypt = require('bcryptjs');
+const jwt = require('jsonwebtoken');
+const { db, USERS, startApp } = require('../helpers');
+const { generateTotp, generateTotpSecret, getTimeStep } = require('../../utils/totp');
+const { encryptSecret, hashRecoveryCode } = require('../../utils/twoFactor');
+const { generateTwoFactorChallengeToken } = require('../../utils/accountTokens');
+const authRoutes = require('../../routes/auth');
+
+const PASSWORD = 'correct horse';
+const SECRET = generateTotpSecret();
+
+const account = {
+  ...USERS.supervisor,
+  password_hash: bcrypt.hashSync(PASSWORD, 4),
+  totp_enabled_at: '2025-10-02T08:00:00.000Z',
+  totp_secret: encryptSecret(SECRET),
+  totp_last_step: null
+};
+
+let app;
+
+test.before(async () => {
+  app = await startApp('/api/auth', authRoutes);
+});
+
+test.after(() => app.close());
+
+test.beforeEach(() => {
+  db.reset();
+  db.on(/FROM users WHERE email = \$1/, ([email]) => (email === account.email ? [account] : []));
+  db.on(/FROM users WHERE id = \$1 FOR UPDATE/, ([userId]) => (userId === account.id ? [account] : []));
+  db.on(/INSERT INTO user_sessions/, () => []);
+});
+
+// The single-use step check of verifyUserTotp
+const acceptTotpStep = () => db.on(/UPDATE users SET totp_last_step/, ([userId, step]) => [{ id: userId, step }]);
+
+test('the password alone only earns a two-factor challenge', async () => {
+  const response = await app.request('POST', '/login', { body: { email: account.email, password: PASSWORD } });
+
+  assert.equal(response.status, 200);
+  assert.equal(response.body.twoFactorRequired, true);
+  assert.equal(response.body.token, undefined);
+  assert.equal(response.body.refreshToken, undefined);
+  assert.equal(db.ran(/INSERT INTO user_sessions/).length, 0);
+});
+
+test('a wrong password never reaches the challenge', async () => {
+  const response = await app.request('POST', '/login', { body: { email: account.email, password: 'wrong' } });
+
+  assert.equal(response.status, 401);
+  assert.equal(response.body.challengeToken, undefined);
+});
+
+test('the challenge and an authenticator code start a session', async () => {
+  acceptTotpStep();
+  const step = getTimeStep();
+  const login = await app.request('POST', '/login', { body: { email: account.email, password: PASSWORD } });
+
+  const response = await app.request('POST', '/login/2fa', {
+    body: { challengeToken: login.body.challengeToken, code: generateTotp(SECRET, step) }
+  });
+
+  assert.equal(response.status, 200);
+  assert.equal(response.body.user.id, account.id);
+  const [session] = db.ran(/INSERT INTO user_sessions/);
+  assert.equal(jwt.verify(response.body.token, process.env.JWT_SECRET).sid, session.params[0]);
+  assert.equal(db.ran(/UPDATE users SET totp_last_step/)[0].params[1], step);
+});
+
+test('a wrong or already used code is refused', async () => {
+  const challengeToken = generateTwoFactorChallengeToken(account);
+  const wrongCode = String((Number(generateTotp(SECRET)) + 1) % 1000000).padStart(6, '0');
+  // Another login already used this step's code
+  db.on(/UPDATE users SET totp_last_step/, () => []);
+
+  const wrong = await app.request('POST', '/login/2fa', { body: { challengeToken, code: wrongCode } });
+  const reused = await app.request('POST', '/login/2fa', { body: { challengeToken, code: generateTotp(SECRET) } });
+
+  assert.equal(wrong.status, 401);
+  assert.equal(wrong.body.error, 'INVALID_TWO_FACTOR_CODE');
+  assert.equal(reused.status, 401);
+  assert.equal(reused.body.error, 'INVALID_TWO_FACTOR_CODE');
+  assert.equal(db.ran(/INSERT INTO user_sessions/).length, 0);
+});
+
+test('a recovery code signs in and reports how many are left', async () => {
+  const challengeToken = generateTwoFactorChallengeToken(account);
+  db.on(/UPDATE user_recovery_codes/, ([, codeHash]) => (codeHash === hashRecoveryCode('ABCDE-FGHJK') ? [{ id: 1 }] : []));
+  db.on(/SELECT COUNT\(\*\)::int AS count FROM user_recovery_codes/, () => [{ count: 9 }]);
+
+  const response = await app.request('POST', '/login/2fa', { body: { challengeToken, recoveryCode: 'abcde fghjk' } });
+
+  assert.equal(response.status, 200);
+  assert.equal(response.body.recoveryCodesRemaining, 9);
+});
+
+test('only a valid challenge token opens the second step', async () => {
+  const accessToken = jwt.sign({ userId: account.id }, process.env.JWT_SECRET);
+  const withoutTwoFactor = generateTwoFactorChallengeToken(USERS.expert);
+  db.on(/FROM users WHERE id = \$1 FOR UPDATE/, ([userId]) => (userId === USERS.expert.id ? [USERS.expert] : []));
+
+  const forged = await app.request('POST', '/login/2fa', { body: { challengeToken: accessToken, code: generateTotp(SECRET) } });
+  const notEnrolled = await app.request('POST', '/login/2fa', { body: { challengeToken: withoutTwoFactor, code: '123456' } });
+
+  assert.equal(forged.status, 401);
+  assert.equal(forged.body.error, 'INVALID_TWO_FACTOR_CHALLENGE');
+  assert.equal(notEnrolled.status, 401);
+  assert.equal(notEnrolled.body.error, 'INVALID_TWO_FACTOR_CHALLENGE');
+});
@@ -0,0 +1,67 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { SLA_METRICS, getSlaPolicy, getSlaClocks } = require('../utils/sla');
+
+const POLICY = { targets: { accept: 30, first_reply: 60, traveler_wait: 120 }, autoReassign: false };
+const NOW = new Date('2025-10-28T12:00:00.000Z');
+
+const inquiry = (overrides = {}) => ({
+  status: 'assigned',
+  assigned_expert_id: 'e1',
+  created_at: '2025-10-28T10:00:00.000Z',
+  sla_assigned_at: '2025-10-28T11:45:00.000Z',
+  sla_accepted_at: null,
+  last_expert_reply_at: null,
+  traveler_waiting_since: null,
+  sla_clocks_from: null,
+  ...overrides
+});
+
+test('the metrics match the ones the frontend mirrors', () => {
+  assert.deepEqual(SLA_METRICS, ['accept', 'first_reply', 'traveler_wait']);
+});
+
+test('the accept clock runs from the latest assignment', () => {
+  assert.deepEqual(getSlaClocks(inquiry(), POLICY, NOW), [{
+    metric: 'accept',
+    startedAt: '2025-10-28T11:45:00.000Z',
+    dueAt: '2025-10-28T12:15:00.000Z',
+    breached: false
+  }]);
+});
+
+test('the first reply clock stops once the expert has replied after accepting', () => {
+  const accepted = { status: 'accepted', sla_accepted_at: '2025-10-28T10:30:00.000Z' };
+
+  assert.deepEqual(getSlaClocks(inquiry(accepted), POLICY, NOW).map(clock => [clock.metric, clock.breached]), [['first_reply', true]]);
+  assert.deepEqual(getSlaClocks(inquiry({ ...accepted, last_expert_reply_at: '2025-10-28T10:40:00.000Z' }), POLICY, NOW), []);
+});
+
+test('clocks never start before sla_clocks_from', () => {
+  // Assigned long before the SLA migration, which set sla_clocks_from to its run time
+  const clocks = getSlaClocks(inquiry({
+    sla_assigned_at: '2025-09-01T08:00:00.000Z',
+    sla_clocks_from: '2025-10-28T11:50:00.000Z'
+  }), POLICY, NOW);
+
+  assert.equal(clocks[0].startedAt, '2025-10-28T11:50:00.000Z');
+  assert.equal(clocks[0].breached, false);
+});
+
+test('unassigned, finished and switched-off clocks do not run', () => {
+  assert.deepEqual(getSlaClocks(inquiry({ assigned_expert_id: null }), POLICY, NOW), []);
+  assert.deepEqual(getSlaClocks(inquiry({ status: 'resolved', traveler_waiting_since: '2025-10-28T11:00:00.000Z' }), POLICY, NOW), []);
+  assert.deepEqual(getSlaClocks(inquiry(), { ...POLICY, targets: { ...POLICY.targets, accept: 0 } }, NOW), []);
+});
+
+test('targets come from the environment and must be whole minutes', (t) => {
+  t.after(() => {
+    delete process.env.SLA_ACCEPT_MINUTES;
+  });
+
+  process.env.SLA_ACCEPT_MINUTES = '15';
+  assert.equal(getSlaPolicy().targets.accept, 15);
+
+  process.env.SLA_ACCEPT_MINUTES = '1.5';
+  assert.throws(() => getSlaPolicy(), /SLA_ACCEPT_MINUTES must be a whole number/);
+});
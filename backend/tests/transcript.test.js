@@ -0,0 +1,85 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const {
+  TRANSCRIPT_FORMATS,
+  isValidTimeZone,
+  resolveSenderName,
+  buildTranscript,
+  renderTranscriptHtml,
+  renderTranscriptText,
+  canRenderTranscriptPdf,
+  renderTranscriptPdf
+} = require('../utils/transcript');
+const { canEncodeWinAnsi, encodeWinAnsi } = require('../utils/pdf');
+
+const message = (body, overrides = {}) => ({
+  author: 'ana@example.com',
+  body,
+  dateCreated: '2025-10-31T09:00:00.000Z',
+  index: 0,
+  attributes: {},
+  ...overrides
+});
+
+const transcriptOf = (messages, title = 'Conversation with Ana') => buildTranscript({
+  conversationSid: 'CH1',
+  title,
+  messages,
+  timeZone: 'Europe/Berlin',
+  exportedBy: 'Eve',
+  exportedAt: new Date('2025-10-31T10:00:00.000Z')
+});
+
+test('the formats and time zones match what the frontend offers', () => {
+  assert.deepEqual(Object.keys(TRANSCRIPT_FORMATS).sort(), ['html', 'pdf', 'txt']);
+  assert.equal(isValidTimeZone('Europe/Berlin'), true);
+  assert.equal(isValidTimeZone('Mars/Olympus'), false);
+});
+
+test('sender names follow the way the dashboard labels them', () => {
+  const context = {
+    usersByEmail: new Map([['eve@example.com', { name: 'Eve', role: 'expert' }]]),
+    traveler: { name: 'Ana', email: 'ana@example.com', phone: '+1 555 123 4567' }
+  };
+
+  assert.equal(resolveSenderName({ author: 'x@example.com', attributes: { from: 'Baboo Team' } }, context), 'Baboo Team');
+  assert.equal(resolveSenderName({ author: 'Eve@example.com', attributes: {} }, context), 'Eve - Local Expert');
+  assert.equal(resolveSenderName({ author: 'support_bot_1', attributes: {} }, context), 'Bot');
+  assert.equal(resolveSenderName({ author: '+15551234567', attributes: {} }, context), 'Ana - Traveler');
+  assert.equal(resolveSenderName({ author: 'whatsapp:+15551234567', attributes: {} }, context), 'Ana - Traveler');
+});
+
+test('times are shown in the requested time zone', () => {
+  const text = renderTranscriptText(transcriptOf([message('Hallo')]));
+
+  assert.match(text, /\[31 Oct 2025, 10:00\] /);
+  assert.match(text, /1 messages, times in Europe\/Berlin/);
+});
+
+test('HTML transcripts escape message text', () => {
+  const html = renderTranscriptHtml(transcriptOf([message('<script>alert(1)</script>')], 'Conversation with <Ana>'));
+
+  assert.equal(html.includes('<script>'), false);
+  assert.ok(html.includes('&lt;script&gt;alert(1)&lt;/script&gt;'));
+  assert.ok(html.includes('Conversation with &lt;Ana&gt;'));
+});
+
+test('PDF transcripts cover Western European text', () => {
+  const transcript = transcriptOf([message('Olá! Das Frühstück kostet 12 € – “inklusive”.')]);
+  const pdf = renderTranscriptPdf(transcript).toString('latin1');
+
+  assert.equal(canRenderTranscriptPdf(transcript), true);
+  assert.ok(pdf.startsWith('%PDF-1.4'));
+  assert.ok(pdf.includes('/Count 1'));
+});
+
+test('PDF is refused for text the standard fonts cannot show', () => {
+  assert.equal(canRenderTranscriptPdf(transcriptOf([message('Thanks 👍')])), false);
+  assert.equal(canRenderTranscriptPdf(transcriptOf([message('Hi')], 'Разговор с Анной')), false);
+});
+
+test('the WinAnsi check agrees with the encoder', () => {
+  ['Hello\tthere\r\n', 'Ça coûte 5€', '?'].forEach(text => assert.equal(canEncodeWinAnsi(text), true, text));
+  assert.equal(canEncodeWinAnsi('日本'), false);
+  assert.deepEqual(encodeWinAnsi('€日'), [0x80, 63]);
+});
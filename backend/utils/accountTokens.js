@@ -0,0 +1,90 @@
+/**
+ * Signed, expiring tokens for account flows: password reset and email verification links,
+ * and the challenge between the password and two-factor steps of a login.
+ * They are JWTs with their own secret, so they can never pass as access or refresh tokens.
+ */
+
+const crypto = require('crypto');
+const jwt = require('jsonwebtoken');
+
+const PASSWORD_RESET_TTL = process.env.PASSWORD_RESET_EXPIRES_IN || '1h';
+const EMAIL_VERIFICATION_TTL = process.env.EMAIL_VERIFICATION_EXPIRES_IN || '48h';
+const TWO_FACTOR_CHALLENGE_TTL = '5m';
+
+const ACCOUNT_TOKEN_SECRET = () => process.env.ACCOUNT_TOKEN_SECRET || `${process.env.JWT_SECRET}:account`;
+
+/**
+ * Short digest of a password hash. Embedded in reset tokens so that a token stops
+ * working as soon as the password changes, which makes it single-use.
+ * @param {string} passwordHash - bcrypt hash from the users table
+ * @returns {string} Hex fingerprint
+ */
+function passwordFingerprint(passwordHash) {
+  return crypto.createHash('sha256').update(passwordHash).digest('hex').slice(0, 16);
+}
+
+/**
+ * Create a password reset token
+ * @param {Object} user - Row with id and password_hash
+ * @returns {string} Signed token
+ */
+function generatePasswordResetToken(user) {
+  return jwt.sign(
+    { userId: user.id, type: 'password_reset', pwd: passwordFingerprint(user.password_hash) },
+    ACCOUNT_TOKEN_SECRET(),
+    { expiresIn: PASSWORD_RESET_TTL }
+  );
+}
+
+/**
+ * Create an email verification token bound to the address being verified
+ * @param {Object} user - Row with id and email
+ * @returns {string} Signed token
+ */
+function generateEmailVerificationToken(user) {
+  return jwt.sign(
+    { userId: user.id, type: 'email_verification', email: user.email.toLowerCase() },
+    ACCOUNT_TOKEN_SECRET(),
+    { expiresIn: EMAIL_VERIFICATION_TTL }
+  );
+}
+
+/**
+ * Create the token that carries a login from the password step to the two-factor step
+ * @param {Object} user - Row with id
+ * @returns {string} Signed token
+ */
+function generateTwoFactorChallengeToken(user) {
+  return jwt.sign(
+    { userId: user.id, type: 'two_factor_challenge' },
+    ACCOUNT_TOKEN_SECRET(),
+    { expiresIn: TWO_FACTOR_CHALLENGE_TTL }
+  );
+}
+
+/**
+ * Verify an account token and return its payload. Throws a JsonWebTokenError
+ * (or TokenExpiredError) when the token is invalid, expired or of another type.
+ * @param {string} token - Token from the emailed link or the login response
+ * @param {'password_reset'|'email_verification'|'two_factor_challenge'} type - Expected token type
+ * @returns {Object} Decoded payload
+ */
+function verifyAccountToken(token, type) {
+  const decoded = jwt.verify(token, ACCOUNT_TOKEN_SECRET());
+
+  if (decoded.type !== type) {
+    throw new jwt.JsonWebTokenError(`Not a ${type} token`);
+  }
+
+  return decoded;
+}
+
+module.exports = {
+  PASSWORD_RESET_TTL,
+  EMAIL_VERIFICATION_TTL,
+  passwordFingerprint,
+  generatePasswordResetToken,
+  generateEmailVerificationToken,
+  generateTwoFactorChallengeToken,
+  verifyAccountToken
+};
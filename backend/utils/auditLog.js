@@ -0,0 +1,138 @@
+/**
+ * Append-only audit trail of privileged actions. Routes call recordAudit once the action has
+ * happened; pass the transaction client when the change itself runs in a transaction.
+ */
+
+const db = require('../config/database');
+
+// Longest message body kept in an audit entry
+const MAX_AUDIT_TEXT_LENGTH = 2000;
+
+const AUDIT_ACTIONS = [
+  'bot.toggle',
+  'traveler.message.send',
+  'traveler.dm.send',
+  'conversation.accept',
+  'conversation.export',
+  'inquiry.status.update',
+  'inquiry.reassign',
+  'inquiry.delete',
+  'inquiry.import',
+  'inquiry.export',
+  'invite.create',
+  'invite.revoke',
+  'session.revoke',
+  'user.sessions.revoke',
+  'user.update',
+  'user.deactivate',
+  'user.reactivate',
+  'user.password.reset',
+  'user.twilio.provision'
+];
+
+// Columns returned by audit listings and exports (alias `a`)
+const AUDIT_SELECT_COLUMNS = `
+  a.id, a.created_at, a.actor_id, a.actor_email, a.actor_name, a.actor_role, a.action,
+  a.target_type, a.target_id, a.conversation_sid, a.before, a.after, a.metadata, a.ip_address`;
+
+const toJson = (value) => (value === undefined || value === null ? null : JSON.stringify(value));
+
+/**
+ * Trim free text (e.g. a message sent to a traveler) before it is stored
+ * @param {string} text - Text to keep
+ * @returns {string|null} Text, cut to MAX_AUDIT_TEXT_LENGTH
+ */
+function truncateAuditText(text) {
+  if (typeof text !== 'string') return null;
+  return text.length > MAX_AUDIT_TEXT_LENGTH ? `${text.slice(0, MAX_AUDIT_TEXT_LENGTH)}…` : text;
+}
+
+/**
+ * Write an audit entry for the signed-in user's action
+ * @param {Object} queryable - db module or a transaction client
+ * @param {Object} req - Express request; `req.user` is the actor
+ * @param {Object} entry
+ * @param {string} entry.action - One of AUDIT_ACTIONS
+ * @param {string} [entry.targetType] - e.g. 'inquiry', 'conversation', 'invite', 'session', 'user'
+ * @param {string|number} [entry.targetId] - ID of the target
+ * @param {string} [entry.conversationSid] - Twilio conversation the action concerns
+ * @param {Object} [entry.before] - Relevant values before the change
+ * @param {Object} [entry.after] - Relevant values after the change
+ * @param {Object} [entry.metadata] - Extra context
+ * @returns {Promise<void>}
+ */
+async function recordAudit(queryable, req, { action, targetType, targetId, conversationSid, before, after, metadata }) {
+  if (!AUDIT_ACTIONS.includes(action)) {
+    throw new Error(`Unknown audit action "${action}"`);
+  }
+
+  const actor = req.user || {};
+
+  await queryable.query(
+    `INSERT INTO audit_log
+       (actor_id, actor_email, actor_name, actor_role, action, target_type, target_id,
+        conversation_sid, before, after, metadata, ip_address)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)`,
+    [
+      actor.id || null,
+      actor.email || null,
+      actor.name || null,
+      actor.role || null,
+      action,
+      targetType || null,
+      targetId === undefined || targetId === null ? null : String(targetId),
+      conversationSid || null,
+      toJson(before),
+      toJson(after),
+      toJson(metadata),
+      req.ip || null
+    ]
+  );
+}
+
+/**
+ * Audit an action whose effect already happened outside the database (e.g. a Make.com webhook).
+ * A failed write is logged rather than turned into an error for an action that did succeed.
+ * @param {Object} req - Express request
+ * @param {Object} entry - See recordAudit
+ * @returns {Promise<void>}
+ */
+async function recordAuditSafely(req, entry) {
+  try {
+    await recordAudit(db, req, entry);
+  } catch (error) {
+    console.error(`❌ Failed to write audit entry for ${entry.action}:`, error);
+  }
+}
+
+/**
+ * Shape an audit row for API responses
+ * @param {Object} row - Row selected with AUDIT_SELECT_COLUMNS
+ * @returns {Object} Audit entry for the client
+ */
+function toAuditEntryResponse(row) {
+  return {
+    id: String(row.id),
+    createdAt: row.created_at,
+    actor: row.actor_id || row.actor_email
+      ? { id: row.actor_id, email: row.actor_email, name: row.actor_name, role: row.actor_role }
+      : null,
+    action: row.action,
+    targetType: row.target_type,
+    targetId: row.target_id,
+    conversationSid: row.conversation_sid,
+    before: row.before,
+    after: row.after,
+    metadata: row.metadata,
+    ipAddress: row.ip_address
+  };
+}
+
+module.exports = {
+  AUDIT_ACTIONS,
+  AUDIT_SELECT_COLUMNS,
+  truncateAuditText,
+  recordAudit,
+  recordAuditSafely,
+  toAuditEntryResponse
+};
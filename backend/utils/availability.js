@@ -0,0 +1,196 @@
+/**
+ * Expert availability: a weekly schedule in the expert's timezone, a manual away/available
+ * override and out-of-office date ranges. Out of office wins over the override, and the override
+ * wins over the schedule. Experts without a schedule count as always on shift.
+ */
+
+const WEEKDAYS = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'];
+
+// Manual states an expert can set; null follows the schedule
+const AVAILABILITY_OVERRIDES = ['away', 'available'];
+
+const MAX_SHIFTS_PER_DAY = 4;
+const MAX_TIME_OFF_NOTE_LENGTH = 200;
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$|^24:00$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Columns needed by toAvailability, for SELECTs over users (alias `u`). Time off that ended
+// more than a day ago is left out; the extra day covers timezones ahead of the database.
+const AVAILABILITY_COLUMNS_SQL = `u.timezone, u.weekly_schedule, u.availability_override,
+  (SELECT COALESCE(json_agg(json_build_object('startsOn', t.starts_on, 'endsOn', t.ends_on) ORDER BY t.starts_on), '[]'::json)
+   FROM expert_time_off t
+   WHERE t.user_id = u.id AND t.ends_on >= CURRENT_DATE - 1) AS time_off`;
+
+const toMinutes = (time) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Whether a string is an IANA timezone this server knows
+ * @param {string} timeZone - e.g. "Europe/Berlin"
+ * @returns {boolean}
+ */
+function isValidTimeZone(timeZone) {
+  if (typeof timeZone !== 'string' || !timeZone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Check a weekly schedule from a request body and sort each day's shifts
+ * @param {Object|null} schedule - `{ mon: [{ start: "09:00", end: "17:00" }], ... }`; null for no schedule
+ * @returns {{ schedule: Object|null }|{ error: string }}
+ */
+function normalizeSchedule(schedule) {
+  if (schedule === null) return { schedule: null };
+  if (typeof schedule !== 'object' || Array.isArray(schedule)) {
+    return { error: 'Schedule must be an object keyed by weekday' };
+  }
+
+  const normalized = {};
+  for (const [day, shifts] of Object.entries(schedule)) {
+    if (!WEEKDAYS.includes(day)) {
+      return { error: `Unknown weekday "${day}". Use one of: ${WEEKDAYS.join(', ')}` };
+    }
+    if (!Array.isArray(shifts) || shifts.length > MAX_SHIFTS_PER_DAY) {
+      return { error: `Each weekday takes a list of up to ${MAX_SHIFTS_PER_DAY} shifts` };
+    }
+
+    const sorted = [...shifts].sort((a, b) => String(a?.start).localeCompare(String(b?.start)));
+    for (const [index, shift] of sorted.entries()) {
+      if (!shift || !TIME_PATTERN.test(shift.start) || !TIME_PATTERN.test(shift.end) || shift.start >= shift.end) {
+        return { error: `Shifts on ${day} need a start before their end, as HH:MM` };
+      }
+      if (index > 0 && shift.start < sorted[index - 1].end) {
+        return { error: `Shifts on ${day} overlap` };
+      }
+    }
+
+    if (sorted.length > 0) {
+      normalized[day] = sorted.map(({ start, end }) => ({ start, end }));
+    }
+  }
+
+  return { schedule: normalized };
+}
+
+/**
+ * Whether a string is a calendar date as YYYY-MM-DD
+ * @param {string} value
+ * @returns {boolean}
+ */
+function isValidDate(value) {
+  if (typeof value !== 'string' || !DATE_PATTERN.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+/**
+ * Weekday, minutes since midnight and calendar date of a moment in a timezone
+ * @param {Date} now
+ * @param {string} timeZone
+ * @returns {{ weekday: string, minutes: number, date: string }}
+ */
+function getLocalTime(now, timeZone) {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      weekday: 'short',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23'
+    }).formatToParts(now).map(part => [part.type, part.value])
+  );
+
+  return {
+    weekday: parts.weekday.toLowerCase(),
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+    date: `${parts.year}-${parts.month}-${parts.day}`
+  };
+}
+
+// First shift starting after `local`, looking up to a week ahead
+const findNextShift = (schedule, local) => {
+  const today = WEEKDAYS.indexOf(local.weekday);
+
+  for (let offset = 0; offset <= 7; offset++) {
+    const weekday = WEEKDAYS[(today + offset) % 7];
+    const shift = (schedule[weekday] || []).find(candidate => offset > 0 || toMinutes(candidate.start) > local.minutes);
+    if (shift) return { weekday, start: shift.start };
+  }
+  return null;
+};
+
+/**
+ * Current availability of an expert
+ * @param {Object} settings
+ * @param {string} [settings.timezone] - IANA timezone; UTC when missing or unknown
+ * @param {Object|null} [settings.schedule] - Weekly schedule; null means always on shift
+ * @param {string|null} [settings.override] - 'away', 'available' or null
+ * @param {Array<{ startsOn: string, endsOn: string }>} [settings.timeOff] - Out-of-office ranges
+ * @param {Date} [now]
+ * @returns {{ state: string, available: boolean, manual: boolean, until: string|null, nextShift: Object|null }}
+ *   `state` is 'available', 'away', 'off_shift' or 'out_of_office'. `until` is the last out-of-office
+ *   day or the end of the current shift; `nextShift` is the next shift start when off shift.
+ */
+function getAvailability({ timezone, schedule = null, override = null, timeOff = [] }, now = new Date()) {
+  const local = getLocalTime(now, isValidTimeZone(timezone) ? timezone : 'UTC');
+  const status = { state: 'available', available: true, manual: false, until: null, nextShift: null };
+
+  const absence = timeOff.find(range => range.startsOn <= local.date && local.date <= range.endsOn);
+  if (absence) {
+    return { ...status, state: 'out_of_office', available: false, until: absence.endsOn };
+  }
+
+  if (override === 'away') {
+    return { ...status, state: 'away', available: false, manual: true };
+  }
+  if (override === 'available' || !schedule) {
+    return { ...status, manual: override === 'available' };
+  }
+
+  const shift = (schedule[local.weekday] || [])
+    .find(candidate => toMinutes(candidate.start) <= local.minutes && local.minutes < toMinutes(candidate.end));
+  if (shift) {
+    return { ...status, until: shift.end };
+  }
+
+  return { ...status, state: 'off_shift', available: false, nextShift: findNextShift(schedule, local) };
+}
+
+/**
+ * Availability of a users row selected with AVAILABILITY_COLUMNS_SQL
+ * @param {Object} row
+ * @param {Date} [now]
+ */
+function toAvailability(row, now = new Date()) {
+  return getAvailability({
+    timezone: row.timezone,
+    schedule: row.weekly_schedule,
+    override: row.availability_override,
+    timeOff: row.time_off || []
+  }, now);
+}
+
+module.exports = {
+  WEEKDAYS,
+  AVAILABILITY_OVERRIDES,
+  MAX_SHIFTS_PER_DAY,
+  MAX_TIME_OFF_NOTE_LENGTH,
+  AVAILABILITY_COLUMNS_SQL,
+  isValidTimeZone,
+  isValidDate,
+  normalizeSchedule,
+  getLocalTime,
+  getAvailability,
+  toAvailability
+};
@@ -0,0 +1,53 @@
+/**
+ * Customer email and phone rules, shared by inquiry creation, intake and bulk import.
+ * The email rule matches the one the dashboard applies in InquiryCreator.
+ */
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Check an email address
+ * @param {string} email - Address as entered
+ * @returns {boolean} Whether it looks deliverable
+ */
+function isValidEmail(email) {
+  return typeof email === 'string' && EMAIL_PATTERN.test(email.trim());
+}
+
+/**
+ * Check a phone number for SMS: international format, formatting characters allowed
+ * @param {string} phone - Number as entered; empty is allowed since the phone is optional
+ * @returns {boolean} Whether it can be used
+ */
+function validatePhoneNumber(phone) {
+  if (!phone) return true; // Optional field
+
+  // Must start with + and have at least 10 digits
+  return /^\+[1-9]\d{8,14}$/.test(normalizePhone(phone));
+}
+
+/**
+ * Email in the form used to spot the same customer twice
+ * @param {string} email - Address as entered
+ * @returns {string} Trimmed, lowercase address
+ */
+function normalizeEmail(email) {
+  return String(email || '').trim().toLowerCase();
+}
+
+/**
+ * Phone number without formatting, e.g. "+1 (555) 010-2000" -> "+15550102000"
+ * @param {string} phone - Number as entered
+ * @returns {string} Digits and a leading +
+ */
+function normalizePhone(phone) {
+  return String(phone || '').replace(/[^\d+]/g, '');
+}
+
+module.exports = {
+  EMAIL_PATTERN,
+  isValidEmail,
+  validatePhoneNumber,
+  normalizeEmail,
+  normalizePhone
+};
@@ -0,0 +1,49 @@
+/**
+ * CSV helpers for downloads. Output is RFC 4180 with CRLF line endings and a UTF-8 BOM so
+ * spreadsheet apps pick the right encoding.
+ */
+
+// Spreadsheets run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+// Numbers and phone numbers such as "+1 (555) 123-4567" start with + or - but cannot call anything
+const NUMBER_OR_PHONE = /^[+-]\d[\d ().-]*$/;
+
+/**
+ * Quote one value for a CSV cell
+ * @param {*} value - Cell value; objects are written as JSON, null/undefined as empty
+ * @returns {string} Escaped cell
+ */
+function escapeCsvValue(value) {
+  if (value === null || value === undefined) return '';
+
+  let text = value instanceof Date
+    ? value.toISOString()
+    : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text) && !NUMBER_OR_PHONE.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Build a CSV document
+ * @param {Array<{header: string, value: function(Object): *}>} columns - Column headers and accessors
+ * @param {Object[]} rows - Records to write
+ * @returns {string} CSV text
+ */
+function toCsv(columns, rows) {
+  const lines = [columns.map(column => escapeCsvValue(column.header)).join(',')];
+
+  rows.forEach(row => {
+    lines.push(columns.map(column => escapeCsvValue(column.value(row))).join(','));
+  });
+
+  return `\uFEFF${lines.join('\r\n')}\r\n`;
+}
+
+module.exports = {
+  escapeCsvValue,
+  toCsv
+};
@@ -0,0 +1,38 @@
+/**
+ * Skill and region tags on expert profiles, matched by the skill_region assignment strategy.
+ * Tags are compared as stored: lowercase, with inner whitespace turned into dashes.
+ */
+
+const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 40;
+
+/**
+ * Normalize one tag
+ * @param {string} tag - Tag as typed, e.g. " South East  Asia"
+ * @returns {string} Normalized tag, e.g. "south-east-asia"; empty when nothing is left
+ */
+function normalizeTag(tag) {
+  return String(tag).trim().toLowerCase().replace(/\s+/g, '-');
+}
+
+/**
+ * Normalize a tag list from a request body
+ * @param {string[]|string} value - Array of tags or a comma-separated string
+ * @returns {string[]|null} Unique normalized tags, or null when the value is not a valid tag list
+ */
+function normalizeTags(value) {
+  const raw = typeof value === 'string' ? value.split(',') : value;
+  if (!Array.isArray(raw) || raw.some(tag => typeof tag !== 'string')) return null;
+
+  const tags = [...new Set(raw.map(normalizeTag).filter(Boolean))];
+  if (tags.length > MAX_TAGS || tags.some(tag => tag.length > MAX_TAG_LENGTH)) return null;
+
+  return tags;
+}
+
+module.exports = {
+  MAX_TAGS,
+  MAX_TAG_LENGTH,
+  normalizeTag,
+  normalizeTags
+};
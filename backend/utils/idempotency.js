@@ -0,0 +1,82 @@
+/**
+ * Idempotency helpers for routes with side effects (e.g. sending a message).
+ * Clients send an `Idempotency-Key` header; repeated requests with the same key
+ * get the first request's result instead of repeating the side effect.
+ */
+
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+const MAX_ENTRIES = 10000;
+const MAX_KEY_LENGTH = 255;
+
+// scopedKey -> { promise, expiresAt }
+const entries = new Map();
+
+/**
+ * Read the idempotency key from the request header (or body as a fallback)
+ * @param {Object} req - Express request
+ * @returns {string|null} The trimmed key, or null when none was sent
+ */
+function getIdempotencyKey(req) {
+  const key = req.get('Idempotency-Key') || (req.body && req.body.idempotencyKey);
+  if (typeof key !== 'string' || !key.trim()) {
+    return null;
+  }
+  return key.trim();
+}
+
+/**
+ * Check that a key is usable
+ * @param {string} key - Idempotency key
+ * @returns {boolean} True when the key is within the allowed length
+ */
+function isValidIdempotencyKey(key) {
+  return key.length > 0 && key.length <= MAX_KEY_LENGTH;
+}
+
+function pruneExpired() {
+  const now = Date.now();
+  for (const [key, entry] of entries) {
+    if (entry.expiresAt <= now) {
+      entries.delete(key);
+    }
+  }
+
+  // Map iteration follows insertion order, so the oldest keys go first
+  while (entries.size > MAX_ENTRIES) {
+    entries.delete(entries.keys().next().value);
+  }
+}
+
+/**
+ * Run an operation at most once per key. Concurrent and repeated calls with the
+ * same key share the first call's result. Failed operations are forgotten so the
+ * client can retry with the same key.
+ * @param {string} scopedKey - Key scoped to the caller (e.g. `${userId}:${key}`)
+ * @param {Function} operation - Async function performing the side effect
+ * @param {number} ttlMs - How long a result is remembered
+ * @returns {Promise<{result: any, replayed: boolean}>}
+ */
+async function runOnce(scopedKey, operation, ttlMs = DEFAULT_TTL_MS) {
+  pruneExpired();
+
+  const existing = entries.get(scopedKey);
+  if (existing && existing.expiresAt > Date.now()) {
+    return { result: await existing.promise, replayed: true };
+  }
+
+  const promise = Promise.resolve().then(operation);
+  entries.set(scopedKey, { promise, expiresAt: Date.now() + ttlMs });
+
+  try {
+    return { result: await promise, replayed: false };
+  } catch (error) {
+    entries.delete(scopedKey);
+    throw error;
+  }
+}
+
+module.exports = {
+  getIdempotencyKey,
+  isValidIdempotencyKey,
+  runOnce
+};
@@ -0,0 +1,113 @@
+/**
+ * Bulk inquiry import. The dashboard reads the spreadsheet, maps its columns and sends the
+ * rows in small batches; each row is checked here before anything is created.
+ */
+
+const { isValidEmail, validatePhoneNumber, normalizeEmail, normalizePhone } = require('./contactDetails');
+const { MAX_TAGS, MAX_TAG_LENGTH, normalizeTag, normalizeTags } = require('./expertTags');
+
+// Rows accepted per request; the dashboard sends larger files in several batches
+const MAX_IMPORT_BATCH_SIZE = 25;
+
+// Normalized customer email and phone of an inquiry (alias `i`), as getDuplicateKeys has them;
+// both expressions are indexed
+const CUSTOMER_EMAIL_KEY_SQL = `lower(trim(i.customer_email))`;
+const CUSTOMER_PHONE_KEY_SQL = `regexp_replace(coalesce(i.customer_phone, ''), '[^0-9+]', '', 'g')`;
+
+const MAX_NAME_LENGTH = 200;
+const MAX_MESSAGE_LENGTH = 5000;
+
+// Outcome of one row
+const IMPORT_ROW_STATUSES = ['ready', 'created', 'invalid', 'duplicate', 'failed'];
+
+/**
+ * Pause between two created inquiries, so a large import does not hit Twilio rate limits
+ * @returns {number} Milliseconds, from IMPORT_THROTTLE_MS (default 500)
+ */
+function getImportThrottleMs() {
+  const value = parseInt(process.env.IMPORT_THROTTLE_MS, 10);
+  return Number.isNaN(value) || value < 0 ? 500 : value;
+}
+
+const trimText = (value) => (typeof value === 'string' ? value.trim() : '');
+
+/**
+ * Check one row and put it in the shape POST /api/inquiries takes
+ * @param {Object} row - Row from the request: `row` (spreadsheet row number) and CreateInquiryRequest fields
+ * @returns {{row: number, value: Object, errors: string[]}} Normalized fields and every problem found
+ */
+function validateImportRow(row) {
+  const errors = [];
+  const value = {
+    customerName: trimText(row.customerName),
+    customerEmail: trimText(row.customerEmail),
+    customerPhone: trimText(row.customerPhone) || undefined,
+    message: trimText(row.message),
+    skills: [],
+    region: null
+  };
+
+  if (!value.customerName) {
+    errors.push('Customer name is required');
+  } else if (value.customerName.length > MAX_NAME_LENGTH) {
+    errors.push(`Customer name must be at most ${MAX_NAME_LENGTH} characters`);
+  }
+
+  if (!value.customerEmail) {
+    errors.push('Email is required');
+  } else if (!isValidEmail(value.customerEmail)) {
+    errors.push('Email address is not valid');
+  }
+
+  if (value.customerPhone && !validatePhoneNumber(value.customerPhone)) {
+    errors.push('Phone number must be in international format (e.g., +1234567890)');
+  }
+
+  if (!value.message) {
+    errors.push('Message is required');
+  } else if (value.message.length > MAX_MESSAGE_LENGTH) {
+    errors.push(`Message must be at most ${MAX_MESSAGE_LENGTH} characters`);
+  }
+
+  if (row.skills !== undefined && row.skills !== '') {
+    const skills = normalizeTags(row.skills);
+    if (!skills) {
+      errors.push(`Skills must be up to ${MAX_TAGS} tags of at most ${MAX_TAG_LENGTH} characters`);
+    } else {
+      value.skills = skills;
+    }
+  }
+
+  const region = trimText(row.region);
+  if (region) {
+    value.region = normalizeTag(region);
+    if (value.region.length > MAX_TAG_LENGTH) {
+      errors.push(`Region must be at most ${MAX_TAG_LENGTH} characters`);
+    }
+  }
+
+  return { row: Number(row.row) || 0, value, errors };
+}
+
+/**
+ * Keys under which two rows count as the same customer: the email and, when given, the phone
+ * @param {{customerEmail: string, customerPhone?: string}} value - Validated row
+ * @returns {string[]} Duplicate keys
+ */
+function getDuplicateKeys(value) {
+  const keys = [`email:${normalizeEmail(value.customerEmail)}`];
+  if (value.customerPhone) {
+    keys.push(`phone:${normalizePhone(value.customerPhone)}`);
+  }
+  return keys;
+}
+
+module.exports = {
+  MAX_IMPORT_BATCH_SIZE,
+  IMPORT_ROW_STATUSES,
+  CUSTOMER_EMAIL_KEY_SQL,
+  CUSTOMER_PHONE_KEY_SQL,
+  getImportThrottleMs,
+  validateImportRow,
+  getDuplicateKeys
+};
@@ -0,0 +1,140 @@
+/**
+ * Filters and sort order for GET /api/inquiries. Builds a WHERE clause over
+ * inquiries (alias `i`) from the query string; every filter is backed by an
+ * index from the inquiry_search migration.
+ */
+
+const { INQUIRY_STATUSES } = require('./inquiryStatus');
+
+// Sort key in the query string -> ORDER BY expression
+const INQUIRY_SORTS = {
+  created_at: 'i.created_at',
+  updated_at: 'i.updated_at',
+  customer_name: 'lower(i.customer_name)',
+  status: 'i.status'
+};
+
+const DEFAULT_SORT = 'created_at';
+
+// expertId value for inquiries nobody is assigned to
+const UNASSIGNED_EXPERT = 'unassigned';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const MAX_SEARCH_LENGTH = 200;
+
+const DATE_FILTERS = [
+  ['createdFrom', 'i.created_at', '>='],
+  ['createdTo', 'i.created_at', '<='],
+  ['updatedFrom', 'i.updated_at', '>='],
+  ['updatedTo', 'i.updated_at', '<=']
+];
+
+/**
+ * Prefix query for to_tsquery: every word has to match the start of a word,
+ * e.g. "ann smi" -> "'ann':* & 'smi':*". Null when nothing searchable is left.
+ */
+const toPrefixTsQuery = (text) => {
+  const words = text
+    .replace(/[^\p{L}\p{N}@.+_-]+/gu, ' ')
+    .split(/\s+/)
+    .map(word => word.replace(/^[^\p{L}\p{N}]+/u, ''))
+    .filter(Boolean);
+
+  return words.length > 0 ? words.map(word => `'${word}':*`).join(' & ') : null;
+};
+
+// ILIKE pattern matching `text` anywhere
+const toContainsPattern = (text) => `%${text.replace(/[\\%_]/g, '\\$&')}%`;
+
+/**
+ * { where, params, orderBy } for the query string, or { error } when a value is invalid.
+ * Users without inquiry.viewAll only ever see their own inquiries, whatever expertId says.
+ */
+const buildInquiryFilter = (query, { userId, viewAll }) => {
+  const conditions = [];
+  const params = [];
+  const addCondition = (sql, ...values) => {
+    let index = 0;
+    conditions.push(sql.replace(/\?/g, () => {
+      params.push(values[index++]);
+      return `$${params.length}`;
+    }));
+  };
+
+  if (!viewAll) {
+    addCondition('i.assigned_expert_id = ?', userId);
+  } else if (query.expertId === UNASSIGNED_EXPERT) {
+    conditions.push('i.assigned_expert_id IS NULL');
+  } else if (query.expertId) {
+    if (typeof query.expertId !== 'string' || !UUID_PATTERN.test(query.expertId)) {
+      return { error: `Invalid expertId. Must be an expert id or "${UNASSIGNED_EXPERT}"` };
+    }
+    // Compare as uuid so the index on assigned_expert_id is used
+    addCondition('i.assigned_expert_id = ?::uuid', query.expertId);
+  }
+
+  const search = typeof query.q === 'string' ? query.q.trim() : '';
+  if (search.length > MAX_SEARCH_LENGTH) {
+    return { error: `Search must be at most ${MAX_SEARCH_LENGTH} characters` };
+  }
+  if (search) {
+    // Whole words through the full-text index, fragments of emails and phone numbers through trigrams
+    const tsQuery = toPrefixTsQuery(search);
+    const pattern = toContainsPattern(search);
+    if (tsQuery) {
+      addCondition(
+        `(i.search_vector @@ to_tsquery('simple', ?) OR i.customer_email ILIKE ? OR i.customer_phone ILIKE ?)`,
+        tsQuery, pattern, pattern
+      );
+    } else {
+      addCondition('(i.customer_email ILIKE ? OR i.customer_phone ILIKE ?)', pattern, pattern);
+    }
+  }
+
+  if (query.status) {
+    const statuses = String(query.status).split(',').map(status => status.trim()).filter(Boolean);
+    const invalid = statuses.find(status => !INQUIRY_STATUSES.includes(status));
+    if (invalid) {
+      return { error: `Invalid status "${invalid}". Must be one of: ${INQUIRY_STATUSES.join(', ')}` };
+    }
+    if (statuses.length > 0) {
+      addCondition('i.status = ANY(?::text[])', statuses);
+    }
+  }
+
+  for (const [key, column, operator] of DATE_FILTERS) {
+    if (query[key]) {
+      const date = new Date(query[key]);
+      if (Number.isNaN(date.getTime())) {
+        return { error: `Invalid ${key} date` };
+      }
+      addCondition(`${column} ${operator} ?`, date.toISOString());
+    }
+  }
+
+  const sort = query.sort || DEFAULT_SORT;
+  if (!Object.prototype.hasOwnProperty.call(INQUIRY_SORTS, sort)) {
+    return { error: `Invalid sort. Must be one of: ${Object.keys(INQUIRY_SORTS).join(', ')}` };
+  }
+  const order = query.order || 'desc';
+  if (order !== 'asc' && order !== 'desc') {
+    return { error: 'Invalid order. Must be asc or desc' };
+  }
+
+  return {
+    where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '',
+    params,
+    // id keeps pages stable when sort values tie
+    orderBy: `ORDER BY ${INQUIRY_SORTS[sort]} ${order.toUpperCase()}, i.id ${order.toUpperCase()}`
+  };
+};
+
+module.exports = {
+  INQUIRY_SORTS,
+  DEFAULT_SORT,
+  UNASSIGNED_EXPERT,
+  MAX_SEARCH_LENGTH,
+  toPrefixTsQuery,
+  buildInquiryFilter
+};
@@ -0,0 +1,173 @@
+/**
+ * Inquiry lifecycle. Every status change goes through applyStatusTransition, which checks the
+ * transition against INQUIRY_TRANSITIONS and writes a row to inquiry_status_history.
+ */
+
+const INQUIRY_STATUSES = [
+  'new',
+  'assigned',
+  'accepted',
+  'in_progress',
+  'waiting_on_traveler',
+  'resolved',
+  'closed',
+  'reopened'
+];
+
+// Allowed next statuses for each status
+const INQUIRY_TRANSITIONS = {
+  new: ['assigned', 'closed'],
+  assigned: ['accepted', 'closed'],
+  accepted: ['in_progress', 'waiting_on_traveler', 'resolved', 'closed'],
+  in_progress: ['waiting_on_traveler', 'resolved', 'closed'],
+  waiting_on_traveler: ['in_progress', 'resolved', 'closed'],
+  resolved: ['closed', 'reopened'],
+  closed: ['reopened'],
+  reopened: ['assigned', 'in_progress', 'waiting_on_traveler', 'resolved', 'closed']
+};
+
+// Who or what caused a change
+const STATUS_CHANGE_SOURCES = ['user', 'webhook', 'system', 'migration'];
+
+// Statuses an inquiry only reaches once its expert has accepted it
+const ACCEPTED_STATUSES = ['accepted', 'in_progress', 'waiting_on_traveler', 'resolved', 'closed', 'reopened'];
+
+// Statuses an inquiry can be handed to another expert from. Reassignment sends it back to
+// 'assigned' so the new expert has to accept it; it is recorded like any other change.
+const REASSIGNABLE_STATUSES = ['new', 'assigned', 'accepted', 'in_progress', 'waiting_on_traveler', 'reopened'];
+
+// Inquiries still needing work; used in SELECTs over inquiries (alias `i`)
+const OPEN_INQUIRY_SQL = `i.status NOT IN ('resolved', 'closed')`;
+
+const MAX_STATUS_NOTE_LENGTH = 500;
+
+class InvalidStatusTransitionError extends Error {
+  constructor(from, to) {
+    super(`Cannot change status from ${from} to ${to}`);
+    this.name = 'InvalidStatusTransitionError';
+    this.from = from;
+    this.to = to;
+    this.allowed = getAllowedTransitions(from);
+  }
+}
+
+/**
+ * Statuses an inquiry may move to next
+ * @param {string} status - Current status
+ * @returns {string[]} Allowed next statuses; empty for unknown statuses
+ */
+function getAllowedTransitions(status) {
+  return INQUIRY_TRANSITIONS[status] || [];
+}
+
+/**
+ * Whether the state machine allows a change
+ * @param {string} from - Current status
+ * @param {string} to - Requested status
+ * @returns {boolean} True when `to` is an allowed next status of `from`
+ */
+function canTransition(from, to) {
+  return getAllowedTransitions(from).includes(to);
+}
+
+/**
+ * Whether the assigned expert has accepted an inquiry in this status
+ * @param {string} status - Inquiry status
+ * @returns {boolean} True once past acceptance
+ */
+function isAcceptedStatus(status) {
+  return ACCEPTED_STATUSES.includes(status);
+}
+
+/**
+ * Write a status history row. Use directly only for an inquiry's first status, when it is created,
+ * and for reassignment; other changes go through applyStatusTransition.
+ * @param {Object} queryable - db module or a transaction client
+ * @param {Object} change
+ * @param {string} change.inquiryId - Inquiry ID
+ * @param {string|null} change.from - Previous status, or null for the first one
+ * @param {string} change.to - New status
+ * @param {Object} [change.changedBy] - User making the change
+ * @param {string} [change.source] - One of STATUS_CHANGE_SOURCES
+ * @param {string} [change.note] - Why the status changed
+ * @returns {Promise<void>}
+ */
+async function recordStatusHistory(queryable, { inquiryId, from, to, changedBy = null, source = 'user', note = null }) {
+  if (!STATUS_CHANGE_SOURCES.includes(source)) {
+    throw new Error(`Unknown status change source: ${source}`);
+  }
+
+  const trimmedNote = typeof note === 'string' && note.trim() ? note.trim().slice(0, MAX_STATUS_NOTE_LENGTH) : null;
+
+  await queryable.query(
+    `INSERT INTO inquiry_status_history (inquiry_id, from_status, to_status, changed_by, changed_by_name, source, note)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+    [inquiryId, from, to, changedBy?.id || null, changedBy?.name || null, source, trimmedNote]
+  );
+}
+
+/**
+ * Move an inquiry to a new status and record the change. Lock the inquiry row (SELECT … FOR UPDATE)
+ * in the same transaction first so `inquiry.status` is the status actually being replaced.
+ * @param {Object} client - Transaction client
+ * @param {Object} inquiry - Inquiry row with at least `id` and `status`
+ * @param {string} to - New status
+ * @param {Object} [options]
+ * @param {Object} [options.changedBy] - User making the change; omit for webhook and system changes
+ * @param {string} [options.source] - One of STATUS_CHANGE_SOURCES
+ * @param {string} [options.note] - Why the status changed
+ * @returns {Promise<Object>} Updated inquiry row
+ * @throws {InvalidStatusTransitionError} When the state machine does not allow the change
+ */
+async function applyStatusTransition(client, inquiry, to, { changedBy = null, source = 'user', note = null } = {}) {
+  if (!canTransition(inquiry.status, to)) {
+    throw new InvalidStatusTransitionError(inquiry.status, to);
+  }
+
+  const result = await client.query(
+    `UPDATE inquiries
+     SET status = $1, updated_at = CURRENT_TIMESTAMP
+     WHERE id = $2
+     RETURNING id, customer_name, customer_email, customer_phone, message, conversation_sid,
+               assigned_expert_id, status, created_at, updated_at`,
+    [to, inquiry.id]
+  );
+
+  await recordStatusHistory(client, { inquiryId: inquiry.id, from: inquiry.status, to, changedBy, source, note });
+
+  return result.rows[0];
+}
+
+/**
+ * Shape an inquiry_status_history row for API responses
+ * @param {Object} row - History row
+ * @returns {Object} Timeline entry
+ */
+function toStatusHistoryResponse(row) {
+  return {
+    id: String(row.id),
+    fromStatus: row.from_status,
+    toStatus: row.to_status,
+    source: row.source,
+    note: row.note,
+    changedBy: row.changed_by_name ? { id: row.changed_by, name: row.changed_by_name } : null,
+    createdAt: row.created_at
+  };
+}
+
+module.exports = {
+  INQUIRY_STATUSES,
+  INQUIRY_TRANSITIONS,
+  STATUS_CHANGE_SOURCES,
+  ACCEPTED_STATUSES,
+  REASSIGNABLE_STATUSES,
+  OPEN_INQUIRY_SQL,
+  MAX_STATUS_NOTE_LENGTH,
+  InvalidStatusTransitionError,
+  getAllowedTransitions,
+  canTransition,
+  isAcceptedStatus,
+  recordStatusHistory,
+  applyStatusTransition,
+  toStatusHistoryResponse
+};
@@ -0,0 +1,101 @@
+/**
+ * Registration invite helpers. Invite tokens are random, shown to the issuing admin once,
+ * and stored only as a SHA-256 hash.
+ */
+
+const crypto = require('crypto');
+
+const DEFAULT_INVITE_TTL_DAYS = 7;
+const MAX_INVITE_TTL_DAYS = 30;
+
+// Status derived from the timestamps; used in SELECTs over user_invites
+const INVITE_STATUS_SQL = `CASE
+  WHEN ui.used_at IS NOT NULL THEN 'used'
+  WHEN ui.revoked_at IS NOT NULL THEN 'revoked'
+  WHEN ui.expires_at <= CURRENT_TIMESTAMP THEN 'expired'
+  ELSE 'pending'
+END`;
+
+/**
+ * Create a new invite token
+ * @returns {string} URL-safe random token
+ */
+function generateInviteToken() {
+  return crypto.randomBytes(32).toString('base64url');
+}
+
+/**
+ * Hash a token for storage and lookup
+ * @param {string} token - Invite token
+ * @returns {string} Hex SHA-256 digest
+ */
+function hashInviteToken(token) {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Whether anyone may register without an invite (ALLOW_OPEN_REGISTRATION=true).
+ * Open registrations always get the expert role.
+ * @returns {boolean} True when open registration is enabled
+ */
+function isOpenRegistrationEnabled() {
+  return process.env.ALLOW_OPEN_REGISTRATION === 'true';
+}
+
+/**
+ * Find an invite that can still be used
+ * @param {Object} queryable - db module or a transaction client
+ * @param {string} token - Invite token from the registration link
+ * @param {Object} [options]
+ * @param {boolean} [options.forUpdate] - Lock the row until the transaction ends
+ * @returns {Promise<Object|null>} Invite row, or null when unknown, used, revoked or expired
+ */
+async function findUsableInvite(queryable, token, { forUpdate = false } = {}) {
+  if (typeof token !== 'string' || !token.trim()) {
+    return null;
+  }
+
+  const result = await queryable.query(
+    `SELECT id, email, role, expires_at
+     FROM user_invites
+     WHERE token_hash = $1
+       AND used_at IS NULL
+       AND revoked_at IS NULL
+       AND expires_at > CURRENT_TIMESTAMP
+     ${forUpdate ? 'FOR UPDATE' : ''}`,
+    [hashInviteToken(token.trim())]
+  );
+
+  return result.rows[0] || null;
+}
+
+/**
+ * Shape an invite row for API responses
+ * @param {Object} row - Row selected with INVITE_STATUS_SQL as `status`
+ * @returns {Object} Invite without the token hash
+ */
+function toInviteResponse(row) {
+  return {
+    id: row.id,
+    email: row.email,
+    role: row.role,
+    status: row.status,
+    createdAt: row.created_at,
+    expiresAt: row.expires_at,
+    usedAt: row.used_at,
+    revokedAt: row.revoked_at,
+    createdBy: row.created_by_name ? { name: row.created_by_name, email: row.created_by_email } : null,
+    usedBy: row.used_by_email ? { name: row.used_by_name, email: row.used_by_email } : null
+  };
+}
+
+module.exports = {
+  DEFAULT_INVITE_TTL_DAYS,
+  MAX_INVITE_TTL_DAYS,
+  INVITE_STATUS_SQL,
+  generateInviteToken,
+  hashInviteToken,
+  isOpenRegistrationEnabled,
+  findUsableInvite,
+  toInviteResponse
+};
@@ -30,6 +30,7 @@ function generateFromAttribute(user, messageType = 'user', context = {}) {
   if (user) {
     switch (user.role) {
       case 'admin':
+      case 'supervisor':
         return 'Baboo Team';
       
       case 'expert':
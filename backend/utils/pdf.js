@@ -0,0 +1,187 @@
+/**
+ * Minimal PDF writer for plain text documents such as conversation transcripts. Uses the
+ * standard Helvetica fonts with WinAnsi encoding, so no fonts are embedded; characters outside
+ * that encoding (emoji, most non-Latin scripts) are printed as "?". Check text with
+ * canEncodeWinAnsi first where that loss matters.
+ */
+
+// A4 in points
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+const FOOTER_SIZE = 8;
+
+// Helvetica advance widths (1/1000 em) for ASCII 32-126, from the standard font metrics
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+const DEFAULT_WIDTH = 556;
+// Helvetica-Bold runs about this much wider; close enough for line wrapping
+const BOLD_FACTOR = 1.08;
+
+// WinAnsi codes for the characters it has outside Latin-1
+const WIN_ANSI_EXTRAS = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86,
+  '‡': 0x87, 'ˆ': 0x88, '‰': 0x89, 'Š': 0x8a, '‹': 0x8b, 'Œ': 0x8c,
+  'Ž': 0x8e, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95,
+  '–': 0x96, '—': 0x97, '˜': 0x98, '™': 0x99, 'š': 0x9a, '›': 0x9b,
+  'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f
+};
+
+// WinAnsi code of one character, or null when the encoding does not have it
+const winAnsiCode = (char) => {
+  const code = char.codePointAt(0);
+  if ((code >= 32 && code <= 126) || (code >= 160 && code <= 255)) return code;
+  return WIN_ANSI_EXTRAS[char] || null;
+};
+
+/**
+ * WinAnsi code of each character of a string, "?" for those it cannot show
+ * @param {string} text - Text to encode
+ * @returns {number[]} Byte values
+ */
+function encodeWinAnsi(text) {
+  return [...String(text).replace(/\t/g, '    ')].map(char => winAnsiCode(char) || 63);
+}
+
+/**
+ * Whether encodeWinAnsi can show every character of a string, i.e. prints none of them as "?"
+ * @param {string} text - Text to check; line breaks and tabs are allowed
+ * @returns {boolean} True if it can be encoded
+ */
+function canEncodeWinAnsi(text) {
+  return [...String(text)].every(char => char === '\n' || char === '\r' || char === '\t' || winAnsiCode(char) !== null);
+}
+
+const charWidth = (code) => (code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : DEFAULT_WIDTH);
+
+const textWidth = (codes, size, bold) =>
+  codes.reduce((sum, code) => sum + charWidth(code), 0) * size / 1000 * (bold ? BOLD_FACTOR : 1);
+
+/**
+ * Break encoded text into lines no wider than `maxWidth`, at spaces where possible
+ * @param {number[]} codes - Encoded text without line breaks
+ * @returns {number[][]} Lines
+ */
+function wrapCodes(codes, size, bold, maxWidth) {
+  const lines = [];
+  let line = [];
+  let lastSpace = -1;
+
+  codes.forEach(code => {
+    line.push(code);
+    if (code === 32) lastSpace = line.length - 1;
+
+    if (textWidth(line, size, bold) > maxWidth && line.length > 1) {
+      if (lastSpace > 0) {
+        lines.push(line.slice(0, lastSpace));
+        line = line.slice(lastSpace + 1);
+      } else {
+        lines.push(line.slice(0, -1));
+        line = [code];
+      }
+      lastSpace = line.lastIndexOf(32);
+    }
+  });
+
+  lines.push(line);
+  return lines;
+}
+
+// PDF literal string; bytes outside printable ASCII are written as octal escapes
+const toPdfString = (codes) => `(${codes.map(code => {
+  if (code === 40 || code === 41 || code === 92) return `\\${String.fromCharCode(code)}`;
+  if (code < 32 || code > 126) return `\\${code.toString(8).padStart(3, '0')}`;
+  return String.fromCharCode(code);
+}).join('')})`;
+
+/**
+ * Render paragraphs of text as a PDF document, with page numbers in the footer
+ * @param {Array<{text: string, bold?: boolean, size?: number, spaceBefore?: number, indent?: number}>} blocks -
+ *   Paragraphs in order; `text` may contain line breaks
+ * @param {Object} [options]
+ * @param {string} [options.title] - Document title shown by PDF viewers
+ * @returns {Buffer} PDF file
+ */
+function renderTextPdf(blocks, { title } = {}) {
+  const pages = [];
+  let operations = [];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const newPage = () => {
+    pages.push(operations);
+    operations = [];
+    y = PAGE_HEIGHT - MARGIN;
+  };
+
+  blocks.forEach(block => {
+    const size = block.size || 10;
+    const indent = block.indent || 0;
+    const lineHeight = size * 1.4;
+    const font = block.bold ? 'F2' : 'F1';
+
+    if (y < PAGE_HEIGHT - MARGIN) y -= block.spaceBefore || 0;
+
+    String(block.text || '').split(/\r?\n/).forEach(paragraph => {
+      wrapCodes(encodeWinAnsi(paragraph), size, block.bold, PAGE_WIDTH - 2 * MARGIN - indent).forEach(line => {
+        if (y - lineHeight < MARGIN) newPage();
+        y -= lineHeight;
+        operations.push(`BT /${font} ${size} Tf ${MARGIN + indent} ${y.toFixed(2)} Td ${toPdfString(line)} Tj ET`);
+      });
+    });
+  });
+  pages.push(operations);
+
+  // Objects 1-4 are fixed; each page then takes a page object and a content stream
+  const objects = [];
+  const pageIds = pages.map((_, i) => 5 + i * 2);
+
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+  objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+
+  pages.forEach((pageOperations, i) => {
+    const footer = encodeWinAnsi(`Page ${i + 1} of ${pages.length}`);
+    const footerX = PAGE_WIDTH - MARGIN - textWidth(footer, FOOTER_SIZE, false);
+    const content = [
+      ...pageOperations,
+      `BT /F1 ${FOOTER_SIZE} Tf ${footerX.toFixed(2)} ${MARGIN / 2} Td ${toPdfString(footer)} Tj ET`
+    ].join('\n');
+
+    objects[pageIds[i]] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`;
+    objects[pageIds[i] + 1] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+  });
+
+  const infoId = objects.length;
+  objects[infoId] = `<< /Title ${toPdfString(encodeWinAnsi(title || ''))} /Producer (Baboo Dashboard) >>`;
+
+  // Everything above is ASCII, so string lengths are byte offsets
+  let pdf = '%PDF-1.4\n';
+  const offsets = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = pdf.length;
+    pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    pdf += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(pdf, 'ascii');
+}
+
+module.exports = {
+  encodeWinAnsi,
+  canEncodeWinAnsi,
+  renderTextPdf
+};
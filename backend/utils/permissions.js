@@ -0,0 +1,122 @@
+/**
+ * Permission matrix shared by every route. Routes check named permissions instead of
+ * role names, so adding a role only means adding a row here.
+ * The frontend mirrors this table in src/utils/permissions.ts; keep the two in sync.
+ */
+
+const { isTwoFactorRequired } = require('./twoFactor');
+
+const PERMISSIONS = [
+  'conversation.viewAll',      // Every customer conversation and expert-admin DM
+  'conversation.viewAssigned', // Conversations and DMs the user is part of
+  'message.send',              // Post messages in conversations
+  'inquiry.viewAll',
+  'inquiry.create',
+  'inquiry.accept',            // Accept inquiries offered to the user
+  'inquiry.updateStatus',
+  'inquiry.delete',
+  'inquiry.reassign',          // Hand an inquiry over to another expert
+  'bot.view',
+  'bot.toggle',
+  'traveler.dm.view',
+  'traveler.dm.send',
+  'traveler.message.send',     // Relay messages to travelers through the Make.com webhook
+  'system.webhooks.view',
+  'user.invite',               // Issue and revoke registration invites
+  'user.manage',               // Edit, deactivate and reset the passwords of other users
+  'user.sessions.manage',      // List and revoke other users' login sessions
+  'audit.view'                 // Read and export the audit log
+];
+
+const ROLE_PERMISSIONS = {
+  // Admins do everything except the expert-only inquiry workflow
+  admin: PERMISSIONS.filter(permission => !['conversation.viewAssigned', 'inquiry.accept'].includes(permission)),
+  supervisor: [
+    'conversation.viewAll',
+    'message.send',
+    'inquiry.viewAll',
+    'inquiry.create',
+    'inquiry.updateStatus',
+    'inquiry.reassign',
+    'bot.view',
+    'bot.toggle',
+    'traveler.dm.view',
+    'traveler.dm.send',
+    'traveler.message.send'
+  ],
+  // Read-only access for compliance reviews
+  auditor: [
+    'conversation.viewAll',
+    'inquiry.viewAll',
+    'bot.view',
+    'traveler.dm.view',
+    'audit.view'
+  ],
+  expert: [
+    'conversation.viewAssigned',
+    'message.send',
+    'inquiry.accept',
+    'inquiry.updateStatus'
+  ],
+  bot: [
+    'message.send'
+  ]
+};
+
+const ROLES = Object.keys(ROLE_PERMISSIONS);
+
+/**
+ * Check whether a role name is known
+ * @param {string} role - Role name
+ * @returns {boolean} True for roles in the permission matrix
+ */
+function isValidRole(role) {
+  return Object.prototype.hasOwnProperty.call(ROLE_PERMISSIONS, role);
+}
+
+/**
+ * List the permissions granted to a role
+ * @param {string} role - Role name
+ * @returns {string[]} Permissions, empty for unknown roles
+ */
+function getPermissionsForRole(role) {
+  return isValidRole(role) ? [...ROLE_PERMISSIONS[role]] : [];
+}
+
+/**
+ * Check a user's role against the matrix
+ * @param {Object} user - User row with a `role` field
+ * @param {string} permission - Permission name
+ * @returns {boolean} True when the user's role grants the permission
+ */
+function hasPermission(user, permission) {
+  return !!user && isValidRole(user.role) && ROLE_PERMISSIONS[user.role].includes(permission);
+}
+
+/**
+ * Shape a user row for API responses, including the permissions the UI should honour
+ * @param {Object} user - User row
+ * @returns {Object} Public user fields plus account state flags and `permissions`
+ */
+function toUserResponse(user) {
+  return {
+    id: user.id,
+    email: user.email,
+    name: user.name,
+    role: user.role,
+    emailVerified: Boolean(user.email_verified_at),
+    twoFactorEnabled: Boolean(user.totp_enabled_at),
+    twoFactorSetupRequired: isTwoFactorRequired(user.role) && !user.totp_enabled_at,
+    permissions: getPermissionsForRole(user.role)
+  };
+}
+
+module.exports = {
+  PERMISSIONS,
+  ROLES,
+  ROLE_PERMISSIONS,
+  isValidRole,
+  getPermissionsForRole,
+  hasPermission,
+  toUserResponse
+};
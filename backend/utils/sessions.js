@@ -0,0 +1,171 @@
+/**
+ * Server-side session registry. Every login creates a row in user_sessions and both tokens
+ * carry its id as `sid`, so revoking the row ends the session before the tokens expire.
+ * Refresh tokens are single use: the row keeps the `jti` of the newest one.
+ */
+
+const crypto = require('crypto');
+const jwt = require('jsonwebtoken');
+const db = require('../config/database');
+const { generateToken, generateRefreshToken } = require('../middleware/auth');
+
+const MAX_USER_AGENT_LENGTH = 512;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Columns returned by session listings (alias `s`)
+const SESSION_SELECT_COLUMNS = `
+  s.id, s.user_id, s.user_agent, s.ip_address, s.created_at, s.last_seen_at, s.expires_at`;
+
+// Active = not revoked and not past the refresh token's expiry
+const ACTIVE_SESSION_SQL = 's.revoked_at IS NULL AND s.expires_at > CURRENT_TIMESTAMP';
+
+const requestDetails = (req) => ({
+  userAgent: (req.get('User-Agent') || '').slice(0, MAX_USER_AGENT_LENGTH) || null,
+  ipAddress: req.ip || null
+});
+
+// The session lives exactly as long as its newest refresh token
+const refreshTokenExpiry = (refreshToken) => jwt.decode(refreshToken).exp;
+
+/**
+ * Create a session for a login and sign its tokens
+ * @param {string} userId - User ID
+ * @param {Object} req - Express request (user agent and IP are recorded)
+ * @param {Object} [queryable] - db module or a transaction client
+ * @returns {Promise<{sessionId: string, token: string, refreshToken: string}>}
+ */
+async function startSession(userId, req, queryable = db) {
+  const sessionId = crypto.randomUUID();
+  const refreshTokenId = crypto.randomUUID();
+  const token = generateToken(userId, sessionId);
+  const refreshToken = generateRefreshToken(userId, sessionId, refreshTokenId);
+  const { userAgent, ipAddress } = requestDetails(req);
+
+  await queryable.query(
+    `INSERT INTO user_sessions (id, user_id, user_agent, ip_address, expires_at, refresh_token_id)
+     VALUES ($1, $2, $3, $4, to_timestamp($5), $6)`,
+    [sessionId, userId, userAgent, ipAddress, refreshTokenExpiry(refreshToken), refreshTokenId]
+  );
+
+  return { sessionId, token, refreshToken };
+}
+
+/**
+ * Issue fresh tokens for an active session and push its expiry out. The presented refresh token
+ * must be the session's newest one; an older one means it was copied, so the session is revoked.
+ * @param {Object} decoded - Verified refresh token payload (`sid`, `userId`, `jti`)
+ * @param {Object} req - Express request
+ * @returns {Promise<{token: string, refreshToken: string}|null>} Null when the session has ended
+ */
+async function renewSession(decoded, req) {
+  const { sid: sessionId, userId } = decoded;
+  // Sessions from before rotation have no token id yet; their first refresh sets one
+  const presentedTokenId = decoded.jti || null;
+  const refreshTokenId = crypto.randomUUID();
+  const token = generateToken(userId, sessionId);
+  const refreshToken = generateRefreshToken(userId, sessionId, refreshTokenId);
+  const { userAgent, ipAddress } = requestDetails(req);
+
+  const result = await db.query(
+    `UPDATE user_sessions s
+     SET expires_at = to_timestamp($3),
+         last_seen_at = CURRENT_TIMESTAMP,
+         user_agent = COALESCE($4, s.user_agent),
+         ip_address = COALESCE($5, s.ip_address),
+         refresh_token_id = $6
+     WHERE s.id = $1 AND s.user_id = $2 AND ${ACTIVE_SESSION_SQL}
+       AND s.refresh_token_id IS NOT DISTINCT FROM $7::uuid
+     RETURNING s.id`,
+    [sessionId, userId, refreshTokenExpiry(refreshToken), userAgent, ipAddress, refreshTokenId, presentedTokenId]
+  );
+
+  if (result.rows.length > 0) {
+    return { token, refreshToken };
+  }
+
+  // Revokes nothing when the session had already ended
+  if (await revokeSession(db, sessionId, 'refresh_token_reused', { userId })) {
+    console.warn(`⚠️ Revoked session ${sessionId}: an old refresh token was used again`);
+  }
+  return null;
+}
+
+/**
+ * Revoke one session
+ * @param {Object} queryable - db module or a transaction client
+ * @param {string} sessionId - Session ID
+ * @param {string} reason - Why it ended, e.g. 'logout' or 'revoked_by_admin'
+ * @param {Object} [options]
+ * @param {string} [options.userId] - Only revoke if the session belongs to this user
+ * @returns {Promise<boolean>} True when an active session was revoked
+ */
+async function revokeSession(queryable, sessionId, reason, { userId } = {}) {
+  const result = await queryable.query(
+    `UPDATE user_sessions s
+     SET revoked_at = CURRENT_TIMESTAMP, revoked_reason = $2
+     WHERE s.id = $1 AND ${ACTIVE_SESSION_SQL} AND ($3::uuid IS NULL OR s.user_id = $3)
+     RETURNING s.id`,
+    [sessionId, reason, userId || null]
+  );
+
+  return result.rows.length > 0;
+}
+
+/**
+ * Revoke every active session of a user
+ * @param {Object} queryable - db module or a transaction client
+ * @param {string} userId - User ID
+ * @param {string} reason - Why they ended
+ * @param {Object} [options]
+ * @param {string} [options.exceptSessionId] - Keep this session (usually the caller's own)
+ * @returns {Promise<number>} Number of sessions revoked
+ */
+async function revokeUserSessions(queryable, userId, reason, { exceptSessionId } = {}) {
+  const result = await queryable.query(
+    `UPDATE user_sessions s
+     SET revoked_at = CURRENT_TIMESTAMP, revoked_reason = $2
+     WHERE s.user_id = $1 AND ${ACTIVE_SESSION_SQL} AND ($3::uuid IS NULL OR s.id <> $3)
+     RETURNING s.id`,
+    [userId, reason, exceptSessionId || null]
+  );
+
+  return result.rows.length;
+}
+
+/**
+ * Check that a route parameter is a UUID before it reaches a uuid column
+ * @param {string} value - Candidate ID
+ * @returns {boolean} True for UUIDs
+ */
+function isUuid(value) {
+  return typeof value === 'string' && UUID_PATTERN.test(value);
+}
+
+/**
+ * Shape a session row for API responses
+ * @param {Object} row - Row selected with SESSION_SELECT_COLUMNS
+ * @param {string} [currentSessionId] - The caller's session, flagged as `current`
+ * @returns {Object} Session for the client
+ */
+function toSessionResponse(row, currentSessionId) {
+  return {
+    id: row.id,
+    userAgent: row.user_agent,
+    ipAddress: row.ip_address,
+    createdAt: row.created_at,
+    lastSeenAt: row.last_seen_at,
+    expiresAt: row.expires_at,
+    current: row.id === currentSessionId
+  };
+}
+
+module.exports = {
+  SESSION_SELECT_COLUMNS,
+  ACTIVE_SESSION_SQL,
+  startSession,
+  renewSession,
+  revokeSession,
+  revokeUserSessions,
+  isUuid,
+  toSessionResponse
+};
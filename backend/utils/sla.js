@@ -0,0 +1,139 @@
+/**
+ * Inquiry SLAs. Three clocks run on an open inquiry with an assigned expert:
+ * - accept: from assignment (or reassignment) until the expert accepts
+ * - first_reply: from acceptance until the expert's first message after it
+ * - traveler_wait: from a traveler message until someone on the team answers
+ * Targets come from the environment; a target of 0 turns that clock off. Inquiries that existed
+ * before SLAs were introduced have `sla_clocks_from`, and no clock of theirs starts earlier.
+ */
+
+const { isAcceptedStatus } = require('./inquiryStatus');
+
+const SLA_METRICS = ['accept', 'first_reply', 'traveler_wait'];
+
+const SLA_METRIC_LABELS = {
+  accept: 'Time to accept',
+  first_reply: 'Time to first reply',
+  traveler_wait: 'Traveler wait'
+};
+
+// Environment variable and default target in minutes for each clock
+const SLA_TARGETS = {
+  accept: { env: 'SLA_ACCEPT_MINUTES', defaultMinutes: 30 },
+  first_reply: { env: 'SLA_FIRST_REPLY_MINUTES', defaultMinutes: 60 },
+  traveler_wait: { env: 'SLA_TRAVELER_WAIT_MINUTES', defaultMinutes: 120 }
+};
+
+const SLA_ESCALATIONS = ['notified', 'reassigned'];
+
+// Columns needed by getSlaClocks, for SELECTs over inquiries (alias `i`)
+const SLA_COLUMNS_SQL = `i.last_expert_reply_at, i.traveler_waiting_since, i.sla_clocks_from,
+  (SELECT MAX(h.created_at) FROM inquiry_status_history h WHERE h.inquiry_id = i.id AND h.to_status = 'assigned') AS sla_assigned_at,
+  (SELECT MAX(h.created_at) FROM inquiry_status_history h WHERE h.inquiry_id = i.id AND h.to_status = 'accepted') AS sla_accepted_at`;
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * SLA targets and escalation settings from the environment
+ * @returns {{ targets: Object<string, number>, autoReassign: boolean }} Targets in minutes; 0 is off
+ * @throws {Error} When a target is not a whole number of minutes
+ */
+function getSlaPolicy() {
+  const targets = {};
+
+  for (const [metric, { env, defaultMinutes }] of Object.entries(SLA_TARGETS)) {
+    const raw = process.env[env];
+    const minutes = raw === undefined || raw === '' ? defaultMinutes : Number(raw);
+
+    if (!Number.isInteger(minutes) || minutes < 0) {
+      throw new Error(`${env} must be a whole number of minutes (0 turns the ${metric} SLA off)`);
+    }
+    targets[metric] = minutes;
+  }
+
+  return {
+    targets,
+    // Only missed acceptances are reassigned; the other clocks just alert admins
+    autoReassign: process.env.SLA_AUTO_REASSIGN === 'true'
+  };
+}
+
+const toTime = (value) => (value ? new Date(value).getTime() : null);
+
+/**
+ * SLA clocks running on an inquiry
+ * @param {Object} row - Inquiry row selected with SLA_COLUMNS_SQL, plus `status`, `created_at`
+ *   and `assigned_expert_id`
+ * @param {Object} policy - From getSlaPolicy
+ * @param {Date} [now]
+ * @returns {Array<{ metric: string, startedAt: string, dueAt: string, breached: boolean }>}
+ *   Running clocks; `breached` once `dueAt` has passed
+ */
+function getSlaClocks(row, policy, now = new Date()) {
+  if (!row.assigned_expert_id || ['resolved', 'closed'].includes(row.status)) {
+    return [];
+  }
+
+  const started = {};
+
+  if (['new', 'assigned'].includes(row.status)) {
+    started.accept = toTime(row.sla_assigned_at) || toTime(row.created_at);
+  }
+
+  const acceptedAt = toTime(row.sla_accepted_at);
+  const lastReplyAt = toTime(row.last_expert_reply_at);
+  if (isAcceptedStatus(row.status) && acceptedAt && (!lastReplyAt || lastReplyAt < acceptedAt)) {
+    started.first_reply = acceptedAt;
+  }
+
+  if (row.traveler_waiting_since) {
+    started.traveler_wait = toTime(row.traveler_waiting_since);
+  }
+
+  const clocksFrom = toTime(row.sla_clocks_from) || 0;
+
+  return SLA_METRICS
+    .filter(metric => started[metric] && policy.targets[metric] > 0)
+    .map(metric => {
+      const startedAt = Math.max(started[metric], clocksFrom);
+      const dueAt = startedAt + policy.targets[metric] * MINUTE_MS;
+      return {
+        metric,
+        startedAt: new Date(startedAt).toISOString(),
+        dueAt: new Date(dueAt).toISOString(),
+        breached: now.getTime() >= dueAt
+      };
+    });
+}
+
+/**
+ * Shape an inquiry_sla_breaches row for API responses
+ * @param {Object} row - Breach row, joined with the inquiry's customer_name and conversation_sid
+ * @returns {Object} Breach for the client
+ */
+function toSlaBreachResponse(row) {
+  return {
+    id: String(row.id),
+    inquiryId: row.inquiry_id,
+    customerName: row.customer_name,
+    conversationSid: row.conversation_sid,
+    metric: row.metric,
+    expert: row.expert_name ? { id: row.expert_id, name: row.expert_name } : null,
+    startedAt: row.started_at,
+    dueAt: row.due_at,
+    breachedAt: row.breached_at,
+    escalation: row.escalation,
+    reassignedTo: row.reassigned_to_name ? { id: row.reassigned_to, name: row.reassigned_to_name } : null
+  };
+}
+
+module.exports = {
+  SLA_METRICS,
+  SLA_METRIC_LABELS,
+  SLA_TARGETS,
+  SLA_ESCALATIONS,
+  SLA_COLUMNS_SQL,
+  getSlaPolicy,
+  getSlaClocks,
+  toSlaBreachResponse
+};
@@ -0,0 +1,241 @@
+/**
+ * Conversation transcripts for download: every message with its sender name and time, as HTML,
+ * plain text or PDF.
+ */
+
+const { generateFromAttribute, determineMessageType, getMessageDisplayInfo } = require('./messageUtils');
+const { normalizeEmail, normalizePhone } = require('./contactDetails');
+const { canEncodeWinAnsi, renderTextPdf } = require('./pdf');
+
+const TRANSCRIPT_FORMATS = {
+  html: { contentType: 'text/html; charset=utf-8', extension: 'html' },
+  txt: { contentType: 'text/plain; charset=utf-8', extension: 'txt' },
+  pdf: { contentType: 'application/pdf', extension: 'pdf' }
+};
+
+const DEFAULT_TIME_ZONE = 'UTC';
+
+/**
+ * Whether a string is an IANA time zone the server knows, e.g. "Europe/Berlin"
+ * @param {string} timeZone - Time zone name
+ * @returns {boolean} True if valid
+ */
+function isValidTimeZone(timeZone) {
+  try {
+    new Intl.DateTimeFormat('en-GB', { timeZone });
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Sender name shown for a message: the `from` attribute set when it was sent, else the dashboard
+ * user who wrote it, else the traveler when the author is their phone or email, else the same
+ * fallback the dashboard uses
+ * @param {Object} message - Message as returned by GET /api/conversations/:conversationSid/messages
+ * @param {Object} [context]
+ * @param {Map<string, Object>} [context.usersByEmail] - Dashboard users (name, role) by normalized email
+ * @param {Object} [context.traveler] - Customer of the conversation's inquiry: name, email, phone
+ * @returns {string} Display name
+ */
+function resolveSenderName(message, { usersByEmail = new Map(), traveler = null } = {}) {
+  const author = message.author || '';
+
+  if (message.attributes && message.attributes.from) {
+    return message.attributes.from;
+  }
+
+  const user = usersByEmail.get(normalizeEmail(author));
+  if (user) {
+    return generateFromAttribute(user);
+  }
+
+  if (determineMessageType(author) === 'bot') {
+    return 'Bot';
+  }
+
+  if (traveler && traveler.name) {
+    const isTravelerEmail = traveler.email && normalizeEmail(author) === normalizeEmail(traveler.email);
+    const isTravelerPhone = traveler.phone && normalizePhone(author) === normalizePhone(traveler.phone);
+    if (isTravelerEmail || isTravelerPhone) {
+      return `${traveler.name} - Traveler`;
+    }
+  }
+
+  return getMessageDisplayInfo(message, null).displayName || 'Unknown';
+}
+
+/**
+ * Transcript contents, ready to render
+ * @param {Object} options
+ * @param {string} options.conversationSid - Conversation the messages belong to
+ * @param {string} options.title - Heading, e.g. the traveler's name
+ * @param {Object[]} options.messages - Messages in index order
+ * @param {Object} [options.context] - Passed to resolveSenderName
+ * @param {string} [options.timeZone] - Time zone for message times (default UTC)
+ * @param {string} [options.exportedBy] - Name of the user downloading it
+ * @param {Date} [options.exportedAt] - Download time
+ * @returns {Object} Transcript with `entries` of sender, time and body
+ */
+function buildTranscript({
+  conversationSid,
+  title,
+  messages,
+  context,
+  timeZone = DEFAULT_TIME_ZONE,
+  exportedBy = null,
+  exportedAt = new Date()
+}) {
+  const formatter = new Intl.DateTimeFormat('en-GB', {
+    timeZone,
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+  return {
+    conversationSid,
+    title,
+    timeZone,
+    exportedBy,
+    exportedAt: formatter.format(exportedAt),
+    entries: messages.map(message => ({
+      index: message.index,
+      sender: resolveSenderName(message, context),
+      sentAt: message.dateCreated,
+      time: formatter.format(new Date(message.dateCreated)),
+      body: message.body || (message.type === 'media' ? '[Attachment]' : '')
+    }))
+  };
+}
+
+const describeExport = (transcript) => [
+  `Conversation ${transcript.conversationSid}`,
+  `Exported ${transcript.exportedAt}${transcript.exportedBy ? ` by ${transcript.exportedBy}` : ''}`,
+  `${transcript.entries.length} messages, times in ${transcript.timeZone}`
+];
+
+/**
+ * Plain text transcript
+ * @param {Object} transcript - From buildTranscript
+ * @returns {string} Text document
+ */
+function renderTranscriptText(transcript) {
+  const lines = [transcript.title, ...describeExport(transcript), ''];
+
+  transcript.entries.forEach(entry => {
+    lines.push(`[${entry.time}] ${entry.sender}`);
+    entry.body.split(/\r?\n/).forEach(line => lines.push(`  ${line}`));
+    lines.push('');
+  });
+
+  return lines.join('\n');
+}
+
+const escapeHtml = (text) => String(text)
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
+
+/**
+ * Standalone HTML transcript that prints cleanly
+ * @param {Object} transcript - From buildTranscript
+ * @returns {string} HTML document
+ */
+function renderTranscriptHtml(transcript) {
+  const entries = transcript.entries.map(entry => `    <li>
+      <div class="meta"><span class="sender">${escapeHtml(entry.sender)}</span> <time datetime="${escapeHtml(entry.sentAt)}">${escapeHtml(entry.time)}</time></div>
+      <div class="body">${escapeHtml(entry.body)}</div>
+    </li>`).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(transcript.title)}</title>
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; color: #111827; max-width: 800px; margin: 2rem auto; padding: 0 1rem; }
+    header p { color: #6b7280; margin: 0.25rem 0; font-size: 0.875rem; }
+    ol { list-style: none; padding: 0; margin-top: 1.5rem; }
+    li { border-top: 1px solid #e5e7eb; padding: 0.75rem 0; page-break-inside: avoid; }
+    .meta { font-size: 0.875rem; color: #6b7280; margin-bottom: 0.25rem; }
+    .sender { font-weight: 600; color: #111827; }
+    .body { white-space: pre-wrap; word-wrap: break-word; }
+  </style>
+</head>
+<body>
+  <header>
+    <h1>${escapeHtml(transcript.title)}</h1>
+${describeExport(transcript).map(line => `    <p>${escapeHtml(line)}</p>`).join('\n')}
+  </header>
+  <ol>
+${entries}
+  </ol>
+</body>
+</html>
+`;
+}
+
+// Paragraphs of the PDF transcript
+const toPdfBlocks = (transcript) => {
+  const blocks = [
+    { text: transcript.title, bold: true, size: 16 },
+    { text: describeExport(transcript).join('\n'), size: 9, spaceBefore: 4 }
+  ];
+
+  transcript.entries.forEach(entry => {
+    blocks.push({ text: `${entry.sender}  ·  ${entry.time}`, bold: true, size: 9, spaceBefore: 10 });
+    blocks.push({ text: entry.body, spaceBefore: 2, indent: 8 });
+  });
+
+  return blocks;
+};
+
+/**
+ * Whether the PDF can show the whole transcript. The PDF only has the standard fonts, so emoji
+ * and most non-Latin scripts would come out as "?"; HTML and plain text show everything.
+ * @param {Object} transcript - From buildTranscript
+ * @returns {boolean} True if nothing would be lost
+ */
+function canRenderTranscriptPdf(transcript) {
+  return toPdfBlocks(transcript).every(block => canEncodeWinAnsi(block.text));
+}
+
+/**
+ * PDF transcript
+ * @param {Object} transcript - From buildTranscript
+ * @returns {Buffer} PDF file
+ */
+function renderTranscriptPdf(transcript) {
+  return renderTextPdf(toPdfBlocks(transcript), { title: transcript.title });
+}
+
+/**
+ * Render a transcript in one of TRANSCRIPT_FORMATS
+ * @param {Object} transcript - From buildTranscript
+ * @param {string} format - 'html', 'txt' or 'pdf'
+ * @returns {string|Buffer} File contents
+ */
+function renderTranscript(transcript, format) {
+  if (format === 'html') return renderTranscriptHtml(transcript);
+  if (format === 'txt') return renderTranscriptText(transcript);
+  return renderTranscriptPdf(transcript);
+}
+
+module.exports = {
+  TRANSCRIPT_FORMATS,
+  DEFAULT_TIME_ZONE,
+  isValidTimeZone,
+  resolveSenderName,
+  buildTranscript,
+  renderTranscriptText,
+  renderTranscriptHtml,
+  canRenderTranscriptPdf,
+  renderTranscriptPdf,
+  renderTranscript
+};
@@ -0,0 +1,174 @@
+/**
+ * Two-factor authentication helpers: the role policy, encryption of TOTP secrets
+ * at rest, and single-use recovery codes.
+ */
+
+const crypto = require('crypto');
+const { verifyTotp } = require('./totp');
+
+const TWO_FACTOR_ISSUER = process.env.TWO_FACTOR_ISSUER || 'Baboo Dashboard';
+const RECOVERY_CODE_COUNT = 10;
+
+// Unambiguous characters only, so codes can be read off paper
+const RECOVERY_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+/**
+ * Roles that must enroll before using the dashboard (TWO_FACTOR_REQUIRED_ROLES=admin,supervisor)
+ * @returns {string[]} Role names
+ */
+function getTwoFactorRequiredRoles() {
+  return (process.env.TWO_FACTOR_REQUIRED_ROLES || '')
+    .split(',')
+    .map(role => role.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Whether the policy requires 2FA for a role
+ * @param {string} role - User role
+ * @returns {boolean} True when the role must enroll
+ */
+function isTwoFactorRequired(role) {
+  return getTwoFactorRequiredRoles().includes(role);
+}
+
+const encryptionKey = () => crypto
+  .createHash('sha256')
+  .update(process.env.TWO_FACTOR_ENCRYPTION_KEY || `${process.env.JWT_SECRET}:totp`)
+  .digest();
+
+/**
+ * Encrypt a TOTP secret for storage (AES-256-GCM)
+ * @param {string} secret - Base32 secret
+ * @returns {string} `iv.tag.ciphertext`, each base64url
+ */
+function encryptSecret(secret) {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', encryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+
+  return [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64url')).join('.');
+}
+
+/**
+ * Decrypt a stored TOTP secret
+ * @param {string} stored - Value produced by encryptSecret
+ * @returns {string} Base32 secret
+ */
+function decryptSecret(stored) {
+  const [iv, tag, ciphertext] = stored.split('.').map(part => Buffer.from(part, 'base64url'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', encryptionKey(), iv);
+  decipher.setAuthTag(tag);
+
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+}
+
+/**
+ * Normalize a recovery code as typed (case, spaces and dashes do not matter)
+ * @param {string} code - Code from the user
+ * @returns {string} Normalized code
+ */
+function normalizeRecoveryCode(code) {
+  return String(code || '').toUpperCase().replace(/[\s-]/g, '');
+}
+
+/**
+ * Hash a recovery code for storage and lookup
+ * @param {string} code - Code in any formatting
+ * @returns {string} Hex SHA-256 digest
+ */
+function hashRecoveryCode(code) {
+  return crypto.createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex');
+}
+
+/**
+ * Create a fresh set of recovery codes
+ * @returns {string[]} Codes formatted as XXXXX-XXXXX
+ */
+function generateRecoveryCodes() {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const chars = Array.from(crypto.randomBytes(10), byte => RECOVERY_CODE_ALPHABET[byte % RECOVERY_CODE_ALPHABET.length]);
+    return `${chars.slice(0, 5).join('')}-${chars.slice(5).join('')}`;
+  });
+}
+
+/**
+ * Replace a user's recovery codes
+ * @param {Object} queryable - db module or a transaction client
+ * @param {string} userId - User ID
+ * @returns {Promise<string[]>} The new codes, to be shown once
+ */
+async function replaceRecoveryCodes(queryable, userId) {
+  const codes = generateRecoveryCodes();
+
+  await queryable.query('DELETE FROM user_recovery_codes WHERE user_id = $1', [userId]);
+  await queryable.query(
+    `INSERT INTO user_recovery_codes (user_id, code_hash)
+     SELECT $1, unnest($2::text[])`,
+    [userId, codes.map(hashRecoveryCode)]
+  );
+
+  return codes;
+}
+
+/**
+ * Mark a recovery code as used
+ * @param {Object} queryable - db module or a transaction client
+ * @param {string} userId - User ID
+ * @param {string} code - Code from the user
+ * @returns {Promise<boolean>} True when the code was valid and unused
+ */
+async function consumeRecoveryCode(queryable, userId, code) {
+  const result = await queryable.query(
+    `UPDATE user_recovery_codes
+     SET used_at = CURRENT_TIMESTAMP
+     WHERE user_id = $1 AND code_hash = $2 AND used_at IS NULL
+     RETURNING id`,
+    [userId, hashRecoveryCode(code)]
+  );
+
+  return result.rows.length > 0;
+}
+
+/**
+ * Check a code from the user's authenticator. A code is accepted once: the matching
+ * time step is recorded and codes from that step or earlier are rejected afterwards.
+ * @param {Object} queryable - db module or a transaction client
+ * @param {Object} user - Row with id, totp_secret and totp_last_step
+ * @param {string} code - Code from the user
+ * @returns {Promise<boolean>} True when the code is valid and unused
+ */
+async function verifyUserTotp(queryable, user, code) {
+  if (!user.totp_secret) {
+    return false;
+  }
+
+  const step = verifyTotp(decryptSecret(user.totp_secret), code);
+  if (step === null || (user.totp_last_step !== null && step <= Number(user.totp_last_step))) {
+    return false;
+  }
+
+  const result = await queryable.query(
+    `UPDATE users SET totp_last_step = $2
+     WHERE id = $1 AND (totp_last_step IS NULL OR totp_last_step < $2)
+     RETURNING id`,
+    [user.id, step]
+  );
+
+  return result.rows.length > 0;
+}
+
+module.exports = {
+  TWO_FACTOR_ISSUER,
+  RECOVERY_CODE_COUNT,
+  getTwoFactorRequiredRoles,
+  isTwoFactorRequired,
+  encryptSecret,
+  decryptSecret,
+  normalizeRecoveryCode,
+  hashRecoveryCode,
+  generateRecoveryCodes,
+  replaceRecoveryCodes,
+  consumeRecoveryCode,
+  verifyUserTotp
+};
@@ -1,10 +1,14 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
+import { ConversationStoreProvider } from './contexts/ConversationStoreContext';
 import { AuthPage } from './components/auth/AuthPage';
 import { Dashboard } from './components/dashboard/Dashboard';
+import { getAuthLinkToken } from './utils/authLinks';
 
 function AppContent() {
-  const { isAuthenticated, isLoading } = useAuth();
+  const { isAuthenticated, isLoading, user } = useAuth();
+  // Verification links are handled before the dashboard, whether or not someone is signed in
+  const [emailVerificationToken, setEmailVerificationToken] = useState(() => getAuthLinkToken('emailVerification'));
 
   if (isLoading) {
     return (
@@ -17,13 +21,25 @@ function AppContent() {
     );
   }
 
-  return isAuthenticated ? <Dashboard /> : <AuthPage />;
+  if (emailVerificationToken) {
+    return (
+      <AuthPage
+        emailVerificationToken={emailVerificationToken}
+        onEmailVerificationDone={() => setEmailVerificationToken(null)}
+      />
+    );
+  }
+
+  // Roles under the 2FA policy enroll before they reach the dashboard
+  return isAuthenticated && !user?.twoFactorSetupRequired ? <Dashboard /> : <AuthPage />;
 }
 
 function App() {
   return (
     <AuthProvider>
-      <AppContent />
+      <ConversationStoreProvider>
+        <AppContent />
+      </ConversationStoreProvider>
     </AuthProvider>
   );
 }
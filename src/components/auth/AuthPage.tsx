@@ -1,21 +1,78 @@
-import React, { useState } from 'react';
+import { useState } from 'react';
 import { LoginForm } from './LoginForm';
 import { RegisterForm } from './RegisterForm';
+import { ForgotPasswordForm } from './ForgotPasswordForm';
+import { ResetPasswordForm } from './ResetPasswordForm';
+import { VerifyEmailForm } from './VerifyEmailForm';
+import { TwoFactorForm } from './TwoFactorForm';
+import { TwoFactorSetupRequired } from './TwoFactorSetupRequired';
+import { useAuth } from '../../contexts/AuthContext';
+import { getAuthLinkToken } from '../../utils/authLinks';
 
-export function AuthPage() {
-  const [isLoginMode, setIsLoginMode] = useState(true);
+type AuthMode = 'login' | 'register' | 'forgotPassword' | 'resetPassword';
 
-  const toggleMode = () => setIsLoginMode(!isLoginMode);
+interface AuthPageProps {
+  emailVerificationToken?: string | null;
+  onEmailVerificationDone?: () => void;
+}
+
+export function AuthPage({ emailVerificationToken, onEmailVerificationDone }: AuthPageProps) {
+  const { user, isAuthenticated, twoFactorChallenge } = useAuth();
+  // Invite and reset links open straight on the matching form
+  const [inviteToken] = useState(() => getAuthLinkToken('invite'));
+  const [resetToken] = useState(() => getAuthLinkToken('passwordReset'));
+  const [mode, setMode] = useState<AuthMode>(() => {
+    if (resetToken) return 'resetPassword';
+    if (inviteToken) return 'register';
+    return 'login';
+  });
+
+  const renderForm = () => {
+    if (emailVerificationToken) {
+      return (
+        <VerifyEmailForm
+          verificationToken={emailVerificationToken}
+          onContinue={() => onEmailVerificationDone?.()}
+        />
+      );
+    }
+
+    if (isAuthenticated && user?.twoFactorSetupRequired) {
+      return <TwoFactorSetupRequired />;
+    }
+
+    if (twoFactorChallenge) {
+      return <TwoFactorForm />;
+    }
+
+    switch (mode) {
+      case 'register':
+        return <RegisterForm onToggleMode={() => setMode('login')} inviteToken={inviteToken} />;
+      case 'forgotPassword':
+        return <ForgotPasswordForm onBackToLogin={() => setMode('login')} />;
+      case 'resetPassword':
+        return resetToken ? (
+          <ResetPasswordForm
+            resetToken={resetToken}
+            onBackToLogin={() => setMode('login')}
+            onRequestNewLink={() => setMode('forgotPassword')}
+          />
+        ) : null;
+      default:
+        return (
+          <LoginForm
+            onToggleMode={() => setMode('register')}
+            onForgotPassword={() => setMode('forgotPassword')}
+          />
+        );
+    }
+  };
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50 flex items-center justify-center p-4">
       <div className="w-full max-w-md">
-        {isLoginMode ? (
-          <LoginForm onToggleMode={toggleMode} />
-        ) : (
-          <RegisterForm onToggleMode={toggleMode} />
-        )}
+        {renderForm()}
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
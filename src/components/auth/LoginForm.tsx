@@ -4,13 +4,17 @@ import { useAuth } from '../../contexts/AuthContext';
 
 interface LoginFormProps {
   onToggleMode: () => void;
+  onForgotPassword: () => void;
 }
 
-export function LoginForm({ onToggleMode }: LoginFormProps) {
+export function LoginForm({ onToggleMode, onForgotPassword }: LoginFormProps) {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [error, setError] = useState<string | null>(null);
-  const { login, isLoading } = useAuth();
+  const { login, isLoading, error: authError } = useAuth();
+
+  // Session-level errors (e.g. an expired session) come from the auth context
+  const displayError = error || authError;
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -39,10 +43,10 @@ export function LoginForm({ onToggleMode }: LoginFormProps) {
           <p className="text-gray-600 mt-2">Access your conversation dashboard</p>
         </div>
 
-        {error && (
+        {displayError && (
           <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center gap-3">
             <AlertCircle className="w-5 h-5 text-red-500 flex-shrink-0" />
-            <span className="text-red-700 text-sm">{error}</span>
+            <span className="text-red-700 text-sm">{displayError}</span>
           </div>
         )}
 
@@ -63,9 +67,18 @@ export function LoginForm({ onToggleMode }: LoginFormProps) {
           </div>
 
           <div>
-            <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-2">
-              Password
-            </label>
+            <div className="flex items-center justify-between mb-2">
+              <label htmlFor="password" className="block text-sm font-medium text-gray-700">
+                Password
+              </label>
+              <button
+                type="button"
+                onClick={onForgotPassword}
+                className="text-sm text-blue-600 hover:text-blue-700 transition-colors"
+              >
+                Forgot password?
+              </button>
+            </div>
             <input
               type="password"
               id="password"
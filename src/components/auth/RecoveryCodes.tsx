@@ -0,0 +1,58 @@
+import { useState } from 'react';
+import { Copy, Check, Download } from 'lucide-react';
+import { downloadBlob } from '../../utils/download';
+
+interface RecoveryCodesProps {
+  codes: string[];
+}
+
+// One-time display of recovery codes, with copy and download so they get saved somewhere
+export function RecoveryCodes({ codes }: RecoveryCodesProps) {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(codes.join('\n'));
+      setCopied(true);
+    } catch (err) {
+      console.error('Failed to copy recovery codes:', err);
+    }
+  };
+
+  const handleDownload = () => {
+    const blob = new Blob([`Baboo Dashboard recovery codes\n\n${codes.join('\n')}\n`], { type: 'text/plain' });
+    downloadBlob(blob, 'baboo-recovery-codes.txt');
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+        Save these recovery codes somewhere safe. Each one lets you sign in once if you lose your
+        authenticator. They won't be shown again.
+      </div>
+      <div className="grid grid-cols-2 gap-2 p-4 bg-gray-50 border border-gray-200 rounded-lg font-mono text-sm text-gray-900">
+        {codes.map(code => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={handleCopy}
+          className="flex-1 flex items-center justify-center gap-2 px-3 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+        >
+          {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+          {copied ? 'Copied' : 'Copy'}
+        </button>
+        <button
+          type="button"
+          onClick={handleDownload}
+          className="flex-1 flex items-center justify-center gap-2 px-3 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+        >
+          <Download className="w-4 h-4" />
+          Download
+        </button>
+      </div>
+    </div>
+  );
+}
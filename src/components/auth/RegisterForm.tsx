@@ -1,22 +1,70 @@
-import React, { useState } from 'react';
-import { UserPlus, AlertCircle } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { UserPlus, AlertCircle, Mail } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
+import { apiService } from '../../services/api';
+import { ROLE_LABELS } from '../../utils/permissions';
+import { clearAuthLinkToken } from '../../utils/authLinks';
+import type { InviteLookupResponse } from '../../types';
 
 interface RegisterFormProps {
   onToggleMode: () => void;
+  inviteToken?: string | null;
 }
 
-export function RegisterForm({ onToggleMode }: RegisterFormProps) {
+type InviteState =
+  | { status: 'checking' }
+  | { status: 'valid'; invite: InviteLookupResponse['invite'] }
+  | { status: 'invalid'; message: string }
+  | { status: 'none'; openRegistration: boolean };
+
+export function RegisterForm({ onToggleMode, inviteToken }: RegisterFormProps) {
   const [formData, setFormData] = useState({
     name: '',
     email: '',
     password: '',
     confirmPassword: '',
-    role: 'expert',
   });
   const [error, setError] = useState<string | null>(null);
+  const [inviteState, setInviteState] = useState<InviteState>({ status: 'checking' });
   const { register, isLoading } = useAuth();
 
+  // Registration needs a usable invite unless the backend allows open sign-up
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const checkRegistration = async () => {
+      setInviteState({ status: 'checking' });
+
+      try {
+        if (inviteToken) {
+          const { invite } = await apiService.lookupInvite(inviteToken, { signal: controller.signal });
+          setInviteState({ status: 'valid', invite });
+
+          const invitedAddress = invite.email;
+          if (invitedAddress) {
+            setFormData(prev => ({ ...prev, email: invitedAddress }));
+          }
+        } else {
+          const { openRegistration } = await apiService.getRegistrationConfig({ signal: controller.signal });
+          setInviteState({ status: 'none', openRegistration });
+        }
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        setInviteState({
+          status: 'invalid',
+          message: err instanceof Error ? err.message : 'Could not check the invite',
+        });
+      }
+    };
+
+    checkRegistration();
+    return () => controller.abort();
+  }, [inviteToken]);
+
+  const canRegister =
+    inviteState.status === 'valid' || (inviteState.status === 'none' && inviteState.openRegistration);
+  const invitedEmail = inviteState.status === 'valid' ? inviteState.invite.email : null;
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
@@ -37,13 +85,14 @@ export function RegisterForm({ onToggleMode }: RegisterFormProps) {
     }
 
     try {
-      await register(formData.email, formData.password, formData.name, formData.role);
+      await register(formData.email, formData.password, formData.name, inviteToken || undefined);
+      clearAuthLinkToken('invite');
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Registration failed');
     }
   };
 
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setFormData(prev => ({
       ...prev,
       [e.target.name]: e.target.value,
@@ -61,6 +110,39 @@ export function RegisterForm({ onToggleMode }: RegisterFormProps) {
           <p className="text-gray-600 mt-2">Create your expert account</p>
         </div>
 
+        {inviteState.status === 'checking' && (
+          <div className="mb-6 flex items-center justify-center gap-2 text-sm text-gray-500">
+            <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-indigo-600"></div>
+            Checking your invite...
+          </div>
+        )}
+
+        {inviteState.status === 'valid' && (
+          <div className="mb-6 p-4 bg-indigo-50 border border-indigo-200 rounded-lg flex items-center gap-3">
+            <Mail className="w-5 h-5 text-indigo-500 flex-shrink-0" />
+            <span className="text-indigo-800 text-sm">
+              You've been invited as <strong>{ROLE_LABELS[inviteState.invite.role]}</strong>.
+              This invite expires {new Date(inviteState.invite.expiresAt).toLocaleDateString()}.
+            </span>
+          </div>
+        )}
+
+        {inviteState.status === 'invalid' && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center gap-3">
+            <AlertCircle className="w-5 h-5 text-red-500 flex-shrink-0" />
+            <span className="text-red-700 text-sm">{inviteState.message}</span>
+          </div>
+        )}
+
+        {inviteState.status === 'none' && !inviteState.openRegistration && (
+          <div className="mb-6 p-4 bg-yellow-50 border border-yellow-200 rounded-lg flex items-center gap-3">
+            <Mail className="w-5 h-5 text-yellow-600 flex-shrink-0" />
+            <span className="text-yellow-800 text-sm">
+              Registration is by invitation only. Ask an admin to send you an invite link.
+            </span>
+          </div>
+        )}
+
         {error && (
           <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center gap-3">
             <AlertCircle className="w-5 h-5 text-red-500 flex-shrink-0" />
@@ -95,28 +177,13 @@ export function RegisterForm({ onToggleMode }: RegisterFormProps) {
               name="email"
               value={formData.email}
               onChange={handleInputChange}
-              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors"
+              readOnly={!!invitedEmail}
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors read-only:bg-gray-50 read-only:text-gray-500"
               placeholder="expert@company.com"
               required
             />
           </div>
 
-          <div>
-            <label htmlFor="role" className="block text-sm font-medium text-gray-700 mb-2">
-              Role
-            </label>
-            <select
-              id="role"
-              name="role"
-              value={formData.role}
-              onChange={handleInputChange}
-              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors"
-            >
-              <option value="expert">Local Expert</option>
-              <option value="admin">Admin</option>
-            </select>
-          </div>
-
           <div>
             <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-2">
               Password
@@ -151,7 +218,7 @@ export function RegisterForm({ onToggleMode }: RegisterFormProps) {
 
           <button
             type="submit"
-            disabled={isLoading}
+            disabled={isLoading || !canRegister}
             className="w-full bg-indigo-600 text-white py-3 px-4 rounded-lg hover:bg-indigo-700 focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors font-medium"
           >
             {isLoading ? 'Creating Account...' : 'Create Account'}
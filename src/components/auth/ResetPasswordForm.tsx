@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { KeyRound, AlertCircle, CheckCircle } from 'lucide-react';
+import { apiService } from '../../services/api';
+import { clearAuthLinkToken } from '../../utils/authLinks';
+
+interface ResetPasswordFormProps {
+  resetToken: string;
+  onBackToLogin: () => void;
+  onRequestNewLink: () => void;
+}
+
+export function ResetPasswordForm({ resetToken, onBackToLogin, onRequestNewLink }: ResetPasswordFormProps) {
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [doneMessage, setDoneMessage] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    if (password.length < 8) {
+      setError('Password must be at least 8 characters long');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const { message } = await apiService.resetPassword(resetToken, password);
+      clearAuthLinkToken('passwordReset');
+      setDoneMessage(message);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not reset your password');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // The token only works once, so leaving this screen drops it from the URL
+  const leave = (next: () => void) => () => {
+    clearAuthLinkToken('passwordReset');
+    next();
+  };
+
+  return (
+    <div className="w-full max-w-md">
+      <div className="bg-white rounded-2xl shadow-xl p-8">
+        <div className="text-center mb-8">
+          <div className="inline-flex items-center justify-center w-12 h-12 bg-blue-100 rounded-full mb-4">
+            <KeyRound className="w-6 h-6 text-blue-600" />
+          </div>
+          <h1 className="text-2xl font-bold text-gray-900">Choose a New Password</h1>
+          <p className="text-gray-600 mt-2">Use at least 8 characters</p>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center gap-3">
+            <AlertCircle className="w-5 h-5 text-red-500 flex-shrink-0" />
+            <span className="text-red-700 text-sm">{error}</span>
+          </div>
+        )}
+
+        {doneMessage ? (
+          <>
+            <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg flex items-center gap-3">
+              <CheckCircle className="w-5 h-5 text-green-500 flex-shrink-0" />
+              <span className="text-green-800 text-sm">{doneMessage}</span>
+            </div>
+            <button
+              onClick={onBackToLogin}
+              className="w-full bg-blue-600 text-white py-3 px-4 rounded-lg hover:bg-blue-700 focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition-colors font-medium"
+            >
+              Sign In
+            </button>
+          </>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div>
+              <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-2">
+                New Password
+              </label>
+              <input
+                type="password"
+                id="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                placeholder="••••••••"
+                autoComplete="new-password"
+                required
+              />
+            </div>
+
+            <div>
+              <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-700 mb-2">
+                Confirm New Password
+              </label>
+              <input
+                type="password"
+                id="confirmPassword"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                placeholder="••••••••"
+                autoComplete="new-password"
+                required
+              />
+            </div>
+
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="w-full bg-blue-600 text-white py-3 px-4 rounded-lg hover:bg-blue-700 focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors font-medium"
+            >
+              {isSubmitting ? 'Saving...' : 'Reset Password'}
+            </button>
+          </form>
+        )}
+
+        {!doneMessage && (
+          <div className="mt-6 flex justify-between text-sm">
+            <button
+              onClick={leave(onBackToLogin)}
+              className="text-blue-600 hover:text-blue-700 font-medium transition-colors"
+            >
+              Back to sign in
+            </button>
+            <button
+              onClick={leave(onRequestNewLink)}
+              className="text-blue-600 hover:text-blue-700 font-medium transition-colors"
+            >
+              Request a new link
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
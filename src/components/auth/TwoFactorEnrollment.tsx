@@ -0,0 +1,137 @@
+import React, { useState, useEffect } from 'react';
+import { AlertCircle } from 'lucide-react';
+import { apiService } from '../../services/api';
+import { useAuth } from '../../contexts/AuthContext';
+import { RecoveryCodes } from './RecoveryCodes';
+import type { TwoFactorSetupResponse, User } from '../../types';
+
+interface TwoFactorEnrollmentProps {
+  onComplete: (user: User) => void;
+  onCancel?: () => void;
+}
+
+type EnrollmentStep =
+  | { step: 'loading' }
+  | { step: 'scan'; setup: TwoFactorSetupResponse }
+  | { step: 'recoveryCodes'; recoveryCodes: string[]; user: User };
+
+// Scan the QR code, confirm one code, then save the recovery codes
+export function TwoFactorEnrollment({ onComplete, onCancel }: TwoFactorEnrollmentProps) {
+  const { token } = useAuth();
+  const [enrollment, setEnrollment] = useState<EnrollmentStep>({ step: 'loading' });
+  const [code, setCode] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!token) return;
+    const controller = new AbortController();
+
+    apiService.startTwoFactorSetup(token, { signal: controller.signal })
+      .then(setup => setEnrollment({ step: 'scan', setup }))
+      .catch(err => {
+        if (controller.signal.aborted) return;
+        setError(err instanceof Error ? err.message : 'Could not start two-factor setup');
+      });
+
+    return () => controller.abort();
+  }, [token]);
+
+  const handleConfirm = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token) return;
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const { recoveryCodes, user } = await apiService.enableTwoFactor(code.trim(), token);
+      // The session is only updated once the codes are saved, so this screen stays up until then
+      setEnrollment({ step: 'recoveryCodes', recoveryCodes, user });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not confirm the code');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center gap-3">
+          <AlertCircle className="w-5 h-5 text-red-500 flex-shrink-0" />
+          <span className="text-red-700 text-sm">{error}</span>
+        </div>
+      )}
+
+      {enrollment.step === 'loading' && !error && (
+        <div className="flex items-center justify-center gap-2 text-sm text-gray-500">
+          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
+          Preparing your authenticator setup...
+        </div>
+      )}
+
+      {enrollment.step === 'scan' && (
+        <form onSubmit={handleConfirm} className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Scan this QR code with an authenticator app such as Google Authenticator, 1Password or Authy,
+            then enter the 6-digit code it shows.
+          </p>
+          <div className="flex justify-center">
+            <img src={enrollment.setup.qrCode} alt="Authenticator QR code" className="w-48 h-48 border border-gray-200 rounded-lg" />
+          </div>
+          <div className="text-center">
+            <p className="text-xs text-gray-500">Can't scan it? Enter this key instead:</p>
+            <p className="font-mono text-sm text-gray-900 break-all select-all">{enrollment.setup.secret}</p>
+          </div>
+          <div>
+            <label htmlFor="totp-code" className="block text-sm font-medium text-gray-700 mb-2">
+              Verification code
+            </label>
+            <input
+              id="totp-code"
+              type="text"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              maxLength={6}
+              value={code}
+              onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors tracking-widest text-center font-mono text-lg"
+              placeholder="123456"
+              required
+            />
+          </div>
+          <div className="flex gap-2">
+            {onCancel && (
+              <button
+                type="button"
+                onClick={onCancel}
+                className="flex-1 px-4 py-3 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors font-medium"
+              >
+                Cancel
+              </button>
+            )}
+            <button
+              type="submit"
+              disabled={isSubmitting || code.length !== 6}
+              className="flex-1 bg-blue-600 text-white py-3 px-4 rounded-lg hover:bg-blue-700 focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors font-medium"
+            >
+              {isSubmitting ? 'Verifying...' : 'Turn On 2FA'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {enrollment.step === 'recoveryCodes' && (
+        <>
+          <RecoveryCodes codes={enrollment.recoveryCodes} />
+          <button
+            onClick={() => onComplete(enrollment.user)}
+            className="w-full bg-blue-600 text-white py-3 px-4 rounded-lg hover:bg-blue-700 focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition-colors font-medium"
+          >
+            I've saved my recovery codes
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
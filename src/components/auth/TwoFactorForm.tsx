@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { ShieldCheck, AlertCircle } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+
+// Second login step, shown after the password has been accepted
+export function TwoFactorForm() {
+  const { twoFactorChallenge, completeTwoFactorLogin, cancelTwoFactorLogin } = useAuth();
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [code, setCode] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    setIsSubmitting(true);
+    try {
+      await completeTwoFactorLogin(useRecoveryCode ? { recoveryCode: code.trim() } : { code: code.trim() });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Verification failed');
+      setIsSubmitting(false);
+    }
+  };
+
+  const toggleCodeType = () => {
+    setUseRecoveryCode(!useRecoveryCode);
+    setCode('');
+    setError(null);
+  };
+
+  return (
+    <div className="w-full max-w-md">
+      <div className="bg-white rounded-2xl shadow-xl p-8">
+        <div className="text-center mb-8">
+          <div className="inline-flex items-center justify-center w-12 h-12 bg-blue-100 rounded-full mb-4">
+            <ShieldCheck className="w-6 h-6 text-blue-600" />
+          </div>
+          <h1 className="text-2xl font-bold text-gray-900">Two-Factor Verification</h1>
+          <p className="text-gray-600 mt-2">
+            {useRecoveryCode
+              ? 'Enter one of your recovery codes'
+              : `Enter the code from your authenticator app for ${twoFactorChallenge?.email}`}
+          </p>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center gap-3">
+            <AlertCircle className="w-5 h-5 text-red-500 flex-shrink-0" />
+            <span className="text-red-700 text-sm">{error}</span>
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-6">
+          {useRecoveryCode ? (
+            <input
+              type="text"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-center font-mono text-lg uppercase"
+              placeholder="XXXXX-XXXXX"
+              autoFocus
+              required
+            />
+          ) : (
+            <input
+              type="text"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              maxLength={6}
+              value={code}
+              onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors tracking-widest text-center font-mono text-lg"
+              placeholder="123456"
+              autoFocus
+              required
+            />
+          )}
+
+          <button
+            type="submit"
+            disabled={isSubmitting || (!useRecoveryCode && code.length !== 6)}
+            className="w-full bg-blue-600 text-white py-3 px-4 rounded-lg hover:bg-blue-700 focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors font-medium"
+          >
+            {isSubmitting ? 'Verifying...' : 'Verify'}
+          </button>
+        </form>
+
+        <div className="mt-6 flex justify-between text-sm">
+          <button
+            onClick={cancelTwoFactorLogin}
+            className="text-blue-600 hover:text-blue-700 font-medium transition-colors"
+          >
+            Back to sign in
+          </button>
+          <button
+            onClick={toggleCodeType}
+            className="text-blue-600 hover:text-blue-700 font-medium transition-colors"
+          >
+            {useRecoveryCode ? 'Use authenticator code' : 'Use a recovery code'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
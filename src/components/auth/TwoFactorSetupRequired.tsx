@@ -0,0 +1,35 @@
+import { ShieldCheck } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { TwoFactorEnrollment } from './TwoFactorEnrollment';
+
+// Enrollment screen for users whose role must use 2FA before reaching the dashboard
+export function TwoFactorSetupRequired() {
+  const { user, updateUser, logout } = useAuth();
+
+  return (
+    <div className="w-full max-w-md">
+      <div className="bg-white rounded-2xl shadow-xl p-8">
+        <div className="text-center mb-8">
+          <div className="inline-flex items-center justify-center w-12 h-12 bg-blue-100 rounded-full mb-4">
+            <ShieldCheck className="w-6 h-6 text-blue-600" />
+          </div>
+          <h1 className="text-2xl font-bold text-gray-900">Set Up Two-Factor Authentication</h1>
+          <p className="text-gray-600 mt-2">
+            Your account ({user?.email}) needs a second sign-in step before you can use the dashboard.
+          </p>
+        </div>
+
+        <TwoFactorEnrollment onComplete={updateUser} />
+
+        <div className="mt-6 text-center">
+          <button
+            onClick={logout}
+            className="text-blue-600 hover:text-blue-700 font-medium transition-colors"
+          >
+            Sign out
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+import { useState, useEffect, useRef } from 'react';
+import { MailCheck, AlertCircle, CheckCircle } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { clearAuthLinkToken } from '../../utils/authLinks';
+
+interface VerifyEmailFormProps {
+  verificationToken: string;
+  onContinue: () => void;
+}
+
+type VerificationState =
+  | { status: 'verifying' }
+  | { status: 'verified'; message: string }
+  | { status: 'failed'; message: string };
+
+export function VerifyEmailForm({ verificationToken, onContinue }: VerifyEmailFormProps) {
+  const [verification, setVerification] = useState<VerificationState>({ status: 'verifying' });
+  const { verifyEmail, isAuthenticated } = useAuth();
+  const startedFor = useRef<string | null>(null);
+
+  // Verify once per token, even if the effect runs twice in development
+  useEffect(() => {
+    if (startedFor.current === verificationToken) return;
+    startedFor.current = verificationToken;
+
+    verifyEmail(verificationToken)
+      .then(message => setVerification({ status: 'verified', message }))
+      .catch(err => setVerification({
+        status: 'failed',
+        message: err instanceof Error ? err.message : 'Could not confirm your email address',
+      }));
+  }, [verificationToken, verifyEmail]);
+
+  const handleContinue = () => {
+    clearAuthLinkToken('emailVerification');
+    onContinue();
+  };
+
+  return (
+    <div className="w-full max-w-md">
+      <div className="bg-white rounded-2xl shadow-xl p-8">
+        <div className="text-center mb-8">
+          <div className="inline-flex items-center justify-center w-12 h-12 bg-blue-100 rounded-full mb-4">
+            <MailCheck className="w-6 h-6 text-blue-600" />
+          </div>
+          <h1 className="text-2xl font-bold text-gray-900">Confirm Email</h1>
+        </div>
+
+        {verification.status === 'verifying' && (
+          <div className="mb-6 flex items-center justify-center gap-2 text-sm text-gray-500">
+            <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
+            Confirming your email address...
+          </div>
+        )}
+
+        {verification.status === 'verified' && (
+          <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg flex items-center gap-3">
+            <CheckCircle className="w-5 h-5 text-green-500 flex-shrink-0" />
+            <span className="text-green-800 text-sm">{verification.message}</span>
+          </div>
+        )}
+
+        {verification.status === 'failed' && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center gap-3">
+            <AlertCircle className="w-5 h-5 text-red-500 flex-shrink-0" />
+            <span className="text-red-700 text-sm">{verification.message}</span>
+          </div>
+        )}
+
+        <button
+          onClick={handleContinue}
+          disabled={verification.status === 'verifying'}
+          className="w-full bg-blue-600 text-white py-3 px-4 rounded-lg hover:bg-blue-700 focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors font-medium"
+        >
+          {isAuthenticated ? 'Go to Dashboard' : 'Continue to Sign In'}
+        </button>
+      </div>
+    </div>
+  );
+}
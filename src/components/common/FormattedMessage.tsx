@@ -1,41 +1,102 @@
 import React from 'react';
-import { parseAsteriskFormatting, type FormattedTextPart } from '../../utils/messageFormatting';
+import { parseMessageFormatting, type FormattedTextPart } from '../../utils/messageFormatting';
 
 interface FormattedMessageProps {
   text: string;
   className?: string;
 }
 
+function FormattedPart({ part }: { part: FormattedTextPart }) {
+  let content: React.ReactNode = part.text;
+
+  if (part.isCode) {
+    content = <code className="px-1 py-0.5 rounded bg-black/10 font-mono text-[0.9em]">{content}</code>;
+  }
+  if (part.link) {
+    content = (
+      <a
+        href={part.link.href}
+        className="underline underline-offset-2 break-all hover:opacity-80"
+        {...(part.link.type === 'url' ? { target: '_blank', rel: 'noopener noreferrer' } : {})}
+      >
+        {content}
+      </a>
+    );
+  }
+  if (part.isStrikethrough) {
+    content = <s>{content}</s>;
+  }
+  if (part.isItalic) {
+    content = <em>{content}</em>;
+  }
+  if (part.isBold) {
+    return <strong className="font-semibold whitespace-pre-wrap">{content}</strong>;
+  }
+
+  // Preserve line breaks and spacing in plain text
+  return <span className="whitespace-pre-wrap">{content}</span>;
+}
+
+function FormattedParts({ parts }: { parts: FormattedTextPart[] }) {
+  return (
+    <>
+      {parts.map((part, index) => (
+        <FormattedPart key={index} part={part} />
+      ))}
+    </>
+  );
+}
+
 /**
- * Component that renders message text with asterisk-based bold formatting
- * Converts *text* to bold text while preserving line breaks and spacing
+ * Component that renders message text with lightweight markdown formatting:
+ * *bold*, _italic_, ~strike~, `code`, bullet/numbered lists and auto-linked
+ * URLs, emails and phone numbers. Text is never rendered as HTML.
  */
 export function FormattedMessage({ text, className = '' }: FormattedMessageProps) {
   if (!text || typeof text !== 'string') {
     return <span className={className}>{text}</span>;
   }
 
-  const parts = parseAsteriskFormatting(text);
+  const blocks = parseMessageFormatting(text);
+
+  // Plain paragraphs stay inline so existing layouts are unchanged
+  if (blocks.every(block => block.type === 'paragraph')) {
+    return (
+      <span className={className}>
+        {blocks.map((block, index) => block.type === 'paragraph' && (
+          <FormattedParts key={index} parts={block.parts} />
+        ))}
+      </span>
+    );
+  }
 
   return (
-    <span className={className}>
-      {parts.map((part: FormattedTextPart, index: number) => {
-        if (part.isBold) {
-          return (
-            <strong key={index} className="font-semibold">
-              {part.text}
-            </strong>
-          );
-        } else {
-          // Preserve line breaks and spacing in plain text
+    <div className={`space-y-1 ${className}`}>
+      {blocks.map((block, index) => {
+        if (block.type === 'paragraph') {
           return (
-            <span key={index} className="whitespace-pre-wrap">
-              {part.text}
-            </span>
+            <p key={index}>
+              <FormattedParts parts={block.parts} />
+            </p>
           );
         }
+
+        const ListTag = block.ordered ? 'ol' : 'ul';
+        return (
+          <ListTag
+            key={index}
+            start={block.ordered && block.start !== 1 ? block.start : undefined}
+            className={`pl-5 space-y-0.5 ${block.ordered ? 'list-decimal' : 'list-disc'}`}
+          >
+            {block.items.map((item, itemIndex) => (
+              <li key={itemIndex}>
+                <FormattedParts parts={item} />
+              </li>
+            ))}
+          </ListTag>
+        );
       })}
-    </span>
+    </div>
   );
 }
 
@@ -50,6 +111,9 @@ export function FormattedMessageExample() {
     "*Unmatched asterisk here",
     "Mixed *bold* with\nnew lines and *more bold*",
     "Double **empty** bold and *normal bold*",
+    "_Italic_, ~strike~ and `inline code`",
+    "Call +1 555 123 4567, email help@example.com or visit www.example.com",
+    "Packing list:\n- Passport\n- *Tickets*\n\nSteps:\n1. Check in\n2. Board",
   ];
 
   return (
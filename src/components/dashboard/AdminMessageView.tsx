@@ -1,19 +1,26 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { Send, AlertCircle, Bot, User, Wifi, WifiOff, Shield, Phone, ToggleLeft, ToggleRight, RefreshCw, ChevronDown, UserCheck, MapPin } from 'lucide-react';
 import { ParticipantPopover } from './ParticipantPopover';
+import { TranscriptExportMenu } from './TranscriptExportMenu';
+import { OutboxMessages } from './OutboxMessages';
+import { MessageSplitPreview } from './MessageSplitPreview';
 import { FormattedMessage } from '../common/FormattedMessage';
-import type { TwilioMessage, TwilioConversation } from '../../types';
 import { useAuth } from '../../contexts/AuthContext';
+import {
+  useConversationStore,
+  selectActiveConversation,
+  selectMessages,
+  selectIsLoadingMessages,
+} from '../../contexts/conversationStore';
 import { twilioService } from '../../services/twilio';
 import { apiService } from '../../services/api';
+import { messageOutbox } from '../../services/messageOutbox';
 import { getMessageDisplayInfo, getMessageStyling, getMessageIcon } from '../../utils/messageDisplay';
+import { getMessageChannel } from '../../utils/messageSplitter';
+import type { OutboxEntry } from '../../types';
 
 interface AdminMessageViewProps {
-  conversation: TwilioConversation | null;
-  messages: TwilioMessage[];
   onSendMessage: (message: string) => Promise<void>;
-  onRefreshMessages?: () => Promise<void>;
-  isLoading: boolean;
   error: string | null;
   sendingChunks?: { current: number; total: number } | null;
   conversationType?: 'main' | 'expert_admin_dm' | 'admin_traveler_dm';
@@ -21,16 +28,16 @@ interface AdminMessageViewProps {
 }
 
 export function AdminMessageView({
-  conversation,
-  messages,
   onSendMessage,
-  onRefreshMessages,
-  isLoading,
   error,
   sendingChunks,
   conversationType = 'main',
   conversationData,
 }: AdminMessageViewProps) {
+  const { state: store, syncMessages } = useConversationStore();
+  const conversation = selectActiveConversation(store);
+  const messages = selectMessages(store, store.activeConversationSid);
+  const isLoading = selectIsLoadingMessages(store, store.activeConversationSid);
   const [newMessage, setNewMessage] = useState('');
   const [isSending, setIsSending] = useState(false);
   const [isRefreshing, setIsRefreshing] = useState(false);
@@ -42,9 +49,12 @@ export function AdminMessageView({
   const [isUpdatingBotSettings, setIsUpdatingBotSettings] = useState(false);
   const [connectionStatus, setConnectionStatus] = useState<string>('unknown');
   const [showParticipants, setShowParticipants] = useState<{ position: { x: number; y: number } } | null>(null);
+  const [outboxEntries, setOutboxEntries] = useState<OutboxEntry[]>([]);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
-  const { user, token } = useAuth();
+  const { user, token, can } = useAuth();
+  const canToggleBot = can('bot.toggle');
+  const canSend = can('message.send') && (conversationType !== 'admin_traveler_dm' || can('traveler.dm.send'));
 
   // Monitor Twilio connection status
   useEffect(() => {
@@ -67,12 +77,20 @@ export function AdminMessageView({
     };
   }, []);
 
+  // Follow this conversation's outgoing messages in the outbox
+  useEffect(() => {
+    const conversationSid = conversation?.sid;
+    return messageOutbox.subscribe(entries => {
+      setOutboxEntries(entries.filter(entry => entry.conversationSid === conversationSid));
+    });
+  }, [conversation?.sid]);
+
   // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
-    if (messages.length > 0) {
+    if (messages.length > 0 || outboxEntries.length > 0) {
       messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
     }
-  }, [messages]);
+  }, [messages, outboxEntries]);
 
   // Focus input when conversation changes
   useEffect(() => {
@@ -172,14 +190,7 @@ export function AdminMessageView({
     setIsRefreshing(true);
     try {
       console.log('🔄 Admin manually refreshing messages...');
-      if (onRefreshMessages) {
-        await onRefreshMessages();
-      } else {
-        // Fallback: force refresh via Twilio
-        await twilioService.triggerPoll();
-        // Give it a moment to update
-        await new Promise(resolve => setTimeout(resolve, 1000));
-      }
+      await syncMessages(conversation.sid);
     } catch (err) {
       console.error('❌ Failed to refresh messages:', err);
     } finally {
@@ -307,8 +318,9 @@ export function AdminMessageView({
               <span className="text-sm font-medium text-gray-700">Expert Bot:</span>
               <button
                 onClick={() => handleBotToggle('expertBot')}
-                disabled={isUpdatingBotSettings}
-                className={`flex items-center gap-1 px-3 py-1 rounded-full text-sm font-medium transition-colors ${
+                disabled={isUpdatingBotSettings || !canToggleBot}
+                title={canToggleBot ? undefined : 'You do not have permission to change bot settings'}
+                className={`flex items-center gap-1 px-3 py-1 rounded-full text-sm font-medium transition-colors disabled:cursor-not-allowed ${
                   botSettings.expertBot
                     ? 'bg-green-100 text-green-800 hover:bg-green-200'
                     : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
@@ -323,8 +335,9 @@ export function AdminMessageView({
               <span className="text-sm font-medium text-gray-700">Traveler Bot:</span>
               <button
                 onClick={() => handleBotToggle('travelerBot')}
-                disabled={isUpdatingBotSettings}
-                className={`flex items-center gap-1 px-3 py-1 rounded-full text-sm font-medium transition-colors ${
+                disabled={isUpdatingBotSettings || !canToggleBot}
+                title={canToggleBot ? undefined : 'You do not have permission to change bot settings'}
+                className={`flex items-center gap-1 px-3 py-1 rounded-full text-sm font-medium transition-colors disabled:cursor-not-allowed ${
                   botSettings.travelerBot
                     ? 'bg-green-100 text-green-800 hover:bg-green-200'
                     : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
@@ -335,6 +348,7 @@ export function AdminMessageView({
               </button>
             </div>
             
+            {conversation && <TranscriptExportMenu conversationSid={conversation.sid} />}
             <button
               onClick={handleRefreshMessages}
               disabled={isRefreshing}
@@ -469,68 +483,69 @@ export function AdminMessageView({
             );
           })
         )}
+        {!isLoading && <OutboxMessages entries={outboxEntries} />}
         <div ref={messagesEndRef} />
       </div>
 
       {/* Message Input */}
-      <div className="border-t border-gray-200 p-4 bg-white flex-shrink-0 sticky bottom-0 z-10">
-        <form onSubmit={handleSubmit} className="space-y-3">
-          <div className="flex gap-3">
-            <textarea
-              ref={textareaRef}
-              rows={2}
-              value={newMessage}
-              onChange={(e) => setNewMessage(e.target.value)}
-              onKeyDown={handleKeyPress}
-              placeholder="Type your message... (Shift+Enter for new line)"
-              className="flex-1 px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-50 disabled:text-gray-500 resize-none min-h-[60px] max-h-[120px] overflow-y-auto"
-              disabled={isSending}
-              style={{ height: 'auto' }}
-            />
-            <button
-              type="submit"
-              disabled={!newMessage.trim() || isSending || !!sendingChunks}
-              className="px-6 py-3 rounded-xl text-white font-medium transition-colors focus:ring-2 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed bg-blue-600 hover:bg-blue-700 focus:ring-blue-500 self-end"
-              title="Send message"
-            >
-              {sendingChunks ? (
-                <div className="flex items-center gap-2">
-                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
-                  Sending {sendingChunks.current}/{sendingChunks.total}
-                </div>
-              ) : isSending ? (
-                <div className="flex items-center gap-2">
-                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
-                  Sending
-                </div>
-              ) : (
-                <Send className="w-5 h-5" />
-              )}
-            </button>
-          </div>
-          
-          {/* Status indicators */}
-          <div className="flex items-center justify-between text-xs text-gray-500">
-            <div className="flex items-center gap-4">
-              <span className={`flex items-center gap-1 ${
-                connectionStatus === 'connected' ? 'text-green-600' : 
-                connectionStatus === 'connecting' ? 'text-yellow-600' : 'text-red-600'
-              }`}>
-                <ConnectionIcon className="w-3 h-3" />
-                {connectionDisplay.text}
-              </span>
-              <span>{newMessage.length} chars</span>
+      {!canSend ? (
+        <div className="border-t border-gray-200 p-4 bg-gray-50 flex-shrink-0 text-center text-sm text-gray-500">
+          Read-only access: you can view this conversation but not send messages.
+        </div>
+      ) : (
+        <div className="border-t border-gray-200 p-4 bg-white flex-shrink-0 sticky bottom-0 z-10">
+          <form onSubmit={handleSubmit} className="space-y-3">
+            <div className="flex gap-3">
+              <textarea
+                ref={textareaRef}
+                rows={2}
+                value={newMessage}
+                onChange={(e) => setNewMessage(e.target.value)}
+                onKeyDown={handleKeyPress}
+                placeholder="Type your message... (Shift+Enter for new line)"
+                className="flex-1 px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-50 disabled:text-gray-500 resize-none min-h-[60px] max-h-[120px] overflow-y-auto"
+                disabled={isSending}
+                style={{ height: 'auto' }}
+              />
+              <button
+                type="submit"
+                disabled={!newMessage.trim() || isSending || !!sendingChunks}
+                className="px-6 py-3 rounded-xl text-white font-medium transition-colors focus:ring-2 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed bg-blue-600 hover:bg-blue-700 focus:ring-blue-500 self-end"
+                title="Send message"
+              >
+                {sendingChunks ? (
+                  <div className="flex items-center gap-2">
+                    <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+                    Sending {sendingChunks.current}/{sendingChunks.total}
+                  </div>
+                ) : isSending ? (
+                  <div className="flex items-center gap-2">
+                    <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+                    Sending
+                  </div>
+                ) : (
+                  <Send className="w-5 h-5" />
+                )}
+              </button>
             </div>
-            <div className="text-right">
-              {newMessage.length > 1000 && (
-                <p className="text-orange-600 text-xs mt-1">
-                  ⚠️ Message will be split into {Math.ceil(newMessage.length / 1000)} parts
-                </p>
-              )}
+          
+            {/* Status indicators */}
+            <div className="flex items-center justify-between text-xs text-gray-500">
+              <div className="flex items-center gap-4">
+                <span className={`flex items-center gap-1 ${
+                  connectionStatus === 'connected' ? 'text-green-600' : 
+                  connectionStatus === 'connecting' ? 'text-yellow-600' : 'text-red-600'
+                }`}>
+                  <ConnectionIcon className="w-3 h-3" />
+                  {connectionDisplay.text}
+                </span>
+                <span>{newMessage.length} chars</span>
+              </div>
             </div>
-          </div>
-        </form>
-      </div>
+            <MessageSplitPreview text={newMessage} channel={getMessageChannel(conversation.participants)} />
+          </form>
+        </div>
+      )}
 
       {/* Participant Popover */}
       {showParticipants && (
@@ -0,0 +1,308 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { ScrollText, AlertCircle, RefreshCw, Download, ChevronLeft, ChevronRight } from 'lucide-react';
+import { apiService } from '../../services/api';
+import { useAuth } from '../../contexts/AuthContext';
+import { AUDIT_ACTION_LABELS, describeAuditChange, toAuditDateRange } from '../../utils/auditLog';
+import { downloadBlob } from '../../utils/download';
+import type { AuditAction, AuditActor, AuditEntry, AuditLogFilters, AuditLogResponse } from '../../types';
+
+const PAGE_SIZE = 50;
+
+const EMPTY_FILTERS = {
+  actorId: '',
+  conversationSid: '',
+  action: '' as AuditAction | '',
+  fromDate: '',
+  toDate: '',
+};
+
+type FilterForm = typeof EMPTY_FILTERS;
+
+const toApiFilters = (form: FilterForm): AuditLogFilters => ({
+  actorId: form.actorId || undefined,
+  conversationSid: form.conversationSid.trim() || undefined,
+  action: form.action || undefined,
+  ...toAuditDateRange(form.fromDate, form.toDate),
+});
+
+function AuditEntryDetails({ entry }: { entry: AuditEntry }) {
+  const changes = describeAuditChange(entry);
+  const metadata = entry.metadata ? Object.entries(entry.metadata) : [];
+
+  return (
+    <div className="text-xs text-gray-600 space-y-0.5">
+      {changes.map(change => (
+        <p key={change} className="font-mono">{change}</p>
+      ))}
+      {entry.action === 'inquiry.delete' && entry.before && (
+        <p>
+          {String(entry.before.customer_name ?? '')} ({String(entry.before.customer_email ?? '')}), status {String(entry.before.status ?? '')}
+        </p>
+      )}
+      {metadata.map(([key, value]) => (
+        <p key={key} className="break-words">
+          <span className="text-gray-400">{key}:</span> {typeof value === 'object' ? JSON.stringify(value) : String(value)}
+        </p>
+      ))}
+    </div>
+  );
+}
+
+export function AuditLogViewer() {
+  const { token } = useAuth();
+  const [form, setForm] = useState<FilterForm>(EMPTY_FILTERS);
+  const [appliedFilters, setAppliedFilters] = useState<AuditLogFilters>({});
+  const [page, setPage] = useState(1);
+  const [result, setResult] = useState<AuditLogResponse | null>(null);
+  const [actors, setActors] = useState<AuditActor[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadEntries = useCallback(async () => {
+    if (!token) return;
+
+    setIsLoading(true);
+    try {
+      setResult(await apiService.getAuditLog(token, appliedFilters, page, PAGE_SIZE));
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load audit log:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load audit log');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [token, appliedFilters, page]);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  useEffect(() => {
+    if (!token) return;
+
+    apiService.getAuditActors(token)
+      .then(response => setActors(response.actors))
+      .catch(err => console.error('Failed to load audit actors:', err));
+  }, [token]);
+
+  const handleApply = (e: React.FormEvent) => {
+    e.preventDefault();
+    setAppliedFilters(toApiFilters(form));
+    setPage(1);
+  };
+
+  const handleReset = () => {
+    setForm(EMPTY_FILTERS);
+    setAppliedFilters({});
+    setPage(1);
+  };
+
+  const handleExport = async () => {
+    if (!token) return;
+
+    setIsExporting(true);
+    try {
+      const blob = await apiService.exportAuditLog(token, appliedFilters);
+      downloadBlob(blob, `audit-log-${new Date().toISOString().slice(0, 10)}.csv`);
+    } catch (err) {
+      console.error('Failed to export audit log:', err);
+      setError(err instanceof Error ? err.message : 'Failed to export audit log');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const entries = result?.data ?? [];
+  const pages = result?.pagination.pages ?? 0;
+
+  return (
+    <div className="flex-1 flex flex-col bg-gray-50 h-full">
+      {/* Header */}
+      <div className="bg-white border-b border-gray-200 p-6">
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-4">
+            <div className="w-12 h-12 bg-blue-100 rounded-full flex items-center justify-center">
+              <ScrollText className="w-6 h-6 text-blue-600" />
+            </div>
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Audit Log</h1>
+              <p className="text-gray-600">Who did what: bot toggles, traveler messages, acceptances and inquiry changes</p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={handleExport}
+              disabled={isExporting}
+              className="flex items-center gap-2 px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+            >
+              <Download className="w-4 h-4" />
+              {isExporting ? 'Exporting...' : 'Export CSV'}
+            </button>
+            <button
+              onClick={loadEntries}
+              disabled={isLoading}
+              className="p-2 text-gray-400 hover:text-gray-600 rounded-lg hover:bg-gray-100 transition-colors disabled:opacity-50"
+              title="Refresh audit log"
+            >
+              <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 border-b border-red-200">
+          <div className="flex items-center gap-3">
+            <AlertCircle className="w-5 h-5 text-red-500" />
+            <p className="text-red-700 text-sm">{error}</p>
+          </div>
+        </div>
+      )}
+
+      <div className="flex-1 p-6 overflow-y-auto space-y-6">
+        {/* Filters */}
+        <form onSubmit={handleApply} className="bg-white rounded-lg border border-gray-200 p-4 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+            <div>
+              <label htmlFor="audit-actor" className="block text-sm font-medium text-gray-700 mb-1">Actor</label>
+              <select
+                id="audit-actor"
+                value={form.actorId}
+                onChange={(e) => setForm(prev => ({ ...prev, actorId: e.target.value }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="">Anyone</option>
+                {actors.map(actor => (
+                  <option key={actor.id} value={actor.id ?? ''}>{actor.name || actor.email}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="audit-action" className="block text-sm font-medium text-gray-700 mb-1">Action</label>
+              <select
+                id="audit-action"
+                value={form.action}
+                onChange={(e) => setForm(prev => ({ ...prev, action: e.target.value as AuditAction | '' }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="">Any action</option>
+                {(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).map(action => (
+                  <option key={action} value={action}>{AUDIT_ACTION_LABELS[action]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="audit-conversation" className="block text-sm font-medium text-gray-700 mb-1">Conversation SID</label>
+              <input
+                id="audit-conversation"
+                type="text"
+                value={form.conversationSid}
+                onChange={(e) => setForm(prev => ({ ...prev, conversationSid: e.target.value }))}
+                placeholder="CH..."
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 font-mono"
+              />
+            </div>
+            <div>
+              <label htmlFor="audit-from" className="block text-sm font-medium text-gray-700 mb-1">From</label>
+              <input
+                id="audit-from"
+                type="date"
+                value={form.fromDate}
+                onChange={(e) => setForm(prev => ({ ...prev, fromDate: e.target.value }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div>
+              <label htmlFor="audit-to" className="block text-sm font-medium text-gray-700 mb-1">To</label>
+              <input
+                id="audit-to"
+                type="date"
+                value={form.toDate}
+                min={form.fromDate || undefined}
+                onChange={(e) => setForm(prev => ({ ...prev, toDate: e.target.value }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              Apply filters
+            </button>
+            <button
+              type="button"
+              onClick={handleReset}
+              className="px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Reset
+            </button>
+          </div>
+        </form>
+
+        {/* Entries */}
+        <div className="bg-white rounded-lg border border-gray-200">
+          <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+            <h3 className="text-lg font-semibold text-gray-900">
+              {result ? `${result.pagination.total} entr${result.pagination.total === 1 ? 'y' : 'ies'}` : 'Entries'}
+            </h3>
+            {pages > 1 && (
+              <div className="flex items-center gap-2 text-sm text-gray-600">
+                <button
+                  onClick={() => setPage(prev => prev - 1)}
+                  disabled={page <= 1 || isLoading}
+                  className="p-1 rounded hover:bg-gray-100 disabled:opacity-50"
+                  title="Newer entries"
+                >
+                  <ChevronLeft className="w-4 h-4" />
+                </button>
+                Page {page} of {pages}
+                <button
+                  onClick={() => setPage(prev => prev + 1)}
+                  disabled={page >= pages || isLoading}
+                  className="p-1 rounded hover:bg-gray-100 disabled:opacity-50"
+                  title="Older entries"
+                >
+                  <ChevronRight className="w-4 h-4" />
+                </button>
+              </div>
+            )}
+          </div>
+
+          {entries.length === 0 ? (
+            <div className="p-8 text-center text-gray-500">
+              {isLoading ? 'Loading audit log...' : 'No entries match these filters'}
+            </div>
+          ) : (
+            <div className="divide-y divide-gray-200">
+              {entries.map(entry => (
+                <div key={entry.id} className="p-4 grid grid-cols-1 md:grid-cols-4 gap-2">
+                  <div className="text-sm">
+                    <p className="text-gray-900">{new Date(entry.createdAt).toLocaleString()}</p>
+                    {entry.ipAddress && <p className="text-xs text-gray-400">{entry.ipAddress}</p>}
+                  </div>
+                  <div className="text-sm min-w-0">
+                    <p className="font-medium text-gray-900 truncate">{entry.actor?.name || entry.actor?.email || 'System'}</p>
+                    {entry.actor?.email && <p className="text-xs text-gray-500 truncate">{entry.actor.email}</p>}
+                  </div>
+                  <div className="text-sm min-w-0">
+                    <p className="font-medium text-gray-900">{AUDIT_ACTION_LABELS[entry.action] ?? entry.action}</p>
+                    <p className="text-xs text-gray-500 font-mono truncate">
+                      {entry.targetType}{entry.targetId && ` ${entry.targetId}`}
+                    </p>
+                    {entry.conversationSid && entry.conversationSid !== entry.targetId && (
+                      <p className="text-xs text-gray-500 font-mono truncate">{entry.conversationSid}</p>
+                    )}
+                  </div>
+                  <AuditEntryDetails entry={entry} />
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
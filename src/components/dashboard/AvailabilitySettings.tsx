@@ -0,0 +1,357 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { CalendarClock, AlertCircle, RefreshCw, Palmtree, Trash2 } from 'lucide-react';
+import { apiService } from '../../services/api';
+import { useAuth } from '../../contexts/AuthContext';
+import {
+  AVAILABILITY_STYLES,
+  COMMON_TIME_ZONES,
+  WEEKDAYS,
+  WEEKDAY_LABELS,
+  describeAvailability,
+  getBrowserTimeZone,
+} from '../../utils/availability';
+import type { ExpertAvailability, Weekday, WeeklySchedule } from '../../types';
+
+interface AvailabilitySettingsProps {
+  onChange?: (availability: ExpertAvailability) => void;
+}
+
+const DEFAULT_SHIFT = { start: '09:00', end: '17:00' };
+
+// Monday to Friday, nine to five
+const DEFAULT_SCHEDULE: WeeklySchedule = {
+  mon: [DEFAULT_SHIFT],
+  tue: [DEFAULT_SHIFT],
+  wed: [DEFAULT_SHIFT],
+  thu: [DEFAULT_SHIFT],
+  fri: [DEFAULT_SHIFT],
+};
+
+export function AvailabilitySettings({ onChange }: AvailabilitySettingsProps) {
+  const { token } = useAuth();
+  const [availability, setAvailability] = useState<ExpertAvailability | null>(null);
+  const [timezone, setTimezone] = useState('');
+  const [schedule, setSchedule] = useState<WeeklySchedule | null>(null);
+  const [timeOff, setTimeOff] = useState({ startsOn: '', endsOn: '', note: '' });
+  const [isLoading, setIsLoading] = useState(false);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const applyAvailability = useCallback((next: ExpertAvailability) => {
+    setAvailability(next);
+    setTimezone(next.timezone);
+    setSchedule(next.schedule);
+  }, []);
+
+  const loadAvailability = useCallback(async () => {
+    if (!token) return;
+
+    setIsLoading(true);
+    try {
+      const response = await apiService.getAvailability(token);
+      applyAvailability(response.availability);
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load availability:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load availability');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [token, applyAvailability]);
+
+  useEffect(() => {
+    loadAvailability();
+  }, [loadAvailability]);
+
+  const runAction = async (
+    key: string,
+    action: () => Promise<{ message?: string; availability: ExpertAvailability }>,
+    failureMessage: string
+  ) => {
+    setBusy(key);
+    setError(null);
+    setNotice(null);
+    try {
+      const response = await action();
+      applyAvailability(response.availability);
+      onChange?.(response.availability);
+      if (response.message) setNotice(response.message);
+    } catch (err) {
+      console.error(`${failureMessage}:`, err);
+      setError(err instanceof Error ? err.message : failureMessage);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  // Only the first shift of a day is edited here; further shifts set through the API are kept
+  const updateDay = (day: Weekday, shift: { start: string; end: string } | null) => {
+    setSchedule(prev => {
+      const next = { ...(prev || {}) };
+      if (shift) {
+        next[day] = [shift, ...(prev?.[day] || []).slice(1)];
+      } else {
+        delete next[day];
+      }
+      return next;
+    });
+  };
+
+  const handleSaveSchedule = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token) return;
+
+    runAction('schedule', () => apiService.updateSchedule({ timezone: timezone.trim(), schedule }, token), 'Failed to save working hours');
+  };
+
+  const handleAddTimeOff = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token || !timeOff.startsOn) return;
+
+    runAction('time-off', async () => {
+      const response = await apiService.addTimeOff({
+        startsOn: timeOff.startsOn,
+        endsOn: timeOff.endsOn || timeOff.startsOn,
+        note: timeOff.note.trim() || undefined,
+      }, token);
+      setTimeOff({ startsOn: '', endsOn: '', note: '' });
+      return response;
+    }, 'Failed to add out of office');
+  };
+
+  const handleRemoveTimeOff = (id: string) => {
+    if (!token) return;
+    runAction(id, () => apiService.removeTimeOff(id, token), 'Failed to remove out of office');
+  };
+
+  return (
+    <div className="flex-1 flex flex-col bg-gray-50 h-full">
+      {/* Header */}
+      <div className="bg-white border-b border-gray-200 p-6">
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-4">
+            <div className="w-12 h-12 bg-blue-100 rounded-full flex items-center justify-center">
+              <CalendarClock className="w-6 h-6 text-blue-600" />
+            </div>
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Availability</h1>
+              <p className="text-gray-600">When you can take new inquiries. Automatic assignment skips you while you are away.</p>
+            </div>
+          </div>
+          <div className="flex items-center gap-3">
+            {availability && (
+              <span className={`px-3 py-1 rounded-full text-sm font-medium ${AVAILABILITY_STYLES[availability.status.state]}`}>
+                {describeAvailability(availability.status)}
+              </span>
+            )}
+            <button
+              onClick={loadAvailability}
+              disabled={isLoading}
+              className="p-2 text-gray-400 hover:text-gray-600 rounded-lg hover:bg-gray-100 transition-colors disabled:opacity-50"
+              title="Refresh availability"
+            >
+              <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 border-b border-red-200">
+          <div className="flex items-center gap-3">
+            <AlertCircle className="w-5 h-5 text-red-500" />
+            <p className="text-red-700 text-sm">{error}</p>
+          </div>
+        </div>
+      )}
+
+      {notice && (
+        <div className="p-4 bg-green-50 border-b border-green-200">
+          <p className="text-green-700 text-sm">{notice}</p>
+        </div>
+      )}
+
+      {availability && (
+        <div className="flex-1 p-6 overflow-y-auto space-y-6">
+          {/* Working hours */}
+          <form onSubmit={handleSaveSchedule} className="bg-white rounded-lg border border-gray-200">
+            <div className="p-4 border-b border-gray-200">
+              <h3 className="text-lg font-semibold text-gray-900">Working hours</h3>
+            </div>
+            <div className="p-4 space-y-4">
+              <div className="flex flex-wrap items-end gap-3">
+                <div className="flex-1 min-w-[220px]">
+                  <label htmlFor="availability-timezone" className="block text-xs font-medium text-gray-700 mb-1">Timezone</label>
+                  <input
+                    id="availability-timezone"
+                    type="text"
+                    list="availability-timezones"
+                    value={timezone}
+                    onChange={(e) => setTimezone(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                  <datalist id="availability-timezones">
+                    {COMMON_TIME_ZONES.map(zone => <option key={zone} value={zone} />)}
+                  </datalist>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => setTimezone(getBrowserTimeZone())}
+                  className="px-3 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  Use this device's timezone
+                </button>
+              </div>
+
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={schedule !== null}
+                  onChange={(e) => setSchedule(e.target.checked ? DEFAULT_SCHEDULE : null)}
+                  className="rounded border-gray-300"
+                />
+                Follow a weekly schedule
+              </label>
+
+              {schedule === null ? (
+                <p className="text-sm text-gray-500">Without a schedule you count as available at any time, unless you set yourself away.</p>
+              ) : (
+                <div className="divide-y divide-gray-100">
+                  {WEEKDAYS.map(day => {
+                    const shifts = schedule[day] || [];
+                    const shift = shifts[0];
+
+                    return (
+                      <div key={day} className="flex flex-wrap items-center gap-3 py-2">
+                        <label className="flex items-center gap-2 w-24 text-sm text-gray-700">
+                          <input
+                            type="checkbox"
+                            checked={!!shift}
+                            onChange={(e) => updateDay(day, e.target.checked ? DEFAULT_SHIFT : null)}
+                            className="rounded border-gray-300"
+                          />
+                          {WEEKDAY_LABELS[day]}
+                        </label>
+                        {shift ? (
+                          <>
+                            <input
+                              type="time"
+                              value={shift.start}
+                              onChange={(e) => updateDay(day, { ...shift, start: e.target.value })}
+                              aria-label={`${WEEKDAY_LABELS[day]} start`}
+                              className="px-2 py-1 border border-gray-300 rounded-lg text-sm"
+                            />
+                            <span className="text-gray-400 text-sm">to</span>
+                            <input
+                              type="time"
+                              value={shift.end}
+                              onChange={(e) => updateDay(day, { ...shift, end: e.target.value })}
+                              aria-label={`${WEEKDAY_LABELS[day]} end`}
+                              className="px-2 py-1 border border-gray-300 rounded-lg text-sm"
+                            />
+                            {shifts.length > 1 && (
+                              <span className="text-xs text-gray-500">
+                                +{shifts.length - 1} more shift{shifts.length === 2 ? '' : 's'}
+                              </span>
+                            )}
+                          </>
+                        ) : (
+                          <span className="text-sm text-gray-400">Off</span>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+
+              <button
+                type="submit"
+                disabled={busy !== null || !timezone.trim()}
+                className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                {busy === 'schedule' ? 'Saving...' : 'Save working hours'}
+              </button>
+            </div>
+          </form>
+
+          {/* Out of office */}
+          <div className="bg-white rounded-lg border border-gray-200">
+            <div className="p-4 border-b border-gray-200 flex items-center gap-2">
+              <Palmtree className="w-4 h-4 text-purple-600" />
+              <h3 className="text-lg font-semibold text-gray-900">Out of office</h3>
+            </div>
+
+            {availability.timeOff.length === 0 ? (
+              <div className="p-6 text-center text-gray-500 text-sm">No upcoming time off</div>
+            ) : (
+              <div className="divide-y divide-gray-200">
+                {availability.timeOff.map(range => (
+                  <div key={range.id} className="p-4 flex items-center justify-between gap-4">
+                    <div className="min-w-0">
+                      <p className="font-medium text-gray-900">
+                        {range.startsOn === range.endsOn ? range.startsOn : `${range.startsOn} to ${range.endsOn}`}
+                      </p>
+                      {range.note && <p className="text-sm text-gray-600 truncate">{range.note}</p>}
+                    </div>
+                    <button
+                      onClick={() => handleRemoveTimeOff(range.id)}
+                      disabled={busy !== null}
+                      className="p-2 text-gray-400 hover:text-red-600 rounded-lg hover:bg-red-50 transition-colors disabled:opacity-50"
+                      title="Remove"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <form onSubmit={handleAddTimeOff} className="p-4 border-t border-gray-200 flex flex-wrap items-end gap-3">
+              <div>
+                <label htmlFor="time-off-start" className="block text-xs font-medium text-gray-700 mb-1">From</label>
+                <input
+                  id="time-off-start"
+                  type="date"
+                  value={timeOff.startsOn}
+                  onChange={(e) => setTimeOff({ ...timeOff, startsOn: e.target.value })}
+                  className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <div>
+                <label htmlFor="time-off-end" className="block text-xs font-medium text-gray-700 mb-1">To (inclusive)</label>
+                <input
+                  id="time-off-end"
+                  type="date"
+                  value={timeOff.endsOn}
+                  min={timeOff.startsOn || undefined}
+                  onChange={(e) => setTimeOff({ ...timeOff, endsOn: e.target.value })}
+                  className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <div className="flex-1 min-w-[180px]">
+                <label htmlFor="time-off-note" className="block text-xs font-medium text-gray-700 mb-1">Note (optional)</label>
+                <input
+                  id="time-off-note"
+                  type="text"
+                  value={timeOff.note}
+                  maxLength={200}
+                  onChange={(e) => setTimeOff({ ...timeOff, note: e.target.value })}
+                  placeholder="Holiday, training..."
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <button
+                type="submit"
+                disabled={busy !== null || !timeOff.startsOn}
+                className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                {busy === 'time-off' ? 'Adding...' : 'Add'}
+              </button>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Clock } from 'lucide-react';
+import { apiService } from '../../services/api';
+import { useAuth } from '../../contexts/AuthContext';
+import { AVAILABILITY_STYLES, describeAvailability } from '../../utils/availability';
+import type { AvailabilityOverride, ExpertAvailability } from '../../types';
+
+interface AvailabilityToggleProps {
+  // Bumped when availability is changed elsewhere, so the badge reloads
+  refreshKey?: number;
+  onOpenSettings: () => void;
+}
+
+// Shifts start and end while the dashboard is open
+const REFRESH_INTERVAL_MS = 5 * 60 * 1000;
+
+export function AvailabilityToggle({ refreshKey, onOpenSettings }: AvailabilityToggleProps) {
+  const { token } = useAuth();
+  const [availability, setAvailability] = useState<ExpertAvailability | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadAvailability = useCallback(async () => {
+    if (!token) return;
+
+    try {
+      const response = await apiService.getAvailability(token);
+      setAvailability(response.availability);
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load availability:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load availability');
+    }
+  }, [token]);
+
+  useEffect(() => {
+    loadAvailability();
+    const interval = setInterval(loadAvailability, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [loadAvailability, refreshKey]);
+
+  const handleOverrideChange = async (value: string) => {
+    if (!token) return;
+
+    setIsSaving(true);
+    try {
+      const response = await apiService.setAvailabilityOverride((value || null) as AvailabilityOverride | null, token);
+      setAvailability(response.availability);
+      setError(null);
+    } catch (err) {
+      console.error('Failed to set availability:', err);
+      setError(err instanceof Error ? err.message : 'Failed to set availability');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!availability) {
+    return error ? <p className="text-xs text-red-600 mt-1">{error}</p> : null;
+  }
+
+  return (
+    <div className="mt-2 space-y-1">
+      <span className={`inline-block px-2 py-0.5 rounded-full text-xs font-medium ${AVAILABILITY_STYLES[availability.status.state]}`}>
+        {describeAvailability(availability.status)}
+      </span>
+      <div className="flex items-center gap-2">
+        <select
+          value={availability.override || ''}
+          onChange={(e) => handleOverrideChange(e.target.value)}
+          disabled={isSaving}
+          aria-label="Availability"
+          className="text-xs px-2 py-1 border border-gray-300 rounded-lg bg-white disabled:opacity-50"
+        >
+          <option value="">Follow schedule</option>
+          <option value="available">Available</option>
+          <option value="away">Away</option>
+        </select>
+        <button
+          onClick={onOpenSettings}
+          className="flex items-center gap-1 text-xs text-blue-600 hover:text-blue-700"
+        >
+          <Clock className="w-3 h-3" />
+          Working hours
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -1,5 +1,7 @@
 import React, { useState } from 'react';
-import { X, MessageSquare, User, Mail, Phone, Calendar, CheckCircle, Clock, AlertCircle } from 'lucide-react';
+import { X, MessageSquare, User, Mail, Phone, Calendar, CheckCircle, Clock, AlertCircle, Shuffle } from 'lucide-react';
+import { INQUIRY_STATUS_STYLES, getInquiryStatusLabel } from '../../utils/inquiryStatus';
+import type { InquiryHandoff, InquiryStatus } from '../../types';
 
 interface ConversationDetails {
   id: string;
@@ -11,7 +13,8 @@ interface ConversationDetails {
   status: string;
   created_at: string;
   expert_accepted: boolean;
-  expert_accepted_at?: string;
+  expert_accepted_at?: string | null;
+  handoff?: InquiryHandoff | null;
 }
 
 interface ConversationAcceptanceModalProps {
@@ -148,6 +151,24 @@ export function ConversationAcceptanceModal({
             </div>
           </div>
 
+          {/* Handoff note from a reassignment; internal, never shown to the traveler */}
+          {conversation.handoff && (
+            <div className="bg-purple-50 border border-purple-200 rounded-lg p-4">
+              <h3 className="text-lg font-medium text-gray-900 mb-1 flex items-center gap-2">
+                <Shuffle className="w-5 h-5 text-purple-600" />
+                Handoff Note
+              </h3>
+              <p className="text-sm text-gray-600 mb-3">
+                Reassigned to you{conversation.handoff.fromExpertName && ` from ${conversation.handoff.fromExpertName}`}
+                {conversation.handoff.createdByName && ` by ${conversation.handoff.createdByName}`}
+                {` on ${formatDate(conversation.handoff.createdAt)}`}
+              </p>
+              <div className="bg-white rounded-lg p-4 border border-purple-200">
+                <p className="text-gray-800 leading-relaxed whitespace-pre-wrap break-words">{conversation.handoff.note}</p>
+              </div>
+            </div>
+          )}
+
           {/* Initial Message */}
           <div className="bg-blue-50 rounded-lg p-4">
             <h3 className="text-lg font-medium text-gray-900 mb-3 flex items-center gap-2">
@@ -169,13 +190,10 @@ export function ConversationAcceptanceModal({
               </div>
               <div className="flex justify-between">
                 <span className="text-gray-600">Current Status:</span>
-                <span className={`font-medium ${
-                  conversation.status === 'assigned' ? 'text-orange-600' :
-                  conversation.status === 'in_progress' ? 'text-blue-600' :
-                  conversation.status === 'resolved' ? 'text-green-600' :
-                  'text-gray-600'
+                <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                  INQUIRY_STATUS_STYLES[conversation.status as InquiryStatus] ?? 'bg-gray-100 text-gray-800'
                 }`}>
-                  {conversation.status.charAt(0).toUpperCase() + conversation.status.slice(1).replace('_', ' ')}
+                  {getInquiryStatusLabel(conversation.status)}
                 </span>
               </div>
               {conversation.expert_accepted_at && (
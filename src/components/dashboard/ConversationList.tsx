@@ -1,7 +1,10 @@
+import { useState, useEffect } from 'react';
 import { MessageCircle, Clock, Wifi, ChevronDown, Activity } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
+import { SlaBadge } from './SlaBadge';
+import { getMostUrgentClock } from '../../utils/sla';
 
-import type { TwilioConversation } from '../../types';
+import type { SlaClock, TwilioConversation } from '../../types';
 
 interface ConversationListProps {
   conversations: TwilioConversation[];
@@ -12,8 +15,12 @@ interface ConversationListProps {
   onLoadMore?: () => void;
   loadingMore?: boolean;
   acceptedConversations?: Set<string>;
+  slaClocks?: Map<string, SlaClock[]>; // Running SLA clocks by conversation SID
 }
 
+// How often SLA countdowns are redrawn
+const SLA_TICK_MS = 30 * 1000;
+
 export function ConversationList({
   conversations,
   selectedConversationSid,
@@ -23,8 +30,17 @@ export function ConversationList({
   onLoadMore,
   loadingMore = false,
   acceptedConversations,
+  slaClocks,
 }: ConversationListProps) {
-  const { user } = useAuth();
+  const { can } = useAuth();
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (!slaClocks || slaClocks.size === 0) return;
+
+    const interval = setInterval(() => setNow(Date.now()), SLA_TICK_MS);
+    return () => clearInterval(interval);
+  }, [slaClocks]);
 
 
   const formatTime = (date: Date) => {
@@ -128,6 +144,7 @@ export function ConversationList({
         const isSelected = conversation.sid === selectedConversationSid;
         const displayName = conversation.friendlyName || conversation.uniqueName || `Conversation ${conversation.sid.slice(-6)}`;
         const status = getConversationStatus(conversation);
+        const urgentClock = getMostUrgentClock(slaClocks?.get(conversation.sid) || []);
         
         return (
           <button
@@ -147,7 +164,7 @@ export function ConversationList({
                   }`}>
                     {displayName}
                   </h3>
-                  {user?.role === 'expert' && acceptedConversations && !acceptedConversations.has(conversation.sid) && (
+                  {can('inquiry.accept') && acceptedConversations && !acceptedConversations.has(conversation.sid) && (
                     <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-red-100 text-red-800">
                       UNACCEPTED
                     </span>
@@ -158,6 +175,12 @@ export function ConversationList({
                     </div>
                   )}
                 </div>
+
+                {urgentClock && (
+                  <div className="mb-1">
+                    <SlaBadge clock={urgentClock} now={now} />
+                  </div>
+                )}
                 
                 <div className="flex items-center gap-3 text-xs text-gray-500">
                   <div className="flex items-center gap-1">
@@ -1,7 +1,16 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { LogOut, MessageCircle, AlertCircle, Users, Shield, Phone, RefreshCw, Wifi, WifiOff, Plus, Loader2 } from 'lucide-react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { LogOut, MessageCircle, AlertCircle, Users, Shield, Phone, RefreshCw, Wifi, WifiOff, Plus, Loader2, UserPlus, ShieldCheck, MonitorSmartphone, ScrollText, UserCog, CalendarClock, AlarmClock } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
+import {
+  useConversationStore,
+  selectConversations,
+  selectActiveConversation,
+  selectAcceptedConversationSids,
+} from '../../contexts/conversationStore';
 import { twilioService } from '../../services/twilio';
+import { messageOutbox } from '../../services/messageOutbox';
+import { splitMessage, getMessageChannel, CHANNEL_LIMITS } from '../../utils/messageSplitter';
+import { hasInquiryListParams } from '../../utils/inquiryFilters';
 import { apiService } from '../../services/api';
 import { ConversationList } from './ConversationList';
 import { MessageView } from './MessageView';
@@ -10,35 +19,58 @@ import { InquiryCreator } from './InquiryCreator';
 import { InquiriesViewer } from './InquiriesViewer';
 import { InquiriesMainView } from './InquiriesMainView';
 import { DashboardHome } from './DashboardHome';
+import { InviteManager } from './InviteManager';
+import { EmailVerificationBanner } from './EmailVerificationBanner';
+import { SecuritySettings } from './SecuritySettings';
+import { DevicesSessions } from './DevicesSessions';
+import { AuditLogViewer } from './AuditLogViewer';
+import { SlaBreachReport } from './SlaBreachReport';
+import { UserManager } from './UserManager';
+import { AvailabilitySettings } from './AvailabilitySettings';
+import { AvailabilityToggle } from './AvailabilityToggle';
 import { ConversationAcceptancePopup } from './ConversationAcceptancePopup';
-import type { TwilioConversation, TwilioMessage, ConnectionStatus, PollingStatus } from '../../types';
+import type { TwilioConversation, ConnectionStatus, OutboxEntry, PollingStatus, SlaClock } from '../../types';
 
-type DashboardView = 'home' | 'conversations' | 'inquiries';
+// Clocks start and stop with webhooks the browser does not see, so they are reloaded regularly
+const SLA_REFRESH_INTERVAL_MS = 60 * 1000;
+
+type DashboardView = 'home' | 'conversations' | 'inquiries' | 'users' | 'invites' | 'audit' | 'security' | 'sessions' | 'availability' | 'sla';
 
 export function Dashboard() {
-  const { user, logout, token } = useAuth();
-  const [currentView, setCurrentView] = useState<DashboardView>('home');
+  const { user, logout, token, can } = useAuth();
+  const {
+    state: store,
+    loadConversations,
+    loadMoreConversations,
+    syncConversations,
+    loadConversationParticipants,
+    setActiveConversation,
+    loadMessages,
+    markConversationsAccepted,
+    acceptConversationBySid,
+  } = useConversationStore();
+  // A link to a filtered inquiry list opens straight on that list
+  const [currentView, setCurrentView] = useState<DashboardView>(() => (hasInquiryListParams() ? 'inquiries' : 'home'));
+  const [availabilityVersion, setAvailabilityVersion] = useState(0);
   
-  // Conversation state
-  const [conversations, setConversations] = useState<TwilioConversation[]>([]);
-  const [selectedConversationSid, setSelectedConversationSid] = useState<string | null>(null);
-  const [messages, setMessages] = useState<TwilioMessage[]>([]);
-  const [isLoadingConversations, setIsLoadingConversations] = useState(true);
-  const [isLoadingMessages, setIsLoadingMessages] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-  const [lastRefresh, setLastRefresh] = useState<Date>(new Date());
+  // Conversation state lives in the shared store
+  const conversations = selectConversations(store);
+  const selectedConversationSid = store.activeConversationSid;
+  const selectedConversation = selectActiveConversation(store);
+  const isLoadingConversations = store.loading.conversations;
+  const acceptedConversations = selectAcceptedConversationSids(store);
+  const [localError, setError] = useState<string | null>(null);
+  const error = localError || store.error;
   
   // Connection state
   const [twilioInitialized, setTwilioInitialized] = useState(false);
   const [connectionStatus, setConnectionStatus] = useState<string>('unknown');
-  
-  // Pagination state
-  const [currentPage, setCurrentPage] = useState(1);
-  const [hasMoreConversations, setHasMoreConversations] = useState(false);
-  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [pollingStatus, setPollingStatus] = useState<PollingStatus | null>(null);
+
+  // Running SLA clocks by conversation SID, for the countdowns in the conversation list
+  const [slaClocks, setSlaClocks] = useState<Map<string, SlaClock[]>>(new Map());
   
   // Expert acceptance state
-  const [acceptedConversations, setAcceptedConversations] = useState<Set<string>>(new Set());
   const [pendingAcceptanceConversation, setPendingAcceptanceConversation] = useState<{
     sid: string;
     data: any;
@@ -47,7 +79,13 @@ export function Dashboard() {
   const [isAcceptingConversation, setIsAcceptingConversation] = useState(false);
   
   // Message sending state
-  const [sendingChunks, setSendingChunks] = useState<{ current: number; total: number } | null>(null);
+  const [outboxEntries, setOutboxEntries] = useState<OutboxEntry[]>([]);
+  const sendingChunks = useMemo(() => {
+    const sending = outboxEntries.find(entry =>
+      entry.conversationSid === selectedConversationSid && entry.status === 'sending' && entry.parts > 1
+    );
+    return sending ? { current: sending.part, total: sending.parts } : null;
+  }, [outboxEntries, selectedConversationSid]);
 
   // Initialize Twilio when component mounts
   useEffect(() => {
@@ -56,6 +94,29 @@ export function Dashboard() {
     }
   }, [token, twilioInitialized]);
 
+  // Twilio token renewal authenticates with the latest (possibly refreshed) session token
+  useEffect(() => {
+    if (token && twilioInitialized) {
+      twilioService.updateAuthToken(token);
+    }
+  }, [token, twilioInitialized]);
+
+  // Outgoing messages are queued in a persisted outbox so a flaky connection never loses them
+  const userId = user?.id;
+  useEffect(() => {
+    if (userId && token) {
+      messageOutbox.start(userId, token);
+    }
+  }, [userId, token]);
+
+  useEffect(() => {
+    const unsubscribe = messageOutbox.subscribe(setOutboxEntries);
+    return () => {
+      unsubscribe();
+      messageOutbox.stop();
+    };
+  }, []);
+
   // Load conversations when Twilio is ready
   useEffect(() => {
     if (twilioInitialized && token) {
@@ -84,6 +145,34 @@ export function Dashboard() {
     };
   }, []);
 
+  // SLA clocks only matter while the conversation list is showing
+  useEffect(() => {
+    if (!token || currentView !== 'conversations') return;
+
+    const loadSlaClocks = async () => {
+      try {
+        const response = await apiService.getSlaClocks(token);
+        setSlaClocks(new Map(
+          response.data
+            .filter(inquiry => inquiry.conversationSid)
+            .map(inquiry => [inquiry.conversationSid as string, inquiry.clocks])
+        ));
+      } catch (err) {
+        console.error('Failed to load SLA clocks:', err);
+      }
+    };
+
+    loadSlaClocks();
+    const interval = setInterval(loadSlaClocks, SLA_REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [token, currentView, store.lastRefresh]);
+
+  // Follow the adaptive poller so the sidebar can explain the current sync cadence
+  useEffect(() => {
+    if (!twilioInitialized) return;
+    return twilioService.onPollingStatusChange(setPollingStatus);
+  }, [twilioInitialized]);
+
   const initializeTwilio = async () => {
     try {
       console.log('🔄 Initializing Twilio...');
@@ -99,125 +188,24 @@ export function Dashboard() {
     }
   };
 
-  // OPTIMIZED: Load conversations with minimal API calls
-  const loadConversations = useCallback(async (page: number = 1) => {
-    if (!token) return;
-    
-    setIsLoadingConversations(page === 1);
-    if (page > 1) setIsLoadingMore(true);
-    
-    try {
-      console.log(`⚡ ULTRA FAST: Loading conversations page ${page}...`);
-      const startTime = performance.now();
-      
-      const response = await apiService.getMainConversations(token, page, 15);
-      const loadTime = performance.now() - startTime;
-      
-      console.log(`⚡ ULTRA FAST: Loaded ${response.conversations?.length || 0} conversations in ${loadTime.toFixed(2)}ms`);
-      
-      const twilioConversations = response.conversations || [];
-      
-      // Transform to match expected format
-      const formattedConversations = twilioConversations.map(conv => ({
-        ...conv,
-        dateCreated: new Date(conv.dateCreated),
-        dateUpdated: new Date(conv.dateUpdated),
-        participants: [], // Will be loaded on-demand
-        lastMessage: undefined // Will be loaded on-demand
-      }));
-      
-      if (page === 1) {
-        setConversations(formattedConversations);
-        setCurrentPage(1);
-      } else {
-        // Append to existing conversations for pagination
-        setConversations(prev => [...prev, ...formattedConversations]);
-        setCurrentPage(page);
-      }
-      
-      // Update pagination state
-      setHasMoreConversations(response.pagination?.hasMore || false);
-      
-      setLastRefresh(new Date());
-      console.log(`✅ FAST: Conversations loaded with lazy participant loading enabled`);
-      
-    } catch (err) {
-      console.error('❌ Failed to load conversations:', err);
-      setError(err instanceof Error ? err.message : 'Failed to load conversations');
-    } finally {
-      setIsLoadingConversations(false);
-      setIsLoadingMore(false);
-    }
-  }, [token]);
-
-  // FAST: Load participants for a specific conversation on-demand
-  const loadConversationParticipants = useCallback(async (conversationSid: string) => {
-    if (!token) return;
-    
-    try {
-      console.log(`👥 Lazy loading participants for: ${conversationSid}`);
-      const participantData = await apiService.getConversationParticipants(token, conversationSid);
-      
-      // Update the conversation in state with participant data
-      setConversations(prev => prev.map(conv => 
-        conv.sid === conversationSid 
-          ? { 
-              ...conv, 
-              participants: participantData.participants || [],
-              participantCount: participantData.participantCount || 0,
-              conversationType: participantData.conversationType || conv.conversationType
-            }
-          : conv
-      ));
-      
-      // For experts, check acceptance status for this specific conversation
-      if (user?.role === 'expert') {
-        try {
-          const acceptanceResponse = await apiService.checkConversationAcceptance(conversationSid, token);
-          if (acceptanceResponse.accepted) {
-            setAcceptedConversations(prev => new Set([...prev, conversationSid]));
-          }
-        } catch (acceptanceError) {
-          console.error(`❌ Failed to check acceptance for ${conversationSid}:`, acceptanceError);
-          // Default to accepted on error to avoid blocking access
-          setAcceptedConversations(prev => new Set([...prev, conversationSid]));
-        }
-      }
-      
-      console.log(`👥 Updated conversation ${conversationSid} with ${participantData.participants?.length || 0} participants`);
-    } catch (error) {
-      console.error(`❌ Failed to load participants for ${conversationSid}:`, error);
-    }
-  }, [token, user?.role]);
-
-  // Load more conversations (pagination)
-  const handleLoadMore = useCallback(async () => {
-    if (!hasMoreConversations || isLoadingMore) return;
-    
-    const nextPage = currentPage + 1;
-    console.log(`📄 Loading more conversations (page ${nextPage})...`);
-    await loadConversations(nextPage);
-  }, [hasMoreConversations, isLoadingMore, currentPage, loadConversations]);
-
   // Handle conversation selection with optimized acceptance check
   const handleSelectConversation = async (conversationSid: string) => {
     console.log(`👆 Selected conversation: ${conversationSid}`);
     
     // Set the selected conversation immediately for better UX
-    setSelectedConversationSid(conversationSid);
-    setMessages([]);
+    setActiveConversation(conversationSid);
     
     // Load messages immediately
     loadMessages(conversationSid);
     
     // Lazy load participants for this conversation if not already loaded
-    const selectedConv = conversations.find(c => c.sid === conversationSid);
+    const selectedConv = store.conversations[conversationSid];
     if (selectedConv && selectedConv.participants.length === 0) {
       loadConversationParticipants(conversationSid);
     }
     
     // For experts, check if conversation is accepted
-    if (user?.role === 'expert') {
+    if (can('inquiry.accept')) {
       // Only show acceptance modal if we know it's not accepted
       const isCurrentlyAccepted = acceptedConversations.has(conversationSid);
       
@@ -225,19 +213,19 @@ export function Dashboard() {
         // Skip acceptance check - just allow access to avoid blocking workflow
         try {
           // First check if conversation exists in our main conversations list
-          const conversationExists = conversations.find(c => c.sid === conversationSid);
+          const conversationExists = store.conversations[conversationSid];
           
           if (conversationExists) {
             // Allow access immediately - skip acceptance checks to prevent blocking
             console.log(`✅ Allowing expert access to conversation ${conversationSid} (found in main list)`);
-            setAcceptedConversations(prev => new Set([...prev, conversationSid]));
+            markConversationsAccepted([conversationSid]);
           } else {
             // Try to load conversation details, but don't block on failure
             try {
               const conversationDetails = await apiService.getConversationDetailsBySid(conversationSid, token);
               
               if (conversationDetails.data?.expert_accepted) {
-                setAcceptedConversations(prev => new Set([...prev, conversationSid]));
+                markConversationsAccepted([conversationSid]);
               } else {
                 setPendingAcceptanceConversation({
                   sid: conversationSid,
@@ -248,12 +236,12 @@ export function Dashboard() {
             } catch (detailsError) {
               console.warn(`⚠️ Could not load conversation details, allowing access anyway:`, detailsError);
               // Allow access even if we can't verify acceptance to prevent blocking
-              setAcceptedConversations(prev => new Set([...prev, conversationSid]));
+              markConversationsAccepted([conversationSid]);
             }
           }
         } catch (error) {
           console.warn(`⚠️ Conversation access check failed, allowing access anyway:`, error);
-          setAcceptedConversations(prev => new Set([...prev, conversationSid]));
+          markConversationsAccepted([conversationSid]);
         }
       }
     }
@@ -261,7 +249,7 @@ export function Dashboard() {
 
   // Check if conversation is accepted (for experts)
   const isConversationAccepted = (conversationSid: string): boolean => {
-    if (user?.role !== 'expert') return true; // Non-experts can access all conversations
+    if (!can('inquiry.accept')) return true; // Only users who accept inquiries need to accept first
     return acceptedConversations.has(conversationSid);
   };
 
@@ -271,12 +259,8 @@ export function Dashboard() {
     
     setIsAcceptingConversation(true);
     try {
-      console.log(`🤝 Accepting conversation: ${pendingAcceptanceConversation.sid}`);
-      
-      await apiService.acceptConversationBySid(pendingAcceptanceConversation.sid, token);
-      
-      // Mark as accepted
-      setAcceptedConversations(prev => new Set([...prev, pendingAcceptanceConversation.sid]));
+      // Marks the conversation as accepted in every view
+      await acceptConversationBySid(pendingAcceptanceConversation.sid);
       
       // Close modal
       setShowAcceptanceModal(false);
@@ -294,124 +278,27 @@ export function Dashboard() {
     }
   };
 
-  // Load messages for selected conversation
-  const loadMessages = useCallback(async (conversationSid: string) => {
-    setIsLoadingMessages(true);
-    try {
-      console.log(`📨 Loading messages via backend API for: ${conversationSid}`);
-      
-      // Use backend API to fetch messages since frontend Twilio client has permission issues
-      const response = await apiService.getConversationMessages(conversationSid, token!);
-      const fetchedMessages = response.messages || [];
-      
-      console.log(`✅ Loaded ${fetchedMessages.length} messages via backend API`);
-      setMessages(fetchedMessages);
-    } catch (err) {
-      console.error('❌ Failed to load messages via backend API:', err);
-      
-      // Fallback: try Twilio frontend client (may fail due to permissions)
-      try {
-        console.log('🔄 Trying frontend Twilio client as fallback...');
-        const conversation = await twilioService.getConversation(conversationSid);
-        if (conversation) {
-          const fetchedMessages = await twilioService.getMessages(conversation);
-          setMessages(fetchedMessages);
-          console.log(`✅ Fallback: Loaded ${fetchedMessages.length} messages via frontend client`);
-        } else {
-          console.log('ℹ️ No conversation available from frontend client, keeping empty messages');
-          setMessages([]);
-        }
-      } catch (fallbackErr) {
-        console.error('❌ Fallback message loading also failed:', fallbackErr);
-        // Keep any existing messages, don't clear them
-        console.log('ℹ️ Keeping existing messages in UI');
-      }
-      
-      setError(err instanceof Error ? err.message : 'Failed to load messages');
-    } finally {
-      setIsLoadingMessages(false);
-    }
-  }, []);
-
-  // Send message with chunking for long messages
+  // Long messages are split for the conversation's channel; the outbox persists and retries each part
   const handleSendMessage = async (message: string) => {
     if (!selectedConversationSid) return;
     
-    const maxChunkSize = 1000;
-    const chunks = [];
-    
-    // Split message into chunks if needed
-    if (message.length > maxChunkSize) {
-      const totalChunks = Math.ceil(message.length / maxChunkSize);
-      for (let i = 0; i < message.length; i += maxChunkSize) {
-        const chunk = message.slice(i, i + maxChunkSize);
-        const chunkNumber = Math.floor(i / maxChunkSize) + 1;
-        chunks.push(`(${chunkNumber}/${totalChunks}) ${chunk}`);
-      }
-    } else {
-      chunks.push(message);
-    }
-    
-    // Store the initial message count to track success
-    const initialMessageCount = messages.length;
+    const channel = getMessageChannel(selectedConversation?.participants);
+    const { parts } = splitMessage(message, { channel });
+    if (parts.length === 0) return;
     
-    // Send chunks with progress tracking
-    for (let i = 0; i < chunks.length; i++) {
-      setSendingChunks({ current: i + 1, total: chunks.length });
-      
-      try {
-        console.log(`📤 Sending chunk ${i + 1}/${chunks.length} to backend...`);
-        const response = await apiService.sendExternalMessage(
-          selectedConversationSid,
-          chunks[i],
-          user?.email || 'user',
-          token!,
-          user?.role === 'admin' ? 'Baboo Team' : `${user?.name} - Local Expert`
-        );
-        
-        console.log(`✅ Backend confirmed message chunk ${i + 1} sent:`, response);
-        
-        // Add optimistic message to UI after successful API call
-        const optimisticMessage: TwilioMessage = {
-          sid: response.data?.sid || `temp_${Date.now()}_${i}`,
-          author: user?.email || 'user',
-          body: chunks[i],
-          dateCreated: new Date(),
-          type: 'text',
-          index: messages.length + i,
-          conversationSid: selectedConversationSid,
-          attributes: { from: user?.role === 'admin' ? 'Baboo Team' : `${user?.name} - Local Expert` },
-          from: user?.role === 'admin' ? 'Baboo Team' : `${user?.name} - Local Expert`
-        };
-        
-        setMessages(prev => [...prev, optimisticMessage]);
-        
-        // Add delay between chunks
-        if (i < chunks.length - 1) {
-          await new Promise(resolve => setTimeout(resolve, 2000));
-        }
-      } catch (error) {
-        console.error(`❌ Failed to send chunk ${i + 1} to backend:`, error);
-        // Don't add optimistic message if API call failed
-        throw error;
-      }
-    }
-    
-    setSendingChunks(null);
-    
-    console.log('✅ All message chunks sent successfully to backend');
+    await messageOutbox.enqueue(parts.map(part => part.text), {
+      conversationSid: selectedConversationSid,
+      author: user?.email || 'user',
+      from: user?.role === 'expert' ? `${user?.name} - Local Expert` : 'Baboo Team',
+      partDelayMs: CHANNEL_LIMITS[channel].partDelayMs,
+    });
   };
 
-  // Get selected conversation object
-  const selectedConversation = selectedConversationSid 
-    ? conversations.find(c => c.sid === selectedConversationSid) || null
-    : null;
-
   // Refresh conversations
   const handleRefreshConversations = useCallback(async () => {
     console.log('🔄 Refreshing conversations...');
-    await loadConversations(1);
-  }, [loadConversations]);
+    await syncConversations();
+  }, [syncConversations]);
 
   const handleInquiryCreated = () => {
     // Refresh conversations when new inquiry is created
@@ -458,6 +345,12 @@ export function Dashboard() {
             <div>
               <h1 className="text-xl font-semibold text-gray-900">Expert Dashboard</h1>
               <p className="text-sm text-gray-600">{user?.name}</p>
+              {can('inquiry.accept') && (
+                <AvailabilityToggle
+                  refreshKey={availabilityVersion}
+                  onOpenSettings={() => setCurrentView('availability')}
+                />
+              )}
             </div>
             <button
               onClick={logout}
@@ -479,7 +372,7 @@ export function Dashboard() {
               }`}
             >
               <MessageCircle className="w-4 h-4" />
-              {user?.role === 'expert' ? 'Inquiries' : 'Dashboard'}
+              {can('inquiry.accept') ? 'Inquiries' : 'Dashboard'}
             </button>
             
             <button
@@ -503,7 +396,101 @@ export function Dashboard() {
               }`}
             >
               <Shield className="w-4 h-4" />
-              Google Sheets
+              Inquiries
+            </button>
+
+            {can('user.manage') && (
+              <button
+                onClick={() => setCurrentView('users')}
+                className={`w-full flex items-center gap-3 px-3 py-2 rounded-lg transition-colors ${
+                  currentView === 'users'
+                    ? 'bg-blue-100 text-blue-700'
+                    : 'text-gray-600 hover:bg-gray-100'
+                }`}
+              >
+                <UserCog className="w-4 h-4" />
+                Users
+              </button>
+            )}
+
+            {can('user.invite') && (
+              <button
+                onClick={() => setCurrentView('invites')}
+                className={`w-full flex items-center gap-3 px-3 py-2 rounded-lg transition-colors ${
+                  currentView === 'invites'
+                    ? 'bg-blue-100 text-blue-700'
+                    : 'text-gray-600 hover:bg-gray-100'
+                }`}
+              >
+                <UserPlus className="w-4 h-4" />
+                Team Invites
+              </button>
+            )}
+
+            {can('audit.view') && (
+              <button
+                onClick={() => setCurrentView('audit')}
+                className={`w-full flex items-center gap-3 px-3 py-2 rounded-lg transition-colors ${
+                  currentView === 'audit'
+                    ? 'bg-blue-100 text-blue-700'
+                    : 'text-gray-600 hover:bg-gray-100'
+                }`}
+              >
+                <ScrollText className="w-4 h-4" />
+                Audit Log
+              </button>
+            )}
+
+            {can('inquiry.viewAll') && (
+              <button
+                onClick={() => setCurrentView('sla')}
+                className={`w-full flex items-center gap-3 px-3 py-2 rounded-lg transition-colors ${
+                  currentView === 'sla'
+                    ? 'bg-blue-100 text-blue-700'
+                    : 'text-gray-600 hover:bg-gray-100'
+                }`}
+              >
+                <AlarmClock className="w-4 h-4" />
+                SLA Breaches
+              </button>
+            )}
+
+            {can('inquiry.accept') && (
+              <button
+                onClick={() => setCurrentView('availability')}
+                className={`w-full flex items-center gap-3 px-3 py-2 rounded-lg transition-colors ${
+                  currentView === 'availability'
+                    ? 'bg-blue-100 text-blue-700'
+                    : 'text-gray-600 hover:bg-gray-100'
+                }`}
+              >
+                <CalendarClock className="w-4 h-4" />
+                Availability
+              </button>
+            )}
+
+            <button
+              onClick={() => setCurrentView('security')}
+              className={`w-full flex items-center gap-3 px-3 py-2 rounded-lg transition-colors ${
+                currentView === 'security'
+                  ? 'bg-blue-100 text-blue-700'
+                  : 'text-gray-600 hover:bg-gray-100'
+              }`}
+            >
+              <ShieldCheck className="w-4 h-4" />
+              Security
+            </button>
+
+            <button
+              onClick={() => setCurrentView('sessions')}
+              className={`w-full flex items-center gap-3 px-3 py-2 rounded-lg transition-colors ${
+                currentView === 'sessions'
+                  ? 'bg-blue-100 text-blue-700'
+                  : 'text-gray-600 hover:bg-gray-100'
+              }`}
+            >
+              <MonitorSmartphone className="w-4 h-4" />
+              Devices & Sessions
             </button>
           </div>
         </div>
@@ -525,7 +512,7 @@ export function Dashboard() {
                   </span>
                 </div>
                 <button
-                  onClick={() => loadConversations(1)}
+                  onClick={handleRefreshConversations}
                   disabled={isLoadingConversations}
                   className="p-1 text-gray-400 hover:text-gray-600 rounded transition-colors disabled:opacity-50"
                   title="Refresh conversations"
@@ -535,8 +522,15 @@ export function Dashboard() {
               </div>
               <p className="text-xs text-gray-500 mt-1">
                 {conversations.length} conversation{conversations.length !== 1 ? 's' : ''}
-                {lastRefresh && ` • Last refresh: ${lastRefresh.toLocaleTimeString()}`}
+                {store.lastRefresh && ` • Last refresh: ${store.lastRefresh.toLocaleTimeString()}`}
               </p>
+              {pollingStatus?.isActive && (
+                <p className="text-xs text-gray-400 mt-0.5" title={pollingStatus.reason}>
+                  {pollingStatus.mode === 'paused'
+                    ? 'Sync paused while tab is hidden'
+                    : `Auto-sync every ~${Math.round((pollingStatus.currentIntervalMs || 0) / 1000)}s (${pollingStatus.reason})`}
+                </p>
+              )}
             </div>
 
             {/* Conversation List */}
@@ -546,10 +540,11 @@ export function Dashboard() {
                 selectedConversationSid={selectedConversationSid}
                 onSelectConversation={handleSelectConversation}
                 isLoading={isLoadingConversations}
-                hasMore={hasMoreConversations}
-                onLoadMore={handleLoadMore}
-                loadingMore={isLoadingMore}
+                hasMore={store.pagination.hasMore}
+                onLoadMore={loadMoreConversations}
+                loadingMore={store.loading.moreConversations}
                 acceptedConversations={acceptedConversations}
+                slaClocks={slaClocks}
               />
             </div>
           </>
@@ -558,7 +553,9 @@ export function Dashboard() {
 
       {/* Main Content */}
       <div className="flex-1 flex flex-col h-full overflow-hidden">
-        {currentView === 'home' && user?.role === 'expert' && (
+        <EmailVerificationBanner />
+
+        {currentView === 'home' && can('inquiry.accept') && (
           <InquiriesMainView 
             onConversationAccepted={handleConversationAccepted}
             onConversationClick={(conversationSid) => {
@@ -569,34 +566,21 @@ export function Dashboard() {
           />
         )}
         
-        {currentView === 'home' && user?.role === 'admin' && (
-          <DashboardHome
-            conversations={conversations}
-            onRefreshConversations={handleRefreshConversations}
-            isLoading={isLoadingConversations}
-            error={error}
-          />
+        {currentView === 'home' && can('conversation.viewAll') && (
+          <DashboardHome error={error} />
         )}
         
         {currentView === 'conversations' && (
-          user?.role === 'admin' ? (
+          can('conversation.viewAll') ? (
             <AdminMessageView
-              conversation={selectedConversation}
-              messages={messages}
               onSendMessage={handleSendMessage}
-              onRefreshMessages={() => selectedConversationSid && loadMessages(selectedConversationSid)}
-              isLoading={isLoadingMessages}
               error={error}
               sendingChunks={sendingChunks}
               conversationType={selectedConversation ? getConversationType(selectedConversation) : 'main'}
             />
           ) : (
             <MessageView
-              conversation={selectedConversation}
-              messages={messages}
               onSendMessage={handleSendMessage}
-              onRefreshMessages={() => selectedConversationSid && loadMessages(selectedConversationSid)}
-              isLoading={isLoadingMessages}
               error={error}
               sendingChunks={sendingChunks}
               isConversationAccepted={selectedConversationSid ? isConversationAccepted(selectedConversationSid) : true}
@@ -612,10 +596,38 @@ export function Dashboard() {
         {currentView === 'inquiries' && (
           <InquiriesViewer />
         )}
+
+        {currentView === 'users' && can('user.manage') && (
+          <UserManager />
+        )}
+
+        {currentView === 'invites' && can('user.invite') && (
+          <InviteManager />
+        )}
+
+        {currentView === 'audit' && can('audit.view') && (
+          <AuditLogViewer />
+        )}
+
+        {currentView === 'sla' && can('inquiry.viewAll') && (
+          <SlaBreachReport />
+        )}
+
+        {currentView === 'availability' && can('inquiry.accept') && (
+          <AvailabilitySettings onChange={() => setAvailabilityVersion(version => version + 1)} />
+        )}
+
+        {currentView === 'security' && (
+          <SecuritySettings />
+        )}
+
+        {currentView === 'sessions' && (
+          <DevicesSessions />
+        )}
       </div>
 
-      {/* Inquiry Creator (Admin only) */}
-      {user?.role === 'admin' && currentView === 'conversations' && (
+      {/* Inquiry Creator */}
+      {can('inquiry.create') && currentView === 'conversations' && (
         <InquiryCreator onInquiryCreated={handleInquiryCreated} />
       )}
 
@@ -2,8 +2,11 @@ import React, { useState, useEffect, useCallback } from 'react';
 import { MessageCircle, Users, Shield, Phone, Wifi, WifiOff, RefreshCw, AlertCircle } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
 import { twilioService } from '../../services/twilio';
-import { apiService } from '../../services/api';
-import type { TwilioConversation } from '../../types';
+import {
+  useConversationStore,
+  selectConversations,
+  selectDMConversations,
+} from '../../contexts/conversationStore';
 
 interface DashboardSection {
   id: string;
@@ -13,35 +16,19 @@ interface DashboardSection {
 }
 
 interface DashboardHomeProps {
-  conversations: TwilioConversation[];
-  onRefreshConversations?: () => Promise<void>;
-  isLoading: boolean;
   error: string | null;
 }
 
-export function DashboardHome({ 
-  conversations, 
-  onRefreshConversations, 
-  isLoading, 
-  error 
-}: DashboardHomeProps) {
-  const { user, token } = useAuth();
+export function DashboardHome({ error }: DashboardHomeProps) {
+  const { token, can } = useAuth();
+  const { state: store, syncConversations, loadDMConversations } = useConversationStore();
   const [activeSection, setActiveSection] = useState<string>('main');
-  const [sectionData, setSectionData] = useState<{
-    main: TwilioConversation[];
-    dm_experts: any[];
-    dm_travelers: any[];
-  }>({
-    main: [],
-    dm_experts: [],
-    dm_travelers: [],
-  });
-  const [loading, setLoading] = useState(false);
-  const [sectionError, setSectionError] = useState<string | null>(null);
+  const conversations = selectConversations(store);
+  const loading = store.loading.dmConversations;
   const [connectionStatus, setConnectionStatus] = useState<string>('unknown');
   const [isRefreshing, setIsRefreshing] = useState(false);
 
-  // Define sections based on user role
+  // Define sections based on user permissions
   const expertSections: DashboardSection[] = [
     {
       id: 'main',
@@ -78,7 +65,9 @@ export function DashboardHome({
     },
   ];
 
-  const sections = user?.role === 'admin' ? adminSections : expertSections;
+  const sections = can('conversation.viewAll')
+    ? adminSections.filter(section => section.id !== 'dm_travelers' || can('traveler.dm.view'))
+    : expertSections;
   const activeTab = sections.find(s => s.id === activeSection);
 
   // Monitor Twilio connection status
@@ -109,7 +98,7 @@ export function DashboardHome({
       // Refresh both section data and conversations
       await Promise.all([
         loadSectionData(),
-        onRefreshConversations ? onRefreshConversations() : Promise.resolve()
+        syncConversations()
       ]);
     } catch (error) {
       console.error('Failed to refresh:', error);
@@ -128,7 +117,7 @@ export function DashboardHome({
       }
       await Promise.all([
         loadSectionData(),
-        onRefreshConversations ? onRefreshConversations() : Promise.resolve()
+        syncConversations()
       ]);
     } catch (error) {
       console.error('Failed to force refresh:', error);
@@ -148,46 +137,32 @@ export function DashboardHome({
   const ConnectionIcon = connectionDisplay.icon;
 
   // Load data for current section
-  const loadSectionData = async () => {
-    if (!token || !activeSection) return;
-    
-    setLoading(true);
-    setSectionError(null);
-    try {
-      switch (activeSection) {
-        case 'main':
-          // Main conversations are handled by parent component - no additional loading needed
-          console.log('⚡ FAST MODE: Main conversations managed by parent component');
-          break;
-          
-        case 'dm_experts':
-          if (user?.role === 'admin') {
-            const response = await apiService.getExpertAdminDMs(token);
-            setSectionData(prev => ({ ...prev, dm_experts: response.conversations || [] }));
-          }
-          break;
-          
-        case 'dm_travelers':
-          if (user?.role === 'admin') {
-            const response = await apiService.getAdminTravelerDMs(token);
-            setSectionData(prev => ({ ...prev, dm_travelers: response.conversations || [] }));
-          }
-          break;
-          
-        case 'dm_admins':
-          if (user?.role === 'expert') {
-            const response = await apiService.getExpertAdminDMs(token);
-            setSectionData(prev => ({ ...prev, dm_experts: response.conversations || [] }));
-          }
-          break;
-      }
-    } catch (err) {
-      console.error(`Failed to load ${activeSection} data:`, err);
-      setSectionError(err instanceof Error ? err.message : `Failed to load ${activeSection} data`);
-    } finally {
-      setLoading(false);
+  const loadSectionData = useCallback(async () => {
+    switch (activeSection) {
+      case 'main':
+        // Main conversations are handled by the conversation store - no additional loading needed
+        console.log('⚡ FAST MODE: Main conversations managed by conversation store');
+        break;
+        
+      case 'dm_experts':
+        if (can('conversation.viewAll')) {
+          await loadDMConversations('expert_admin_dm');
+        }
+        break;
+        
+      case 'dm_travelers':
+        if (can('traveler.dm.view')) {
+          await loadDMConversations('admin_traveler_dm');
+        }
+        break;
+        
+      case 'dm_admins':
+        if (can('conversation.viewAssigned')) {
+          await loadDMConversations('expert_admin_dm');
+        }
+        break;
     }
-  };
+  }, [activeSection, can, loadDMConversations]);
 
   // Load section data when active section changes
   useEffect(() => {
@@ -196,22 +171,15 @@ export function DashboardHome({
     }
   }, [activeSection, token]);
 
-  // Update main conversations from props
-  useEffect(() => {
-    if (activeSection === 'main') {
-      setSectionData(prev => ({ ...prev, main: conversations }));
-    }
-  }, [conversations, activeSection]);
-
   const getActiveData = () => {
     switch (activeSection) {
       case 'main':
         return conversations;
       case 'dm_experts':
       case 'dm_admins':
-        return sectionData.dm_experts;
+        return selectDMConversations(store, 'expert_admin_dm');
       case 'dm_travelers':
-        return sectionData.dm_travelers;
+        return selectDMConversations(store, 'admin_traveler_dm');
       default:
         return [];
     }
@@ -290,11 +258,11 @@ export function DashboardHome({
       </div>
 
       {/* Error Display */}
-      {(error || sectionError) && (
+      {(error || store.error) && (
         <div className="p-4 bg-red-50 border-b border-red-200">
           <div className="flex items-center gap-3">
             <AlertCircle className="w-5 h-5 text-red-500" />
-            <p className="text-red-700 text-sm">{error || sectionError}</p>
+            <p className="text-red-700 text-sm">{error || store.error}</p>
           </div>
         </div>
       )}
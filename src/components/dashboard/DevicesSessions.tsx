@@ -0,0 +1,275 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { MonitorSmartphone, AlertCircle, RefreshCw, XCircle, LogOut } from 'lucide-react';
+import { apiService } from '../../services/api';
+import { useAuth } from '../../contexts/AuthContext';
+import { ROLE_LABELS } from '../../utils/permissions';
+import { describeUserAgent } from '../../utils/userAgent';
+import type { AdminUserSession, UserSession } from '../../types';
+
+function SessionDetails({ session }: { session: UserSession }) {
+  return (
+    <div className="min-w-0">
+      <div className="flex items-center gap-2">
+        <span className="font-medium text-gray-900">{describeUserAgent(session.userAgent)}</span>
+        {session.current && (
+          <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">This device</span>
+        )}
+      </div>
+      <p className="text-xs text-gray-500 mt-1">
+        Last active {new Date(session.lastSeenAt).toLocaleString()}
+        {session.ipAddress && ` • ${session.ipAddress}`}
+        {` • Signed in ${new Date(session.createdAt).toLocaleDateString()}`}
+      </p>
+    </div>
+  );
+}
+
+export function DevicesSessions() {
+  const { token, user, can, logout } = useAuth();
+  const canManageAll = can('user.sessions.manage');
+  const [sessions, setSessions] = useState<UserSession[]>([]);
+  const [allSessions, setAllSessions] = useState<AdminUserSession[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSessions = useCallback(async () => {
+    if (!token) return;
+
+    setIsLoading(true);
+    try {
+      const [own, all] = await Promise.all([
+        apiService.getSessions(token),
+        canManageAll ? apiService.getAllUserSessions(token) : Promise.resolve(null),
+      ]);
+      setSessions(own.sessions);
+      setAllSessions(all ? all.sessions : []);
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load sessions:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load sessions');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [token, canManageAll]);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  // Other users' sessions, grouped per person
+  const sessionsByUser = useMemo(() => {
+    const groups = new Map<string, AdminUserSession[]>();
+    allSessions
+      .filter(session => session.user.id !== user?.id)
+      .forEach(session => {
+        groups.set(session.user.id, [...(groups.get(session.user.id) || []), session]);
+      });
+    return Array.from(groups.values());
+  }, [allSessions, user?.id]);
+
+  const runAction = async (id: string, action: () => Promise<unknown>, failureMessage: string) => {
+    setBusyId(id);
+    setError(null);
+    try {
+      await action();
+      await loadSessions();
+    } catch (err) {
+      console.error(`${failureMessage}:`, err);
+      setError(err instanceof Error ? err.message : failureMessage);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRevoke = (session: UserSession) => {
+    if (!token) return;
+
+    // Revoking this device is a normal sign-out
+    if (session.current) {
+      logout();
+      return;
+    }
+
+    runAction(session.id, () => apiService.revokeSession(session.id, token), 'Failed to revoke session');
+  };
+
+  const handleSignOutOthers = () => {
+    if (!token) return;
+    if (!window.confirm('Sign out of every other device?')) return;
+
+    runAction('others', () => apiService.revokeAllSessions(false, token), 'Failed to sign out other devices');
+  };
+
+  const handleSignOutEverywhere = async () => {
+    if (!token) return;
+    if (!window.confirm('Sign out of every device, including this one?')) return;
+
+    setBusyId('everywhere');
+    try {
+      // Other devices first; logging out then ends this session the usual way
+      await apiService.revokeAllSessions(false, token);
+      logout();
+    } catch (err) {
+      console.error('Failed to sign out everywhere:', err);
+      setError(err instanceof Error ? err.message : 'Failed to sign out everywhere');
+      setBusyId(null);
+    }
+  };
+
+  const handleAdminRevoke = (session: AdminUserSession) => {
+    if (!token) return;
+    if (!window.confirm(`Sign ${session.user.name} out of ${describeUserAgent(session.userAgent)}?`)) return;
+
+    runAction(session.id, () => apiService.revokeAnySession(session.id, token), 'Failed to revoke session');
+  };
+
+  const handleAdminRevokeUser = (target: AdminUserSession['user']) => {
+    if (!token) return;
+    if (!window.confirm(`Sign ${target.name} (${target.email}) out of every device?`)) return;
+
+    runAction(target.id, () => apiService.revokeUserSessions(target.id, token), 'Failed to revoke sessions');
+  };
+
+  const otherSessionCount = sessions.filter(session => !session.current).length;
+
+  return (
+    <div className="flex-1 flex flex-col bg-gray-50 h-full">
+      {/* Header */}
+      <div className="bg-white border-b border-gray-200 p-6">
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-4">
+            <div className="w-12 h-12 bg-blue-100 rounded-full flex items-center justify-center">
+              <MonitorSmartphone className="w-6 h-6 text-blue-600" />
+            </div>
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Devices & Sessions</h1>
+              <p className="text-gray-600">Where you are signed in. Sign out of anything you don't recognise.</p>
+            </div>
+          </div>
+          <button
+            onClick={loadSessions}
+            disabled={isLoading}
+            className="p-2 text-gray-400 hover:text-gray-600 rounded-lg hover:bg-gray-100 transition-colors disabled:opacity-50"
+            title="Refresh sessions"
+          >
+            <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 border-b border-red-200">
+          <div className="flex items-center gap-3">
+            <AlertCircle className="w-5 h-5 text-red-500" />
+            <p className="text-red-700 text-sm">{error}</p>
+          </div>
+        </div>
+      )}
+
+      <div className="flex-1 p-6 overflow-y-auto space-y-6">
+        {/* Own sessions */}
+        <div className="bg-white rounded-lg border border-gray-200">
+          <div className="p-4 border-b border-gray-200 flex items-center justify-between gap-4">
+            <h3 className="text-lg font-semibold text-gray-900">Your sessions</h3>
+            <div className="flex gap-2">
+              <button
+                onClick={handleSignOutOthers}
+                disabled={busyId !== null || otherSessionCount === 0}
+                className="px-3 py-1.5 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+              >
+                Sign out other devices
+              </button>
+              <button
+                onClick={handleSignOutEverywhere}
+                disabled={busyId !== null}
+                className="flex items-center gap-1 px-3 py-1.5 text-sm text-red-700 border border-red-200 rounded-lg hover:bg-red-50 transition-colors disabled:opacity-50"
+              >
+                <LogOut className="w-4 h-4" />
+                Sign out everywhere
+              </button>
+            </div>
+          </div>
+
+          {sessions.length === 0 ? (
+            <div className="p-8 text-center text-gray-500">
+              {isLoading ? 'Loading sessions...' : 'No active sessions'}
+            </div>
+          ) : (
+            <div className="divide-y divide-gray-200">
+              {sessions.map(session => (
+                <div key={session.id} className="p-4 flex items-center justify-between gap-4">
+                  <SessionDetails session={session} />
+                  <button
+                    onClick={() => handleRevoke(session)}
+                    disabled={busyId !== null}
+                    className="flex items-center gap-1 px-3 py-1.5 text-sm text-red-700 border border-red-200 rounded-lg hover:bg-red-50 transition-colors disabled:opacity-50"
+                  >
+                    <XCircle className="w-4 h-4" />
+                    {session.current ? 'Sign out' : busyId === session.id ? 'Revoking...' : 'Revoke'}
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Everyone else's sessions */}
+        {canManageAll && (
+          <div className="bg-white rounded-lg border border-gray-200">
+            <div className="p-4 border-b border-gray-200">
+              <h3 className="text-lg font-semibold text-gray-900">Team sessions</h3>
+              <p className="text-sm text-gray-600">Sign someone out remotely, e.g. when a device is lost or stolen.</p>
+            </div>
+
+            {sessionsByUser.length === 0 ? (
+              <div className="p-8 text-center text-gray-500">
+                {isLoading ? 'Loading sessions...' : 'Nobody else is signed in'}
+              </div>
+            ) : (
+              <div className="divide-y divide-gray-200">
+                {sessionsByUser.map(userSessions => {
+                  const target = userSessions[0].user;
+                  return (
+                    <div key={target.id} className="p-4 space-y-3">
+                      <div className="flex items-center justify-between gap-4">
+                        <div className="min-w-0">
+                          <span className="font-medium text-gray-900">{target.name}</span>
+                          <span className="ml-2 text-xs text-gray-500">{ROLE_LABELS[target.role]}</span>
+                          <p className="text-sm text-gray-600 truncate">{target.email}</p>
+                        </div>
+                        <button
+                          onClick={() => handleAdminRevokeUser(target)}
+                          disabled={busyId !== null}
+                          className="flex items-center gap-1 px-3 py-1.5 text-sm text-red-700 border border-red-200 rounded-lg hover:bg-red-50 transition-colors disabled:opacity-50"
+                        >
+                          <LogOut className="w-4 h-4" />
+                          {busyId === target.id ? 'Signing out...' : 'Sign out everywhere'}
+                        </button>
+                      </div>
+                      <div className="pl-4 border-l-2 border-gray-100 space-y-3">
+                        {userSessions.map(session => (
+                          <div key={session.id} className="flex items-center justify-between gap-4">
+                            <SessionDetails session={session} />
+                            <button
+                              onClick={() => handleAdminRevoke(session)}
+                              disabled={busyId !== null}
+                              className="p-2 text-gray-400 hover:text-red-600 rounded-lg hover:bg-red-50 transition-colors disabled:opacity-50"
+                              title="Revoke session"
+                            >
+                              <XCircle className="w-4 h-4" />
+                            </button>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+import { useState } from 'react';
+import { MailWarning } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+
+// Shown until the signed-in user confirms their email address
+export function EmailVerificationBanner() {
+  const { user, resendVerificationEmail } = useAuth();
+  const [isSending, setIsSending] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  if (!user || user.emailVerified !== false) {
+    return null;
+  }
+
+  const handleResend = async () => {
+    setIsSending(true);
+    try {
+      setNotice(await resendVerificationEmail());
+    } catch (err) {
+      setNotice(err instanceof Error ? err.message : 'Could not send a new verification email');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="px-4 py-3 bg-yellow-50 border-b border-yellow-200 flex items-center justify-between gap-4">
+      <div className="flex items-center gap-3 min-w-0">
+        <MailWarning className="w-5 h-5 text-yellow-600 flex-shrink-0" />
+        <p className="text-sm text-yellow-800">
+          {notice || `Please confirm your email address. We sent a link to ${user.email}.`}
+        </p>
+      </div>
+      <button
+        onClick={handleResend}
+        disabled={isSending}
+        className="flex-shrink-0 px-3 py-1.5 text-sm font-medium text-yellow-800 border border-yellow-300 rounded-lg hover:bg-yellow-100 transition-colors disabled:opacity-50"
+      >
+        {isSending ? 'Sending...' : 'Resend link'}
+      </button>
+    </div>
+  );
+}
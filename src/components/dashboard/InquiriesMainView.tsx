@@ -1,23 +1,19 @@
-import React, { useState, useEffect } from 'react';
-import { MessageSquare, User, Clock, CheckCircle, RefreshCw, AlertCircle, Eye, Mail, Phone, Calendar } from 'lucide-react';
+import React, { useState, useEffect, useMemo } from 'react';
+import { MessageSquare, User, Clock, CheckCircle, RefreshCw, AlertCircle, Eye, Mail, Phone, Calendar, Shuffle } from 'lucide-react';
 import { ConversationAcceptanceModal } from './ConversationAcceptanceModal';
-import { apiService } from '../../services/api';
+import { SlaBadge } from './SlaBadge';
+import { getSlaCountdown } from '../../utils/sla';
 import { useAuth } from '../../contexts/AuthContext';
+import { useConversationStore, selectInquiries } from '../../contexts/conversationStore';
+import type { ExpertConversation } from '../../types';
 
-interface PendingConversation {
-  id: string;
-  customer_name: string;
-  customer_email: string;
-  customer_phone?: string;
-  message: string;
-  conversation_sid: string;
-  status: string;
-  created_at: string;
-  updated_at: string;
-  expert_accepted: boolean;
-  expert_accepted_at?: string;
-  auto_accepted: boolean;
-}
+type PendingConversation = ExpertConversation;
+
+// Only inquiries from August 18, 2025 onwards (UTC) are shown
+const INQUIRIES_START_DATE = new Date('2025-08-18T00:00:00.000Z');
+
+// How often SLA countdowns are redrawn
+const SLA_TICK_MS = 30 * 1000;
 
 interface InquiriesMainViewProps {
   onConversationAccepted?: () => void;
@@ -26,45 +22,34 @@ interface InquiriesMainViewProps {
 
 export function InquiriesMainView({ onConversationAccepted, onConversationClick }: InquiriesMainViewProps) {
   const { token } = useAuth();
-  const [conversations, setConversations] = useState<PendingConversation[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
+  const { state: store, loadInquiries, acceptConversation } = useConversationStore();
   const [error, setError] = useState<string | null>(null);
   const [selectedConversation, setSelectedConversation] = useState<PendingConversation | null>(null);
   const [isAccepting, setIsAccepting] = useState(false);
+  const [now, setNow] = useState(Date.now());
+
+  const allConversations = selectInquiries(store);
+  const isLoading = store.loading.inquiries;
+
+  const conversations = useMemo(
+    () => allConversations.filter(conversation => new Date(conversation.created_at) >= INQUIRIES_START_DATE),
+    [allConversations]
+  );
 
   const loadConversations = async () => {
-    if (!token) return;
-    
-    try {
-      setIsLoading(true);
-      setError(null);
-      
-      const response = await apiService.getPendingConversations(token);
-      const allConversations = response.conversations || [];
-      
-      // Filter to show only inquiries from August 18, 2025 onwards (UTC)
-      const aug18_2025_utc = new Date('2025-08-18T00:00:00.000Z');
-      const filteredConversations = allConversations.filter(conversation => {
-        const createdAt = new Date(conversation.created_at);
-        return createdAt >= aug18_2025_utc;
-      });
-      
-      setConversations(filteredConversations);
-      
-      console.log(`✅ Loaded ${allConversations.length} total conversations, showing ${filteredConversations.length} from Aug 18, 2025 onwards`);
-      
-    } catch (err) {
-      console.error('❌ Failed to load conversations:', err);
-      setError(err instanceof Error ? err.message : 'Failed to load conversations');
-    } finally {
-      setIsLoading(false);
-    }
+    setError(null);
+    await loadInquiries();
   };
 
   useEffect(() => {
     loadConversations();
   }, [token]);
 
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), SLA_TICK_MS);
+    return () => clearInterval(interval);
+  }, []);
+
   const handleConversationClick = (conversation: PendingConversation) => {
     // If conversation is accepted, navigate to conversations tab
     if (conversation.expert_accepted) {
@@ -83,7 +68,8 @@ export function InquiriesMainView({ onConversationAccepted, onConversationClick
     try {
       setIsAccepting(true);
       
-      await apiService.acceptConversation(conversationId, token);
+      const conversation = conversations.find(c => c.id === conversationId);
+      await acceptConversation(conversationId, conversation?.conversation_sid || '');
       
       // Refresh the conversation list
       await loadConversations();
@@ -130,6 +116,9 @@ export function InquiriesMainView({ onConversationAccepted, onConversationClick
 
   const pendingCount = conversations.filter(c => !c.expert_accepted).length;
   const acceptedCount = conversations.filter(c => c.expert_accepted).length;
+  const overdueCount = conversations.filter(c =>
+    (c.sla || []).some(clock => getSlaCountdown(clock, now).tone === 'breached')
+  ).length;
 
   return (
     <div className="flex-1 flex flex-col bg-white h-full">
@@ -148,6 +137,11 @@ export function InquiriesMainView({ onConversationAccepted, onConversationClick
                   {pendingCount} pending acceptance
                 </span>
               )}
+              {overdueCount > 0 && (
+                <span className="inline-flex items-center px-4 py-2 rounded-full text-sm font-medium bg-red-100 text-red-800">
+                  {overdueCount} past SLA
+                </span>
+              )}
               {acceptedCount > 0 && (
                 <span className="inline-flex items-center px-4 py-2 rounded-full text-sm font-medium bg-green-100 text-green-800">
                   {acceptedCount} accepted
@@ -169,11 +163,11 @@ export function InquiriesMainView({ onConversationAccepted, onConversationClick
       </div>
 
       {/* Error Alert */}
-      {error && (
+      {(error || store.error) && (
         <div className="p-4 bg-red-50 border-b border-red-200">
           <div className="flex items-center gap-3">
             <AlertCircle className="w-5 h-5 text-red-500" />
-            <p className="text-red-700 text-sm">{error}</p>
+            <p className="text-red-700 text-sm">{error || store.error}</p>
           </div>
         </div>
       )}
@@ -288,7 +282,7 @@ export function InquiriesMainView({ onConversationAccepted, onConversationClick
                           
                           {/* Customer Info */}
                           <div className="flex-1 min-w-0">
-                            <div className="flex items-center gap-3 mb-2">
+                            <div className="flex flex-wrap items-center gap-3 mb-2">
                               <h4 className="text-lg font-semibold text-gray-900 truncate">
                                 {conversation.customer_name}
                               </h4>
@@ -303,6 +297,15 @@ export function InquiriesMainView({ onConversationAccepted, onConversationClick
                                   Pending
                                 </span>
                               )}
+                              {conversation.handoff && !conversation.expert_accepted && (
+                                <span className="inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium bg-purple-100 text-purple-800">
+                                  <Shuffle className="w-3 h-3" />
+                                  Reassigned to you
+                                </span>
+                              )}
+                              {conversation.sla?.map(clock => (
+                                <SlaBadge key={clock.metric} clock={clock} now={now} />
+                              ))}
                             </div>
                             
                             {/* Customer Details */}
@@ -1,169 +1,149 @@
-import React, { useState, useEffect } from 'react';
-import { FileText, AlertCircle, RefreshCw, Users, Calendar, Phone, Mail, MapPin, Clock, User, Star, MessageSquare, ExternalLink, Search, Filter, ChevronDown, ChevronRight } from 'lucide-react';
+import { useState, useEffect, useCallback } from 'react';
+import { FileText, AlertCircle, RefreshCw, User, Phone, Mail, Clock, MessageSquare, Search, ChevronLeft, ChevronRight, ArrowDown, ArrowUp, Upload, Download } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
 import { apiService } from '../../services/api';
 import { InquiryDetailModal } from './InquiryDetailModal';
+import { InquiryImportWizard } from './InquiryImportWizard';
+import { downloadBlob } from '../../utils/download';
+import { INQUIRY_EXPORT_FORMATS, getExportFilename } from '../../utils/exports';
+import { INQUIRY_STATUS_LABELS, INQUIRY_STATUS_STYLES, getInquiryStatusLabel } from '../../utils/inquiryStatus';
+import {
+  DEFAULT_INQUIRY_FILTERS,
+  INQUIRY_SORT_KEYS,
+  INQUIRY_SORT_LABELS,
+  UNASSIGNED_EXPERT,
+  parseInquiryListState,
+  toInquiryApiFilters,
+  writeInquiryListState,
+  type InquiryFilterForm,
+} from '../../utils/inquiryFilters';
+import type { ExpertListEntry, InquiriesResponse, InquiryExportFormat, InquiryRecord, InquirySortKey, InquiryStatus } from '../../types';
+
+const PAGE_SIZE = 25;
+
+// Wait for typing to pause before searching
+const SEARCH_DEBOUNCE_MS = 300;
+
+const ALL_STATUSES = Object.keys(INQUIRY_STATUS_LABELS) as InquiryStatus[];
 
 interface InquiryRow {
   [key: string]: string;
 }
 
-interface InquiryDetail {
-  key: string;
-  label: string;
-  value: string;
-  icon?: React.ComponentType<any>;
-  category: 'customer' | 'trip' | 'expert' | 'system' | 'follow-up';
-}
+// The detail modal shows labelled fields, keyed like the Google Sheets columns
+const toDetailRow = (inquiry: InquiryRecord): InquiryRow => ({
+  'Full Name': inquiry.customer_name,
+  'Email Address': inquiry.customer_email,
+  'Phone Number': inquiry.customer_phone || '',
+  'Extra Note for Local Expert': inquiry.message,
+  'Local Expert': inquiry.expert_name || '',
+  'Local Expert - Email Address': inquiry.expert_email || '',
+  'Stage': getInquiryStatusLabel(inquiry.status),
+  'Created': new Date(inquiry.created_at).toLocaleString(),
+  'Last Updated': new Date(inquiry.updated_at).toLocaleString(),
+  'ConversationSid': inquiry.conversation_sid || '',
+});
 
 export function InquiriesViewer() {
-  const [inquiries, setInquiries] = useState<InquiryRow[]>([]);
-  const [headers, setHeaders] = useState<string[]>([]);
+  const { token, can } = useAuth();
+  const [initialState] = useState(() => parseInquiryListState());
+  const [filters, setFilters] = useState<InquiryFilterForm>(initialState.filters);
+  const [page, setPage] = useState(initialState.page);
+  const [searchInput, setSearchInput] = useState(initialState.filters.q);
+  const [result, setResult] = useState<InquiriesResponse | null>(null);
+  const [experts, setExperts] = useState<ExpertListEntry[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [selectedInquiry, setSelectedInquiry] = useState<InquiryRow | null>(null);
-  const [lastRefresh, setLastRefresh] = useState<Date>(new Date());
-  const [searchTerm, setSearchTerm] = useState('');
-  const [statusFilter, setStatusFilter] = useState<string>('all');
-  const { token } = useAuth();
+  const [lastRefresh, setLastRefresh] = useState<Date | null>(null);
+  const [showImport, setShowImport] = useState(false);
+  const [exportingFormat, setExportingFormat] = useState<InquiryExportFormat | null>(null);
 
-  useEffect(() => {
-    if (token) {
-      loadInquiries();
-    }
-  }, [token]);
+  const canViewAll = can('inquiry.viewAll');
 
-  const loadInquiries = async () => {
-    setIsLoading(true);
-    setError(null);
+  const loadInquiries = useCallback(async () => {
+    if (!token) return;
 
+    setIsLoading(true);
     try {
-      console.log('📊 Loading inquiries from Google Sheets...');
-      const data = await apiService.getGoogleSheetData('Inquiries', token!);
-      
-      if (data && data.length > 0) {
-        const [headerRow, ...dataRows] = data;
-        setHeaders(headerRow || []);
-        
-        // Convert rows to objects using headers as keys
-        const inquiryObjects = dataRows.map(row => {
-          const inquiry: InquiryRow = {};
-          headerRow.forEach((header: string, index: number) => {
-            inquiry[header] = row[index] || '';
-          });
-          return inquiry;
-        });
-        
-        setInquiries(inquiryObjects);
-        setLastRefresh(new Date());
-        console.log(`✅ Loaded ${inquiryObjects.length} inquiries from Google Sheets`);
-      } else {
-        setInquiries([]);
-        setHeaders([]);
-        console.log('ℹ️ No data found in Google Sheets');
-      }
+      setResult(await apiService.getInquiries(token, toInquiryApiFilters(filters), page, PAGE_SIZE));
+      setLastRefresh(new Date());
+      setError(null);
     } catch (err) {
       console.error('❌ Failed to load inquiries:', err);
-      setError(err instanceof Error ? err.message : 'Failed to load inquiries from Google Sheets');
+      setError(err instanceof Error ? err.message : 'Failed to load inquiries');
     } finally {
       setIsLoading(false);
     }
-  };
+  }, [token, filters, page]);
 
-  const handleRefresh = async () => {
-    console.log('🔄 Manual refresh triggered for inquiries');
-    await loadInquiries();
-  };
+  useEffect(() => {
+    loadInquiries();
+  }, [loadInquiries]);
 
-  // Transform raw field names to user-friendly labels and categorize them
-  const transformFieldToDetail = (key: string, value: string): InquiryDetail => {
-    const fieldMappings: Record<string, { label: string; icon?: React.ComponentType<any>; category: 'customer' | 'trip' | 'expert' | 'system' | 'follow-up' }> = {
-      'Full Name': { label: 'Full Name', icon: User, category: 'customer' },
-      'First Name': { label: 'First Name', icon: User, category: 'customer' },
-      'Email Address': { label: 'Email Address', icon: Mail, category: 'customer' },
-      'Phone Number': { label: 'Phone Number', icon: Phone, category: 'customer' },
-      'Destination': { label: 'Destination', icon: MapPin, category: 'trip' },
-      'When they want to go': { label: 'Travel Date', icon: Calendar, category: 'trip' },
-      'Days Staying': { label: 'Duration', icon: Clock, category: 'trip' },
-      'Group Amount': { label: 'Group Size', icon: Users, category: 'trip' },
-      'Group Ages': { label: 'Group Ages', icon: Users, category: 'trip' },
-      'User Stay Pref': { label: 'Accommodation Preference', icon: Star, category: 'trip' },
-      'User Budget': { label: 'Budget', icon: Star, category: 'trip' },
-      'User Preferences / Vibe': { label: 'Travel Preferences', icon: Star, category: 'trip' },
-      'Extra Note for Local Expert': { label: 'Expert Notes', icon: MessageSquare, category: 'trip' },
-      'Local Expert': { label: 'Assigned Expert', icon: User, category: 'expert' },
-      'Local Expert - Phone Number': { label: 'Expert Phone', icon: Phone, category: 'expert' },
-      'Local Expert - Email Address': { label: 'Expert Email', icon: Mail, category: 'expert' },
-      'Local Expert Preferred Contact Method': { label: 'Expert Contact Method', icon: MessageSquare, category: 'expert' },
-      'Type (finished / in-flow)': { label: 'Status', icon: FileText, category: 'system' },
-      'Stage': { label: 'Stage', icon: FileText, category: 'system' },
-      'Last Response': { label: 'Last Response', icon: Clock, category: 'system' },
-      'Last Local Expert Response': { label: 'Last Expert Response', icon: Clock, category: 'system' },
-      'Whole Conversation': { label: 'Conversation History', icon: MessageSquare, category: 'system' },
-      'Proposal Code / URL': { label: 'Proposal', icon: ExternalLink, category: 'system' },
-      'Contact Method': { label: 'Contact Method', icon: MessageSquare, category: 'system' },
-      'ConversationSid': { label: 'Twilio Conversation ID', icon: MessageSquare, category: 'system' },
-      'Trip Finished Date': { label: 'Trip Completed', icon: Calendar, category: 'system' },
-      'Feedback Received': { label: 'Feedback Status', icon: Star, category: 'system' },
-    };
+  // Every inquiry matching the current search and filters, not just this page
+  const handleExport = async (format: InquiryExportFormat) => {
+    if (!token) return;
 
-    const mapping = fieldMappings[key] || { label: key, category: 'system' };
-    
-    return {
-      key,
-      label: mapping.label,
-      value: value || 'Not specified',
-      icon: mapping.icon,
-      category: mapping.category
-    };
+    setExportingFormat(format);
+    try {
+      const blob = await apiService.exportInquiries(token, toInquiryApiFilters(filters), format);
+      downloadBlob(blob, getExportFilename('inquiries', format));
+    } catch (err) {
+      console.error('❌ Failed to export inquiries:', err);
+      setError(err instanceof Error ? err.message : 'Failed to export inquiries');
+    } finally {
+      setExportingFormat(null);
+    }
   };
 
-  // Filter inquiries based on search and status
-  const filteredInquiries = inquiries.filter(inquiry => {
-    const matchesSearch = searchTerm === '' || 
-      Object.values(inquiry).some(value => 
-        value.toLowerCase().includes(searchTerm.toLowerCase())
-      );
-    
-    const matchesStatus = statusFilter === 'all' || 
-      inquiry['Type (finished / in-flow)']?.toLowerCase().includes(statusFilter.toLowerCase()) ||
-      inquiry['Stage']?.toLowerCase().includes(statusFilter.toLowerCase());
-    
-    return matchesSearch && matchesStatus;
-  });
+  // Keep the address bar in step with the filters, and clean it up when leaving the list
+  useEffect(() => {
+    writeInquiryListState({ filters, page });
+  }, [filters, page]);
 
-  // Get unique statuses for filter dropdown
-  const uniqueStatuses = Array.from(new Set([
-    ...inquiries.map(inquiry => inquiry['Type (finished / in-flow)']),
-    ...inquiries.map(inquiry => inquiry['Stage'])
-  ].filter(Boolean)));
+  useEffect(() => {
+    return () => writeInquiryListState({ filters: DEFAULT_INQUIRY_FILTERS, page: 1 });
+  }, []);
 
-  if (isLoading) {
-    return (
-      <div className="flex items-center justify-center h-64">
-        <div className="flex items-center gap-3 text-gray-500">
-          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
-          <span>Loading inquiries from Google Sheets...</span>
-        </div>
-      </div>
-    );
-  }
+  useEffect(() => {
+    if (searchInput.trim() === filters.q) return;
 
-  if (error) {
-    return (
-      <div className="flex flex-col items-center justify-center h-64 text-red-500">
-        <AlertCircle className="w-12 h-12 mb-4" />
-        <h3 className="text-lg font-medium mb-2">Failed to Load Inquiries</h3>
-        <p className="text-sm text-center mb-4 max-w-md">{error}</p>
-        <button
-          onClick={handleRefresh}
-          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
-        >
-          Try Again
-        </button>
-      </div>
-    );
-  }
+    const timeout = setTimeout(() => updateFilters({ q: searchInput.trim() }), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchInput, filters.q]);
+
+  useEffect(() => {
+    if (!token || !canViewAll) return;
+
+    apiService.getExperts(token)
+      .then(response => setExperts(response.data || []))
+      .catch(err => console.error('Failed to load experts:', err));
+  }, [token, canViewAll]);
+
+  const updateFilters = (changes: Partial<InquiryFilterForm>) => {
+    setFilters(prev => ({ ...prev, ...changes }));
+    setPage(1);
+  };
+
+  const toggleStatus = (status: InquiryStatus) => {
+    updateFilters({
+      status: filters.status.includes(status)
+        ? filters.status.filter(s => s !== status)
+        : [...filters.status, status],
+    });
+  };
+
+  const handleReset = () => {
+    setSearchInput('');
+    setFilters(DEFAULT_INQUIRY_FILTERS);
+    setPage(1);
+  };
+
+  const inquiries = result?.data ?? [];
+  const pages = result?.pagination.pages ?? 0;
+  const total = result?.pagination.total ?? 0;
+  const fieldClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
 
   return (
     <div className="h-full flex flex-col">
@@ -173,54 +153,208 @@ export function InquiriesViewer() {
           <div className="flex items-center gap-3">
             <FileText className="w-6 h-6 text-blue-600" />
             <div>
-              <h2 className="text-xl font-semibold text-gray-900">Google Sheets Inquiries</h2>
+              <h2 className="text-xl font-semibold text-gray-900">Inquiries</h2>
               <p className="text-sm text-gray-600">
-                {filteredInquiries.length} of {inquiries.length} inquiries
+                {total} {total === 1 ? 'inquiry' : 'inquiries'}
                 {lastRefresh && (
                   <span className="ml-2">• Last updated: {lastRefresh.toLocaleTimeString()}</span>
                 )}
               </p>
             </div>
           </div>
-          <button
-            onClick={handleRefresh}
-            disabled={isLoading}
-            className="p-2 text-gray-400 hover:text-gray-600 rounded-lg hover:bg-gray-100 transition-colors disabled:opacity-50"
-            title="Refresh from Google Sheets"
-          >
-            <RefreshCw className={`w-5 h-5 ${isLoading ? 'animate-spin' : ''}`} />
-          </button>
+          <div className="flex items-center gap-2">
+            {can('inquiry.create') && (
+              <button
+                onClick={() => setShowImport(true)}
+                className="px-3 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors flex items-center gap-2"
+              >
+                <Upload className="w-4 h-4" />
+                Import
+              </button>
+            )}
+            {INQUIRY_EXPORT_FORMATS.map(option => (
+              <button
+                key={option.format}
+                onClick={() => handleExport(option.format)}
+                disabled={exportingFormat !== null || total === 0}
+                className="px-3 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors flex items-center gap-2 disabled:opacity-50"
+                title={`Download the ${total} matching ${total === 1 ? 'inquiry' : 'inquiries'} as ${option.label}`}
+              >
+                <Download className="w-4 h-4" />
+                {exportingFormat === option.format ? 'Exporting...' : `Export ${option.label}`}
+              </button>
+            ))}
+            <button
+              onClick={loadInquiries}
+              disabled={isLoading}
+              className="p-2 text-gray-400 hover:text-gray-600 rounded-lg hover:bg-gray-100 transition-colors disabled:opacity-50"
+              title="Refresh inquiries"
+            >
+              <RefreshCw className={`w-5 h-5 ${isLoading ? 'animate-spin' : ''}`} />
+            </button>
+          </div>
         </div>
 
-        {/* Search and Filter */}
-        <div className="flex gap-4 mb-4">
-          <div className="flex-1 relative">
-            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
-            <input
-              type="text"
-              placeholder="Search inquiries..."
-              value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
-              className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-            />
-          </div>
-          <div className="relative">
-            <Filter className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
+        {/* Filter bar */}
+        <div className="bg-white rounded-lg border border-gray-200 p-4 space-y-4">
+          <div className="flex gap-4">
+            <div className="flex-1 relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
+              <input
+                type="text"
+                placeholder="Search name, email, phone or message..."
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+                className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
             <select
-              value={statusFilter}
-              onChange={(e) => setStatusFilter(e.target.value)}
-              className="pl-10 pr-8 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 appearance-none bg-white"
+              value={filters.sort}
+              onChange={(e) => updateFilters({ sort: e.target.value as InquirySortKey })}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white"
+              title="Sort by"
             >
-              <option value="all">All Statuses</option>
-              {uniqueStatuses.map(status => (
-                <option key={status} value={status}>{status}</option>
+              {INQUIRY_SORT_KEYS.map(key => (
+                <option key={key} value={key}>Sort: {INQUIRY_SORT_LABELS[key]}</option>
               ))}
             </select>
+            <button
+              type="button"
+              onClick={() => updateFilters({ order: filters.order === 'asc' ? 'desc' : 'asc' })}
+              className="px-3 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors text-gray-600"
+              title={filters.order === 'asc' ? 'Ascending' : 'Descending'}
+            >
+              {filters.order === 'asc' ? <ArrowUp className="w-4 h-4" /> : <ArrowDown className="w-4 h-4" />}
+            </button>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            {ALL_STATUSES.map(status => (
+              <button
+                key={status}
+                type="button"
+                onClick={() => toggleStatus(status)}
+                className={`px-3 py-1 text-xs rounded-full border transition-colors ${
+                  filters.status.includes(status)
+                    ? `${INQUIRY_STATUS_STYLES[status]} border-transparent`
+                    : 'bg-white text-gray-600 border-gray-300 hover:bg-gray-50'
+                }`}
+              >
+                {INQUIRY_STATUS_LABELS[status]}
+              </button>
+            ))}
+          </div>
+
+          <div className={`grid grid-cols-1 gap-4 ${canViewAll ? 'md:grid-cols-5' : 'md:grid-cols-4'}`}>
+            {canViewAll && (
+              <div>
+                <label htmlFor="inquiry-expert" className="block text-sm font-medium text-gray-700 mb-1">Expert</label>
+                <select
+                  id="inquiry-expert"
+                  value={filters.expertId}
+                  onChange={(e) => updateFilters({ expertId: e.target.value })}
+                  className={fieldClass}
+                >
+                  <option value="">Any expert</option>
+                  <option value={UNASSIGNED_EXPERT}>Unassigned</option>
+                  {experts.map(expert => (
+                    <option key={expert.id} value={expert.id}>{expert.name}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+            <div>
+              <label htmlFor="inquiry-created-from" className="block text-sm font-medium text-gray-700 mb-1">Created from</label>
+              <input
+                id="inquiry-created-from"
+                type="date"
+                value={filters.createdFrom}
+                onChange={(e) => updateFilters({ createdFrom: e.target.value })}
+                className={fieldClass}
+              />
+            </div>
+            <div>
+              <label htmlFor="inquiry-created-to" className="block text-sm font-medium text-gray-700 mb-1">Created to</label>
+              <input
+                id="inquiry-created-to"
+                type="date"
+                value={filters.createdTo}
+                min={filters.createdFrom || undefined}
+                onChange={(e) => updateFilters({ createdTo: e.target.value })}
+                className={fieldClass}
+              />
+            </div>
+            <div>
+              <label htmlFor="inquiry-updated-from" className="block text-sm font-medium text-gray-700 mb-1">Updated from</label>
+              <input
+                id="inquiry-updated-from"
+                type="date"
+                value={filters.updatedFrom}
+                onChange={(e) => updateFilters({ updatedFrom: e.target.value })}
+                className={fieldClass}
+              />
+            </div>
+            <div>
+              <label htmlFor="inquiry-updated-to" className="block text-sm font-medium text-gray-700 mb-1">Updated to</label>
+              <input
+                id="inquiry-updated-to"
+                type="date"
+                value={filters.updatedTo}
+                min={filters.updatedFrom || undefined}
+                onChange={(e) => updateFilters({ updatedTo: e.target.value })}
+                className={fieldClass}
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <button
+              type="button"
+              onClick={handleReset}
+              className="px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Reset
+            </button>
+            {pages > 1 && (
+              <div className="flex items-center gap-2 text-sm text-gray-600">
+                <button
+                  onClick={() => setPage(prev => prev - 1)}
+                  disabled={page <= 1 || isLoading}
+                  className="p-1 rounded hover:bg-gray-100 disabled:opacity-50"
+                  title="Previous page"
+                >
+                  <ChevronLeft className="w-4 h-4" />
+                </button>
+                Page {page} of {pages}
+                <button
+                  onClick={() => setPage(prev => prev + 1)}
+                  disabled={page >= pages || isLoading}
+                  className="p-1 rounded hover:bg-gray-100 disabled:opacity-50"
+                  title="Next page"
+                >
+                  <ChevronRight className="w-4 h-4" />
+                </button>
+              </div>
+            )}
           </div>
         </div>
       </div>
 
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg flex items-center gap-3">
+          <AlertCircle className="w-5 h-5 text-red-500" />
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      )}
+
       {/* Content */}
+      {showImport && (
+        <InquiryImportWizard
+          onClose={() => setShowImport(false)}
+          onImported={loadInquiries}
+        />
+      )}
+
       {selectedInquiry && (
         <InquiryDetailModal
           inquiry={selectedInquiry}
@@ -231,76 +365,58 @@ export function InquiriesViewer() {
       {inquiries.length === 0 ? (
         <div className="flex flex-col items-center justify-center h-64 text-gray-500">
           <FileText className="w-12 h-12 mb-4 text-gray-300" />
-          <h3 className="text-lg font-medium mb-2">No Inquiries Found</h3>
-          <p className="text-sm text-center mb-4">
-            The "Inquiries" sheet appears to be empty or could not be accessed.
-          </p>
-          <button
-            onClick={handleRefresh}
-            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
-          >
-            Refresh Data
-          </button>
+          <h3 className="text-lg font-medium mb-2">
+            {isLoading ? 'Loading inquiries...' : 'No Inquiries Found'}
+          </h3>
+          {!isLoading && (
+            <p className="text-sm text-center">No inquiries match these filters.</p>
+          )}
         </div>
       ) : (
-        /* List View - Always Visible */
         <div className="flex-1 overflow-y-auto">
           <div className="space-y-3">
-            {filteredInquiries.map((inquiry, index) => (
+            {inquiries.map(inquiry => (
               <button
-                key={index}
-                onClick={() => setSelectedInquiry(inquiry)}
+                key={inquiry.id}
+                onClick={() => setSelectedInquiry(toDetailRow(inquiry))}
                 className="w-full p-4 bg-white border border-gray-200 rounded-lg hover:bg-gray-50 hover:border-gray-300 transition-colors text-left"
               >
-                <div className="flex items-start justify-between">
-                  <div className="flex-1">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="flex-1 min-w-0">
                     <div className="flex items-center gap-3 mb-2">
-                      <h3 className="font-medium text-gray-900">
-                        {inquiry['Full Name'] || inquiry['First Name'] || `Inquiry #${index + 1}`}
-                      </h3>
-                      {inquiry['Type (finished / in-flow)'] && (
-                        <span className={`px-2 py-1 text-xs rounded-full ${
-                          inquiry['Type (finished / in-flow)'].toLowerCase().includes('finished') 
-                            ? 'bg-green-100 text-green-700' 
-                            : 'bg-blue-100 text-blue-700'
-                        }`}>
-                          {inquiry['Type (finished / in-flow)']}
-                        </span>
-                      )}
+                      <h3 className="font-medium text-gray-900 truncate">{inquiry.customer_name}</h3>
+                      <span className={`px-2 py-1 text-xs rounded-full ${INQUIRY_STATUS_STYLES[inquiry.status] ?? 'bg-gray-100 text-gray-800'}`}>
+                        {getInquiryStatusLabel(inquiry.status)}
+                      </span>
                     </div>
-                    <div className="flex items-center gap-4 text-sm text-gray-600 mb-2">
-                      {inquiry['Destination'] && (
-                        <div className="flex items-center gap-1">
-                          <MapPin className="w-4 h-4" />
-                          <span>{inquiry['Destination']}</span>
-                        </div>
-                      )}
-                      {inquiry['When they want to go'] && (
-                        <div className="flex items-center gap-1">
-                          <Calendar className="w-4 h-4" />
-                          <span>{inquiry['When they want to go']}</span>
-                        </div>
-                      )}
-                      {inquiry['Local Expert'] && (
+                    <div className="flex flex-wrap items-center gap-4 text-sm text-gray-600 mb-2">
+                      <div className="flex items-center gap-1">
+                        <Mail className="w-4 h-4" />
+                        <span>{inquiry.customer_email}</span>
+                      </div>
+                      {inquiry.customer_phone && (
                         <div className="flex items-center gap-1">
-                          <User className="w-4 h-4" />
-                          <span>{inquiry['Local Expert']}</span>
+                          <Phone className="w-4 h-4" />
+                          <span>{inquiry.customer_phone}</span>
                         </div>
                       )}
+                      <div className="flex items-center gap-1">
+                        <User className="w-4 h-4" />
+                        <span>{inquiry.expert_name || 'Unassigned'}</span>
+                      </div>
                     </div>
-                    {inquiry['User Preferences / Vibe'] && (
-                      <p className="text-sm text-gray-700 line-clamp-2">
-                        {inquiry['User Preferences / Vibe'].length > 100
-                          ? `${inquiry['User Preferences / Vibe'].substring(0, 100)}...`
-                          : inquiry['User Preferences / Vibe']
-                        }
-                      </p>
-                    )}
+                    <p className="text-sm text-gray-700 line-clamp-2">
+                      {inquiry.message.length > 100 ? `${inquiry.message.substring(0, 100)}...` : inquiry.message}
+                    </p>
                   </div>
-                  <div className="text-right text-xs text-gray-500">
-                    <div>Click to view details</div>
-                    {inquiry['ConversationSid'] && (
-                      <div className="mt-1 flex items-center gap-1">
+                  <div className="text-right text-xs text-gray-500 flex-shrink-0">
+                    <div className="flex items-center gap-1 justify-end">
+                      <Clock className="w-3 h-3" />
+                      <span>Created {new Date(inquiry.created_at).toLocaleDateString()}</span>
+                    </div>
+                    <div className="mt-1">Updated {new Date(inquiry.updated_at).toLocaleString()}</div>
+                    {inquiry.conversation_sid && (
+                      <div className="mt-1 flex items-center gap-1 justify-end">
                         <MessageSquare className="w-3 h-3" />
                         <span>Twilio</span>
                       </div>
@@ -314,4 +430,4 @@ export function InquiriesViewer() {
       )}
     </div>
   );
-}
\ No newline at end of file
+}
@@ -1,13 +1,11 @@
 import React, { useState, useEffect } from 'react';
-import { Plus, Users, MessageCircle, AlertCircle, Phone } from 'lucide-react';
+import { Plus, Users, MessageCircle, AlertCircle, Phone, Sparkles } from 'lucide-react';
 import { apiService } from '../../services/api';
 import { useAuth } from '../../contexts/AuthContext';
-
-interface Expert {
-  id: string;
-  name: string;
-  email: string;
-}
+import { parseTags } from '../../utils/expertTags';
+import { AVAILABILITY_LABELS } from '../../utils/availability';
+import { isValidEmail, isValidPhone } from '../../utils/inquiryImport';
+import type { AssignmentPreview, CreateInquiryRequest } from '../../types';
 
 interface InquiryCreatorProps {
   onInquiryCreated: () => void;
@@ -15,7 +13,7 @@ interface InquiryCreatorProps {
 
 export function InquiryCreator({ onInquiryCreated }: InquiryCreatorProps) {
   const [isOpen, setIsOpen] = useState(false);
-  const [experts, setExperts] = useState<Expert[]>([]);
+  const [preview, setPreview] = useState<AssignmentPreview | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const { token } = useAuth();
@@ -25,46 +23,55 @@ export function InquiryCreator({ onInquiryCreated }: InquiryCreatorProps) {
     customerEmail: '',
     customerPhone: '',
     message: '',
-    assignedExpertId: '',
+    assignedExpertId: '', // empty: the assignment engine picks
+    assignmentStrategy: '', // empty: the server default
+    skills: '',
+    region: '',
   });
 
-  // Load experts when component opens
+  // Ask the assignment engine for its pick while the form is open; typing in the tags is debounced
   useEffect(() => {
-    if (isOpen && token) {
-      loadExperts();
-    }
-  }, [isOpen, token]);
+    if (!isOpen || !token) return;
 
-  const loadExperts = async () => {
-    try {
-      setError(null);
-      const response = await apiService.getExperts(token!);
-      setExperts(response.data);
-    } catch (err) {
-      console.error('Failed to load experts:', err);
-      setError(err instanceof Error ? err.message : 'Failed to load experts');
-    }
-  };
+    const timer = setTimeout(async () => {
+      try {
+        const response = await apiService.previewAssignment({
+          strategy: formData.assignmentStrategy || undefined,
+          skills: parseTags(formData.skills),
+          region: formData.region.trim() || undefined,
+        }, token);
+        setPreview(response.data);
+      } catch (err) {
+        console.error('Failed to preview assignment:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load experts');
+      }
+    }, 300);
+
+    return () => clearTimeout(timer);
+  }, [isOpen, token, formData.assignmentStrategy, formData.skills, formData.region]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!formData.customerName || !formData.customerEmail || !formData.message || !formData.assignedExpertId) {
-      setError('Name, email, message, and expert assignment are required');
+    if (!formData.customerName || !formData.customerEmail || !formData.message) {
+      setError('Name, email, and message are required');
+      return;
+    }
+
+    if (!formData.assignedExpertId && preview && !preview.expert) {
+      setError('No active expert is available to take this inquiry');
       return;
     }
 
     // Basic email validation
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    if (!emailRegex.test(formData.customerEmail)) {
+    if (!isValidEmail(formData.customerEmail)) {
       setError('Please enter a valid email address');
       return;
     }
 
     // Basic phone validation (if provided)
     if (formData.customerPhone) {
-      const phoneRegex = /^\+?[\d\s\-\(\)]{10,}$/;
-      if (!phoneRegex.test(formData.customerPhone)) {
+      if (!isValidPhone(formData.customerPhone)) {
         setError('Please enter a valid phone number (include country code for SMS)');
         return;
       }
@@ -74,12 +81,20 @@ export function InquiryCreator({ onInquiryCreated }: InquiryCreatorProps) {
     setError(null);
 
     try {
+      const assignment: Partial<CreateInquiryRequest> = formData.assignedExpertId
+        ? { assignedExpertId: formData.assignedExpertId }
+        : {
+            assignmentStrategy: formData.assignmentStrategy || undefined,
+            skills: parseTags(formData.skills),
+            region: formData.region.trim() || undefined,
+          };
+
       await apiService.createInquiry({
         customerName: formData.customerName,
         customerEmail: formData.customerEmail,
         customerPhone: formData.customerPhone,
         message: formData.message,
-        assignedExpertId: formData.assignedExpertId,
+        ...assignment,
       }, token!);
 
       // Reset form
@@ -89,6 +104,9 @@ export function InquiryCreator({ onInquiryCreated }: InquiryCreatorProps) {
         customerPhone: '',
         message: '',
         assignedExpertId: '',
+        assignmentStrategy: '',
+        skills: '',
+        region: '',
       });
 
       setIsOpen(false);
@@ -108,6 +126,8 @@ export function InquiryCreator({ onInquiryCreated }: InquiryCreatorProps) {
     }));
   };
 
+  const activeStrategy = preview?.strategies.find(strategy => strategy.name === preview.strategy);
+
   if (!isOpen) {
     return (
       <button
@@ -206,31 +226,92 @@ export function InquiryCreator({ onInquiryCreated }: InquiryCreatorProps) {
             </p>
           </div>
 
-          <div>
-            <label htmlFor="assignedExpertId" className="block text-sm font-medium text-gray-700 mb-2">
-              Assign to Expert *
-            </label>
-            <select
-              id="assignedExpertId"
-              name="assignedExpertId"
-              value={formData.assignedExpertId}
-              onChange={handleInputChange}
-              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-              required
-            >
-              <option value="">Select an expert...</option>
-              {experts.map(expert => (
-                <option key={expert.id} value={expert.id}>
-                  {expert.name} ({expert.email})
-                </option>
-              ))}
-            </select>
-            {experts.length === 0 && (
-              <p className="text-sm text-gray-500 mt-1 flex items-center gap-1">
-                <Users className="w-4 h-4" />
-                No experts available
-              </p>
+          <div className="space-y-3">
+            <div>
+              <label htmlFor="assignmentStrategy" className="block text-sm font-medium text-gray-700 mb-2">
+                Assignment
+              </label>
+              <select
+                id="assignmentStrategy"
+                name="assignmentStrategy"
+                value={formData.assignmentStrategy || preview?.defaultStrategy || ''}
+                onChange={handleInputChange}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                {preview?.strategies.map(strategy => (
+                  <option key={strategy.name} value={strategy.name}>
+                    {`${strategy.label}${strategy.name === preview.defaultStrategy ? ' (default)' : ''}`}
+                  </option>
+                ))}
+              </select>
+              {activeStrategy && <p className="text-sm text-gray-500 mt-1">{activeStrategy.description}</p>}
+            </div>
+
+            {activeStrategy?.name === 'skill_region' && (
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label htmlFor="skills" className="block text-xs font-medium text-gray-700 mb-1">Skills</label>
+                  <input
+                    type="text"
+                    id="skills"
+                    name="skills"
+                    value={formData.skills}
+                    onChange={handleInputChange}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    placeholder="visa, rail"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="region" className="block text-xs font-medium text-gray-700 mb-1">Region</label>
+                  <input
+                    type="text"
+                    id="region"
+                    name="region"
+                    value={formData.region}
+                    onChange={handleInputChange}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    placeholder="japan"
+                  />
+                </div>
+              </div>
+            )}
+
+            {preview?.expert && (
+              <div className="flex items-start gap-2 p-3 bg-green-50 border border-green-200 rounded-lg">
+                <Sparkles className="w-4 h-4 text-green-600 flex-shrink-0 mt-0.5" />
+                <p className="text-sm text-green-800">
+                  Suggested: <span className="font-medium">{preview.expert.name}</span> ({preview.reason})
+                </p>
+              </div>
             )}
+
+            <div>
+              <label htmlFor="assignedExpertId" className="block text-xs font-medium text-gray-700 mb-1">
+                Assign to Expert
+              </label>
+              <select
+                id="assignedExpertId"
+                name="assignedExpertId"
+                value={formData.assignedExpertId}
+                onChange={handleInputChange}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="">Automatic{preview?.expert ? ` (${preview.expert.name})` : ''}</option>
+                {preview?.candidates.map(candidate => (
+                  <option key={candidate.id} value={candidate.id}>
+                    {`${candidate.name} (${candidate.email}) - ${AVAILABILITY_LABELS[candidate.availability.state]}, ${candidate.openInquiries} open${
+                      candidate.matched.length > 0 ? `, matches ${candidate.matched.join(', ')}` : ''
+                    }`}
+                  </option>
+                ))}
+              </select>
+              {preview && preview.candidates.length === 0 && (
+                <p className="text-sm text-gray-500 mt-1 flex items-center gap-1">
+                  <Users className="w-4 h-4" />
+                  No experts available
+                </p>
+              )}
+            </div>
           </div>
 
           <div>
@@ -253,6 +334,7 @@ export function InquiryCreator({ onInquiryCreated }: InquiryCreatorProps) {
             <h4 className="text-sm font-medium text-blue-900 mb-2">How this works:</h4>
             <ul className="text-sm text-blue-800 space-y-1">
               <li>• Creates a Twilio conversation with the expert</li>
+              <li>• Left on Automatic, the suggested expert is assigned</li>
               <li>• If phone provided, enables SMS for the customer</li>
               <li>• Expert receives real-time notifications</li>
               <li>• All messages sync via Twilio webhooks</li>
@@ -1,5 +1,6 @@
 import React from 'react';
 import { X, User, MapPin, Calendar, Phone, Mail, Users, Clock, Star, MessageSquare, ExternalLink, FileText, Shield } from 'lucide-react';
+import { InquiryStatusTimeline } from './InquiryStatusTimeline';
 
 interface InquiryRow {
   [key: string]: string;
@@ -180,6 +181,11 @@ export function InquiryDetailModal({ inquiry, onClose }: InquiryDetailModalProps
 
         {/* Content */}
         <div className="p-6 overflow-y-auto max-h-[calc(90vh-120px)] bg-gray-50">
+          {/* Lifecycle of the dashboard inquiry behind this row */}
+          {inquiry['ConversationSid']?.trim() && (
+            <InquiryStatusTimeline conversationSid={inquiry['ConversationSid'].trim()} />
+          )}
+
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
             {/* Left Column */}
             <div className="space-y-4">
@@ -0,0 +1,481 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { X, Upload, FileSpreadsheet, AlertCircle, Download, ArrowLeft, CheckCircle } from 'lucide-react';
+import { apiService } from '../../services/api';
+import { useAuth } from '../../contexts/AuthContext';
+import { parseCsv } from '../../utils/csv';
+import { readXlsxRows } from '../../utils/xlsx';
+import { downloadBlob } from '../../utils/download';
+import {
+  IMPORT_FIELDS,
+  IMPORT_STATUS_LABELS,
+  IMPORT_STATUS_STYLES,
+  MAX_IMPORT_BATCH_SIZE,
+  buildImportErrorReport,
+  buildImportRows,
+  checkImportRows,
+  chunk,
+  countImportResults,
+  getUnmappedRequiredFields,
+  guessColumnMapping,
+  type ColumnMapping,
+  type ImportField,
+} from '../../utils/inquiryImport';
+import type { AssignmentStrategyOption, InquiryImportResult, InquiryImportRow } from '../../types';
+
+// Largest spreadsheet accepted in one import
+const MAX_IMPORT_ROWS = 1000;
+
+// Rows per request while importing; each row creates a Twilio conversation, so batches stay small
+const IMPORT_BATCH_SIZE = 10;
+
+// Pause between import batches, on top of the server's pause between rows
+const BATCH_PAUSE_MS = 1000;
+
+const SAMPLE_ROWS = 3;
+
+type WizardStep = 'upload' | 'map' | 'preview' | 'importing' | 'done';
+
+interface InquiryImportWizardProps {
+  onClose: () => void;
+  onImported: () => void;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Results in row order, with later results for a row replacing earlier ones
+const mergeResults = (current: InquiryImportResult[], updates: InquiryImportResult[]): InquiryImportResult[] => {
+  const byRow = new Map(current.map(result => [result.row, result]));
+  updates.forEach(result => byRow.set(result.row, result));
+  return Array.from(byRow.values()).sort((a, b) => a.row - b.row);
+};
+
+export function InquiryImportWizard({ onClose, onImported }: InquiryImportWizardProps) {
+  const { token } = useAuth();
+  const [step, setStep] = useState<WizardStep>('upload');
+  const [fileName, setFileName] = useState('');
+  const [sheetRows, setSheetRows] = useState<string[][]>([]);
+  const [hasHeaderRow, setHasHeaderRow] = useState(true);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [strategies, setStrategies] = useState<AssignmentStrategyOption[]>([]);
+  const [assignmentStrategy, setAssignmentStrategy] = useState('');
+  const [importRows, setImportRows] = useState<InquiryImportRow[]>([]);
+  const [results, setResults] = useState<InquiryImportResult[]>([]);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [showProblemsOnly, setShowProblemsOnly] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const stopRequested = useRef(false);
+
+  const columnCount = Math.max(0, ...sheetRows.map(row => row.length));
+  const headers = hasHeaderRow
+    ? Array.from({ length: columnCount }, (_, index) => sheetRows[0]?.[index]?.trim() || `Column ${index + 1}`)
+    : Array.from({ length: columnCount }, (_, index) => `Column ${index + 1}`);
+  const dataRows = hasHeaderRow ? sheetRows.slice(1) : sheetRows;
+  const firstRowNumber = hasHeaderRow ? 2 : 1;
+  const counts = countImportResults(results);
+
+  useEffect(() => {
+    if (!token) return;
+
+    apiService.previewAssignment({}, token)
+      .then(response => setStrategies(response.data.strategies))
+      .catch(err => console.error('Failed to load assignment strategies:', err));
+  }, [token]);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setError(null);
+    setIsWorking(true);
+    try {
+      const rows = /\.xlsx$/i.test(file.name)
+        ? await readXlsxRows(await file.arrayBuffer())
+        : parseCsv(await file.text());
+
+      if (rows.length < 2) {
+        setError('The file has no rows to import');
+        return;
+      }
+      if (rows.length - 1 > MAX_IMPORT_ROWS) {
+        setError(`Files can have at most ${MAX_IMPORT_ROWS} rows; split larger lists into several files`);
+        return;
+      }
+
+      setFileName(file.name);
+      setSheetRows(rows);
+      setHasHeaderRow(true);
+      setMapping(guessColumnMapping(rows[0]));
+      setResults([]);
+      setStep('map');
+    } catch (err) {
+      console.error('❌ Failed to read import file:', err);
+      setError(err instanceof Error ? err.message : 'Failed to read the file');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleHeaderToggle = (checked: boolean) => {
+    setHasHeaderRow(checked);
+    setMapping(checked ? guessColumnMapping(sheetRows[0] ?? []) : IMPORT_FIELDS.reduce(
+      (empty, option) => ({ ...empty, [option.field]: null }),
+      {} as ColumnMapping
+    ));
+  };
+
+  const setFieldColumn = (field: ImportField, value: string) => {
+    setMapping(prev => prev && { ...prev, [field]: value === '' ? null : Number(value) });
+  };
+
+  // Dry run: local checks first, then the server checks the rest without creating anything
+  const handleCheck = async () => {
+    if (!token || !mapping) return;
+
+    const rows = buildImportRows(dataRows, mapping, firstRowNumber);
+    const checked = checkImportRows(rows);
+    const readyRows = rows.filter((_, index) => checked[index].status === 'ready');
+
+    setImportRows(rows);
+    setResults(checked);
+    setError(null);
+    setIsWorking(true);
+    try {
+      for (const batch of chunk(readyRows, MAX_IMPORT_BATCH_SIZE)) {
+        const response = await apiService.importInquiries({
+          rows: batch,
+          dryRun: true,
+          assignmentStrategy: assignmentStrategy || undefined,
+        }, token);
+        setResults(prev => mergeResults(prev, response.data.results));
+      }
+      setShowProblemsOnly(checked.some(result => result.status !== 'ready'));
+      setStep('preview');
+    } catch (err) {
+      console.error('❌ Import check failed:', err);
+      setError(err instanceof Error ? err.message : 'Failed to check the rows');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!token) return;
+
+    const readyRows = new Set(results.filter(result => result.status === 'ready').map(result => result.row));
+    const batches = chunk(importRows.filter(row => readyRows.has(row.row)), IMPORT_BATCH_SIZE);
+
+    stopRequested.current = false;
+    setProgress({ done: 0, total: readyRows.size });
+    setError(null);
+    setStep('importing');
+
+    let done = 0;
+    for (const [index, batch] of batches.entries()) {
+      if (stopRequested.current) break;
+      if (index > 0) await sleep(BATCH_PAUSE_MS);
+
+      try {
+        const response = await apiService.importInquiries({
+          rows: batch,
+          dryRun: false,
+          assignmentStrategy: assignmentStrategy || undefined,
+        }, token);
+        setResults(prev => mergeResults(prev, response.data.results));
+      } catch (err) {
+        // Some rows of this batch may have been created; the inquiry list shows which
+        console.error('❌ Import batch failed:', err);
+        setError(err instanceof Error ? err.message : 'An import batch failed');
+        setResults(prev => mergeResults(prev, batch.map(row => ({
+          row: row.row,
+          status: 'failed',
+          errors: ['The request failed; check the inquiry list before importing this row again'],
+        }))));
+        stopRequested.current = true;
+      }
+
+      done += batch.length;
+      setProgress({ done, total: readyRows.size });
+    }
+
+    // Rows never sent because the import stopped
+    setResults(prev => prev.map(result => (result.status === 'ready'
+      ? { ...result, status: 'failed', errors: ['Not imported: the import was stopped'] }
+      : result)));
+    setStep('done');
+    onImported();
+  };
+
+  const handleDownloadReport = () => {
+    const csv = buildImportErrorReport(headers, dataRows, results, firstRowNumber);
+    const baseName = fileName.replace(/\.[^.]+$/, '') || 'inquiries';
+    downloadBlob(new Blob([csv], { type: 'text/csv;charset=utf-8' }), `${baseName}-import-report.csv`);
+  };
+
+  const unmappedRequired = mapping ? getUnmappedRequiredFields(mapping) : [];
+  const rowsByNumber = new Map(importRows.map(row => [row.row, row]));
+  const visibleResults = showProblemsOnly ? results.filter(result => result.errors.length > 0) : results;
+  const problemCount = counts.invalid + counts.duplicate + counts.failed;
+  const fieldClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col overflow-hidden">
+        {/* Header */}
+        <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <FileSpreadsheet className="w-6 h-6 text-blue-600" />
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900">Import inquiries</h2>
+              <p className="text-sm text-gray-600">{fileName || 'CSV or Excel (.xlsx) lead list'}</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            disabled={step === 'importing'}
+            className="p-2 text-gray-400 hover:text-gray-600 rounded-lg hover:bg-gray-100 transition-colors disabled:opacity-50"
+            title="Close"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="px-6 py-3 bg-red-50 border-b border-red-200 flex items-center gap-3">
+            <AlertCircle className="w-5 h-5 text-red-500 flex-shrink-0" />
+            <p className="text-red-700 text-sm">{error}</p>
+          </div>
+        )}
+
+        <div className="flex-1 overflow-y-auto p-6">
+          {step === 'upload' && (
+            <label className="flex flex-col items-center justify-center h-48 border-2 border-dashed border-gray-300 rounded-lg cursor-pointer hover:border-blue-400 hover:bg-blue-50 transition-colors">
+              <Upload className="w-8 h-8 text-gray-400 mb-2" />
+              <span className="text-sm font-medium text-gray-700">
+                {isWorking ? 'Reading file...' : 'Choose a .csv or .xlsx file'}
+              </span>
+              <span className="text-xs text-gray-500 mt-1">
+                One inquiry per row, up to {MAX_IMPORT_ROWS} rows. Only the first sheet of a workbook is read.
+              </span>
+              <input type="file" accept=".csv,.xlsx,text/csv" onChange={handleFile} disabled={isWorking} className="hidden" />
+            </label>
+          )}
+
+          {step === 'map' && mapping && (
+            <div className="space-y-6">
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input type="checkbox" checked={hasHeaderRow} onChange={(e) => handleHeaderToggle(e.target.checked)} />
+                The first row holds column names
+              </label>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {IMPORT_FIELDS.map(option => (
+                  <div key={option.field}>
+                    <label htmlFor={`import-${option.field}`} className="block text-sm font-medium text-gray-700 mb-1">
+                      {option.label}{option.required && ' *'}
+                    </label>
+                    <select
+                      id={`import-${option.field}`}
+                      value={mapping[option.field] ?? ''}
+                      onChange={(e) => setFieldColumn(option.field, e.target.value)}
+                      className={fieldClass}
+                    >
+                      <option value="">{option.required ? 'Choose a column' : "Don't import"}</option>
+                      {headers.map((header, index) => (
+                        <option key={index} value={index}>{header}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+                <div>
+                  <label htmlFor="import-strategy" className="block text-sm font-medium text-gray-700 mb-1">Assignment</label>
+                  <select
+                    id="import-strategy"
+                    value={assignmentStrategy}
+                    onChange={(e) => setAssignmentStrategy(e.target.value)}
+                    className={fieldClass}
+                  >
+                    <option value="">Default strategy</option>
+                    {strategies.map(strategy => (
+                      <option key={strategy.name} value={strategy.name}>{strategy.label}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              {/* First rows as they will be imported */}
+              <div className="border border-gray-200 rounded-lg overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      {IMPORT_FIELDS.filter(option => mapping[option.field] !== null).map(option => (
+                        <th key={option.field} className="px-3 py-2 text-left font-medium text-gray-700">{option.label}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {dataRows.slice(0, SAMPLE_ROWS).map((row, rowIndex) => (
+                      <tr key={rowIndex}>
+                        {IMPORT_FIELDS.filter(option => mapping[option.field] !== null).map(option => (
+                          <td key={option.field} className="px-3 py-2 text-gray-900 max-w-xs truncate">
+                            {row[mapping[option.field] as number] ?? ''}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <p className="text-sm text-gray-600">
+                {dataRows.length} row{dataRows.length === 1 ? '' : 's'} found.
+                {unmappedRequired.length > 0 && (
+                  <span className="text-red-600"> Choose a column for {unmappedRequired.map(option => option.label).join(', ')}.</span>
+                )}
+              </p>
+            </div>
+          )}
+
+          {(step === 'preview' || step === 'importing' || step === 'done') && (
+            <div className="space-y-4">
+              {step === 'importing' && (
+                <div>
+                  <div className="flex justify-between text-sm text-gray-700 mb-1">
+                    <span>Creating inquiries and conversations...</span>
+                    <span>{progress.done} of {progress.total}</span>
+                  </div>
+                  <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-blue-600 transition-all"
+                      style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }}
+                    />
+                  </div>
+                </div>
+              )}
+
+              {step === 'done' && (
+                <div className="flex items-center gap-3 p-4 bg-green-50 border border-green-200 rounded-lg">
+                  <CheckCircle className="w-5 h-5 text-green-600" />
+                  <p className="text-sm text-green-800">
+                    Imported {counts.created} inquir{counts.created === 1 ? 'y' : 'ies'}
+                    {problemCount > 0 && `; ${problemCount} row${problemCount === 1 ? ' was' : 's were'} not imported`}.
+                  </p>
+                </div>
+              )}
+
+              <div className="flex flex-wrap items-center gap-2">
+                {(Object.keys(IMPORT_STATUS_LABELS) as (keyof typeof IMPORT_STATUS_LABELS)[])
+                  .filter(status => counts[status] > 0)
+                  .map(status => (
+                    <span key={status} className={`px-2 py-1 text-xs rounded-full ${IMPORT_STATUS_STYLES[status]}`}>
+                      {IMPORT_STATUS_LABELS[status]}: {counts[status]}
+                    </span>
+                  ))}
+                <label className="ml-auto flex items-center gap-2 text-sm text-gray-700">
+                  <input type="checkbox" checked={showProblemsOnly} onChange={(e) => setShowProblemsOnly(e.target.checked)} />
+                  Only rows with problems
+                </label>
+              </div>
+
+              <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+                {visibleResults.length === 0 ? (
+                  <p className="p-4 text-sm text-gray-500 text-center">No rows to show</p>
+                ) : visibleResults.map(result => {
+                  const row = rowsByNumber.get(result.row);
+                  return (
+                    <div key={result.row} className="px-4 py-2 grid grid-cols-12 gap-2 text-sm items-start">
+                      <span className="col-span-1 text-gray-500">#{result.row}</span>
+                      <div className="col-span-4 min-w-0">
+                        <p className="text-gray-900 truncate">{row?.customerName || '—'}</p>
+                        <p className="text-xs text-gray-500 truncate">{row?.customerEmail}</p>
+                      </div>
+                      <span className="col-span-2">
+                        <span className={`px-2 py-1 text-xs rounded-full ${IMPORT_STATUS_STYLES[result.status]}`}>
+                          {IMPORT_STATUS_LABELS[result.status]}
+                        </span>
+                      </span>
+                      <p className="col-span-5 text-xs text-gray-600">
+                        {result.errors.length > 0
+                          ? result.errors.join('; ')
+                          : result.expertName ? `Assigned to ${result.expertName}` : ''}
+                      </p>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-gray-200 flex items-center justify-between gap-2">
+          <div>
+            {step === 'map' && (
+              <button
+                onClick={() => setStep('upload')}
+                className="px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors flex items-center gap-2"
+              >
+                <ArrowLeft className="w-4 h-4" />
+                Choose another file
+              </button>
+            )}
+            {step === 'preview' && (
+              <button
+                onClick={() => setStep('map')}
+                className="px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors flex items-center gap-2"
+              >
+                <ArrowLeft className="w-4 h-4" />
+                Change mapping
+              </button>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            {(step === 'preview' || step === 'done') && problemCount > 0 && (
+              <button
+                onClick={handleDownloadReport}
+                className="px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors flex items-center gap-2"
+              >
+                <Download className="w-4 h-4" />
+                Download error report
+              </button>
+            )}
+            {step === 'map' && (
+              <button
+                onClick={handleCheck}
+                disabled={isWorking || unmappedRequired.length > 0 || dataRows.length === 0}
+                className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                {isWorking ? 'Checking...' : 'Check rows'}
+              </button>
+            )}
+            {step === 'preview' && (
+              <button
+                onClick={handleImport}
+                disabled={counts.ready === 0}
+                className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                Import {counts.ready} inquir{counts.ready === 1 ? 'y' : 'ies'}
+              </button>
+            )}
+            {step === 'importing' && (
+              <button
+                onClick={() => { stopRequested.current = true; }}
+                className="px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                Stop after this batch
+              </button>
+            )}
+            {step === 'done' && (
+              <button
+                onClick={onClose}
+                className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+              >
+                Close
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
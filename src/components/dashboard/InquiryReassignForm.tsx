@@ -0,0 +1,129 @@
+import React, { useState, useEffect } from 'react';
+import { Shuffle } from 'lucide-react';
+import { apiService } from '../../services/api';
+import { useAuth } from '../../contexts/AuthContext';
+import { AVAILABILITY_LABELS } from '../../utils/availability';
+import type { ExpertListEntry, ExpertSummary } from '../../types';
+
+interface InquiryReassignFormProps {
+  inquiryId: string;
+  currentExpert: ExpertSummary | null;
+  onReassigned: (message: string) => void;
+}
+
+const MAX_NOTE_LENGTH = 2000;
+
+export function InquiryReassignForm({ inquiryId, currentExpert, onReassigned }: InquiryReassignFormProps) {
+  const { token } = useAuth();
+  const [isOpen, setIsOpen] = useState(false);
+  const [experts, setExperts] = useState<ExpertListEntry[]>([]);
+  const [expertId, setExpertId] = useState('');
+  const [note, setNote] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen || !token) return;
+
+    apiService.getExperts(token)
+      .then(response => setExperts((response.data || []).filter(expert => expert.id !== currentExpert?.id)))
+      .catch(err => {
+        console.error('Failed to load experts:', err);
+        setError('Failed to load experts');
+      });
+  }, [isOpen, token, currentExpert?.id]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token || !expertId || !note.trim()) return;
+
+    const expert = experts.find(candidate => candidate.id === expertId);
+    const from = currentExpert ? ` from ${currentExpert.name}` : '';
+    if (!window.confirm(`Reassign this inquiry${from} to ${expert?.name ?? 'the selected expert'}? They will have to accept it before they can reply.`)) return;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await apiService.reassignInquiry(inquiryId, { expertId, note: note.trim() }, token);
+      setIsOpen(false);
+      setExpertId('');
+      setNote('');
+      onReassigned(response.message);
+    } catch (err) {
+      console.error('Failed to reassign inquiry:', err);
+      setError(err instanceof Error ? err.message : 'Failed to reassign inquiry');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!isOpen) {
+    return (
+      <button
+        type="button"
+        onClick={() => setIsOpen(true)}
+        className="flex items-center gap-2 px-3 py-1.5 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+      >
+        <Shuffle className="w-4 h-4" />
+        Reassign
+      </button>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 p-3 bg-gray-50 border border-gray-200 rounded-lg">
+      <p className="text-sm text-gray-700">
+        {currentExpert
+          ? <>Currently assigned to <span className="font-medium">{currentExpert.name}</span>, who will be removed from the conversation.</>
+          : 'Nobody is assigned to this inquiry.'}
+      </p>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <div>
+        <label htmlFor="reassign-expert" className="block text-xs font-medium text-gray-700 mb-1">New expert</label>
+        <select
+          id="reassign-expert"
+          value={expertId}
+          onChange={(e) => setExpertId(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        >
+          <option value="">Choose an expert</option>
+          {experts.map(expert => (
+            <option key={expert.id} value={expert.id}>
+              {`${expert.name} (${expert.email}) - ${AVAILABILITY_LABELS[expert.availability.state]}`}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div>
+        <label htmlFor="reassign-note" className="block text-xs font-medium text-gray-700 mb-1">
+          Handoff note (only the new expert sees this)
+        </label>
+        <textarea
+          id="reassign-note"
+          value={note}
+          maxLength={MAX_NOTE_LENGTH}
+          rows={3}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder="Where things stand, what the traveler is waiting for..."
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        />
+      </div>
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={() => setIsOpen(false)}
+          className="px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={!expertId || !note.trim() || isSaving}
+          className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          {isSaving ? 'Reassigning...' : 'Reassign'}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,191 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { History, AlertCircle } from 'lucide-react';
+import { apiService, ApiError, API_ERROR_CODES } from '../../services/api';
+import { useAuth } from '../../contexts/AuthContext';
+import { InquiryReassignForm } from './InquiryReassignForm';
+import {
+  INQUIRY_STATUS_LABELS,
+  INQUIRY_STATUS_STYLES,
+  STATUS_CHANGE_SOURCE_LABELS,
+  getInquiryStatusLabel,
+} from '../../utils/inquiryStatus';
+import type { InquiryStatus, InquiryStatusHistory } from '../../types';
+
+interface InquiryStatusTimelineProps {
+  conversationSid: string;
+}
+
+function StatusBadge({ status }: { status: string }) {
+  return (
+    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${INQUIRY_STATUS_STYLES[status as InquiryStatus] ?? 'bg-gray-100 text-gray-800'}`}>
+      {getInquiryStatusLabel(status)}
+    </span>
+  );
+}
+
+export function InquiryStatusTimeline({ conversationSid }: InquiryStatusTimelineProps) {
+  const { token, can } = useAuth();
+  const [statusHistory, setStatusHistory] = useState<InquiryStatusHistory | null>(null);
+  const [notTracked, setNotTracked] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [nextStatus, setNextStatus] = useState<InquiryStatus | ''>('');
+  const [note, setNote] = useState('');
+
+  const loadHistory = useCallback(async () => {
+    if (!token) return;
+
+    setIsLoading(true);
+    try {
+      const response = await apiService.getInquiryStatusHistoryByConversation(conversationSid, token);
+      setStatusHistory(response.data);
+      setNotTracked(false);
+      setError(null);
+    } catch (err) {
+      if (err instanceof ApiError && err.code === API_ERROR_CODES.NOT_FOUND) {
+        setNotTracked(true);
+      } else {
+        console.error('Failed to load status history:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load status history');
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  }, [conversationSid, token]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  const handleUpdate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token || !statusHistory || !nextStatus) return;
+
+    setIsSaving(true);
+    setError(null);
+    setNotice(null);
+    try {
+      await apiService.updateInquiryStatus(statusHistory.inquiryId, nextStatus, token, note.trim() || undefined);
+      setNextStatus('');
+      setNote('');
+      await loadHistory();
+    } catch (err) {
+      console.error('Failed to update inquiry status:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update inquiry status');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Sheet rows without a dashboard inquiry have nothing to show
+  if (notTracked) return null;
+
+  const canUpdate = can('inquiry.updateStatus') && (statusHistory?.allowedTransitions.length ?? 0) > 0;
+
+  const handleReassigned = (message: string) => {
+    setNotice(message);
+    loadHistory();
+  };
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4 shadow-sm mb-6">
+      <div className="flex items-center justify-between gap-4 mb-4">
+        <div className="flex items-center gap-2">
+          <History className="w-4 h-4 text-blue-600" />
+          <h3 className="text-lg font-semibold text-gray-900">Status History</h3>
+        </div>
+        {statusHistory && <StatusBadge status={statusHistory.status} />}
+      </div>
+
+      {statusHistory && (
+        <div className="flex flex-wrap items-start justify-between gap-4 mb-4">
+          <p className="text-sm text-gray-600">
+            Expert: <span className="font-medium text-gray-900">{statusHistory.assignedExpert?.name ?? 'Unassigned'}</span>
+          </p>
+          {can('inquiry.reassign') && statusHistory.reassignable && (
+            <InquiryReassignForm
+              inquiryId={statusHistory.inquiryId}
+              currentExpert={statusHistory.assignedExpert}
+              onReassigned={handleReassigned}
+            />
+          )}
+        </div>
+      )}
+
+      {notice && <p className="text-sm text-green-700 mb-4">{notice}</p>}
+
+      {error && (
+        <div className="flex items-center gap-2 p-3 mb-4 bg-red-50 border border-red-200 rounded-lg">
+          <AlertCircle className="w-4 h-4 text-red-500 flex-shrink-0" />
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      )}
+
+      {isLoading && !statusHistory && <p className="text-sm text-gray-500">Loading status history...</p>}
+
+      {statusHistory && (
+        <ol className="relative border-l-2 border-gray-200 ml-2 space-y-4">
+          {statusHistory.history.map(change => (
+            <li key={change.id} className="ml-4">
+              <span className="absolute -left-[7px] mt-1.5 w-3 h-3 rounded-full bg-blue-500 border-2 border-white" />
+              <div className="flex items-center gap-2 flex-wrap">
+                {change.fromStatus && (
+                  <>
+                    <StatusBadge status={change.fromStatus} />
+                    <span className="text-gray-400 text-xs">→</span>
+                  </>
+                )}
+                <StatusBadge status={change.toStatus} />
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                {new Date(change.createdAt).toLocaleString()}
+                {` • ${change.changedBy?.name ?? STATUS_CHANGE_SOURCE_LABELS[change.source] ?? change.source}`}
+              </p>
+              {change.note && <p className="text-sm text-gray-700 mt-1 whitespace-pre-wrap break-words">{change.note}</p>}
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {statusHistory && canUpdate && (
+        <form onSubmit={handleUpdate} className="mt-4 pt-4 border-t border-gray-200 flex flex-wrap items-end gap-3">
+          <div>
+            <label htmlFor="inquiry-next-status" className="block text-xs font-medium text-gray-700 mb-1">Move to</label>
+            <select
+              id="inquiry-next-status"
+              value={nextStatus}
+              onChange={(e) => setNextStatus(e.target.value as InquiryStatus | '')}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="">Choose status</option>
+              {statusHistory.allowedTransitions.map(status => (
+                <option key={status} value={status}>{INQUIRY_STATUS_LABELS[status]}</option>
+              ))}
+            </select>
+          </div>
+          <div className="flex-1 min-w-[200px]">
+            <label htmlFor="inquiry-status-note" className="block text-xs font-medium text-gray-700 mb-1">Note (optional)</label>
+            <input
+              id="inquiry-status-note"
+              type="text"
+              value={note}
+              maxLength={500}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Why is the status changing?"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={!nextStatus || isSaving}
+            className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            {isSaving ? 'Updating...' : 'Update status'}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,280 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { UserPlus, AlertCircle, Copy, Check, RefreshCw, XCircle, Mail } from 'lucide-react';
+import { apiService } from '../../services/api';
+import { useAuth } from '../../contexts/AuthContext';
+import { ROLE_LABELS } from '../../utils/permissions';
+import { buildInviteLink } from '../../utils/authLinks';
+import type { InviteStatus, UserInvite, UserRole } from '../../types';
+
+const INVITABLE_ROLES: UserRole[] = ['expert', 'supervisor', 'auditor', 'admin'];
+
+const STATUS_STYLES: Record<InviteStatus, string> = {
+  pending: 'bg-green-100 text-green-800',
+  used: 'bg-blue-100 text-blue-800',
+  revoked: 'bg-gray-100 text-gray-600',
+  expired: 'bg-yellow-100 text-yellow-800',
+};
+
+export function InviteManager() {
+  const { token } = useAuth();
+  const [invites, setInvites] = useState<UserInvite[]>([]);
+  const [showAll, setShowAll] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [createdLink, setCreatedLink] = useState<{ link: string; invite: UserInvite } | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [formData, setFormData] = useState({
+    role: 'expert' as UserRole,
+    email: '',
+    expiresInDays: 7,
+  });
+
+  const loadInvites = useCallback(async () => {
+    if (!token) return;
+
+    setIsLoading(true);
+    try {
+      const response = await apiService.getInvites(token, showAll ? undefined : 'pending');
+      setInvites(response.invites);
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load invites:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load invites');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [token, showAll]);
+
+  useEffect(() => {
+    loadInvites();
+  }, [loadInvites]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token) return;
+
+    setIsCreating(true);
+    setError(null);
+    setCopied(false);
+
+    try {
+      const response = await apiService.createInvite({
+        role: formData.role,
+        email: formData.email.trim() || undefined,
+        expiresInDays: formData.expiresInDays,
+      }, token);
+
+      // The token is only returned now, so the link has to be shown straight away
+      setCreatedLink({ link: buildInviteLink(response.token), invite: response.invite });
+      setFormData(prev => ({ ...prev, email: '' }));
+      await loadInvites();
+    } catch (err) {
+      console.error('Failed to create invite:', err);
+      setError(err instanceof Error ? err.message : 'Failed to create invite');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRevoke = async (invite: UserInvite) => {
+    if (!token) return;
+    if (!window.confirm(`Revoke the ${ROLE_LABELS[invite.role]} invite${invite.email ? ` for ${invite.email}` : ''}?`)) {
+      return;
+    }
+
+    setRevokingId(invite.id);
+    try {
+      await apiService.revokeInvite(invite.id, token);
+      if (createdLink?.invite.id === invite.id) {
+        setCreatedLink(null);
+      }
+      await loadInvites();
+    } catch (err) {
+      console.error('Failed to revoke invite:', err);
+      setError(err instanceof Error ? err.message : 'Failed to revoke invite');
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!createdLink) return;
+    try {
+      await navigator.clipboard.writeText(createdLink.link);
+      setCopied(true);
+    } catch (err) {
+      console.error('Failed to copy invite link:', err);
+    }
+  };
+
+  return (
+    <div className="flex-1 flex flex-col bg-gray-50 h-full">
+      {/* Header */}
+      <div className="bg-white border-b border-gray-200 p-6">
+        <div className="flex items-center gap-4">
+          <div className="w-12 h-12 bg-blue-100 rounded-full flex items-center justify-center">
+            <UserPlus className="w-6 h-6 text-blue-600" />
+          </div>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Team Invites</h1>
+            <p className="text-gray-600">Invite people to the dashboard. Each link works once and expires.</p>
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 border-b border-red-200">
+          <div className="flex items-center gap-3">
+            <AlertCircle className="w-5 h-5 text-red-500" />
+            <p className="text-red-700 text-sm">{error}</p>
+          </div>
+        </div>
+      )}
+
+      <div className="flex-1 p-6 overflow-y-auto space-y-6">
+        {/* New invite */}
+        <form onSubmit={handleSubmit} className="bg-white rounded-lg border border-gray-200 p-6 space-y-4">
+          <h3 className="text-lg font-semibold text-gray-900">New invite</h3>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label htmlFor="invite-role" className="block text-sm font-medium text-gray-700 mb-1">Role</label>
+              <select
+                id="invite-role"
+                value={formData.role}
+                onChange={(e) => setFormData(prev => ({ ...prev, role: e.target.value as UserRole }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                {INVITABLE_ROLES.map(role => (
+                  <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="invite-email" className="block text-sm font-medium text-gray-700 mb-1">
+                Email <span className="text-gray-400 font-normal">(optional, locks the invite to it)</span>
+              </label>
+              <input
+                id="invite-email"
+                type="email"
+                value={formData.email}
+                onChange={(e) => setFormData(prev => ({ ...prev, email: e.target.value }))}
+                placeholder="expert@company.com"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div>
+              <label htmlFor="invite-expiry" className="block text-sm font-medium text-gray-700 mb-1">Expires after</label>
+              <select
+                id="invite-expiry"
+                value={formData.expiresInDays}
+                onChange={(e) => setFormData(prev => ({ ...prev, expiresInDays: Number(e.target.value) }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value={1}>1 day</option>
+                <option value={3}>3 days</option>
+                <option value={7}>7 days</option>
+                <option value={14}>14 days</option>
+                <option value={30}>30 days</option>
+              </select>
+            </div>
+          </div>
+          <button
+            type="submit"
+            disabled={isCreating}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            <Mail className="w-4 h-4" />
+            {isCreating ? 'Creating...' : 'Create invite link'}
+          </button>
+
+          {createdLink && (
+            <div className="p-4 bg-green-50 border border-green-200 rounded-lg space-y-2">
+              <p className="text-sm text-green-800">
+                Send this link to the person you're inviting. It won't be shown again.
+              </p>
+              <div className="flex gap-2">
+                <input
+                  readOnly
+                  value={createdLink.link}
+                  onFocus={(e) => e.target.select()}
+                  className="flex-1 px-3 py-2 text-sm font-mono border border-green-300 rounded-lg bg-white"
+                />
+                <button
+                  type="button"
+                  onClick={handleCopy}
+                  className="flex items-center gap-1 px-3 py-2 text-sm text-green-800 border border-green-300 rounded-lg hover:bg-green-100 transition-colors"
+                >
+                  {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                  {copied ? 'Copied' : 'Copy'}
+                </button>
+              </div>
+            </div>
+          )}
+        </form>
+
+        {/* Invite list */}
+        <div className="bg-white rounded-lg border border-gray-200">
+          <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+            <h3 className="text-lg font-semibold text-gray-900">
+              {showAll ? 'All invites' : 'Outstanding invites'}
+            </h3>
+            <div className="flex items-center gap-3">
+              <label className="flex items-center gap-2 text-sm text-gray-600">
+                <input type="checkbox" checked={showAll} onChange={(e) => setShowAll(e.target.checked)} />
+                Show used, revoked and expired
+              </label>
+              <button
+                onClick={loadInvites}
+                disabled={isLoading}
+                className="p-2 text-gray-400 hover:text-gray-600 rounded-lg hover:bg-gray-100 transition-colors disabled:opacity-50"
+                title="Refresh invites"
+              >
+                <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+              </button>
+            </div>
+          </div>
+
+          {invites.length === 0 ? (
+            <div className="p-8 text-center text-gray-500">
+              {isLoading ? 'Loading invites...' : 'No invites to show'}
+            </div>
+          ) : (
+            <div className="divide-y divide-gray-200">
+              {invites.map(invite => (
+                <div key={invite.id} className="p-4 flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-gray-900">{ROLE_LABELS[invite.role]}</span>
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[invite.status]}`}>
+                        {invite.status}
+                      </span>
+                    </div>
+                    <p className="text-sm text-gray-600 truncate">{invite.email || 'Any email address'}</p>
+                    <p className="text-xs text-gray-500 mt-1">
+                      Created {new Date(invite.createdAt).toLocaleString()}
+                      {invite.createdBy && ` by ${invite.createdBy.name}`}
+                      {invite.status === 'pending' && ` • Expires ${new Date(invite.expiresAt).toLocaleString()}`}
+                      {invite.usedBy && ` • Used by ${invite.usedBy.name} (${invite.usedBy.email})`}
+                    </p>
+                  </div>
+                  {invite.status === 'pending' && (
+                    <button
+                      onClick={() => handleRevoke(invite)}
+                      disabled={revokingId === invite.id}
+                      className="flex items-center gap-1 px-3 py-1.5 text-sm text-red-700 border border-red-200 rounded-lg hover:bg-red-50 transition-colors disabled:opacity-50"
+                    >
+                      <XCircle className="w-4 h-4" />
+                      {revokingId === invite.id ? 'Revoking...' : 'Revoke'}
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+import { useMemo, useState } from 'react';
+import { ChevronDown, ChevronUp, Scissors } from 'lucide-react';
+import { FormattedMessage } from '../common/FormattedMessage';
+import { splitMessage, type MessageChannel } from '../../utils/messageSplitter';
+
+interface MessageSplitPreviewProps {
+  text: string;
+  channel: MessageChannel;
+}
+
+/**
+ * Shows how a long message will be split before it is sent
+ */
+export function MessageSplitPreview({ text, channel }: MessageSplitPreviewProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const split = useMemo(() => splitMessage(text, { channel }), [text, channel]);
+
+  if (split.parts.length <= 1) return null;
+
+  const unit = split.encoding === 'GSM-7' ? 'characters (GSM-7)' : 'characters';
+  const totalSegments = split.parts.reduce((sum, part) => sum + (part.smsSegments ?? 0), 0);
+
+  return (
+    <div className="border border-orange-200 bg-orange-50 rounded-lg text-xs">
+      <button
+        type="button"
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center justify-between gap-2 px-3 py-2 text-orange-700 hover:text-orange-900"
+      >
+        <span className="flex items-center gap-2">
+          <Scissors className="w-3 h-3" />
+          Message will be sent in {split.parts.length} parts
+          <span className="text-orange-500">
+            ({channel === 'sms' ? `SMS, ${totalSegments} segments` : 'chat'}, max {split.limit} {unit} each)
+          </span>
+        </span>
+        <span className="flex items-center gap-1 font-medium">
+          {isExpanded ? 'Hide preview' : 'Preview'}
+          {isExpanded ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+        </span>
+      </button>
+      {isExpanded && (
+        <div className="max-h-48 overflow-y-auto border-t border-orange-200 divide-y divide-orange-100">
+          {split.parts.map((part, index) => (
+            <div key={index} className="px-3 py-2">
+              <p className="text-orange-600 font-medium mb-1">
+                Part {index + 1} · {part.length} chars
+                {part.smsSegments !== undefined && ` · ${part.smsSegments} SMS segments`}
+              </p>
+              <div className="text-gray-700 leading-relaxed">
+                <FormattedMessage text={part.text} />
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
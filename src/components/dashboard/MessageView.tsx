@@ -1,18 +1,25 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { Send, AlertCircle, Bot, User, RefreshCw, Wifi, WifiOff, Users, Shield, ChevronDown, UserCheck, MapPin } from 'lucide-react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { Send, AlertCircle, Bot, User, RefreshCw, Wifi, WifiOff, Users, Shield, ChevronDown, UserCheck, MapPin, Check } from 'lucide-react';
 import { ParticipantPopover } from './ParticipantPopover';
+import { TranscriptExportMenu } from './TranscriptExportMenu';
+import { OutboxMessages } from './OutboxMessages';
+import { MessageSplitPreview } from './MessageSplitPreview';
 import { FormattedMessage } from '../common/FormattedMessage';
-import type { TwilioMessage, TwilioConversation } from '../../types';
 import { useAuth } from '../../contexts/AuthContext';
+import {
+  useConversationStore,
+  selectActiveConversation,
+  selectMessages,
+  selectIsLoadingMessages,
+} from '../../contexts/conversationStore';
 import { twilioService } from '../../services/twilio';
+import { messageOutbox } from '../../services/messageOutbox';
 import { getMessageDisplayInfo, getMessageStyling, getMessageIcon, isBotMessage } from '../../utils/messageDisplay';
+import { getMessageChannel } from '../../utils/messageSplitter';
+import type { OutboxEntry } from '../../types';
 
 interface MessageViewProps {
-  conversation: TwilioConversation | null;
-  messages: TwilioMessage[];
   onSendMessage: (message: string) => Promise<void>;
-  onRefreshMessages?: () => Promise<void>;
-  isLoading: boolean;
   error: string | null;
   sendingChunks?: { current: number; total: number } | null;
   isConversationAccepted?: boolean;
@@ -20,22 +27,23 @@ interface MessageViewProps {
 }
 
 export function MessageView({
-  conversation,
-  messages,
   onSendMessage,
-  onRefreshMessages,
-  isLoading,
   error,
   sendingChunks,
   isConversationAccepted = true,
   onShowAcceptance,
 }: MessageViewProps) {
+  const { state: store, syncMessages } = useConversationStore();
+  const conversation = selectActiveConversation(store);
+  const messages = selectMessages(store, store.activeConversationSid);
+  const isLoading = selectIsLoadingMessages(store, store.activeConversationSid);
   const [newMessage, setNewMessage] = useState('');
   const [isSending, setIsSending] = useState(false);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [lastMessageTime, setLastMessageTime] = useState<Date | null>(null);
   const [connectionStatus, setConnectionStatus] = useState<string>('unknown');
   const [showParticipants, setShowParticipants] = useState<{ position: { x: number; y: number } } | null>(null);
+  const [outboxEntries, setOutboxEntries] = useState<OutboxEntry[]>([]);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const { user } = useAuth();
@@ -66,6 +74,19 @@ export function MessageView({
     };
   }, []);
 
+  // Follow this conversation's outgoing messages in the outbox
+  useEffect(() => {
+    const conversationSid = conversation?.sid;
+    return messageOutbox.subscribe(entries => {
+      setOutboxEntries(entries.filter(entry => entry.conversationSid === conversationSid));
+    });
+  }, [conversation?.sid]);
+
+  const sentMessageSids = useMemo(
+    () => new Set(outboxEntries.filter(entry => entry.status === 'sent').map(entry => entry.messageSid)),
+    [outboxEntries]
+  );
+
   // Track last message time
   useEffect(() => {
     if (messages.length > 0) {
@@ -76,10 +97,10 @@ export function MessageView({
 
   // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
-    if (messages.length > 0) {
+    if (messages.length > 0 || outboxEntries.length > 0) {
       messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
     }
-  }, [messages]);
+  }, [messages, outboxEntries]);
 
   // Focus input when conversation changes
   useEffect(() => {
@@ -137,14 +158,7 @@ export function MessageView({
     setIsRefreshing(true);
     try {
       console.log('🔄 Manually refreshing messages...');
-      if (onRefreshMessages) {
-        await onRefreshMessages();
-      } else {
-        // Fallback: force refresh via Twilio
-        await twilioService.triggerPoll();
-        // Give it a moment to update
-        await new Promise(resolve => setTimeout(resolve, 1000));
-      }
+      await syncMessages(conversation.sid);
     } catch (err) {
       console.error('❌ Failed to refresh messages:', err);
     } finally {
@@ -294,6 +308,7 @@ export function MessageView({
             </div>
           </div>
           <div className="flex items-center gap-2">
+            <TranscriptExportMenu conversationSid={conversation.sid} />
             <button
               onClick={handleRefreshMessages}
               disabled={isRefreshing}
@@ -420,7 +435,10 @@ export function MessageView({
                             {formatTime(message.dateCreated)}
                           </p>
                           {displayInfo.isCurrentUser && (
-                            <span className="text-xs text-blue-200">
+                            <span className="flex items-center gap-1 text-xs text-blue-200">
+                              {sentMessageSids.has(message.sid) && (
+                                <Check className="w-3 h-3" aria-label="Sent" />
+                              )}
                               {isCurrentUserBot() ? 
                                 'Local Only (Bot)' : '→ Twilio → External'}
                             </span>
@@ -454,6 +472,7 @@ export function MessageView({
             );
           })
         )}
+        {!isLoading && <OutboxMessages entries={outboxEntries} />}
         <div ref={messagesEndRef} />
       </div>
 
@@ -558,13 +577,9 @@ export function MessageView({
                     `📤 Multi-part message: ${sendingChunks.current}/${sendingChunks.total} chunks` :
                     'Messages route: You → Twilio → External Systems'}
               </p>
-              {newMessage.length > 1000 && (
-                <p className="text-orange-600 text-xs mt-1">
-                  ⚠️ Message will be split into {Math.ceil(newMessage.length / 1000)} parts (current: {newMessage.length} chars)
-                </p>
-              )}
             </div>
           </div>
+          <MessageSplitPreview text={newMessage} channel={getMessageChannel(conversation.participants)} />
         </form>
         )}
       </div>
@@ -0,0 +1,93 @@
+import { Clock, AlertCircle, RotateCcw, X } from 'lucide-react';
+import { FormattedMessage } from '../common/FormattedMessage';
+import { messageOutbox } from '../../services/messageOutbox';
+import type { OutboxEntry } from '../../types';
+
+interface OutboxMessagesProps {
+  entries: OutboxEntry[];
+}
+
+const formatTime = (timestamp: number) => {
+  return new Intl.DateTimeFormat('en-US', {
+    hour: 'numeric',
+    minute: '2-digit',
+    hour12: true,
+  }).format(new Date(timestamp));
+};
+
+// Outgoing messages the backend hasn't confirmed yet, shown below the conversation
+export function OutboxMessages({ entries }: OutboxMessagesProps) {
+  const pending = entries.filter(entry => entry.status !== 'sent');
+
+  if (pending.length === 0) return null;
+
+  const getStatusText = (entry: OutboxEntry) => {
+    switch (entry.status) {
+      case 'sending':
+        return entry.parts > 1 ? `Sending part ${entry.part}/${entry.parts}...` : 'Sending...';
+      case 'failed':
+        return 'Failed to send';
+      default:
+        return entry.nextAttemptAt
+          ? `Queued - retrying at ${formatTime(entry.nextAttemptAt)} (attempt ${entry.attempts + 1})`
+          : 'Queued';
+    }
+  };
+
+  return (
+    <>
+      {pending.map(entry => (
+        <div key={entry.id} className="flex justify-end">
+          <div
+            className={`max-w-xs lg:max-w-md px-4 py-3 rounded-2xl shadow-sm ${
+              entry.status === 'failed'
+                ? 'bg-red-50 border border-red-200 text-red-900'
+                : 'bg-blue-600 text-white opacity-70'
+            }`}
+          >
+            <div className="text-sm leading-relaxed">
+              <FormattedMessage text={entry.body} />
+            </div>
+            <div className="flex items-center justify-between gap-3 mt-2">
+              <span className={`flex items-center gap-1 text-xs ${
+                entry.status === 'failed' ? 'text-red-600' : 'text-blue-100'
+              }`}>
+                {entry.status === 'sending' ? (
+                  <div className="animate-spin rounded-full h-3 w-3 border-b-2 border-white"></div>
+                ) : entry.status === 'failed' ? (
+                  <AlertCircle className="w-3 h-3" />
+                ) : (
+                  <Clock className="w-3 h-3" />
+                )}
+                {getStatusText(entry)}
+              </span>
+              {entry.status === 'failed' && (
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => messageOutbox.resend(entry.id)}
+                    className="flex items-center gap-1 text-xs font-medium text-red-700 hover:text-red-900"
+                    title="Try sending this message again"
+                  >
+                    <RotateCcw className="w-3 h-3" />
+                    Resend
+                  </button>
+                  <button
+                    onClick={() => messageOutbox.discard(entry.id)}
+                    className="flex items-center gap-1 text-xs text-red-500 hover:text-red-700"
+                    title="Discard this message"
+                  >
+                    <X className="w-3 h-3" />
+                    Discard
+                  </button>
+                </div>
+              )}
+            </div>
+            {entry.status === 'failed' && entry.lastError && (
+              <p className="text-xs text-red-500 mt-1">{entry.lastError}</p>
+            )}
+          </div>
+        </div>
+      ))}
+    </>
+  );
+}
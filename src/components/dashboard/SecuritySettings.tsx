@@ -0,0 +1,264 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { ShieldCheck, ShieldOff, AlertCircle, KeyRound } from 'lucide-react';
+import { apiService } from '../../services/api';
+import { useAuth } from '../../contexts/AuthContext';
+import { TwoFactorEnrollment } from '../auth/TwoFactorEnrollment';
+import { RecoveryCodes } from '../auth/RecoveryCodes';
+import type { TwoFactorStatusResponse, User } from '../../types';
+
+type TwoFactorAction = 'none' | 'enroll' | 'regenerate' | 'disable';
+
+export function SecuritySettings() {
+  const { token, updateUser } = useAuth();
+  const [status, setStatus] = useState<TwoFactorStatusResponse | null>(null);
+  const [action, setAction] = useState<TwoFactorAction>('none');
+  const [newRecoveryCodes, setNewRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadStatus = useCallback(async () => {
+    if (!token) return;
+
+    try {
+      setStatus(await apiService.getTwoFactorStatus(token));
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load two-factor status:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load two-factor status');
+    }
+  }, [token]);
+
+  useEffect(() => {
+    loadStatus();
+  }, [loadStatus]);
+
+  const startAction = (next: TwoFactorAction) => {
+    setAction(next);
+    setCode('');
+    setPassword('');
+    setError(null);
+    setNewRecoveryCodes(null);
+  };
+
+  const handleEnrolled = (user: User) => {
+    updateUser(user);
+    startAction('none');
+    loadStatus();
+  };
+
+  const handleRegenerate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token) return;
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const { recoveryCodes } = await apiService.regenerateRecoveryCodes(code.trim(), token);
+      setNewRecoveryCodes(recoveryCodes);
+      setAction('none');
+      await loadStatus();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to generate new recovery codes');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDisable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token) return;
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      // Six digits is an authenticator code; anything else is treated as a recovery code
+      const twoFactorCode = /^\d{6}$/.test(code.trim()) ? { code: code.trim() } : { recoveryCode: code.trim() };
+      const { user } = await apiService.disableTwoFactor(password, twoFactorCode, token);
+      updateUser(user);
+      startAction('none');
+      await loadStatus();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to turn off two-factor authentication');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="flex-1 flex flex-col bg-gray-50 h-full">
+      {/* Header */}
+      <div className="bg-white border-b border-gray-200 p-6">
+        <div className="flex items-center gap-4">
+          <div className="w-12 h-12 bg-blue-100 rounded-full flex items-center justify-center">
+            <ShieldCheck className="w-6 h-6 text-blue-600" />
+          </div>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Security</h1>
+            <p className="text-gray-600">Protect your account with a second sign-in step</p>
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 border-b border-red-200">
+          <div className="flex items-center gap-3">
+            <AlertCircle className="w-5 h-5 text-red-500" />
+            <p className="text-red-700 text-sm">{error}</p>
+          </div>
+        </div>
+      )}
+
+      <div className="flex-1 p-6 overflow-y-auto space-y-6">
+        <div className="bg-white rounded-lg border border-gray-200 p-6 space-y-4 max-w-2xl">
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">Two-factor authentication</h3>
+              <p className="text-sm text-gray-600 mt-1">
+                {!status
+                  ? 'Loading...'
+                  : status.enabled
+                  ? `On since ${status.enabledAt ? new Date(status.enabledAt).toLocaleDateString() : 'setup'}. Signing in asks for a code from your authenticator app.`
+                  : 'Off. Signing in only needs your password.'}
+              </p>
+              {status?.required && (
+                <p className="text-xs text-gray-500 mt-1">Required for your role.</p>
+              )}
+            </div>
+            {status && (
+              <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                status.enabled ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'
+              }`}>
+                {status.enabled ? 'Enabled' : 'Disabled'}
+              </span>
+            )}
+          </div>
+
+          {status && !status.enabled && action !== 'enroll' && (
+            <button
+              onClick={() => startAction('enroll')}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              <ShieldCheck className="w-4 h-4" />
+              Set up two-factor authentication
+            </button>
+          )}
+
+          {action === 'enroll' && (
+            <TwoFactorEnrollment onComplete={handleEnrolled} onCancel={() => startAction('none')} />
+          )}
+
+          {status?.enabled && (
+            <>
+              <p className={`text-sm ${status.recoveryCodesRemaining <= 3 ? 'text-yellow-700' : 'text-gray-600'}`}>
+                {status.recoveryCodesRemaining} unused recovery code{status.recoveryCodesRemaining === 1 ? '' : 's'} left.
+                {status.recoveryCodesRemaining <= 3 && ' Generate new ones so you are not locked out.'}
+              </p>
+
+              {newRecoveryCodes && <RecoveryCodes codes={newRecoveryCodes} />}
+
+              {action === 'none' && (
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => startAction('regenerate')}
+                    className="flex items-center gap-2 px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                  >
+                    <KeyRound className="w-4 h-4" />
+                    New recovery codes
+                  </button>
+                  {!status.required && (
+                    <button
+                      onClick={() => startAction('disable')}
+                      className="flex items-center gap-2 px-4 py-2 text-sm text-red-700 border border-red-200 rounded-lg hover:bg-red-50 transition-colors"
+                    >
+                      <ShieldOff className="w-4 h-4" />
+                      Turn off
+                    </button>
+                  )}
+                </div>
+              )}
+
+              {action === 'regenerate' && (
+                <form onSubmit={handleRegenerate} className="space-y-3">
+                  <p className="text-sm text-gray-600">
+                    Enter a code from your authenticator app. Your old recovery codes will stop working.
+                  </p>
+                  <input
+                    type="text"
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    maxLength={6}
+                    value={code}
+                    onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 font-mono tracking-widest"
+                    placeholder="123456"
+                    required
+                  />
+                  <div className="flex gap-2">
+                    <button
+                      type="button"
+                      onClick={() => startAction('none')}
+                      className="px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      type="submit"
+                      disabled={isSubmitting || code.length !== 6}
+                      className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                    >
+                      {isSubmitting ? 'Generating...' : 'Generate'}
+                    </button>
+                  </div>
+                </form>
+              )}
+
+              {action === 'disable' && (
+                <form onSubmit={handleDisable} className="space-y-3">
+                  <p className="text-sm text-gray-600">
+                    Confirm with your password and an authenticator or recovery code.
+                  </p>
+                  <input
+                    type="password"
+                    autoComplete="current-password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    placeholder="Password"
+                    required
+                  />
+                  <input
+                    type="text"
+                    autoComplete="one-time-code"
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 font-mono"
+                    placeholder="123456 or XXXXX-XXXXX"
+                    required
+                  />
+                  <div className="flex gap-2">
+                    <button
+                      type="button"
+                      onClick={() => startAction('none')}
+                      className="px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      type="submit"
+                      disabled={isSubmitting}
+                      className="px-4 py-2 text-sm bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+                    >
+                      {isSubmitting ? 'Turning off...' : 'Turn off 2FA'}
+                    </button>
+                  </div>
+                </form>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
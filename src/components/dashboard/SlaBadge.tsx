@@ -0,0 +1,22 @@
+import { Timer } from 'lucide-react';
+import { SLA_METRIC_LABELS, SLA_TONE_STYLES, getSlaCountdown } from '../../utils/sla';
+import type { SlaClock } from '../../types';
+
+interface SlaBadgeProps {
+  clock: SlaClock;
+  now: number; // Passed in so every badge in a list ticks together
+}
+
+export function SlaBadge({ clock, now }: SlaBadgeProps) {
+  const countdown = getSlaCountdown(clock, now);
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium ${SLA_TONE_STYLES[countdown.tone]}`}
+      title={`${SLA_METRIC_LABELS[clock.metric]} SLA, due ${new Date(clock.dueAt).toLocaleString()}`}
+    >
+      <Timer className="w-3 h-3" />
+      {countdown.label}
+    </span>
+  );
+}
@@ -0,0 +1,309 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { AlarmClock, AlertCircle, RefreshCw, ChevronLeft, ChevronRight, Shuffle } from 'lucide-react';
+import { apiService } from '../../services/api';
+import { useAuth } from '../../contexts/AuthContext';
+import { toAuditDateRange } from '../../utils/auditLog';
+import { SLA_METRICS, SLA_METRIC_LABELS, formatSlaDuration, formatSlaTarget } from '../../utils/sla';
+import type { ExpertListEntry, SlaBreachFilters, SlaBreachesResponse, SlaEscalation, SlaMetric } from '../../types';
+
+const PAGE_SIZE = 50;
+
+const EMPTY_FILTERS = {
+  metric: '' as SlaMetric | '',
+  escalation: '' as SlaEscalation | '',
+  expertId: '',
+  fromDate: '',
+  toDate: '',
+};
+
+type FilterForm = typeof EMPTY_FILTERS;
+
+const toApiFilters = (form: FilterForm): SlaBreachFilters => ({
+  metric: form.metric || undefined,
+  escalation: form.escalation || undefined,
+  expertId: form.expertId || undefined,
+  ...toAuditDateRange(form.fromDate, form.toDate),
+});
+
+export function SlaBreachReport() {
+  const { token } = useAuth();
+  const [form, setForm] = useState<FilterForm>(EMPTY_FILTERS);
+  const [appliedFilters, setAppliedFilters] = useState<SlaBreachFilters>({});
+  const [page, setPage] = useState(1);
+  const [result, setResult] = useState<SlaBreachesResponse | null>(null);
+  const [experts, setExperts] = useState<ExpertListEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadBreaches = useCallback(async () => {
+    if (!token) return;
+
+    setIsLoading(true);
+    try {
+      setResult(await apiService.getSlaBreaches(token, appliedFilters, page, PAGE_SIZE));
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load SLA breaches:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load SLA breaches');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [token, appliedFilters, page]);
+
+  useEffect(() => {
+    loadBreaches();
+  }, [loadBreaches]);
+
+  useEffect(() => {
+    if (!token) return;
+
+    apiService.getExperts(token)
+      .then(response => setExperts(response.data || []))
+      .catch(err => console.error('Failed to load experts:', err));
+  }, [token]);
+
+  const handleApply = (e: React.FormEvent) => {
+    e.preventDefault();
+    setAppliedFilters(toApiFilters(form));
+    setPage(1);
+  };
+
+  const handleReset = () => {
+    setForm(EMPTY_FILTERS);
+    setAppliedFilters({});
+    setPage(1);
+  };
+
+  const breaches = result?.data ?? [];
+  const pages = result?.pagination.pages ?? 0;
+
+  return (
+    <div className="flex-1 flex flex-col bg-gray-50 h-full">
+      {/* Header */}
+      <div className="bg-white border-b border-gray-200 p-6">
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-4">
+            <div className="w-12 h-12 bg-red-100 rounded-full flex items-center justify-center">
+              <AlarmClock className="w-6 h-6 text-red-600" />
+            </div>
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">SLA Breaches</h1>
+              <p className="text-gray-600">Inquiries that were not accepted, answered or replied to in time</p>
+            </div>
+          </div>
+          <button
+            onClick={loadBreaches}
+            disabled={isLoading}
+            className="p-2 text-gray-400 hover:text-gray-600 rounded-lg hover:bg-gray-100 transition-colors disabled:opacity-50"
+            title="Refresh breaches"
+          >
+            <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 border-b border-red-200">
+          <div className="flex items-center gap-3">
+            <AlertCircle className="w-5 h-5 text-red-500" />
+            <p className="text-red-700 text-sm">{error}</p>
+          </div>
+        </div>
+      )}
+
+      <div className="flex-1 p-6 overflow-y-auto space-y-6">
+        {/* Totals per clock, for the current filters */}
+        {result && (
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            {SLA_METRICS.map(metric => (
+              <div key={metric} className="bg-white rounded-lg border border-gray-200 p-4">
+                <p className="text-sm text-gray-600 font-medium">{SLA_METRIC_LABELS[metric]}</p>
+                <p className="text-2xl font-bold text-gray-900">{result.summary.byMetric[metric]}</p>
+                <p className="text-xs text-gray-500">Target: {formatSlaTarget(result.policy.targets[metric])}</p>
+              </div>
+            ))}
+            <div className="bg-white rounded-lg border border-gray-200 p-4">
+              <p className="text-sm text-gray-600 font-medium">Reassigned automatically</p>
+              <p className="text-2xl font-bold text-gray-900">{result.summary.reassigned}</p>
+              <p className="text-xs text-gray-500">
+                {result.policy.autoReassign ? 'Missed acceptances are reassigned' : 'Auto-reassignment is off'}
+              </p>
+            </div>
+          </div>
+        )}
+
+        {/* Filters */}
+        <form onSubmit={handleApply} className="bg-white rounded-lg border border-gray-200 p-4 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+            <div>
+              <label htmlFor="sla-metric" className="block text-sm font-medium text-gray-700 mb-1">SLA</label>
+              <select
+                id="sla-metric"
+                value={form.metric}
+                onChange={(e) => setForm(prev => ({ ...prev, metric: e.target.value as SlaMetric | '' }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="">Any SLA</option>
+                {SLA_METRICS.map(metric => (
+                  <option key={metric} value={metric}>{SLA_METRIC_LABELS[metric]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="sla-expert" className="block text-sm font-medium text-gray-700 mb-1">Expert</label>
+              <select
+                id="sla-expert"
+                value={form.expertId}
+                onChange={(e) => setForm(prev => ({ ...prev, expertId: e.target.value }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="">Any expert</option>
+                {experts.map(expert => (
+                  <option key={expert.id} value={expert.id}>{expert.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="sla-escalation" className="block text-sm font-medium text-gray-700 mb-1">Escalation</label>
+              <select
+                id="sla-escalation"
+                value={form.escalation}
+                onChange={(e) => setForm(prev => ({ ...prev, escalation: e.target.value as SlaEscalation | '' }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="">Any</option>
+                <option value="notified">Admins notified</option>
+                <option value="reassigned">Reassigned</option>
+              </select>
+            </div>
+            <div>
+              <label htmlFor="sla-from" className="block text-sm font-medium text-gray-700 mb-1">From</label>
+              <input
+                id="sla-from"
+                type="date"
+                value={form.fromDate}
+                onChange={(e) => setForm(prev => ({ ...prev, fromDate: e.target.value }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div>
+              <label htmlFor="sla-to" className="block text-sm font-medium text-gray-700 mb-1">To</label>
+              <input
+                id="sla-to"
+                type="date"
+                value={form.toDate}
+                min={form.fromDate || undefined}
+                onChange={(e) => setForm(prev => ({ ...prev, toDate: e.target.value }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              Apply filters
+            </button>
+            <button
+              type="button"
+              onClick={handleReset}
+              className="px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Reset
+            </button>
+          </div>
+        </form>
+
+        {/* Experts with the most breaches */}
+        {result && result.summary.byExpert.length > 0 && (
+          <div className="bg-white rounded-lg border border-gray-200">
+            <div className="p-4 border-b border-gray-200">
+              <h3 className="text-lg font-semibold text-gray-900">By expert</h3>
+            </div>
+            <div className="divide-y divide-gray-200">
+              {result.summary.byExpert.map(expert => (
+                <div key={expert.id ?? expert.name} className="px-4 py-2 flex items-center justify-between text-sm">
+                  <span className="text-gray-900">{expert.name}</span>
+                  <span className="font-medium text-gray-700">{expert.count}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Breaches */}
+        <div className="bg-white rounded-lg border border-gray-200">
+          <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+            <h3 className="text-lg font-semibold text-gray-900">
+              {result ? `${result.pagination.total} breach${result.pagination.total === 1 ? '' : 'es'}` : 'Breaches'}
+            </h3>
+            {pages > 1 && (
+              <div className="flex items-center gap-2 text-sm text-gray-600">
+                <button
+                  onClick={() => setPage(prev => prev - 1)}
+                  disabled={page <= 1 || isLoading}
+                  className="p-1 rounded hover:bg-gray-100 disabled:opacity-50"
+                  title="Newer breaches"
+                >
+                  <ChevronLeft className="w-4 h-4" />
+                </button>
+                Page {page} of {pages}
+                <button
+                  onClick={() => setPage(prev => prev + 1)}
+                  disabled={page >= pages || isLoading}
+                  className="p-1 rounded hover:bg-gray-100 disabled:opacity-50"
+                  title="Older breaches"
+                >
+                  <ChevronRight className="w-4 h-4" />
+                </button>
+              </div>
+            )}
+          </div>
+
+          {breaches.length === 0 ? (
+            <div className="p-8 text-center text-gray-500">
+              {isLoading ? 'Loading breaches...' : 'No breaches match these filters'}
+            </div>
+          ) : (
+            <div className="divide-y divide-gray-200">
+              {breaches.map(breach => (
+                <div key={breach.id} className="p-4 grid grid-cols-1 md:grid-cols-4 gap-2 text-sm">
+                  <div>
+                    <p className="text-gray-900">{new Date(breach.breachedAt).toLocaleString()}</p>
+                    <p className="text-xs text-gray-500">
+                      Due {new Date(breach.dueAt).toLocaleString()}
+                    </p>
+                  </div>
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900 truncate">{breach.customerName || 'Deleted inquiry'}</p>
+                    {breach.conversationSid && (
+                      <p className="text-xs text-gray-500 font-mono truncate">{breach.conversationSid}</p>
+                    )}
+                  </div>
+                  <div>
+                    <p className="font-medium text-gray-900">{SLA_METRIC_LABELS[breach.metric]}</p>
+                    <p className="text-xs text-gray-500">
+                      Target {formatSlaDuration(new Date(breach.dueAt).getTime() - new Date(breach.startedAt).getTime())}
+                    </p>
+                  </div>
+                  <div className="min-w-0">
+                    <p className="text-gray-900 truncate">{breach.expert?.name || 'Unknown expert'}</p>
+                    {breach.reassignedTo ? (
+                      <p className="text-xs text-purple-700 flex items-center gap-1">
+                        <Shuffle className="w-3 h-3" />
+                        Reassigned to {breach.reassignedTo.name}
+                      </p>
+                    ) : (
+                      <p className="text-xs text-gray-500">Admins notified</p>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
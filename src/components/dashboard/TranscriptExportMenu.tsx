@@ -0,0 +1,87 @@
+import { useEffect, useRef, useState } from 'react';
+import { Download } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { apiService } from '../../services/api';
+import { downloadBlob } from '../../utils/download';
+import { TRANSCRIPT_FORMATS, getBrowserTimeZone, getExportFilename } from '../../utils/exports';
+import type { TranscriptFormat } from '../../types';
+
+interface TranscriptExportMenuProps {
+  conversationSid: string;
+}
+
+// Header button that downloads the whole conversation as PDF, HTML or plain text
+export function TranscriptExportMenu({ conversationSid }: TranscriptExportMenuProps) {
+  const { token } = useAuth();
+  const [isOpen, setIsOpen] = useState(false);
+  const [exportingFormat, setExportingFormat] = useState<TranscriptFormat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close the menu or the error when clicking anywhere else
+  useEffect(() => {
+    if (!isOpen && !error) return;
+
+    const handleClick = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+        setError(null);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen, error]);
+
+  const handleExport = async (format: TranscriptFormat) => {
+    if (!token) return;
+
+    setIsOpen(false);
+    setError(null);
+    setExportingFormat(format);
+    try {
+      const blob = await apiService.exportTranscript(conversationSid, token, format, getBrowserTimeZone());
+      downloadBlob(blob, getExportFilename(`transcript-${conversationSid}`, format));
+    } catch (err) {
+      console.error('Failed to export transcript:', err);
+      setError(err instanceof Error ? err.message : 'Failed to export transcript');
+    } finally {
+      setExportingFormat(null);
+    }
+  };
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => {
+          setError(null);
+          setIsOpen(open => !open);
+        }}
+        disabled={exportingFormat !== null}
+        className="p-2 text-gray-400 hover:text-gray-600 rounded-lg hover:bg-gray-100 transition-colors disabled:opacity-50"
+        title={exportingFormat ? 'Exporting transcript...' : 'Download transcript'}
+      >
+        <Download className={`w-4 h-4 ${exportingFormat ? 'animate-pulse' : ''}`} />
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-1 w-48 bg-white border border-gray-200 rounded-lg shadow-lg z-20 py-1">
+          <p className="px-3 py-1.5 text-xs font-medium text-gray-500">Download transcript</p>
+          {TRANSCRIPT_FORMATS.map(option => (
+            <button
+              key={option.format}
+              onClick={() => handleExport(option.format)}
+              className="w-full text-left px-3 py-2 text-sm text-gray-700 hover:bg-gray-50"
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      )}
+      {error && (
+        <div className="absolute right-0 mt-1 w-64 bg-red-50 border border-red-200 text-red-700 text-sm rounded-lg shadow-lg z-20 p-3">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
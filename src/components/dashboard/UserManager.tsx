@@ -0,0 +1,509 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { UserCog, AlertCircle, RefreshCw, Search, Pencil, KeyRound, Ban, RotateCcw, Server, CheckCircle } from 'lucide-react';
+import { apiService } from '../../services/api';
+import { useAuth } from '../../contexts/AuthContext';
+import { ROLE_LABELS } from '../../utils/permissions';
+import { formatTags, parseTags } from '../../utils/expertTags';
+import { AVAILABILITY_STYLES, describeAvailability } from '../../utils/availability';
+import type { ManagedUser, TwilioProvisioningResponse, TwilioProvisioningStatus, UserRole } from '../../types';
+
+const EDITABLE_ROLES: UserRole[] = ['expert', 'supervisor', 'auditor', 'admin'];
+
+const TWILIO_STATUS_STYLES: Record<TwilioProvisioningStatus, { label: string; className: string }> = {
+  provisioned: { label: 'Twilio OK', className: 'bg-green-100 text-green-800' },
+  missing: { label: 'Not in Twilio', className: 'bg-red-100 text-red-800' },
+  role_mismatch: { label: 'Wrong Twilio role', className: 'bg-yellow-100 text-yellow-800' },
+  not_configured: { label: 'Twilio not configured', className: 'bg-gray-100 text-gray-600' },
+};
+
+type TwilioCheck = TwilioProvisioningResponse | 'checking' | 'error';
+
+export function UserManager() {
+  const { token, user: currentUser } = useAuth();
+  const [users, setUsers] = useState<ManagedUser[]>([]);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [roleFilter, setRoleFilter] = useState<UserRole | ''>('');
+  const [showDeactivated, setShowDeactivated] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [editing, setEditing] = useState<{ id: string; name: string; role: UserRole; skills: string; regions: string } | null>(null);
+  const [twilioChecks, setTwilioChecks] = useState<Record<string, TwilioCheck>>({});
+
+  const loadUsers = useCallback(async () => {
+    if (!token) return;
+
+    setIsLoading(true);
+    try {
+      const response = await apiService.getUsers(token);
+      setUsers(response.users);
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load users:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load users');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    loadUsers();
+  }, [loadUsers]);
+
+  const visibleUsers = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    return users.filter(user =>
+      (showDeactivated || !user.deactivatedAt) &&
+      (!roleFilter || user.role === roleFilter) &&
+      (!term || user.name.toLowerCase().includes(term) || user.email.toLowerCase().includes(term))
+    );
+  }, [users, searchTerm, roleFilter, showDeactivated]);
+
+  const replaceUser = (updated: ManagedUser) => {
+    setUsers(prev => prev.map(user => (user.id === updated.id ? updated : user)));
+  };
+
+  const runAction = async (id: string, action: () => Promise<void>, failureMessage: string) => {
+    setBusyId(id);
+    setError(null);
+    setNotice(null);
+    try {
+      await action();
+    } catch (err) {
+      console.error(`${failureMessage}:`, err);
+      setError(err instanceof Error ? err.message : failureMessage);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleSave = () => {
+    if (!token || !editing) return;
+    const original = users.find(user => user.id === editing.id);
+    if (!original) return;
+
+    const skills = parseTags(editing.skills);
+    const regions = parseTags(editing.regions);
+    const changes = {
+      ...(editing.name.trim() !== original.name ? { name: editing.name.trim() } : {}),
+      ...(editing.role !== original.role ? { role: editing.role } : {}),
+      ...(formatTags(skills) !== formatTags(original.skills) ? { skills } : {}),
+      ...(formatTags(regions) !== formatTags(original.regions) ? { regions } : {}),
+    };
+    if (Object.keys(changes).length === 0) {
+      setEditing(null);
+      return;
+    }
+
+    runAction(editing.id, async () => {
+      const response = await apiService.updateUser(editing.id, changes, token);
+      replaceUser(response.user);
+      setEditing(null);
+      if (response.twilioSync === 'failed') {
+        setError(`${response.user.name} was updated, but their Twilio role could not be changed. Use "Provision" to retry.`);
+      } else {
+        setNotice(`${response.user.name} was updated`);
+      }
+      setTwilioChecks(prev => {
+        const next = { ...prev };
+        delete next[editing.id];
+        return next;
+      });
+    }, 'Failed to update user');
+  };
+
+  const handleDeactivate = (user: ManagedUser) => {
+    if (!token) return;
+    const openNote = user.openInquiries > 0
+      ? `\n\n${user.openInquiries} open inquir${user.openInquiries === 1 ? 'y stays' : 'ies stay'} assigned to them until reassigned.`
+      : '';
+    if (!window.confirm(`Deactivate ${user.name}? They will be signed out everywhere and cannot log in.${openNote}`)) return;
+
+    runAction(user.id, async () => {
+      const response = await apiService.deactivateUser(user.id, token);
+      replaceUser(response.user);
+      setNotice(response.message);
+    }, 'Failed to deactivate user');
+  };
+
+  const handleReactivate = (user: ManagedUser) => {
+    if (!token) return;
+
+    runAction(user.id, async () => {
+      const response = await apiService.reactivateUser(user.id, token);
+      replaceUser(response.user);
+      setNotice(response.message);
+    }, 'Failed to reactivate user');
+  };
+
+  const handleResetPassword = (user: ManagedUser) => {
+    if (!token) return;
+    if (!window.confirm(`Email ${user.email} a link to choose a new password?`)) return;
+    const signOut = window.confirm(`Also sign ${user.name} out of every device now?`);
+
+    runAction(user.id, async () => {
+      const response = await apiService.sendUserPasswordReset(user.id, signOut, token);
+      setNotice(response.message);
+      if (signOut) await loadUsers();
+    }, 'Failed to send password reset');
+  };
+
+  const checkTwilio = useCallback(async (userId: string) => {
+    if (!token) return;
+
+    setTwilioChecks(prev => ({ ...prev, [userId]: 'checking' }));
+    try {
+      const status = await apiService.getTwilioProvisioning(userId, token);
+      setTwilioChecks(prev => ({ ...prev, [userId]: status }));
+    } catch (err) {
+      console.error('Failed to check Twilio provisioning:', err);
+      setTwilioChecks(prev => ({ ...prev, [userId]: 'error' }));
+    }
+  }, [token]);
+
+  // One at a time, to stay well inside Twilio's rate limits
+  const handleCheckAllExperts = async () => {
+    const experts = users.filter(user => user.role === 'expert' && !user.deactivatedAt);
+    setBusyId('twilio-all');
+    for (const expert of experts) {
+      await checkTwilio(expert.id);
+    }
+    setBusyId(null);
+  };
+
+  const handleProvision = (user: ManagedUser) => {
+    if (!token) return;
+
+    runAction(user.id, async () => {
+      const status = await apiService.provisionTwilioUser(user.id, token);
+      setTwilioChecks(prev => ({ ...prev, [user.id]: status }));
+      setNotice(`${user.name} is provisioned in Twilio as ${status.actualRole}`);
+    }, 'Failed to provision Twilio user');
+  };
+
+  const renderTwilioStatus = (user: ManagedUser) => {
+    const check = twilioChecks[user.id];
+
+    if (!check) {
+      return (
+        <button
+          onClick={() => checkTwilio(user.id)}
+          className="text-xs text-blue-600 hover:text-blue-800"
+        >
+          Check Twilio
+        </button>
+      );
+    }
+    if (check === 'checking') {
+      return <span className="text-xs text-gray-500">Checking Twilio...</span>;
+    }
+    if (check === 'error') {
+      return (
+        <button onClick={() => checkTwilio(user.id)} className="text-xs text-red-600 hover:text-red-800">
+          Twilio check failed, retry
+        </button>
+      );
+    }
+
+    const style = TWILIO_STATUS_STYLES[check.status];
+    return (
+      <span className="flex items-center gap-2">
+        <span
+          className={`px-2 py-0.5 rounded-full text-xs font-medium ${style.className}`}
+          title={check.status === 'role_mismatch' ? `Has ${check.actualRole}, should be ${check.expectedRole}` : undefined}
+        >
+          {style.label}
+        </span>
+        {(check.status === 'missing' || check.status === 'role_mismatch') && (
+          <button
+            onClick={() => handleProvision(user)}
+            disabled={busyId !== null}
+            className="text-xs text-blue-600 hover:text-blue-800 disabled:opacity-50"
+          >
+            Provision
+          </button>
+        )}
+      </span>
+    );
+  };
+
+  return (
+    <div className="flex-1 flex flex-col bg-gray-50 h-full">
+      {/* Header */}
+      <div className="bg-white border-b border-gray-200 p-6">
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-4">
+            <div className="w-12 h-12 bg-blue-100 rounded-full flex items-center justify-center">
+              <UserCog className="w-6 h-6 text-blue-600" />
+            </div>
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Users</h1>
+              <p className="text-gray-600">Edit roles, deactivate accounts and check Twilio provisioning</p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={handleCheckAllExperts}
+              disabled={busyId !== null || isLoading}
+              className="flex items-center gap-2 px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+            >
+              <Server className="w-4 h-4" />
+              {busyId === 'twilio-all' ? 'Checking...' : 'Check all experts in Twilio'}
+            </button>
+            <button
+              onClick={loadUsers}
+              disabled={isLoading}
+              className="p-2 text-gray-400 hover:text-gray-600 rounded-lg hover:bg-gray-100 transition-colors disabled:opacity-50"
+              title="Refresh users"
+            >
+              <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 border-b border-red-200">
+          <div className="flex items-center gap-3">
+            <AlertCircle className="w-5 h-5 text-red-500" />
+            <p className="text-red-700 text-sm">{error}</p>
+          </div>
+        </div>
+      )}
+
+      {notice && (
+        <div className="p-4 bg-green-50 border-b border-green-200">
+          <div className="flex items-center gap-3">
+            <CheckCircle className="w-5 h-5 text-green-500" />
+            <p className="text-green-700 text-sm">{notice}</p>
+          </div>
+        </div>
+      )}
+
+      <div className="flex-1 p-6 overflow-y-auto space-y-6">
+        {/* Filters */}
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="relative flex-1 min-w-[200px]">
+            <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              type="text"
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              placeholder="Search by name or email"
+              className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+          <select
+            value={roleFilter}
+            onChange={(e) => setRoleFilter(e.target.value as UserRole | '')}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          >
+            <option value="">All roles</option>
+            {(Object.keys(ROLE_LABELS) as UserRole[]).map(role => (
+              <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+            ))}
+          </select>
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            <input type="checkbox" checked={showDeactivated} onChange={(e) => setShowDeactivated(e.target.checked)} />
+            Show deactivated
+          </label>
+        </div>
+
+        {/* User list */}
+        <div className="bg-white rounded-lg border border-gray-200">
+          {visibleUsers.length === 0 ? (
+            <div className="p-8 text-center text-gray-500">
+              {isLoading ? 'Loading users...' : 'No users match these filters'}
+            </div>
+          ) : (
+            <div className="divide-y divide-gray-200">
+              {visibleUsers.map(user => {
+                const isSelf = user.id === currentUser?.id;
+                const isEditing = editing?.id === user.id;
+
+                return (
+                  <div key={user.id} className={`p-4 space-y-3 ${user.deactivatedAt ? 'bg-gray-50' : ''}`}>
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2 flex-wrap">
+                          <span className={`font-medium ${user.deactivatedAt ? 'text-gray-500 line-through' : 'text-gray-900'}`}>
+                            {user.name}
+                          </span>
+                          <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                            {ROLE_LABELS[user.role] ?? user.role}
+                          </span>
+                          {isSelf && <span className="text-xs text-gray-500">(you)</span>}
+                          {user.deactivatedAt && (
+                            <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-gray-200 text-gray-700">
+                              Deactivated
+                            </span>
+                          )}
+                          {!user.emailVerified && (
+                            <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+                              Email unverified
+                            </span>
+                          )}
+                          {user.twoFactorEnabled && (
+                            <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">2FA</span>
+                          )}
+                          {user.role === 'expert' && !user.deactivatedAt && (
+                            <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${AVAILABILITY_STYLES[user.availability.state]}`}>
+                              {describeAvailability(user.availability)}
+                            </span>
+                          )}
+                        </div>
+                        <p className="text-sm text-gray-600 truncate">{user.email}</p>
+                        <p className="text-xs text-gray-500 mt-1">
+                          {user.lastSeenAt ? `Last active ${new Date(user.lastSeenAt).toLocaleString()}` : 'Never signed in'}
+                          {` • ${user.activeSessions} active session${user.activeSessions === 1 ? '' : 's'}`}
+                          {user.role === 'expert' && ` • ${user.openInquiries} open inquir${user.openInquiries === 1 ? 'y' : 'ies'}`}
+                          {user.deactivatedAt && ` • Deactivated ${new Date(user.deactivatedAt).toLocaleDateString()}${user.deactivatedBy ? ` by ${user.deactivatedBy}` : ''}`}
+                        </p>
+                        {user.role === 'expert' && (user.skills.length > 0 || user.regions.length > 0) && (
+                          <div className="flex flex-wrap gap-1 mt-2">
+                            {user.skills.map(skill => (
+                              <span key={`skill-${skill}`} className="px-2 py-0.5 rounded-full text-xs bg-indigo-50 text-indigo-700">{skill}</span>
+                            ))}
+                            {user.regions.map(region => (
+                              <span key={`region-${region}`} className="px-2 py-0.5 rounded-full text-xs bg-teal-50 text-teal-700">{region}</span>
+                            ))}
+                          </div>
+                        )}
+                        {user.role === 'expert' && !user.deactivatedAt && (
+                          <div className="mt-2">{renderTwilioStatus(user)}</div>
+                        )}
+                      </div>
+
+                      {!isEditing && (
+                        <div className="flex items-center gap-1 flex-shrink-0">
+                          <button
+                            onClick={() => setEditing({
+                              id: user.id,
+                              name: user.name,
+                              role: user.role,
+                              skills: formatTags(user.skills),
+                              regions: formatTags(user.regions),
+                            })}
+                            disabled={busyId !== null || user.role === 'bot'}
+                            className="p-2 text-gray-400 hover:text-gray-600 rounded-lg hover:bg-gray-100 transition-colors disabled:opacity-50"
+                            title="Edit name, role and expert tags"
+                          >
+                            <Pencil className="w-4 h-4" />
+                          </button>
+                          {!user.deactivatedAt && (
+                            <button
+                              onClick={() => handleResetPassword(user)}
+                              disabled={busyId !== null}
+                              className="p-2 text-gray-400 hover:text-gray-600 rounded-lg hover:bg-gray-100 transition-colors disabled:opacity-50"
+                              title="Send password reset link"
+                            >
+                              <KeyRound className="w-4 h-4" />
+                            </button>
+                          )}
+                          {user.deactivatedAt ? (
+                            <button
+                              onClick={() => handleReactivate(user)}
+                              disabled={busyId !== null}
+                              className="p-2 text-gray-400 hover:text-green-600 rounded-lg hover:bg-green-50 transition-colors disabled:opacity-50"
+                              title="Reactivate"
+                            >
+                              <RotateCcw className="w-4 h-4" />
+                            </button>
+                          ) : (
+                            <button
+                              onClick={() => handleDeactivate(user)}
+                              disabled={busyId !== null || isSelf}
+                              className="p-2 text-gray-400 hover:text-red-600 rounded-lg hover:bg-red-50 transition-colors disabled:opacity-50"
+                              title={isSelf ? 'You cannot deactivate yourself' : 'Deactivate'}
+                            >
+                              <Ban className="w-4 h-4" />
+                            </button>
+                          )}
+                        </div>
+                      )}
+                    </div>
+
+                    {isEditing && editing && (
+                      <div className="flex flex-wrap items-end gap-3 p-3 bg-gray-50 border border-gray-200 rounded-lg">
+                        <div className="flex-1 min-w-[180px]">
+                          <label htmlFor={`user-name-${user.id}`} className="block text-xs font-medium text-gray-700 mb-1">Name</label>
+                          <input
+                            id={`user-name-${user.id}`}
+                            type="text"
+                            value={editing.name}
+                            maxLength={100}
+                            onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                          />
+                        </div>
+                        <div>
+                          <label htmlFor={`user-role-${user.id}`} className="block text-xs font-medium text-gray-700 mb-1">Role</label>
+                          <select
+                            id={`user-role-${user.id}`}
+                            value={editing.role}
+                            disabled={isSelf}
+                            onChange={(e) => setEditing({ ...editing, role: e.target.value as UserRole })}
+                            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-100"
+                            title={isSelf ? 'You cannot change your own role' : undefined}
+                          >
+                            {EDITABLE_ROLES.map(role => (
+                              <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                            ))}
+                          </select>
+                        </div>
+                        {editing.role === 'expert' && (
+                          <>
+                            <div className="flex-1 min-w-[180px]">
+                              <label htmlFor={`user-skills-${user.id}`} className="block text-xs font-medium text-gray-700 mb-1">Skills</label>
+                              <input
+                                id={`user-skills-${user.id}`}
+                                type="text"
+                                value={editing.skills}
+                                onChange={(e) => setEditing({ ...editing, skills: e.target.value })}
+                                placeholder="visa, rail, family"
+                                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                              />
+                            </div>
+                            <div className="flex-1 min-w-[180px]">
+                              <label htmlFor={`user-regions-${user.id}`} className="block text-xs font-medium text-gray-700 mb-1">Regions</label>
+                              <input
+                                id={`user-regions-${user.id}`}
+                                type="text"
+                                value={editing.regions}
+                                onChange={(e) => setEditing({ ...editing, regions: e.target.value })}
+                                placeholder="japan, southeast asia"
+                                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                              />
+                            </div>
+                          </>
+                        )}
+                        <div className="flex gap-2">
+                          <button
+                            type="button"
+                            onClick={() => setEditing(null)}
+                            className="px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                          >
+                            Cancel
+                          </button>
+                          <button
+                            type="button"
+                            onClick={handleSave}
+                            disabled={busyId !== null || !editing.name.trim()}
+                            className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                          >
+                            {busyId === user.id ? 'Saving...' : 'Save'}
+                          </button>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
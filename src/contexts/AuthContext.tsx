@@ -1,11 +1,19 @@
-import React, { createContext, useContext, useReducer, useEffect, ReactNode } from 'react';
-import type { AuthState, User } from '../types';
+import React, { createContext, useContext, useReducer, useEffect, useCallback, ReactNode } from 'react';
+import { ApiError, registerAuthHandlers, refreshAuthSession } from '../services/api/core';
+import { hasPermission } from '../utils/permissions';
+import type { AuthState, Permission, TwoFactorChallenge, TwoFactorCode, User } from '../types';
 
 interface AuthContextType extends AuthState {
   login: (email: string, password: string) => Promise<void>;
-  register: (email: string, password: string, name: string, role: string) => Promise<void>;
+  completeTwoFactorLogin: (twoFactorCode: TwoFactorCode) => Promise<void>;
+  cancelTwoFactorLogin: () => void;
+  updateUser: (user: User) => void;
+  register: (email: string, password: string, name: string, inviteToken?: string) => Promise<void>;
+  verifyEmail: (verificationToken: string) => Promise<string>;
+  resendVerificationEmail: () => Promise<string>;
   logout: () => void;
   refreshToken: () => Promise<void>;
+  can: (permission: Permission) => boolean;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -16,6 +24,9 @@ type AuthAction =
   | { type: 'REGISTER_SUCCESS'; payload: { user: User; token: string } }
   | { type: 'AUTH_ERROR'; payload: string }
   | { type: 'CLEAR_ERROR' }
+  | { type: 'USER_UPDATED'; payload: User }
+  | { type: 'TWO_FACTOR_REQUIRED'; payload: TwoFactorChallenge }
+  | { type: 'TWO_FACTOR_CANCELLED' }
   | { type: 'LOGOUT' }
   | { type: 'TOKEN_REFRESH_SUCCESS'; payload: { user: User; token: string } };
 
@@ -25,6 +36,7 @@ const initialState: AuthState = {
   isAuthenticated: false,
   isLoading: true, // Start with loading true to check stored auth
   error: null,
+  twoFactorChallenge: null,
 };
 
 function authReducer(state: AuthState, action: AuthAction): AuthState {
@@ -46,6 +58,21 @@ function authReducer(state: AuthState, action: AuthAction): AuthState {
         isAuthenticated: true,
         isLoading: false,
         error: null,
+        twoFactorChallenge: null,
+      };
+
+    case 'TWO_FACTOR_REQUIRED':
+      return {
+        ...state,
+        isLoading: false,
+        error: null,
+        twoFactorChallenge: action.payload,
+      };
+
+    case 'TWO_FACTOR_CANCELLED':
+      return {
+        ...state,
+        twoFactorChallenge: null,
       };
     
     case 'AUTH_ERROR':
@@ -56,6 +83,13 @@ function authReducer(state: AuthState, action: AuthAction): AuthState {
         user: null,
         token: null,
         isAuthenticated: false,
+        twoFactorChallenge: null,
+      };
+
+    case 'USER_UPDATED':
+      return {
+        ...state,
+        user: action.payload,
       };
 
     case 'CLEAR_ERROR':
@@ -79,9 +113,74 @@ interface AuthProviderProps {
   children: ReactNode;
 }
 
+const persistSession = (user: User, token: string, refreshToken?: string) => {
+  localStorage.setItem('auth_token', token);
+  localStorage.setItem('auth_user', JSON.stringify(user));
+  if (refreshToken) {
+    localStorage.setItem('auth_refresh_token', refreshToken);
+  }
+};
+
+const clearStoredSession = () => {
+  localStorage.removeItem('auth_token');
+  localStorage.removeItem('auth_user');
+  localStorage.removeItem('auth_refresh_token');
+};
+
 export function AuthProvider({ children }: AuthProviderProps) {
   const [state, dispatch] = useReducer(authReducer, initialState);
 
+  // Tear down the session everywhere: storage, Twilio connection and every mounted view
+  const endSession = (reason?: string) => {
+    clearStoredSession();
+
+    import('../services/twilio')
+      .then(({ twilioService }) => twilioService.disconnect())
+      .catch((error) => console.error('❌ Failed to disconnect Twilio on logout:', error));
+
+    if (reason) {
+      dispatch({ type: 'AUTH_ERROR', payload: reason });
+    } else {
+      dispatch({ type: 'LOGOUT' });
+    }
+  };
+
+  // Let the API layer refresh the JWT on 401s and sign out when that is no longer possible.
+  // Registered before the restore effect below so the stored token can be refreshed on startup.
+  useEffect(() => {
+    registerAuthHandlers({
+      getAccessToken: () => localStorage.getItem('auth_token'),
+      refreshAccessToken: async () => {
+        const storedRefreshToken = localStorage.getItem('auth_refresh_token');
+        if (!storedRefreshToken) {
+          return null;
+        }
+
+        try {
+          const { apiService } = await import('../services/api');
+          const { user, token, refreshToken } = await apiService.refreshSession(storedRefreshToken);
+
+          persistSession(user, token, refreshToken);
+          dispatch({ type: 'TOKEN_REFRESH_SUCCESS', payload: { user, token } });
+          return token;
+        } catch (error) {
+          // A rejected refresh token ends the session; network or server errors do not
+          if (error instanceof ApiError && error.status >= 400 && error.status < 500) {
+            console.error('❌ Refresh token rejected:', error.message);
+            return null;
+          }
+          throw error;
+        }
+      },
+      onSessionExpired: () => {
+        console.log('🔐 Session expired, logging out...');
+        endSession('Your session has expired. Please log in again.');
+      },
+    });
+
+    return () => registerAuthHandlers(null);
+  }, []);
+
   // Enhanced auth state restoration on mount
   useEffect(() => {
     const restoreAuthState = async () => {
@@ -98,18 +197,21 @@ export function AuthProvider({ children }: AuthProviderProps) {
           // Import API service and validate token
           const { apiService } = await import('../services/api');
           
-          // Test if the token is still valid
-          await apiService.testAuthToken(token);
+          // Test if the token is still valid (an expired token is refreshed transparently)
+          const response = await apiService.testAuthToken(token);
+          const currentToken = localStorage.getItem('auth_token') || token;
           
-          dispatch({ type: 'TOKEN_REFRESH_SUCCESS', payload: { user, token } });
+          dispatch({ 
+            type: 'TOKEN_REFRESH_SUCCESS', 
+            payload: { user: response.user || user, token: currentToken } 
+          });
           console.log('✅ Authentication restored successfully');
           
         } catch (error) {
           console.error('❌ Stored authentication invalid:', error);
           
           // Clear invalid auth data
-          localStorage.removeItem('auth_token');
-          localStorage.removeItem('auth_user');
+          clearStoredSession();
           
           dispatch({ 
             type: 'AUTH_ERROR', 
@@ -150,12 +252,17 @@ export function AuthProvider({ children }: AuthProviderProps) {
       await apiService.validateConnection();
       
       const response = await apiService.login(email, password);
+
+      // The password was right; the session is only issued after the second step
+      if ('twoFactorRequired' in response) {
+        dispatch({ type: 'TWO_FACTOR_REQUIRED', payload: { challengeToken: response.challengeToken, email } });
+        return;
+      }
       
-      const { user, token } = response;
+      const { user, token, refreshToken } = response;
       
       // Store in localStorage
-      localStorage.setItem('auth_token', token);
-      localStorage.setItem('auth_user', JSON.stringify(user));
+      persistSession(user, token, refreshToken);
       
       dispatch({ type: 'LOGIN_SUCCESS', payload: { user, token } });
       console.log('✅ Login successful');
@@ -169,7 +276,41 @@ export function AuthProvider({ children }: AuthProviderProps) {
     }
   };
 
-  const register = async (email: string, password: string, name: string, role: string) => {
+  const completeTwoFactorLogin = async (twoFactorCode: TwoFactorCode) => {
+    const challenge = state.twoFactorChallenge;
+    if (!challenge) {
+      throw new Error('Sign in with your password first');
+    }
+
+    const { apiService } = await import('../services/api');
+
+    try {
+      const { user, token, refreshToken } =
+        await apiService.completeTwoFactorLogin(challenge.challengeToken, twoFactorCode);
+
+      persistSession(user, token, refreshToken);
+      dispatch({ type: 'LOGIN_SUCCESS', payload: { user, token } });
+      console.log('✅ Two-factor login successful');
+    } catch (error) {
+      // A wrong code can be retried; an expired challenge means starting over from the password
+      if (error instanceof ApiError && error.code === 'INVALID_TWO_FACTOR_CHALLENGE') {
+        dispatch({ type: 'AUTH_ERROR', payload: error.message });
+      }
+      throw error;
+    }
+  };
+
+  const cancelTwoFactorLogin = () => {
+    dispatch({ type: 'TWO_FACTOR_CANCELLED' });
+  };
+
+  // Apply a user payload returned by an account endpoint (2FA changes, email verification)
+  const updateUser = (user: User) => {
+    localStorage.setItem('auth_user', JSON.stringify(user));
+    dispatch({ type: 'USER_UPDATED', payload: user });
+  };
+
+  const register = async (email: string, password: string, name: string, inviteToken?: string) => {
     dispatch({ type: 'AUTH_START' });
     
     try {
@@ -181,13 +322,12 @@ export function AuthProvider({ children }: AuthProviderProps) {
       // Validate backend connection first
       await apiService.validateConnection();
       
-      const response = await apiService.register(email, password, name, role);
+      const response = await apiService.register(email, password, name, inviteToken);
       
-      const { user, token } = response;
+      const { user, token, refreshToken } = response;
       
       // Store in localStorage
-      localStorage.setItem('auth_token', token);
-      localStorage.setItem('auth_user', JSON.stringify(user));
+      persistSession(user, token, refreshToken);
       
       dispatch({ type: 'REGISTER_SUCCESS', payload: { user, token } });
       console.log('✅ Registration successful');
@@ -201,49 +341,83 @@ export function AuthProvider({ children }: AuthProviderProps) {
     }
   };
 
+  // Works signed in or out; the link may have been opened in a browser with another account
+  const verifyEmail = async (verificationToken: string) => {
+    const { apiService } = await import('../services/api');
+    const { message, user } = await apiService.verifyEmail(verificationToken);
+
+    if (state.user && state.user.id === user.id) {
+      updateUser({ ...state.user, emailVerified: true });
+    }
+
+    return message;
+  };
+
+  const resendVerificationEmail = async () => {
+    if (!state.token) {
+      throw new Error('Sign in to request a new verification email');
+    }
+
+    const { apiService } = await import('../services/api');
+    const { message } = await apiService.resendVerification(state.token);
+    return message;
+  };
+
   const refreshToken = async () => {
     if (!state.token) {
       throw new Error('No token to refresh');
     }
 
-    try {
-      console.log('🔄 Refreshing authentication token...');
-      
-      const { apiService } = await import('../services/api');
-      const response = await apiService.testAuthToken(state.token);
-      
-      if (response.user) {
-        dispatch({ 
-          type: 'TOKEN_REFRESH_SUCCESS', 
-          payload: { user: response.user, token: state.token } 
-        });
-        console.log('✅ Token refresh successful');
-      }
-      
-    } catch (error) {
-      console.error('❌ Token refresh failed:', error);
-      logout();
-      throw error;
+    console.log('🔄 Refreshing authentication token...');
+    
+    // Shares the in-flight refresh with any API call that hit a 401 at the same time
+    const token = await refreshAuthSession();
+    
+    if (!token) {
+      console.error('❌ Token refresh failed');
+      endSession('Your session has expired. Please log in again.');
+      throw new Error('Session expired');
     }
+    
+    console.log('✅ Token refresh successful');
   };
 
   const logout = () => {
     console.log('👋 Logging out user...');
-    
-    localStorage.removeItem('auth_token');
-    localStorage.removeItem('auth_user');
-    dispatch({ type: 'LOGOUT' });
-    
-    console.log('✅ Logout complete');
+
+    // End the server-side session first so the tokens stop working, but never block signing out on it
+    const token = localStorage.getItem('auth_token');
+    const serverLogout = token
+      ? import('../services/api')
+          .then(({ apiService }) => apiService.logout(token, { timeoutMs: 5000 }))
+          .catch((error) => console.error('❌ Failed to end server session:', error))
+      : Promise.resolve();
+
+    serverLogout.finally(() => {
+      endSession();
+      console.log('✅ Logout complete');
+    });
   };
 
+  // Views gate actions on permissions rather than role names
+  const can = useCallback(
+    (permission: Permission) => hasPermission(state.user, permission),
+    [state.user]
+  );
+
   return (
     <AuthContext.Provider value={{
       ...state,
       login,
+      completeTwoFactorLogin,
+      cancelTwoFactorLogin,
+      updateUser,
       register,
+      verifyEmail,
+      resendVerificationEmail,
       logout,
       refreshToken,
+      can,
     }}>
       {children}
     </AuthContext.Provider>
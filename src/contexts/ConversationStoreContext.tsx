@@ -0,0 +1,749 @@
+import { useReducer, useEffect, useCallback, useRef, ReactNode } from 'react';
+import type { Conversation, ConversationUpdatedEventArgs, Message } from '@twilio/conversations';
+import { useAuth } from './AuthContext';
+import {
+  ConversationStoreContext,
+  listConversations,
+  listMessages,
+  type ConversationStoreContextType,
+} from './conversationStore';
+import { apiService, isAbortError } from '../services/api';
+import { twilioService } from '../services/twilio';
+import { messageOutbox } from '../services/messageOutbox';
+import { mergeConversations, mergeMessages } from '../utils/deltaSync';
+import type {
+  ConversationStoreState,
+  ConversationSummary,
+  ConversationType,
+  DMConversation,
+  DMConversationType,
+  ExpertConversation,
+  TwilioConversation,
+  TwilioMessage,
+  TwilioParticipant,
+} from '../types';
+
+type ConversationStoreAction =
+  | { type: 'CONVERSATIONS_LOADING'; payload: { page: number } }
+  | { type: 'CONVERSATIONS_LOADED'; payload: { conversations: TwilioConversation[]; page: number; hasMore: boolean; cursor: string | null } }
+  | { type: 'CONVERSATIONS_MERGED'; payload: { conversations: TwilioConversation[]; cursor?: string } }
+  | { type: 'CONVERSATIONS_FAILED'; payload: string }
+  | { type: 'PARTICIPANTS_LOADED'; payload: { conversationSid: string; participants: TwilioParticipant[]; participantCount: number; conversationType?: ConversationType } }
+  | { type: 'ACTIVE_CONVERSATION_SET'; payload: string | null }
+  | { type: 'MESSAGES_LOADING'; payload: string }
+  | { type: 'MESSAGES_LOADED'; payload: { conversationSid: string; messages: TwilioMessage[]; lastIndex: number } }
+  | { type: 'MESSAGES_MERGED'; payload: { conversationSid: string; messages: TwilioMessage[]; lastIndex?: number } }
+  | { type: 'MESSAGES_SETTLED'; payload: { conversationSid: string; error?: string } }
+  | { type: 'CONVERSATIONS_ACCEPTED'; payload: string[] }
+  | { type: 'INQUIRIES_LOADING' }
+  | { type: 'INQUIRIES_LOADED'; payload: ExpertConversation[] }
+  | { type: 'INQUIRIES_FAILED'; payload: string }
+  | { type: 'DM_CONVERSATIONS_LOADING' }
+  | { type: 'DM_CONVERSATIONS_LOADED'; payload: { type: DMConversationType; conversations: DMConversation[] } }
+  | { type: 'DM_CONVERSATIONS_FAILED'; payload: string }
+  | { type: 'CLEAR_ERROR' }
+  | { type: 'RESET' };
+
+const initialState: ConversationStoreState = {
+  conversations: {},
+  conversationOrder: [],
+  messages: {},
+  messageSidsByConversation: {},
+  acceptedConversations: {},
+  inquiries: {},
+  inquiryOrder: [],
+  dmConversations: {},
+  dmSidsByType: { expert_admin_dm: [], admin_traveler_dm: [] },
+  activeConversationSid: null,
+  pagination: { page: 1, hasMore: false },
+  conversationCursor: null,
+  messageCursors: {},
+  loading: {
+    conversations: true,
+    moreConversations: false,
+    inquiries: false,
+    dmConversations: false,
+  },
+  loadingMessages: {},
+  error: null,
+  lastRefresh: null,
+};
+
+const CONVERSATIONS_PAGE_SIZE = 15;
+
+// Transform to match expected format
+const toConversation = (conv: ConversationSummary): TwilioConversation => ({
+  ...conv,
+  dateCreated: new Date(conv.dateCreated),
+  dateUpdated: new Date(conv.dateUpdated),
+  participants: [], // Will be loaded on-demand
+  lastMessage: undefined // Will be loaded on-demand
+});
+
+const withConversations = (state: ConversationStoreState, list: TwilioConversation[]): ConversationStoreState => ({
+  ...state,
+  conversations: Object.fromEntries(list.map(conversation => [conversation.sid, conversation])),
+  conversationOrder: list.map(conversation => conversation.sid),
+});
+
+const withMessages = (state: ConversationStoreState, conversationSid: string, list: TwilioMessage[]): ConversationStoreState => {
+  const messages = { ...state.messages };
+  (state.messageSidsByConversation[conversationSid] || []).forEach(sid => delete messages[sid]);
+  list.forEach(message => {
+    messages[message.sid] = message;
+  });
+
+  return {
+    ...state,
+    messages,
+    messageSidsByConversation: {
+      ...state.messageSidsByConversation,
+      [conversationSid]: list.map(message => message.sid),
+    },
+  };
+};
+
+const withoutFlag = (flags: Record<string, boolean>, key: string) => {
+  const rest = { ...flags };
+  delete rest[key];
+  return rest;
+};
+
+function conversationStoreReducer(state: ConversationStoreState, action: ConversationStoreAction): ConversationStoreState {
+  switch (action.type) {
+    case 'CONVERSATIONS_LOADING':
+      return {
+        ...state,
+        loading: {
+          ...state.loading,
+          conversations: action.payload.page === 1,
+          moreConversations: action.payload.page > 1,
+        },
+      };
+
+    case 'CONVERSATIONS_LOADED': {
+      const { conversations, page, hasMore, cursor } = action.payload;
+
+      // Page 1 replaces the list; participant data already loaded for a conversation is kept
+      const list = page === 1
+        ? mergeConversations(conversations.map(c => state.conversations[c.sid]).filter(Boolean), conversations)
+        : mergeConversations(listConversations(state), conversations);
+
+      return {
+        ...withConversations(state, list),
+        pagination: { page, hasMore },
+        conversationCursor: page === 1 ? cursor : state.conversationCursor,
+        loading: { ...state.loading, conversations: false, moreConversations: false },
+        lastRefresh: new Date(),
+      };
+    }
+
+    case 'CONVERSATIONS_MERGED': {
+      const { conversations, cursor } = action.payload;
+      const next = withConversations(state, mergeConversations(listConversations(state), conversations));
+
+      // Only server responses move the cursor; realtime events don't
+      return cursor
+        ? { ...next, conversationCursor: cursor, lastRefresh: new Date() }
+        : next;
+    }
+
+    case 'CONVERSATIONS_FAILED':
+      return {
+        ...state,
+        loading: { ...state.loading, conversations: false, moreConversations: false },
+        error: action.payload,
+      };
+
+    case 'PARTICIPANTS_LOADED': {
+      const { conversationSid, participants, participantCount, conversationType } = action.payload;
+      const conversation = state.conversations[conversationSid];
+      if (!conversation) return state;
+
+      return {
+        ...state,
+        conversations: {
+          ...state.conversations,
+          [conversationSid]: {
+            ...conversation,
+            participants,
+            participantCount,
+            conversationType: conversationType || conversation.conversationType,
+          },
+        },
+      };
+    }
+
+    case 'ACTIVE_CONVERSATION_SET':
+      return { ...state, activeConversationSid: action.payload };
+
+    case 'MESSAGES_LOADING':
+      return {
+        ...state,
+        loadingMessages: { ...state.loadingMessages, [action.payload]: true },
+      };
+
+    case 'MESSAGES_LOADED': {
+      const { conversationSid, messages, lastIndex } = action.payload;
+      return {
+        ...withMessages(state, conversationSid, messages),
+        messageCursors: { ...state.messageCursors, [conversationSid]: lastIndex },
+        loadingMessages: withoutFlag(state.loadingMessages, conversationSid),
+      };
+    }
+
+    case 'MESSAGES_MERGED': {
+      const { conversationSid, messages, lastIndex } = action.payload;
+      const next = withMessages(state, conversationSid, mergeMessages(listMessages(state, conversationSid), messages));
+      const currentCursor = state.messageCursors[conversationSid];
+
+      return lastIndex === undefined
+        ? next
+        : {
+            ...next,
+            messageCursors: {
+              ...state.messageCursors,
+              [conversationSid]: Math.max(lastIndex, currentCursor ?? -1),
+            },
+          };
+    }
+
+    case 'MESSAGES_SETTLED':
+      return {
+        ...state,
+        loadingMessages: withoutFlag(state.loadingMessages, action.payload.conversationSid),
+        error: action.payload.error ?? state.error,
+      };
+
+    case 'CONVERSATIONS_ACCEPTED': {
+      const acceptedConversations = { ...state.acceptedConversations };
+      const inquiries = { ...state.inquiries };
+
+      action.payload.forEach(sid => {
+        acceptedConversations[sid] = true;
+        if (inquiries[sid] && !inquiries[sid].expert_accepted) {
+          inquiries[sid] = {
+            ...inquiries[sid],
+            expert_accepted: true,
+            expert_accepted_at: inquiries[sid].expert_accepted_at || new Date().toISOString(),
+          };
+        }
+      });
+
+      return { ...state, acceptedConversations, inquiries };
+    }
+
+    case 'INQUIRIES_LOADING':
+      return { ...state, loading: { ...state.loading, inquiries: true } };
+
+    case 'INQUIRIES_LOADED': {
+      const acceptedConversations = { ...state.acceptedConversations };
+      action.payload.forEach(inquiry => {
+        if (inquiry.expert_accepted) {
+          acceptedConversations[inquiry.conversation_sid] = true;
+        }
+      });
+
+      return {
+        ...state,
+        inquiries: Object.fromEntries(action.payload.map(inquiry => [inquiry.conversation_sid, inquiry])),
+        inquiryOrder: action.payload.map(inquiry => inquiry.conversation_sid),
+        acceptedConversations,
+        loading: { ...state.loading, inquiries: false },
+      };
+    }
+
+    case 'INQUIRIES_FAILED':
+      return {
+        ...state,
+        loading: { ...state.loading, inquiries: false },
+        error: action.payload,
+      };
+
+    case 'DM_CONVERSATIONS_LOADING':
+      return { ...state, loading: { ...state.loading, dmConversations: true } };
+
+    case 'DM_CONVERSATIONS_LOADED': {
+      const { type, conversations } = action.payload;
+      return {
+        ...state,
+        dmConversations: {
+          ...state.dmConversations,
+          ...Object.fromEntries(conversations.map(conversation => [conversation.sid, conversation])),
+        },
+        dmSidsByType: { ...state.dmSidsByType, [type]: conversations.map(conversation => conversation.sid) },
+        loading: { ...state.loading, dmConversations: false },
+      };
+    }
+
+    case 'DM_CONVERSATIONS_FAILED':
+      return {
+        ...state,
+        loading: { ...state.loading, dmConversations: false },
+        error: action.payload,
+      };
+
+    case 'CLEAR_ERROR':
+      return { ...state, error: null };
+
+    case 'RESET':
+      return initialState;
+
+    default:
+      return state;
+  }
+}
+
+const errorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error ? error.message : fallback;
+
+// Wait for a burst of realtime events (e.g. the SDK announcing every subscribed
+// conversation on connect) to settle before asking the backend for changes
+const EVENT_SYNC_DEBOUNCE_MS = 1000;
+
+// Message deltas only carry new messages, so edits and removals show up with the next full reload
+const MESSAGE_FULL_RESYNC_MS = 5 * 60 * 1000;
+
+interface ConversationStoreProviderProps {
+  children: ReactNode;
+}
+
+export function ConversationStoreProvider({ children }: ConversationStoreProviderProps) {
+  const { token, can } = useAuth();
+  const [state, dispatch] = useReducer(conversationStoreReducer, initialState);
+
+  // Async actions read the latest state (cursors, entities) without re-creating callbacks
+  const stateRef = useRef(state);
+  stateRef.current = state;
+
+  // In-flight full message load, cancelled when another one starts
+  const messagesRequestRef = useRef<{ conversationSid: string; controller: AbortController } | null>(null);
+  const conversationSyncRef = useRef<Promise<void> | null>(null);
+  // When each conversation's messages were last loaded in full
+  const messagesLoadedAtRef = useRef<Record<string, number>>({});
+
+  // Drop everything when the session ends
+  useEffect(() => {
+    if (!token) {
+      messagesRequestRef.current?.controller.abort();
+      messagesRequestRef.current = null;
+      dispatch({ type: 'RESET' });
+    }
+  }, [token]);
+
+  // OPTIMIZED: Load conversations with minimal API calls
+  const loadConversations = useCallback(async (page: number = 1) => {
+    if (!token) return;
+
+    dispatch({ type: 'CONVERSATIONS_LOADING', payload: { page } });
+
+    try {
+      console.log(`⚡ ULTRA FAST: Loading conversations page ${page}...`);
+      const startTime = performance.now();
+
+      const response = await apiService.getMainConversations(token, page, CONVERSATIONS_PAGE_SIZE);
+      const loadTime = performance.now() - startTime;
+
+      console.log(`⚡ ULTRA FAST: Loaded ${response.conversations?.length || 0} conversations in ${loadTime.toFixed(2)}ms`);
+
+      dispatch({
+        type: 'CONVERSATIONS_LOADED',
+        payload: {
+          conversations: (response.conversations || []).map(toConversation),
+          page,
+          hasMore: response.pagination?.hasMore || false,
+          cursor: response.sync?.cursor || null,
+        },
+      });
+    } catch (err) {
+      console.error('❌ Failed to load conversations:', err);
+      dispatch({ type: 'CONVERSATIONS_FAILED', payload: errorMessage(err, 'Failed to load conversations') });
+    }
+  }, [token]);
+
+  const loadMoreConversations = useCallback(async () => {
+    const { pagination, loading } = stateRef.current;
+    if (!pagination.hasMore || loading.moreConversations) return;
+
+    console.log(`📄 Loading more conversations (page ${pagination.page + 1})...`);
+    await loadConversations(pagination.page + 1);
+  }, [loadConversations]);
+
+  // Delta sync: merge only conversations changed since the last cursor
+  const syncConversations = useCallback(async () => {
+    if (!token) return;
+
+    // Polls, refresh buttons and realtime events may all ask at once
+    if (conversationSyncRef.current) {
+      return conversationSyncRef.current;
+    }
+
+    const cursor = stateRef.current.conversationCursor;
+    if (!cursor) {
+      await loadConversations(1);
+      return;
+    }
+
+    conversationSyncRef.current = (async () => {
+      try {
+        const response = await apiService.getConversationChanges(token, cursor);
+        dispatch({
+          type: 'CONVERSATIONS_MERGED',
+          payload: {
+            conversations: (response.conversations || []).map(toConversation),
+            cursor: response.sync?.cursor || cursor,
+          },
+        });
+      } catch (err) {
+        console.error('❌ Failed to sync conversations:', err);
+      } finally {
+        conversationSyncRef.current = null;
+      }
+    })();
+
+    return conversationSyncRef.current;
+  }, [token, loadConversations]);
+
+  const markConversationsAccepted = useCallback((conversationSids: string[]) => {
+    dispatch({ type: 'CONVERSATIONS_ACCEPTED', payload: conversationSids });
+  }, []);
+
+  // FAST: Load participants for a specific conversation on-demand
+  const loadConversationParticipants = useCallback(async (conversationSid: string) => {
+    if (!token) return;
+
+    try {
+      console.log(`👥 Lazy loading participants for: ${conversationSid}`);
+      const participantData = await apiService.getConversationParticipants(token, conversationSid);
+
+      dispatch({
+        type: 'PARTICIPANTS_LOADED',
+        payload: {
+          conversationSid,
+          participants: participantData.participants || [],
+          participantCount: participantData.participantCount || 0,
+          conversationType: participantData.conversationType,
+        },
+      });
+
+      // For experts, check acceptance status for this specific conversation
+      if (can('inquiry.accept')) {
+        try {
+          const acceptanceResponse = await apiService.checkConversationAcceptance(conversationSid, token);
+          if (acceptanceResponse.accepted) {
+            markConversationsAccepted([conversationSid]);
+          }
+        } catch (acceptanceError) {
+          console.error(`❌ Failed to check acceptance for ${conversationSid}:`, acceptanceError);
+          // Default to accepted on error to avoid blocking access
+          markConversationsAccepted([conversationSid]);
+        }
+      }
+
+      console.log(`👥 Updated conversation ${conversationSid} with ${participantData.participants?.length || 0} participants`);
+    } catch (error) {
+      console.error(`❌ Failed to load participants for ${conversationSid}:`, error);
+    }
+  }, [token, can, markConversationsAccepted]);
+
+  const setActiveConversation = useCallback((conversationSid: string | null) => {
+    dispatch({ type: 'ACTIVE_CONVERSATION_SET', payload: conversationSid });
+  }, []);
+
+  // Load messages for a conversation
+  const loadMessages = useCallback(async (conversationSid: string) => {
+    if (!token) return;
+
+    messagesRequestRef.current?.controller.abort();
+    const controller = new AbortController();
+    messagesRequestRef.current = { conversationSid, controller };
+
+    dispatch({ type: 'MESSAGES_LOADING', payload: conversationSid });
+    try {
+      console.log(`📨 Loading messages via backend API for: ${conversationSid}`);
+
+      // Use backend API to fetch messages since frontend Twilio client has permission issues
+      const response = await apiService.getConversationMessages(conversationSid, token, { signal: controller.signal });
+      const fetchedMessages = response.messages || [];
+
+      console.log(`✅ Loaded ${fetchedMessages.length} messages via backend API`);
+      messagesLoadedAtRef.current[conversationSid] = Date.now();
+      dispatch({
+        type: 'MESSAGES_LOADED',
+        payload: {
+          conversationSid,
+          messages: fetchedMessages,
+          lastIndex: response.sync?.lastIndex ?? Math.max(-1, ...fetchedMessages.map(msg => msg.index)),
+        },
+      });
+    } catch (err) {
+      if (isAbortError(err)) {
+        console.log(`⏹️ Message request for ${conversationSid} cancelled`);
+        // A newer request for the same conversation keeps its loading flag
+        if (messagesRequestRef.current?.conversationSid !== conversationSid) {
+          dispatch({ type: 'MESSAGES_SETTLED', payload: { conversationSid } });
+        }
+        return;
+      }
+
+      console.error('❌ Failed to load messages via backend API:', err);
+
+      // Fallback: try Twilio frontend client (may fail due to permissions)
+      try {
+        console.log('🔄 Trying frontend Twilio client as fallback...');
+        const conversation = await twilioService.getConversation(conversationSid);
+        if (conversation) {
+          const fetchedMessages = await twilioService.getMessages(conversation);
+          dispatch({
+            type: 'MESSAGES_LOADED',
+            payload: {
+              conversationSid,
+              messages: fetchedMessages,
+              lastIndex: Math.max(-1, ...fetchedMessages.map(msg => msg.index)),
+            },
+          });
+          console.log(`✅ Fallback: Loaded ${fetchedMessages.length} messages via frontend client`);
+        } else {
+          console.log('ℹ️ No conversation available from frontend client, keeping empty messages');
+        }
+      } catch (fallbackErr) {
+        console.error('❌ Fallback message loading also failed:', fallbackErr);
+        // Keep any existing messages, don't clear them
+        console.log('ℹ️ Keeping existing messages in UI');
+      }
+
+      dispatch({
+        type: 'MESSAGES_SETTLED',
+        payload: { conversationSid, error: errorMessage(err, 'Failed to load messages') },
+      });
+    } finally {
+      if (messagesRequestRef.current?.controller === controller) {
+        messagesRequestRef.current = null;
+      }
+    }
+  }, [token]);
+
+  // Delta sync: append only messages newer than the last index we received, and replace the
+  // list in the background every MESSAGE_FULL_RESYNC_MS
+  const syncMessages = useCallback(async (conversationSid: string) => {
+    if (!token || messagesRequestRef.current?.conversationSid === conversationSid) return;
+
+    const lastIndex = stateRef.current.messageCursors[conversationSid];
+    if (lastIndex === undefined) {
+      await loadMessages(conversationSid);
+      return;
+    }
+
+    try {
+      const loadedAt = messagesLoadedAtRef.current[conversationSid] ?? 0;
+      if (Date.now() - loadedAt >= MESSAGE_FULL_RESYNC_MS) {
+        const response = await apiService.getConversationMessages(conversationSid, token);
+        const fetchedMessages = response.messages || [];
+        messagesLoadedAtRef.current[conversationSid] = Date.now();
+        dispatch({
+          type: 'MESSAGES_LOADED',
+          payload: {
+            conversationSid,
+            messages: fetchedMessages,
+            lastIndex: response.sync?.lastIndex ?? Math.max(-1, ...fetchedMessages.map(msg => msg.index)),
+          },
+        });
+        return;
+      }
+
+      const response = await apiService.getNewMessages(conversationSid, token, lastIndex);
+
+      if (response.sync && !response.sync.isComplete) {
+        console.log(`ℹ️ Too far behind on ${conversationSid}, reloading all messages`);
+        await loadMessages(conversationSid);
+        return;
+      }
+
+      dispatch({
+        type: 'MESSAGES_MERGED',
+        payload: {
+          conversationSid,
+          messages: response.messages || [],
+          lastIndex: response.sync?.lastIndex ?? lastIndex,
+        },
+      });
+    } catch (err) {
+      console.error(`❌ Failed to sync messages for ${conversationSid}:`, err);
+    }
+  }, [token, loadMessages]);
+
+  // Optimistic messages shown before the server copy arrives
+  const addMessages = useCallback((conversationSid: string, messages: TwilioMessage[]) => {
+    dispatch({ type: 'MESSAGES_MERGED', payload: { conversationSid, messages } });
+  }, []);
+
+  const acceptConversation = useCallback(async (inquiryId: string, conversationSid: string) => {
+    if (!token) return;
+
+    console.log(`🤝 Accepting conversation: ${conversationSid}`);
+    await apiService.acceptConversation(inquiryId, token);
+    markConversationsAccepted([conversationSid]);
+  }, [token, markConversationsAccepted]);
+
+  const acceptConversationBySid = useCallback(async (conversationSid: string) => {
+    if (!token) return;
+
+    console.log(`🤝 Accepting conversation: ${conversationSid}`);
+    await apiService.acceptConversationBySid(conversationSid, token);
+    markConversationsAccepted([conversationSid]);
+  }, [token, markConversationsAccepted]);
+
+  const loadInquiries = useCallback(async () => {
+    if (!token) return;
+
+    dispatch({ type: 'INQUIRIES_LOADING' });
+    try {
+      const response = await apiService.getPendingConversations(token);
+      dispatch({ type: 'INQUIRIES_LOADED', payload: response.conversations || [] });
+    } catch (err) {
+      console.error('❌ Failed to load conversations:', err);
+      dispatch({ type: 'INQUIRIES_FAILED', payload: errorMessage(err, 'Failed to load conversations') });
+    }
+  }, [token]);
+
+  const loadDMConversations = useCallback(async (type: DMConversationType) => {
+    if (!token) return;
+
+    dispatch({ type: 'DM_CONVERSATIONS_LOADING' });
+    try {
+      const response = type === 'expert_admin_dm'
+        ? await apiService.getExpertAdminDMs(token)
+        : await apiService.getAdminTravelerDMs(token);
+      dispatch({ type: 'DM_CONVERSATIONS_LOADED', payload: { type, conversations: response.conversations || [] } });
+    } catch (err) {
+      console.error(`Failed to load ${type} data:`, err);
+      dispatch({ type: 'DM_CONVERSATIONS_FAILED', payload: errorMessage(err, `Failed to load ${type} data`) });
+    }
+  }, [token]);
+
+  const clearError = useCallback(() => {
+    dispatch({ type: 'CLEAR_ERROR' });
+  }, []);
+
+  // Feed realtime Twilio events into the store
+  useEffect(() => {
+    let syncTimer: number | null = null;
+
+    const scheduleSync = () => {
+      if (syncTimer !== null) clearTimeout(syncTimer);
+      syncTimer = window.setTimeout(() => {
+        syncTimer = null;
+        syncConversations();
+      }, EVENT_SYNC_DEBOUNCE_MS);
+    };
+
+    const handleMessageAdded = (twilioMessage: Message) => {
+      const message = twilioService.toMessage(twilioMessage);
+      const conversationSid = message.conversationSid;
+      if (!conversationSid) return;
+
+      dispatch({ type: 'MESSAGES_MERGED', payload: { conversationSid, messages: [message] } });
+
+      const conversation = stateRef.current.conversations[conversationSid];
+      if (conversation) {
+        dispatch({
+          type: 'CONVERSATIONS_MERGED',
+          payload: { conversations: [{ ...conversation, dateUpdated: message.dateCreated, lastMessage: message }] },
+        });
+      }
+    };
+
+    const handleConversationUpdated = ({ conversation: twilioConversation }: ConversationUpdatedEventArgs) => {
+      if (!twilioConversation?.sid || !stateRef.current.conversations[twilioConversation.sid]) return;
+
+      dispatch({
+        type: 'CONVERSATIONS_MERGED',
+        payload: { conversations: [twilioService.toConversation(twilioConversation)] },
+      });
+    };
+
+    // New conversations go through the backend so role filtering still applies
+    const handleConversationAdded = (twilioConversation: Conversation) => {
+      const { conversationCursor, conversations } = stateRef.current;
+      if (conversationCursor && twilioConversation?.sid && !conversations[twilioConversation.sid]) {
+        scheduleSync();
+      }
+    };
+
+    twilioService.on('messageAdded', handleMessageAdded);
+    twilioService.on('conversationUpdated', handleConversationUpdated);
+    twilioService.on('conversationAdded', handleConversationAdded);
+
+    return () => {
+      if (syncTimer !== null) clearTimeout(syncTimer);
+      twilioService.off('messageAdded', handleMessageAdded);
+      twilioService.off('conversationUpdated', handleConversationUpdated);
+      twilioService.off('conversationAdded', handleConversationAdded);
+    };
+  }, [syncConversations]);
+
+  // Messages confirmed by the outbox show up right away instead of on the next sync
+  useEffect(() => {
+    return messageOutbox.onMessageSent(entry => {
+      const { conversationSid, messageSid } = entry;
+      if (!messageSid || stateRef.current.messages[messageSid]) return;
+
+      const existing = listMessages(stateRef.current, conversationSid);
+      const message: TwilioMessage = {
+        sid: messageSid,
+        author: entry.author,
+        body: entry.body,
+        dateCreated: new Date(entry.sentAt || Date.now()),
+        type: 'text',
+        index: existing.length > 0 ? existing[existing.length - 1].index + 1 : 0,
+        conversationSid,
+        attributes: entry.from ? { from: entry.from } : {},
+        from: entry.from,
+      };
+
+      dispatch({ type: 'MESSAGES_MERGED', payload: { conversationSid, messages: [message] } });
+    });
+  }, []);
+
+  // Each poll merges deltas instead of refetching everything
+  useEffect(() => {
+    twilioService.setSyncHandler(async () => {
+      await syncConversations();
+      const activeConversationSid = stateRef.current.activeConversationSid;
+      if (activeConversationSid) {
+        await syncMessages(activeConversationSid);
+      }
+    });
+
+    return () => twilioService.setSyncHandler(null);
+  }, [syncConversations, syncMessages]);
+
+  // Cancel any pending message request on unmount
+  useEffect(() => {
+    return () => messagesRequestRef.current?.controller.abort();
+  }, []);
+
+  const value: ConversationStoreContextType = {
+    state,
+    loadConversations,
+    loadMoreConversations,
+    syncConversations,
+    loadConversationParticipants,
+    setActiveConversation,
+    loadMessages,
+    syncMessages,
+    addMessages,
+    markConversationsAccepted,
+    acceptConversation,
+    acceptConversationBySid,
+    loadInquiries,
+    loadDMConversations,
+    clearError,
+  };
+
+  return (
+    <ConversationStoreContext.Provider value={value}>
+      {children}
+    </ConversationStoreContext.Provider>
+  );
+}
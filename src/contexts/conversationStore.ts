@@ -0,0 +1,122 @@
+import { createContext, useContext } from 'react';
+import type {
+  ConversationStoreState,
+  DMConversation,
+  DMConversationType,
+  ExpertConversation,
+  TwilioConversation,
+  TwilioMessage,
+} from '../types';
+
+// Context, hooks and selectors of the conversation store; ConversationStoreProvider fills it
+
+export interface ConversationStoreContextType {
+  state: ConversationStoreState;
+  loadConversations: (page?: number) => Promise<void>;
+  loadMoreConversations: () => Promise<void>;
+  syncConversations: () => Promise<void>;
+  loadConversationParticipants: (conversationSid: string) => Promise<void>;
+  setActiveConversation: (conversationSid: string | null) => void;
+  loadMessages: (conversationSid: string) => Promise<void>;
+  syncMessages: (conversationSid: string) => Promise<void>;
+  addMessages: (conversationSid: string, messages: TwilioMessage[]) => void;
+  markConversationsAccepted: (conversationSids: string[]) => void;
+  acceptConversation: (inquiryId: string, conversationSid: string) => Promise<void>;
+  acceptConversationBySid: (conversationSid: string) => Promise<void>;
+  loadInquiries: () => Promise<void>;
+  loadDMConversations: (type: DMConversationType) => Promise<void>;
+  clearError: () => void;
+}
+
+
+export const ConversationStoreContext = createContext<ConversationStoreContextType | undefined>(undefined);
+
+export const listConversations = (state: ConversationStoreState): TwilioConversation[] =>
+  state.conversationOrder.map(sid => state.conversations[sid]).filter(Boolean);
+
+export const listMessages = (state: ConversationStoreState, conversationSid: string): TwilioMessage[] =>
+  (state.messageSidsByConversation[conversationSid] || []).map(sid => state.messages[sid]).filter(Boolean);
+
+export function useConversationStore() {
+  const context = useContext(ConversationStoreContext);
+  if (context === undefined) {
+    throw new Error('useConversationStore must be used within a ConversationStoreProvider');
+  }
+  return context;
+}
+
+// Read a derived value from the store
+export function useConversationSelector<T>(selector: (state: ConversationStoreState) => T): T {
+  return selector(useConversationStore().state);
+}
+
+// Selectors. List selectors return the same array until the underlying data changes,
+// so their results are safe to use as effect dependencies.
+
+let conversationListCache: { order: string[]; byId: Record<string, TwilioConversation>; list: TwilioConversation[] } | null = null;
+
+export const selectConversations = (state: ConversationStoreState): TwilioConversation[] => {
+  if (conversationListCache?.order !== state.conversationOrder || conversationListCache.byId !== state.conversations) {
+    conversationListCache = {
+      order: state.conversationOrder,
+      byId: state.conversations,
+      list: listConversations(state),
+    };
+  }
+  return conversationListCache.list;
+};
+
+export const selectConversation = (state: ConversationStoreState, conversationSid: string | null) =>
+  conversationSid ? state.conversations[conversationSid] || null : null;
+
+export const selectActiveConversation = (state: ConversationStoreState) =>
+  selectConversation(state, state.activeConversationSid);
+
+const messageListCache = new WeakMap<string[], { byId: Record<string, TwilioMessage>; list: TwilioMessage[] }>();
+const NO_MESSAGES: TwilioMessage[] = [];
+
+export const selectMessages = (state: ConversationStoreState, conversationSid: string | null): TwilioMessage[] => {
+  const sids = conversationSid ? state.messageSidsByConversation[conversationSid] : undefined;
+  if (!sids) return NO_MESSAGES;
+
+  const cached = messageListCache.get(sids);
+  if (cached && cached.byId === state.messages) return cached.list;
+
+  const list = listMessages(state, conversationSid!);
+  messageListCache.set(sids, { byId: state.messages, list });
+  return list;
+};
+
+export const selectIsLoadingMessages = (state: ConversationStoreState, conversationSid: string | null) =>
+  !!conversationSid && !!state.loadingMessages[conversationSid];
+
+let acceptedSetCache: { source: Record<string, boolean>; set: Set<string> } | null = null;
+
+export const selectAcceptedConversationSids = (state: ConversationStoreState): Set<string> => {
+  if (acceptedSetCache?.source !== state.acceptedConversations) {
+    acceptedSetCache = {
+      source: state.acceptedConversations,
+      set: new Set(Object.keys(state.acceptedConversations).filter(sid => state.acceptedConversations[sid])),
+    };
+  }
+  return acceptedSetCache.set;
+};
+
+export const selectIsConversationAccepted = (state: ConversationStoreState, conversationSid: string) =>
+  !!state.acceptedConversations[conversationSid];
+
+let inquiryListCache: { order: string[]; byId: Record<string, ExpertConversation>; list: ExpertConversation[] } | null = null;
+
+export const selectInquiries = (state: ConversationStoreState): ExpertConversation[] => {
+  if (inquiryListCache?.order !== state.inquiryOrder || inquiryListCache.byId !== state.inquiries) {
+    inquiryListCache = {
+      order: state.inquiryOrder,
+      byId: state.inquiries,
+      list: state.inquiryOrder.map(sid => state.inquiries[sid]).filter(Boolean),
+    };
+  }
+  return inquiryListCache.list;
+};
+
+export const selectDMConversations = (state: ConversationStoreState, type: DMConversationType): DMConversation[] =>
+  state.dmSidsByType[type].map(sid => state.dmConversations[sid]).filter(Boolean);
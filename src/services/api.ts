@@ -7,6 +7,16 @@ import { googleSheetsApi } from './api/googleSheets';
 import { adminApi } from './api/admin';
 import { expertAcceptanceApi } from './api/expertAcceptance';
 import { utilsApi } from './api/utils';
+import { invitesApi } from './api/invites';
+import { twoFactorApi } from './api/twoFactor';
+import { sessionsApi } from './api/sessions';
+import { auditApi } from './api/audit';
+import { usersApi } from './api/users';
+import { availabilityApi } from './api/availability';
+import { slaApi } from './api/sla';
+
+export { ApiError, API_ERROR_CODES, isAbortError, isRetryableError, registerAuthHandlers, refreshAuthSession } from './api/core';
+export type { RequestConfig } from './api/core';
 
 // Combine all API modules into a single service
 export const apiService = {
@@ -21,14 +31,23 @@ export const apiService = {
   getMainConversations: conversationsApi.getMainConversations,
   getConversationParticipants: conversationsApi.getConversationParticipants,
   getConversationMessages: conversationsApi.getConversationMessages,
+  exportTranscript: conversationsApi.exportTranscript,
+  getConversationChanges: conversationsApi.getConversationChanges,
+  getNewMessages: conversationsApi.getNewMessages,
   getExpertAdminDMs: conversationsApi.getExpertAdminDMs,
   getAdminTravelerDMs: conversationsApi.getAdminTravelerDMs,
   
   // Inquiry methods
   createInquiry: inquiriesApi.createInquiry,
+  importInquiries: inquiriesApi.importInquiries,
+  exportInquiries: inquiriesApi.exportInquiries,
   getExperts: inquiriesApi.getExperts,
+  previewAssignment: inquiriesApi.previewAssignment,
   getInquiries: inquiriesApi.getInquiries,
   updateInquiryStatus: inquiriesApi.updateInquiryStatus,
+  getInquiryStatusHistory: inquiriesApi.getInquiryStatusHistory,
+  getInquiryStatusHistoryByConversation: inquiriesApi.getInquiryStatusHistoryByConversation,
+  reassignInquiry: inquiriesApi.reassignInquiry,
   
   // Google Sheets methods
   getGoogleSheetData: googleSheetsApi.getGoogleSheetData,
@@ -42,6 +61,53 @@ export const apiService = {
   getWebhookStatus: adminApi.getWebhookStatus,
   sendMessageToTravelerDM: adminApi.sendMessageToTravelerDM,
   
+  // Invite methods
+  getRegistrationConfig: invitesApi.getRegistrationConfig,
+  lookupInvite: invitesApi.lookupInvite,
+  getInvites: invitesApi.getInvites,
+  createInvite: invitesApi.createInvite,
+  revokeInvite: invitesApi.revokeInvite,
+  
+  // Two-factor methods
+  getTwoFactorStatus: twoFactorApi.getTwoFactorStatus,
+  startTwoFactorSetup: twoFactorApi.startTwoFactorSetup,
+  enableTwoFactor: twoFactorApi.enableTwoFactor,
+  regenerateRecoveryCodes: twoFactorApi.regenerateRecoveryCodes,
+  disableTwoFactor: twoFactorApi.disableTwoFactor,
+  
+  // Session methods
+  getSessions: sessionsApi.getSessions,
+  revokeSession: sessionsApi.revokeSession,
+  revokeAllSessions: sessionsApi.revokeAllSessions,
+  getAllUserSessions: sessionsApi.getAllUserSessions,
+  revokeAnySession: sessionsApi.revokeAnySession,
+  revokeUserSessions: sessionsApi.revokeUserSessions,
+  
+  // User management methods
+  getUsers: usersApi.getUsers,
+  updateUser: usersApi.updateUser,
+  deactivateUser: usersApi.deactivateUser,
+  reactivateUser: usersApi.reactivateUser,
+  sendUserPasswordReset: usersApi.sendUserPasswordReset,
+  getTwilioProvisioning: usersApi.getTwilioProvisioning,
+  provisionTwilioUser: usersApi.provisionTwilioUser,
+  
+  // Availability methods
+  getAvailability: availabilityApi.getAvailability,
+  updateSchedule: availabilityApi.updateSchedule,
+  setAvailabilityOverride: availabilityApi.setAvailabilityOverride,
+  addTimeOff: availabilityApi.addTimeOff,
+  removeTimeOff: availabilityApi.removeTimeOff,
+
+  // SLA methods
+  getSlaClocks: slaApi.getSlaClocks,
+  getSlaBreaches: slaApi.getSlaBreaches,
+  
+  // Audit log methods
+  getAuditLog: auditApi.getAuditLog,
+  getAuditActors: auditApi.getAuditActors,
+  exportAuditLog: auditApi.exportAuditLog,
+  
   // Expert acceptance methods
   getPendingConversations: expertAcceptanceApi.getPendingConversations,
   acceptConversation: expertAcceptanceApi.acceptConversation,
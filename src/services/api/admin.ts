@@ -1,4 +1,18 @@
-import { API_BASE_URL, handleResponse } from './core';
+import { ApiError, apiRequest, type RequestConfig } from './core';
+import type { ApiResponse, BotSettingsResponse, WebhookStatusResponse } from '../../types';
+
+// Make.com-backed endpoints answer 503 when their webhook URL is not configured
+const withWebhookHint = (error: unknown): never => {
+  if (error instanceof ApiError && error.status === 503) {
+    throw new ApiError(
+      error.status,
+      `Service unavailable: ${error.message}. Please configure Make.com webhooks.`,
+      error.code,
+      error.details
+    );
+  }
+  throw error;
+};
 
 export const adminApi = {
   async sendMessageToTraveler(data: {
@@ -6,109 +20,50 @@ export const adminApi = {
     message: string;
     travelerName: string;
     adminName: string;
-  }, token: string) {
-    try {
-      const response = await fetch(`${API_BASE_URL}/api/admin/send-to-traveler`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`,
-        },
-        body: JSON.stringify(data),
-      });
-
-      if (!response.ok) {
-        let errorData: any = {};
-        try {
-          errorData = await response.json();
-        } catch {
-          errorData = { message: `HTTP ${response.status}: ${response.statusText}` };
-        }
-        
-        // Handle specific error cases
-        if (response.status === 503) {
-          throw new Error(`Service unavailable: ${errorData.message}. Please configure Make.com webhooks.`);
-        }
-        
-        throw new Error(errorData.message || 'Failed to send message to traveler');
-      }
-
-      return response.json();
-    } catch (error) {
-      if (error instanceof Error) {
-        throw error;
-      }
-      throw new Error('Network error: Failed to send message to traveler');
-    }
+  }, token: string, config: RequestConfig = {}) {
+    return apiRequest<ApiResponse<{
+      conversationSid: string;
+      travelerName: string;
+      messageLength: number;
+      makeResult: unknown;
+    }>>('/api/admin/send-to-traveler', {
+      ...config,
+      method: 'POST',
+      token,
+      body: data,
+    }).catch(withWebhookHint);
   },
 
   async updateBotSettings(data: {
     action: 'enable' | 'disable';
     type: 'Expert Bot' | 'Traveler Bot';
     conversationSid?: string;
-  }, token: string) {
-    try {
-      const response = await fetch(`${API_BASE_URL}/api/admin/bot-settings`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`,
-        },
-        body: JSON.stringify(data),
-      });
-
-      if (!response.ok) {
-        let errorData: any = {};
-        try {
-          errorData = await response.json();
-        } catch {
-          errorData = { message: `HTTP ${response.status}: ${response.statusText}` };
-        }
-        
-        // Handle specific error cases
-        if (response.status === 503) {
-          throw new Error(`Service unavailable: ${errorData.message}. Please configure Make.com webhooks.`);
-        }
-        
-        throw new Error(errorData.message || 'Failed to update bot settings');
-      }
-
-      return response.json();
-    } catch (error) {
-      if (error instanceof Error) {
-        throw error;
-      }
-      throw new Error('Network error: Failed to update bot settings');
-    }
+  }, token: string, config: RequestConfig = {}) {
+    return apiRequest<ApiResponse<{
+      action: 'enable' | 'disable';
+      type: 'Expert Bot' | 'Traveler Bot';
+      conversationSid?: string;
+      makeResult: unknown;
+    }>>('/api/admin/bot-settings', {
+      ...config,
+      method: 'POST',
+      token,
+      body: data,
+    }).catch(withWebhookHint);
   },
 
-  async getBotSettings(conversationSid: string, token: string) {
-    const response = await fetch(`${API_BASE_URL}/api/admin/bot-settings/${conversationSid}`, {
-      method: 'GET',
-      headers: {
-        'Authorization': `Bearer ${token}`,
-      },
+  async getBotSettings(conversationSid: string, token: string, config: RequestConfig = {}) {
+    return apiRequest<BotSettingsResponse>(`/api/admin/bot-settings/${conversationSid}`, {
+      ...config,
+      token,
     });
-
-    return handleResponse(response);
   },
 
-  async getWebhookStatus(token: string) {
-    try {
-      const response = await fetch(`${API_BASE_URL}/api/admin/webhook-status`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-        },
-      });
-
-      return handleResponse(response);
-    } catch (error) {
-      if (error instanceof Error) {
-        throw error;
-      }
-      throw new Error('Network error: Failed to fetch webhook status');
-    }
+  async getWebhookStatus(token: string, config: RequestConfig = {}) {
+    return apiRequest<WebhookStatusResponse>('/api/admin/webhook-status', {
+      ...config,
+      token,
+    });
   },
 
   async sendMessageToTravelerDM(data: {
@@ -118,28 +73,15 @@ export const adminApi = {
     travelerPhone: string;
     travelerName: string;
     adminName: string;
-  }, token: string) {
-    try {
-      const response = await fetch(`${API_BASE_URL}/api/admin/send-to-traveler-dm`, {
+  }, token: string, config: RequestConfig = {}) {
+    return apiRequest<{ message: string; conversationSid: string; travelerName: string }>(
+      '/api/admin/send-to-traveler-dm',
+      {
+        ...config,
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`,
-        },
-        body: JSON.stringify(data),
-      });
-
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.message || 'Failed to send DM message to traveler');
-      }
-
-      return response.json();
-    } catch (error) {
-      if (error instanceof Error) {
-        throw error;
+        token,
+        body: data,
       }
-      throw new Error('Network error: Failed to send DM message to traveler');
-    }
+    );
   },
-};
\ No newline at end of file
+};
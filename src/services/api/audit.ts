@@ -0,0 +1,30 @@
+import { apiRequest, type RequestConfig } from './core';
+import type { AuditActorsResponse, AuditLogFilters, AuditLogResponse } from '../../types';
+
+export const auditApi = {
+  async getAuditLog(token: string, filters: AuditLogFilters = {}, page = 1, limit = 50, config: RequestConfig = {}) {
+    return apiRequest<AuditLogResponse>('/api/audit', {
+      ...config,
+      token,
+      query: { ...filters, page, limit },
+    });
+  },
+
+  async getAuditActors(token: string, config: RequestConfig = {}) {
+    return apiRequest<AuditActorsResponse>('/api/audit/actors', {
+      ...config,
+      token,
+    });
+  },
+
+  async exportAuditLog(token: string, filters: AuditLogFilters = {}, config: RequestConfig = {}) {
+    console.log('📤 Exporting audit log...');
+
+    return apiRequest<Blob>('/api/audit/export', {
+      ...config,
+      token,
+      query: { ...filters },
+      responseType: 'blob',
+    });
+  },
+};
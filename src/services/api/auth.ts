@@ -1,59 +1,141 @@
-import { API_BASE_URL, handleResponse, retryRequest } from './core';
+import { apiRequest, type RequestConfig } from './core';
+import type {
+  AccountMessageResponse,
+  AuthResponse,
+  CurrentUserResponse,
+  LoginResponse,
+  ResendVerificationResponse,
+  TwoFactorCode,
+  VerifyEmailResponse,
+} from '../../types';
 
 export const authApi = {
-  async login(email: string, password: string) {
+  async login(email: string, password: string, config: RequestConfig = {}) {
     console.log('🔐 Attempting login for:', email);
-    
-    const response = await retryRequest(() => 
-      fetch(`${API_BASE_URL}/api/auth/login`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ email, password }),
-      })
-    );
-
-    const data = await handleResponse(response);
-    console.log('✅ Login successful for:', email);
+
+    const data = await apiRequest<LoginResponse>('/api/auth/login', {
+      ...config,
+      method: 'POST',
+      body: { email, password },
+    });
+
+    if ('twoFactorRequired' in data) {
+      console.log('🔐 Two-factor code required for:', email);
+    } else {
+      console.log('✅ Login successful for:', email);
+    }
+    return data;
+  },
+
+  async completeTwoFactorLogin(challengeToken: string, twoFactorCode: TwoFactorCode, config: RequestConfig = {}) {
+    console.log('🔐 Submitting two-factor code...');
+
+    const data = await apiRequest<AuthResponse>('/api/auth/login/2fa', {
+      ...config,
+      method: 'POST',
+      body: { challengeToken, ...twoFactorCode },
+    });
+
+    console.log('✅ Login successful for:', data.user.email);
     return data;
   },
 
-  async register(email: string, password: string, name: string, role: string) {
+  // The invite decides the role; without one the backend only accepts open (expert) registration
+  async register(email: string, password: string, name: string, inviteToken?: string, config: RequestConfig = {}) {
     console.log('📝 Attempting registration for:', email);
-    
-    const response = await retryRequest(() =>
-      fetch(`${API_BASE_URL}/api/auth/register`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ email, password, name, role }),
-      })
-    );
-
-    const data = await handleResponse(response);
+
+    const data = await apiRequest<AuthResponse>('/api/auth/register', {
+      ...config,
+      method: 'POST',
+      body: { email, password, name, inviteToken },
+    });
+
     console.log('✅ Registration successful for:', email);
     return data;
   },
 
-  async testAuthToken(token: string) {
+  async refreshSession(refreshToken: string, config: RequestConfig = {}) {
+    console.log('🔄 Exchanging refresh token...');
+
+    // Renewing a session twice just issues another pair, so replaying after a network drop is safe
+    const data = await apiRequest<AuthResponse>('/api/auth/refresh', {
+      ...config,
+      method: 'POST',
+      body: { refreshToken },
+      idempotent: true,
+    });
+
+    console.log('✅ Session refreshed for:', data.user.email);
+    return data;
+  },
+
+  async logout(token: string, config: RequestConfig = {}) {
+    console.log('🚪 Ending session...');
+
+    return apiRequest<{ message: string }>('/api/auth/logout', {
+      ...config,
+      method: 'POST',
+      token,
+    });
+  },
+
+  async requestPasswordReset(email: string, config: RequestConfig = {}) {
+    console.log('🔑 Requesting password reset for:', email);
+
+    return apiRequest<AccountMessageResponse>('/api/auth/forgot-password', {
+      ...config,
+      method: 'POST',
+      body: { email },
+    });
+  },
+
+  async resetPassword(resetToken: string, password: string, config: RequestConfig = {}) {
+    console.log('🔑 Resetting password...');
+
+    const data = await apiRequest<AccountMessageResponse>('/api/auth/reset-password', {
+      ...config,
+      method: 'POST',
+      body: { token: resetToken, password },
+    });
+
+    console.log('✅ Password reset');
+    return data;
+  },
+
+  async verifyEmail(verificationToken: string, config: RequestConfig = {}) {
+    console.log('📧 Verifying email address...');
+
+    // Verifying twice has the same outcome, so a replay after a dropped response is safe
+    const data = await apiRequest<VerifyEmailResponse>('/api/auth/verify-email', {
+      ...config,
+      method: 'POST',
+      body: { token: verificationToken },
+      idempotent: true,
+    });
+
+    console.log('✅ Email verified for:', data.user.email);
+    return data;
+  },
+
+  async resendVerification(token: string, config: RequestConfig = {}) {
+    console.log('📧 Requesting a new verification email...');
+
+    return apiRequest<ResendVerificationResponse>('/api/auth/resend-verification', {
+      ...config,
+      method: 'POST',
+      token,
+    });
+  },
+
+  async testAuthToken(token: string, config: RequestConfig = {}) {
     console.log('🔐 Testing auth token...');
-    
+
     try {
-      const response = await fetch(`${API_BASE_URL}/api/auth/me`, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`,
-        },
+      const data = await apiRequest<CurrentUserResponse>('/api/auth/me', {
+        ...config,
+        token,
+        retries: 1,
       });
-
-      if (!response.ok) {
-        throw new Error('Token validation failed');
-      }
-
-      const data = await response.json();
       console.log('✅ Auth token is valid');
       return data;
     } catch (error) {
@@ -61,4 +143,4 @@ export const authApi = {
       throw error;
     }
   },
-};
\ No newline at end of file
+};
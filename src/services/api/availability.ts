@@ -0,0 +1,63 @@
+import { apiRequest, type RequestConfig } from './core';
+import type {
+  AddTimeOffRequest,
+  AvailabilityOverride,
+  ExpertAvailabilityResponse,
+  WeeklySchedule,
+} from '../../types';
+
+export const availabilityApi = {
+  async getAvailability(token: string, config: RequestConfig = {}) {
+    return apiRequest<ExpertAvailabilityResponse>('/api/availability', {
+      ...config,
+      token,
+    });
+  },
+
+  async updateSchedule(
+    changes: { timezone?: string; schedule?: WeeklySchedule | null },
+    token: string,
+    config: RequestConfig = {}
+  ) {
+    console.log('🗓️ Saving working hours...');
+
+    return apiRequest<ExpertAvailabilityResponse>('/api/availability/schedule', {
+      ...config,
+      method: 'PUT',
+      token,
+      body: changes,
+    });
+  },
+
+  async setAvailabilityOverride(override: AvailabilityOverride | null, token: string, config: RequestConfig = {}) {
+    console.log('🟢 Setting availability:', override ?? 'follow schedule');
+
+    return apiRequest<ExpertAvailabilityResponse>('/api/availability/status', {
+      ...config,
+      method: 'PUT',
+      token,
+      body: { override },
+    });
+  },
+
+  async addTimeOff(range: AddTimeOffRequest, token: string, config: RequestConfig = {}) {
+    console.log(`🏖️ Adding out of office ${range.startsOn} to ${range.endsOn}`);
+
+    return apiRequest<ExpertAvailabilityResponse>('/api/availability/time-off', {
+      ...config,
+      method: 'POST',
+      token,
+      body: range,
+    });
+  },
+
+  async removeTimeOff(id: string, token: string, config: RequestConfig = {}) {
+    console.log('🏖️ Removing out of office:', id);
+
+    return apiRequest<ExpertAvailabilityResponse>(`/api/availability/time-off/${encodeURIComponent(id)}`, {
+      ...config,
+      method: 'DELETE',
+      token,
+    });
+  },
+};
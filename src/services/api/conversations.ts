@@ -1,18 +1,54 @@
-import { API_BASE_URL, handleResponse, retryRequest } from './core';
+import { apiRequest, type RequestConfig } from './core';
+import type {
+  ConversationMessagesResponse,
+  ConversationParticipantsResponse,
+  DMConversationsResponse,
+  MainConversationsResponse,
+  TranscriptFormat,
+  TwilioMessage,
+} from '../../types';
+
+// Safe date parsing for frontend - using the working old approach
+const normalizeMessageDates = (data: ConversationMessagesResponse): ConversationMessagesResponse => {
+  if (data.messages) {
+    data.messages = data.messages.map((msg): TwilioMessage => {
+      // Simple date handling - if it fails, use current date
+      let dateCreated;
+      try {
+        // Handle both ISO strings and Twilio date formats
+        if (msg.dateCreated) {
+          dateCreated = new Date(msg.dateCreated);
+          if (isNaN(dateCreated.getTime())) {
+            console.warn(`⚠️ Invalid date for message ${msg.sid}, using current date`);
+            dateCreated = new Date();
+          }
+        } else {
+          dateCreated = new Date();
+        }
+      } catch {
+        dateCreated = new Date();
+      }
+
+      return {
+        ...msg,
+        dateCreated
+      };
+    });
+  }
+
+  return data;
+};
 
 export const conversationsApi = {
-  async getMainConversations(token: string, page: number = 1, limit: number = 15) {
+  async getMainConversations(token: string, page: number = 1, limit: number = 15, config: RequestConfig = {}) {
     try {
       console.log(`⚡ FAST: Loading conversations page ${page} (limit: ${limit})`);
-      
-      const response = await fetch(`${API_BASE_URL}/api/conversations/main?page=${page}&limit=${limit}`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-        },
-      });
 
-      const data = await handleResponse(response);
+      const data = await apiRequest<MainConversationsResponse>('/api/conversations/main', {
+        ...config,
+        token,
+        query: { page, limit },
+      });
       console.log(`⚡ FAST: Loaded ${data.conversations?.length || 0} conversations`);
       return data;
     } catch (error) {
@@ -21,18 +57,14 @@ export const conversationsApi = {
     }
   },
 
-  async getConversationParticipants(token: string, conversationSid: string) {
+  async getConversationParticipants(token: string, conversationSid: string, config: RequestConfig = {}) {
     try {
       console.log(`👥 Loading participants for: ${conversationSid}`);
-      
-      const response = await fetch(`${API_BASE_URL}/api/conversations/${conversationSid}/participants`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-        },
-      });
 
-      const data = await handleResponse(response);
+      const data = await apiRequest<ConversationParticipantsResponse>(
+        `/api/conversations/${conversationSid}/participants`,
+        { ...config, token }
+      );
       console.log(`👥 Loaded ${data.participants?.length || 0} participants for ${conversationSid}`);
       return data;
     } catch (error) {
@@ -41,63 +73,67 @@ export const conversationsApi = {
     }
   },
 
-  async getConversationMessages(conversationSid: string, token: string) {
+  // Delta sync: only conversations changed since the cursor of a previous response
+  async getConversationChanges(token: string, updatedSince: string, config: RequestConfig = {}) {
+    const data = await apiRequest<MainConversationsResponse>('/api/conversations/main', {
+      ...config,
+      token,
+      query: { updatedSince },
+    });
+    console.log(`🔁 DELTA: ${data.conversations?.length || 0} conversations changed since ${updatedSince}`);
+    return data;
+  },
+
+  async getConversationMessages(conversationSid: string, token: string, config: RequestConfig = {}) {
     console.log(`📨 Fetching messages from backend for conversation: ${conversationSid}`);
-    
-    const response = await retryRequest(() =>
-      fetch(`${API_BASE_URL}/api/conversations/${conversationSid}/messages`, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`,
-        },
-      })
-    );
 
-    const data = await handleResponse(response);
+    // Backend sends dateCreated as an ISO string; it is converted to a Date below
+    const data = await apiRequest<ConversationMessagesResponse>(
+      `/api/conversations/${conversationSid}/messages`,
+      { ...config, token }
+    );
     console.log(`✅ Backend returned ${data.messages?.length || 0} messages for ${conversationSid}`);
-    
-    // Safe date parsing for frontend - using the working old approach
-    if (data.messages) {
-      data.messages = data.messages.map((msg: any) => {
-        // Simple date handling - if it fails, use current date
-        let dateCreated;
-        try {
-          // Handle both ISO strings and Twilio date formats
-          if (msg.dateCreated) {
-            dateCreated = new Date(msg.dateCreated);
-            if (isNaN(dateCreated.getTime())) {
-              console.warn(`⚠️ Invalid date for message ${msg.sid}, using current date`);
-              dateCreated = new Date();
-            }
-          } else {
-            dateCreated = new Date();
-          }
-        } catch {
-          dateCreated = new Date();
-        }
-        
-        return {
-          ...msg,
-          dateCreated
-        };
-      });
-    }
-    
-    return data;
+
+    return normalizeMessageDates(data);
+  },
+
+  // Full history with resolved sender names; times are shown in `timeZone`
+  async exportTranscript(
+    conversationSid: string,
+    token: string,
+    format: TranscriptFormat = 'pdf',
+    timeZone?: string,
+    config: RequestConfig = {}
+  ) {
+    console.log(`📤 Exporting ${format} transcript for conversation: ${conversationSid}`);
+
+    return apiRequest<Blob>(`/api/conversations/${conversationSid}/transcript`, {
+      ...config,
+      token,
+      query: { format, timeZone },
+      responseType: 'blob',
+    });
+  },
+
+  // Delta sync: only messages with an index above the last one the client has
+  async getNewMessages(conversationSid: string, token: string, afterIndex: number, config: RequestConfig = {}) {
+    const data = await apiRequest<ConversationMessagesResponse>(
+      `/api/conversations/${conversationSid}/messages`,
+      { ...config, token, query: { afterIndex } }
+    );
+    console.log(`🔁 DELTA: ${data.messages?.length || 0} new messages for ${conversationSid} after index ${afterIndex}`);
+
+    return normalizeMessageDates(data);
   },
 
-  async getExpertAdminDMs(token: string, page: number = 1, limit: number = 50) {
+  async getExpertAdminDMs(token: string, page: number = 1, limit: number = 50, config: RequestConfig = {}) {
     try {
       console.log(`🔗 Fetching expert-admin DMs`);
-      const response = await fetch(`${API_BASE_URL}/api/conversations/expert-admin-dms?page=${page}&limit=${limit}`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-        },
+      const data = await apiRequest<DMConversationsResponse>('/api/conversations/expert-admin-dms', {
+        ...config,
+        token,
+        query: { page, limit },
       });
-
-      const data = await handleResponse(response);
       console.log('✅ Expert-admin DMs loaded successfully:', data);
       return data;
     } catch (error) {
@@ -106,17 +142,13 @@ export const conversationsApi = {
     }
   },
 
-  async getAdminTravelerDMs(token: string) {
+  async getAdminTravelerDMs(token: string, config: RequestConfig = {}) {
     try {
       console.log('🔗 Fetching admin-traveler DMs');
-      const response = await fetch(`${API_BASE_URL}/api/conversations/admin-traveler-dms`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-        },
+      const data = await apiRequest<DMConversationsResponse>('/api/conversations/admin-traveler-dms', {
+        ...config,
+        token,
       });
-
-      const data = await handleResponse(response);
       console.log('✅ Admin-traveler DMs loaded successfully:', data);
       return data;
     } catch (error) {
@@ -124,4 +156,4 @@ export const conversationsApi = {
       throw error;
     }
   },
-};
\ No newline at end of file
+};
@@ -0,0 +1,248 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  ApiError,
+  API_ERROR_CODES,
+  handleResponse,
+  retryRequest,
+  apiRequest,
+  registerAuthHandlers,
+} from './core';
+
+const jsonResponse = (body: unknown, status = 200, statusText = 'OK') =>
+  new Response(JSON.stringify(body), { status, statusText, headers: { 'Content-Type': 'application/json' } });
+
+// The ApiError a call rejects with
+const rejection = (promise: Promise<unknown>) => promise.then(
+  () => { throw new Error('Expected the call to fail'); },
+  (error: ApiError) => error
+);
+
+describe('handleResponse', () => {
+  it('returns the parsed JSON body', async () => {
+    await expect(handleResponse(jsonResponse({ ok: true }))).resolves.toEqual({ ok: true });
+  });
+
+  it('returns undefined for 204 No Content', async () => {
+    await expect(handleResponse(new Response(null, { status: 204 }))).resolves.toBeUndefined();
+  });
+
+  it('returns the raw body for file downloads', async () => {
+    const csv = new Response('id,action\n1,inquiry.delete\n', { status: 200, headers: { 'Content-Type': 'text/csv' } });
+    const blob = await handleResponse<Blob>(csv, 'blob');
+
+    expect(blob).toBeInstanceOf(Blob);
+    await expect(blob.text()).resolves.toBe('id,action\n1,inquiry.delete\n');
+  });
+
+  it('throws an ApiError with the server message and a status-derived code', async () => {
+    const error = await rejection(handleResponse(jsonResponse({ message: 'Conversation not found' }, 404, 'Not Found')));
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({ status: 404, message: 'Conversation not found', code: API_ERROR_CODES.NOT_FOUND });
+  });
+
+  it('prefers a machine code sent by the backend', async () => {
+    const error = await rejection(handleResponse(
+      jsonResponse({ message: 'Database unavailable', error: 'SERVICE_UNAVAILABLE' }, 500, 'Internal Server Error')
+    ));
+
+    expect(error.code).toBe(API_ERROR_CODES.SERVICE_UNAVAILABLE);
+  });
+
+  it('ignores raw error messages when looking for a code', async () => {
+    const error = await rejection(handleResponse(jsonResponse({ error: 'relation "users" does not exist' }, 500, 'Server Error')));
+
+    expect(error.code).toBe(API_ERROR_CODES.SERVER_ERROR);
+    expect(error.message).toBe('HTTP 500: Server Error');
+  });
+
+  it('ignores error bodies that are not objects or carry a non-string message', async () => {
+    const list = await rejection(handleResponse(jsonResponse(['Not allowed'], 403, 'Forbidden')));
+    const nested = await rejection(handleResponse(jsonResponse({ message: { text: 'Bad input' } }, 400, 'Bad Request')));
+
+    expect(list).toMatchObject({ message: 'HTTP 403: Forbidden', code: API_ERROR_CODES.FORBIDDEN, details: ['Not allowed'] });
+    expect(nested).toMatchObject({ message: 'HTTP 400: Bad Request', code: API_ERROR_CODES.BAD_REQUEST });
+  });
+
+  it('falls back to the status text for non-JSON error bodies', async () => {
+    const error = await rejection(handleResponse(new Response('<html>Bad Gateway</html>', { status: 502, statusText: 'Bad Gateway' })));
+
+    expect(error).toMatchObject({ status: 502, message: 'Bad Gateway' });
+  });
+
+  it('rejects a successful response with invalid JSON', async () => {
+    const error = await rejection(handleResponse(new Response('not json', { status: 200 })));
+    expect(error).toMatchObject({ code: API_ERROR_CODES.INVALID_RESPONSE });
+  });
+});
+
+describe('retryRequest', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('returns the first successful result', async () => {
+    const request = vi.fn().mockResolvedValue('done');
+    await expect(retryRequest(request)).resolves.toBe('done');
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries transient failures with exponential backoff', async () => {
+    const request = vi.fn()
+      .mockRejectedValueOnce(new ApiError(0, 'offline'))
+      .mockRejectedValueOnce(new ApiError(503, 'unavailable'))
+      .mockResolvedValue('recovered');
+
+    const result = retryRequest(request, 3, 1000);
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(request).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(request).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(request).toHaveBeenCalledTimes(3);
+    await expect(result).resolves.toBe('recovered');
+  });
+
+  it('does not retry client errors', async () => {
+    const request = vi.fn().mockRejectedValue(new ApiError(400, 'bad input'));
+    await expect(retryRequest(request)).rejects.toMatchObject({ status: 400 });
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives up after the last attempt with the last error', async () => {
+    const request = vi.fn().mockRejectedValue(new ApiError(500, 'still broken'));
+    const result = retryRequest(request, 2, 100).catch(e => e);
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(await result).toMatchObject({ message: 'still broken' });
+    expect(request).toHaveBeenCalledTimes(2);
+  });
+
+  it('stops waiting when the signal is aborted', async () => {
+    const controller = new AbortController();
+    const request = vi.fn().mockRejectedValue(new ApiError(0, 'offline'));
+    const result = retryRequest(request, 3, 1000, controller.signal).catch(e => e);
+
+    await vi.advanceTimersByTimeAsync(0);
+    controller.abort();
+    expect(await result).toMatchObject({ code: API_ERROR_CODES.ABORTED });
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('apiRequest', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal('fetch', fetchMock);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    registerAuthHandlers(null);
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('sends JSON with the bearer token and query string', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ ok: true }));
+
+    await apiRequest('/api/things', {
+      method: 'POST',
+      token: 'jwt',
+      body: { name: 'x' },
+      query: { page: 2, skip: undefined },
+    });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toMatch(/\/api\/things\?page=2$/);
+    expect(init).toMatchObject({
+      method: 'POST',
+      body: JSON.stringify({ name: 'x' }),
+      headers: { 'Content-Type': 'application/json', Authorization: 'Bearer jwt' },
+    });
+  });
+
+  it('retries GET requests but not plain POSTs', async () => {
+    vi.useFakeTimers();
+    fetchMock.mockRejectedValue(new TypeError('Failed to fetch'));
+
+    const get = apiRequest('/api/things', { retryDelayMs: 10 }).catch(e => e);
+    await vi.advanceTimersByTimeAsync(100);
+    expect(await get).toMatchObject({ code: API_ERROR_CODES.NETWORK_ERROR });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+
+    fetchMock.mockClear();
+    const post = apiRequest('/api/things', { method: 'POST', body: {} }).catch(e => e);
+    expect(await post).toMatchObject({ code: API_ERROR_CODES.NETWORK_ERROR });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries a POST that carries an idempotency key and sends the header', async () => {
+    vi.useFakeTimers();
+    fetchMock
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockResolvedValue(jsonResponse({ ok: true }));
+
+    const result = apiRequest('/api/twilio/message', {
+      method: 'POST',
+      body: {},
+      idempotencyKey: 'key-1',
+      retryDelayMs: 10,
+    });
+    await vi.advanceTimersByTimeAsync(10);
+
+    await expect(result).resolves.toEqual({ ok: true });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(fetchMock.mock.calls[1][1].headers).toMatchObject({ 'Idempotency-Key': 'key-1' });
+  });
+
+  it('times out slow requests', async () => {
+    vi.useFakeTimers();
+    fetchMock.mockImplementation((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+      init.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+    }));
+
+    const result = apiRequest('/api/slow', { method: 'POST', timeoutMs: 500 }).catch(e => e);
+    await vi.advanceTimersByTimeAsync(500);
+
+    expect(await result).toMatchObject({ code: API_ERROR_CODES.TIMEOUT });
+  });
+
+  it('refreshes the session once on 401 and replays the request', async () => {
+    const refreshAccessToken = vi.fn().mockResolvedValue('fresh-jwt');
+    registerAuthHandlers({ getAccessToken: () => 'stale-jwt', refreshAccessToken, onSessionExpired: vi.fn() });
+
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse({ message: 'Token expired' }, 401, 'Unauthorized'))
+      .mockResolvedValueOnce(jsonResponse({ ok: true }));
+
+    await expect(apiRequest('/api/things', { token: 'stale-jwt' })).resolves.toEqual({ ok: true });
+    expect(refreshAccessToken).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[1][1].headers).toMatchObject({ Authorization: 'Bearer fresh-jwt' });
+  });
+
+  it('signs out when the session cannot be refreshed', async () => {
+    const onSessionExpired = vi.fn();
+    registerAuthHandlers({
+      getAccessToken: () => 'stale-jwt',
+      refreshAccessToken: vi.fn().mockResolvedValue(null),
+      onSessionExpired,
+    });
+    fetchMock.mockResolvedValue(jsonResponse({ message: 'Token expired' }, 401, 'Unauthorized'));
+
+    await expect(apiRequest('/api/things', { token: 'stale-jwt' }))
+      .rejects.toMatchObject({ code: API_ERROR_CODES.SESSION_EXPIRED });
+    expect(onSessionExpired).toHaveBeenCalledTimes(1);
+  });
+});
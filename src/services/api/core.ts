@@ -4,62 +4,369 @@ const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'https://expertdash5.o
 console.log('🔗 API_BASE_URL:', API_BASE_URL);
 console.log('🔗 VITE_API_BASE_URL from env:', import.meta.env.VITE_API_BASE_URL);
 
+export type HttpMethod = 'GET' | 'HEAD' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'OPTIONS';
+
+// Error codes attached to every ApiError. Codes sent by the backend (e.g. SERVICE_UNAVAILABLE)
+// take precedence; otherwise the code is derived from the HTTP status or the failure type.
+export const API_ERROR_CODES = {
+  NETWORK_ERROR: 'NETWORK_ERROR',
+  TIMEOUT: 'TIMEOUT',
+  ABORTED: 'ABORTED',
+  INVALID_RESPONSE: 'INVALID_RESPONSE',
+  BAD_REQUEST: 'BAD_REQUEST',
+  UNAUTHORIZED: 'UNAUTHORIZED',
+  SESSION_EXPIRED: 'SESSION_EXPIRED',
+  FORBIDDEN: 'FORBIDDEN',
+  NOT_FOUND: 'NOT_FOUND',
+  CONFLICT: 'CONFLICT',
+  RATE_LIMITED: 'RATE_LIMITED',
+  SERVICE_UNAVAILABLE: 'SERVICE_UNAVAILABLE',
+  SERVER_ERROR: 'SERVER_ERROR',
+} as const;
+
+export type ApiErrorCode = typeof API_ERROR_CODES[keyof typeof API_ERROR_CODES];
+
+const codeForStatus = (status: number): string => {
+  if (status === 0) return API_ERROR_CODES.NETWORK_ERROR;
+  if (status === 401) return API_ERROR_CODES.UNAUTHORIZED;
+  if (status === 403) return API_ERROR_CODES.FORBIDDEN;
+  if (status === 404) return API_ERROR_CODES.NOT_FOUND;
+  if (status === 408) return API_ERROR_CODES.TIMEOUT;
+  if (status === 409) return API_ERROR_CODES.CONFLICT;
+  if (status === 429) return API_ERROR_CODES.RATE_LIMITED;
+  if (status === 503) return API_ERROR_CODES.SERVICE_UNAVAILABLE;
+  if (status >= 500) return API_ERROR_CODES.SERVER_ERROR;
+  return API_ERROR_CODES.BAD_REQUEST;
+};
+
 export class ApiError extends Error {
-  constructor(public status: number, message: string, public code?: string) {
+  public code: string;
+
+  constructor(public status: number, message: string, code?: string, public details?: unknown) {
     super(message);
     this.name = 'ApiError';
+    this.code = code || codeForStatus(status);
   }
 }
 
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof ApiError && error.code === API_ERROR_CODES.ABORTED;
+
+// Transient failures worth another attempt: network drops, timeouts, throttling and 5xx
+export const isRetryableError = (error: unknown): boolean => {
+  if (!(error instanceof ApiError)) return true;
+  if (error.code === API_ERROR_CODES.ABORTED) return false;
+  if (error.status === 0 || error.status === 408 || error.status === 429) return true;
+  return error.status >= 500 && error.status !== 501;
+};
+
+// Backend routes put either a machine code ('SERVICE_UNAVAILABLE') or a raw error message in `error`
+const SERVER_CODE_PATTERN = /^[A-Z][A-Z0-9_]+$/;
+
+// Fields backend routes put in an error response; anything else the body carries is kept as details
+export interface ApiErrorBody {
+  message?: unknown;
+  error?: unknown;
+  code?: unknown;
+}
+
+const isApiErrorBody = (value: unknown): value is ApiErrorBody =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// 'blob' for file downloads such as CSV exports
+type ResponseType = 'json' | 'blob';
+
 // Enhanced error handling helper
-export const handleResponse = async (response: Response) => {
+export const handleResponse = async <T = unknown>(response: Response, responseType: ResponseType = 'json'): Promise<T> => {
   if (!response.ok) {
-    let errorData: any = {};
-    
+    let errorData: unknown;
+
     try {
       errorData = await response.json();
-    } catch (parseError) {
+    } catch {
       // If response is not JSON, use status text
       errorData = { message: response.statusText };
     }
-    
-    throw new ApiError(
-      response.status, 
-      errorData.message || `HTTP ${response.status}: ${response.statusText}`,
-      errorData.error || errorData.code
+
+    const body: ApiErrorBody = isApiErrorBody(errorData) ? errorData : {};
+    const serverCode = [body.code, body.error].find(
+      (value): value is string => typeof value === 'string' && SERVER_CODE_PATTERN.test(value)
     );
+    const message = typeof body.message === 'string' && body.message
+      ? body.message
+      : `HTTP ${response.status}: ${response.statusText}`;
+
+    throw new ApiError(response.status, message, serverCode, errorData);
+  }
+
+  if (response.status === 204) {
+    return undefined as T;
+  }
+
+  if (responseType === 'blob') {
+    return await response.blob() as T;
+  }
+
+  try {
+    return await response.json() as T;
+  } catch {
+    throw new ApiError(response.status, 'Invalid JSON in server response', API_ERROR_CODES.INVALID_RESPONSE);
   }
-  
-  return response.json();
 };
 
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(new ApiError(0, 'Request was cancelled', API_ERROR_CODES.ABORTED));
+    return;
+  }
+
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new ApiError(0, 'Request was cancelled', API_ERROR_CODES.ABORTED));
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
 // Enhanced retry logic for network issues
-export const retryRequest = async (requestFn: () => Promise<Response>, maxRetries = 3, delay = 1000): Promise<Response> => {
+export const retryRequest = async <T>(
+  requestFn: () => Promise<T>,
+  maxRetries = 3,
+  delay = 1000,
+  signal?: AbortSignal
+): Promise<T> => {
   let lastError: Error;
-  
+
   for (let attempt = 1; attempt <= maxRetries; attempt++) {
     try {
-      const response = await requestFn();
-      return response;
+      return await requestFn();
     } catch (error) {
       lastError = error as Error;
-      
-      // Don't retry on client errors (4xx)
-      if (error instanceof ApiError && error.status >= 400 && error.status < 500) {
+
+      // Don't retry on client errors (4xx) or cancellations
+      if (!isRetryableError(error)) {
         throw error;
       }
-      
+
       if (attempt === maxRetries) {
         break;
       }
-      
+
       console.log(`🔄 Request attempt ${attempt} failed, retrying in ${delay}ms...`, error);
-      await new Promise(resolve => setTimeout(resolve, delay));
+      await wait(delay, signal);
       delay *= 2; // Exponential backoff
     }
   }
-  
+
   throw lastError!;
 };
 
-export { API_BASE_URL };
\ No newline at end of file
+// Per-call options every *Api method accepts as its last argument
+export interface RequestConfig {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  // Sent as the Idempotency-Key header; the server drops replays, so the call becomes safe to retry
+  idempotencyKey?: string;
+}
+
+export interface RequestOptions extends RequestConfig {
+  method?: HttpMethod;
+  token?: string | null;
+  body?: unknown;
+  query?: Record<string, string | number | boolean | null | undefined>;
+  retries?: number;
+  retryDelayMs?: number;
+  // Opt a POST/PATCH into retries when the endpoint has no side effects
+  idempotent?: boolean;
+  responseType?: ResponseType;
+}
+
+// Only verbs that are safe to replay are retried; POST/PATCH get a single attempt
+const IDEMPOTENT_METHODS = new Set<HttpMethod>(['GET', 'HEAD', 'PUT', 'DELETE', 'OPTIONS']);
+
+const DEFAULT_RETRIES = 3;
+const DEFAULT_RETRY_DELAY_MS = 1000;
+// Generous default: the Render backend can take a while to wake from a cold start
+const DEFAULT_TIMEOUT_MS = 60000;
+
+const buildUrl = (path: string, query?: RequestOptions['query']) => {
+  const url = `${API_BASE_URL}${path}`;
+  if (!query) return url;
+
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    if (value !== undefined && value !== null) {
+      params.append(key, String(value));
+    }
+  });
+
+  const queryString = params.toString();
+  return queryString ? `${url}?${queryString}` : url;
+};
+
+const sendRequest = async <T>(url: string, init: RequestInit, options: RequestOptions): Promise<T> => {
+  const { signal, timeoutMs = DEFAULT_TIMEOUT_MS } = options;
+
+  if (signal?.aborted) {
+    throw new ApiError(0, 'Request was cancelled', API_ERROR_CODES.ABORTED);
+  }
+
+  // One controller per attempt, linked to the caller's signal and our own timeout
+  const controller = new AbortController();
+  let timedOut = false;
+  const onAbort = () => controller.abort();
+  const timeoutId = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    let response: Response;
+
+    try {
+      response = await fetch(url, { ...init, signal: controller.signal });
+    } catch (error) {
+      if (timedOut) {
+        throw new ApiError(0, `Request timed out after ${timeoutMs}ms`, API_ERROR_CODES.TIMEOUT);
+      }
+      if (signal?.aborted) {
+        throw new ApiError(0, 'Request was cancelled', API_ERROR_CODES.ABORTED);
+      }
+      throw new ApiError(
+        0,
+        'Network error: Unable to reach the server. Please check your connection.',
+        API_ERROR_CODES.NETWORK_ERROR,
+        error
+      );
+    }
+
+    try {
+      return await handleResponse<T>(response, options.responseType);
+    } catch (error) {
+      // The body read can also be interrupted by the caller or the timeout
+      if (signal?.aborted) {
+        throw new ApiError(0, 'Request was cancelled', API_ERROR_CODES.ABORTED);
+      }
+      if (timedOut) {
+        throw new ApiError(0, `Request timed out after ${timeoutMs}ms`, API_ERROR_CODES.TIMEOUT);
+      }
+      throw error;
+    }
+  } finally {
+    clearTimeout(timeoutId);
+    signal?.removeEventListener('abort', onAbort);
+  }
+};
+
+// Session hooks registered by AuthProvider so the request layer can recover from 401s
+export interface AuthHandlers {
+  getAccessToken: () => string | null;
+  // Resolves to the new access token, or null when the session can no longer be refreshed.
+  // Rejects on transient failures (network, 5xx), which leave the session untouched.
+  refreshAccessToken: () => Promise<string | null>;
+  onSessionExpired: () => void;
+}
+
+let authHandlers: AuthHandlers | null = null;
+let refreshInFlight: Promise<string | null> | null = null;
+
+export const registerAuthHandlers = (handlers: AuthHandlers | null) => {
+  authHandlers = handlers;
+};
+
+// Concurrent 401s share a single refresh call
+export const refreshAuthSession = (): Promise<string | null> => {
+  if (!authHandlers) {
+    return Promise.resolve(null);
+  }
+
+  if (!refreshInFlight) {
+    console.log('🔄 Refreshing session token...');
+    refreshInFlight = authHandlers.refreshAccessToken().finally(() => {
+      refreshInFlight = null;
+    });
+  }
+
+  return refreshInFlight;
+};
+
+const sessionExpiredError = () =>
+  new ApiError(401, 'Your session has expired. Please log in again.', API_ERROR_CODES.SESSION_EXPIRED);
+
+// Single entry point for all backend calls
+export const apiRequest = async <T>(path: string, options: RequestOptions = {}): Promise<T> => {
+  const method = options.method || 'GET';
+  const url = buildUrl(path, options.query);
+
+  const idempotent = options.idempotent ?? (IDEMPOTENT_METHODS.has(method) || !!options.idempotencyKey);
+  const maxAttempts = idempotent ? (options.retries ?? DEFAULT_RETRIES) : 1;
+
+  const execute = (token?: string | null) => {
+    const headers: Record<string, string> = {};
+    if (options.body !== undefined) {
+      headers['Content-Type'] = 'application/json';
+    }
+    if (token) {
+      headers['Authorization'] = `Bearer ${token}`;
+    }
+    if (options.idempotencyKey) {
+      headers['Idempotency-Key'] = options.idempotencyKey;
+    }
+
+    const init: RequestInit = {
+      method,
+      headers,
+      body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+    };
+
+    return retryRequest(
+      () => sendRequest<T>(url, init, options),
+      Math.max(1, maxAttempts),
+      options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS,
+      options.signal
+    );
+  };
+
+  try {
+    return await execute(options.token);
+  } catch (error) {
+    const canRecover = error instanceof ApiError
+      && error.status === 401
+      && !!options.token
+      && !!authHandlers;
+
+    if (!canRecover) {
+      throw error;
+    }
+
+    // Another request may already have refreshed the session while this one was in flight
+    const currentToken = authHandlers!.getAccessToken();
+    const freshToken = currentToken && currentToken !== options.token
+      ? currentToken
+      : await refreshAuthSession();
+
+    if (!freshToken) {
+      console.warn('🔐 Session could not be refreshed, signing out');
+      authHandlers?.onSessionExpired();
+      throw sessionExpiredError();
+    }
+
+    // Retry exactly once; a second 401 means the session is really gone
+    try {
+      return await execute(freshToken);
+    } catch (retryError) {
+      if (retryError instanceof ApiError && retryError.status === 401) {
+        authHandlers?.onSessionExpired();
+        throw sessionExpiredError();
+      }
+      throw retryError;
+    }
+  }
+};
+
+export { API_BASE_URL };
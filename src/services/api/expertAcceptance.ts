@@ -1,22 +1,19 @@
-import { API_BASE_URL, handleResponse } from './core';
+import { apiRequest, type RequestConfig } from './core';
+import type {
+  AcceptanceCheckResponse,
+  AcceptConversationResponse,
+  ConversationDetailsResponse,
+  PendingConversationsResponse,
+} from '../../types';
 
 export const expertAcceptanceApi = {
-  async getPendingConversations(token: string) {
+  async getPendingConversations(token: string, config: RequestConfig = {}) {
     try {
       console.log('🔍 Fetching pending conversations for expert...');
-      const response = await fetch(`${API_BASE_URL}/api/expert-acceptance/pending`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-        },
+      const data = await apiRequest<PendingConversationsResponse>('/api/expert-acceptance/pending', {
+        ...config,
+        token,
       });
-
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.message || 'Failed to fetch pending conversations');
-      }
-
-      const data = await response.json();
       console.log('✅ Pending conversations loaded:', data);
       return data;
     } catch (error) {
@@ -25,24 +22,15 @@ export const expertAcceptanceApi = {
     }
   },
 
-  async acceptConversation(conversationId: string, token: string) {
+  async acceptConversation(conversationId: string, token: string, config: RequestConfig = {}) {
     try {
       console.log(`🤝 Accepting conversation: ${conversationId}`);
-      const response = await fetch(`${API_BASE_URL}/api/expert-acceptance/accept`, {
+      const data = await apiRequest<AcceptConversationResponse>('/api/expert-acceptance/accept', {
+        ...config,
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`,
-        },
-        body: JSON.stringify({ conversationId }),
+        token,
+        body: { conversationId },
       });
-
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.message || 'Failed to accept conversation');
-      }
-
-      const data = await response.json();
       console.log('✅ Conversation accepted successfully:', data);
       return data;
     } catch (error) {
@@ -51,22 +39,13 @@ export const expertAcceptanceApi = {
     }
   },
 
-  async getConversationDetails(conversationId: string, token: string) {
+  async getConversationDetails(conversationId: string, token: string, config: RequestConfig = {}) {
     try {
       console.log(`🔍 Fetching conversation details: ${conversationId}`);
-      const response = await fetch(`${API_BASE_URL}/api/expert-acceptance/conversation/${conversationId}`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-        },
-      });
-
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.message || 'Failed to fetch conversation details');
-      }
-
-      const data = await response.json();
+      const data = await apiRequest<ConversationDetailsResponse>(
+        `/api/expert-acceptance/conversation/${conversationId}`,
+        { ...config, token }
+      );
       console.log('✅ Conversation details loaded:', data);
       return data;
     } catch (error) {
@@ -75,21 +54,13 @@ export const expertAcceptanceApi = {
     }
   },
 
-  async checkConversationAcceptance(conversationSid: string, token: string) {
+  async checkConversationAcceptance(conversationSid: string, token: string, config: RequestConfig = {}) {
     try {
       console.log(`🔍 Checking conversation acceptance: ${conversationSid}`);
-      const response = await fetch(`${API_BASE_URL}/api/expert-acceptance/check/${conversationSid}`, {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-        },
-      });
-
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.message || 'Failed to check conversation acceptance');
-      }
-
-      const data = await response.json();
+      const data = await apiRequest<AcceptanceCheckResponse>(
+        `/api/expert-acceptance/check/${conversationSid}`,
+        { ...config, token }
+      );
       console.log('✅ Conversation acceptance checked:', data);
       return data;
     } catch (error) {
@@ -98,24 +69,15 @@ export const expertAcceptanceApi = {
     }
   },
 
-  async acceptConversationBySid(conversationSid: string, token: string) {
+  async acceptConversationBySid(conversationSid: string, token: string, config: RequestConfig = {}) {
     try {
       console.log(`🤝 Accepting conversation by SID: ${conversationSid}`);
-      const response = await fetch(`${API_BASE_URL}/api/expert-acceptance/accept-by-sid`, {
+      const data = await apiRequest<AcceptConversationResponse>('/api/expert-acceptance/accept-by-sid', {
+        ...config,
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`,
-        },
-        body: JSON.stringify({ conversationSid }),
+        token,
+        body: { conversationSid },
       });
-
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.message || 'Failed to accept conversation');
-      }
-
-      const data = await response.json();
       console.log('✅ Conversation accepted by SID successfully:', data);
       return data;
     } catch (error) {
@@ -124,21 +86,13 @@ export const expertAcceptanceApi = {
     }
   },
 
-  async getConversationDetailsBySid(conversationSid: string, token: string) {
+  async getConversationDetailsBySid(conversationSid: string, token: string, config: RequestConfig = {}) {
     try {
       console.log(`🔍 Fetching conversation details by SID: ${conversationSid}`);
-      const response = await fetch(`${API_BASE_URL}/api/expert-acceptance/details/${conversationSid}`, {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-        },
-      });
-
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.message || 'Failed to fetch conversation details');
-      }
-
-      const data = await response.json();
+      const data = await apiRequest<ConversationDetailsResponse>(
+        `/api/expert-acceptance/conversation-by-sid/${conversationSid}`,
+        { ...config, token }
+      );
       console.log('✅ Conversation details fetched by SID:', data);
       return data;
     } catch (error) {
@@ -146,4 +100,4 @@ export const expertAcceptanceApi = {
       throw error;
     }
   },
-};
\ No newline at end of file
+};
@@ -1,57 +1,42 @@
-import { API_BASE_URL, handleResponse, retryRequest } from './core';
+import { apiRequest, type RequestConfig } from './core';
+import type { ApiResponse, GoogleSheetsStatus, SheetRow } from '../../types';
+
+interface SheetResponse<T> extends ApiResponse<T> {
+  meta?: {
+    sheetName?: string;
+    spreadsheetId?: string;
+    rowCount?: number;
+    sheetCount?: number;
+    hasHeaders?: boolean;
+    retrievedAt?: string;
+  };
+}
 
 export const googleSheetsApi = {
-  async getGoogleSheetData(sheetName: string, token: string) {
+  async getGoogleSheetData(sheetName: string, token: string, config: RequestConfig = {}) {
     console.log(`📊 Fetching Google Sheet data for sheet: ${sheetName}`);
-    
-    const response = await retryRequest(() =>
-      fetch(`${API_BASE_URL}/api/sheets/data/${encodeURIComponent(sheetName)}`, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`,
-        },
-      })
-    );
 
-    const data = await handleResponse(response);
+    const data = await apiRequest<SheetResponse<SheetRow[]>>(
+      `/api/sheets/data/${encodeURIComponent(sheetName)}`,
+      { ...config, token }
+    );
     console.log(`✅ Google Sheet data received for ${sheetName}:`, data.meta?.rowCount || 0, 'rows');
-    return data.data;
+    return data.data || [];
   },
 
-  async getGoogleSheetNames(token: string) {
+  async getGoogleSheetNames(token: string, config: RequestConfig = {}) {
     console.log('📋 Fetching Google Sheet names...');
-    
-    const response = await retryRequest(() =>
-      fetch(`${API_BASE_URL}/api/sheets/sheets`, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`,
-        },
-      })
-    );
 
-    const data = await handleResponse(response);
+    const data = await apiRequest<SheetResponse<string[]>>('/api/sheets/sheets', { ...config, token });
     console.log('✅ Google Sheet names received:', data.data?.length || 0);
-    return data.data;
+    return data.data || [];
   },
 
-  async getGoogleSheetsStatus(token: string) {
+  async getGoogleSheetsStatus(token: string, config: RequestConfig = {}) {
     console.log('🔍 Checking Google Sheets service status...');
-    
-    const response = await retryRequest(() =>
-      fetch(`${API_BASE_URL}/api/sheets/status`, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`,
-        },
-      })
-    );
 
-    const data = await handleResponse(response);
+    const data = await apiRequest<SheetResponse<GoogleSheetsStatus>>('/api/sheets/status', { ...config, token });
     console.log('✅ Google Sheets status received:', data.data);
     return data.data;
   },
-};
\ No newline at end of file
+};
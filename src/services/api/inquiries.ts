@@ -1,83 +1,147 @@
-import { API_BASE_URL, handleResponse, retryRequest } from './core';
+import { apiRequest, type RequestConfig } from './core';
+import type {
+  ApiResponse,
+  AssignmentPreviewRequest,
+  AssignmentPreviewResponse,
+  CreateInquiryRequest,
+  ExpertListEntry,
+  InquiriesResponse,
+  InquiryExportFormat,
+  InquiryFilters,
+  InquiryImportRequest,
+  InquiryImportResponse,
+  InquiryRecord,
+  InquiryStatus,
+  InquiryStatusHistoryResponse,
+  ReassignInquiryRequest,
+  ReassignInquiryResponse,
+} from '../../types';
 
 export const inquiriesApi = {
-  async createInquiry(inquiry: {
-    customerName: string;
-    customerEmail: string;
-    customerPhone?: string;
-    message: string;
-    assignedExpertId: string;
-  }, token: string) {
+  async createInquiry(inquiry: CreateInquiryRequest, token: string, config: RequestConfig = {}) {
     console.log('📝 Creating inquiry for customer:', inquiry.customerName);
-    
-    const response = await retryRequest(() =>
-      fetch(`${API_BASE_URL}/api/inquiries`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`,
-        },
-        body: JSON.stringify(inquiry),
-      })
-    );
 
-    const data = await handleResponse(response);
+    const data = await apiRequest<ApiResponse<InquiryRecord>>('/api/inquiries', {
+      ...config,
+      method: 'POST',
+      token,
+      body: inquiry,
+    });
     console.log('✅ Inquiry created successfully:', data.data?.id);
     return data;
   },
 
-  async getExperts(token: string) {
+  async importInquiries(request: InquiryImportRequest, token: string, config: RequestConfig = {}) {
+    console.log(`📥 ${request.dryRun ? 'Checking' : 'Importing'} ${request.rows.length} inquiries...`);
+
+    const data = await apiRequest<InquiryImportResponse>('/api/inquiries/import', {
+      ...config,
+      method: 'POST',
+      token,
+      body: request,
+    });
+    console.log('✅ Import batch processed');
+    return data;
+  },
+
+  async previewAssignment(request: AssignmentPreviewRequest, token: string, config: RequestConfig = {}) {
+    console.log('🎯 Previewing expert assignment:', request.strategy || 'default strategy');
+
+    const data = await apiRequest<AssignmentPreviewResponse>('/api/inquiries/assignment/preview', {
+      ...config,
+      token,
+      query: {
+        strategy: request.strategy,
+        skills: request.skills?.join(','),
+        region: request.region,
+      },
+    });
+    console.log('✅ Assignment preview received:', data.data.expert?.name ?? 'no expert available');
+    return data;
+  },
+
+  async getExperts(token: string, config: RequestConfig = {}) {
     console.log('👥 Fetching experts list...');
-    
-    const response = await retryRequest(() =>
-      fetch(`${API_BASE_URL}/api/inquiries/experts/list`, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`,
-        },
-      })
-    );
 
-    const data = await handleResponse(response);
+    const data = await apiRequest<ApiResponse<ExpertListEntry[]>>('/api/inquiries/experts/list', {
+      ...config,
+      token,
+    });
     console.log('✅ Experts list received:', data.data?.length || 0);
     return data;
   },
 
-  async getInquiries(token: string, page: number = 1, limit: number = 10) {
+  async getInquiries(token: string, filters: InquiryFilters = {}, page: number = 1, limit: number = 10, config: RequestConfig = {}) {
     console.log(`📋 Fetching inquiries (page ${page}, limit ${limit})...`);
-    
-    const response = await retryRequest(() =>
-      fetch(`${API_BASE_URL}/api/inquiries?page=${page}&limit=${limit}`, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`,
-        },
-      })
-    );
 
-    const data = await handleResponse(response);
+    const { status, ...rest } = filters;
+    const data = await apiRequest<InquiriesResponse>('/api/inquiries', {
+      ...config,
+      token,
+      query: { ...rest, status: status?.length ? status.join(',') : undefined, page, limit },
+    });
     console.log('✅ Inquiries received:', data.data?.length || 0);
     return data;
   },
 
-  async updateInquiryStatus(inquiryId: string, status: string, token: string) {
+  // Same filters as getInquiries, without paging
+  async exportInquiries(token: string, filters: InquiryFilters = {}, format: InquiryExportFormat = 'csv', config: RequestConfig = {}) {
+    console.log(`📤 Exporting inquiries as ${format}...`);
+
+    const { status, ...rest } = filters;
+    return apiRequest<Blob>('/api/inquiries/export', {
+      ...config,
+      token,
+      query: { ...rest, status: status?.length ? status.join(',') : undefined, format },
+      responseType: 'blob',
+    });
+  },
+
+  async updateInquiryStatus(inquiryId: string, status: InquiryStatus, token: string, note?: string, config: RequestConfig = {}) {
     console.log(`🔄 Updating inquiry ${inquiryId} status to:`, status);
-    
-    const response = await retryRequest(() =>
-      fetch(`${API_BASE_URL}/api/inquiries/${inquiryId}/status`, {
-        method: 'PATCH',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`,
-        },
-        body: JSON.stringify({ status }),
-      })
-    );
 
-    const data = await handleResponse(response);
+    const data = await apiRequest<ApiResponse<InquiryRecord>>(`/api/inquiries/${inquiryId}/status`, {
+      ...config,
+      method: 'PATCH',
+      token,
+      body: { status, note },
+    });
     console.log('✅ Inquiry status updated successfully');
     return data;
   },
-};
\ No newline at end of file
+
+  async getInquiryStatusHistory(inquiryId: string, token: string, config: RequestConfig = {}) {
+    console.log(`🕒 Fetching status history for inquiry ${inquiryId}...`);
+
+    const data = await apiRequest<InquiryStatusHistoryResponse>(`/api/inquiries/${inquiryId}/history`, {
+      ...config,
+      token,
+    });
+    console.log('✅ Status history received:', data.data.history.length);
+    return data;
+  },
+
+  async getInquiryStatusHistoryByConversation(conversationSid: string, token: string, config: RequestConfig = {}) {
+    console.log(`🕒 Fetching status history for conversation ${conversationSid}...`);
+
+    const data = await apiRequest<InquiryStatusHistoryResponse>(
+      `/api/inquiries/by-conversation/${encodeURIComponent(conversationSid)}/history`,
+      { ...config, token }
+    );
+    console.log('✅ Status history received:', data.data.history.length);
+    return data;
+  },
+
+  async reassignInquiry(inquiryId: string, request: ReassignInquiryRequest, token: string, config: RequestConfig = {}) {
+    console.log(`🔀 Reassigning inquiry ${inquiryId} to expert ${request.expertId}...`);
+
+    const data = await apiRequest<ReassignInquiryResponse>(`/api/inquiries/${inquiryId}/reassign`, {
+      ...config,
+      method: 'POST',
+      token,
+      body: request,
+    });
+    console.log('✅ Inquiry reassigned:', data.message);
+    return data;
+  },
+};
@@ -0,0 +1,56 @@
+import { apiRequest, type RequestConfig } from './core';
+import type {
+  CreateInviteRequest,
+  CreateInviteResponse,
+  InviteLookupResponse,
+  InvitesResponse,
+  RegistrationConfigResponse,
+  UserInvite,
+} from '../../types';
+
+export const invitesApi = {
+  async getRegistrationConfig(config: RequestConfig = {}) {
+    return apiRequest<RegistrationConfigResponse>('/api/auth/registration', config);
+  },
+
+  async lookupInvite(inviteToken: string, config: RequestConfig = {}) {
+    console.log('✉️ Looking up invite...');
+
+    return apiRequest<InviteLookupResponse>(`/api/invites/lookup/${encodeURIComponent(inviteToken)}`, {
+      ...config,
+      retries: 1,
+    });
+  },
+
+  async getInvites(token: string, status?: 'pending', config: RequestConfig = {}) {
+    return apiRequest<InvitesResponse>('/api/invites', {
+      ...config,
+      token,
+      query: { status },
+    });
+  },
+
+  async createInvite(invite: CreateInviteRequest, token: string, config: RequestConfig = {}) {
+    console.log(`✉️ Creating ${invite.role} invite${invite.email ? ` for ${invite.email}` : ''}...`);
+
+    const data = await apiRequest<CreateInviteResponse>('/api/invites', {
+      ...config,
+      method: 'POST',
+      token,
+      body: invite,
+    });
+
+    console.log('✅ Invite created:', data.invite.id);
+    return data;
+  },
+
+  async revokeInvite(inviteId: string, token: string, config: RequestConfig = {}) {
+    console.log(`🚫 Revoking invite ${inviteId}...`);
+
+    return apiRequest<{ message: string; invite: UserInvite }>(`/api/invites/${inviteId}`, {
+      ...config,
+      method: 'DELETE',
+      token,
+    });
+  },
+};
@@ -0,0 +1,67 @@
+import { apiRequest, type RequestConfig } from './core';
+import type {
+  AdminUserSessionsResponse,
+  RevokeSessionsResponse,
+  UserSessionsResponse,
+} from '../../types';
+
+export const sessionsApi = {
+  async getSessions(token: string, config: RequestConfig = {}) {
+    return apiRequest<UserSessionsResponse>('/api/auth/sessions', {
+      ...config,
+      token,
+    });
+  },
+
+  async revokeSession(sessionId: string, token: string, config: RequestConfig = {}) {
+    console.log('🚪 Revoking session:', sessionId);
+
+    return apiRequest<{ message: string; current: boolean }>(`/api/auth/sessions/${encodeURIComponent(sessionId)}`, {
+      ...config,
+      method: 'DELETE',
+      token,
+    });
+  },
+
+  async revokeAllSessions(includeCurrent: boolean, token: string, config: RequestConfig = {}) {
+    console.log(`🚪 Signing out of all sessions${includeCurrent ? '' : ' except this one'}...`);
+
+    // Revoking twice leaves the same sessions revoked, so a replay is safe
+    return apiRequest<RevokeSessionsResponse>('/api/auth/sessions/revoke-all', {
+      ...config,
+      method: 'POST',
+      token,
+      body: { includeCurrent },
+      idempotent: true,
+    });
+  },
+
+  async getAllUserSessions(token: string, userId?: string, config: RequestConfig = {}) {
+    return apiRequest<AdminUserSessionsResponse>('/api/admin/sessions', {
+      ...config,
+      token,
+      query: { userId },
+    });
+  },
+
+  async revokeAnySession(sessionId: string, token: string, config: RequestConfig = {}) {
+    console.log('🚪 Revoking session as admin:', sessionId);
+
+    return apiRequest<{ message: string }>(`/api/admin/sessions/${encodeURIComponent(sessionId)}`, {
+      ...config,
+      method: 'DELETE',
+      token,
+    });
+  },
+
+  async revokeUserSessions(userId: string, token: string, config: RequestConfig = {}) {
+    console.log('🚪 Signing user out everywhere:', userId);
+
+    return apiRequest<RevokeSessionsResponse>(`/api/admin/users/${encodeURIComponent(userId)}/sessions/revoke`, {
+      ...config,
+      method: 'POST',
+      token,
+      idempotent: true,
+    });
+  },
+};
@@ -0,0 +1,19 @@
+import { apiRequest, type RequestConfig } from './core';
+import type { SlaBreachFilters, SlaBreachesResponse, SlaClocksResponse } from '../../types';
+
+export const slaApi = {
+  async getSlaClocks(token: string, config: RequestConfig = {}) {
+    return apiRequest<SlaClocksResponse>('/api/sla/clocks', {
+      ...config,
+      token,
+    });
+  },
+
+  async getSlaBreaches(token: string, filters: SlaBreachFilters = {}, page = 1, limit = 50, config: RequestConfig = {}) {
+    return apiRequest<SlaBreachesResponse>('/api/sla/breaches', {
+      ...config,
+      token,
+      query: { ...filters, page, limit },
+    });
+  },
+};
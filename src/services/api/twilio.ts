@@ -1,21 +1,18 @@
-import { API_BASE_URL, handleResponse, retryRequest } from './core';
+import { apiRequest, type RequestConfig } from './core';
+import type { SendMessageResponse, TwilioTokenResponse } from '../../types';
 
 export const twilioApi = {
-  async getTwilioToken(identity: string, token: string) {
+  async getTwilioToken(identity: string, token: string, config: RequestConfig = {}) {
     console.log('🎫 Requesting Twilio token for:', identity);
-    
-    const response = await retryRequest(() =>
-      fetch(`${API_BASE_URL}/api/twilio/token`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`,
-        },
-        body: JSON.stringify({ identity }),
-      })
-    );
 
-    const data = await handleResponse(response);
+    // Minting a token has no side effects, so it is safe to retry despite being a POST
+    const data = await apiRequest<TwilioTokenResponse>('/api/twilio/token', {
+      ...config,
+      method: 'POST',
+      token,
+      body: { identity },
+      idempotent: true,
+    });
     console.log('✅ Twilio token received');
     return data.token;
   },
@@ -25,7 +22,8 @@ export const twilioApi = {
     message: string,
     author: string,
     token: string,
-    from?: string
+    from?: string,
+    config: RequestConfig = {}
   ) {
     console.log(`📤 Sending message to backend API:`, {
       conversationSid,
@@ -33,29 +31,28 @@ export const twilioApi = {
       author,
       from
     });
-    
-    const requestBody: any = {
+
+    const requestBody: {
+      conversationSid: string;
+      message: string;
+      author: string;
+      from?: string;
+    } = {
       conversationSid,
       message,
       author,
     };
-    
+
     if (from) {
       requestBody.from = from;
     }
-    
-    const response = await retryRequest(() =>
-      fetch(`${API_BASE_URL}/api/twilio/message`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${token}`,
-        },
-        body: JSON.stringify(requestBody),
-      })
-    );
 
-    const data = await handleResponse(response);
+    const data = await apiRequest<SendMessageResponse>('/api/twilio/message', {
+      ...config,
+      method: 'POST',
+      token,
+      body: requestBody,
+    });
     console.log('✅ Backend API confirmed message sent:', {
       messageSid: data.data?.sid,
       conversationSid: data.data?.conversationSid,
@@ -63,4 +60,4 @@ export const twilioApi = {
     });
     return data;
   },
-};
\ No newline at end of file
+};
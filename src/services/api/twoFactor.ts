@@ -0,0 +1,67 @@
+import { apiRequest, type RequestConfig } from './core';
+import type {
+  RecoveryCodesResponse,
+  TwoFactorCode,
+  TwoFactorDisableResponse,
+  TwoFactorEnableResponse,
+  TwoFactorSetupResponse,
+  TwoFactorStatusResponse,
+} from '../../types';
+
+export const twoFactorApi = {
+  async getTwoFactorStatus(token: string, config: RequestConfig = {}) {
+    return apiRequest<TwoFactorStatusResponse>('/api/auth/2fa', {
+      ...config,
+      token,
+    });
+  },
+
+  async startTwoFactorSetup(token: string, config: RequestConfig = {}) {
+    console.log('🔐 Starting two-factor setup...');
+
+    return apiRequest<TwoFactorSetupResponse>('/api/auth/2fa/setup', {
+      ...config,
+      method: 'POST',
+      token,
+    });
+  },
+
+  async enableTwoFactor(code: string, token: string, config: RequestConfig = {}) {
+    console.log('🔐 Confirming two-factor setup...');
+
+    const data = await apiRequest<TwoFactorEnableResponse>('/api/auth/2fa/enable', {
+      ...config,
+      method: 'POST',
+      token,
+      body: { code },
+    });
+
+    console.log('✅ Two-factor authentication enabled');
+    return data;
+  },
+
+  async regenerateRecoveryCodes(code: string, token: string, config: RequestConfig = {}) {
+    console.log('🔐 Regenerating recovery codes...');
+
+    return apiRequest<RecoveryCodesResponse>('/api/auth/2fa/recovery-codes', {
+      ...config,
+      method: 'POST',
+      token,
+      body: { code },
+    });
+  },
+
+  async disableTwoFactor(password: string, twoFactorCode: TwoFactorCode, token: string, config: RequestConfig = {}) {
+    console.log('🔓 Disabling two-factor authentication...');
+
+    const data = await apiRequest<TwoFactorDisableResponse>('/api/auth/2fa/disable', {
+      ...config,
+      method: 'POST',
+      token,
+      body: { password, ...twoFactorCode },
+    });
+
+    console.log('✅ Two-factor authentication disabled');
+    return data;
+  },
+};
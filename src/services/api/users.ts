@@ -0,0 +1,80 @@
+import { apiRequest, type RequestConfig } from './core';
+import type {
+  AdminPasswordResetResponse,
+  ManagedUserResponse,
+  TwilioProvisioningResponse,
+  UpdateUserRequest,
+  UpdateUserResponse,
+  UsersResponse,
+} from '../../types';
+
+export const usersApi = {
+  async getUsers(token: string, config: RequestConfig = {}) {
+    return apiRequest<UsersResponse>('/api/users', {
+      ...config,
+      token,
+    });
+  },
+
+  async updateUser(userId: string, data: UpdateUserRequest, token: string, config: RequestConfig = {}) {
+    console.log('👤 Updating user:', userId);
+
+    return apiRequest<UpdateUserResponse>(`/api/users/${encodeURIComponent(userId)}`, {
+      ...config,
+      method: 'PATCH',
+      token,
+      body: data,
+    });
+  },
+
+  async deactivateUser(userId: string, token: string, config: RequestConfig = {}) {
+    console.log('🚫 Deactivating user:', userId);
+
+    return apiRequest<ManagedUserResponse>(`/api/users/${encodeURIComponent(userId)}/deactivate`, {
+      ...config,
+      method: 'POST',
+      token,
+    });
+  },
+
+  async reactivateUser(userId: string, token: string, config: RequestConfig = {}) {
+    console.log('✅ Reactivating user:', userId);
+
+    return apiRequest<ManagedUserResponse>(`/api/users/${encodeURIComponent(userId)}/reactivate`, {
+      ...config,
+      method: 'POST',
+      token,
+    });
+  },
+
+  async sendUserPasswordReset(userId: string, signOut: boolean, token: string, config: RequestConfig = {}) {
+    console.log('🔑 Sending password reset for user:', userId);
+
+    return apiRequest<AdminPasswordResetResponse>(`/api/users/${encodeURIComponent(userId)}/reset-password`, {
+      ...config,
+      method: 'POST',
+      token,
+      body: { signOut },
+    });
+  },
+
+  async getTwilioProvisioning(userId: string, token: string, config: RequestConfig = {}) {
+    return apiRequest<TwilioProvisioningResponse>(`/api/users/${encodeURIComponent(userId)}/twilio`, {
+      ...config,
+      token,
+      retries: 1,
+    });
+  },
+
+  async provisionTwilioUser(userId: string, token: string, config: RequestConfig = {}) {
+    console.log('🔧 Provisioning Twilio user:', userId);
+
+    // Creating the user is an upsert on the Twilio side, so a replay is safe
+    return apiRequest<TwilioProvisioningResponse>(`/api/users/${encodeURIComponent(userId)}/twilio/provision`, {
+      ...config,
+      method: 'POST',
+      token,
+      idempotent: true,
+    });
+  },
+};
@@ -1,42 +1,32 @@
-import { API_BASE_URL, handleResponse } from './core';
+import { API_BASE_URL, apiRequest } from './core';
+import type { HealthResponse } from '../../types';
 
 export const utilsApi = {
   // Enhanced health check with detailed status
   async checkHealth() {
     console.log('🏥 Checking API health...');
-    
-    try {
-      const response = await fetch(`${API_BASE_URL}/api/health`, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error(`Health check failed: ${response.status}`);
-      }
 
-      const data = await response.json();
+    try {
+      const data = await apiRequest<HealthResponse>('/api/health', { retries: 1 });
       console.log('✅ API health check passed');
-      return { healthy: true, ...data };
+      return { healthy: true as const, ...data };
     } catch (error) {
       console.error('❌ API health check failed:', error);
-      return { healthy: false, error: error instanceof Error ? error.message : 'Unknown error' };
+      return { healthy: false as const, error: error instanceof Error ? error.message : 'Unknown error' };
     }
   },
 
   // Validate backend connection
   async validateConnection() {
     console.log('🔍 Validating backend connection...');
-    
+
     try {
-      const health = await this.checkHealth();
-      
+      const health = await utilsApi.checkHealth();
+
       if (!health.healthy) {
         throw new Error('Backend health check failed');
       }
-      
+
       console.log('✅ Backend connection validated');
       return true;
     } catch (error) {
@@ -49,4 +39,4 @@ export const utilsApi = {
   getApiBaseUrl() {
     return API_BASE_URL;
   },
-};
\ No newline at end of file
+};
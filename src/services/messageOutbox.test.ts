@@ -0,0 +1,121 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { MessageOutbox } from './messageOutbox';
+import { apiService } from './api';
+import type { SendMessageResponse } from '../types';
+
+vi.mock('./api', () => ({
+  apiService: { sendExternalMessage: vi.fn() },
+  isRetryableError: () => true,
+}));
+
+vi.mock('./twilioClient', () => ({
+  twilioClientManager: { on: vi.fn(), off: vi.fn() },
+}));
+
+const sendExternalMessage = vi.mocked(apiService.sendExternalMessage);
+
+const sentResponse = (sid: string): SendMessageResponse => ({
+  message: 'Message sent',
+  data: { sid, conversationSid: 'CH1', author: 'eve@example.com', body: '' },
+});
+
+describe('MessageOutbox', () => {
+  let outbox: MessageOutbox;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.stubGlobal('window', Object.assign(new EventTarget(), {
+      setTimeout: (handler: () => void, delay?: number) => setTimeout(handler, delay),
+    }));
+    sendExternalMessage.mockReset();
+    outbox = new MessageOutbox();
+  });
+
+  afterEach(() => {
+    outbox.stop();
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  const sentBodies = () => sendExternalMessage.mock.calls.map(call => call[1]);
+
+  it('holds back later messages to a conversation while an earlier one waits to be retried', async () => {
+    sendExternalMessage
+      .mockRejectedValueOnce(new Error('Network error'))
+      .mockImplementation(async (_sid, body) => sentResponse(`IM-${body}`));
+
+    await outbox.start('user-1', 'token-1');
+    await outbox.enqueue(['first'], { conversationSid: 'CH1', author: 'eve@example.com' });
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(outbox.getEntries()[0]).toMatchObject({ status: 'queued', lastError: 'Network error' });
+
+    await outbox.enqueue(['second'], { conversationSid: 'CH1', author: 'eve@example.com' });
+    await outbox.enqueue(['other'], { conversationSid: 'CH2', author: 'eve@example.com' });
+    await vi.advanceTimersByTimeAsync(0);
+
+    // Other conversations are not held up
+    expect(sentBodies()).toEqual(['first', 'other']);
+
+    await vi.advanceTimersByTimeAsync(10000);
+
+    expect(sentBodies()).toEqual(['first', 'other', 'first', 'second']);
+    expect(outbox.getEntries().every(entry => entry.status === 'sent')).toBe(true);
+  });
+
+  it('fails messages instead of retrying them in a loop when there is no session', async () => {
+    await outbox.start('user-1', '');
+    await outbox.enqueue(['hello', 'again'], { conversationSid: 'CH1', author: 'eve@example.com' });
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(sendExternalMessage).not.toHaveBeenCalled();
+    expect(outbox.getEntries().map(entry => entry.status)).toEqual(['failed', 'queued']);
+    expect(outbox.getEntries()[0].lastError).toBe('Not signed in');
+
+    outbox.updateAuthToken('token-2');
+    sendExternalMessage.mockImplementation(async (_sid, body) => sentResponse(`IM-${body}`));
+    await outbox.resend(outbox.getEntries()[0].id);
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(sentBodies()).toEqual(['hello', 'again']);
+  });
+
+  it('does not send a part that was discarded while waiting for the previous one', async () => {
+    sendExternalMessage.mockImplementation(async (_sid, body) => sentResponse(`IM-${body}`));
+
+    await outbox.start('user-1', 'token-1');
+    const [, second, third] = await outbox.enqueue(['one', 'two', 'three'], {
+      conversationSid: 'CH1',
+      author: 'eve@example.com',
+      partDelayMs: 1000,
+    });
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(sentBodies()).toEqual(['one']);
+
+    await outbox.discard(second.id);
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(sentBodies()).toEqual(['one', 'three']);
+    expect(outbox.getEntries().map(entry => entry.id)).not.toContain(second.id);
+    expect(outbox.getEntries().find(entry => entry.id === third.id)?.status).toBe('sent');
+  });
+
+  it('drops sent messages once they are older than the retention period', async () => {
+    sendExternalMessage.mockImplementation(async (_sid, body) => sentResponse(`IM-${body}`));
+
+    await outbox.start('user-1', 'token-1');
+    await outbox.enqueue(['hello'], { conversationSid: 'CH1', author: 'eve@example.com' });
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(outbox.getEntries().map(entry => entry.status)).toEqual(['sent']);
+
+    await vi.advanceTimersByTimeAsync(10 * 60 * 1000);
+
+    expect(outbox.getEntries()).toEqual([]);
+  });
+});
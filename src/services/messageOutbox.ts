@@ -0,0 +1,483 @@
+import { apiService, isRetryableError } from './api';
+import { twilioClientManager } from './twilioClient';
+import type { OutboxEntry } from '../types';
+
+const DB_NAME = 'expertdash-outbox';
+const DB_VERSION = 1;
+const STORE_NAME = 'messages';
+
+interface OutboxConfig {
+  maxAttempts: number;
+  baseRetryDelay: number;
+  maxRetryDelay: number;
+  // Default pause between the parts of a multi-part message so they arrive in order
+  partDelay: number;
+  // Sent entries are kept briefly so the UI can show a delivered state
+  sentRetention: number;
+}
+
+export interface EnqueueMessageInput {
+  conversationSid: string;
+  author: string;
+  from?: string;
+  partDelayMs?: number; // overrides the default pause between parts
+}
+
+type OutboxListener = (entries: OutboxEntry[]) => void;
+type SentListener = (entry: OutboxEntry) => void;
+
+const generateId = (): string => {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+export class MessageOutbox {
+  private config: OutboxConfig = {
+    maxAttempts: 5,
+    baseRetryDelay: 2000,
+    maxRetryDelay: 60000,
+    partDelay: 2000,
+    sentRetention: 10 * 60 * 1000,
+  };
+
+  private entries = new Map<string, OutboxEntry>();
+  private listeners = new Set<OutboxListener>();
+  private sentListeners = new Set<SentListener>();
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+  private userId: string | null = null;
+  private authToken: string | null = null;
+  private retryTimer: number | null = null;
+  private pruneTimer: number | null = null;
+  private processing = false;
+  private lastSend: { batchId: string; at: number } | null = null;
+
+  // Load the user's persisted queue and start sending
+  async start(userId: string, authToken: string): Promise<void> {
+    if (this.userId === userId) {
+      this.authToken = authToken;
+      this.processQueue();
+      return;
+    }
+
+    this.stop();
+    this.userId = userId;
+    this.authToken = authToken;
+
+    window.addEventListener('online', this.handleOnline);
+    twilioClientManager.on('connectionStateChanged', this.handleConnectionStateChanged);
+
+    const persisted = await this.loadPersisted(userId);
+    if (this.userId !== userId) return; // stopped while loading
+
+    const now = Date.now();
+    for (const entry of persisted) {
+      if (entry.status === 'sent' && entry.sentAt && now - entry.sentAt > this.config.sentRetention) {
+        this.deletePersisted(entry.id);
+        continue;
+      }
+
+      // The tab closed mid-send; the idempotency key makes sending again safe
+      const restored: OutboxEntry = entry.status === 'sending'
+        ? { ...entry, status: 'queued', nextAttemptAt: null }
+        : entry;
+      this.entries.set(restored.id, restored);
+    }
+
+    console.log(`📮 Outbox loaded ${this.entries.size} message(s) for user ${userId}`);
+    this.notify();
+    this.schedulePrune();
+    this.processQueue();
+  }
+
+  // Stop sending; persisted entries stay in IndexedDB for the next session
+  stop(): void {
+    window.removeEventListener('online', this.handleOnline);
+    twilioClientManager.off('connectionStateChanged', this.handleConnectionStateChanged);
+    this.clearRetryTimer();
+    this.clearPruneTimer();
+
+    this.userId = null;
+    this.authToken = null;
+    this.entries.clear();
+    this.notify();
+  }
+
+  // Keep the backend JWT in sync after a session refresh
+  updateAuthToken(authToken: string): void {
+    if (this.userId) {
+      this.authToken = authToken;
+    }
+  }
+
+  // Queue a message, split into parts by the caller, and send it as soon as possible
+  async enqueue(parts: string[], input: EnqueueMessageInput): Promise<OutboxEntry[]> {
+    if (!this.userId) {
+      throw new Error('Outbox is not started');
+    }
+
+    const batchId = generateId();
+    const createdAt = Date.now();
+    const queued = parts.map((body, i): OutboxEntry => ({
+      id: generateId(),
+      userId: this.userId!,
+      conversationSid: input.conversationSid,
+      body,
+      author: input.author,
+      from: input.from,
+      status: 'queued',
+      attempts: 0,
+      nextAttemptAt: null,
+      lastError: null,
+      createdAt: createdAt + i, // keeps parts in order
+      sentAt: null,
+      messageSid: null,
+      batchId,
+      part: i + 1,
+      parts: parts.length,
+      partDelayMs: input.partDelayMs,
+    }));
+
+    for (const entry of queued) {
+      await this.save(entry);
+    }
+
+    console.log(`📮 Queued ${queued.length} message part(s) for ${input.conversationSid}`);
+    this.processQueue();
+    return queued;
+  }
+
+  // Manually retry a failed message
+  async resend(id: string): Promise<void> {
+    const entry = this.entries.get(id);
+    if (!entry || entry.status !== 'failed') return;
+
+    await this.save({ ...entry, status: 'queued', attempts: 0, nextAttemptAt: null, lastError: null });
+    this.processQueue();
+  }
+
+  // Drop a queued or failed message without sending it
+  async discard(id: string): Promise<void> {
+    const entry = this.entries.get(id);
+    if (!entry || entry.status === 'sending') return;
+
+    this.entries.delete(id);
+    await this.deletePersisted(id);
+    this.notify();
+  }
+
+  getEntries(conversationSid?: string): OutboxEntry[] {
+    const entries = Array.from(this.entries.values()).sort((a, b) => a.createdAt - b.createdAt);
+    return conversationSid ? entries.filter(entry => entry.conversationSid === conversationSid) : entries;
+  }
+
+  subscribe(listener: OutboxListener): () => void {
+    this.listeners.add(listener);
+    listener(this.getEntries());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Fires once per message confirmed by the backend
+  onMessageSent(listener: SentListener): () => void {
+    this.sentListeners.add(listener);
+    return () => {
+      this.sentListeners.delete(listener);
+    };
+  }
+
+  private handleOnline = () => {
+    console.log('🌐 Back online, retrying outbox');
+    this.retryNow();
+  };
+
+  private handleConnectionStateChanged = (state: string) => {
+    if (state === 'connected') {
+      this.retryNow();
+    }
+  };
+
+  // Connection restored: skip the remaining backoff of queued messages
+  private retryNow(): void {
+    for (const entry of this.entries.values()) {
+      if (entry.status === 'queued' && entry.nextAttemptAt) {
+        this.entries.set(entry.id, { ...entry, nextAttemptAt: null });
+      }
+    }
+    this.processQueue();
+  }
+
+  private nextDueEntry(): OutboxEntry | null {
+    const pending = this.getEntries().filter(entry => entry.status !== 'sent');
+
+    // A message waits for every older unsent message to the same conversation (including
+    // failed ones and those in retry backoff), so messages are never delivered out of order
+    const blockedConversations = new Set<string>();
+    for (const entry of pending) {
+      if (blockedConversations.has(entry.conversationSid)) continue;
+      if (entry.status === 'queued' && (!entry.nextAttemptAt || entry.nextAttemptAt <= Date.now())) {
+        return entry;
+      }
+      blockedConversations.add(entry.conversationSid);
+    }
+    return null;
+  }
+
+  private async processQueue(): Promise<void> {
+    if (this.processing || !this.userId) return;
+
+    this.processing = true;
+    this.clearRetryTimer();
+
+    try {
+      let entry = this.nextDueEntry();
+      while (entry && this.userId) {
+        const gap = this.lastSend?.batchId === entry.batchId
+          ? this.lastSend.at + (entry.partDelayMs ?? this.config.partDelay) - Date.now()
+          : 0;
+        if (gap > 0) {
+          await new Promise(resolve => setTimeout(resolve, gap));
+
+          // The part may have been discarded, or the outbox stopped, during the pause
+          const current = this.entries.get(entry.id);
+          if (!current || current.status !== 'queued') {
+            entry = this.nextDueEntry();
+            continue;
+          }
+          entry = current;
+        }
+
+        await this.send(entry);
+        entry = this.nextDueEntry();
+      }
+    } finally {
+      this.processing = false;
+      this.scheduleRetry();
+    }
+  }
+
+  private async send(entry: OutboxEntry): Promise<void> {
+    // Without a session the entry would be picked again right away; the user can resend it
+    if (!this.authToken) {
+      await this.save({ ...entry, status: 'failed', nextAttemptAt: null, lastError: 'Not signed in' });
+      return;
+    }
+
+    const attempt = entry.attempts + 1;
+    await this.save({ ...entry, status: 'sending', attempts: attempt });
+    this.lastSend = { batchId: entry.batchId, at: Date.now() };
+
+    try {
+      console.log(`📤 Outbox sending ${entry.id} (part ${entry.part}/${entry.parts}, attempt ${attempt})`);
+      const response = await apiService.sendExternalMessage(
+        entry.conversationSid,
+        entry.body,
+        entry.author,
+        this.authToken,
+        entry.from,
+        { idempotencyKey: entry.id }
+      );
+
+      if (!this.entries.has(entry.id)) return; // stopped while sending
+
+      const sent: OutboxEntry = {
+        ...entry,
+        status: 'sent',
+        attempts: attempt,
+        nextAttemptAt: null,
+        lastError: null,
+        sentAt: Date.now(),
+        messageSid: response.data?.sid || null,
+      };
+      await this.save(sent);
+      this.schedulePrune();
+
+      if (response.duplicate) {
+        console.log(`♻️ Backend already had outbox message ${entry.id}`);
+      }
+      this.emitSent(sent);
+    } catch (error) {
+      if (!this.entries.has(entry.id)) return;
+
+      const message = error instanceof Error ? error.message : 'Failed to send message';
+      const giveUp = attempt >= this.config.maxAttempts || !isRetryableError(error);
+
+      console.error(`❌ Outbox send failed (attempt ${attempt}/${this.config.maxAttempts}):`, error);
+      await this.save({
+        ...entry,
+        status: giveUp ? 'failed' : 'queued',
+        attempts: attempt,
+        nextAttemptAt: giveUp ? null : Date.now() + this.getRetryDelay(attempt),
+        lastError: message,
+      });
+    }
+  }
+
+  // Exponential backoff with jitter so many tabs don't retry in lockstep
+  private getRetryDelay(attempt: number): number {
+    const delay = Math.min(this.config.baseRetryDelay * Math.pow(2, attempt - 1), this.config.maxRetryDelay);
+    return Math.round(delay * (0.8 + Math.random() * 0.4));
+  }
+
+  private scheduleRetry(): void {
+    this.clearRetryTimer();
+    if (!this.userId) return;
+
+    const retryTimes = this.getEntries()
+      .filter(entry => entry.status === 'queued' && entry.nextAttemptAt)
+      .map(entry => entry.nextAttemptAt!);
+
+    if (retryTimes.length === 0) return;
+
+    const delay = Math.max(0, Math.min(...retryTimes) - Date.now());
+    this.retryTimer = window.setTimeout(() => {
+      this.retryTimer = null;
+      this.processQueue();
+    }, delay);
+  }
+
+  private clearRetryTimer(): void {
+    if (this.retryTimer !== null) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  // Drop sent entries once sentRetention has passed, so the outbox does not grow all session
+  private schedulePrune(): void {
+    this.clearPruneTimer();
+    if (!this.userId) return;
+
+    const expiryTimes = this.getEntries()
+      .filter(entry => entry.status === 'sent' && entry.sentAt)
+      .map(entry => entry.sentAt! + this.config.sentRetention);
+
+    if (expiryTimes.length === 0) return;
+
+    const delay = Math.max(0, Math.min(...expiryTimes) - Date.now());
+    this.pruneTimer = window.setTimeout(() => {
+      this.pruneTimer = null;
+      this.pruneSent();
+    }, delay);
+  }
+
+  private pruneSent(): void {
+    const now = Date.now();
+    const expired = this.getEntries()
+      .filter(entry => entry.status === 'sent' && entry.sentAt && now - entry.sentAt >= this.config.sentRetention);
+
+    expired.forEach(entry => {
+      this.entries.delete(entry.id);
+      this.deletePersisted(entry.id);
+    });
+
+    if (expired.length > 0) {
+      this.notify();
+    }
+    this.schedulePrune();
+  }
+
+  private clearPruneTimer(): void {
+    if (this.pruneTimer !== null) {
+      clearTimeout(this.pruneTimer);
+      this.pruneTimer = null;
+    }
+  }
+
+  private emitSent(entry: OutboxEntry): void {
+    this.sentListeners.forEach(listener => {
+      try {
+        listener(entry);
+      } catch (error) {
+        console.error('❌ Error in outbox sent listener:', error);
+      }
+    });
+  }
+
+  private notify(): void {
+    const entries = this.getEntries();
+    this.listeners.forEach(listener => {
+      try {
+        listener(entries);
+      } catch (error) {
+        console.error('❌ Error in outbox listener:', error);
+      }
+    });
+  }
+
+  private async save(entry: OutboxEntry): Promise<void> {
+    // A send that settles after logout is still persisted, but not shown
+    if (entry.userId === this.userId) {
+      this.entries.set(entry.id, entry);
+      this.notify();
+    }
+
+    try {
+      const db = await this.openDatabase();
+      if (!db) return;
+      const tx = db.transaction(STORE_NAME, 'readwrite');
+      await requestToPromise(tx.objectStore(STORE_NAME).put(entry));
+    } catch (error) {
+      console.warn('⚠️ Failed to persist outbox entry:', error);
+    }
+  }
+
+  private async deletePersisted(id: string): Promise<void> {
+    try {
+      const db = await this.openDatabase();
+      if (!db) return;
+      const tx = db.transaction(STORE_NAME, 'readwrite');
+      await requestToPromise(tx.objectStore(STORE_NAME).delete(id));
+    } catch (error) {
+      console.warn('⚠️ Failed to delete outbox entry:', error);
+    }
+  }
+
+  private async loadPersisted(userId: string): Promise<OutboxEntry[]> {
+    try {
+      const db = await this.openDatabase();
+      if (!db) return [];
+      const tx = db.transaction(STORE_NAME, 'readonly');
+      const index = tx.objectStore(STORE_NAME).index('userId');
+      return await requestToPromise(index.getAll(userId)) as OutboxEntry[];
+    } catch (error) {
+      console.warn('⚠️ Failed to load outbox:', error);
+      return [];
+    }
+  }
+
+  // Falls back to an in-memory queue when IndexedDB is unavailable (e.g. private browsing)
+  private openDatabase(): Promise<IDBDatabase | null> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise(resolve => {
+        if (typeof indexedDB === 'undefined') {
+          console.warn('⚠️ IndexedDB unavailable, outbox will not survive a reload');
+          resolve(null);
+          return;
+        }
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+          store.createIndex('userId', 'userId', { unique: false });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          console.warn('⚠️ Failed to open outbox database:', request.error);
+          resolve(null);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+}
+
+// Export singleton instance
+export const messageOutbox = new MessageOutbox();
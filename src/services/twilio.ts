@@ -1,3 +1,4 @@
+import type { Conversation, Message } from '@twilio/conversations';
 import { apiService } from './api';
 import { twilioClientManager } from './twilioClient';
 import { twilioConversationManager } from './twilioConversations';
@@ -5,11 +6,26 @@ import { twilioMessageManager } from './twilioMessages';
 import { twilioEventManager } from './twilioEvents';
 import { twilioPollingManager } from './twilioPolling';
 import { isBotUser, getDebugInfo } from './twilioUtils';
-import type { TwilioConversation, TwilioMessage, User } from '../types';
+import type { PollingStatus, TwilioConversation, TwilioDebugInfo, TwilioMessage, TwilioTokenRenewalInfo, User } from '../types';
 
 class TwilioService {
   private token: string | null = null;
   private identity: string | null = null;
+  private authToken: string | null = null;
+  private renewalInFlight: Promise<void> | null = null;
+  private tokenRenewal: TwilioTokenRenewalInfo = {
+    isRenewing: false,
+    renewalCount: 0,
+    lastRenewedAt: null,
+    lastTrigger: null,
+    lastError: null,
+  };
+
+  constructor() {
+    // Renew the access token before Twilio drops the connection
+    twilioClientManager.on('tokenAboutToExpire', () => this.renewToken('tokenAboutToExpire'));
+    twilioClientManager.on('tokenExpired', () => this.renewToken('tokenExpired'));
+  }
 
   // Initialize Twilio service
   async initialize(authToken: string, userIdentity?: string): Promise<void> {
@@ -22,6 +38,7 @@ class TwilioService {
       
       this.token = twilioToken;
       this.identity = identity;
+      this.authToken = authToken;
 
       // Initialize client
       await twilioClientManager.initialize(twilioToken, identity);
@@ -54,10 +71,65 @@ class TwilioService {
     
     this.token = null;
     this.identity = null;
+    this.authToken = null;
     
     console.log('✅ Twilio service disconnected');
   }
 
+  // Keep the backend JWT used for token renewal in sync after a session refresh
+  updateAuthToken(authToken: string): void {
+    if (this.identity) {
+      this.authToken = authToken;
+    }
+  }
+
+  // Fetch a new Twilio access token and hand it to the live client
+  async renewToken(trigger: 'tokenAboutToExpire' | 'tokenExpired'): Promise<void> {
+    if (!this.authToken || !this.identity) {
+      console.warn(`⚠️ Cannot renew Twilio token (${trigger}): service not initialized`);
+      return;
+    }
+
+    // tokenAboutToExpire and tokenExpired can fire back to back; renew only once
+    if (this.renewalInFlight) {
+      return this.renewalInFlight;
+    }
+
+    const identity = this.identity;
+    const authToken = this.authToken;
+
+    this.renewalInFlight = (async () => {
+      console.log(`🎫 Renewing Twilio token (${trigger})...`);
+      this.tokenRenewal = { ...this.tokenRenewal, isRenewing: true, lastTrigger: trigger };
+
+      try {
+        const twilioToken = await apiService.getTwilioToken(identity, authToken);
+        await twilioClientManager.updateToken(twilioToken);
+
+        this.token = twilioToken;
+        this.tokenRenewal = {
+          ...this.tokenRenewal,
+          renewalCount: this.tokenRenewal.renewalCount + 1,
+          lastRenewedAt: new Date(),
+          lastError: null,
+        };
+        console.log('✅ Twilio token renewed successfully');
+      } catch (error) {
+        // A failed early renewal is retried when Twilio fires tokenExpired
+        console.error('❌ Failed to renew Twilio token:', error);
+        this.tokenRenewal = {
+          ...this.tokenRenewal,
+          lastError: error instanceof Error ? error.message : 'Unknown error',
+        };
+      } finally {
+        this.tokenRenewal = { ...this.tokenRenewal, isRenewing: false };
+        this.renewalInFlight = null;
+      }
+    })();
+
+    return this.renewalInFlight;
+  }
+
   // Get connection state
   getConnectionState(): string {
     return twilioClientManager.getConnectionState();
@@ -78,6 +150,15 @@ class TwilioService {
     return twilioConversationManager.getConversation(conversationSid);
   }
 
+  // Convert raw SDK objects (e.g. from event payloads) to our format
+  toConversation(twilioConversation: Conversation): TwilioConversation {
+    return twilioConversationManager.transformConversation(twilioConversation);
+  }
+
+  toMessage(twilioMessage: Message): TwilioMessage {
+    return twilioMessageManager.transformMessage(twilioMessage);
+  }
+
   // Get messages for a conversation
   async getMessages(conversationOrSid: any): Promise<TwilioMessage[]> {
     let conversationSid: string;
@@ -114,6 +195,20 @@ class TwilioService {
     twilioPollingManager.triggerPoll();
   }
 
+  // Run a delta sync on every poll instead of refetching all conversations
+  setSyncHandler(handler: (() => Promise<void>) | null): void {
+    twilioPollingManager.setSyncHandler(handler);
+  }
+
+  // Current polling cadence and the reason behind it
+  getPollingStatus(): PollingStatus {
+    return twilioPollingManager.getStatus();
+  }
+
+  onPollingStatusChange(listener: (status: PollingStatus) => void): () => void {
+    return twilioPollingManager.onStatusChange(listener);
+  }
+
   // Event system
   on(event: string, handler: Function): void {
     twilioEventManager.on(event as any, handler);
@@ -124,15 +219,23 @@ class TwilioService {
   }
 
   // Get debug information
-  getDebugInfo(): any {
+  getDebugInfo(): TwilioDebugInfo {
+    const polling = twilioPollingManager.getStatus();
+
     return {
       ...getDebugInfo(),
       hasClient: !!twilioClientManager.getClient(),
+      hasToken: !!this.token,
       connectionState: twilioClientManager.getConnectionState(),
       userIdentity: twilioClientManager.getIdentity() || 'unknown',
       isInitializing: twilioClientManager.isInitializing(),
-      pollingActive: twilioPollingManager.isPolling(),
-      pollCount: twilioPollingManager.getPollCount(),
+      pollingActive: polling.isActive,
+      pollingInterval: twilioPollingManager.getCurrentInterval(),
+      pollCount: polling.pollCount,
+      nextPollInSeconds: polling.nextPollInSeconds,
+      elapsedSeconds: polling.elapsedSeconds,
+      polling,
+      tokenRenewal: { ...this.tokenRenewal },
     };
   }
 }
@@ -46,6 +46,11 @@ class TwilioClientManager {
         this.emit('connectionStateChanged', state);
       });
 
+      client.on('tokenAboutToExpire', () => {
+        console.log('⏰ Twilio token about to expire');
+        this.emit('tokenAboutToExpire');
+      });
+
       client.on('tokenExpired', () => {
         console.log('🎫 Twilio token expired');
         this.emit('tokenExpired');
@@ -90,6 +95,17 @@ class TwilioClientManager {
     console.log('✅ Twilio client disconnected');
   }
 
+  // Swap in a freshly minted access token without rebuilding the client
+  async updateToken(token: string): Promise<void> {
+    const client = this.connectionState.client;
+    if (!client) {
+      throw new Error('Twilio client not initialized');
+    }
+
+    await client.updateToken(token);
+    console.log('🎫 Twilio client token updated');
+  }
+
   getClient(): any | null {
     return this.connectionState.client;
   }
@@ -71,7 +71,7 @@ export class TwilioConversationManager {
   }
 
   // Transform Twilio conversation object to our format
-  private transformConversation = (twilioConv: any): TwilioConversation => {
+  transformConversation = (twilioConv: any): TwilioConversation => {
     return {
       sid: twilioConv.sid,
       uniqueName: twilioConv.uniqueName,
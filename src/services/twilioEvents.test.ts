@@ -0,0 +1,180 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { FakeTwilioClient, fakeMessage } from '../test/fakeTwilioClient';
+import { twilioClientManager } from './twilioClient';
+import { TwilioEventManager } from './twilioEvents';
+
+vi.mock('@twilio/conversations', async () => ({
+  Client: (await import('../test/fakeTwilioClient')).FakeTwilioClient,
+}));
+
+describe('twilioClientManager', () => {
+  beforeEach(() => {
+    FakeTwilioClient.reset();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    twilioClientManager.disconnect();
+    vi.restoreAllMocks();
+  });
+
+  it('creates a client with the access token and starts connecting', async () => {
+    const client = await twilioClientManager.initialize('token-1', 'maria@example.com');
+
+    expect(client).toBe(FakeTwilioClient.latest());
+    expect(FakeTwilioClient.latest().token).toBe('token-1');
+    expect(twilioClientManager.getConnectionState()).toBe('connecting');
+    expect(twilioClientManager.getIdentity()).toBe('maria@example.com');
+    expect(twilioClientManager.isConnected()).toBe(false);
+  });
+
+  it('tracks SDK connection state changes and notifies listeners', async () => {
+    const onState = vi.fn();
+    twilioClientManager.on('connectionStateChanged', onState);
+    await twilioClientManager.initialize('token-1');
+
+    FakeTwilioClient.latest().emit('connectionStateChanged', 'connected');
+
+    expect(onState).toHaveBeenCalledWith('connected');
+    expect(twilioClientManager.isConnected()).toBe(true);
+    twilioClientManager.off('connectionStateChanged', onState);
+  });
+
+  it('forwards token lifecycle events', async () => {
+    const aboutToExpire = vi.fn();
+    const expired = vi.fn();
+    twilioClientManager.on('tokenAboutToExpire', aboutToExpire);
+    twilioClientManager.on('tokenExpired', expired);
+    await twilioClientManager.initialize('token-1');
+
+    FakeTwilioClient.latest().emit('tokenAboutToExpire');
+    FakeTwilioClient.latest().emit('tokenExpired');
+
+    expect(aboutToExpire).toHaveBeenCalledTimes(1);
+    expect(expired).toHaveBeenCalledTimes(1);
+    twilioClientManager.off('tokenAboutToExpire', aboutToExpire);
+    twilioClientManager.off('tokenExpired', expired);
+  });
+
+  it('updates the token on the existing client', async () => {
+    await twilioClientManager.initialize('token-1');
+    await twilioClientManager.updateToken('token-2');
+
+    expect(FakeTwilioClient.instances).toHaveLength(1);
+    expect(FakeTwilioClient.latest().updateToken).toHaveBeenCalledWith('token-2');
+  });
+
+  it('refuses to update the token without a client', async () => {
+    await expect(twilioClientManager.updateToken('token-2')).rejects.toThrow('Twilio client not initialized');
+  });
+
+  it('drops the client and its listeners on disconnect', async () => {
+    await twilioClientManager.initialize('token-1');
+    const client = FakeTwilioClient.latest();
+
+    twilioClientManager.disconnect();
+
+    expect(client.listenerCount('connectionStateChanged')).toBe(0);
+    expect(twilioClientManager.getClient()).toBeNull();
+    expect(twilioClientManager.getConnectionState()).toBe('disconnected');
+  });
+});
+
+describe('TwilioEventManager', () => {
+  let events: TwilioEventManager;
+  let client: FakeTwilioClient;
+
+  beforeEach(async () => {
+    FakeTwilioClient.reset();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    await twilioClientManager.initialize('token-1');
+    client = FakeTwilioClient.latest();
+    events = new TwilioEventManager();
+  });
+
+  afterEach(() => {
+    twilioClientManager.disconnect();
+    vi.restoreAllMocks();
+  });
+
+  it('does nothing until a client exists', () => {
+    twilioClientManager.disconnect();
+    events.setupEventListeners();
+    expect(client.listenerCount('messageAdded')).toBe(0);
+  });
+
+  it('relays SDK events to app handlers', () => {
+    const onMessage = vi.fn();
+    const onConversation = vi.fn();
+    const onUpdated = vi.fn();
+    const onJoined = vi.fn();
+    const onLeft = vi.fn();
+    events.on('messageAdded', onMessage);
+    events.on('conversationAdded', onConversation);
+    events.on('conversationUpdated', onUpdated);
+    events.on('participantJoined', onJoined);
+    events.on('participantLeft', onLeft);
+    events.setupEventListeners();
+
+    const message = fakeMessage({ body: 'Hi there' });
+    const conversation = { sid: 'CH00000000000000000000000000000002' };
+    const participant = { identity: 'sam@example.com', conversation };
+    client.emit('messageAdded', message);
+    client.emit('conversationAdded', conversation);
+    client.emit('conversationUpdated', { conversation, updateReasons: ['lastMessage'] });
+    client.emit('participantJoined', participant);
+    client.emit('participantLeft', participant);
+
+    expect(onMessage).toHaveBeenCalledWith(message);
+    expect(onConversation).toHaveBeenCalledWith(conversation);
+    expect(onUpdated).toHaveBeenCalledTimes(1);
+    expect(onJoined).toHaveBeenCalledWith(participant);
+    expect(onLeft).toHaveBeenCalledWith(participant);
+  });
+
+  it('subscribes to the client only once', () => {
+    events.setupEventListeners();
+    events.setupEventListeners();
+    expect(client.listenerCount('messageAdded')).toBe(1);
+  });
+
+  it('stops calling a handler after off()', () => {
+    const handler = vi.fn();
+    events.on('messageAdded', handler);
+    events.setupEventListeners();
+
+    client.emit('messageAdded', fakeMessage());
+    events.off('messageAdded', handler);
+    client.emit('messageAdded', fakeMessage({ sid: 'IM00000000000000000000000000000002' }));
+
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps delivering to other handlers when one throws', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const failing = vi.fn(() => { throw new Error('boom'); });
+    const healthy = vi.fn();
+    events.on('messageAdded', failing);
+    events.on('messageAdded', healthy);
+    events.setupEventListeners();
+
+    client.emit('messageAdded', fakeMessage());
+
+    expect(healthy).toHaveBeenCalledTimes(1);
+    expect(console.error).toHaveBeenCalled();
+  });
+
+  it('keeps app handlers across a listener reset so a reconnect resumes delivery', () => {
+    const handler = vi.fn();
+    events.on('messageAdded', handler);
+    events.setupEventListeners();
+
+    events.removeEventListeners();
+    client.emit('messageAdded', fakeMessage());
+    expect(handler).not.toHaveBeenCalled();
+
+    events.setupEventListeners();
+    client.emit('messageAdded', fakeMessage());
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+});
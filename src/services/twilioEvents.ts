@@ -7,6 +7,7 @@ export type TwilioEventType =
   | 'conversationUpdated'
   | 'participantJoined'
   | 'participantLeft'
+  | 'tokenAboutToExpire'
   | 'tokenExpired';
 
 export class TwilioEventManager {
@@ -72,8 +73,9 @@ export class TwilioEventManager {
       client.removeAllListeners();
     }
     
+    // App-level handlers stay registered so views keep receiving events after a reconnect;
+    // they unsubscribe themselves with off()
     this.isListening = false;
-    this.eventHandlers.clear();
     console.log('✅ Twilio event listeners removed');
   }
 
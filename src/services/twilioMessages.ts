@@ -100,7 +100,7 @@ export class TwilioMessageManager {
   }
 
   // Transform Twilio message object to our format
-  private transformMessage = (twilioMessage: any): TwilioMessage => {
+  transformMessage = (twilioMessage: any): TwilioMessage => {
     return {
       sid: twilioMessage.sid,
       author: twilioMessage.author,
@@ -109,7 +109,7 @@ export class TwilioMessageManager {
       type: twilioMessage.type || 'text',
       index: twilioMessage.index || 0,
       participantSid: twilioMessage.participantSid,
-      conversationSid: twilioMessage.conversationSid,
+      conversationSid: twilioMessage.conversationSid || twilioMessage.conversation?.sid,
       attributes: twilioMessage.attributes || {},
       from: twilioMessage.attributes?.from || twilioMessage.author,
     };
@@ -0,0 +1,195 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { FakeTwilioClient, fakeMessage } from '../test/fakeTwilioClient';
+import { twilioClientManager } from './twilioClient';
+import { twilioEventManager } from './twilioEvents';
+import { TwilioPollingManager } from './twilioPolling';
+
+vi.mock('@twilio/conversations', async () => ({
+  Client: (await import('../test/fakeTwilioClient')).FakeTwilioClient,
+}));
+
+describe('TwilioPollingManager', () => {
+  let client: FakeTwilioClient;
+  let poller: TwilioPollingManager;
+  let sync: ReturnType<typeof vi.fn>;
+  let fakeDocument: EventTarget & { hidden: boolean };
+
+  const setHidden = (hidden: boolean) => {
+    fakeDocument.hidden = hidden;
+    fakeDocument.dispatchEvent(new Event('visibilitychange'));
+  };
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    fakeDocument = Object.assign(new EventTarget(), { hidden: false });
+    vi.stubGlobal('window', globalThis);
+    vi.stubGlobal('document', fakeDocument);
+
+    FakeTwilioClient.reset();
+    await twilioClientManager.initialize('token-1');
+    client = FakeTwilioClient.latest();
+    client.emit('connectionStateChanged', 'connected');
+    twilioEventManager.setupEventListeners();
+
+    sync = vi.fn().mockResolvedValue(undefined);
+    poller = new TwilioPollingManager();
+    poller.updateConfig({ jitterRatio: 0 });
+    poller.setSyncHandler(sync);
+  });
+
+  afterEach(() => {
+    poller.stopPolling();
+    twilioEventManager.removeEventListeners();
+    twilioClientManager.disconnect();
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('polls immediately and then at the steady interval', async () => {
+    poller.startPolling();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(sync).toHaveBeenCalledTimes(1);
+    expect(poller.getStatus()).toMatchObject({ isActive: true, mode: 'steady', currentIntervalMs: 10000 });
+
+    await vi.advanceTimersByTimeAsync(9999);
+    expect(sync).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(sync).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps scheduling after a failed sync', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    sync.mockRejectedValueOnce(new Error('network down'));
+
+    poller.startPolling();
+    await vi.advanceTimersByTimeAsync(10000);
+
+    expect(sync).toHaveBeenCalledTimes(2);
+    expect(poller.getPollCount()).toBe(2);
+  });
+
+  it('checks frequently without syncing while disconnected, then catches up on reconnect', async () => {
+    poller.startPolling();
+    await vi.advanceTimersByTimeAsync(0);
+
+    client.emit('connectionStateChanged', 'disconnected');
+    expect(poller.getStatus()).toMatchObject({ mode: 'disconnected', currentIntervalMs: 3000 });
+
+    await vi.advanceTimersByTimeAsync(6000);
+    expect(sync).toHaveBeenCalledTimes(1);
+
+    client.emit('connectionStateChanged', 'connected');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(sync).toHaveBeenCalledTimes(2);
+    expect(poller.getStatus().mode).toBe('recovering');
+
+    // Remaining recovery polls run at the fast interval before settling back to steady
+    await vi.advanceTimersByTimeAsync(3000);
+    await vi.advanceTimersByTimeAsync(3000);
+    expect(sync).toHaveBeenCalledTimes(4);
+    expect(poller.getStatus()).toMatchObject({ mode: 'steady', currentIntervalMs: 10000 });
+  });
+
+  it('backs off while realtime events are arriving', async () => {
+    poller.startPolling();
+    await vi.advanceTimersByTimeAsync(0);
+
+    client.emit('messageAdded', fakeMessage());
+    await vi.advanceTimersByTimeAsync(10000);
+
+    expect(poller.getStatus()).toMatchObject({ mode: 'backing_off', currentIntervalMs: 15000 });
+    expect(poller.getStatus().lastEventAt).not.toBeNull();
+
+    client.emit('messageAdded', fakeMessage());
+    await vi.advanceTimersByTimeAsync(15000);
+    expect(poller.getStatus().currentIntervalMs).toBe(22500);
+  });
+
+  it('returns to the steady interval once events go quiet', async () => {
+    poller.startPolling();
+    await vi.advanceTimersByTimeAsync(0);
+
+    client.emit('messageAdded', fakeMessage());
+    await vi.advanceTimersByTimeAsync(10000);
+    expect(poller.getStatus().mode).toBe('backing_off');
+
+    await vi.advanceTimersByTimeAsync(15000 + 22500);
+    expect(poller.getStatus()).toMatchObject({ mode: 'steady', currentIntervalMs: 10000 });
+  });
+
+  it('pauses while the tab is hidden and polls as soon as it is visible again', async () => {
+    poller.startPolling();
+    await vi.advanceTimersByTimeAsync(0);
+
+    setHidden(true);
+    expect(poller.getStatus()).toMatchObject({ mode: 'paused', currentIntervalMs: null });
+
+    await vi.advanceTimersByTimeAsync(60000);
+    expect(sync).toHaveBeenCalledTimes(1);
+
+    setHidden(false);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(sync).toHaveBeenCalledTimes(2);
+    expect(poller.getStatus().mode).toBe('steady');
+  });
+
+  it('starts paused when the tab is already hidden', async () => {
+    fakeDocument.hidden = true;
+    poller.startPolling();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(sync).not.toHaveBeenCalled();
+    expect(poller.getStatus().mode).toBe('paused');
+  });
+
+  it('runs a manual poll on demand', async () => {
+    poller.startPolling();
+    await vi.advanceTimersByTimeAsync(0);
+
+    poller.triggerPoll();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(sync).toHaveBeenCalledTimes(2);
+  });
+
+  it('reports status changes to subscribers', async () => {
+    const listener = vi.fn();
+    const unsubscribe = poller.onStatusChange(listener);
+    expect(listener).toHaveBeenLastCalledWith(expect.objectContaining({ mode: 'idle', isActive: false }));
+
+    poller.startPolling();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(listener).toHaveBeenLastCalledWith(expect.objectContaining({ mode: 'steady', isActive: true }));
+
+    unsubscribe();
+    listener.mockClear();
+    poller.triggerPoll();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('stops polling and ignores further events', async () => {
+    poller.startPolling();
+    await vi.advanceTimersByTimeAsync(0);
+
+    poller.stopPolling();
+    expect(poller.getStatus()).toMatchObject({ isActive: false, mode: 'idle', nextPollInSeconds: 0 });
+
+    client.emit('connectionStateChanged', 'disconnected');
+    client.emit('connectionStateChanged', 'connected');
+    setHidden(true);
+    setHidden(false);
+    await vi.advanceTimersByTimeAsync(60000);
+
+    expect(sync).toHaveBeenCalledTimes(1);
+    expect(poller.isPolling()).toBe(false);
+  });
+
+  it('does not start when disabled', () => {
+    poller.updateConfig({ enabled: false });
+    poller.startPolling();
+    expect(poller.isPolling()).toBe(false);
+  });
+});
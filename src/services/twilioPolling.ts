@@ -1,22 +1,97 @@
 import { twilioClientManager } from './twilioClient';
 import { twilioConversationManager } from './twilioConversations';
 import { twilioEventManager } from './twilioEvents';
+import type { PollingMode, PollingStatus } from '../types';
 
 export interface PollingConfig {
-  interval: number;
+  interval: number;          // Steady-state interval while connected and quiet
+  minInterval: number;       // Fast interval while disconnected or catching up after a reconnect
+  maxInterval: number;       // Ceiling when websocket events are flowing
+  backoffFactor: number;     // Growth per poll while events keep arriving
+  jitterRatio: number;       // ±fraction applied to every delay so tabs don't poll in lockstep
+  eventQuietPeriod: number;  // Events newer than this mean the websocket is doing the work
+  recoveryPolls: number;     // Fast polls to run after the connection comes back
   enabled: boolean;
 }
 
+type StatusListener = (status: PollingStatus) => void;
+type SyncHandler = () => Promise<void>;
+
+// Events that prove the websocket is delivering updates on its own
+const ACTIVITY_EVENTS = ['messageAdded', 'conversationAdded', 'conversationUpdated'] as const;
+
+const MODE_DESCRIPTIONS: Record<PollingMode, string> = {
+  idle: 'polling stopped',
+  steady: 'connected, no recent realtime events',
+  backing_off: 'realtime events arriving, backing off',
+  disconnected: 'connection lost, checking frequently',
+  recovering: 'reconnected, catching up',
+  paused: 'tab hidden, polling paused',
+};
+
 export class TwilioPollingManager {
-  private pollTimer: NodeJS.Timeout | null = null;
+  private pollTimer: number | null = null;
   private pollCount: number = 0;
+  private isActive: boolean = false;
+  private pollInFlight: boolean = false;
   private config: PollingConfig = {
     interval: 10000, // 10 seconds for faster message sync
+    minInterval: 3000,
+    maxInterval: 60000,
+    backoffFactor: 1.5,
+    jitterRatio: 0.2,
+    eventQuietPeriod: 30000,
+    recoveryPolls: 3,
     enabled: true
   };
 
+  private mode: PollingMode = 'idle';
+  private currentInterval: number = this.config.interval;
+  private recoveryPollsRemaining: number = 0;
+  private lastPollAt: number | null = null;
+  private nextPollAt: number | null = null;
+  private lastEventAt: number | null = null;
+  private lastConnectionState: string = 'unknown';
+  private statusListeners: Set<StatusListener> = new Set();
+  private syncHandler: SyncHandler | null = null;
+
+  private handleActivity = () => {
+    this.lastEventAt = Date.now();
+  };
+
+  private handleConnectionStateChanged = (state: string) => {
+    const previousState = this.lastConnectionState;
+    this.lastConnectionState = state;
+
+    if (!this.isActive) return;
+
+    if (state !== 'connected') {
+      console.log(`📉 Connection ${state} - switching to fast polling`);
+      this.recoveryPollsRemaining = this.config.recoveryPolls;
+      this.currentInterval = this.config.minInterval;
+      this.schedule();
+    } else if (previousState !== 'connected') {
+      // Anything sent while we were offline only shows up through a poll
+      console.log('📈 Connection restored - polling immediately to catch up');
+      this.pollNow();
+    }
+  };
+
+  private handleVisibilityChange = () => {
+    if (!this.isActive) return;
+
+    if (document.hidden) {
+      console.log('🙈 Tab hidden - pausing polling');
+      this.clearTimer();
+      this.setMode('paused', null);
+    } else {
+      console.log('👀 Tab visible - resuming polling');
+      this.pollNow();
+    }
+  };
+
   startPolling(): void {
-    if (this.pollTimer) {
+    if (this.isActive) {
       console.log('⚠️ Polling already active');
       return;
     }
@@ -26,72 +101,231 @@ export class TwilioPollingManager {
       return;
     }
 
-    console.log(`🔄 Starting polling every ${this.config.interval / 1000}s...`);
-    
+    console.log(`🔄 Starting adaptive polling (base ${this.config.interval / 1000}s)...`);
+
+    this.isActive = true;
+    this.currentInterval = this.config.interval;
+    this.lastConnectionState = twilioClientManager.getConnectionState();
+
+    twilioClientManager.on('connectionStateChanged', this.handleConnectionStateChanged);
+    ACTIVITY_EVENTS.forEach(event => twilioEventManager.on(event, this.handleActivity));
+    if (typeof document !== 'undefined') {
+      document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    }
+
+    if (typeof document !== 'undefined' && document.hidden) {
+      this.setMode('paused', null);
+      return;
+    }
+
     // Initial poll
-    this.executePoll();
-    
-    // Set up recurring polls
-    this.pollTimer = setInterval(() => {
-      this.executePoll();
-    }, this.config.interval);
+    this.pollNow();
   }
 
   stopPolling(): void {
-    if (this.pollTimer) {
-      console.log('⏹️ Stopping Twilio polling');
-      clearInterval(this.pollTimer);
-      this.pollTimer = null;
+    if (!this.isActive) return;
+
+    console.log('⏹️ Stopping Twilio polling');
+    this.isActive = false;
+    this.clearTimer();
+
+    twilioClientManager.off('connectionStateChanged', this.handleConnectionStateChanged);
+    ACTIVITY_EVENTS.forEach(event => twilioEventManager.off(event, this.handleActivity));
+    if (typeof document !== 'undefined') {
+      document.removeEventListener('visibilitychange', this.handleVisibilityChange);
     }
+
+    this.recoveryPollsRemaining = 0;
+    this.setMode('idle', null);
   }
 
   triggerPoll(): void {
     console.log('🔄 Manual poll triggered');
-    this.executePoll();
+    this.pollNow();
+  }
+
+  private pollNow(): void {
+    this.clearTimer();
+    this.executePoll().finally(() => this.schedule());
   }
 
   private async executePoll(): Promise<void> {
+    if (this.pollInFlight) return;
+
     try {
       const connectionState = twilioClientManager.getConnectionState();
-      
+      this.lastConnectionState = connectionState;
+
       if (connectionState !== 'connected') {
         console.log(`⚠️ Twilio client in bad state (${connectionState}) - skipping polling until connection improves`);
         return;
       }
 
+      this.pollInFlight = true;
       this.pollCount++;
-      const currentTime = new Date().toISOString();
-      const currentSecond = new Date().getSeconds();
-      
-      console.log(`🔍 Executing global polling logic [${currentTime}] (second: ${currentSecond})`);
-
-      // Refresh conversations to detect new ones
-      await twilioConversationManager.getConversations();
-      
+      this.lastPollAt = Date.now();
+
+      console.log(`🔍 Executing poll ${this.pollCount} [${new Date(this.lastPollAt).toISOString()}] (${this.mode})`);
+
+      if (this.syncHandler) {
+        // Delta sync through the backend; only changed conversations and new messages come back
+        await this.syncHandler();
+      } else {
+        // Refresh conversations to detect new ones
+        await twilioConversationManager.getConversations();
+      }
+
+      if (this.recoveryPollsRemaining > 0) {
+        this.recoveryPollsRemaining--;
+      }
+
       console.log(`✅ Poll ${this.pollCount} completed successfully`);
-      
+
     } catch (error) {
       console.error(`❌ Poll ${this.pollCount} failed:`, error);
+    } finally {
+      this.pollInFlight = false;
     }
   }
 
+  // Decide how long to wait before the next poll, and why
+  private nextDelay(): { mode: PollingMode; delay: number } {
+    const now = Date.now();
+    const connected = twilioClientManager.getConnectionState() === 'connected';
+    const eventsFlowing = this.lastEventAt !== null && now - this.lastEventAt < this.config.eventQuietPeriod;
+
+    if (!connected) {
+      this.currentInterval = this.config.minInterval;
+      return { mode: 'disconnected', delay: this.config.minInterval };
+    }
+
+    if (this.recoveryPollsRemaining > 0) {
+      this.currentInterval = this.config.minInterval;
+      return { mode: 'recovering', delay: this.config.minInterval };
+    }
+
+    if (eventsFlowing) {
+      const start = Math.max(this.currentInterval, this.config.interval);
+      this.currentInterval = Math.min(start * this.config.backoffFactor, this.config.maxInterval);
+      return { mode: 'backing_off', delay: this.currentInterval };
+    }
+
+    this.currentInterval = this.config.interval;
+    return { mode: 'steady', delay: this.config.interval };
+  }
+
+  private withJitter(delay: number): number {
+    const spread = delay * this.config.jitterRatio;
+    return Math.round(delay - spread + Math.random() * spread * 2);
+  }
+
+  private schedule(): void {
+    if (!this.isActive) return;
+
+    this.clearTimer();
+
+    if (typeof document !== 'undefined' && document.hidden) {
+      this.setMode('paused', null);
+      return;
+    }
+
+    const { mode, delay } = this.nextDelay();
+    const jitteredDelay = this.withJitter(delay);
+
+    this.nextPollAt = Date.now() + jitteredDelay;
+    this.pollTimer = window.setTimeout(() => {
+      this.pollTimer = null;
+      this.pollNow();
+    }, jitteredDelay);
+
+    this.setMode(mode, jitteredDelay);
+  }
+
+  private clearTimer(): void {
+    if (this.pollTimer !== null) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = null;
+    }
+    this.nextPollAt = null;
+  }
+
+  private setMode(mode: PollingMode, delay: number | null): void {
+    if (mode !== this.mode) {
+      console.log(`⏱️ Polling mode: ${this.mode} → ${mode} (${MODE_DESCRIPTIONS[mode]})`);
+    }
+    this.mode = mode;
+
+    if (delay !== null) {
+      console.log(`⏱️ Next poll in ${(delay / 1000).toFixed(1)}s (${mode})`);
+    }
+
+    this.notifyStatus();
+  }
+
+  getStatus(): PollingStatus {
+    const now = Date.now();
+
+    return {
+      isActive: this.isActive,
+      pollCount: this.pollCount,
+      nextPollInSeconds: this.nextPollAt ? Math.max(0, Math.round((this.nextPollAt - now) / 1000)) : 0,
+      elapsedSeconds: this.lastPollAt ? Math.round((now - this.lastPollAt) / 1000) : 0,
+      hasInstance: !!twilioClientManager.getClient(),
+      timerId: this.pollTimer,
+      mode: this.mode,
+      reason: MODE_DESCRIPTIONS[this.mode],
+      currentIntervalMs: this.mode === 'paused' || this.mode === 'idle' ? null : this.currentInterval,
+      lastPollAt: this.lastPollAt ? new Date(this.lastPollAt) : null,
+      lastEventAt: this.lastEventAt ? new Date(this.lastEventAt) : null,
+      connectionState: this.lastConnectionState,
+    };
+  }
+
+  // Subscribe to polling decisions; returns an unsubscribe function
+  onStatusChange(listener: StatusListener): () => void {
+    this.statusListeners.add(listener);
+    listener(this.getStatus());
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  private notifyStatus(): void {
+    const status = this.getStatus();
+    this.statusListeners.forEach(listener => {
+      try {
+        listener(status);
+      } catch (error) {
+        console.error('❌ Error in polling status listener:', error);
+      }
+    });
+  }
+
+  // Let the view that owns conversation state decide what a poll fetches
+  setSyncHandler(handler: SyncHandler | null): void {
+    this.syncHandler = handler;
+  }
+
   isPolling(): boolean {
-    return !!this.pollTimer;
+    return this.isActive;
   }
 
   getPollCount(): number {
     return this.pollCount;
   }
 
+  getCurrentInterval(): number | null {
+    return this.isActive && this.mode !== 'paused' ? this.currentInterval : null;
+  }
+
   updateConfig(newConfig: Partial<PollingConfig>): void {
     this.config = { ...this.config, ...newConfig };
-    
-    if (this.pollTimer && newConfig.interval) {
-      // Restart polling with new interval
-      this.stopPolling();
-      this.startPolling();
+
+    if (this.isActive) {
+      // Re-plan the next poll with the new settings
+      this.schedule();
     }
   }
 }
 
-export const twilioPollingManager = new TwilioPollingManager();
\ No newline at end of file
+export const twilioPollingManager = new TwilioPollingManager();
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import {
+  isBotUser,
+  isBotIdentity,
+  validateConversationSid,
+  validateMessageSid,
+  sanitizeMessage,
+} from './twilioUtils';
+import type { User } from '../types';
+
+const user = (overrides: Partial<User> = {}): User => ({
+  id: '1',
+  email: 'maria@example.com',
+  name: 'Maria Lopez',
+  role: 'expert',
+  ...overrides,
+});
+
+describe('isBotIdentity', () => {
+  it.each([
+    'bot',
+    'System',
+    'support_bot_42',
+    'make.com-scenario',
+    'webhook-relay',
+    'AUTOMATED-sender',
+    'api-user@example.com',
+  ])('treats %s as a bot', identity => {
+    expect(isBotIdentity(identity)).toBe(true);
+  });
+
+  it.each(['maria@example.com', 'John Smith', ''])('treats %j as a person', identity => {
+    expect(isBotIdentity(identity)).toBe(false);
+  });
+
+  it('matches keywords anywhere in the identity', () => {
+    // Substring matching is deliberately loose; names containing a keyword count as bots
+    expect(isBotIdentity('Robotics Team')).toBe(true);
+  });
+});
+
+describe('isBotUser', () => {
+  it('returns false without a user', () => {
+    expect(isBotUser(null)).toBe(false);
+  });
+
+  it('recognises the bot role', () => {
+    expect(isBotUser(user({ role: 'bot' }))).toBe(true);
+  });
+
+  it('recognises bot-like emails and names', () => {
+    expect(isBotUser(user({ email: 'support_bot_1@example.com' }))).toBe(true);
+    expect(isBotUser(user({ name: 'Automated Sender' }))).toBe(true);
+  });
+
+  it('does not flag regular experts and admins', () => {
+    expect(isBotUser(user())).toBe(false);
+    expect(isBotUser(user({ role: 'admin', email: 'lead@example.com', name: 'Team Lead' }))).toBe(false);
+  });
+});
+
+describe('validateConversationSid', () => {
+  it('accepts CH followed by 32 hex characters in any case', () => {
+    expect(validateConversationSid('CH0123456789abcdef0123456789abcdef')).toBe(true);
+    expect(validateConversationSid('ch0123456789ABCDEF0123456789ABCDEF')).toBe(true);
+  });
+
+  it.each([
+    '',
+    'CH123',
+    'IM0123456789abcdef0123456789abcdef',
+    'CH0123456789abcdef0123456789abcdeg',
+    'CH0123456789abcdef0123456789abcdef0',
+  ])('rejects %j', sid => {
+    expect(validateConversationSid(sid)).toBe(false);
+  });
+
+  it('rejects non-string input', () => {
+    expect(validateConversationSid(undefined as unknown as string)).toBe(false);
+    expect(validateConversationSid(42 as unknown as string)).toBe(false);
+  });
+});
+
+describe('validateMessageSid', () => {
+  it('accepts IM followed by 32 hex characters', () => {
+    expect(validateMessageSid('IM0123456789abcdef0123456789abcdef')).toBe(true);
+  });
+
+  it.each(['', 'IM123', 'CH0123456789abcdef0123456789abcdef'])('rejects %j', sid => {
+    expect(validateMessageSid(sid)).toBe(false);
+  });
+});
+
+describe('sanitizeMessage', () => {
+  it('trims surrounding whitespace', () => {
+    expect(sanitizeMessage('  hello there \n')).toBe('hello there');
+  });
+
+  it('keeps inner whitespace and line breaks', () => {
+    expect(sanitizeMessage('line one\n\nline  two')).toBe('line one\n\nline  two');
+  });
+
+  it('limits messages to 4000 characters', () => {
+    expect(sanitizeMessage('a'.repeat(5000))).toHaveLength(4000);
+  });
+
+  it('returns an empty string for missing input', () => {
+    expect(sanitizeMessage('')).toBe('');
+    expect(sanitizeMessage(null as unknown as string)).toBe('');
+  });
+});
@@ -0,0 +1,87 @@
+import { vi } from 'vitest';
+import type { Conversation, Message } from '@twilio/conversations';
+
+type Listener = (...args: unknown[]) => void;
+
+// The subset of an SDK Message that our services read
+type FakeMessage = Pick<Message, 'sid' | 'author' | 'body' | 'dateCreated' | 'type' | 'index' | 'attributes'> & {
+  conversation: Pick<Conversation, 'sid'>;
+};
+
+/**
+ * In-memory stand-in for the @twilio/conversations Client.
+ * Tests drive it by emitting the SDK events the app listens to; nothing touches the network.
+ *
+ * Usage in a test file:
+ *   vi.mock('@twilio/conversations', async () => ({
+ *     Client: (await import('../test/fakeTwilioClient')).FakeTwilioClient,
+ *   }));
+ */
+export class FakeTwilioClient {
+  static instances: FakeTwilioClient[] = [];
+
+  token: string;
+  conversations: Conversation[] = [];
+  updateToken = vi.fn(async (token: string) => {
+    this.token = token;
+  });
+  getSubscribedConversations = vi.fn(async () => ({ items: this.conversations }));
+
+  private listeners = new Map<string, Listener[]>();
+
+  constructor(token: string) {
+    this.token = token;
+    FakeTwilioClient.instances.push(this);
+  }
+
+  static latest(): FakeTwilioClient {
+    const client = FakeTwilioClient.instances[FakeTwilioClient.instances.length - 1];
+    if (!client) {
+      throw new Error('No FakeTwilioClient has been created');
+    }
+    return client;
+  }
+
+  static reset(): void {
+    FakeTwilioClient.instances = [];
+  }
+
+  on(event: string, listener: Listener): this {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, []);
+    }
+    this.listeners.get(event)!.push(listener);
+    return this;
+  }
+
+  removeAllListeners(): this {
+    this.listeners.clear();
+    return this;
+  }
+
+  listenerCount(event: string): number {
+    return this.listeners.get(event)?.length ?? 0;
+  }
+
+  // Simulate the SDK firing an event
+  emit(event: string, ...args: unknown[]): void {
+    (this.listeners.get(event) ?? []).forEach(listener => listener(...args));
+  }
+}
+
+/**
+ * Build the subset of an SDK Message that our services read
+ */
+export function fakeMessage(overrides: Partial<FakeMessage> = {}): FakeMessage {
+  return {
+    sid: 'IM00000000000000000000000000000001',
+    author: 'traveler@example.com',
+    body: 'Hello',
+    dateCreated: new Date('2025-09-01T10:00:00Z'),
+    type: 'text',
+    index: 0,
+    attributes: {},
+    conversation: { sid: 'CH00000000000000000000000000000001' },
+    ...overrides,
+  };
+}
@@ -1,8 +1,36 @@
+export type UserRole = 'admin' | 'supervisor' | 'auditor' | 'expert' | 'bot';
+
+// Named permissions granted through roles; mirrors backend/utils/permissions.js
+export type Permission =
+  | 'conversation.viewAll'
+  | 'conversation.viewAssigned'
+  | 'message.send'
+  | 'inquiry.viewAll'
+  | 'inquiry.create'
+  | 'inquiry.accept'
+  | 'inquiry.updateStatus'
+  | 'inquiry.delete'
+  | 'inquiry.reassign'
+  | 'bot.view'
+  | 'bot.toggle'
+  | 'traveler.dm.view'
+  | 'traveler.dm.send'
+  | 'traveler.message.send'
+  | 'system.webhooks.view'
+  | 'user.invite'
+  | 'user.manage'
+  | 'user.sessions.manage'
+  | 'audit.view';
+
 export interface User {
   id: string;
   email: string;
   name: string;
-  role: 'expert' | 'admin' | 'bot';
+  role: UserRole;
+  emailVerified?: boolean; // Sent by the backend; older stored sessions may lack it
+  twoFactorEnabled?: boolean;
+  twoFactorSetupRequired?: boolean; // The 2FA policy covers this role and the user has not enrolled yet
+  permissions?: Permission[]; // Sent by the backend; older stored sessions may lack it
 }
 
 export interface AuthState {
@@ -11,6 +39,12 @@ export interface AuthState {
   isAuthenticated: boolean;
   isLoading: boolean;
   error: string | null;
+  twoFactorChallenge: TwoFactorChallenge | null; // Password accepted, waiting for the second step
+}
+
+export interface TwoFactorChallenge {
+  challengeToken: string;
+  email: string;
 }
 
 export interface TwilioConversation {
@@ -23,6 +57,8 @@ export interface TwilioConversation {
   lastMessage?: TwilioMessage;
   state?: string;
   attributes?: Record<string, any>;
+  conversationType?: ConversationType;
+  participantCount?: number;
 }
 
 export interface TwilioParticipant {
@@ -49,6 +85,64 @@ export interface TwilioMessage {
   from?: string; // Extracted from attributes for convenience
 }
 
+export type InquiryStatus =
+  | 'new'
+  | 'assigned'
+  | 'accepted'
+  | 'in_progress'
+  | 'waiting_on_traveler'
+  | 'resolved'
+  | 'closed'
+  | 'reopened';
+
+// Who or what moved an inquiry to a status
+export type InquiryStatusChangeSource = 'user' | 'webhook' | 'system' | 'migration';
+
+export interface InquiryStatusChange {
+  id: string;
+  fromStatus: InquiryStatus | null;
+  toStatus: InquiryStatus;
+  source: InquiryStatusChangeSource;
+  note: string | null;
+  changedBy: { id: string | null; name: string } | null;
+  createdAt: string;
+}
+
+export interface InquiryStatusHistory {
+  inquiryId: string;
+  status: InquiryStatus;
+  allowedTransitions: InquiryStatus[];
+  reassignable: boolean;
+  assignedExpert: ExpertSummary | null;
+  history: InquiryStatusChange[]; // oldest first
+}
+
+export interface InquiryStatusHistoryResponse {
+  data: InquiryStatusHistory;
+}
+
+// Internal note left for the expert an inquiry was reassigned to
+export interface InquiryHandoff {
+  note: string;
+  fromExpertName: string | null;
+  createdByName: string | null;
+  createdAt: string;
+}
+
+export interface ReassignInquiryRequest {
+  expertId: string;
+  note: string;
+}
+
+export interface ReassignInquiryResponse {
+  message: string;
+  data: InquiryRecord;
+  twilio: {
+    previousExpertRemoved: boolean | null; // null when there was nobody to remove
+    attributesUpdated: boolean | null;
+  };
+}
+
 export interface Inquiry {
   id: string;
   customerName: string;
@@ -58,7 +152,7 @@ export interface Inquiry {
   conversationSid?: string;
   assignedExpert?: string;
   assignedExpertId?: string;
-  status: 'new' | 'assigned' | 'in_progress' | 'resolved';
+  status: InquiryStatus;
   createdAt: Date;
   updatedAt?: Date;
 }
@@ -76,7 +170,91 @@ export interface CreateInquiryRequest {
   customerEmail: string;
   customerPhone?: string;
   message: string;
-  assignedExpertId: string;
+  assignedExpertId?: string; // omit to let the assignment engine pick
+  assignmentStrategy?: string;
+  skills?: string[];
+  region?: string;
+}
+
+// Bulk import: one spreadsheet row mapped onto CreateInquiryRequest fields
+export interface InquiryImportRow {
+  row: number; // spreadsheet row number, for the report
+  customerName: string;
+  customerEmail: string;
+  customerPhone?: string;
+  message: string;
+  skills?: string[];
+  region?: string;
+}
+
+export interface InquiryImportRequest {
+  rows: InquiryImportRow[];
+  dryRun: boolean;
+  assignmentStrategy?: string; // empty: the server default
+}
+
+// ready: would be created by a real import
+export type InquiryImportRowStatus = 'ready' | 'created' | 'invalid' | 'duplicate' | 'failed';
+
+export interface InquiryImportResult {
+  row: number;
+  status: InquiryImportRowStatus;
+  errors: string[];
+  duplicateOf?: string; // open inquiry with the same email or phone
+  inquiryId?: string;
+  conversationSid?: string;
+  expertName?: string;
+}
+
+export interface InquiryImportResponse {
+  data: {
+    dryRun: boolean;
+    results: InquiryImportResult[];
+  };
+}
+
+export interface AssignmentStrategyOption {
+  name: string;
+  label: string;
+  description: string;
+}
+
+// An active expert as ranked by the assignment engine
+export interface AssignmentCandidate {
+  id: string;
+  name: string;
+  email: string;
+  skills: string[];
+  regions: string[];
+  openInquiries: number;
+  lastAssignedAt: string | null;
+  matched: string[]; // Inquiry skills/region the expert is tagged with
+  availability: AvailabilityStatus;
+}
+
+export interface AssignmentPreviewRequest {
+  strategy?: string;
+  skills?: string[];
+  region?: string;
+}
+
+export interface AssignmentPreview {
+  strategy: string;
+  defaultStrategy: string;
+  strategies: AssignmentStrategyOption[];
+  expert: AssignmentCandidate | null; // null when no expert is active
+  reason: string | null;
+  candidates: AssignmentCandidate[]; // best first
+}
+
+export interface AssignmentPreviewResponse {
+  data: AssignmentPreview;
+}
+
+export interface InquiryAssignment {
+  automatic: boolean;
+  strategy: string | null;
+  reason: string | null;
 }
 
 export interface ApiResponse<T = any> {
@@ -92,6 +270,689 @@ export interface ApiResponse<T = any> {
   };
 }
 
+export type ConversationType = 'main_conversation' | 'expert_admin_dm' | 'admin_traveler_dm' | 'unknown';
+
+// API response payloads (dates arrive as ISO strings unless noted)
+export interface AuthResponse {
+  message: string;
+  user: User;
+  token: string;
+  refreshToken?: string;
+  recoveryCodesRemaining?: number; // Set when the login used a recovery code
+}
+
+export interface TwoFactorChallengeResponse {
+  message: string;
+  twoFactorRequired: true;
+  challengeToken: string;
+}
+
+export type LoginResponse = AuthResponse | TwoFactorChallengeResponse;
+
+// Second login step: one of the two codes
+export type TwoFactorCode = { code: string } | { recoveryCode: string };
+
+export interface TwoFactorStatusResponse {
+  enabled: boolean;
+  enabledAt: string | null;
+  required: boolean; // The role policy requires 2FA, so it cannot be turned off
+  recoveryCodesRemaining: number;
+}
+
+export interface TwoFactorSetupResponse {
+  secret: string; // For manual entry when the QR code cannot be scanned
+  otpauthUrl: string;
+  qrCode: string; // data: URL
+}
+
+export interface TwoFactorEnableResponse {
+  message: string;
+  recoveryCodes: string[]; // Only returned once
+  user: User;
+}
+
+export interface RecoveryCodesResponse {
+  message: string;
+  recoveryCodes: string[];
+}
+
+export interface TwoFactorDisableResponse {
+  message: string;
+  user: User;
+}
+
+// A signed-in device, from the server-side session registry
+export interface UserSession {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  expiresAt: string;
+  current: boolean; // The session making the request
+}
+
+export interface AdminUserSession extends UserSession {
+  user: { id: string; name: string; email: string; role: UserRole };
+}
+
+export interface UserSessionsResponse {
+  sessions: UserSession[];
+}
+
+export interface AdminUserSessionsResponse {
+  sessions: AdminUserSession[];
+}
+
+export interface RevokeSessionsResponse {
+  message: string;
+  revoked: number;
+}
+
+// A user as seen in the admin user management console
+export interface ManagedUser {
+  id: string;
+  email: string;
+  name: string;
+  role: UserRole;
+  skills: string[];
+  regions: string[];
+  emailVerified: boolean;
+  twoFactorEnabled: boolean;
+  createdAt: string;
+  lastSeenAt: string | null;
+  activeSessions: number;
+  openInquiries: number;
+  availability: AvailabilityStatus;
+  deactivatedAt: string | null;
+  deactivatedBy: string | null; // Name of the admin who deactivated the account
+}
+
+export interface UsersResponse {
+  users: ManagedUser[];
+}
+
+export interface UpdateUserRequest {
+  name?: string;
+  role?: UserRole;
+  skills?: string[];
+  regions?: string[];
+}
+
+export interface ManagedUserResponse {
+  message: string;
+  user: ManagedUser;
+}
+
+export interface UpdateUserResponse extends ManagedUserResponse {
+  twilioSync: 'updated' | 'failed' | 'skipped';
+}
+
+export interface AdminPasswordResetResponse {
+  message: string;
+  revokedSessions: number;
+}
+
+export type TwilioProvisioningStatus = 'provisioned' | 'missing' | 'role_mismatch' | 'not_configured';
+
+export interface TwilioProvisioningResponse {
+  status: TwilioProvisioningStatus;
+  expectedRole: string | null;
+  actualRole: string | null;
+  twilioUserSid: string | null;
+}
+
+// Privileged actions recorded in the audit log; mirrors AUDIT_ACTIONS in backend/utils/auditLog.js
+export type AuditAction =
+  | 'bot.toggle'
+  | 'traveler.message.send'
+  | 'traveler.dm.send'
+  | 'conversation.accept'
+  | 'conversation.export'
+  | 'inquiry.status.update'
+  | 'inquiry.reassign'
+  | 'inquiry.delete'
+  | 'inquiry.import'
+  | 'inquiry.export'
+  | 'invite.create'
+  | 'invite.revoke'
+  | 'session.revoke'
+  | 'user.sessions.revoke'
+  | 'user.update'
+  | 'user.deactivate'
+  | 'user.reactivate'
+  | 'user.password.reset'
+  | 'user.twilio.provision';
+
+export interface AuditActor {
+  id: string | null;
+  email: string | null;
+  name: string | null;
+  role: string | null; // Role at the time of the action
+}
+
+export interface AuditEntry {
+  id: string;
+  createdAt: string;
+  actor: AuditActor | null;
+  action: AuditAction;
+  targetType: string | null;
+  targetId: string | null;
+  conversationSid: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  metadata: Record<string, unknown> | null;
+  ipAddress: string | null;
+}
+
+export interface AuditLogFilters {
+  actorId?: string;
+  conversationSid?: string;
+  action?: AuditAction;
+  from?: string; // ISO timestamp, inclusive
+  to?: string;
+}
+
+export interface AuditLogResponse {
+  data: AuditEntry[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    pages: number;
+  };
+}
+
+export interface AuditActorsResponse {
+  actors: AuditActor[];
+}
+
+export interface CurrentUserResponse {
+  user: User & { created_at?: string };
+}
+
+// Replies from the password reset and email verification endpoints
+export interface AccountMessageResponse {
+  message: string;
+}
+
+export interface VerifyEmailResponse {
+  message: string;
+  user: User;
+}
+
+export interface ResendVerificationResponse {
+  message: string;
+  alreadyVerified: boolean;
+}
+
+export interface RegistrationConfigResponse {
+  openRegistration: boolean;
+}
+
+export type InviteStatus = 'pending' | 'used' | 'revoked' | 'expired';
+
+export interface UserInvite {
+  id: string;
+  email: string | null; // When set, only this address can register with the invite
+  role: UserRole;
+  status: InviteStatus;
+  createdAt: string;
+  expiresAt: string;
+  usedAt: string | null;
+  revokedAt: string | null;
+  createdBy: { name: string; email: string } | null;
+  usedBy: { name: string; email: string } | null;
+}
+
+export interface CreateInviteRequest {
+  role: UserRole;
+  email?: string;
+  expiresInDays?: number;
+}
+
+export interface CreateInviteResponse {
+  message: string;
+  invite: UserInvite;
+  token: string; // Only returned once; build the registration link from it
+}
+
+export interface InvitesResponse {
+  invites: UserInvite[];
+}
+
+export interface InviteLookupResponse {
+  invite: Pick<UserInvite, 'email' | 'role' | 'expiresAt'>;
+}
+
+export interface TwilioTokenResponse {
+  token: string;
+  identity: string;
+}
+
+export interface SentMessage {
+  sid: string;
+  conversationSid: string;
+  author: string;
+  body: string;
+  attributes?: string;
+}
+
+export interface SendMessageResponse {
+  message: string;
+  duplicate?: boolean; // true when an Idempotency-Key replay returned the original message
+  data: SentMessage;
+}
+
+export interface ConversationSummary {
+  sid: string;
+  friendlyName?: string;
+  uniqueName?: string;
+  attributes?: Record<string, unknown>;
+  state?: string;
+  dateCreated: string;
+  dateUpdated: string;
+  url?: string;
+  participants: TwilioParticipant[];
+  participantCount: number;
+  conversationType: ConversationType;
+}
+
+export interface Pagination {
+  page: number;
+  limit: number;
+  hasMore: boolean;
+}
+
+export interface MainConversationsResponse {
+  conversations: ConversationSummary[];
+  total: number;
+  categorization: {
+    main: number;
+    expertAdmin: number;
+    adminTraveler: number;
+    unknown: number;
+  };
+  pagination: Pagination & { isPartialLoad?: boolean };
+  sync?: ConversationSyncInfo;
+}
+
+// Delta sync cursors returned by /api/conversations/main and /:sid/messages
+export interface ConversationSyncInfo {
+  isDelta: boolean;
+  since: string | null;
+  cursor: string; // pass back as ?updatedSince=
+}
+
+export interface MessageSyncInfo {
+  isDelta: boolean;
+  afterIndex: number | null;
+  lastIndex: number; // pass back as ?afterIndex=; -1 when there are no messages yet
+  isComplete: boolean;
+}
+
+export interface ConversationParticipantsResponse {
+  participants: TwilioParticipant[];
+  participantCount: number;
+  conversationType: ConversationType;
+  conversationSid: string;
+}
+
+export interface ConversationMessagesResponse {
+  messages: TwilioMessage[]; // dateCreated is converted to a Date client-side
+  messageCount: number;
+  conversationSid: string;
+  sync?: MessageSyncInfo;
+}
+
+export interface DMUser {
+  id: string;
+  name: string;
+  email: string;
+}
+
+export interface DMConversation {
+  id: string;
+  sid: string;
+  friendlyName: string;
+  uniqueName: string;
+  dateCreated: string;
+  dateUpdated: string;
+  state: string;
+  conversationType: ConversationType;
+  participants: Array<Pick<TwilioParticipant, 'identity' | 'displayName' | 'type' | 'isCustomer'>>;
+  source?: string;
+  // Expert-admin DMs
+  expert?: DMUser;
+  admin?: DMUser;
+  // Admin-traveler DMs
+  customer_name?: string;
+  customer_email?: string;
+  customer_phone?: string | null;
+  initial_message?: string;
+  inquiry_status?: InquiryStatus;
+}
+
+export interface DMConversationsResponse {
+  conversations: DMConversation[];
+  total: number;
+  pagination: Pagination;
+}
+
+export interface ExpertConversation {
+  id: string;
+  customer_name: string;
+  customer_email: string;
+  customer_phone?: string;
+  message: string;
+  conversation_sid: string;
+  status: string;
+  created_at: string;
+  updated_at: string;
+  expert: {
+    name: string;
+    email: string;
+  };
+  expert_accepted: boolean;
+  expert_accepted_at?: string | null;
+  auto_accepted: boolean;
+  handoff?: InquiryHandoff | null;
+  sla?: SlaClock[];
+}
+
+export type OutboxStatus = 'queued' | 'sending' | 'sent' | 'failed';
+
+// Outgoing message persisted in IndexedDB until the backend confirms it
+export interface OutboxEntry {
+  id: string; // client-generated, doubles as the Idempotency-Key
+  userId: string;
+  conversationSid: string;
+  body: string;
+  author: string;
+  from?: string;
+  status: OutboxStatus;
+  attempts: number;
+  nextAttemptAt: number | null; // epoch ms of the next automatic retry
+  lastError: string | null;
+  createdAt: number;
+  sentAt: number | null;
+  messageSid: string | null; // Twilio SID once sent
+  batchId: string; // chunks of one outgoing message share a batch
+  part: number;
+  parts: number;
+  partDelayMs?: number; // pause after the previous part, per channel
+}
+
+export type DMConversationType = 'expert_admin_dm' | 'admin_traveler_dm';
+
+// Normalized client-side store shared by all dashboard views
+export interface ConversationStoreState {
+  conversations: Record<string, TwilioConversation>; // keyed by conversation SID
+  conversationOrder: string[]; // most recently updated first
+  messages: Record<string, TwilioMessage>; // keyed by message SID
+  messageSidsByConversation: Record<string, string[]>; // ordered by message index
+  acceptedConversations: Record<string, boolean>;
+  inquiries: Record<string, ExpertConversation>; // keyed by conversation SID
+  inquiryOrder: string[];
+  dmConversations: Record<string, DMConversation>;
+  dmSidsByType: Record<DMConversationType, string[]>;
+  activeConversationSid: string | null;
+  pagination: { page: number; hasMore: boolean };
+  conversationCursor: string | null;
+  messageCursors: Record<string, number>; // last server message index per conversation
+  loading: {
+    conversations: boolean;
+    moreConversations: boolean;
+    inquiries: boolean;
+    dmConversations: boolean;
+  };
+  loadingMessages: Record<string, boolean>; // keyed by conversation SID
+  error: string | null;
+  lastRefresh: Date | null;
+}
+
+export interface PendingConversationsResponse {
+  conversations: ExpertConversation[];
+  total: number;
+  pending: number;
+  accepted: number;
+}
+
+export interface AcceptConversationResponse {
+  success: boolean;
+  message: string;
+  data: {
+    conversation_sid: string;
+    status: string;
+    accepted_at?: string;
+  };
+}
+
+export interface ConversationDetailsResponse {
+  success: boolean;
+  data: Omit<ExpertConversation, 'auto_accepted'>;
+}
+
+export interface AcceptanceCheckResponse {
+  accepted: boolean;
+  status: string;
+  auto_accepted: boolean;
+  inquiry_id: string;
+}
+
+export interface InquiryRecord {
+  id: string;
+  customer_name: string;
+  customer_email: string;
+  customer_phone?: string | null;
+  message: string;
+  conversation_sid?: string | null;
+  status: InquiryStatus;
+  created_at: string;
+  updated_at: string;
+  allowed_transitions?: InquiryStatus[]; // returned by status updates
+  assigned_expert_id?: string | null;
+  expert_name?: string | null;
+  expert_email?: string | null;
+}
+
+// Sort keys of GET /api/inquiries
+export type InquirySortKey = 'created_at' | 'updated_at' | 'customer_name' | 'status';
+
+export type SortOrder = 'asc' | 'desc';
+
+// Search and filters of GET /api/inquiries; dates are ISO timestamps
+export interface InquiryFilters {
+  q?: string; // matches customer name, email, phone and message
+  status?: InquiryStatus[];
+  expertId?: string; // an expert id, or 'unassigned'
+  createdFrom?: string;
+  createdTo?: string;
+  updatedFrom?: string;
+  updatedTo?: string;
+  sort?: InquirySortKey;
+  order?: SortOrder;
+}
+
+// Download formats of GET /api/inquiries/export
+export type InquiryExportFormat = 'csv' | 'json';
+
+// Download formats of GET /api/conversations/:conversationSid/transcript
+export type TranscriptFormat = 'html' | 'txt' | 'pdf';
+
+export interface InquiriesResponse {
+  data: InquiryRecord[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    pages: number;
+  };
+}
+
+export type ExpertSummary = Pick<Expert, 'id' | 'name' | 'email'>;
+
+// Entry of /api/inquiries/experts/list
+export interface ExpertListEntry extends ExpertSummary {
+  availability: AvailabilityStatus;
+}
+
+export type Weekday = 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun';
+
+export interface Shift {
+  start: string; // HH:MM in the user's timezone
+  end: string;
+}
+
+export type WeeklySchedule = Partial<Record<Weekday, Shift[]>>;
+
+export type AvailabilityState = 'available' | 'away' | 'off_shift' | 'out_of_office';
+
+export type AvailabilityOverride = 'away' | 'available';
+
+// Worked out by the server from schedule, manual status and out-of-office ranges
+export interface AvailabilityStatus {
+  state: AvailabilityState;
+  available: boolean;
+  manual: boolean; // Set by hand rather than by the schedule
+  until: string | null; // Shift end (HH:MM) or last out-of-office day (YYYY-MM-DD)
+  nextShift: { weekday: Weekday; start: string } | null; // Only when off shift
+}
+
+export interface TimeOffRange {
+  id: string;
+  startsOn: string; // YYYY-MM-DD, inclusive
+  endsOn: string;
+  note: string | null;
+}
+
+export interface ExpertAvailability {
+  timezone: string;
+  schedule: WeeklySchedule | null; // null: always on shift
+  override: AvailabilityOverride | null;
+  timeOff: TimeOffRange[];
+  status: AvailabilityStatus;
+}
+
+export interface ExpertAvailabilityResponse {
+  message?: string;
+  availability: ExpertAvailability;
+}
+
+export interface AddTimeOffRequest {
+  startsOn: string;
+  endsOn: string;
+  note?: string;
+}
+
+// SLA clocks; mirrors SLA_METRICS in backend/utils/sla.js
+export type SlaMetric = 'accept' | 'first_reply' | 'traveler_wait';
+
+export type SlaEscalation = 'notified' | 'reassigned';
+
+// A running SLA clock, worked out by the server
+export interface SlaClock {
+  metric: SlaMetric;
+  startedAt: string;
+  dueAt: string;
+  breached: boolean;
+}
+
+export interface SlaPolicy {
+  targets: Record<SlaMetric, number>; // Minutes; 0 means the clock is off
+  autoReassign: boolean;
+}
+
+export interface InquirySlaClocks {
+  inquiryId: string;
+  conversationSid: string | null;
+  customerName: string;
+  expert: { id: string; name: string };
+  clocks: SlaClock[];
+}
+
+export interface SlaClocksResponse {
+  data: InquirySlaClocks[];
+  policy: SlaPolicy;
+}
+
+export interface SlaBreach {
+  id: string;
+  inquiryId: string;
+  customerName: string | null; // null once the inquiry is deleted
+  conversationSid: string | null;
+  metric: SlaMetric;
+  expert: { id: string | null; name: string } | null;
+  startedAt: string;
+  dueAt: string;
+  breachedAt: string;
+  escalation: SlaEscalation;
+  reassignedTo: { id: string | null; name: string } | null;
+}
+
+export interface SlaBreachFilters {
+  metric?: SlaMetric;
+  escalation?: SlaEscalation;
+  expertId?: string;
+  from?: string; // ISO timestamp, inclusive
+  to?: string;
+}
+
+export interface SlaBreachSummary {
+  total: number;
+  reassigned: number;
+  byMetric: Record<SlaMetric, number>;
+  byExpert: { id: string | null; name: string; count: number }[]; // Top 10
+}
+
+export interface SlaBreachesResponse {
+  data: SlaBreach[];
+  summary: SlaBreachSummary;
+  policy: SlaPolicy;
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    pages: number;
+  };
+}
+
+export interface BotSettingsResponse {
+  conversationSid: string;
+  settings: {
+    expertBot: boolean;
+    travelerBot: boolean;
+  };
+}
+
+export interface WebhookSettingStatus {
+  configured: boolean;
+  url?: string; // 'Set' or 'Not set'; the URL itself is never returned
+  status?: string; // same, for the webhook secret
+}
+
+export interface WebhookStatusResponse {
+  message: string;
+  status: Record<string, WebhookSettingStatus>;
+  allConfigured: boolean;
+}
+
+export type SheetRow = string[];
+
+export interface GoogleSheetsStatus {
+  configured: boolean;
+  initialized: boolean;
+  hasAuth: boolean;
+  hasSheets: boolean;
+  spreadsheetConfigured: boolean;
+  spreadsheetId: string | null; // first characters only
+}
+
+export interface HealthResponse {
+  status: string;
+  message: string;
+}
+
 export interface ConnectionStatus {
   isConnected: boolean;
   connectionState: string;
@@ -99,6 +960,9 @@ export interface ConnectionStatus {
   reconnectAttempts?: number;
 }
 
+// Why the poller picked its current cadence
+export type PollingMode = 'idle' | 'steady' | 'backing_off' | 'disconnected' | 'recovering' | 'paused';
+
 export interface PollingStatus {
   isActive: boolean;
   pollCount: number;
@@ -106,6 +970,12 @@ export interface PollingStatus {
   elapsedSeconds: number;
   hasInstance: boolean;
   timerId: number | null;
+  mode: PollingMode;
+  reason: string;
+  currentIntervalMs: number | null;
+  lastPollAt: Date | null;
+  lastEventAt: Date | null;
+  connectionState: string;
 }
 
 export interface TwilioDebugInfo {
@@ -123,6 +993,16 @@ export interface TwilioDebugInfo {
   accountSid: string;
   isInitializing: boolean;
   hasGlobalInstance: boolean;
+  tokenRenewal?: TwilioTokenRenewalInfo;
+  polling?: PollingStatus;
+}
+
+export interface TwilioTokenRenewalInfo {
+  isRenewing: boolean;
+  renewalCount: number;
+  lastRenewedAt: Date | null;
+  lastTrigger: 'tokenAboutToExpire' | 'tokenExpired' | null;
+  lastError: string | null;
 }
 
 // Error types for better error handling
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { describeAuditChange, toAuditDateRange } from './auditLog';
+
+describe('describeAuditChange', () => {
+  it('lists fields whose value changed', () => {
+    expect(describeAuditChange({
+      before: { status: 'assigned' },
+      after: { status: 'in_progress' },
+    })).toEqual(['status: assigned → in_progress']);
+  });
+
+  it('skips fields that did not change', () => {
+    expect(describeAuditChange({
+      before: { status: 'new', priority: 'high' },
+      after: { status: 'assigned', priority: 'high' },
+    })).toEqual(['status: new → assigned']);
+  });
+
+  it('shows fields that only exist on one side against a dash', () => {
+    expect(describeAuditChange({
+      before: null,
+      after: { type: 'Expert Bot', enabled: false },
+    })).toEqual(['type: — → Expert Bot', 'enabled: — → false']);
+  });
+
+  it('returns nothing for deletions, which only have a before snapshot', () => {
+    expect(describeAuditChange({ before: { id: 1, status: 'new' }, after: null })).toEqual([]);
+  });
+});
+
+describe('toAuditDateRange', () => {
+  it('covers whole local days', () => {
+    const { from, to } = toAuditDateRange('2025-10-20', '2025-10-21');
+
+    expect(new Date(from!).getTime()).toBe(new Date(2025, 9, 20, 0, 0, 0, 0).getTime());
+    expect(new Date(to!).getTime()).toBe(new Date(2025, 9, 21, 23, 59, 59, 999).getTime());
+  });
+
+  it('leaves out bounds that are not set', () => {
+    expect(toAuditDateRange('', '')).toEqual({});
+    expect(Object.keys(toAuditDateRange('2025-10-20', ''))).toEqual(['from']);
+  });
+});
@@ -0,0 +1,62 @@
+import type { AuditAction, AuditEntry } from '../types';
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  'bot.toggle': 'Bot toggled',
+  'traveler.message.send': 'Message to traveler',
+  'traveler.dm.send': 'DM to traveler',
+  'conversation.accept': 'Conversation accepted',
+  'conversation.export': 'Transcript downloaded',
+  'inquiry.status.update': 'Inquiry status changed',
+  'inquiry.reassign': 'Inquiry reassigned',
+  'inquiry.delete': 'Inquiry deleted',
+  'inquiry.import': 'Inquiries imported',
+  'inquiry.export': 'Inquiries exported',
+  'invite.create': 'Invite issued',
+  'invite.revoke': 'Invite revoked',
+  'session.revoke': 'Session revoked',
+  'user.sessions.revoke': 'User signed out everywhere',
+  'user.update': 'User edited',
+  'user.deactivate': 'User deactivated',
+  'user.reactivate': 'User reactivated',
+  'user.password.reset': 'Password reset sent',
+  'user.twilio.provision': 'Twilio user provisioned',
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+/**
+ * One line per changed field, e.g. "status: assigned → in_progress".
+ * Fields only present on one side are shown against "—".
+ */
+export function describeAuditChange(entry: Pick<AuditEntry, 'before' | 'after'>): string[] {
+  // A deletion keeps the whole record in `before`; listing every field would not be a "change"
+  if (!entry.after) return [];
+
+  const before = entry.before || {};
+  const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(entry.after)]));
+
+  return keys
+    .filter(key => formatValue(before[key]) !== formatValue(entry.after![key]))
+    .map(key => `${key}: ${formatValue(before[key])} → ${formatValue(entry.after![key])}`);
+}
+
+/**
+ * Turn the `<input type="date">` values of a date-range filter into ISO timestamps covering
+ * whole local days, so "to 2025-10-20" includes everything that happened on the 20th.
+ */
+export function toAuditDateRange(fromDate: string, toDate: string): { from?: string; to?: string } {
+  const range: { from?: string; to?: string } = {};
+
+  if (fromDate) {
+    range.from = new Date(`${fromDate}T00:00:00`).toISOString();
+  }
+  if (toDate) {
+    range.to = new Date(`${toDate}T23:59:59.999`).toISOString();
+  }
+
+  return range;
+}
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { buildInviteLink, getAuthLinkToken } from './authLinks';
+
+describe('buildInviteLink', () => {
+  it('points at the dashboard root with the token as a query param', () => {
+    expect(buildInviteLink('abc_123-XYZ', 'https://app.example.com')).toBe('https://app.example.com/?invite=abc_123-XYZ');
+  });
+
+  it('ignores any path on the origin', () => {
+    expect(buildInviteLink('tok', 'https://app.example.com/dashboard')).toBe('https://app.example.com/?invite=tok');
+  });
+});
+
+describe('getAuthLinkToken', () => {
+  it('reads the invite token from the query string', () => {
+    expect(getAuthLinkToken('invite', '?invite=abc&foo=bar')).toBe('abc');
+  });
+
+  it('reads the tokens from account email links', () => {
+    const search = '?resetToken=reset.jwt.sig&verifyToken=verify.jwt.sig';
+    expect(getAuthLinkToken('passwordReset', search)).toBe('reset.jwt.sig');
+    expect(getAuthLinkToken('emailVerification', search)).toBe('verify.jwt.sig');
+    expect(getAuthLinkToken('invite', search)).toBeNull();
+  });
+
+  it('returns null when the param is missing or blank', () => {
+    expect(getAuthLinkToken('invite', '?foo=bar')).toBeNull();
+    expect(getAuthLinkToken('invite', '?invite=%20')).toBeNull();
+    expect(getAuthLinkToken('passwordReset', '')).toBeNull();
+  });
+
+  it('round-trips a link built by buildInviteLink', () => {
+    const link = buildInviteLink('a-b_c', 'https://app.example.com');
+    expect(getAuthLinkToken('invite', new URL(link).search)).toBe('a-b_c');
+  });
+});
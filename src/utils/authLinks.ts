@@ -0,0 +1,36 @@
+// Query params carrying tokens from invite and account emails
+const AUTH_LINK_PARAMS = {
+  invite: 'invite',
+  passwordReset: 'resetToken',
+  emailVerification: 'verifyToken',
+} as const;
+
+export type AuthLinkKind = keyof typeof AUTH_LINK_PARAMS;
+
+/**
+ * Registration link for an invite token, pointing at this dashboard
+ */
+export function buildInviteLink(inviteToken: string, origin: string = window.location.origin): string {
+  const url = new URL('/', origin);
+  url.searchParams.set(AUTH_LINK_PARAMS.invite, inviteToken);
+  return url.toString();
+}
+
+/**
+ * Token from the current URL, if the user arrived through an invite or account email link
+ */
+export function getAuthLinkToken(kind: AuthLinkKind, search: string = window.location.search): string | null {
+  const token = new URLSearchParams(search).get(AUTH_LINK_PARAMS[kind]);
+  return token && token.trim() ? token.trim() : null;
+}
+
+/**
+ * Drop a token from the address bar once it has been used
+ */
+export function clearAuthLinkToken(kind: AuthLinkKind): void {
+  const url = new URL(window.location.href);
+  if (url.searchParams.has(AUTH_LINK_PARAMS[kind])) {
+    url.searchParams.delete(AUTH_LINK_PARAMS[kind]);
+    window.history.replaceState(null, '', url.toString());
+  }
+}
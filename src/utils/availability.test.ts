@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { WEEKDAYS, describeAvailability } from './availability';
+import type { AvailabilityStatus } from '../types';
+
+const status = (overrides: Partial<AvailabilityStatus>): AvailabilityStatus => ({
+  state: 'available',
+  available: true,
+  manual: false,
+  until: null,
+  nextShift: null,
+  ...overrides,
+});
+
+describe('WEEKDAYS', () => {
+  // Pinned on the backend side by backend/tests/availability.test.js
+  it('matches the weekdays the backend accepts in a schedule', () => {
+    expect(WEEKDAYS).toEqual(['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun']);
+  });
+});
+
+describe('describeAvailability', () => {
+  it('says when the current shift ends', () => {
+    expect(describeAvailability(status({ until: '17:00' }))).toBe('Available until 17:00');
+  });
+
+  it('says when the next shift starts', () => {
+    expect(describeAvailability(status({
+      state: 'off_shift',
+      available: false,
+      nextShift: { weekday: 'mon', start: '09:00' },
+    }))).toBe('Off shift until Mon 09:00');
+  });
+
+  it('marks statuses set by hand', () => {
+    expect(describeAvailability(status({ manual: true }))).toBe('Available (set manually)');
+    expect(describeAvailability(status({ state: 'away', available: false, manual: true }))).toBe('Away (set manually)');
+  });
+
+  it('gives the last out-of-office day', () => {
+    expect(describeAvailability(status({ state: 'out_of_office', available: false, until: '2025-10-30' })))
+      .toBe('Out of office through 2025-10-30');
+  });
+
+  it('leaves out what the server did not send', () => {
+    expect(describeAvailability(status({}))).toBe('Available');
+    expect(describeAvailability(status({ state: 'off_shift', available: false }))).toBe('Off shift');
+  });
+});
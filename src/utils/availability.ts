@@ -0,0 +1,81 @@
+import type { AvailabilityState, AvailabilityStatus, Weekday } from '../types';
+
+/**
+ * Expert availability display helpers. The status itself is worked out by the server
+ * (backend/utils/availability.js); these only describe it.
+ */
+export const WEEKDAYS: Weekday[] = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'];
+
+export const WEEKDAY_LABELS: Record<Weekday, string> = {
+  mon: 'Mon',
+  tue: 'Tue',
+  wed: 'Wed',
+  thu: 'Thu',
+  fri: 'Fri',
+  sat: 'Sat',
+  sun: 'Sun',
+};
+
+export const AVAILABILITY_LABELS: Record<AvailabilityState, string> = {
+  available: 'Available',
+  away: 'Away',
+  off_shift: 'Off shift',
+  out_of_office: 'Out of office',
+};
+
+// Badge colours
+export const AVAILABILITY_STYLES: Record<AvailabilityState, string> = {
+  available: 'bg-green-100 text-green-800',
+  away: 'bg-yellow-100 text-yellow-800',
+  off_shift: 'bg-gray-100 text-gray-700',
+  out_of_office: 'bg-purple-100 text-purple-800',
+};
+
+// Offered as suggestions; the server accepts any IANA timezone
+export const COMMON_TIME_ZONES = [
+  'UTC',
+  'Europe/London',
+  'Europe/Berlin',
+  'Europe/Athens',
+  'Africa/Johannesburg',
+  'Asia/Dubai',
+  'Asia/Kolkata',
+  'Asia/Bangkok',
+  'Asia/Singapore',
+  'Asia/Tokyo',
+  'Australia/Sydney',
+  'Pacific/Auckland',
+  'America/Sao_Paulo',
+  'America/New_York',
+  'America/Chicago',
+  'America/Denver',
+  'America/Los_Angeles',
+];
+
+/**
+ * Timezone of this browser, used as the default for new schedules
+ */
+export function getBrowserTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+/**
+ * One-line description, e.g. "Off shift until Mon 09:00"
+ */
+export function describeAvailability(status: AvailabilityStatus): string {
+  const label = AVAILABILITY_LABELS[status.state];
+
+  switch (status.state) {
+    case 'out_of_office':
+      return status.until ? `${label} through ${status.until}` : label;
+    case 'off_shift':
+      return status.nextShift
+        ? `${label} until ${WEEKDAY_LABELS[status.nextShift.weekday]} ${status.nextShift.start}`
+        : label;
+    case 'available':
+      if (status.manual) return `${label} (set manually)`;
+      return status.until ? `${label} until ${status.until}` : label;
+    default:
+      return status.manual ? `${label} (set manually)` : label;
+  }
+}
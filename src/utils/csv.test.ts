@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { escapeCsvValue, parseCsv, toCsv } from './csv';
+
+describe('parseCsv', () => {
+  it('reads quoted cells with commas, quotes and line breaks', () => {
+    expect(parseCsv('name,message\r\n"Doe, Ann","Said ""hi""\nthen left"\r\n')).toEqual([
+      ['name', 'message'],
+      ['Doe, Ann', 'Said "hi"\nthen left'],
+    ]);
+  });
+
+  it('drops the BOM and blank lines and keeps a last line without a newline', () => {
+    expect(parseCsv('\uFEFFa,b\n\n,\n1,2')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+});
+
+describe('toCsv', () => {
+  // The same rows and output are pinned on the backend side by backend/tests/csv.test.js
+  it('matches the backend CSV writer', () => {
+    const rows = [
+      { name: 'Doe, Ann', note: '=1+1' },
+      { name: 'Bo "B"', note: null },
+      { name: '+1 (555) 123-4567', note: '+HYPERLINK("http://example.com")' },
+    ];
+    const columns = [
+      { header: 'Name', value: (row: typeof rows[number]) => row.name },
+      { header: 'Note', value: (row: typeof rows[number]) => row.note },
+    ];
+
+    expect(toCsv(columns, rows)).toBe(
+      '\uFEFFName,Note\r\n'
+      + '"Doe, Ann",\'=1+1\r\n'
+      + '"Bo ""B""",\r\n'
+      + '+1 (555) 123-4567,"\'+HYPERLINK(""http://example.com"")"\r\n'
+    );
+  });
+
+  it('round-trips through parseCsv', () => {
+    const csv = toCsv([{ header: 'Problems', value: (row: string) => row }], ['Email is required; Same email as row 2']);
+
+    expect(parseCsv(csv)).toEqual([['Problems'], ['Email is required; Same email as row 2']]);
+  });
+});
+
+describe('escapeCsvValue', () => {
+  it('neutralizes formulas', () => {
+    expect(escapeCsvValue('@SUM(A1)')).toBe("'@SUM(A1)");
+    expect(escapeCsvValue('+A1*2')).toBe("'+A1*2");
+    expect(escapeCsvValue('-2+cmd|\' /C calc\'!A0')).toBe("'-2+cmd|' /C calc'!A0");
+    expect(escapeCsvValue(-5)).toBe('-5');
+  });
+
+  it('keeps phone numbers and signed numbers as they are', () => {
+    expect(escapeCsvValue('+15551234567')).toBe('+15551234567');
+    expect(escapeCsvValue('+1 (555) 123-4567')).toBe('+1 (555) 123-4567');
+    expect(escapeCsvValue('-12.50')).toBe('-12.50');
+  });
+});
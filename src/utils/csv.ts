@@ -0,0 +1,91 @@
+/**
+ * CSV reading for spreadsheet imports and writing for reports made in the browser.
+ * Output follows backend/utils/csv.js: RFC 4180, CRLF line endings, a UTF-8 BOM and
+ * formula-looking cells prefixed with a quote.
+ */
+
+// Spreadsheets run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+// Numbers and phone numbers such as "+1 (555) 123-4567" start with + or - but cannot call anything
+const NUMBER_OR_PHONE = /^[+-]\d[\d ().-]*$/;
+
+export interface CsvColumn<T> {
+  header: string;
+  value: (row: T) => string | number | null | undefined;
+}
+
+/**
+ * Rows of a CSV document. Handles quoted cells with commas, quotes and line breaks,
+ * CRLF or LF line endings and a leading BOM; blank lines are dropped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  const input = text.startsWith('\uFEFF') ? text.slice(1) : text;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some(value => value.trim() !== '')) rows.push(row);
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) endRow();
+
+  return rows;
+}
+
+/**
+ * Quote one value for a CSV cell
+ */
+export function escapeCsvValue(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return '';
+
+  let text = String(value);
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text) && !NUMBER_OR_PHONE.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Build a CSV document
+ */
+export function toCsv<T>(columns: CsvColumn<T>[], rows: T[]): string {
+  const lines = [columns.map(column => escapeCsvValue(column.header)).join(',')];
+
+  rows.forEach(row => {
+    lines.push(columns.map(column => escapeCsvValue(column.value(row))).join(','));
+  });
+
+  return `\uFEFF${lines.join('\r\n')}\r\n`;
+}
@@ -0,0 +1,58 @@
+import type { TwilioConversation, TwilioMessage } from '../types';
+
+/**
+ * Merge changed conversations into the current list.
+ * Participant data is loaded on demand, so it is kept when the delta doesn't carry it.
+ */
+export function mergeConversations(
+  existing: TwilioConversation[],
+  changes: TwilioConversation[]
+): TwilioConversation[] {
+  if (changes.length === 0) return existing;
+
+  const bySid = new Map(existing.map(conversation => [conversation.sid, conversation]));
+
+  for (const change of changes) {
+    const current = bySid.get(change.sid);
+
+    if (!current) {
+      bySid.set(change.sid, change);
+      continue;
+    }
+
+    bySid.set(change.sid, {
+      ...current,
+      ...change,
+      participants: change.participants.length > 0 ? change.participants : current.participants,
+      participantCount: change.participantCount || current.participantCount,
+      conversationType: change.conversationType && change.conversationType !== 'unknown'
+        ? change.conversationType
+        : current.conversationType,
+      lastMessage: change.lastMessage || current.lastMessage,
+    });
+  }
+
+  // Most recently updated first, same as the backend's ordering
+  return Array.from(bySid.values()).sort(
+    (a, b) => new Date(b.dateUpdated).getTime() - new Date(a.dateUpdated).getTime()
+  );
+}
+
+/**
+ * Merge newly fetched messages into the current list, de-duplicated by SID.
+ * Optimistic messages (temp_ SIDs) are dropped once the server copy arrives.
+ */
+export function mergeMessages(existing: TwilioMessage[], incoming: TwilioMessage[]): TwilioMessage[] {
+  if (incoming.length === 0) return existing;
+
+  const incomingSids = new Set(incoming.map(message => message.sid));
+  const incomingBodies = new Set(incoming.map(message => message.body));
+
+  const kept = existing.filter(message => {
+    if (incomingSids.has(message.sid)) return false;
+    if (message.sid.startsWith('temp_') && incomingBodies.has(message.body)) return false;
+    return true;
+  });
+
+  return [...kept, ...incoming].sort((a, b) => a.index - b.index);
+}
@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest';
+import { formatTags, normalizeTag, parseTags } from './expertTags';
+
+describe('normalizeTag', () => {
+  it('lowercases and joins words with dashes', () => {
+    expect(normalizeTag('  South East   Asia ')).toBe('south-east-asia');
+  });
+});
+
+describe('parseTags', () => {
+  it('splits on commas and drops blanks and duplicates', () => {
+    expect(parseTags('Visa, rail,, visa , ')).toEqual(['visa', 'rail']);
+  });
+
+  it('returns nothing for empty input', () => {
+    expect(parseTags('')).toEqual([]);
+  });
+
+  it('round-trips with formatTags', () => {
+    expect(parseTags(formatTags(['visa', 'south-east-asia']))).toEqual(['visa', 'south-east-asia']);
+  });
+});
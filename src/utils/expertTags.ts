@@ -0,0 +1,21 @@
+/**
+ * Skill and region tags, normalized the way backend/utils/expertTags.js stores them:
+ * lowercase, with inner whitespace turned into dashes.
+ */
+export function normalizeTag(tag: string): string {
+  return tag.trim().toLowerCase().replace(/\s+/g, '-');
+}
+
+/**
+ * Tags typed as a comma-separated list, without blanks or duplicates
+ */
+export function parseTags(input: string): string[] {
+  return [...new Set(input.split(',').map(normalizeTag).filter(Boolean))];
+}
+
+/**
+ * Tags back as editable text
+ */
+export function formatTags(tags: string[]): string {
+  return tags.join(', ');
+}
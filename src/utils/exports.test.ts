@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest';
+import { TRANSCRIPT_FORMATS, getBrowserTimeZone, getExportFilename } from './exports';
+
+describe('TRANSCRIPT_FORMATS', () => {
+  // Pinned on the backend side by backend/tests/transcript.test.js
+  it('matches the formats the backend renders', () => {
+    expect(TRANSCRIPT_FORMATS.map(option => option.format).sort()).toEqual(['html', 'pdf', 'txt']);
+  });
+});
+
+describe('getExportFilename', () => {
+  it('adds the local date and extension', () => {
+    expect(getExportFilename('inquiries', 'csv', new Date(2025, 0, 5, 23, 30))).toBe('inquiries-2025-01-05.csv');
+  });
+});
+
+describe('getBrowserTimeZone', () => {
+  it('returns an IANA time zone, which the backend accepts, or nothing', () => {
+    const timeZone = getBrowserTimeZone();
+
+    expect(() => new Intl.DateTimeFormat('en-GB', { timeZone })).not.toThrow();
+  });
+});
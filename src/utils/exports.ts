@@ -0,0 +1,44 @@
+import type { InquiryExportFormat, TranscriptFormat } from '../types';
+
+/**
+ * Downloads made on the server: filtered inquiry lists and conversation transcripts.
+ */
+export interface ExportFormatOption<T extends string> {
+  format: T;
+  label: string;
+}
+
+export const INQUIRY_EXPORT_FORMATS: ExportFormatOption<InquiryExportFormat>[] = [
+  { format: 'csv', label: 'CSV' },
+  { format: 'json', label: 'JSON' },
+];
+
+export const TRANSCRIPT_FORMATS: ExportFormatOption<TranscriptFormat>[] = [
+  { format: 'pdf', label: 'PDF' },
+  { format: 'html', label: 'HTML (web page)' },
+  { format: 'txt', label: 'Plain text' },
+];
+
+/**
+ * File name for a download, e.g. "inquiries-2025-10-31.csv"; the date is the local day
+ */
+export function getExportFilename(name: string, extension: string, date: Date = new Date()): string {
+  const day = [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, '0'),
+    String(date.getDate()).padStart(2, '0'),
+  ].join('-');
+
+  return `${name}-${day}.${extension}`;
+}
+
+/**
+ * The browser's IANA time zone, so transcripts show the times the user sees in the dashboard
+ */
+export function getBrowserTimeZone(): string | undefined {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || undefined;
+  } catch {
+    return undefined;
+  }
+}
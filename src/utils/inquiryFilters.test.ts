@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_INQUIRY_FILTERS,
+  INQUIRY_SORT_KEYS,
+  UNASSIGNED_EXPERT,
+  buildInquiryListSearch,
+  hasInquiryListParams,
+  parseInquiryListState,
+  toInquiryApiFilters,
+} from './inquiryFilters';
+
+describe('INQUIRY_SORT_KEYS', () => {
+  // Pinned on the backend side by backend/tests/inquirySearch.test.js
+  it('matches the sort keys the backend accepts', () => {
+    expect(INQUIRY_SORT_KEYS).toEqual(['created_at', 'updated_at', 'customer_name', 'status']);
+    expect(UNASSIGNED_EXPERT).toBe('unassigned');
+  });
+});
+
+describe('parseInquiryListState', () => {
+  it('reads filters, sort and page from the query string', () => {
+    const state = parseInquiryListState(
+      '?q=ann&status=new,assigned&expertId=u1&createdFrom=2025-10-01&sort=customer_name&order=asc&page=3'
+    );
+
+    expect(state).toEqual({
+      filters: {
+        ...DEFAULT_INQUIRY_FILTERS,
+        q: 'ann',
+        status: ['new', 'assigned'],
+        expertId: 'u1',
+        createdFrom: '2025-10-01',
+        sort: 'customer_name',
+        order: 'asc',
+      },
+      page: 3,
+    });
+  });
+
+  it('falls back to the defaults for malformed values', () => {
+    expect(parseInquiryListState('?status=new,bogus,new,toString&createdTo=yesterday&sort=password&order=up&page=-2')).toEqual({
+      filters: { ...DEFAULT_INQUIRY_FILTERS, status: ['new'] },
+      page: 1,
+    });
+  });
+});
+
+describe('buildInquiryListSearch', () => {
+  it('round-trips through parseInquiryListState', () => {
+    const state = {
+      filters: { ...DEFAULT_INQUIRY_FILTERS, q: 'rome', status: ['resolved' as const], updatedTo: '2025-10-20', order: 'asc' as const },
+      page: 2,
+    };
+
+    expect(parseInquiryListState(buildInquiryListSearch(state, ''))).toEqual(state);
+  });
+
+  it('leaves out defaults and keeps params that belong to something else', () => {
+    expect(buildInquiryListSearch({ filters: DEFAULT_INQUIRY_FILTERS, page: 1 }, '?q=old&page=4&invite=abc')).toBe('?invite=abc');
+    expect(buildInquiryListSearch({ filters: DEFAULT_INQUIRY_FILTERS, page: 1 }, '')).toBe('');
+  });
+});
+
+describe('hasInquiryListParams', () => {
+  it('spots links to a filtered list', () => {
+    expect(hasInquiryListParams('?status=closed')).toBe(true);
+    expect(hasInquiryListParams('?invite=abc')).toBe(false);
+  });
+});
+
+describe('toInquiryApiFilters', () => {
+  it('drops empty filters and covers whole days', () => {
+    const filters = toInquiryApiFilters({ ...DEFAULT_INQUIRY_FILTERS, q: '  ', createdFrom: '2025-10-01', createdTo: '2025-10-02' });
+
+    expect(filters).toEqual({
+      q: undefined,
+      status: undefined,
+      expertId: undefined,
+      createdFrom: new Date('2025-10-01T00:00:00').toISOString(),
+      createdTo: new Date('2025-10-02T23:59:59.999').toISOString(),
+      updatedFrom: undefined,
+      updatedTo: undefined,
+      sort: 'created_at',
+      order: 'desc',
+    });
+  });
+});
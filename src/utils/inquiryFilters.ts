@@ -0,0 +1,152 @@
+import { toAuditDateRange } from './auditLog';
+import { INQUIRY_STATUS_LABELS } from './inquiryStatus';
+import type { InquiryFilters, InquirySortKey, InquiryStatus, SortOrder } from '../types';
+
+/**
+ * Inquiry filter bar state and its place in the address bar, so a filtered list
+ * survives a reload and can be shared as a link.
+ */
+export const INQUIRY_SORT_KEYS: InquirySortKey[] = ['created_at', 'updated_at', 'customer_name', 'status'];
+
+export const INQUIRY_SORT_LABELS: Record<InquirySortKey, string> = {
+  created_at: 'Created',
+  updated_at: 'Last updated',
+  customer_name: 'Customer name',
+  status: 'Status',
+};
+
+// expertId for inquiries nobody is assigned to
+export const UNASSIGNED_EXPERT = 'unassigned';
+
+// Filter bar values; dates are `<input type="date">` values
+export interface InquiryFilterForm {
+  q: string;
+  status: InquiryStatus[];
+  expertId: string;
+  createdFrom: string;
+  createdTo: string;
+  updatedFrom: string;
+  updatedTo: string;
+  sort: InquirySortKey;
+  order: SortOrder;
+}
+
+export const DEFAULT_INQUIRY_FILTERS: InquiryFilterForm = {
+  q: '',
+  status: [],
+  expertId: '',
+  createdFrom: '',
+  createdTo: '',
+  updatedFrom: '',
+  updatedTo: '',
+  sort: 'created_at',
+  order: 'desc',
+};
+
+export interface InquiryListState {
+  filters: InquiryFilterForm;
+  page: number;
+}
+
+// Query params owned by the inquiry list
+const URL_PARAMS = ['q', 'status', 'expertId', 'createdFrom', 'createdTo', 'updatedFrom', 'updatedTo', 'sort', 'order', 'page'];
+
+const DATE_KEYS = ['createdFrom', 'createdTo', 'updatedFrom', 'updatedTo'] as const;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Filters and page from a query string. Unknown or malformed values fall back to the defaults.
+ */
+export function parseInquiryListState(search: string = window.location.search): InquiryListState {
+  const params = new URLSearchParams(search);
+  const filters: InquiryFilterForm = { ...DEFAULT_INQUIRY_FILTERS };
+
+  filters.q = params.get('q')?.trim() ?? '';
+  filters.status = (params.get('status') ?? '')
+    .split(',')
+    .filter((status, index, all): status is InquiryStatus =>
+      Object.prototype.hasOwnProperty.call(INQUIRY_STATUS_LABELS, status) && all.indexOf(status) === index
+    );
+  filters.expertId = params.get('expertId')?.trim() ?? '';
+
+  for (const key of DATE_KEYS) {
+    const value = params.get(key) ?? '';
+    filters[key] = DATE_PATTERN.test(value) ? value : '';
+  }
+
+  const sort = params.get('sort') as InquirySortKey | null;
+  if (sort && INQUIRY_SORT_KEYS.includes(sort)) {
+    filters.sort = sort;
+  }
+  const order = params.get('order');
+  if (order === 'asc' || order === 'desc') {
+    filters.order = order;
+  }
+
+  const page = parseInt(params.get('page') ?? '', 10);
+
+  return { filters, page: page > 1 ? page : 1 };
+}
+
+/**
+ * Query string for the given state, keeping params that belong to something else.
+ * Defaults are left out so an unfiltered list has a clean URL.
+ */
+export function buildInquiryListSearch({ filters, page }: InquiryListState, search: string = window.location.search): string {
+  const params = new URLSearchParams(search);
+  URL_PARAMS.forEach(key => params.delete(key));
+
+  if (filters.q.trim()) params.set('q', filters.q.trim());
+  if (filters.status.length > 0) params.set('status', filters.status.join(','));
+  if (filters.expertId) params.set('expertId', filters.expertId);
+  for (const key of DATE_KEYS) {
+    if (filters[key]) params.set(key, filters[key]);
+  }
+  if (filters.sort !== DEFAULT_INQUIRY_FILTERS.sort) params.set('sort', filters.sort);
+  if (filters.order !== DEFAULT_INQUIRY_FILTERS.order) params.set('order', filters.order);
+  if (page > 1) params.set('page', String(page));
+
+  const query = params.toString();
+  return query ? `?${query}` : '';
+}
+
+/**
+ * Mirror the state in the address bar without adding a history entry
+ */
+export function writeInquiryListState(state: InquiryListState): void {
+  const url = new URL(window.location.href);
+  const search = buildInquiryListSearch(state, url.search);
+  if (search !== url.search) {
+    url.search = search;
+    window.history.replaceState(null, '', url.toString());
+  }
+}
+
+/**
+ * Whether the query string carries inquiry list state, e.g. from a shared link
+ */
+export function hasInquiryListParams(search: string = window.location.search): boolean {
+  const params = new URLSearchParams(search);
+  return URL_PARAMS.some(key => params.has(key));
+}
+
+/**
+ * API filters for the filter bar; date ranges cover whole local days
+ */
+export function toInquiryApiFilters(filters: InquiryFilterForm): InquiryFilters {
+  const created = toAuditDateRange(filters.createdFrom, filters.createdTo);
+  const updated = toAuditDateRange(filters.updatedFrom, filters.updatedTo);
+
+  return {
+    q: filters.q.trim() || undefined,
+    status: filters.status.length > 0 ? filters.status : undefined,
+    expertId: filters.expertId || undefined,
+    createdFrom: created.from,
+    createdTo: created.to,
+    updatedFrom: updated.from,
+    updatedTo: updated.to,
+    sort: filters.sort,
+    order: filters.order,
+  };
+}
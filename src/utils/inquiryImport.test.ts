@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import {
+  EMAIL_PATTERN,
+  MAX_IMPORT_BATCH_SIZE,
+  buildImportErrorReport,
+  buildImportRows,
+  checkImportRows,
+  chunk,
+  countImportResults,
+  getUnmappedRequiredFields,
+  guessColumnMapping,
+} from './inquiryImport';
+import { parseCsv } from './csv';
+
+describe('server parity', () => {
+  // Pinned on the backend side by backend/tests/inquiryImport.test.js
+  it('uses the batch size and email rule of the backend', () => {
+    expect(MAX_IMPORT_BATCH_SIZE).toBe(25);
+    expect(EMAIL_PATTERN.source).toBe('^[^\\s@]+@[^\\s@]+\\.[^\\s@]+$');
+  });
+});
+
+describe('guessColumnMapping', () => {
+  it('recognizes common header names', () => {
+    expect(guessColumnMapping(['Full Name', 'E-mail', 'Phone Number', 'Notes', 'Destination'])).toEqual({
+      customerName: 0,
+      customerEmail: 1,
+      customerPhone: 2,
+      message: 3,
+      skills: null,
+      region: 4,
+    });
+  });
+
+  it('leaves unknown columns unmapped', () => {
+    const mapping = guessColumnMapping(['Lead source', 'Email']);
+
+    expect(mapping.customerName).toBeNull();
+    expect(getUnmappedRequiredFields(mapping).map(option => option.field)).toEqual(['customerName', 'message']);
+  });
+});
+
+describe('buildImportRows', () => {
+  it('maps cells and numbers rows as in the spreadsheet', () => {
+    const mapping = guessColumnMapping(['Name', 'Email', 'Message', 'Skills']);
+
+    expect(buildImportRows([[' Ann ', 'ann@example.com', 'Rome in May', 'Rail, Family Trips']], mapping)).toEqual([
+      {
+        row: 2,
+        customerName: 'Ann',
+        customerEmail: 'ann@example.com',
+        customerPhone: undefined,
+        message: 'Rome in May',
+        skills: ['rail', 'family-trips'],
+        region: undefined,
+      },
+    ]);
+  });
+});
+
+describe('checkImportRows', () => {
+  const row = (overrides = {}) => ({
+    row: 2,
+    customerName: 'Ann',
+    customerEmail: 'ann@example.com',
+    message: 'Rome in May',
+    ...overrides,
+  });
+
+  it('applies the InquiryCreator rules', () => {
+    const [result] = checkImportRows([row({ customerName: '', customerEmail: 'ann@', customerPhone: '123' })]);
+
+    expect(result).toEqual({
+      row: 2,
+      status: 'invalid',
+      errors: ['Customer name is required', 'Email address is not valid', 'Phone number is not valid (include country code for SMS)'],
+    });
+  });
+
+  it('flags rows repeating an earlier email or phone', () => {
+    const results = checkImportRows([
+      row({ customerPhone: '+1 (555) 010-2000' }),
+      row({ row: 3, customerEmail: 'ANN@example.com ' }),
+      row({ row: 4, customerEmail: 'bo@example.com', customerPhone: '+15550102000' }),
+      row({ row: 5, customerEmail: 'cy@example.com' }),
+    ]);
+
+    expect(results.map(result => result.status)).toEqual(['ready', 'duplicate', 'duplicate', 'ready']);
+    expect(results[2].errors).toEqual(['Same phone number as row 2']);
+  });
+});
+
+describe('chunk', () => {
+  it('splits into batches', () => {
+    expect(chunk([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]]);
+  });
+});
+
+describe('buildImportErrorReport', () => {
+  it('lists rows that were not imported with their original cells', () => {
+    const results = [
+      { row: 2, status: 'created' as const, errors: [] },
+      { row: 3, status: 'invalid' as const, errors: ['Email is required', 'Message is required'] },
+    ];
+
+    expect(countImportResults(results)).toMatchObject({ created: 1, invalid: 1 });
+    expect(parseCsv(buildImportErrorReport(['Name', 'Email'], [['Ann', 'ann@example.com'], ['Bo', '']], results))).toEqual([
+      ['Row', 'Outcome', 'Problems', 'Name', 'Email'],
+      ['3', 'Invalid', 'Email is required; Message is required', 'Bo', ''],
+    ]);
+  });
+});
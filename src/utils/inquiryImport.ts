@@ -0,0 +1,212 @@
+import { parseTags } from './expertTags';
+import { toCsv } from './csv';
+import type { InquiryImportResult, InquiryImportRow, InquiryImportRowStatus } from '../types';
+
+/**
+ * Bulk inquiry import: map spreadsheet columns onto CreateInquiryRequest fields and check the
+ * rows before they are sent. The server repeats every check (backend/utils/inquiryImport.js)
+ * and also looks for open inquiries with the same customer.
+ */
+export type ImportField = 'customerName' | 'customerEmail' | 'customerPhone' | 'message' | 'skills' | 'region';
+
+export interface ImportFieldOption {
+  field: ImportField;
+  label: string;
+  required: boolean;
+}
+
+export const IMPORT_FIELDS: ImportFieldOption[] = [
+  { field: 'customerName', label: 'Customer name', required: true },
+  { field: 'customerEmail', label: 'Email', required: true },
+  { field: 'customerPhone', label: 'Phone', required: false },
+  { field: 'message', label: 'Message', required: true },
+  { field: 'skills', label: 'Skills', required: false },
+  { field: 'region', label: 'Region', required: false },
+];
+
+// Header names recognized for each field, compared without case, spaces or punctuation
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  customerName: ['customername', 'name', 'fullname', 'firstname', 'traveler', 'traveller', 'contact'],
+  customerEmail: ['customeremail', 'email', 'emailaddress', 'mail'],
+  customerPhone: ['customerphone', 'phone', 'phonenumber', 'mobile', 'cell', 'telephone', 'whatsapp'],
+  message: ['message', 'inquiry', 'enquiry', 'notes', 'note', 'details', 'request', 'comments'],
+  skills: ['skills', 'tags', 'topics'],
+  region: ['region', 'destination', 'country'],
+};
+
+// Spreadsheet column index for each field, or null when it is not imported
+export type ColumnMapping = Record<ImportField, number | null>;
+
+// Rows per request, as the server accepts them
+export const MAX_IMPORT_BATCH_SIZE = 25;
+
+// Same rules as InquiryCreator; the server additionally requires phones in international format
+export const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+export const PHONE_PATTERN = /^\+?[\d\s\-()]{10,}$/;
+
+export const IMPORT_STATUS_LABELS: Record<InquiryImportRowStatus, string> = {
+  ready: 'Ready',
+  created: 'Created',
+  invalid: 'Invalid',
+  duplicate: 'Duplicate',
+  failed: 'Failed',
+};
+
+// Badge colours
+export const IMPORT_STATUS_STYLES: Record<InquiryImportRowStatus, string> = {
+  ready: 'bg-blue-100 text-blue-800',
+  created: 'bg-green-100 text-green-800',
+  invalid: 'bg-red-100 text-red-800',
+  duplicate: 'bg-yellow-100 text-yellow-800',
+  failed: 'bg-red-100 text-red-800',
+};
+
+export function isValidEmail(email: string): boolean {
+  return EMAIL_PATTERN.test(email.trim());
+}
+
+export function isValidPhone(phone: string): boolean {
+  return PHONE_PATTERN.test(phone.trim());
+}
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Best guess at which column holds each field, from the header row. Each column is used once.
+ */
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map(normalizeHeader);
+  const used = new Set<number>();
+  const mapping = {} as ColumnMapping;
+
+  IMPORT_FIELDS.forEach(({ field }) => {
+    const index = FIELD_ALIASES[field]
+      .map(alias => normalized.findIndex((header, i) => header === alias && !used.has(i)))
+      .find(i => i >= 0);
+
+    mapping[field] = index ?? null;
+    if (index !== undefined) used.add(index);
+  });
+
+  return mapping;
+}
+
+/**
+ * Required fields that have no column yet
+ */
+export function getUnmappedRequiredFields(mapping: ColumnMapping): ImportFieldOption[] {
+  return IMPORT_FIELDS.filter(option => option.required && mapping[option.field] === null);
+}
+
+/**
+ * Data rows as import rows. `firstRowNumber` is the spreadsheet row number of the first data
+ * row (2 below a header row), so reports point at the row people see in their spreadsheet.
+ */
+export function buildImportRows(rows: string[][], mapping: ColumnMapping, firstRowNumber = 2): InquiryImportRow[] {
+  const cell = (row: string[], field: ImportField) => {
+    const index = mapping[field];
+    return index === null ? '' : (row[index] ?? '').trim();
+  };
+
+  return rows.map((row, i) => ({
+    row: firstRowNumber + i,
+    customerName: cell(row, 'customerName'),
+    customerEmail: cell(row, 'customerEmail'),
+    customerPhone: cell(row, 'customerPhone') || undefined,
+    message: cell(row, 'message'),
+    skills: mapping.skills === null ? undefined : parseTags(cell(row, 'skills')),
+    region: cell(row, 'region') || undefined,
+  }));
+}
+
+// Keys under which two rows count as the same customer, like the server's getDuplicateKeys
+const duplicateKeys = (row: InquiryImportRow): string[] => {
+  const keys = [`email:${row.customerEmail.trim().toLowerCase()}`];
+  if (row.customerPhone) keys.push(`phone:${row.customerPhone.replace(/[^\d+]/g, '')}`);
+  return keys;
+};
+
+/**
+ * Check rows before anything is sent: required fields, email and phone format, and rows
+ * repeating an earlier row's email or phone. Rows that pass are `ready`.
+ */
+export function checkImportRows(rows: InquiryImportRow[]): InquiryImportResult[] {
+  const seen = new Map<string, number>();
+
+  return rows.map(row => {
+    const errors: string[] = [];
+
+    if (!row.customerName) errors.push('Customer name is required');
+    if (!row.customerEmail) {
+      errors.push('Email is required');
+    } else if (!isValidEmail(row.customerEmail)) {
+      errors.push('Email address is not valid');
+    }
+    if (row.customerPhone && !isValidPhone(row.customerPhone)) {
+      errors.push('Phone number is not valid (include country code for SMS)');
+    }
+    if (!row.message) errors.push('Message is required');
+
+    if (errors.length > 0) {
+      return { row: row.row, status: 'invalid', errors };
+    }
+
+    const keys = duplicateKeys(row);
+    const earlier = keys.find(key => seen.has(key));
+    if (earlier) {
+      const what = earlier.startsWith('email:') ? 'email' : 'phone number';
+      return { row: row.row, status: 'duplicate', errors: [`Same ${what} as row ${seen.get(earlier)}`] };
+    }
+    keys.forEach(key => seen.set(key, row.row));
+
+    return { row: row.row, status: 'ready', errors: [] };
+  });
+}
+
+/**
+ * Split a list into batches of at most `size`
+ */
+export function chunk<T>(items: T[], size: number): T[][] {
+  const batches: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    batches.push(items.slice(i, i + size));
+  }
+  return batches;
+}
+
+/**
+ * Number of rows with each outcome
+ */
+export function countImportResults(results: InquiryImportResult[]): Record<InquiryImportRowStatus, number> {
+  const counts: Record<InquiryImportRowStatus, number> = { ready: 0, created: 0, invalid: 0, duplicate: 0, failed: 0 };
+  results.forEach(result => {
+    counts[result.status] += 1;
+  });
+  return counts;
+}
+
+/**
+ * CSV report of the rows that were not (or would not be) imported: row number, outcome and
+ * problems, followed by the row as it was in the spreadsheet
+ */
+export function buildImportErrorReport(
+  headers: string[],
+  dataRows: string[][],
+  results: InquiryImportResult[],
+  firstRowNumber = 2
+): string {
+  const problems = results.filter(result => result.status !== 'ready' && result.status !== 'created');
+
+  return toCsv<InquiryImportResult>(
+    [
+      { header: 'Row', value: result => result.row },
+      { header: 'Outcome', value: result => IMPORT_STATUS_LABELS[result.status] },
+      { header: 'Problems', value: result => result.errors.join('; ') },
+      ...headers.map((header, index) => ({
+        header: header || `Column ${index + 1}`,
+        value: (result: InquiryImportResult) => dataRows[result.row - firstRowNumber]?.[index] ?? '',
+      })),
+    ],
+    problems
+  );
+}
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import {
+  INQUIRY_STATUS_LABELS,
+  INQUIRY_TRANSITIONS,
+  getAllowedTransitions,
+  getInquiryStatusLabel,
+} from './inquiryStatus';
+
+// The state machine backend/utils/inquiryStatus.js enforces, pinned by backend/tests/inquiryStatus.test.js
+const BACKEND_TRANSITIONS: Record<string, string[]> = {
+  new: ['assigned', 'closed'],
+  assigned: ['accepted', 'closed'],
+  accepted: ['in_progress', 'waiting_on_traveler', 'resolved', 'closed'],
+  in_progress: ['waiting_on_traveler', 'resolved', 'closed'],
+  waiting_on_traveler: ['in_progress', 'resolved', 'closed'],
+  resolved: ['closed', 'reopened'],
+  closed: ['reopened'],
+  reopened: ['assigned', 'in_progress', 'waiting_on_traveler', 'resolved', 'closed'],
+};
+
+describe('INQUIRY_TRANSITIONS', () => {
+  it('matches the state machine the backend enforces', () => {
+    expect(Object.keys(INQUIRY_TRANSITIONS).sort()).toEqual(Object.keys(BACKEND_TRANSITIONS).sort());
+    Object.entries(INQUIRY_TRANSITIONS).forEach(([status, next]) => {
+      expect([...next].sort(), status).toEqual([...BACKEND_TRANSITIONS[status]].sort());
+    });
+  });
+
+  it('only leads to known statuses', () => {
+    Object.values(INQUIRY_TRANSITIONS).flat().forEach(status => {
+      expect(INQUIRY_STATUS_LABELS).toHaveProperty(status);
+    });
+  });
+
+  it('requires acceptance before work starts', () => {
+    expect(INQUIRY_TRANSITIONS.assigned).not.toContain('in_progress');
+    expect(INQUIRY_TRANSITIONS.new).not.toContain('in_progress');
+  });
+
+  it('only leaves closed by reopening', () => {
+    expect(INQUIRY_TRANSITIONS.closed).toEqual(['reopened']);
+  });
+});
+
+describe('getAllowedTransitions', () => {
+  it('returns nothing for statuses the lifecycle does not know', () => {
+    expect(getAllowedTransitions('archived')).toEqual([]);
+  });
+});
+
+describe('getInquiryStatusLabel', () => {
+  it('labels known statuses and passes unknown ones through', () => {
+    expect(getInquiryStatusLabel('waiting_on_traveler')).toBe('Waiting on traveler');
+    expect(getInquiryStatusLabel('archived')).toBe('archived');
+  });
+});
@@ -0,0 +1,60 @@
+import type { InquiryStatus, InquiryStatusChangeSource } from '../types';
+
+/**
+ * Inquiry lifecycle. Mirrors backend/utils/inquiryStatus.js, which is what the API enforces;
+ * the UI only uses it to offer the transitions the API would accept.
+ */
+export const INQUIRY_TRANSITIONS: Record<InquiryStatus, InquiryStatus[]> = {
+  new: ['assigned', 'closed'],
+  assigned: ['accepted', 'closed'],
+  accepted: ['in_progress', 'waiting_on_traveler', 'resolved', 'closed'],
+  in_progress: ['waiting_on_traveler', 'resolved', 'closed'],
+  waiting_on_traveler: ['in_progress', 'resolved', 'closed'],
+  resolved: ['closed', 'reopened'],
+  closed: ['reopened'],
+  reopened: ['assigned', 'in_progress', 'waiting_on_traveler', 'resolved', 'closed'],
+};
+
+export const INQUIRY_STATUS_LABELS: Record<InquiryStatus, string> = {
+  new: 'New',
+  assigned: 'Assigned',
+  accepted: 'Accepted',
+  in_progress: 'In progress',
+  waiting_on_traveler: 'Waiting on traveler',
+  resolved: 'Resolved',
+  closed: 'Closed',
+  reopened: 'Reopened',
+};
+
+// Badge colours
+export const INQUIRY_STATUS_STYLES: Record<InquiryStatus, string> = {
+  new: 'bg-gray-100 text-gray-800',
+  assigned: 'bg-orange-100 text-orange-800',
+  accepted: 'bg-indigo-100 text-indigo-800',
+  in_progress: 'bg-blue-100 text-blue-800',
+  waiting_on_traveler: 'bg-yellow-100 text-yellow-800',
+  resolved: 'bg-green-100 text-green-800',
+  closed: 'bg-gray-200 text-gray-700',
+  reopened: 'bg-purple-100 text-purple-800',
+};
+
+export const STATUS_CHANGE_SOURCE_LABELS: Record<InquiryStatusChangeSource, string> = {
+  user: 'User',
+  webhook: 'Twilio',
+  system: 'System',
+  migration: 'Data migration',
+};
+
+/**
+ * Label for a status string from the API; unknown values are shown as sent.
+ */
+export function getInquiryStatusLabel(status: string): string {
+  return INQUIRY_STATUS_LABELS[status as InquiryStatus] ?? status;
+}
+
+/**
+ * Statuses an inquiry may move to next. Empty for unknown statuses.
+ */
+export function getAllowedTransitions(status: string): InquiryStatus[] {
+  return INQUIRY_TRANSITIONS[status as InquiryStatus] ?? [];
+}
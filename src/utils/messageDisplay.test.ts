@@ -0,0 +1,143 @@
+import { describe, it, expect } from 'vitest';
+import { getMessageDisplayInfo, getMessageStyling, getMessageIcon, isBotMessage } from './messageDisplay';
+import type { TwilioMessage, User } from '../types';
+
+const message = (overrides: Partial<TwilioMessage> = {}): TwilioMessage => ({
+  sid: 'IM00000000000000000000000000000001',
+  author: 'traveler@example.com',
+  body: 'Hello',
+  dateCreated: new Date('2025-09-01T10:00:00Z'),
+  type: 'text',
+  index: 0,
+  ...overrides,
+});
+
+const expert: User = { id: '1', email: 'maria@example.com', name: 'Maria Lopez', role: 'expert' };
+const admin: User = { id: '2', email: 'lead@example.com', name: 'Team Lead', role: 'admin' };
+
+describe('getMessageDisplayInfo', () => {
+  describe('with a from attribute', () => {
+    it.each([
+      ['Bot', 'bot', 'bot', 'green'],
+      ['Baboo Team', 'admin', 'admin', 'blue'],
+      ['Maria Lopez - Local Expert', 'expert', 'expert', 'purple'],
+      ['Sam Lee - Traveler', 'traveler', 'traveler', 'orange'],
+      ['Someone Else', 'external', 'user', 'gray'],
+    ])('maps %j to %s', (from, type, icon, color) => {
+      const info = getMessageDisplayInfo(message({ attributes: { from } }), null);
+      expect(info).toEqual({ displayName: from, type, icon, color, isCurrentUser: false });
+    });
+
+    it('parses attributes given as a JSON string', () => {
+      const attributes = JSON.stringify({ from: 'Baboo Team' }) as unknown as TwilioMessage['attributes'];
+      expect(getMessageDisplayInfo(message({ attributes }), null).type).toBe('admin');
+    });
+
+    it('marks the current user but keeps the from label', () => {
+      const info = getMessageDisplayInfo(
+        message({ author: expert.email, attributes: { from: 'Maria Lopez - Local Expert' } }),
+        expert
+      );
+      expect(info).toMatchObject({
+        displayName: 'Maria Lopez - Local Expert',
+        type: 'current_user',
+        isCurrentUser: true,
+        color: 'blue',
+        icon: 'expert',
+      });
+    });
+  });
+
+  describe('without a from attribute', () => {
+    it('labels bot and system authors as Bot', () => {
+      ['system', 'support_bot_7', 'make-scenario', 'webhook'].forEach(author => {
+        expect(getMessageDisplayInfo(message({ author }), expert)).toMatchObject({
+          displayName: 'Bot',
+          type: 'bot',
+          isCurrentUser: false,
+        });
+      });
+    });
+
+    it('describes the current user by role', () => {
+      expect(getMessageDisplayInfo(message({ author: expert.email }), expert)).toMatchObject({
+        displayName: 'You (Maria Lopez - maria@example.com)',
+        type: 'current_user',
+        icon: 'expert',
+      });
+      expect(getMessageDisplayInfo(message({ author: admin.name }), admin)).toMatchObject({
+        displayName: 'You (Team Lead - Baboo Team)',
+        icon: 'admin',
+      });
+    });
+
+    it('recognises admin authors', () => {
+      expect(getMessageDisplayInfo(message({ author: 'admin.desk@example.com' }), null)).toMatchObject({
+        displayName: 'admin.desk - Baboo Team',
+        type: 'admin',
+      });
+    });
+
+    it('treats other email authors as experts with a readable name', () => {
+      expect(getMessageDisplayInfo(message({ author: 'john.smith@example.com' }), null)).toMatchObject({
+        displayName: 'John Smith - john.smith@example.com',
+        type: 'expert',
+        icon: 'expert',
+      });
+    });
+
+    it('falls back to the raw author', () => {
+      expect(getMessageDisplayInfo(message({ author: '+15551234567' }), null)).toEqual({
+        displayName: '+15551234567',
+        type: 'external',
+        isCurrentUser: false,
+        color: 'gray',
+        icon: 'user',
+      });
+    });
+  });
+});
+
+describe('getMessageStyling', () => {
+  it('uses the solid blue bubble for the current user regardless of type', () => {
+    const styling = getMessageStyling({
+      displayName: 'You', type: 'expert', isCurrentUser: true, color: 'blue', icon: 'expert',
+    });
+    expect(styling).toEqual({
+      containerClass: 'bg-blue-600 text-white',
+      nameClass: 'text-blue-100',
+      iconColor: 'text-blue-200',
+    });
+  });
+
+  it.each([
+    ['bot', 'green'],
+    ['admin', 'blue'],
+    ['expert', 'purple'],
+    ['traveler', 'orange'],
+    ['external', 'gray'],
+  ] as const)('colours %s messages %s', (type, color) => {
+    const styling = getMessageStyling({ displayName: 'x', type, isCurrentUser: false, color, icon: 'user' });
+    expect(styling.containerClass).toBe(`bg-${color}-100 text-${color}-900 border border-${color}-200`);
+    expect(styling.nameClass).toBe(`text-${color}-700`);
+    expect(styling.iconColor).toBe(`text-${color}-600`);
+  });
+});
+
+describe('getMessageIcon', () => {
+  it('maps display icons to lucide component names', () => {
+    expect(getMessageIcon('bot')).toBe('Bot');
+    expect(getMessageIcon('admin')).toBe('Shield');
+    expect(getMessageIcon('expert')).toBe('UserCheck');
+    expect(getMessageIcon('traveler')).toBe('MapPin');
+    expect(getMessageIcon('user')).toBe('User');
+  });
+});
+
+describe('isBotMessage', () => {
+  it('agrees with the bot keyword list', () => {
+    expect(isBotMessage('support_bot_1')).toBe(true);
+    expect(isBotMessage('maria@example.com')).toBe(false);
+    expect(isBotMessage('')).toBe(false);
+  });
+});
@@ -105,6 +105,7 @@ export function getMessageDisplayInfo(message: TwilioMessage, currentUser: User
     if (currentUser) {
       switch (currentUser.role) {
         case 'admin':
+        case 'supervisor':
           displayName = `You (${currentUser.name} - Baboo Team)`;
           break;
         case 'expert':
@@ -126,7 +127,7 @@ export function getMessageDisplayInfo(message: TwilioMessage, currentUser: User
       isCurrentUser: true,
       color: 'blue',
       icon: currentUser?.role === 'bot' ? 'bot' : 
-            currentUser?.role === 'admin' ? 'admin' :
+            currentUser?.role === 'admin' || currentUser?.role === 'supervisor' ? 'admin' :
             currentUser?.role === 'expert' ? 'expert' : 'user'
     };
   }
@@ -0,0 +1,171 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseAsteriskFormatting,
+  parseInlineFormatting,
+  parseMessageFormatting,
+  findLinks,
+} from './messageFormatting';
+
+describe('parseAsteriskFormatting', () => {
+  it.each([
+    ['Hello *world*', [{ text: 'Hello ', isBold: false }, { text: 'world', isBold: true }]],
+    ['*Bold* text *here*', [{ text: 'Bold', isBold: true }, { text: ' text ', isBold: false }, { text: 'here', isBold: true }]],
+    ['No asterisks here', [{ text: 'No asterisks here', isBold: false }]],
+    ['*Unmatched asterisk', [{ text: '*Unmatched asterisk', isBold: false }]],
+    [
+      '*First* and *second* and *third',
+      [
+        { text: 'First', isBold: true },
+        { text: ' and ', isBold: false },
+        { text: 'second', isBold: true },
+        { text: ' and *third', isBold: false },
+      ],
+    ],
+    ['', [{ text: '', isBold: false }]],
+    ['*', [{ text: '*', isBold: false }]],
+  ])('parses %j', (input, expected) => {
+    expect(parseAsteriskFormatting(input)).toEqual(expected);
+  });
+
+  it('drops an empty bold pair', () => {
+    expect(parseAsteriskFormatting('**')).toEqual([]);
+  });
+
+  it('keeps line breaks inside bold text', () => {
+    expect(parseAsteriskFormatting('*line one\nline two*')).toEqual([{ text: 'line one\nline two', isBold: true }]);
+  });
+});
+
+describe('parseInlineFormatting', () => {
+  it('matches parseAsteriskFormatting for bold-only text', () => {
+    const inputs = ['Hello *world*', '*Bold* text *here*', '*First* and *second* and *third', 'No asterisks here'];
+    inputs.forEach(input => {
+      expect(parseInlineFormatting(input)).toEqual(parseAsteriskFormatting(input));
+    });
+  });
+
+  it('parses italic, strikethrough and inline code', () => {
+    expect(parseInlineFormatting('_soon_ ~cancelled~ `code`')).toEqual([
+      { text: 'soon', isBold: false, isItalic: true },
+      { text: ' ', isBold: false },
+      { text: 'cancelled', isBold: false, isStrikethrough: true },
+      { text: ' ', isBold: false },
+      { text: 'code', isBold: false, isCode: true },
+    ]);
+  });
+
+  it('combines styles', () => {
+    expect(parseInlineFormatting('*very _important_*')).toEqual([
+      { text: 'very ', isBold: true },
+      { text: 'important', isBold: true, isItalic: true },
+    ]);
+  });
+
+  it('leaves snake_case words and loose delimiters alone', () => {
+    expect(parseInlineFormatting('use snake_case_names here')).toEqual([
+      { text: 'use snake_case_names here', isBold: false },
+    ]);
+    expect(parseInlineFormatting('a _ b _ c and 5 ~ 6')).toEqual([{ text: 'a _ b _ c and 5 ~ 6', isBold: false }]);
+  });
+
+  it('does not format across lines for italic', () => {
+    expect(parseInlineFormatting('_start\nend_')).toEqual([{ text: '_start\nend_', isBold: false }]);
+  });
+
+  it('does not format or link inside code spans', () => {
+    expect(parseInlineFormatting('`*not bold* https://example.com`')).toEqual([
+      { text: '*not bold* https://example.com', isBold: false, isCode: true },
+    ]);
+  });
+
+  it('auto-links URLs without swallowing trailing punctuation', () => {
+    expect(parseInlineFormatting('See https://example.com/a_b_c.')).toEqual([
+      { text: 'See ', isBold: false },
+      { text: 'https://example.com/a_b_c', isBold: false, link: { href: 'https://example.com/a_b_c', type: 'url' } },
+      { text: '.', isBold: false },
+    ]);
+  });
+
+  it('links URLs inside bold text', () => {
+    expect(parseInlineFormatting('*www.example.com*')).toEqual([
+      { text: 'www.example.com', isBold: true, link: { href: 'https://www.example.com', type: 'url' } },
+    ]);
+  });
+
+  it('auto-links email addresses and phone numbers', () => {
+    const parts = parseInlineFormatting('Mail help@example.com or call +44 20 7946 0958');
+    expect(parts.filter(part => part.link).map(part => part.link)).toEqual([
+      { href: 'mailto:help@example.com', type: 'email' },
+      { href: 'tel:+442079460958', type: 'phone' },
+    ]);
+  });
+});
+
+describe('findLinks', () => {
+  it('ignores dates, short numbers and bare digit runs', () => {
+    expect(findLinks('Arriving 2025-08-18, 2 adults, booking 123456789, room 1204')).toEqual([]);
+  });
+
+  it('recognises formatted local numbers', () => {
+    expect(findLinks('Call (555) 123-4567 today').map(link => link.link)).toEqual([
+      { href: 'tel:5551234567', type: 'phone' },
+    ]);
+  });
+
+  it('only produces safe link schemes', () => {
+    const links = findLinks('javascript:alert(1) ftp://example.com http://example.com');
+    expect(links.map(link => link.link.href)).toEqual(['http://example.com']);
+  });
+});
+
+describe('parseMessageFormatting', () => {
+  it('returns a single paragraph for plain text', () => {
+    expect(parseMessageFormatting('Hello\nthere')).toEqual([
+      { type: 'paragraph', parts: [{ text: 'Hello\nthere', isBold: false }] },
+    ]);
+  });
+
+  it('detects bullet lists', () => {
+    expect(parseMessageFormatting('Bring:\n- Passport\n* *Tickets*\n• Charger')).toEqual([
+      { type: 'paragraph', parts: [{ text: 'Bring:', isBold: false }] },
+      {
+        type: 'list',
+        ordered: false,
+        start: 1,
+        items: [
+          [{ text: 'Passport', isBold: false }],
+          [{ text: 'Tickets', isBold: true }],
+          [{ text: 'Charger', isBold: false }],
+        ],
+      },
+    ]);
+  });
+
+  it('detects numbered steps and keeps the starting number', () => {
+    const blocks = parseMessageFormatting('3. Check in\n4) Board\n\nHave a good flight');
+    expect(blocks).toEqual([
+      {
+        type: 'list',
+        ordered: true,
+        start: 3,
+        items: [[{ text: 'Check in', isBold: false }], [{ text: 'Board', isBold: false }]],
+      },
+      { type: 'paragraph', parts: [{ text: 'Have a good flight', isBold: false }] },
+    ]);
+  });
+
+  it('starts a new list when the list type changes', () => {
+    const blocks = parseMessageFormatting('- one\n1. first');
+    expect(blocks.map(block => block.type === 'list' && block.ordered)).toEqual([false, true]);
+  });
+
+  it('does not treat bold text at the start of a line as a bullet', () => {
+    expect(parseMessageFormatting('*Important* update')).toEqual([
+      { type: 'paragraph', parts: [{ text: 'Important', isBold: true }, { text: ' update', isBold: false }] },
+    ]);
+  });
+
+  it('handles empty input', () => {
+    expect(parseMessageFormatting('')).toEqual([{ type: 'paragraph', parts: [{ text: '', isBold: false }] }]);
+  });
+});
@@ -5,8 +5,21 @@
 export interface FormattedTextPart {
   text: string;
   isBold: boolean;
+  isItalic?: boolean;
+  isStrikethrough?: boolean;
+  isCode?: boolean;
+  link?: FormattedLink;
 }
 
+export interface FormattedLink {
+  href: string;
+  type: 'url' | 'email' | 'phone';
+}
+
+export type FormattedBlock =
+  | { type: 'paragraph'; parts: FormattedTextPart[] }
+  | { type: 'list'; ordered: boolean; start: number; items: FormattedTextPart[][] };
+
 /**
  * Parse text and identify asterisk pairs for bold formatting
  * Only processes complete pairs of asterisks - ignores unmatched asterisks
@@ -73,24 +86,249 @@ export function parseAsteriskFormatting(text: string): FormattedTextPart[] {
   return parts;
 }
 
+interface Span {
+  start: number;
+  end: number; // exclusive
+}
+
+interface LinkSpan extends Span {
+  link: FormattedLink;
+}
+
+const CODE_PATTERN = /`([^`\n]+)`/g;
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)[^\s<]*[^\s<.,:;"')\]!?*_~]/gi;
+const EMAIL_PATTERN = /\b[A-Z0-9._%+-]+@[A-Z0-9-]+(?:\.[A-Z0-9-]+)*\.[A-Z]{2,}\b/gi;
+const PHONE_PATTERN = /(?<![\w+])(?:\+\d{1,3}[ .-]?)?(?:\(\d{1,4}\)[ .-]?)?\d{2,4}(?:[ .-]?\d{2,4}){1,4}(?!\w)/g;
+const DATE_PATTERN = /^(?:\d{4}[-./]\d{1,2}[-./]\d{1,2}|\d{1,2}[-./]\d{1,2}[-./]\d{2,4})$/;
+const WORD_CHAR = /[\p{L}\p{N}]/u;
+
+const BULLET_PATTERN = /^\s*[-*•]\s+(.*)$/;
+const NUMBERED_PATTERN = /^\s*(\d{1,3})[.)]\s+(.*)$/;
+
+const overlaps = (spans: Span[], start: number, end: number) =>
+  spans.some(span => start < span.end && span.start < end);
+
+// Bare digit runs are more likely booking numbers or amounts than phone numbers
+const isLikelyPhoneNumber = (match: string) => {
+  const digits = match.replace(/\D/g, '');
+  if (digits.length < 7 || digits.length > 15) return false;
+  if (DATE_PATTERN.test(match)) return false;
+  return match.startsWith('+') || /[ .()-]/.test(match);
+};
+
+/**
+ * Find URLs, email addresses and phone numbers outside the given spans.
+ * Only http(s), mailto: and tel: links are ever produced.
+ */
+export function findLinks(text: string, excluded: Span[] = []): LinkSpan[] {
+  const links: LinkSpan[] = [];
+  const add = (start: number, end: number, link: FormattedLink) => {
+    if (!overlaps(excluded, start, end) && !overlaps(links, start, end)) {
+      links.push({ start, end, link });
+    }
+  };
+
+  for (const match of text.matchAll(URL_PATTERN)) {
+    const url = match[0];
+    add(match.index!, match.index! + url.length, {
+      href: /^www\./i.test(url) ? `https://${url}` : url,
+      type: 'url',
+    });
+  }
+
+  for (const match of text.matchAll(EMAIL_PATTERN)) {
+    add(match.index!, match.index! + match[0].length, { href: `mailto:${match[0]}`, type: 'email' });
+  }
+
+  for (const match of text.matchAll(PHONE_PATTERN)) {
+    const phone = match[0];
+    if (isLikelyPhoneNumber(phone)) {
+      const digits = phone.replace(/\D/g, '');
+      add(match.index!, match.index! + phone.length, {
+        href: `tel:${phone.startsWith('+') ? '+' : ''}${digits}`,
+        type: 'phone',
+      });
+    }
+  }
+
+  return links.sort((a, b) => a.start - b.start);
+}
+
+// _italic_ and ~strike~ follow WhatsApp rules: the markers hug the text, sit on word
+// boundaries (so snake_case stays plain) and don't span lines
+const pairDelimiters = (text: string, delimiter: string, isFree: (index: number) => boolean): Array<[number, number]> => {
+  const canOpen = (i: number) => {
+    const next = text[i + 1];
+    return (i === 0 || !WORD_CHAR.test(text[i - 1])) && !!next && !/\s/.test(next) && next !== delimiter;
+  };
+  const canClose = (i: number) => {
+    const prev = text[i - 1];
+    return !/\s/.test(prev) && prev !== delimiter && (i === text.length - 1 || !WORD_CHAR.test(text[i + 1]));
+  };
+
+  const pairs: Array<[number, number]> = [];
+  let i = 0;
+  while (i < text.length) {
+    if (text[i] === delimiter && isFree(i) && canOpen(i)) {
+      let close = -1;
+      for (let j = i + 2; j < text.length && text[j] !== '\n'; j++) {
+        if (text[j] === delimiter && isFree(j) && canClose(j)) {
+          close = j;
+          break;
+        }
+      }
+      if (close > -1) {
+        pairs.push([i, close]);
+        i = close + 1;
+        continue;
+      }
+    }
+    i++;
+  }
+  return pairs;
+};
+
 /**
- * Test cases for the formatting function
+ * Parse inline formatting: *bold* (same pairing as parseAsteriskFormatting), _italic_,
+ * ~strike~, `code` and auto-linked URLs, emails and phone numbers
  */
-export function testAsteriskFormatting() {
-  const testCases = [
-    { input: "Hello *world*", expected: [{ text: "Hello ", isBold: false }, { text: "world", isBold: true }] },
-    { input: "*Bold* text *here*", expected: [{ text: "Bold", isBold: true }, { text: " text ", isBold: false }, { text: "here", isBold: true }] },
-    { input: "No asterisks here", expected: [{ text: "No asterisks here", isBold: false }] },
-    { input: "*Unmatched asterisk", expected: [{ text: "*Unmatched asterisk", isBold: false }] },
-    { input: "*First* and *second* and *third", expected: [{ text: "First", isBold: true }, { text: " and ", isBold: false }, { text: "second", isBold: true }, { text: " and *third", isBold: false }] },
-    { input: "", expected: [{ text: "", isBold: false }] },
-    { input: "*", expected: [{ text: "*", isBold: false }] },
-    { input: "**", expected: [{ text: "", isBold: true }] },
-  ];
-
-  console.log('🧪 Testing asterisk formatting:');
-  testCases.forEach((testCase, index) => {
-    const result = parseAsteriskFormatting(testCase.input);
-    console.log(`Test ${index + 1}: "${testCase.input}" ->`, result);
+export function parseInlineFormatting(text: string): FormattedTextPart[] {
+  if (!text || typeof text !== 'string') {
+    return [{ text: text || '', isBold: false }];
+  }
+
+  const length = text.length;
+  const hidden = new Array<boolean>(length).fill(false);
+  const bold = new Array<boolean>(length).fill(false);
+  const italic = new Array<boolean>(length).fill(false);
+  const strike = new Array<boolean>(length).fill(false);
+  const code = new Array<boolean>(length).fill(false);
+  const linkAt = new Array<FormattedLink | undefined>(length);
+
+  // Code spans are literal: nothing inside them is formatted or linked
+  const codeSpans: Span[] = Array.from(text.matchAll(CODE_PATTERN), match => ({
+    start: match.index!,
+    end: match.index! + match[0].length,
+  }));
+  codeSpans.forEach(({ start, end }) => {
+    hidden[start] = true;
+    hidden[end - 1] = true;
+    for (let i = start + 1; i < end - 1; i++) code[i] = true;
   });
-}
\ No newline at end of file
+
+  const links = findLinks(text, codeSpans);
+  links.forEach(({ start, end, link }) => {
+    for (let i = start; i < end; i++) linkAt[i] = link;
+  });
+
+  const isFree = (i: number) => !hidden[i] && !code[i] && !linkAt[i];
+  const applyPairs = (pairs: Array<[number, number]>, flags: boolean[]) => {
+    pairs.forEach(([open, close]) => {
+      hidden[open] = true;
+      hidden[close] = true;
+      for (let i = open + 1; i < close; i++) flags[i] = true;
+    });
+  };
+
+  // Pair asterisks in order, ignoring an odd one out
+  const asterisks: number[] = [];
+  for (let i = 0; i < length; i++) {
+    if (text[i] === '*' && isFree(i)) asterisks.push(i);
+  }
+  const asteriskPairs: Array<[number, number]> = [];
+  for (let i = 0; i + 1 < asterisks.length; i += 2) {
+    asteriskPairs.push([asterisks[i], asterisks[i + 1]]);
+  }
+  applyPairs(asteriskPairs, bold);
+  applyPairs(pairDelimiters(text, '_', isFree), italic);
+  applyPairs(pairDelimiters(text, '~', isFree), strike);
+
+  const parts: FormattedTextPart[] = [];
+  let current: FormattedTextPart | null = null;
+
+  for (let i = 0; i < length; i++) {
+    if (hidden[i]) continue;
+
+    const sameStyle = current
+      && current.isBold === bold[i]
+      && !!current.isItalic === italic[i]
+      && !!current.isStrikethrough === strike[i]
+      && !!current.isCode === code[i]
+      && current.link === linkAt[i];
+
+    if (sameStyle) {
+      current!.text += text[i];
+      continue;
+    }
+
+    current = { text: text[i], isBold: bold[i] };
+    if (italic[i]) current.isItalic = true;
+    if (strike[i]) current.isStrikethrough = true;
+    if (code[i]) current.isCode = true;
+    if (linkAt[i]) current.link = linkAt[i];
+    parts.push(current);
+  }
+
+  return parts.length > 0 ? parts : [{ text: '', isBold: false }];
+}
+
+/**
+ * Parse a message into paragraphs and bullet or numbered lists, each with inline formatting
+ */
+export function parseMessageFormatting(text: string): FormattedBlock[] {
+  if (!text || typeof text !== 'string') {
+    return [{ type: 'paragraph', parts: [{ text: text || '', isBold: false }] }];
+  }
+
+  const blocks: FormattedBlock[] = [];
+  let paragraph: string[] = [];
+  let list: { ordered: boolean; start: number; items: string[] } | null = null;
+
+  const flushParagraph = () => {
+    // Lists are spaced by their own margins, so blank lines next to them are dropped
+    while (paragraph.length > 0 && !paragraph[paragraph.length - 1].trim()) paragraph.pop();
+    if (paragraph.length > 0) {
+      blocks.push({ type: 'paragraph', parts: parseInlineFormatting(paragraph.join('\n')) });
+    }
+    paragraph = [];
+  };
+
+  const flushList = () => {
+    if (list) {
+      blocks.push({
+        type: 'list',
+        ordered: list.ordered,
+        start: list.start,
+        items: list.items.map(parseInlineFormatting),
+      });
+    }
+    list = null;
+  };
+
+  for (const line of text.split('\n')) {
+    const numbered = NUMBERED_PATTERN.exec(line);
+    const bullet = numbered ? null : BULLET_PATTERN.exec(line);
+
+    if (numbered || bullet) {
+      const ordered = !!numbered;
+      if (!list || list.ordered !== ordered) {
+        flushParagraph();
+        flushList();
+        list = { ordered, start: numbered ? Number(numbered[1]) : 1, items: [] };
+      }
+      list.items.push(numbered ? numbered[2] : bullet![1]);
+      continue;
+    }
+
+    if (list) {
+      flushList();
+      if (!line.trim()) continue;
+    }
+    paragraph.push(line);
+  }
+
+  flushParagraph();
+  flushList();
+
+  return blocks.length > 0 ? blocks : [{ type: 'paragraph', parts: [{ text: '', isBold: false }] }];
+}
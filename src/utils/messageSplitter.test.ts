@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import { countSmsSegments, getSmsEncoding, splitMessage } from './messageSplitter';
+import { parseAsteriskFormatting } from './messageFormatting';
+
+const texts = (text: string, maxLength: number, numberParts = false) =>
+  splitMessage(text, { maxLength, numberParts }).parts.map(part => part.text);
+
+const words = (count: number) => Array.from({ length: count }, (_, i) => `word${i}`).join(' ');
+
+describe('splitMessage', () => {
+  it('keeps a message that fits as one part', () => {
+    expect(splitMessage('  Hello there  ').parts).toEqual([{ text: 'Hello there', length: 11 }]);
+    expect(splitMessage('   ').parts).toEqual([]);
+  });
+
+  it('breaks at a paragraph before a sentence or a word', () => {
+    const text = 'First paragraph here. It goes on.\n\nSecond paragraph is here.';
+    expect(texts(text, 40)).toEqual(['First paragraph here. It goes on.', 'Second paragraph is here.']);
+  });
+
+  it('falls back to a sentence boundary when there is no paragraph', () => {
+    const text = 'The first sentence is here. The second one follows it.';
+    expect(texts(text, 40)).toEqual(['The first sentence is here.', 'The second one follows it.']);
+  });
+
+  it('falls back to a word boundary when there is no sentence', () => {
+    const text = 'one two three four five six seven eight nine ten';
+    expect(texts(text, 20)).toEqual(['one two three four', 'five six seven', 'eight nine ten']);
+  });
+
+  it('cuts a single word that is longer than the limit', () => {
+    expect(texts('abcdefghijklmnopqrstuvwxy', 10)).toEqual(['abcdefghi', 'jklmnopqr', 'stuvwxy']);
+  });
+
+  it('never breaks inside a URL', () => {
+    const url = 'https://example.com/trips/1234?day=2';
+    const parts = texts(`Your itinerary is at ${url} and more details follow soon`, 45);
+
+    expect(parts.some(part => part.includes(url))).toBe(true);
+    parts.forEach(part => expect(part.length).toBeLessThanOrEqual(45));
+  });
+
+  it('never breaks inside a bold pair when there is a boundary outside it', () => {
+    const text = 'Please remember *bring your passport* to the meeting point tomorrow';
+    const parts = texts(text, 40);
+
+    expect(parts.some(part => part.includes('*bring your passport*'))).toBe(true);
+  });
+
+  it('closes and reopens a bold pair that is longer than a part', () => {
+    const parts = texts(`*${words(12)}*`, 30);
+
+    expect(parts.length).toBeGreaterThan(1);
+    parts.forEach(part => {
+      expect(part.length).toBeLessThanOrEqual(30);
+      expect(parseAsteriskFormatting(part)).toEqual([{ text: part.slice(1, -1), isBold: true }]);
+    });
+  });
+
+  it('numbers parts within the limit', () => {
+    const split = splitMessage(words(60), { maxLength: 50 });
+
+    expect(split.parts.length).toBeGreaterThan(9);
+    split.parts.forEach((part, i) => {
+      expect(part.text.startsWith(`(${i + 1}/${split.parts.length}) `)).toBe(true);
+      expect(part.length).toBeLessThanOrEqual(50);
+    });
+  });
+
+  it.each([1, 2, 3, 5, 8, 12])('keeps every part within a maxLength of %i', (maxLength) => {
+    const parts = texts(`Hi *there*, see https://example.com ${words(5)}`, maxLength, true);
+
+    expect(parts.length).toBeGreaterThan(1);
+    parts.forEach(part => expect(part.length).toBeLessThanOrEqual(maxLength));
+  });
+
+  it('leaves parts unnumbered when the prefix leaves too little room', () => {
+    expect(texts(words(4), 12, true)).toEqual(['word0 word1', 'word2 word3']);
+  });
+
+  it('limits GSM-7 SMS parts in septets', () => {
+    const split = splitMessage(`${'a'.repeat(1000)} ${'{'.repeat(300)}`, { channel: 'sms' });
+
+    expect(split.encoding).toBe('GSM-7');
+    expect(split.limit).toBe(1530);
+    // "{" costs two septets
+    expect(split.parts.map(part => part.length)).toEqual([1006, 606]);
+    split.parts.forEach(part => expect(part.length).toBeLessThanOrEqual(1530));
+  });
+
+  it('limits UCS-2 SMS parts to 670 characters', () => {
+    const split = splitMessage(`Olá 👋 ${words(200)}`, { channel: 'sms' });
+
+    expect(split.encoding).toBe('UCS-2');
+    expect(split.limit).toBe(670);
+    split.parts.forEach(part => {
+      expect(part.length).toBeLessThanOrEqual(670);
+      expect(part.smsSegments).toBeLessThanOrEqual(10);
+    });
+  });
+});
+
+describe('getSmsEncoding', () => {
+  it.each([
+    ['Hello {world} €5', 'GSM-7'],
+    ['Ça coûte 5€', 'UCS-2'],
+    ['Thanks 👍', 'UCS-2'],
+  ])('detects %j as %s', (text, encoding) => {
+    expect(getSmsEncoding(text)).toBe(encoding);
+  });
+});
+
+describe('countSmsSegments', () => {
+  it.each([
+    [160, 1],
+    [161, 2],
+    [306, 2],
+    [307, 3],
+  ])('sends %i GSM-7 characters as %i segments', (length, segments) => {
+    expect(countSmsSegments('a'.repeat(length), 'GSM-7')).toBe(segments);
+  });
+
+  it('counts extended GSM-7 characters twice', () => {
+    expect(countSmsSegments('{'.repeat(80), 'GSM-7')).toBe(1);
+    expect(countSmsSegments('{'.repeat(81), 'GSM-7')).toBe(2);
+  });
+
+  it.each([
+    [70, 1],
+    [71, 2],
+    [134, 2],
+    [135, 3],
+  ])('sends %i UCS-2 characters as %i segments', (length, segments) => {
+    expect(countSmsSegments('é'.repeat(length), 'UCS-2')).toBe(segments);
+  });
+
+  it('counts an empty message as no segments', () => {
+    expect(countSmsSegments('')).toBe(0);
+  });
+});
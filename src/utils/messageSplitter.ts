@@ -0,0 +1,267 @@
+/**
+ * Split long outgoing messages into parts that fit a channel's length limit.
+ * Parts break on paragraph, sentence and word boundaries, keep URLs intact and
+ * never separate an asterisk pair that parseAsteriskFormatting renders as bold.
+ */
+
+export type MessageChannel = 'chat' | 'sms';
+
+export interface ChannelLimits {
+  maxLength: number; // per part, including the "(1/3) " prefix
+  partDelayMs: number; // pause between parts so they arrive in order
+}
+
+export const CHANNEL_LIMITS: Record<MessageChannel, ChannelLimits> = {
+  chat: { maxLength: 1000, partDelayMs: 500 },
+  // 10 concatenated GSM-7 segments; UCS-2 text gets SMS_UCS2_MAX_LENGTH instead
+  sms: { maxLength: 1530, partDelayMs: 1500 },
+};
+
+const SMS_UCS2_MAX_LENGTH = 670; // 10 concatenated UCS-2 segments
+
+// Parts are numbered only when the "(1/3) " prefix leaves at least this much room for text
+const MIN_NUMBERED_PART_LENGTH = 10;
+
+// Shortest part that can keep a bold pair closed and reopened: "*x*"
+const MIN_BOLD_PART_LENGTH = 3;
+
+export type SmsEncoding = 'GSM-7' | 'UCS-2';
+
+export interface MessagePart {
+  text: string;
+  length: number; // in the channel's units (GSM-7 septets for SMS)
+  smsSegments?: number;
+}
+
+export interface MessageSplit {
+  parts: MessagePart[];
+  channel: MessageChannel;
+  limit: number;
+  encoding?: SmsEncoding;
+}
+
+export interface SplitOptions {
+  channel?: MessageChannel;
+  maxLength?: number; // overrides the channel limit
+  numberParts?: boolean; // prefix parts with "(1/3) " when it fits (default true)
+}
+
+const GSM7_BASIC = '@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !"#¤%&\'()*+,-./0123456789:;<=>?¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà';
+const GSM7_EXTENDED = '^{}\\[~]|€\f';
+
+const URL_PATTERN = /(?:https?:\/\/|www\.)[^\s]+/gi;
+
+/**
+ * Detect which encoding an SMS body needs; any non GSM-7 character forces UCS-2
+ */
+export function getSmsEncoding(text: string): SmsEncoding {
+  for (const char of text) {
+    if (!GSM7_BASIC.includes(char) && !GSM7_EXTENDED.includes(char)) {
+      return 'UCS-2';
+    }
+  }
+  return 'GSM-7';
+}
+
+const charCost = (char: string, encoding?: SmsEncoding): number => {
+  if (encoding === 'GSM-7' && GSM7_EXTENDED.includes(char)) return 2; // escape + char
+  return char.length;
+};
+
+const measure = (text: string, encoding?: SmsEncoding): number => {
+  if (encoding !== 'GSM-7') return text.length;
+  let length = 0;
+  for (const char of text) {
+    length += charCost(char, encoding);
+  }
+  return length;
+};
+
+/**
+ * Number of SMS segments a text is billed and delivered as
+ */
+export function countSmsSegments(text: string, encoding: SmsEncoding = getSmsEncoding(text)): number {
+  const length = measure(text, encoding);
+  if (length === 0) return 0;
+
+  const [single, concatenated] = encoding === 'GSM-7' ? [160, 153] : [70, 67];
+  return length <= single ? 1 : Math.ceil(length / concatenated);
+}
+
+interface Range {
+  start: number;
+  end: number; // exclusive
+}
+
+interface BreakPoint {
+  end: number; // the part ends here (exclusive)
+  priority: number;
+}
+
+const PRIORITY = { word: 1, sentence: 2, line: 3, paragraph: 4 };
+
+// Same pairing as parseAsteriskFormatting: 1st with 2nd, 3rd with 4th, an odd last one is ignored
+const findBoldRanges = (text: string): Range[] => {
+  const positions: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '*') positions.push(i);
+  }
+
+  const ranges: Range[] = [];
+  for (let i = 0; i + 1 < positions.length; i += 2) {
+    ranges.push({ start: positions[i], end: positions[i + 1] + 1 });
+  }
+  return ranges;
+};
+
+const findUrlRanges = (text: string): Range[] =>
+  Array.from(text.matchAll(URL_PATTERN), match => ({ start: match.index!, end: match.index! + match[0].length }));
+
+const findBreakPoints = (text: string): BreakPoint[] => {
+  const byEnd = new Map<number, number>();
+  const add = (end: number, priority: number) => {
+    byEnd.set(end, Math.max(byEnd.get(end) ?? 0, priority));
+  };
+
+  for (const match of text.matchAll(/\s+/g)) {
+    const whitespace = match[0];
+    const priority = /\n\s*\n/.test(whitespace)
+      ? PRIORITY.paragraph
+      : whitespace.includes('\n') ? PRIORITY.line : PRIORITY.word;
+    add(match.index!, priority);
+  }
+
+  for (const match of text.matchAll(/[.!?…]+["')\]]*(?=\s)/g)) {
+    add(match.index! + match[0].length, PRIORITY.sentence);
+  }
+
+  return Array.from(byEnd, ([end, priority]) => ({ end, priority })).sort((a, b) => a.end - b.end);
+};
+
+const isInside = (ranges: Range[], position: number) =>
+  ranges.some(range => range.start < position && position < range.end);
+
+const skipWhitespace = (text: string, position: number) => {
+  while (position < text.length && /\s/.test(text[position])) position++;
+  return position;
+};
+
+// Split without part prefixes so that every part costs at most `limit`
+const splitText = (text: string, limit: number, encoding?: SmsEncoding): string[] => {
+  // Below MIN_BOLD_PART_LENGTH the extra asterisks would not fit, so bold pairs may be split
+  const boldRanges = limit >= MIN_BOLD_PART_LENGTH ? findBoldRanges(text) : [];
+  const urlRanges = findUrlRanges(text);
+  const breakPoints = findBreakPoints(text);
+
+  // costs[i] = cost of text[0..i)
+  const costs = [0];
+  for (let i = 0; i < text.length; i++) {
+    costs.push(costs[i] + charCost(text[i], encoding));
+  }
+  const costBetween = (start: number, end: number) => costs[end] - costs[start];
+
+  const parts: string[] = [];
+  let start = skipWhitespace(text, 0);
+  let carry = ''; // reopens a bold pair that had to be split
+
+  while (start < text.length) {
+    const budget = limit - measure(carry, encoding);
+
+    if (costBetween(start, text.length) <= budget) {
+      parts.push(carry + text.slice(start).trimEnd());
+      break;
+    }
+
+    // Leave room for a closing asterisk in case we end up inside a bold pair
+    let maxEnd = start;
+    while (maxEnd < text.length && costBetween(start, maxEnd + 1) <= budget - 1) maxEnd++;
+
+    const candidates = breakPoints.filter(point => point.end > start && point.end <= maxEnd);
+    const clean = candidates.filter(point => !isInside(boldRanges, point.end) && !isInside(urlRanges, point.end));
+
+    // Prefer the strongest boundary that still fills at least half the part
+    const halfway = start + (maxEnd - start) / 2;
+    let end: number | null = null;
+    for (const priority of [PRIORITY.paragraph, PRIORITY.line, PRIORITY.sentence, PRIORITY.word]) {
+      const match = clean.filter(point => point.priority === priority && point.end >= halfway).pop();
+      if (match) {
+        end = match.end;
+        break;
+      }
+    }
+
+    // Then any clean boundary, then a word boundary inside a long bold span
+    end = end ?? clean.pop()?.end
+      ?? candidates.filter(point => !isInside(urlRanges, point.end)).pop()?.end
+      ?? null;
+
+    // A single word or URL longer than the limit has to be cut
+    if (end === null || end <= start) {
+      end = maxEnd > start ? maxEnd : start + 1;
+      const code = text.charCodeAt(end - 1);
+      if (code >= 0xd800 && code <= 0xdbff && end - 1 > start) end--; // keep surrogate pairs together
+    }
+
+    const splitsBold = isInside(boldRanges, end);
+    let part = carry + text.slice(start, end).trimEnd();
+    if (splitsBold) part += '*';
+
+    parts.push(part);
+    carry = splitsBold ? '*' : '';
+    start = skipWhitespace(text, end);
+  }
+
+  return parts.filter(part => part.length > 0);
+};
+
+const partPrefix = (index: number, total: number) => `(${index}/${total}) `;
+
+/**
+ * Split a message for sending over a channel
+ */
+export function splitMessage(text: string, options: SplitOptions = {}): MessageSplit {
+  const channel = options.channel ?? 'chat';
+  const numberParts = options.numberParts ?? true;
+  const encoding = channel === 'sms' ? getSmsEncoding(text) : undefined;
+  const limit = options.maxLength
+    ?? (encoding === 'UCS-2' ? SMS_UCS2_MAX_LENGTH : CHANNEL_LIMITS[channel].maxLength);
+
+  const toPart = (partText: string): MessagePart => ({
+    text: partText,
+    length: measure(partText, encoding),
+    ...(channel === 'sms' ? { smsSegments: countSmsSegments(partText, encoding) } : {}),
+  });
+
+  const trimmed = text.trim();
+  if (measure(trimmed, encoding) <= limit) {
+    return { parts: trimmed ? [toPart(trimmed)] : [], channel, limit, encoding };
+  }
+
+  let texts = splitText(trimmed, limit, encoding);
+
+  if (numberParts) {
+    // The prefix length depends on the part count, so retry until the prefix we made room for is
+    // at least as long as the one the parts need; leave parts unnumbered if it never fits
+    let total = texts.length;
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const prefixLength = partPrefix(total, total).length;
+      if (limit - prefixLength < MIN_NUMBERED_PART_LENGTH) break;
+
+      const numbered = splitText(trimmed, limit - prefixLength, encoding);
+      if (partPrefix(numbered.length, numbered.length).length <= prefixLength) {
+        texts = numbered.map((partText, i) => `${partPrefix(i + 1, numbered.length)}${partText}`);
+        break;
+      }
+      total = numbered.length;
+    }
+  }
+
+  return { parts: texts.map(toPart), channel, limit, encoding };
+}
+
+/**
+ * Pick the channel for a conversation from its participants; SMS-bound participants limit the length
+ */
+export function getMessageChannel(participants: Array<{ type?: string }> = []): MessageChannel {
+  return participants.some(participant => participant.type === 'sms') ? 'sms' : 'chat';
+}
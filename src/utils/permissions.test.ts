@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { ROLE_PERMISSIONS, getPermissions, hasPermission } from './permissions';
+import type { User } from '../types';
+
+const user = (overrides: Partial<User> = {}): User => ({
+  id: '1',
+  email: 'maria@example.com',
+  name: 'Maria Lopez',
+  role: 'expert',
+  ...overrides,
+});
+
+// The matrix backend/utils/permissions.js enforces, pinned by backend/tests/permissions.test.js
+const BACKEND_MATRIX: Record<string, string[]> = {
+  admin: [
+    'conversation.viewAll',
+    'message.send',
+    'inquiry.viewAll',
+    'inquiry.create',
+    'inquiry.updateStatus',
+    'inquiry.delete',
+    'inquiry.reassign',
+    'bot.view',
+    'bot.toggle',
+    'traveler.dm.view',
+    'traveler.dm.send',
+    'traveler.message.send',
+    'system.webhooks.view',
+    'user.invite',
+    'user.manage',
+    'user.sessions.manage',
+    'audit.view',
+  ],
+  supervisor: [
+    'conversation.viewAll',
+    'message.send',
+    'inquiry.viewAll',
+    'inquiry.create',
+    'inquiry.updateStatus',
+    'inquiry.reassign',
+    'bot.view',
+    'bot.toggle',
+    'traveler.dm.view',
+    'traveler.dm.send',
+    'traveler.message.send',
+  ],
+  auditor: ['conversation.viewAll', 'inquiry.viewAll', 'bot.view', 'traveler.dm.view', 'audit.view'],
+  expert: ['conversation.viewAssigned', 'message.send', 'inquiry.accept', 'inquiry.updateStatus'],
+  bot: ['message.send'],
+};
+
+describe('ROLE_PERMISSIONS', () => {
+  it('matches the matrix the backend enforces', () => {
+    expect(Object.keys(ROLE_PERMISSIONS).sort()).toEqual(Object.keys(BACKEND_MATRIX).sort());
+    Object.entries(ROLE_PERMISSIONS).forEach(([role, permissions]) => {
+      expect([...permissions].sort(), role).toEqual([...BACKEND_MATRIX[role]].sort());
+    });
+  });
+
+  it('keeps auditors read-only', () => {
+    const writes = ['message.send', 'inquiry.create', 'inquiry.updateStatus', 'inquiry.delete', 'bot.toggle', 'traveler.dm.send'];
+    writes.forEach(permission => {
+      expect(ROLE_PERMISSIONS.auditor).not.toContain(permission);
+    });
+  });
+});
+
+describe('hasPermission', () => {
+  it('falls back to the role matrix for sessions stored without permissions', () => {
+    expect(hasPermission(user(), 'inquiry.accept')).toBe(true);
+    expect(hasPermission(user(), 'conversation.viewAll')).toBe(false);
+    expect(hasPermission(user({ role: 'supervisor' }), 'bot.toggle')).toBe(true);
+  });
+
+  it('prefers the permissions sent by the backend', () => {
+    const restricted = user({ role: 'admin', permissions: ['conversation.viewAll'] });
+    expect(hasPermission(restricted, 'conversation.viewAll')).toBe(true);
+    expect(hasPermission(restricted, 'inquiry.delete')).toBe(false);
+  });
+
+  it('denies everything without a user or with an unknown role', () => {
+    expect(hasPermission(null, 'message.send')).toBe(false);
+    expect(getPermissions(user({ role: 'guest' as User['role'] }))).toEqual([]);
+  });
+});
@@ -0,0 +1,79 @@
+import type { Permission, User, UserRole } from '../types';
+
+/**
+ * Role → permission matrix. Mirrors backend/utils/permissions.js, which is what the API enforces;
+ * the UI only uses it to hide actions the API would refuse.
+ */
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  admin: [
+    'conversation.viewAll',
+    'message.send',
+    'inquiry.viewAll',
+    'inquiry.create',
+    'inquiry.updateStatus',
+    'inquiry.delete',
+    'inquiry.reassign',
+    'bot.view',
+    'bot.toggle',
+    'traveler.dm.view',
+    'traveler.dm.send',
+    'traveler.message.send',
+    'system.webhooks.view',
+    'user.invite',
+    'user.manage',
+    'user.sessions.manage',
+    'audit.view',
+  ],
+  supervisor: [
+    'conversation.viewAll',
+    'message.send',
+    'inquiry.viewAll',
+    'inquiry.create',
+    'inquiry.updateStatus',
+    'inquiry.reassign',
+    'bot.view',
+    'bot.toggle',
+    'traveler.dm.view',
+    'traveler.dm.send',
+    'traveler.message.send',
+  ],
+  auditor: [
+    'conversation.viewAll',
+    'inquiry.viewAll',
+    'bot.view',
+    'traveler.dm.view',
+    'audit.view',
+  ],
+  expert: [
+    'conversation.viewAssigned',
+    'message.send',
+    'inquiry.accept',
+    'inquiry.updateStatus',
+  ],
+  bot: [
+    'message.send',
+  ],
+};
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  admin: 'Admin',
+  supervisor: 'Supervisor',
+  auditor: 'Auditor (read-only)',
+  expert: 'Local Expert',
+  bot: 'Bot',
+};
+
+/**
+ * Permissions for a user, preferring the list sent by the backend
+ */
+export function getPermissions(user: User | null | undefined): Permission[] {
+  if (!user) return [];
+  return user.permissions ?? ROLE_PERMISSIONS[user.role] ?? [];
+}
+
+/**
+ * Check whether a user holds a permission
+ */
+export function hasPermission(user: User | null | undefined, permission: Permission): boolean {
+  return getPermissions(user).includes(permission);
+}
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { SLA_METRICS, formatSlaDuration, formatSlaTarget, getMostUrgentClock, getSlaCountdown } from './sla';
+import type { SlaClock } from '../types';
+
+const START = new Date('2025-10-28T10:00:00.000Z').getTime();
+const MINUTE = 60 * 1000;
+
+// A 60-minute clock started at START
+const clock = (overrides: Partial<SlaClock> = {}): SlaClock => ({
+  metric: 'accept',
+  startedAt: new Date(START).toISOString(),
+  dueAt: new Date(START + 60 * MINUTE).toISOString(),
+  breached: false,
+  ...overrides,
+});
+
+describe('SLA_METRICS', () => {
+  // Pinned on the backend side by backend/tests/sla.test.js
+  it('matches the metrics the backend records', () => {
+    expect(SLA_METRICS).toEqual(['accept', 'first_reply', 'traveler_wait']);
+  });
+});
+
+describe('formatSlaDuration', () => {
+  it('rounds down to whole minutes', () => {
+    expect(formatSlaDuration(30 * 1000)).toBe('<1m');
+    expect(formatSlaDuration(12 * MINUTE + 59 * 1000)).toBe('12m');
+  });
+
+  it('switches to hours and days', () => {
+    expect(formatSlaDuration(65 * MINUTE)).toBe('1h 05m');
+    expect(formatSlaDuration(51 * 60 * MINUTE)).toBe('2d 3h');
+  });
+
+  it('ignores the sign of overdue durations', () => {
+    expect(formatSlaDuration(-5 * MINUTE)).toBe('5m');
+  });
+});
+
+describe('formatSlaTarget', () => {
+  it('uses hours for whole hours', () => {
+    expect(formatSlaTarget(30)).toBe('30 min');
+    expect(formatSlaTarget(120)).toBe('2 h');
+    expect(formatSlaTarget(0)).toBe('Off');
+  });
+});
+
+describe('getSlaCountdown', () => {
+  it('counts down while most of the target is left', () => {
+    expect(getSlaCountdown(clock(), START + 20 * MINUTE)).toEqual({
+      tone: 'ok',
+      remainingMs: 40 * MINUTE,
+      label: 'Accept due in 40m',
+    });
+  });
+
+  it('warns in the last quarter of the target', () => {
+    expect(getSlaCountdown(clock({ metric: 'first_reply' }), START + 50 * MINUTE)).toMatchObject({
+      tone: 'warning',
+      label: 'First reply due in 10m',
+    });
+  });
+
+  it('reports how long a clock is overdue', () => {
+    expect(getSlaCountdown(clock({ metric: 'traveler_wait' }), START + 65 * MINUTE)).toMatchObject({
+      tone: 'breached',
+      label: 'Traveler reply overdue by 5m',
+    });
+  });
+
+  it('trusts the server when it says a clock ran out', () => {
+    expect(getSlaCountdown(clock({ breached: true }), START).tone).toBe('breached');
+  });
+});
+
+describe('getMostUrgentClock', () => {
+  it('picks the clock due first', () => {
+    const later = clock({ metric: 'traveler_wait', dueAt: new Date(START + 90 * MINUTE).toISOString() });
+    const sooner = clock({ metric: 'first_reply' });
+
+    expect(getMostUrgentClock([later, sooner])).toBe(sooner);
+    expect(getMostUrgentClock([])).toBeNull();
+  });
+});
@@ -0,0 +1,93 @@
+import type { SlaClock, SlaMetric } from '../types';
+
+/**
+ * SLA countdown helpers. The clocks themselves are worked out by the server
+ * (backend/utils/sla.js); these only count down to their due time.
+ */
+export const SLA_METRICS: SlaMetric[] = ['accept', 'first_reply', 'traveler_wait'];
+
+export const SLA_METRIC_LABELS: Record<SlaMetric, string> = {
+  accept: 'Time to accept',
+  first_reply: 'Time to first reply',
+  traveler_wait: 'Traveler wait',
+};
+
+// What has to happen before the clock runs out
+const SLA_DEADLINE_LABELS: Record<SlaMetric, string> = {
+  accept: 'Accept',
+  first_reply: 'First reply',
+  traveler_wait: 'Traveler reply',
+};
+
+export type SlaTone = 'ok' | 'warning' | 'breached';
+
+// Badge colours
+export const SLA_TONE_STYLES: Record<SlaTone, string> = {
+  ok: 'bg-blue-100 text-blue-800',
+  warning: 'bg-orange-100 text-orange-800',
+  breached: 'bg-red-100 text-red-800',
+};
+
+// Share of the target left when a badge turns orange
+const WARNING_SHARE = 0.25;
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Compact duration, e.g. "45m", "1h 05m", "2d 3h"
+ */
+export function formatSlaDuration(ms: number): string {
+  const minutes = Math.floor(Math.abs(ms) / MINUTE_MS);
+
+  if (minutes < 1) return '<1m';
+  if (minutes < 60) return `${minutes}m`;
+
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ${String(minutes % 60).padStart(2, '0')}m`;
+
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+}
+
+/**
+ * SLA target in words, e.g. "30 min" or "2 h"
+ */
+export function formatSlaTarget(minutes: number): string {
+  if (minutes === 0) return 'Off';
+  return minutes % 60 === 0 ? `${minutes / 60} h` : `${minutes} min`;
+}
+
+export interface SlaCountdown {
+  tone: SlaTone;
+  remainingMs: number; // Negative once overdue
+  label: string; // e.g. "Accept due in 12m" or "First reply overdue by 5m"
+}
+
+/**
+ * Where a clock stands at `now`
+ */
+export function getSlaCountdown(clock: SlaClock, now: number = Date.now()): SlaCountdown {
+  const dueAt = new Date(clock.dueAt).getTime();
+  const target = dueAt - new Date(clock.startedAt).getTime();
+  const remainingMs = dueAt - now;
+  const deadline = SLA_DEADLINE_LABELS[clock.metric];
+
+  if (clock.breached || remainingMs <= 0) {
+    return { tone: 'breached', remainingMs, label: `${deadline} overdue by ${formatSlaDuration(remainingMs)}` };
+  }
+
+  return {
+    tone: remainingMs <= target * WARNING_SHARE ? 'warning' : 'ok',
+    remainingMs,
+    label: `${deadline} due in ${formatSlaDuration(remainingMs)}`,
+  };
+}
+
+/**
+ * The clock closest to running out (or furthest overdue), or null for none
+ */
+export function getMostUrgentClock(clocks: SlaClock[]): SlaClock | null {
+  return clocks.reduce<SlaClock | null>(
+    (urgent, clock) => (!urgent || new Date(clock.dueAt).getTime() < new Date(urgent.dueAt).getTime() ? clock : urgent),
+    null
+  );
+}
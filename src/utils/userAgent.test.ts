@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { describeUserAgent } from './userAgent';
+
+describe('describeUserAgent', () => {
+  it('names the browser and platform of common desktop browsers', () => {
+    expect(describeUserAgent(
+      'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
+    )).toBe('Chrome on Windows');
+    expect(describeUserAgent(
+      'Mozilla/5.0 (Macintosh; Intel Mac OS X 14_1) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.1 Safari/605.1.15'
+    )).toBe('Safari on macOS');
+    expect(describeUserAgent(
+      'Mozilla/5.0 (X11; Ubuntu; Linux x86_64; rv:121.0) Gecko/20100101 Firefox/121.0'
+    )).toBe('Firefox on Linux');
+  });
+
+  it('does not mistake Edge for Chrome', () => {
+    expect(describeUserAgent(
+      'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36 Edg/120.0.2210.91'
+    )).toBe('Edge on Windows');
+  });
+
+  it('prefers the mobile platform over the desktop one it mentions', () => {
+    expect(describeUserAgent(
+      'Mozilla/5.0 (iPhone; CPU iPhone OS 17_1 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) CriOS/120.0.6099.119 Mobile/15E148 Safari/604.1'
+    )).toBe('Chrome on iPhone');
+    expect(describeUserAgent(
+      'Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.6099.144 Mobile Safari/537.36'
+    )).toBe('Chrome on Android');
+  });
+
+  it('falls back to the product token for non-browser clients', () => {
+    expect(describeUserAgent('curl/8.4.0')).toBe('curl/8.4.0');
+    expect(describeUserAgent('PostmanRuntime/7.36.0')).toBe('PostmanRuntime/7.36.0');
+  });
+
+  it('handles missing user agents', () => {
+    expect(describeUserAgent(null)).toBe('Unknown device');
+    expect(describeUserAgent('   ')).toBe('Unknown device');
+  });
+});
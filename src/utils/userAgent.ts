@@ -0,0 +1,40 @@
+// Checked in order: Edge and Opera also announce Chrome, and Chrome also announces Safari
+const BROWSERS: Array<[RegExp, string]> = [
+  [/Edg(?:e|A|iOS)?\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/Firefox\/|FxiOS\//, 'Firefox'],
+  [/Chrome\/|CriOS\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+// iOS and Android user agents also mention Mac OS X and Linux
+const PLATFORMS: Array<[RegExp, string]> = [
+  [/iPhone/, 'iPhone'],
+  [/iPad/, 'iPad'],
+  [/Android/, 'Android'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux'],
+];
+
+const match = (userAgent: string, patterns: Array<[RegExp, string]>) =>
+  patterns.find(([pattern]) => pattern.test(userAgent))?.[1] ?? null;
+
+/**
+ * Short label for a session's device, e.g. "Chrome on Windows"
+ */
+export function describeUserAgent(userAgent: string | null | undefined): string {
+  if (!userAgent || !userAgent.trim()) {
+    return 'Unknown device';
+  }
+
+  const browser = match(userAgent, BROWSERS);
+  const platform = match(userAgent, PLATFORMS);
+
+  if (browser && platform) return `${browser} on ${platform}`;
+  if (browser || platform) return (browser || platform)!;
+
+  // Scripts and API clients: keep the product token, e.g. "curl/8.4.0"
+  return userAgent.split(' ')[0].slice(0, 40);
+}
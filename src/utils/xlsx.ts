@@ -0,0 +1,187 @@
+/**
+ * Minimal XLSX reader for spreadsheet imports: the cell text of the first worksheet.
+ * An .xlsx file is a zip of XML parts; entries are inflated with the browser's
+ * DecompressionStream and the XML is read with DOMParser. Formulas come back as their
+ * last calculated value and dates as Excel serial numbers.
+ */
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_ENTRY_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+
+const STORED = 0;
+const DEFLATED = 8;
+
+export class XlsxReadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'XlsxReadError';
+  }
+}
+
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+// Central directory of the zip, by entry name
+function readZipDirectory(view: DataView): Map<string, ZipEntry> {
+  // The end-of-central-directory record sits in the last 64 KiB (its comment can be that long)
+  let eocd = -1;
+  for (let offset = view.byteLength - 22; offset >= Math.max(0, view.byteLength - 22 - 0xffff); offset--) {
+    if (view.getUint32(offset, true) === EOCD_SIGNATURE) {
+      eocd = offset;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw new XlsxReadError('This file is not a valid .xlsx workbook');
+  }
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const decoder = new TextDecoder();
+  const entries = new Map<string, ZipEntry>();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_ENTRY_SIGNATURE) {
+      throw new XlsxReadError('This .xlsx workbook is damaged');
+    }
+
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = decoder.decode(new Uint8Array(view.buffer, view.byteOffset + offset + 46, nameLength));
+
+    entries.set(name, {
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+async function readZipEntry(view: DataView, entry: ZipEntry): Promise<string> {
+  const header = entry.localHeaderOffset;
+  if (view.getUint32(header, true) !== LOCAL_HEADER_SIGNATURE) {
+    throw new XlsxReadError('This .xlsx workbook is damaged');
+  }
+
+  const dataStart = header + 30 + view.getUint16(header + 26, true) + view.getUint16(header + 28, true);
+  const data = new Uint8Array(view.buffer, view.byteOffset + dataStart, entry.compressedSize);
+
+  if (entry.method === STORED) {
+    return new TextDecoder().decode(data);
+  }
+  if (entry.method !== DEFLATED) {
+    throw new XlsxReadError('This .xlsx workbook uses an unsupported compression method');
+  }
+
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).text();
+}
+
+function parseXml(text: string): Document {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new XlsxReadError('This .xlsx workbook is damaged');
+  }
+  return doc;
+}
+
+// Zero-based column of a cell reference, e.g. "C7" -> 2
+function columnIndex(reference: string): number {
+  const letters = reference.replace(/[^A-Z]/gi, '').toUpperCase();
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+// Text of a shared or inline string, leaving out phonetic guides
+function stringItemText(item: Element): string {
+  return Array.from(item.getElementsByTagName('t'))
+    .filter(t => t.parentElement?.localName !== 'rPh')
+    .map(t => t.textContent ?? '')
+    .join('');
+}
+
+// Path of the first worksheet, from the workbook and its relationships
+async function firstSheetPath(view: DataView, entries: Map<string, ZipEntry>): Promise<string> {
+  const workbookEntry = entries.get('xl/workbook.xml');
+  const relsEntry = entries.get('xl/_rels/workbook.xml.rels');
+
+  if (workbookEntry && relsEntry) {
+    const sheet = parseXml(await readZipEntry(view, workbookEntry)).getElementsByTagName('sheet')[0];
+    const relationshipId = sheet?.getAttribute('r:id');
+    const relationship = Array.from(parseXml(await readZipEntry(view, relsEntry)).getElementsByTagName('Relationship'))
+      .find(element => element.getAttribute('Id') === relationshipId);
+    const target = relationship?.getAttribute('Target');
+
+    if (target) {
+      return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+    }
+  }
+
+  return 'xl/worksheets/sheet1.xml';
+}
+
+/**
+ * Rows of the first worksheet as cell text; gaps are filled with empty strings and
+ * empty rows are dropped.
+ */
+export async function readXlsxRows(buffer: ArrayBuffer): Promise<string[][]> {
+  const view = new DataView(buffer);
+  const entries = readZipDirectory(view);
+
+  const sheetEntry = entries.get(await firstSheetPath(view, entries));
+  if (!sheetEntry) {
+    throw new XlsxReadError('This .xlsx workbook has no worksheet');
+  }
+
+  const sharedStringsEntry = entries.get('xl/sharedStrings.xml');
+  const sharedStrings = sharedStringsEntry
+    ? Array.from(parseXml(await readZipEntry(view, sharedStringsEntry)).getElementsByTagName('si')).map(stringItemText)
+    : [];
+
+  const sheet = parseXml(await readZipEntry(view, sheetEntry));
+  const rows: string[][] = [];
+
+  for (const rowElement of Array.from(sheet.getElementsByTagName('row'))) {
+    const row: string[] = [];
+
+    Array.from(rowElement.getElementsByTagName('c')).forEach((cell, position) => {
+      const reference = cell.getAttribute('r');
+      const index = reference ? columnIndex(reference) : position;
+      const type = cell.getAttribute('t');
+      const value = cell.getElementsByTagName('v')[0]?.textContent ?? '';
+
+      let text: string;
+      if (type === 's') {
+        text = sharedStrings[Number(value)] ?? '';
+      } else if (type === 'inlineStr') {
+        const inline = cell.getElementsByTagName('is')[0];
+        text = inline ? stringItemText(inline) : '';
+      } else if (type === 'b') {
+        text = value === '1' ? 'TRUE' : 'FALSE';
+      } else {
+        text = value;
+      }
+
+      while (row.length < index) row.push('');
+      row[index] = text;
+    });
+
+    if (row.some(value => value.trim() !== '')) {
+      rows.push(row.map(value => value ?? ''));
+    }
+  }
+
+  return rows;
+}
@@ -0,0 +1,30 @@
+/*
+  # Invite-only registration
+
+  1. New Tables
+    - `user_invites`
+      - `token_hash` - SHA-256 of the invite token; the token itself is only shown once to the admin
+      - `email` - optional; when set, only this address can register with the invite
+      - `role` - role the new account receives
+      - `expires_at`, `used_at`, `revoked_at` - an invite is usable while all three allow it
+
+  2. Security
+    - Tokens are stored hashed so a database leak does not expose usable invites
+    - `used_at` is set in the same transaction that creates the user, so an invite works once
+*/
+
+CREATE TABLE IF NOT EXISTS user_invites (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  token_hash text NOT NULL UNIQUE,
+  email text,
+  role text NOT NULL,
+  created_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  expires_at timestamptz NOT NULL,
+  used_at timestamptz,
+  used_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  revoked_at timestamptz
+);
+
+-- Outstanding invites are listed newest first
+CREATE INDEX IF NOT EXISTS user_invites_created_at_idx ON user_invites(created_at DESC);
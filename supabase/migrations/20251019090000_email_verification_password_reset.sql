@@ -0,0 +1,20 @@
+/*
+  # Email verification and password reset
+
+  1. Changes
+    - `users.email_verified_at` - set once the user follows the link in the verification email
+    - `users.password_changed_at` - set on every password reset
+
+  2. Data
+    - Accounts that existed before verification was introduced are treated as verified
+
+  3. Security
+    - Reset and verification tokens are signed and expiring, so nothing is stored for them.
+      A reset token also carries a fingerprint of the password hash it was issued against,
+      which makes it unusable once the password has changed.
+*/
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS email_verified_at timestamptz;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS password_changed_at timestamptz;
+
+UPDATE users SET email_verified_at = created_at WHERE email_verified_at IS NULL;
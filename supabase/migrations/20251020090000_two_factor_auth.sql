@@ -0,0 +1,32 @@
+/*
+  # TOTP two-factor authentication
+
+  1. Changes
+    - `users.totp_secret` - encrypted authenticator secret once 2FA is enabled
+    - `users.totp_pending_secret` - encrypted secret during enrollment, until the first code is confirmed
+    - `users.totp_enabled_at` - set when enrollment is confirmed
+    - `users.totp_last_step` - last accepted 30-second time step, so a code cannot be replayed
+
+  2. New Tables
+    - `user_recovery_codes`
+      - `code_hash` - SHA-256 of a single-use recovery code; codes are only shown once
+      - `used_at` - set when the code is spent
+
+  3. Security
+    - Secrets are encrypted with AES-256-GCM by the backend before they are stored
+*/
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS totp_secret text;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS totp_pending_secret text;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS totp_enabled_at timestamptz;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS totp_last_step bigint;
+
+CREATE TABLE IF NOT EXISTS user_recovery_codes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  code_hash text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  used_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS user_recovery_codes_user_id_idx ON user_recovery_codes(user_id);
@@ -0,0 +1,29 @@
+/*
+  # Server-side session registry
+
+  1. New Tables
+    - `user_sessions`
+      - One row per login; its id is carried in the `sid` claim of both the access and refresh token
+      - `user_agent`, `ip_address` - where the login came from, shown on the Devices & sessions screen
+      - `last_seen_at` - bumped by authenticated requests (at most once a minute)
+      - `expires_at` - follows the refresh token, extended on every refresh
+      - `revoked_at`, `revoked_reason` - set on logout or revocation; the tokens stop working immediately
+
+  2. Security
+    - `authenticateToken` and `/api/auth/refresh` reject tokens whose session is revoked or expired
+*/
+
+CREATE TABLE IF NOT EXISTS user_sessions (
+  id uuid PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  user_agent text,
+  ip_address text,
+  created_at timestamptz NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  last_seen_at timestamptz NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  expires_at timestamptz NOT NULL,
+  revoked_at timestamptz,
+  revoked_reason text
+);
+
+-- Active sessions are always looked up per user
+CREATE INDEX IF NOT EXISTS user_sessions_user_id_idx ON user_sessions(user_id) WHERE revoked_at IS NULL;
@@ -0,0 +1,49 @@
+/*
+  # Audit log of privileged actions
+
+  1. New Tables
+    - `audit_log`
+      - One row per privileged action: bot toggles, messages to travelers, conversation acceptance,
+        inquiry status changes and deletions, invites and session revocations
+      - `actor_*` - who did it, copied from the user row so entries survive the user being deleted
+      - `action` - dotted name such as `inquiry.delete`
+      - `target_type`, `target_id`, `conversation_sid` - what it was done to
+      - `before`, `after` - the relevant values on either side of the change
+      - `metadata` - anything else worth keeping, e.g. the message that was sent
+
+  2. Security
+    - Append-only: a trigger rejects UPDATE and DELETE, so entries cannot be edited or removed
+*/
+
+CREATE TABLE IF NOT EXISTS audit_log (
+  id bigserial PRIMARY KEY,
+  created_at timestamptz NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  actor_id uuid,
+  actor_email text,
+  actor_name text,
+  actor_role text,
+  action text NOT NULL,
+  target_type text,
+  target_id text,
+  conversation_sid text,
+  before jsonb,
+  after jsonb,
+  metadata jsonb,
+  ip_address text
+);
+
+CREATE INDEX IF NOT EXISTS audit_log_created_at_idx ON audit_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS audit_log_actor_id_idx ON audit_log(actor_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS audit_log_conversation_sid_idx ON audit_log(conversation_sid, created_at DESC)
+  WHERE conversation_sid IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION audit_log_reject_changes() RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'audit_log is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS audit_log_append_only ON audit_log;
+CREATE TRIGGER audit_log_append_only
+  BEFORE UPDATE OR DELETE ON audit_log
+  FOR EACH ROW EXECUTE FUNCTION audit_log_reject_changes();
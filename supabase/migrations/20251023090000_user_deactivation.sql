@@ -0,0 +1,15 @@
+/*
+  # Account deactivation
+
+  1. Changes
+    - `users.deactivated_at` - set when an admin deactivates the account; NULL means active
+    - `users.deactivated_by` - the admin who did it
+
+  2. Security
+    - Deactivated users cannot log in, refresh or use existing tokens; their sessions are revoked
+      when they are deactivated
+    - Deactivated experts are left out of expert pickers and cannot be assigned new inquiries
+*/
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS deactivated_at timestamptz;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS deactivated_by uuid REFERENCES users(id) ON DELETE SET NULL;
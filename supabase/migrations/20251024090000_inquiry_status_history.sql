@@ -0,0 +1,64 @@
+/*
+  # Inquiry lifecycle and status history
+
+  1. Changes
+    - `inquiries.status` is limited to the lifecycle statuses: new, assigned, accepted, in_progress,
+      waiting_on_traveler, resolved, closed, reopened
+    - Which transitions are allowed is enforced by the API (backend/utils/inquiryStatus.js)
+
+  2. New Tables
+    - `inquiry_status_history`
+      - One row per status change, written in the same transaction as the change
+      - `from_status` is NULL for the starting point recorded by this migration
+      - `changed_by`, `changed_by_name` - the user, or NULL for webhook and system changes
+      - `source` - user, webhook, system or migration
+      - `note` - optional reason given with the change
+
+  3. Data
+    - Statuses outside the lifecycle, which the API used to accept, are mapped onto it before the
+      constraint is added: spellings like "In Progress" to their lifecycle status, anything else
+      back to `assigned` (or `new` when nobody is assigned) so it goes through acceptance again
+    - Every existing inquiry gets a `migration` entry for the status it is in today, so each
+      timeline has a starting point. Future data fixes should insert history rows the same way
+      instead of updating `inquiries.status` on its own.
+*/
+
+ALTER TABLE inquiries DROP CONSTRAINT IF EXISTS inquiries_status_check;
+
+UPDATE inquiries
+SET status = CASE
+  WHEN regexp_replace(lower(trim(status)), '[ -]+', '_', 'g') IN (
+    'new', 'assigned', 'accepted', 'in_progress', 'waiting_on_traveler', 'resolved', 'closed', 'reopened'
+  ) THEN regexp_replace(lower(trim(status)), '[ -]+', '_', 'g')
+  WHEN assigned_expert_id IS NOT NULL THEN 'assigned'
+  ELSE 'new'
+END
+WHERE status IS NULL OR status NOT IN (
+  'new', 'assigned', 'accepted', 'in_progress', 'waiting_on_traveler', 'resolved', 'closed', 'reopened'
+);
+
+ALTER TABLE inquiries ADD CONSTRAINT inquiries_status_check CHECK (status IN (
+  'new', 'assigned', 'accepted', 'in_progress', 'waiting_on_traveler', 'resolved', 'closed', 'reopened'
+));
+
+CREATE TABLE IF NOT EXISTS inquiry_status_history (
+  id bigserial PRIMARY KEY,
+  inquiry_id uuid NOT NULL REFERENCES inquiries(id) ON DELETE CASCADE,
+  from_status text,
+  to_status text NOT NULL,
+  changed_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  changed_by_name text,
+  source text NOT NULL DEFAULT 'user' CHECK (source IN ('user', 'webhook', 'system', 'migration')),
+  note text,
+  created_at timestamptz NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS inquiry_status_history_inquiry_id_idx
+  ON inquiry_status_history(inquiry_id, created_at);
+
+INSERT INTO inquiry_status_history (inquiry_id, from_status, to_status, source, note, created_at)
+SELECT i.id, NULL, i.status, 'migration', 'Status when history tracking began', COALESCE(i.updated_at, i.created_at)
+FROM inquiries i
+WHERE NOT EXISTS (
+  SELECT 1 FROM inquiry_status_history h WHERE h.inquiry_id = i.id
+);
@@ -0,0 +1,26 @@
+/*
+  # Inquiry reassignment handoffs
+
+  1. New Tables
+    - `inquiry_handoffs`
+      - One row each time an inquiry is handed from one expert to another
+      - `from_expert_id`, `to_expert_id` - previous and new assigned expert
+      - `note` - internal handoff note for the new expert; never sent to the traveler
+      - `created_by`, `created_by_name` - who reassigned it, copied so the row survives the user being deleted
+
+  2. Notes
+    - The new expert sees the latest handoff addressed to them while accepting the inquiry
+*/
+
+CREATE TABLE IF NOT EXISTS inquiry_handoffs (
+  id bigserial PRIMARY KEY,
+  inquiry_id uuid NOT NULL REFERENCES inquiries(id) ON DELETE CASCADE,
+  from_expert_id uuid REFERENCES users(id) ON DELETE SET NULL,
+  to_expert_id uuid REFERENCES users(id) ON DELETE SET NULL,
+  note text NOT NULL,
+  created_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_by_name text,
+  created_at timestamptz NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS inquiry_handoffs_inquiry_id_idx ON inquiry_handoffs(inquiry_id, created_at DESC);
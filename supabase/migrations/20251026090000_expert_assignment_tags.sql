@@ -0,0 +1,19 @@
+/*
+  # Expert profile tags for automatic assignment
+
+  1. Changes
+    - `users.skills` - what the expert handles, e.g. `visa`, `rail`, `family`
+    - `users.regions` - where the expert is knowledgeable, e.g. `japan`, `southeast-asia`
+    - Tags are stored lowercase without duplicates; the API normalizes them
+
+  2. Notes
+    - The `skill_region` assignment strategy matches these against the skills and region of a new inquiry
+    - Existing users start without tags, so that strategy falls back to the least busy expert until tags are filled in
+*/
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS skills text[] NOT NULL DEFAULT '{}';
+ALTER TABLE users ADD COLUMN IF NOT EXISTS regions text[] NOT NULL DEFAULT '{}';
+
+-- Round-robin looks up when each expert was last handed an inquiry
+CREATE INDEX IF NOT EXISTS inquiries_assigned_expert_created_idx ON inquiries(assigned_expert_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS inquiry_handoffs_to_expert_idx ON inquiry_handoffs(to_expert_id, created_at DESC);
@@ -0,0 +1,39 @@
+/*
+  # Expert availability
+
+  1. Changes
+    - `users.timezone` - IANA timezone the weekly schedule is written in
+    - `users.weekly_schedule` - shifts per weekday, e.g. `{"mon": [{"start": "09:00", "end": "17:00"}]}`;
+      NULL means no schedule, so the expert counts as always on shift
+    - `users.availability_override` - manual `away` or `available`, overriding the schedule until cleared
+    - `users.availability_override_at` - when the override was set
+
+  2. New Tables
+    - `expert_time_off`
+      - Out-of-office date ranges, inclusive, as dates in the expert's timezone
+      - `note` - optional reason shown to admins
+
+  3. Notes
+    - Automatic assignment skips experts who are away or out of office, and prefers experts on shift
+*/
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS timezone text NOT NULL DEFAULT 'UTC';
+ALTER TABLE users ADD COLUMN IF NOT EXISTS weekly_schedule jsonb;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS availability_override text;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS availability_override_at timestamptz;
+
+ALTER TABLE users DROP CONSTRAINT IF EXISTS users_availability_override_check;
+ALTER TABLE users ADD CONSTRAINT users_availability_override_check
+  CHECK (availability_override IS NULL OR availability_override IN ('away', 'available'));
+
+CREATE TABLE IF NOT EXISTS expert_time_off (
+  id bigserial PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  starts_on date NOT NULL,
+  ends_on date NOT NULL,
+  note text,
+  created_at timestamptz NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT expert_time_off_range_check CHECK (ends_on >= starts_on)
+);
+
+CREATE INDEX IF NOT EXISTS expert_time_off_user_id_idx ON expert_time_off(user_id, ends_on);
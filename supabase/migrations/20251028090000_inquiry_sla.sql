@@ -0,0 +1,57 @@
+/*
+  # Inquiry SLAs
+
+  1. Changes
+    - `inquiries.last_expert_reply_at` - when the assigned expert last posted in the conversation
+    - `inquiries.traveler_waiting_since` - when the oldest traveler message nobody on the team has
+      answered yet arrived; NULL when no one is waiting
+    - Both are kept up to date by the message-added webhook
+    - `inquiries.sla_clocks_from` - no SLA clock of the inquiry starts before this time; set to the
+      migration time for existing inquiries, NULL for new ones
+
+  2. New Tables
+    - `inquiry_sla_breaches`
+      - One row per SLA clock that ran out: `accept` (time to accept), `first_reply` (time from
+        acceptance to the expert's first reply) or `traveler_wait` (time a traveler waits for an answer)
+      - `expert_id`, `expert_name` - the expert responsible when the clock ran out, copied so the
+        row survives the user being deleted
+      - `started_at`, `due_at` - when the clock started and when it ran out; a clock is recorded once
+      - `escalation` - `notified` when admins were told, `reassigned` when the inquiry was also handed
+        to another expert (`reassigned_to`, `reassigned_to_name`)
+
+  3. Data
+    - Existing inquiries get their clocks started now, so the first check after deploying does not
+      find them all breached (and, with SLA_AUTO_REASSIGN, reassign them)
+    - Conversations already in progress count as answered
+*/
+
+ALTER TABLE inquiries ADD COLUMN IF NOT EXISTS last_expert_reply_at timestamptz;
+ALTER TABLE inquiries ADD COLUMN IF NOT EXISTS traveler_waiting_since timestamptz;
+ALTER TABLE inquiries ADD COLUMN IF NOT EXISTS sla_clocks_from timestamptz;
+
+CREATE TABLE IF NOT EXISTS inquiry_sla_breaches (
+  id bigserial PRIMARY KEY,
+  inquiry_id uuid NOT NULL REFERENCES inquiries(id) ON DELETE CASCADE,
+  metric text NOT NULL CHECK (metric IN ('accept', 'first_reply', 'traveler_wait')),
+  expert_id uuid REFERENCES users(id) ON DELETE SET NULL,
+  expert_name text,
+  started_at timestamptz NOT NULL,
+  due_at timestamptz NOT NULL,
+  breached_at timestamptz NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  escalation text NOT NULL DEFAULT 'notified' CHECK (escalation IN ('notified', 'reassigned')),
+  reassigned_to uuid REFERENCES users(id) ON DELETE SET NULL,
+  reassigned_to_name text,
+  CONSTRAINT inquiry_sla_breaches_clock_key UNIQUE (inquiry_id, metric, started_at)
+);
+
+CREATE INDEX IF NOT EXISTS inquiry_sla_breaches_breached_at_idx ON inquiry_sla_breaches(breached_at DESC);
+CREATE INDEX IF NOT EXISTS inquiry_sla_breaches_expert_id_idx ON inquiry_sla_breaches(expert_id, breached_at DESC);
+
+UPDATE inquiries
+SET last_expert_reply_at = COALESCE(updated_at, created_at)
+WHERE last_expert_reply_at IS NULL
+  AND status IN ('in_progress', 'waiting_on_traveler', 'resolved', 'closed');
+
+UPDATE inquiries
+SET sla_clocks_from = CURRENT_TIMESTAMP
+WHERE sla_clocks_from IS NULL;
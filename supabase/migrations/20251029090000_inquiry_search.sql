@@ -0,0 +1,34 @@
+/*
+  # Inquiry search, filters and sorting
+
+  1. Changes
+    - `inquiries.search_vector` - generated full-text vector over customer name, email, phone and message
+    - GIN index on `search_vector` for word and prefix searches
+    - Trigram indexes on `customer_email` and `customer_phone` for partial matches inside addresses and numbers
+    - Indexes for the status filter and each sort key (`created_at`, `updated_at`, customer name)
+
+  2. Notes
+    - Uses the `simple` text search configuration so names and addresses are not stemmed
+    - `pg_trgm` is enabled if it is not already
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+ALTER TABLE inquiries ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (
+    to_tsvector('simple',
+      coalesce(customer_name, '') || ' ' ||
+      coalesce(customer_email, '') || ' ' ||
+      coalesce(customer_phone, '') || ' ' ||
+      coalesce(message, ''))
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS inquiries_search_vector_idx ON inquiries USING gin(search_vector);
+CREATE INDEX IF NOT EXISTS inquiries_customer_email_trgm_idx ON inquiries USING gin(customer_email gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS inquiries_customer_phone_trgm_idx ON inquiries USING gin(customer_phone gin_trgm_ops);
+
+-- Filtering and sorting
+CREATE INDEX IF NOT EXISTS inquiries_status_created_idx ON inquiries(status, created_at DESC);
+CREATE INDEX IF NOT EXISTS inquiries_created_at_idx ON inquiries(created_at DESC);
+CREATE INDEX IF NOT EXISTS inquiries_updated_at_idx ON inquiries(updated_at DESC);
+CREATE INDEX IF NOT EXISTS inquiries_customer_name_lower_idx ON inquiries(lower(customer_name));
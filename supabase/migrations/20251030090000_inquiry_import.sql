@@ -0,0 +1,15 @@
+/*
+  # Duplicate lookups for bulk inquiry import
+
+  1. Changes
+    - Index on the normalized customer email (`lower(trim(customer_email))`)
+    - Index on the customer phone without formatting characters
+
+  2. Notes
+    - The import checks every batch of spreadsheet rows against open inquiries with the same
+      email or phone; these expressions match `CUSTOMER_EMAIL_KEY_SQL` and `CUSTOMER_PHONE_KEY_SQL`
+      in backend/utils/inquiryImport.js
+*/
+
+CREATE INDEX IF NOT EXISTS inquiries_customer_email_key_idx ON inquiries(lower(trim(customer_email)));
+CREATE INDEX IF NOT EXISTS inquiries_customer_phone_key_idx ON inquiries(regexp_replace(coalesce(customer_phone, ''), '[^0-9+]', '', 'g'));
@@ -0,0 +1,13 @@
+/*
+  # Refresh token rotation
+
+  1. Changes
+    - `user_sessions.refresh_token_id` - `jti` of the session's current refresh token; replaced on
+      every refresh. NULL for sessions started before this migration until their next refresh
+
+  2. Security
+    - `/api/auth/refresh` only accepts the current refresh token of a session. Presenting an older
+      one means it was copied, so the whole session is revoked
+*/
+
+ALTER TABLE user_sessions ADD COLUMN IF NOT EXISTS refresh_token_id uuid;